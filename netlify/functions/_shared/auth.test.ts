@@ -1,3 +1,4 @@
+import jwt from 'jsonwebtoken';
 import {
   hashPassword,
   comparePassword,
@@ -7,6 +8,8 @@ import {
   hashRefreshToken,
   getRefreshTokenExpiry,
   generateToken,
+  generateUnsubscribeToken,
+  verifyUnsubscribeToken,
 } from './auth';
 
 describe('auth utilities', () => {
@@ -84,6 +87,16 @@ describe('auth utilities', () => {
       expect(() => verifyToken(tampered)).toThrow();
     });
 
+    it('rejects an unsubscribe token', () => {
+      const token = generateUnsubscribeToken('user-123');
+      expect(() => verifyToken(token)).toThrow('Not an access token');
+    });
+
+    it('rejects a token without a role or username', () => {
+      const token = jwt.sign({ userId: 'user-123' }, 'test-secret-key-for-jwt');
+      expect(() => verifyToken(token)).toThrow('Not an access token');
+    });
+
     it('throws when JWT_SECRET is missing', () => {
       vi.stubEnv('JWT_SECRET', '');
       expect(() => generateAccessToken(mockUser)).toThrow('Missing required environment variable');
@@ -138,6 +151,36 @@ describe('auth utilities', () => {
     });
   });
 
+  describe('generateUnsubscribeToken / verifyUnsubscribeToken', () => {
+    it('round-trips the user ID', () => {
+      const token = generateUnsubscribeToken('user-123');
+      expect(verifyUnsubscribeToken(token)).toBe('user-123');
+    });
+
+    it('rejects a tampered token', () => {
+      const token = generateUnsubscribeToken('user-123');
+      expect(verifyUnsubscribeToken(token.slice(0, -2) + 'xx')).toBeNull();
+    });
+
+    it('rejects a token signed without the unsubscribe audience', () => {
+      const token = jwt.sign(
+        { userId: 'user-123', purpose: 'unsubscribe' },
+        'test-secret-key-for-jwt'
+      );
+      expect(verifyUnsubscribeToken(token)).toBeNull();
+    });
+
+    it('rejects an access token', () => {
+      const accessToken = generateAccessToken({
+        id: 'user-123',
+        username: 'alice',
+        role: 'user',
+        phoneVerified: true,
+      } as any);
+      expect(verifyUnsubscribeToken(accessToken)).toBeNull();
+    });
+  });
+
   describe('generateToken (legacy alias)', () => {
     it('is the same function as generateAccessToken', () => {
       expect(generateToken).toBe(generateAccessToken);
@@ -23,6 +23,8 @@ function getRequiredEnv(name: string): string {
 const ACCESS_TOKEN_EXPIRES = '15m';
 // Refresh token: long-lived (30 days)
 const REFRESH_TOKEN_EXPIRES_DAYS = 30;
+// Audience of the tokens in email unsubscribe links
+const UNSUBSCRIBE_AUDIENCE = 'unsubscribe';
 
 export interface JwtPayload {
   userId: string;
@@ -85,11 +87,16 @@ export function getRefreshTokenExpiry(): Date {
 }
 
 /**
- * Verify access token
+ * Verify access token. Tokens signed for anything else, such as an unsubscribe link,
+ * are rejected even though they share the secret.
  */
 export function verifyToken(token: string): JwtPayload {
   const jwtSecret = getRequiredEnv('JWT_SECRET');
-  return jwt.verify(token, jwtSecret) as JwtPayload;
+  const payload = jwt.verify(token, jwtSecret) as Partial<JwtPayload> & jwt.JwtPayload;
+  if (payload.purpose || payload.aud || !payload.userId || !payload.role || !payload.username) {
+    throw new jwt.JsonWebTokenError('Not an access token');
+  }
+  return payload as JwtPayload;
 }
 
 /**
@@ -99,5 +106,34 @@ export function hashRefreshToken(token: string): string {
   return crypto.createHash('sha256').update(token).digest('hex');
 }
 
+/**
+ * Signed token for the unsubscribe link in an email. It doesn't expire, so the
+ * link in an old email still works; its audience keeps it from being accepted as an
+ * access token.
+ */
+export function generateUnsubscribeToken(userId: string): string {
+  const jwtSecret = getRequiredEnv('JWT_SECRET');
+  return jwt.sign({ userId, purpose: 'unsubscribe' }, jwtSecret, {
+    audience: UNSUBSCRIBE_AUDIENCE,
+  });
+}
+
+/**
+ * Verify an unsubscribe token. Returns the user ID, or null if the token is invalid
+ * or was issued for something else, such as an access token.
+ */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const jwtSecret = getRequiredEnv('JWT_SECRET');
+  try {
+    const payload = jwt.verify(token, jwtSecret, { audience: UNSUBSCRIBE_AUDIENCE }) as {
+      userId?: string;
+      purpose?: string;
+    };
+    return payload.purpose === 'unsubscribe' && payload.userId ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
 // Legacy export for backward compatibility
 export const generateToken = generateAccessToken;
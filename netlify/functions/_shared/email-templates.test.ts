@@ -0,0 +1,79 @@
+import { renderPasswordResetCode, renderWeeklyDigest, type WeeklyDigest } from './email-templates';
+
+const links = {
+  appUrl: 'https://fantasy.example.com/leaderboard',
+  preferencesUrl: 'https://fantasy.example.com/profile',
+  unsubscribeUrl: 'https://fantasy.example.com/unsubscribe?token=abc',
+};
+
+const digest: WeeklyDigest = {
+  firstName: 'Alice',
+  gameweek: 5,
+  points: 42,
+  seasonRank: 3,
+  previousSeasonRank: 5,
+  bestGolfer: { name: 'Tom Morris', points: 30 },
+  topManager: { name: 'Bob Golfer', points: 55 },
+  upcomingTournaments: [{ name: 'Summer Stableford', startDate: new Date('2026-05-23T09:00:00Z') }],
+};
+
+describe('email-templates', () => {
+  describe('renderWeeklyDigest', () => {
+    it('covers points, rank movement, highlights and upcoming tournaments', () => {
+      const email = renderWeeklyDigest(digest, links);
+
+      expect(email.subject).toBe('Gameweek 5: you scored 42 pts');
+      expect(email.text).toContain('You scored 42 pts.');
+      expect(email.text).toContain('You moved up from 5th to 3rd in the season.');
+      expect(email.text).toContain('Top manager: Bob Golfer (55 pts)');
+      expect(email.text).toContain('Best golfer: Tom Morris (30 pts)');
+      expect(email.text).toContain('Sat 23 May: Summer Stableford');
+      expect(email.text).toContain(`Unsubscribe: ${links.unsubscribeUrl}`);
+      expect(email.html).toContain(`href="${links.unsubscribeUrl}"`);
+    });
+
+    it('describes a drop and the first gameweek', () => {
+      expect(
+        renderWeeklyDigest({ ...digest, seasonRank: 12, previousSeasonRank: 11 }, links).text
+      ).toContain('You dropped from 11th to 12th in the season.');
+      expect(
+        renderWeeklyDigest({ ...digest, seasonRank: 1, previousSeasonRank: null }, links).text
+      ).toContain("You're 1st in the season.");
+    });
+
+    it('escapes names in the HTML version', () => {
+      const email = renderWeeklyDigest(
+        { ...digest, topManager: { name: '<b>Bob</b>', points: 1 } },
+        links
+      );
+
+      expect(email.html).toContain('&lt;b&gt;Bob&lt;/b&gt; (1 pt)');
+      expect(email.html).not.toContain('<b>Bob</b>');
+    });
+
+    it('says when nothing is scheduled', () => {
+      const email = renderWeeklyDigest({ ...digest, upcomingTournaments: [] }, links);
+
+      expect(email.text).toContain('No tournaments are scheduled yet.');
+    });
+  });
+
+  describe('renderPasswordResetCode', () => {
+    const email = renderPasswordResetCode(
+      { firstName: 'Alice', code: '042817', expiresInMinutes: 15 },
+      'https://fantasy.example.com/forgot-password'
+    );
+
+    it('includes the code and how long it lasts', () => {
+      expect(email.subject).toBe('Your password reset code is 042817');
+      expect(email.text).toContain('042817');
+      expect(email.text).toContain('within 15 minutes');
+      expect(email.html).toContain('href="https://fantasy.example.com/forgot-password"');
+    });
+
+    it('has no unsubscribe link', () => {
+      expect(email.text).not.toContain('Unsubscribe');
+      expect(email.html).not.toContain('Unsubscribe');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+// Email templates - each renders the subject, plain text and HTML of one kind of email
+
+import type { EmailMessage } from './email';
+
+export type RenderedEmail = Omit<EmailMessage, 'to'>;
+
+export interface EmailLinks {
+  appUrl: string; // Where the main call to action goes
+  preferencesUrl: string;
+  unsubscribeUrl: string;
+}
+
+export interface WeeklyDigest {
+  firstName: string;
+  gameweek: number;
+  points: number;
+  seasonRank: number | null;
+  previousSeasonRank: number | null; // Null before the first scored gameweek
+  bestGolfer: { name: string; points: number } | null;
+  topManager: { name: string; points: number } | null;
+  upcomingTournaments: { name: string; startDate: Date }[];
+}
+
+const BRAND = 'Bearwood Lakes Fantasy League';
+
+const ordinal = (n: number): string => {
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`;
+  const suffix = ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (date: Date): string =>
+  new Date(date).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'Europe/London',
+  });
+
+const pts = (points: number) => `${points} pt${points === 1 ? '' : 's'}`;
+
+function rankMovement(rank: number | null, previous: number | null): string | null {
+  if (rank === null) return null;
+  if (previous === null || previous === rank) return `You're ${ordinal(rank)} in the season.`;
+  return rank < previous
+    ? `You moved up from ${ordinal(previous)} to ${ordinal(rank)} in the season.`
+    : `You dropped from ${ordinal(previous)} to ${ordinal(rank)} in the season.`;
+}
+
+/**
+ * Wrap a message's sections in the shared layout. Emails a manager can opt out of
+ * pass preference and unsubscribe links for the footer; account emails such as
+ * reset codes leave them out.
+ */
+function renderLayout(
+  heading: string,
+  sections: { title: string; lines: string[] }[],
+  links: Pick<EmailLinks, 'appUrl'> & Partial<EmailLinks>,
+  callToAction: string
+): Pick<RenderedEmail, 'text' | 'html'> {
+  const footerLinks = [
+    { label: 'Email preferences', url: links.preferencesUrl },
+    { label: 'Unsubscribe', url: links.unsubscribeUrl },
+  ].filter((link): link is { label: string; url: string } => Boolean(link.url));
+
+  const text = [
+    heading,
+    '',
+    ...sections.flatMap((section) => [section.title.toUpperCase(), ...section.lines, '']),
+    `${callToAction}: ${links.appUrl}`,
+    '',
+    '--',
+    BRAND,
+    ...footerLinks.map((link) => `${link.label}: ${link.url}`),
+  ].join('\n');
+
+  const sectionHtml = sections
+    .map((section) =>
+      [
+        `<h2 style="margin:16px 0 8px;font-size:16px;color:#00153c;">${escapeHtml(section.title)}</h2>`,
+        ...section.lines.map((line) => `<p style="margin:0 0 4px;">${escapeHtml(line)}</p>`),
+      ].join('\n        ')
+    )
+    .join('\n        ');
+
+  const footerHtml = footerLinks
+    .map((link) => `<a href="${escapeHtml(link.url)}" style="color:#7c8787;">${link.label}</a>`)
+    .join(' ·\n        ');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#faf8f5;font-family:Arial,sans-serif;color:#1a1a2e;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+      <div style="background:#00153c;color:#ffffff;padding:16px 24px;font-weight:bold;">⛳ ${BRAND}</div>
+      <div style="padding:24px;">
+        <h1 style="margin:0 0 16px;font-size:20px;color:#00153c;">${escapeHtml(heading)}</h1>
+        ${sectionHtml}
+        <p style="margin:24px 0 0;"><a href="${escapeHtml(links.appUrl)}" style="display:inline-block;padding:10px 16px;background:#c9a227;color:#1a1a2e;text-decoration:none;border-radius:4px;font-weight:bold;">${escapeHtml(callToAction)}</a></p>
+      </div>
+      <div style="padding:16px 24px;font-size:12px;color:#7c8787;border-top:1px solid #e8dcc4;">
+        ${footerLinks.length > 0 ? footerHtml : BRAND}
+      </div>
+    </div>
+  </body>
+</html>`;
+
+  return { text, html };
+}
+
+export function renderWeeklyDigest(digest: WeeklyDigest, links: EmailLinks): RenderedEmail {
+  const yourWeek = [`You scored ${pts(digest.points)}.`];
+  const movement = rankMovement(digest.seasonRank, digest.previousSeasonRank);
+  if (movement) yourWeek.push(movement);
+
+  const highlights: string[] = [];
+  if (digest.topManager) {
+    highlights.push(`Top manager: ${digest.topManager.name} (${pts(digest.topManager.points)})`);
+  }
+  if (digest.bestGolfer) {
+    highlights.push(`Best golfer: ${digest.bestGolfer.name} (${pts(digest.bestGolfer.points)})`);
+  }
+
+  const sections = [{ title: 'Your week', lines: yourWeek }];
+  if (highlights.length > 0) sections.push({ title: 'Highlights', lines: highlights });
+  sections.push({
+    title: 'Coming up',
+    lines:
+      digest.upcomingTournaments.length > 0
+        ? digest.upcomingTournaments.map((t) => `${formatDate(t.startDate)}: ${t.name}`)
+        : ['No tournaments are scheduled yet.'],
+  });
+
+  return {
+    subject: `Gameweek ${digest.gameweek}: you scored ${pts(digest.points)}`,
+    ...renderLayout(
+      `Hi ${digest.firstName}, here's your Gameweek ${digest.gameweek} round-up`,
+      sections,
+      links,
+      'View the leaderboard'
+    ),
+  };
+}
+
+export interface PasswordResetCode {
+  firstName: string;
+  code: string;
+  expiresInMinutes: number;
+}
+
+export function renderPasswordResetCode(reset: PasswordResetCode, appUrl: string): RenderedEmail {
+  return {
+    subject: `Your password reset code is ${reset.code}`,
+    ...renderLayout(
+      `Hi ${reset.firstName}, here's your password reset code`,
+      [
+        {
+          title: 'Your code',
+          lines: [
+            reset.code,
+            `Enter it on the reset page within ${reset.expiresInMinutes} minutes.`,
+            "If you didn't ask to reset your password, you can ignore this email. Your password hasn't changed.",
+          ],
+        },
+      ],
+      { appUrl },
+      'Reset your password'
+    ),
+  };
+}
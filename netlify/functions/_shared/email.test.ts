@@ -0,0 +1,156 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  consoleTransport,
+  createFileTransport,
+  createSmtpTransport,
+  getAppUrl,
+  getEmailTransport,
+} from './email';
+
+const { mockCreateTransport, mockSendMail } = vi.hoisted(() => ({
+  mockCreateTransport: vi.fn(),
+  mockSendMail: vi.fn(),
+}));
+
+vi.mock('nodemailer', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('nodemailer')>();
+  return {
+    default: {
+      createTransport: (options: any) => {
+        mockCreateTransport(options);
+        // Stream transport builds a real message; anything else is faked
+        return options.streamTransport
+          ? actual.default.createTransport(options)
+          : { sendMail: mockSendMail };
+      },
+    },
+  };
+});
+
+const message = {
+  to: 'alice@example.com',
+  subject: 'Gameweek 5 digest',
+  text: 'You scored 42 points',
+  html: '<p>You scored 42 points</p>',
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('email', () => {
+  describe('createSmtpTransport', () => {
+    it('sends through the configured SMTP server', async () => {
+      vi.stubEnv('SMTP_HOST', 'smtp.example.com');
+      vi.stubEnv('SMTP_PORT', '465');
+      vi.stubEnv('SMTP_USER', 'mailer');
+      vi.stubEnv('SMTP_PASS', 'secret');
+      vi.stubEnv('EMAIL_FROM', 'League <league@example.com>');
+
+      await createSmtpTransport().send(message);
+
+      expect(mockCreateTransport).toHaveBeenCalledWith({
+        host: 'smtp.example.com',
+        port: 465,
+        secure: true,
+        auth: { user: 'mailer', pass: 'secret' },
+      });
+      expect(mockSendMail).toHaveBeenCalledWith({
+        from: 'League <league@example.com>',
+        ...message,
+      });
+    });
+
+    it('throws when SMTP_HOST is not set', () => {
+      vi.stubEnv('SMTP_HOST', '');
+
+      expect(() => createSmtpTransport()).toThrow(
+        'Missing required environment variable: SMTP_HOST'
+      );
+    });
+  });
+
+  describe('createFileTransport', () => {
+    it('writes the email to an .eml file', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+
+      await createFileTransport(dir).send(message);
+
+      const files = await fs.readdir(dir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/-alice-example-com\.eml$/);
+      const contents = await fs.readFile(path.join(dir, files[0]), 'utf8');
+      expect(contents).toContain('To: alice@example.com');
+      expect(contents).toContain('Subject: Gameweek 5 digest');
+      await fs.rm(dir, { recursive: true });
+    });
+  });
+
+  describe('consoleTransport', () => {
+    it('prints the plain text version', async () => {
+      const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+      await consoleTransport.send(message);
+
+      expect(info).toHaveBeenCalledWith(expect.stringContaining('You scored 42 points'));
+    });
+  });
+
+  describe('getEmailTransport', () => {
+    it('uses the console when SMTP is not configured', () => {
+      vi.stubEnv('CONTEXT', '');
+      vi.stubEnv('EMAIL_TRANSPORT', '');
+      vi.stubEnv('SMTP_HOST', '');
+
+      expect(getEmailTransport()).toBe(consoleTransport);
+    });
+
+    it('uses the console under netlify dev', () => {
+      vi.stubEnv('CONTEXT', 'dev');
+      vi.stubEnv('EMAIL_TRANSPORT', '');
+      vi.stubEnv('SMTP_HOST', '');
+
+      expect(getEmailTransport()).toBe(consoleTransport);
+    });
+
+    it('throws on a deployed site without email configured', () => {
+      vi.stubEnv('CONTEXT', 'production');
+      vi.stubEnv('EMAIL_TRANSPORT', '');
+      vi.stubEnv('SMTP_HOST', '');
+
+      expect(() => getEmailTransport()).toThrow('Email is not configured');
+    });
+
+    it('uses SMTP when SMTP_HOST is set', () => {
+      vi.stubEnv('EMAIL_TRANSPORT', '');
+      vi.stubEnv('SMTP_HOST', 'smtp.example.com');
+
+      getEmailTransport();
+
+      expect(mockCreateTransport).toHaveBeenCalledWith(
+        expect.objectContaining({ host: 'smtp.example.com', port: 587, secure: false })
+      );
+    });
+
+    it('rejects an unknown transport', () => {
+      vi.stubEnv('EMAIL_TRANSPORT', 'carrier-pigeon');
+
+      expect(() => getEmailTransport()).toThrow('Unknown EMAIL_TRANSPORT: carrier-pigeon');
+    });
+  });
+
+  describe('getAppUrl', () => {
+    it('joins the path to the site address', () => {
+      vi.stubEnv('URL', 'https://fantasy.example.com/');
+
+      expect(getAppUrl('/profile')).toBe('https://fantasy.example.com/profile');
+    });
+  });
+});
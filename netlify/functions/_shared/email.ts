@@ -0,0 +1,123 @@
+// Email delivery with a pluggable transport: SMTP in production, file or console locally
+
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Delivers an email. Services take a transport so tests can pass a fake.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export type EmailTransportName = 'smtp' | 'file' | 'console';
+
+const DEFAULT_FROM = 'Bearwood Lakes Fantasy League <no-reply@bearwoodlakesfantasy.co.uk>';
+const DEFAULT_OUTBOX_DIR = '.netlify/emails';
+
+function getRequiredEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(
+      `Missing required environment variable: ${name}. ` +
+        'Please ensure it is set in your Netlify environment variables or .env file.'
+    );
+  }
+  return value;
+}
+
+const getFromAddress = (): string => process.env.EMAIL_FROM || DEFAULT_FROM;
+
+/**
+ * Sends through the SMTP server in SMTP_HOST, SMTP_PORT, SMTP_USER and SMTP_PASS.
+ * Port 465 uses TLS from the start; any other port upgrades with STARTTLS.
+ */
+export function createSmtpTransport(): EmailTransport {
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const mailer = nodemailer.createTransport({
+    host: getRequiredEnv('SMTP_HOST'),
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: getRequiredEnv('SMTP_PASS') }
+      : undefined,
+  });
+
+  return {
+    async send(message) {
+      await mailer.sendMail({ from: getFromAddress(), ...message });
+    },
+  };
+}
+
+/**
+ * Writes each email to an .eml file in `dir`, which opens in any mail client.
+ * For local development, so digests can be checked without sending anything.
+ */
+export function createFileTransport(dir: string = DEFAULT_OUTBOX_DIR): EmailTransport {
+  const mailer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    async send(message) {
+      const info = await mailer.sendMail({ from: getFromAddress(), ...message });
+      await fs.mkdir(dir, { recursive: true });
+      const recipient = message.to.replace(/[^a-z0-9]+/gi, '-');
+      await fs.writeFile(path.join(dir, `${Date.now()}-${recipient}.eml`), info.message as Buffer);
+    },
+  };
+}
+
+/**
+ * Prints each email's plain text version instead of sending it.
+ */
+export const consoleTransport: EmailTransport = {
+  async send(message) {
+    console.info(`📧 To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  },
+};
+
+/**
+ * The transport named by EMAIL_TRANSPORT. Without it, SMTP is used when SMTP_HOST is
+ * set and the console otherwise, so local development never sends real email. A
+ * deployed site (Netlify sets CONTEXT outside `netlify dev`) must configure one, so
+ * emails such as reset codes never end up only in the function logs.
+ */
+export function getEmailTransport(): EmailTransport {
+  const deployed = Boolean(process.env.CONTEXT) && process.env.CONTEXT !== 'dev';
+  if (deployed && !process.env.EMAIL_TRANSPORT && !process.env.SMTP_HOST) {
+    throw new Error(
+      'Email is not configured. Set SMTP_HOST, or EMAIL_TRANSPORT to choose a transport'
+    );
+  }
+
+  const name = (process.env.EMAIL_TRANSPORT ||
+    (process.env.SMTP_HOST ? 'smtp' : 'console')) as EmailTransportName;
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport(process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+    case 'console':
+      return consoleTransport;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${name}. Use smtp, file or console`);
+  }
+}
+
+/**
+ * Absolute link into the app for use in emails. Netlify sets URL to the site's
+ * primary address.
+ */
+export function getAppUrl(pathname: string): string {
+  const base = (process.env.URL || 'http://localhost:8888').replace(/\/$/, '');
+  return `${base}${pathname}`;
+}
@@ -0,0 +1,55 @@
+import { ObjectId } from 'mongodb';
+import { toAward, AWARDS_COLLECTION } from './Award';
+import type { AwardDocument } from './Award';
+
+describe('Award model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+  const userId = new ObjectId();
+  const adminId = new ObjectId();
+
+  const fullDoc: AwardDocument = {
+    _id: objectId,
+    userId,
+    type: 'month',
+    season: 2026,
+    label: 'April 2026',
+    periodStart: new Date('2026-04-01'),
+    periodEnd: new Date('2026-04-30'),
+    points: 96,
+    shared: true,
+    overridden: true,
+    awardedBy: adminId,
+    awardedAt: now,
+  };
+
+  describe('toAward', () => {
+    it('maps all fields correctly', () => {
+      const award = toAward(fullDoc);
+      expect(award.id).toBe(objectId.toString());
+      expect(award.userId).toBe(userId.toString());
+      expect(award.type).toBe('month');
+      expect(award.season).toBe(2026);
+      expect(award.label).toBe('April 2026');
+      expect(award.periodStart).toEqual(fullDoc.periodStart);
+      expect(award.periodEnd).toEqual(fullDoc.periodEnd);
+      expect(award.points).toBe(96);
+      expect(award.shared).toBe(true);
+      expect(award.overridden).toBe(true);
+      expect(award.awardedBy).toBe(adminId.toString());
+      expect(award.awardedAt).toBe(now);
+    });
+
+    it('maps an automatic award with no admin', () => {
+      const award = toAward({ ...fullDoc, overridden: false, awardedBy: null });
+      expect(award.overridden).toBe(false);
+      expect(award.awardedBy).toBeNull();
+    });
+  });
+
+  describe('AWARDS_COLLECTION', () => {
+    it('equals "awards"', () => {
+      expect(AWARDS_COLLECTION).toBe('awards');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+// Award model (MongoDB) - manager of the week / month, one document per winner
+
+import { ObjectId } from 'mongodb';
+import type { Award, AwardType } from '../../../../shared/types';
+
+export interface AwardDocument {
+  _id: ObjectId;
+  userId: ObjectId;
+  type: AwardType;
+  season: number;
+  label: string;
+  periodStart: Date;
+  periodEnd: Date;
+  points: number;
+  shared: boolean;
+  overridden: boolean;
+  awardedBy: ObjectId | null;
+  awardedAt: Date;
+}
+
+export function toAward(doc: AwardDocument): Award {
+  return {
+    id: doc._id.toString(),
+    userId: doc.userId.toString(),
+    type: doc.type,
+    season: doc.season,
+    label: doc.label,
+    periodStart: doc.periodStart,
+    periodEnd: doc.periodEnd,
+    points: doc.points,
+    shared: doc.shared ?? false,
+    overridden: doc.overridden ?? false,
+    awardedBy: doc.awardedBy?.toString() ?? null,
+    awardedAt: doc.awardedAt,
+  };
+}
+
+export const AWARDS_COLLECTION = 'awards';
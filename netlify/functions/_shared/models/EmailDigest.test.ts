@@ -0,0 +1,19 @@
+import { toEmailPreferences, EMAIL_DIGESTS_COLLECTION } from './EmailDigest';
+
+describe('EmailDigest model', () => {
+  describe('toEmailPreferences', () => {
+    it('keeps stored preferences', () => {
+      expect(toEmailPreferences({ weeklyDigest: false })).toEqual({ weeklyDigest: false });
+    });
+
+    it('defaults to receiving the weekly digest', () => {
+      expect(toEmailPreferences(undefined)).toEqual({ weeklyDigest: true });
+    });
+  });
+
+  describe('EMAIL_DIGESTS_COLLECTION', () => {
+    it('is emailDigests', () => {
+      expect(EMAIL_DIGESTS_COLLECTION).toBe('emailDigests');
+    });
+  });
+});
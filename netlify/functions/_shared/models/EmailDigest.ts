@@ -0,0 +1,29 @@
+// Email digest model (MongoDB)
+
+import { ObjectId } from 'mongodb';
+import { DEFAULT_EMAIL_PREFERENCES, type EmailPreferences } from '../../../../shared/types';
+
+// A gameweek whose digest has gone out, so it is only sent once
+export interface EmailDigestDocument {
+  _id: ObjectId;
+  season: number;
+  weekStart: Date;
+  gameweek: number;
+  sent: number;
+  failed: number;
+  sentAt: Date;
+}
+
+/**
+ * A manager's email preferences as stored on their user document, with defaults for
+ * managers who have never saved any.
+ */
+export function toEmailPreferences(
+  stored: Partial<EmailPreferences> | undefined
+): EmailPreferences {
+  return {
+    weeklyDigest: stored?.weeklyDigest ?? DEFAULT_EMAIL_PREFERENCES.weeklyDigest,
+  };
+}
+
+export const EMAIL_DIGESTS_COLLECTION = 'emailDigests';
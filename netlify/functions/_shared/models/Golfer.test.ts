@@ -1,11 +1,5 @@
 import { ObjectId } from 'mongodb';
-import {
-  toGolfer,
-  defaultStats2024,
-  defaultStats2025,
-  defaultStats2026,
-  GOLFERS_COLLECTION,
-} from './Golfer';
+import { toGolfer, GOLFERS_COLLECTION } from './Golfer';
 import type { GolferDocument } from './Golfer';
 
 describe('Golfer model', () => {
@@ -27,10 +21,12 @@ describe('Golfer model', () => {
     lastName: 'Woods',
     picture: 'https://example.com/tiger.jpg',
     price: 12000000,
+    handicapIndex: 4.2,
     isActive: true,
-    stats2024: { ...stats },
-    stats2025: { ...stats, timesPlayed: 5 },
-    stats2026: { ...stats, timesPlayed: 0 },
+    statsBySeason: {
+      '2025': { ...stats, timesPlayed: 5 },
+      '2026': { ...stats },
+    },
     createdAt: now,
     updatedAt: now,
   };
@@ -46,42 +42,24 @@ describe('Golfer model', () => {
       expect(golfer.lastName).toBe('Woods');
       expect(golfer.picture).toBe('https://example.com/tiger.jpg');
       expect(golfer.price).toBe(12000000);
+      expect(golfer.handicapIndex).toBe(4.2);
       expect(golfer.isActive).toBe(true);
     });
 
-    it('maps stats objects', () => {
-      const golfer = toGolfer(fullDoc);
-      expect(golfer.stats2024.timesPlayed).toBe(10);
-      expect(golfer.stats2025.timesPlayed).toBe(5);
-      expect(golfer.stats2026.timesPlayed).toBe(0);
-    });
-
-    it('defaults stats2024 when falsy', () => {
-      const doc = { ...fullDoc, stats2024: undefined } as unknown as GolferDocument;
-      expect(toGolfer(doc).stats2024).toEqual(defaultStats2024);
+    it('defaults a missing handicap index to null', () => {
+      const { handicapIndex: _handicapIndex, ...doc } = fullDoc;
+      expect(toGolfer(doc as GolferDocument).handicapIndex).toBeNull();
     });
 
-    it('defaults stats2025 when falsy', () => {
-      const doc = { ...fullDoc, stats2025: undefined } as unknown as GolferDocument;
-      expect(toGolfer(doc).stats2025).toEqual(defaultStats2025);
-    });
-
-    it('defaults stats2026 when falsy', () => {
-      const doc = { ...fullDoc, stats2026: undefined } as unknown as GolferDocument;
-      expect(toGolfer(doc).stats2026).toEqual(defaultStats2026);
+    it('maps stats keyed by season', () => {
+      const golfer = toGolfer(fullDoc);
+      expect(golfer.statsBySeason['2025'].timesPlayed).toBe(5);
+      expect(golfer.statsBySeason['2026'].timesPlayed).toBe(10);
     });
-  });
 
-  describe('default stats', () => {
-    it('all have zero values', () => {
-      for (const stats of [defaultStats2024, defaultStats2025, defaultStats2026]) {
-        expect(stats.timesScored36Plus).toBe(0);
-        expect(stats.timesScored32Plus).toBe(0);
-        expect(stats.timesFinished1st).toBe(0);
-        expect(stats.timesFinished2nd).toBe(0);
-        expect(stats.timesFinished3rd).toBe(0);
-        expect(stats.timesPlayed).toBe(0);
-      }
+    it('defaults missing season stats to an empty map', () => {
+      const { statsBySeason: _statsBySeason, ...doc } = fullDoc;
+      expect(toGolfer(doc as GolferDocument).statsBySeason).toEqual({});
     });
   });
 
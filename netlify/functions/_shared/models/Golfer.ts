@@ -1,12 +1,7 @@
 // Golfer model (MongoDB)
 
 import { ObjectId } from 'mongodb';
-import type {
-  Golfer,
-  Golfer2024Stats,
-  Golfer2025Stats,
-  Golfer2026Stats,
-} from '../../../../shared/types';
+import type { Golfer, GolferStatsBySeason } from '../../../../shared/types';
 
 export interface GolferDocument {
   _id: ObjectId;
@@ -14,41 +9,14 @@ export interface GolferDocument {
   lastName: string;
   picture: string;
   price: number;
+  handicapIndex?: number | null;
+  handicapEffectiveDate?: Date; // Date the current handicap index took effect
   isActive: boolean;
-  stats2024: Golfer2024Stats;
-  stats2025: Golfer2025Stats;
-  stats2026: Golfer2026Stats;
+  statsBySeason?: GolferStatsBySeason; // Keyed by season name; see golfer-stats.service
   createdAt: Date;
   updatedAt: Date;
 }
 
-const defaultStats2024: Golfer2024Stats = {
-  timesScored36Plus: 0,
-  timesScored32Plus: 0,
-  timesFinished1st: 0,
-  timesFinished2nd: 0,
-  timesFinished3rd: 0,
-  timesPlayed: 0,
-};
-
-const defaultStats2025: Golfer2025Stats = {
-  timesScored36Plus: 0,
-  timesScored32Plus: 0,
-  timesFinished1st: 0,
-  timesFinished2nd: 0,
-  timesFinished3rd: 0,
-  timesPlayed: 0,
-};
-
-const defaultStats2026: Golfer2026Stats = {
-  timesScored36Plus: 0,
-  timesScored32Plus: 0,
-  timesFinished1st: 0,
-  timesFinished2nd: 0,
-  timesFinished3rd: 0,
-  timesPlayed: 0,
-};
-
 export function toGolfer(doc: GolferDocument): Golfer {
   return {
     id: doc._id.toString(),
@@ -56,14 +24,12 @@ export function toGolfer(doc: GolferDocument): Golfer {
     lastName: doc.lastName,
     picture: doc.picture,
     price: doc.price,
+    handicapIndex: doc.handicapIndex ?? null,
     isActive: doc.isActive,
-    stats2024: doc.stats2024 || defaultStats2024,
-    stats2025: doc.stats2025 || defaultStats2025,
-    stats2026: doc.stats2026 || defaultStats2026,
+    statsBySeason: doc.statsBySeason ?? {},
     createdAt: doc.createdAt,
     updatedAt: doc.updatedAt,
   };
 }
 
-export { defaultStats2024, defaultStats2025, defaultStats2026 };
 export const GOLFERS_COLLECTION = 'golfers';
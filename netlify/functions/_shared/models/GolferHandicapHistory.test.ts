@@ -0,0 +1,36 @@
+import { ObjectId } from 'mongodb';
+import { toGolferHandicapEntry, GOLFER_HANDICAP_HISTORY_COLLECTION } from './GolferHandicapHistory';
+import type { GolferHandicapHistoryDocument } from './GolferHandicapHistory';
+
+describe('GolferHandicapHistory model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+  const golferId = new ObjectId();
+
+  const doc: GolferHandicapHistoryDocument = {
+    _id: objectId,
+    golferId,
+    handicapIndex: 12.4,
+    effectiveDate: new Date('2026-04-18'),
+    source: 'import',
+    recordedAt: now,
+  };
+
+  describe('toGolferHandicapEntry', () => {
+    it('maps all fields correctly', () => {
+      const entry = toGolferHandicapEntry(doc);
+      expect(entry.id).toBe(objectId.toString());
+      expect(entry.golferId).toBe(golferId.toString());
+      expect(entry.handicapIndex).toBe(12.4);
+      expect(entry.effectiveDate).toEqual(new Date('2026-04-18'));
+      expect(entry.source).toBe('import');
+      expect(entry.recordedAt).toBe(now);
+    });
+  });
+
+  describe('GOLFER_HANDICAP_HISTORY_COLLECTION', () => {
+    it('equals "golferHandicapHistory"', () => {
+      expect(GOLFER_HANDICAP_HISTORY_COLLECTION).toBe('golferHandicapHistory');
+    });
+  });
+});
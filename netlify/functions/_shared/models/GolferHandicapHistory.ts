@@ -0,0 +1,26 @@
+// Golfer handicap history model (MongoDB)
+
+import { ObjectId } from 'mongodb';
+import type { GolferHandicapEntry, HandicapChangeSource } from '../../../../shared/types';
+
+export interface GolferHandicapHistoryDocument {
+  _id: ObjectId;
+  golferId: ObjectId;
+  handicapIndex: number;
+  effectiveDate: Date; // Start of the day the index took effect; one entry per golfer per day
+  source: HandicapChangeSource;
+  recordedAt: Date;
+}
+
+export function toGolferHandicapEntry(doc: GolferHandicapHistoryDocument): GolferHandicapEntry {
+  return {
+    id: doc._id.toString(),
+    golferId: doc.golferId.toString(),
+    handicapIndex: doc.handicapIndex,
+    effectiveDate: doc.effectiveDate,
+    source: doc.source,
+    recordedAt: doc.recordedAt,
+  };
+}
+
+export const GOLFER_HANDICAP_HISTORY_COLLECTION = 'golferHandicapHistory';
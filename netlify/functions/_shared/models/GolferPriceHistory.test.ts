@@ -0,0 +1,51 @@
+import { ObjectId } from 'mongodb';
+import { toGolferPriceChange, GOLFER_PRICE_HISTORY_COLLECTION } from './GolferPriceHistory';
+import type { GolferPriceHistoryDocument } from './GolferPriceHistory';
+
+describe('GolferPriceHistory model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+  const golferId = new ObjectId();
+
+  const fullDoc: GolferPriceHistoryDocument = {
+    _id: objectId,
+    golferId,
+    season: 2026,
+    oldPrice: 8_000_000,
+    newPrice: 8_200_000,
+    source: 'weekly',
+    formRatio: 1.5,
+    netTransfers: 3,
+    weekStart: new Date('2026-04-18'),
+    changedAt: now,
+  };
+
+  describe('toGolferPriceChange', () => {
+    it('maps all fields correctly', () => {
+      const c = toGolferPriceChange(fullDoc);
+      expect(c.id).toBe(objectId.toString());
+      expect(c.golferId).toBe(golferId.toString());
+      expect(c.season).toBe(2026);
+      expect(c.oldPrice).toBe(8_000_000);
+      expect(c.newPrice).toBe(8_200_000);
+      expect(c.change).toBe(200_000);
+      expect(c.source).toBe('weekly');
+      expect(c.formRatio).toBe(1.5);
+      expect(c.netTransfers).toBe(3);
+      expect(c.changedAt).toBe(now);
+    });
+
+    it('defaults missing weekly details to null', () => {
+      const { formRatio: _formRatio, netTransfers: _netTransfers, ...doc } = fullDoc;
+      const c = toGolferPriceChange(doc);
+      expect(c.formRatio).toBeNull();
+      expect(c.netTransfers).toBeNull();
+    });
+  });
+
+  describe('GOLFER_PRICE_HISTORY_COLLECTION', () => {
+    it('equals "golferPriceHistory"', () => {
+      expect(GOLFER_PRICE_HISTORY_COLLECTION).toBe('golferPriceHistory');
+    });
+  });
+});
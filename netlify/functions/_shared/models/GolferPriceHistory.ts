@@ -0,0 +1,34 @@
+// Golfer price history model (MongoDB)
+
+import { ObjectId } from 'mongodb';
+import type { GolferPriceChange, PriceChangeSource } from '../../../../shared/types';
+
+export interface GolferPriceHistoryDocument {
+  _id: ObjectId;
+  golferId: ObjectId;
+  season: number;
+  oldPrice: number;
+  newPrice: number;
+  source: PriceChangeSource;
+  formRatio?: number | null; // Weekly changes: recent form against the field
+  netTransfers?: number; // Weekly changes: transfers in less transfers out
+  weekStart?: Date; // Weekly changes: gameweek the change was made in
+  changedAt: Date;
+}
+
+export function toGolferPriceChange(doc: GolferPriceHistoryDocument): GolferPriceChange {
+  return {
+    id: doc._id.toString(),
+    golferId: doc.golferId.toString(),
+    season: doc.season,
+    oldPrice: doc.oldPrice,
+    newPrice: doc.newPrice,
+    change: doc.newPrice - doc.oldPrice,
+    source: doc.source,
+    formRatio: doc.formRatio ?? null,
+    netTransfers: doc.netTransfers ?? null,
+    changedAt: doc.changedAt,
+  };
+}
+
+export const GOLFER_PRICE_HISTORY_COLLECTION = 'golferPriceHistory';
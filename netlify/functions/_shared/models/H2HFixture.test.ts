@@ -0,0 +1,43 @@
+import { ObjectId } from 'mongodb';
+import { toH2HFixture, H2H_FIXTURES_COLLECTION } from './H2HFixture';
+import type { H2HFixtureDocument } from './H2HFixture';
+
+describe('H2HFixture model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+  const homeUserId = new ObjectId();
+  const awayUserId = new ObjectId();
+
+  const fullDoc: H2HFixtureDocument = {
+    _id: objectId,
+    season: 2026,
+    gameweek: 3,
+    weekStart: new Date('2026-04-18'),
+    homeUserId,
+    awayUserId,
+    createdAt: now,
+  };
+
+  describe('toH2HFixture', () => {
+    it('maps all fields correctly', () => {
+      const f = toH2HFixture(fullDoc);
+      expect(f.id).toBe(objectId.toString());
+      expect(f.season).toBe(2026);
+      expect(f.gameweek).toBe(3);
+      expect(f.weekStart).toEqual(new Date('2026-04-18'));
+      expect(f.homeUserId).toBe(homeUserId.toString());
+      expect(f.awayUserId).toBe(awayUserId.toString());
+      expect(f.createdAt).toBe(now);
+    });
+
+    it('maps a bye to a null away user', () => {
+      expect(toH2HFixture({ ...fullDoc, awayUserId: null }).awayUserId).toBeNull();
+    });
+  });
+
+  describe('H2H_FIXTURES_COLLECTION', () => {
+    it('equals "h2hFixtures"', () => {
+      expect(H2H_FIXTURES_COLLECTION).toBe('h2hFixtures');
+    });
+  });
+});
@@ -0,0 +1,28 @@
+// Head-to-head fixture model (MongoDB)
+
+import { ObjectId } from 'mongodb';
+import type { H2HFixture } from '../../../../shared/types';
+
+export interface H2HFixtureDocument {
+  _id: ObjectId;
+  season: number;
+  gameweek: number;
+  weekStart: Date;
+  homeUserId: ObjectId;
+  awayUserId: ObjectId | null;
+  createdAt: Date;
+}
+
+export function toH2HFixture(doc: H2HFixtureDocument): H2HFixture {
+  return {
+    id: doc._id.toString(),
+    season: doc.season,
+    gameweek: doc.gameweek,
+    weekStart: doc.weekStart,
+    homeUserId: doc.homeUserId.toString(),
+    awayUserId: doc.awayUserId?.toString() || null,
+    createdAt: doc.createdAt,
+  };
+}
+
+export const H2H_FIXTURES_COLLECTION = 'h2hFixtures';
@@ -0,0 +1,51 @@
+import { ObjectId } from 'mongodb';
+import { toLeague, LEAGUES_COLLECTION } from './League';
+import type { LeagueDocument } from './League';
+
+describe('League model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+  const ownerId = new ObjectId();
+  const memberId = new ObjectId();
+
+  const fullDoc: LeagueDocument = {
+    _id: objectId,
+    name: 'Tuesday Roll-up',
+    inviteCode: 'ABCD2345',
+    ownerId,
+    memberIds: [ownerId, memberId],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  describe('toLeague', () => {
+    it('converts ObjectIds to strings', () => {
+      const league = toLeague(fullDoc);
+      expect(league.id).toBe(objectId.toString());
+      expect(league.ownerId).toBe(ownerId.toString());
+      expect(league.memberIds).toEqual([ownerId.toString(), memberId.toString()]);
+    });
+
+    it('maps all fields correctly', () => {
+      const league = toLeague(fullDoc);
+      expect(league.name).toBe('Tuesday Roll-up');
+      expect(league.inviteCode).toBe('ABCD2345');
+      expect(league.memberCount).toBe(2);
+      expect(league.createdAt).toBe(now);
+      expect(league.updatedAt).toBe(now);
+    });
+
+    it('defaults memberIds to an empty list when missing', () => {
+      const doc = { ...fullDoc, memberIds: undefined } as unknown as LeagueDocument;
+      const league = toLeague(doc);
+      expect(league.memberIds).toEqual([]);
+      expect(league.memberCount).toBe(0);
+    });
+  });
+
+  describe('LEAGUES_COLLECTION', () => {
+    it('equals "leagues"', () => {
+      expect(LEAGUES_COLLECTION).toBe('leagues');
+    });
+  });
+});
@@ -0,0 +1,30 @@
+// League model (MongoDB)
+
+import { ObjectId } from 'mongodb';
+import type { League } from '../../../../shared/types';
+
+export interface LeagueDocument {
+  _id: ObjectId;
+  name: string;
+  inviteCode: string;
+  ownerId: ObjectId;
+  memberIds: ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function toLeague(doc: LeagueDocument): League {
+  const memberIds = (doc.memberIds || []).map((id) => id.toString());
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    inviteCode: doc.inviteCode,
+    ownerId: doc.ownerId.toString(),
+    memberIds,
+    memberCount: memberIds.length,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+export const LEAGUES_COLLECTION = 'leagues';
@@ -0,0 +1,54 @@
+import { ObjectId } from 'mongodb';
+import {
+  toNotification,
+  NOTIFICATIONS_COLLECTION,
+  NOTIFIED_RANKS_COLLECTION,
+} from './Notification';
+import type { NotificationDocument } from './Notification';
+
+describe('Notification model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+  const userId = new ObjectId();
+
+  const fullDoc: NotificationDocument = {
+    _id: objectId,
+    userId,
+    type: 'tournament_published',
+    title: 'Spring Medal results are in',
+    message: 'Scores have been published.',
+    link: '/tournaments/t1',
+    key: 'tournament_published:t1',
+    readAt: null,
+    createdAt: now,
+  };
+
+  describe('toNotification', () => {
+    it('maps all fields correctly', () => {
+      const notification = toNotification(fullDoc);
+      expect(notification.id).toBe(objectId.toString());
+      expect(notification.userId).toBe(userId.toString());
+      expect(notification.type).toBe('tournament_published');
+      expect(notification.title).toBe('Spring Medal results are in');
+      expect(notification.message).toBe('Scores have been published.');
+      expect(notification.link).toBe('/tournaments/t1');
+      expect(notification.read).toBe(false);
+      expect(notification.createdAt).toBe(now);
+    });
+
+    it('is read once readAt is set', () => {
+      expect(toNotification({ ...fullDoc, readAt: now }).read).toBe(true);
+    });
+
+    it('does not expose the dedupe key', () => {
+      expect(toNotification(fullDoc)).not.toHaveProperty('key');
+    });
+  });
+
+  describe('collection names', () => {
+    it('are "notifications" and "notifiedRanks"', () => {
+      expect(NOTIFICATIONS_COLLECTION).toBe('notifications');
+      expect(NOTIFIED_RANKS_COLLECTION).toBe('notifiedRanks');
+    });
+  });
+});
@@ -0,0 +1,41 @@
+// Notification model (MongoDB)
+
+import { ObjectId } from 'mongodb';
+import type { NotificationType, UserNotification } from '../../../../shared/types';
+
+export interface NotificationDocument {
+  _id: ObjectId;
+  userId: ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null;
+  key?: string; // Set for one-off events so a repeat is not sent twice
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+// Each manager's season rank when rank change notifications were last sent
+export interface NotifiedRankDocument {
+  _id: ObjectId;
+  userId: ObjectId;
+  season: number;
+  rank: number;
+  updatedAt: Date;
+}
+
+export function toNotification(doc: NotificationDocument): UserNotification {
+  return {
+    id: doc._id.toString(),
+    userId: doc.userId.toString(),
+    type: doc.type,
+    title: doc.title,
+    message: doc.message,
+    link: doc.link ?? null,
+    read: !!doc.readAt,
+    createdAt: doc.createdAt,
+  };
+}
+
+export const NOTIFICATIONS_COLLECTION = 'notifications';
+export const NOTIFIED_RANKS_COLLECTION = 'notifiedRanks';
@@ -0,0 +1,22 @@
+import {
+  getPasswordResetExpiry,
+  PASSWORD_RESETS_COLLECTION,
+  PASSWORD_RESET_MAX_ATTEMPTS,
+} from './PasswordReset';
+
+describe('PasswordReset model', () => {
+  describe('getPasswordResetExpiry', () => {
+    it('expires codes after 15 minutes', () => {
+      const now = new Date('2026-05-09T08:00:00Z');
+      expect(getPasswordResetExpiry(now)).toEqual(new Date('2026-05-09T08:15:00Z'));
+    });
+  });
+
+  it('allows a handful of wrong guesses', () => {
+    expect(PASSWORD_RESET_MAX_ATTEMPTS).toBe(5);
+  });
+
+  it('exports the collection name', () => {
+    expect(PASSWORD_RESETS_COLLECTION).toBe('passwordResets');
+  });
+});
@@ -0,0 +1,22 @@
+// Password reset model (MongoDB)
+
+import { ObjectId } from 'mongodb';
+
+// An emailed reset code. SMS codes are held by Twilio Verify, so aren't stored here.
+export interface PasswordResetDocument {
+  _id?: ObjectId;
+  userId: ObjectId;
+  codeHash: string; // SHA256 hash of the code
+  attempts: number; // Wrong guesses so far
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export const PASSWORD_RESET_CODE_TTL_MS = 15 * 60 * 1000; // 15 minutes
+export const PASSWORD_RESET_MAX_ATTEMPTS = 5;
+
+export function getPasswordResetExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + PASSWORD_RESET_CODE_TTL_MS);
+}
+
+export const PASSWORD_RESETS_COLLECTION = 'passwordResets';
@@ -58,6 +58,37 @@ describe('Pick model', () => {
       expect(pick.createdAt).toBe(now);
       expect(pick.updatedAt).toBe(now);
     });
+
+    it('defaults chips to an empty array', () => {
+      expect(toPick(fullDoc).chips).toEqual([]);
+    });
+
+    it('maps played chips', () => {
+      const chips = [{ chip: 'wildcard' as const, weekStart: now, playedAt: now }];
+      expect(toPick({ ...fullDoc, chips }).chips).toEqual(chips);
+    });
+
+    it('defaults benchIds to an empty array', () => {
+      expect(toPick(fullDoc).benchIds).toEqual([]);
+    });
+
+    it('converts benchIds to strings in priority order', () => {
+      const benchIds = [new ObjectId(), new ObjectId()];
+      expect(toPick({ ...fullDoc, benchIds }).benchIds).toEqual(benchIds.map((id) => id.toString()));
+    });
+
+    it('defaults purchase prices and bank for teams saved before they were kept', () => {
+      const pick = toPick(fullDoc);
+      expect(pick.purchasePrices).toEqual({});
+      expect(pick.bank).toBeNull();
+    });
+
+    it('maps purchase prices and bank', () => {
+      const purchasePrices = { [golferIds[0].toString()]: 8_000_000 };
+      const pick = toPick({ ...fullDoc, purchasePrices, bank: 500_000 });
+      expect(pick.purchasePrices).toEqual(purchasePrices);
+      expect(pick.bank).toBe(500_000);
+    });
   });
 
   describe('toPickHistory', () => {
@@ -1,15 +1,20 @@
 // Pick model (MongoDB)
 
 import { ObjectId } from 'mongodb';
-import type { Pick, PickHistory } from '../../../../shared/types';
+import type { Pick, PickHistory, ChipUsage } from '../../../../shared/types';
 
 export interface PickDocument {
   _id: ObjectId;
   userId: ObjectId;
   golferIds: ObjectId[];
+  benchIds?: ObjectId[];
   captainId?: ObjectId | null;
+  viceCaptainId?: ObjectId | null;
   totalSpent: number;
+  purchasePrices?: Record<string, number>; // Keyed by golfer id
+  bank?: number;
   season: number;
+  chips?: ChipUsage[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -19,9 +24,14 @@ export function toPick(doc: PickDocument): Pick {
     id: doc._id.toString(),
     userId: doc.userId.toString(),
     golferIds: doc.golferIds.map((id) => id.toString()),
+    benchIds: (doc.benchIds || []).map((id) => id.toString()),
     captainId: doc.captainId?.toString() || null,
+    viceCaptainId: doc.viceCaptainId?.toString() || null,
     totalSpent: doc.totalSpent,
+    purchasePrices: doc.purchasePrices || {},
+    bank: doc.bank ?? null,
     season: doc.season,
+    chips: doc.chips || [],
     createdAt: doc.createdAt,
     updatedAt: doc.updatedAt,
   };
@@ -34,6 +44,9 @@ export interface PickHistoryDocument {
   _id: ObjectId;
   userId: ObjectId;
   golferIds: ObjectId[];
+  benchIds?: ObjectId[];
+  captainId?: ObjectId | null;
+  viceCaptainId?: ObjectId | null;
   totalSpent: number;
   season: number;
   changedAt: Date;
@@ -45,6 +58,9 @@ export function toPickHistory(doc: PickHistoryDocument): PickHistory {
     id: doc._id.toString(),
     userId: doc.userId.toString(),
     golferIds: doc.golferIds.map((id) => id.toString()),
+    benchIds: (doc.benchIds || []).map((id) => id.toString()),
+    captainId: doc.captainId?.toString() || null,
+    viceCaptainId: doc.viceCaptainId?.toString() || null,
     totalSpent: doc.totalSpent,
     season: doc.season,
     changedAt: doc.changedAt,
@@ -1,5 +1,5 @@
 import { ObjectId } from 'mongodb';
-import { toRefreshToken, REFRESH_TOKENS_COLLECTION } from './RefreshToken';
+import { toActiveSession, toRefreshToken, REFRESH_TOKENS_COLLECTION } from './RefreshToken';
 import type { RefreshTokenDocument } from './RefreshToken';
 
 describe('RefreshToken model', () => {
@@ -52,6 +52,27 @@ describe('RefreshToken model', () => {
     });
   });
 
+  describe('toActiveSession', () => {
+    it('describes the device and when it was last used', () => {
+      expect(toActiveSession(fullDoc)).toEqual({
+        id: objectId.toString(),
+        device: 'Unknown device',
+        ipAddress: '127.0.0.1',
+        lastUsedAt: now,
+        current: false,
+      });
+    });
+
+    it('marks the session making the request', () => {
+      expect(toActiveSession(fullDoc, 'abc123hash').current).toBe(true);
+      expect(toActiveSession(fullDoc, 'otherhash').current).toBe(false);
+    });
+
+    it('maps a missing IP address to null', () => {
+      expect(toActiveSession({ ...fullDoc, ipAddress: undefined }).ipAddress).toBeNull();
+    });
+  });
+
   describe('REFRESH_TOKENS_COLLECTION', () => {
     it('equals "refreshTokens"', () => {
       expect(REFRESH_TOKENS_COLLECTION).toBe('refreshTokens');
@@ -1,6 +1,8 @@
 // Refresh token model for MongoDB
 
 import { ObjectId } from 'mongodb';
+import { describeDevice } from '../utils/devices';
+import type { ActiveSession } from '../../../../shared/types';
 
 export const REFRESH_TOKENS_COLLECTION = 'refreshTokens';
 
@@ -34,3 +36,16 @@ export function toRefreshToken(doc: RefreshTokenDocument): RefreshToken {
     revokedAt: doc.revokedAt,
   };
 }
+
+export function toActiveSession(
+  doc: RefreshTokenDocument,
+  currentTokenHash?: string | null
+): ActiveSession {
+  return {
+    id: doc._id!.toString(),
+    device: describeDevice(doc.userAgent),
+    ipAddress: doc.ipAddress ?? null,
+    lastUsedAt: doc.createdAt,
+    current: Boolean(currentTokenHash) && doc.tokenHash === currentTokenHash,
+  };
+}
@@ -82,6 +82,14 @@ describe('Score model', () => {
       const doc = { ...fullDoc, golferId: undefined } as unknown as ScoreDocument;
       expect(toScore(doc).golferId).toBe('');
     });
+
+    it('converts partnerIds to strings, defaulting to none', () => {
+      const partnerId = new ObjectId();
+      expect(toScore({ ...fullDoc, partnerIds: [partnerId] }).partnerIds).toEqual([
+        partnerId.toString(),
+      ]);
+      expect(toScore(fullDoc).partnerIds).toEqual([]);
+    });
   });
 
   describe('SCORES_COLLECTION', () => {
@@ -9,6 +9,8 @@ export interface ScoreDocument {
   golferId: ObjectId;
   participated: boolean;
   position: number | null;
+  tied?: boolean;
+  partnerIds?: ObjectId[]; // teammates in a team-format event
   rawScore: number | null;
   basePoints: number;
   bonusPoints: number;
@@ -24,6 +26,8 @@ export function toScore(doc: ScoreDocument): Score {
     golferId: doc.golferId?.toString() || '',
     participated: doc.participated ?? true,
     position: doc.position,
+    tied: doc.tied ?? false,
+    partnerIds: (doc.partnerIds || []).map((id) => id.toString()),
     rawScore: doc.rawScore ?? null,
     basePoints: doc.basePoints ?? 0,
     bonusPoints: doc.bonusPoints ?? 0,
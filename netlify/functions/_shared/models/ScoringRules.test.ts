@@ -0,0 +1,58 @@
+import { ObjectId } from 'mongodb';
+import { toSeasonScoringRules, SCORING_RULES_COLLECTION } from './ScoringRules';
+import type { ScoringRulesDocument } from './ScoringRules';
+import { DEFAULT_SCORING_RULES } from '../../../../shared/types/tournament.types';
+
+describe('ScoringRules model', () => {
+  const now = new Date();
+
+  const fullDoc: ScoringRulesDocument = {
+    _id: new ObjectId(),
+    season: 2026,
+    positionPoints: [12, 8, 6, 4],
+    bonusBands: DEFAULT_SCORING_RULES.bonusBands,
+    multipliers: { ...DEFAULT_SCORING_RULES.multipliers, founders: 6 },
+    appearancePoints: 1,
+    tiePolicy: 'full',
+    updatedBy: new ObjectId(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  describe('toSeasonScoringRules', () => {
+    it('maps all fields correctly', () => {
+      const r = toSeasonScoringRules(fullDoc);
+      expect(r.season).toBe(2026);
+      expect(r.positionPoints).toEqual([12, 8, 6, 4]);
+      expect(r.bonusBands).toEqual(DEFAULT_SCORING_RULES.bonusBands);
+      expect(r.multipliers.founders).toBe(6);
+      expect(r.appearancePoints).toBe(1);
+      expect(r.tiePolicy).toBe('full');
+      expect(r.isDefault).toBe(false);
+      expect(r.updatedAt).toBe(now);
+    });
+
+    it('splits ties when the ruleset was saved before tie policies existed', () => {
+      const r = toSeasonScoringRules({
+        ...fullDoc,
+        tiePolicy: undefined as unknown as ScoringRulesDocument['tiePolicy'],
+      });
+      expect(r.tiePolicy).toBe('split');
+    });
+
+    it('falls back to the default multiplier for types missing from the ruleset', () => {
+      const { weekend_medal: _weekendMedal, ...multipliers } = fullDoc.multipliers;
+      const r = toSeasonScoringRules({
+        ...fullDoc,
+        multipliers: multipliers as ScoringRulesDocument['multipliers'],
+      });
+      expect(r.multipliers.weekend_medal).toBe(2);
+    });
+  });
+
+  describe('SCORING_RULES_COLLECTION', () => {
+    it('equals "scoringRules"', () => {
+      expect(SCORING_RULES_COLLECTION).toBe('scoringRules');
+    });
+  });
+});
@@ -0,0 +1,29 @@
+// Scoring rules model (MongoDB) - one ruleset per season
+
+import { ObjectId } from 'mongodb';
+import { DEFAULT_SCORING_RULES } from '../../../../shared/types/tournament.types';
+import type { ScoringRules, SeasonScoringRules } from '../../../../shared/types';
+
+export interface ScoringRulesDocument extends ScoringRules {
+  _id: ObjectId;
+  season: number;
+  updatedBy: ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function toSeasonScoringRules(doc: ScoringRulesDocument): SeasonScoringRules {
+  return {
+    season: doc.season,
+    positionPoints: doc.positionPoints ?? DEFAULT_SCORING_RULES.positionPoints,
+    bonusBands: { ...DEFAULT_SCORING_RULES.bonusBands, ...doc.bonusBands },
+    // Types added after the ruleset was saved score at their default multiplier
+    multipliers: { ...DEFAULT_SCORING_RULES.multipliers, ...doc.multipliers },
+    appearancePoints: doc.appearancePoints ?? 0,
+    tiePolicy: doc.tiePolicy ?? DEFAULT_SCORING_RULES.tiePolicy,
+    isDefault: false,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+export const SCORING_RULES_COLLECTION = 'scoringRules';
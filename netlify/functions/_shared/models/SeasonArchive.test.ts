@@ -0,0 +1,77 @@
+import { ObjectId } from 'mongodb';
+import { toSeasonArchive, SEASON_ARCHIVES_COLLECTION } from './SeasonArchive';
+import type { SeasonArchiveDocument } from './SeasonArchive';
+
+describe('SeasonArchive model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+
+  const fullDoc: SeasonArchiveDocument = {
+    _id: objectId,
+    seasonName: '2026',
+    startDate: new Date('2026-04-01'),
+    endDate: new Date('2027-03-31'),
+    standings: [
+      {
+        rank: 1,
+        userId: 'u1',
+        firstName: 'Sam',
+        lastName: 'Champ',
+        username: 'champ',
+        totalPoints: 412,
+        teamValue: 48_000_000,
+        eventsPlayed: 20,
+      },
+    ],
+    monthlyWinners: [
+      {
+        label: 'April 2026',
+        startDate: new Date('2026-04-01'),
+        endDate: new Date('2026-04-30'),
+        points: 96,
+        winners: [{ userId: 'u1', firstName: 'Sam', lastName: 'Champ', username: 'champ' }],
+      },
+    ],
+    gameweekWinners: [],
+    archivedAt: now,
+  };
+
+  describe('toSeasonArchive', () => {
+    it('maps all fields correctly', () => {
+      const archive = toSeasonArchive(fullDoc);
+      expect(archive.id).toBe(objectId.toString());
+      expect(archive.seasonName).toBe('2026');
+      expect(archive.startDate).toEqual(fullDoc.startDate);
+      expect(archive.endDate).toEqual(fullDoc.endDate);
+      expect(archive.standings).toEqual(fullDoc.standings);
+      expect(archive.monthlyWinners).toEqual(fullDoc.monthlyWinners);
+      expect(archive.gameweekWinners).toEqual([]);
+      expect(archive.archivedAt).toBe(now);
+    });
+
+    it('defaults missing standings to an empty table', () => {
+      const doc = { ...fullDoc, standings: undefined } as unknown as SeasonArchiveDocument;
+      expect(toSeasonArchive(doc).standings).toEqual([]);
+    });
+
+    it('fills in periods missing from older archives', () => {
+      const doc: SeasonArchiveDocument = {
+        _id: objectId,
+        seasonName: '2025',
+        standings: [],
+        archivedAt: now,
+      };
+      const archive = toSeasonArchive(doc);
+      expect(archive.startDate).toBeNull();
+      expect(archive.endDate).toBeNull();
+      expect(archive.monthlyWinners).toEqual([]);
+      expect(archive.gameweekWinners).toEqual([]);
+    });
+  });
+
+  describe('SEASON_ARCHIVES_COLLECTION', () => {
+    it('equals "seasonArchives"', () => {
+      expect(SEASON_ARCHIVES_COLLECTION).toBe('seasonArchives');
+    });
+  });
+});
@@ -0,0 +1,34 @@
+// Season archive model (MongoDB) - a closed season's final tables, frozen at close
+
+import { ObjectId } from 'mongodb';
+import type {
+  ArchivedPeriodWinner,
+  ArchivedStanding,
+  SeasonArchive,
+} from '../../../../shared/types';
+
+export interface SeasonArchiveDocument {
+  _id: ObjectId;
+  seasonName: string;
+  startDate?: Date;
+  endDate?: Date;
+  standings: ArchivedStanding[];
+  monthlyWinners?: ArchivedPeriodWinner[];
+  gameweekWinners?: ArchivedPeriodWinner[];
+  archivedAt: Date;
+}
+
+export function toSeasonArchive(doc: SeasonArchiveDocument): SeasonArchive {
+  return {
+    id: doc._id.toString(),
+    seasonName: doc.seasonName,
+    startDate: doc.startDate ?? null,
+    endDate: doc.endDate ?? null,
+    standings: doc.standings ?? [],
+    monthlyWinners: doc.monthlyWinners ?? [],
+    gameweekWinners: doc.gameweekWinners ?? [],
+    archivedAt: doc.archivedAt,
+  };
+}
+
+export const SEASON_ARCHIVES_COLLECTION = 'seasonArchives';
@@ -0,0 +1,78 @@
+import { ObjectId } from 'mongodb';
+import { toSeasonRollover, SEASON_ROLLOVERS_COLLECTION } from './SeasonRollover';
+import type { SeasonRolloverDocument } from './SeasonRollover';
+
+describe('SeasonRollover model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+  const fromSeasonId = new ObjectId();
+  const toSeasonId = new ObjectId();
+  const adminId = new ObjectId();
+
+  const fullDoc: SeasonRolloverDocument = {
+    _id: objectId,
+    fromSeasonId,
+    fromSeasonName: '2026',
+    toSeasonId,
+    toSeasonName: '2027',
+    startDate: new Date('2027-04-01'),
+    endDate: new Date('2028-03-31'),
+    carryOverTeams: true,
+    status: 'complete',
+    completedSteps: ['closeSeason', 'archiveStandings'],
+    teamsCarriedOver: 12,
+    teamsNotCarriedOver: 2,
+    lastError: null,
+    startedBy: adminId,
+    startedAt: now,
+    completedAt: now,
+  };
+
+  describe('toSeasonRollover', () => {
+    it('converts ObjectIds to strings', () => {
+      const rollover = toSeasonRollover(fullDoc);
+      expect(rollover.id).toBe(objectId.toString());
+      expect(rollover.fromSeasonId).toBe(fromSeasonId.toString());
+      expect(rollover.toSeasonId).toBe(toSeasonId.toString());
+      expect(rollover.startedBy).toBe(adminId.toString());
+    });
+
+    it('maps all fields correctly', () => {
+      const rollover = toSeasonRollover(fullDoc);
+      expect(rollover.fromSeasonName).toBe('2026');
+      expect(rollover.toSeasonName).toBe('2027');
+      expect(rollover.carryOverTeams).toBe(true);
+      expect(rollover.status).toBe('complete');
+      expect(rollover.completedSteps).toEqual(['closeSeason', 'archiveStandings']);
+      expect(rollover.teamsCarriedOver).toBe(12);
+      expect(rollover.teamsNotCarriedOver).toBe(2);
+      expect(rollover.completedAt).toBe(now);
+    });
+
+    it('defaults fields not yet written', () => {
+      const doc = {
+        ...fullDoc,
+        toSeasonId: null,
+        status: 'in_progress',
+        completedSteps: undefined,
+        teamsCarriedOver: undefined,
+        teamsNotCarriedOver: undefined,
+        lastError: undefined,
+        completedAt: undefined,
+      } as unknown as SeasonRolloverDocument;
+      const rollover = toSeasonRollover(doc);
+      expect(rollover.toSeasonId).toBeNull();
+      expect(rollover.completedSteps).toEqual([]);
+      expect(rollover.teamsCarriedOver).toBe(0);
+      expect(rollover.teamsNotCarriedOver).toBe(0);
+      expect(rollover.lastError).toBeNull();
+      expect(rollover.completedAt).toBeNull();
+    });
+  });
+
+  describe('SEASON_ROLLOVERS_COLLECTION', () => {
+    it('equals "seasonRollovers"', () => {
+      expect(SEASON_ROLLOVERS_COLLECTION).toBe('seasonRollovers');
+    });
+  });
+});
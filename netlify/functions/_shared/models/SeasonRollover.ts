@@ -0,0 +1,46 @@
+// Season rollover model (MongoDB) - progress of closing one season and opening the next
+
+import { ObjectId } from 'mongodb';
+import type { SeasonRollover, SeasonRolloverStep } from '../../../../shared/types';
+
+export interface SeasonRolloverDocument {
+  _id: ObjectId;
+  fromSeasonId: ObjectId;
+  fromSeasonName: string;
+  toSeasonId: ObjectId | null;
+  toSeasonName: string;
+  startDate: Date;
+  endDate: Date;
+  carryOverTeams: boolean;
+  status: 'in_progress' | 'complete';
+  completedSteps: SeasonRolloverStep[];
+  teamsCarriedOver?: number;
+  teamsNotCarriedOver?: number;
+  lastError?: string | null;
+  startedBy: ObjectId;
+  startedAt: Date;
+  completedAt?: Date | null;
+}
+
+export function toSeasonRollover(doc: SeasonRolloverDocument): SeasonRollover {
+  return {
+    id: doc._id.toString(),
+    fromSeasonId: doc.fromSeasonId.toString(),
+    fromSeasonName: doc.fromSeasonName,
+    toSeasonId: doc.toSeasonId?.toString() ?? null,
+    toSeasonName: doc.toSeasonName,
+    startDate: doc.startDate,
+    endDate: doc.endDate,
+    carryOverTeams: doc.carryOverTeams,
+    status: doc.status,
+    completedSteps: doc.completedSteps ?? [],
+    teamsCarriedOver: doc.teamsCarriedOver ?? 0,
+    teamsNotCarriedOver: doc.teamsNotCarriedOver ?? 0,
+    lastError: doc.lastError ?? null,
+    startedBy: doc.startedBy.toString(),
+    startedAt: doc.startedAt,
+    completedAt: doc.completedAt ?? null,
+  };
+}
+
+export const SEASON_ROLLOVERS_COLLECTION = 'seasonRollovers';
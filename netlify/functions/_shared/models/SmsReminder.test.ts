@@ -0,0 +1,43 @@
+import { toSmsReminderPreferences, SMS_REMINDER_LOG_COLLECTION } from './SmsReminder';
+
+describe('SmsReminder model', () => {
+  describe('toSmsReminderPreferences', () => {
+    it('keeps stored preferences', () => {
+      expect(
+        toSmsReminderPreferences({
+          enabled: true,
+          types: ['no_captain'],
+          quietHoursStart: null,
+          quietHoursEnd: null,
+        })
+      ).toEqual({
+        enabled: true,
+        types: ['no_captain'],
+        quietHoursStart: null,
+        quietHoursEnd: null,
+      });
+    });
+
+    it('defaults to opted out with overnight quiet hours', () => {
+      expect(toSmsReminderPreferences(undefined)).toEqual({
+        enabled: false,
+        types: ['transfer_deadline', 'no_captain', 'inactive_golfer'],
+        quietHoursStart: 22,
+        quietHoursEnd: 8,
+      });
+    });
+
+    it('fills in fields missing from older documents', () => {
+      expect(toSmsReminderPreferences({ enabled: true })).toMatchObject({
+        enabled: true,
+        quietHoursStart: 22,
+      });
+    });
+  });
+
+  describe('SMS_REMINDER_LOG_COLLECTION', () => {
+    it('is smsReminderLog', () => {
+      expect(SMS_REMINDER_LOG_COLLECTION).toBe('smsReminderLog');
+    });
+  });
+});
@@ -0,0 +1,40 @@
+// SMS reminder model (MongoDB)
+
+import { ObjectId } from 'mongodb';
+import {
+  DEFAULT_SMS_REMINDER_PREFERENCES,
+  type SmsReminderPreferences,
+  type SmsReminderType,
+} from '../../../../shared/types';
+
+// One reminder sent to a manager ahead of a transfer deadline, so it is not sent twice
+export interface SmsReminderLogDocument {
+  _id: ObjectId;
+  userId: ObjectId;
+  type: SmsReminderType;
+  deadline: Date;
+  sentAt: Date;
+}
+
+/**
+ * A manager's reminder preferences as stored on their user document, with defaults
+ * for managers who have never saved any.
+ */
+export function toSmsReminderPreferences(
+  stored: Partial<SmsReminderPreferences> | undefined
+): SmsReminderPreferences {
+  return {
+    enabled: stored?.enabled ?? DEFAULT_SMS_REMINDER_PREFERENCES.enabled,
+    types: stored?.types ?? [...DEFAULT_SMS_REMINDER_PREFERENCES.types],
+    quietHoursStart:
+      stored?.quietHoursStart !== undefined
+        ? stored.quietHoursStart
+        : DEFAULT_SMS_REMINDER_PREFERENCES.quietHoursStart,
+    quietHoursEnd:
+      stored?.quietHoursEnd !== undefined
+        ? stored.quietHoursEnd
+        : DEFAULT_SMS_REMINDER_PREFERENCES.quietHoursEnd,
+  };
+}
+
+export const SMS_REMINDER_LOG_COLLECTION = 'smsReminderLog';
@@ -71,6 +71,11 @@ describe('Tournament model', () => {
       } as unknown as TournamentDocument;
       expect(toTournament(doc).participatingGolferIds).toEqual([]);
     });
+
+    it('defaults teamFormat to null for individual events', () => {
+      expect(toTournament(fullDoc).teamFormat).toBeNull();
+      expect(toTournament({ ...fullDoc, teamFormat: 'fourball' }).teamFormat).toBe('fourball');
+    });
   });
 
   describe('TOURNAMENTS_COLLECTION', () => {
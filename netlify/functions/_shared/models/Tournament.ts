@@ -7,6 +7,7 @@ import type {
   TournamentType,
   ScoringFormat,
   GolferCountTier,
+  TeamFormat,
 } from '../../../../shared/types';
 
 export interface TournamentDocument {
@@ -17,6 +18,7 @@ export interface TournamentDocument {
   tournamentType: TournamentType;
   scoringFormat: ScoringFormat;
   isMultiDay: boolean;
+  teamFormat?: TeamFormat | null;
   multiplier: number;
   golferCountTier: GolferCountTier;
   season: number;
@@ -35,6 +37,7 @@ export function toTournament(doc: TournamentDocument): Tournament {
     tournamentType: doc.tournamentType || 'rollup_stableford',
     scoringFormat: doc.scoringFormat || 'stableford',
     isMultiDay: doc.isMultiDay ?? false,
+    teamFormat: doc.teamFormat ?? null,
     multiplier: doc.multiplier,
     golferCountTier: doc.golferCountTier || '20+',
     season: doc.season,
@@ -0,0 +1,63 @@
+import { ObjectId } from 'mongodb';
+import { toTournamentTypeConfig, TOURNAMENT_TYPES_COLLECTION } from './TournamentType';
+import type { TournamentTypeDocument } from './TournamentType';
+
+describe('TournamentType model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+
+  const fullDoc: TournamentTypeDocument = {
+    _id: objectId,
+    key: 'winter_foursomes',
+    label: 'Winter Foursomes',
+    multiplier: 1.5,
+    defaultScoringFormat: 'stableford',
+    forcedScoringFormat: 'stableford',
+    defaultMultiDay: false,
+    isBuiltIn: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  describe('toTournamentTypeConfig', () => {
+    it('converts _id to string id', () => {
+      expect(toTournamentTypeConfig(fullDoc).id).toBe(objectId.toString());
+    });
+
+    it('maps all fields correctly', () => {
+      const type = toTournamentTypeConfig(fullDoc);
+      expect(type.key).toBe('winter_foursomes');
+      expect(type.label).toBe('Winter Foursomes');
+      expect(type.multiplier).toBe(1.5);
+      expect(type.defaultScoringFormat).toBe('stableford');
+      expect(type.forcedScoringFormat).toBe('stableford');
+      expect(type.defaultMultiDay).toBe(false);
+      expect(type.isBuiltIn).toBe(false);
+      expect(type.createdAt).toBe(now);
+      expect(type.updatedAt).toBe(now);
+    });
+
+    it('defaults missing optional fields', () => {
+      const doc = {
+        ...fullDoc,
+        multiplier: undefined,
+        defaultScoringFormat: undefined,
+        forcedScoringFormat: undefined,
+        defaultMultiDay: undefined,
+        isBuiltIn: undefined,
+      } as unknown as TournamentTypeDocument;
+      const type = toTournamentTypeConfig(doc);
+      expect(type.multiplier).toBe(1);
+      expect(type.defaultScoringFormat).toBe('stableford');
+      expect(type.forcedScoringFormat).toBeNull();
+      expect(type.defaultMultiDay).toBe(false);
+      expect(type.isBuiltIn).toBe(false);
+    });
+  });
+
+  describe('TOURNAMENT_TYPES_COLLECTION', () => {
+    it('equals "tournamentTypes"', () => {
+      expect(TOURNAMENT_TYPES_COLLECTION).toBe('tournamentTypes');
+    });
+  });
+});
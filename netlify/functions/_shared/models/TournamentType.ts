@@ -0,0 +1,34 @@
+// Tournament type model (MongoDB) - club events with their multiplier and format defaults
+
+import { ObjectId } from 'mongodb';
+import type { ScoringFormat, TournamentTypeConfig } from '../../../../shared/types';
+
+export interface TournamentTypeDocument {
+  _id: ObjectId;
+  key: string;
+  label: string;
+  multiplier: number;
+  defaultScoringFormat: ScoringFormat;
+  forcedScoringFormat: ScoringFormat | null;
+  defaultMultiDay: boolean;
+  isBuiltIn: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function toTournamentTypeConfig(doc: TournamentTypeDocument): TournamentTypeConfig {
+  return {
+    id: doc._id.toString(),
+    key: doc.key,
+    label: doc.label,
+    multiplier: doc.multiplier ?? 1,
+    defaultScoringFormat: doc.defaultScoringFormat || 'stableford',
+    forcedScoringFormat: doc.forcedScoringFormat ?? null,
+    defaultMultiDay: doc.defaultMultiDay ?? false,
+    isBuiltIn: doc.isBuiltIn ?? false,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+export const TOURNAMENT_TYPES_COLLECTION = 'tournamentTypes';
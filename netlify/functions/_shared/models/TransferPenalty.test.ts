@@ -0,0 +1,38 @@
+import { ObjectId } from 'mongodb';
+import { toTransferPenalty, TRANSFER_PENALTIES_COLLECTION } from './TransferPenalty';
+import type { TransferPenaltyDocument } from './TransferPenalty';
+
+describe('TransferPenalty model', () => {
+  const now = new Date();
+  const objectId = new ObjectId();
+  const userId = new ObjectId();
+
+  const fullDoc: TransferPenaltyDocument = {
+    _id: objectId,
+    userId,
+    season: 2026,
+    weekStart: new Date('2026-04-18'),
+    swaps: 2,
+    points: 8,
+    createdAt: now,
+  };
+
+  describe('toTransferPenalty', () => {
+    it('maps all fields correctly', () => {
+      const p = toTransferPenalty(fullDoc);
+      expect(p.id).toBe(objectId.toString());
+      expect(p.userId).toBe(userId.toString());
+      expect(p.season).toBe(2026);
+      expect(p.weekStart).toEqual(new Date('2026-04-18'));
+      expect(p.swaps).toBe(2);
+      expect(p.points).toBe(8);
+      expect(p.createdAt).toBe(now);
+    });
+  });
+
+  describe('TRANSFER_PENALTIES_COLLECTION', () => {
+    it('equals "transferPenalties"', () => {
+      expect(TRANSFER_PENALTIES_COLLECTION).toBe('transferPenalties');
+    });
+  });
+});
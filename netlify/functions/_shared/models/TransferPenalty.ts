@@ -0,0 +1,28 @@
+// Transfer penalty model (MongoDB)
+
+import { ObjectId } from 'mongodb';
+import type { TransferPenalty } from '../../../../shared/types';
+
+export interface TransferPenaltyDocument {
+  _id: ObjectId;
+  userId: ObjectId;
+  season: number;
+  weekStart: Date;
+  swaps: number;
+  points: number;
+  createdAt: Date;
+}
+
+export function toTransferPenalty(doc: TransferPenaltyDocument): TransferPenalty {
+  return {
+    id: doc._id.toString(),
+    userId: doc.userId.toString(),
+    season: doc.season,
+    weekStart: doc.weekStart,
+    swaps: doc.swaps,
+    points: doc.points,
+    createdAt: doc.createdAt,
+  };
+}
+
+export const TRANSFER_PENALTIES_COLLECTION = 'transferPenalties';
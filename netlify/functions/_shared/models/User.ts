@@ -1,7 +1,12 @@
 // User model (MongoDB)
 
 import { ObjectId } from 'mongodb';
-import type { User, UserRole } from '../../../../shared/types';
+import type {
+  EmailPreferences,
+  SmsReminderPreferences,
+  User,
+  UserRole,
+} from '../../../../shared/types';
 
 export interface UserDocument {
   _id: ObjectId;
@@ -12,6 +17,8 @@ export interface UserDocument {
   passwordHash: string;
   phoneNumber: string | null;
   phoneVerified: boolean;
+  smsReminders?: SmsReminderPreferences; // Unset until the manager saves preferences
+  emailPreferences?: EmailPreferences; // Unset until the manager saves preferences
   role: UserRole;
   createdAt: Date;
   updatedAt: Date;
@@ -15,6 +15,7 @@ describe('rateLimit', () => {
       expect(RateLimitConfig.write).toBeDefined();
       expect(RateLimitConfig.admin).toBeDefined();
       expect(RateLimitConfig.verification).toBeDefined();
+      expect(RateLimitConfig.passwordReset).toBeDefined();
       expect(RateLimitConfig.default).toBeDefined();
     });
 
@@ -32,6 +33,14 @@ describe('rateLimit', () => {
       );
     });
 
+    it('passwordReset allows fewer requests per minute than verification', () => {
+      const perMinute = (config: { windowMs: number; maxRequests: number }) =>
+        config.maxRequests / (config.windowMs / 60000);
+      expect(perMinute(RateLimitConfig.passwordReset)).toBeLessThan(
+        perMinute(RateLimitConfig.verification)
+      );
+    });
+
     it('all windows are positive', () => {
       Object.values(RateLimitConfig).forEach((config) => {
         expect(config.windowMs).toBeGreaterThan(0);
@@ -51,6 +51,11 @@ export const RateLimitConfig = {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 5, // 5 requests per minute
   },
+  // Forgotten password codes - strictest, as these endpoints need no sign-in
+  passwordReset: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 5, // 5 requests per 15 minutes
+  },
   // Default - general purpose
   default: {
     windowMs: 60 * 1000, // 1 minute
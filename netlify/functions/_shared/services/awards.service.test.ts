@@ -0,0 +1,334 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { calculatePeriodStandings, calculateSeasonTables } from './season-archive.service';
+import { getActiveSeason, getSeasonByName } from './seasons.service';
+import {
+  getSeasonAwards,
+  getUserAwards,
+  grantClosedPeriodAwards,
+  grantFinalSeasonAwards,
+  overrideAward,
+} from './awards.service';
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('./season-archive.service', () => ({
+  calculatePeriodStandings: vi.fn(),
+  calculateSeasonTables: vi.fn(),
+}));
+vi.mock('./seasons.service', () => ({
+  getActiveSeason: vi.fn(),
+  getSeasonByName: vi.fn(),
+}));
+
+const season = {
+  id: new ObjectId().toString(),
+  name: '2026',
+  startDate: new Date(2026, 3, 1),
+  endDate: new Date(2027, 2, 31),
+  isActive: true,
+  status: 'active' as const,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const alice = {
+  userId: new ObjectId().toString(),
+  firstName: 'Alice',
+  lastName: 'G',
+  username: 'alice',
+};
+const bob = { userId: new ObjectId().toString(), firstName: 'Bob', lastName: 'G', username: 'bob' };
+const adminId = new ObjectId().toString();
+
+const period = (
+  label: string,
+  startDate: Date,
+  endDate: Date,
+  points: number,
+  winners = [alice]
+) => ({
+  label,
+  startDate,
+  endDate,
+  points,
+  winners,
+});
+
+// Gameweek 2 and April have closed; gameweek 6 is still being played
+const gameweek2 = period('Gameweek 2', new Date(2026, 3, 11), new Date(2026, 3, 17, 23, 59), 20, [
+  alice,
+  bob,
+]);
+const gameweek6 = period('Gameweek 6', new Date(2026, 4, 9), new Date(2026, 4, 15, 23, 59), 12);
+const april = period('April 2026', new Date(2026, 3, 1), new Date(2026, 3, 30, 23, 59), 45);
+const now = new Date(2026, 4, 12);
+
+describe('awards.service', () => {
+  let awards: Record<string, ReturnType<typeof vi.fn>>;
+  let users: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    awards = {
+      find: vi.fn().mockReturnValue(mockCursor([])),
+      insertMany: vi
+        .fn()
+        .mockResolvedValue({ insertedIds: { 0: new ObjectId(), 1: new ObjectId() } }),
+      deleteMany: vi.fn(),
+    };
+    users = { find: vi.fn().mockReturnValue(mockCursor([])) };
+    const { mockDb } = createMockDb({ awards, users });
+    vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+    vi.mocked(getActiveSeason).mockResolvedValue(season);
+    vi.mocked(getSeasonByName).mockResolvedValue(season);
+    vi.mocked(calculateSeasonTables).mockResolvedValue({
+      standings: [],
+      monthlyWinners: [april],
+      gameweekWinners: [gameweek2, gameweek6],
+    });
+  });
+
+  describe('grantClosedPeriodAwards', () => {
+    it('awards every closed period, sharing ties', async () => {
+      const result = await grantClosedPeriodAwards(now);
+
+      expect(result).toEqual({ season: 2026, granted: 3 });
+      expect(awards.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          userId: new ObjectId(alice.userId),
+          type: 'week',
+          label: 'Gameweek 2',
+          points: 20,
+          shared: true,
+          overridden: false,
+          awardedBy: null,
+        }),
+        expect.objectContaining({ userId: new ObjectId(bob.userId), type: 'week', shared: true }),
+        expect.objectContaining({
+          userId: new ObjectId(alice.userId),
+          type: 'month',
+          season: 2026,
+          label: 'April 2026',
+          periodStart: april.startDate,
+          periodEnd: april.endDate,
+          points: 45,
+          shared: false,
+        }),
+      ]);
+    });
+
+    it('skips periods that have already been awarded or overridden', async () => {
+      awards.find.mockReturnValue(
+        mockCursor([
+          { type: 'week', periodStart: new Date(gameweek2.startDate) },
+          { type: 'month', periodStart: new Date(april.startDate) },
+        ])
+      );
+
+      const result = await grantClosedPeriodAwards(now);
+
+      expect(awards.find).toHaveBeenCalledWith({ season: 2026 });
+      expect(result.granted).toBe(0);
+      expect(awards.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('does nothing without an active season', async () => {
+      vi.mocked(getActiveSeason).mockResolvedValue(null);
+
+      expect(await grantClosedPeriodAwards(now)).toEqual({ season: null, granted: 0 });
+      expect(calculateSeasonTables).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('grantFinalSeasonAwards', () => {
+    it('awards the periods still running when the season is closed', async () => {
+      vi.mocked(getActiveSeason).mockResolvedValue(null);
+      awards.find.mockReturnValue(
+        mockCursor([
+          { type: 'week', periodStart: new Date(gameweek2.startDate) },
+          { type: 'month', periodStart: new Date(april.startDate) },
+        ])
+      );
+
+      const result = await grantFinalSeasonAwards('2026', now);
+
+      expect(getSeasonByName).toHaveBeenCalledWith('2026');
+      expect(result).toEqual({ season: 2026, granted: 1 });
+      expect(awards.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'week', label: 'Gameweek 6', points: 12 }),
+      ]);
+    });
+
+    it('throws when the season does not exist', async () => {
+      vi.mocked(getSeasonByName).mockResolvedValue(null);
+
+      await expect(grantFinalSeasonAwards('2019', now)).rejects.toThrow('Season 2019 not found');
+    });
+  });
+
+  describe('overrideAward', () => {
+    const standing = (manager: typeof alice, rank: number, totalPoints: number) => ({
+      rank,
+      ...manager,
+      totalPoints,
+      teamValue: 0,
+      eventsPlayed: 1,
+    });
+
+    beforeEach(() => {
+      vi.mocked(calculatePeriodStandings).mockResolvedValue([
+        standing(alice, 1, 20),
+        standing(bob, 2, 18),
+      ]);
+    });
+
+    it('replaces the winners of the gameweek containing the date', async () => {
+      const result = await overrideAward(
+        { type: 'week', season: 2026, periodStart: new Date(2026, 3, 14), userIds: [bob.userId] },
+        adminId
+      );
+
+      const weekStart = new Date(2026, 3, 11);
+      expect(calculatePeriodStandings).toHaveBeenCalledWith(
+        expect.anything(),
+        season,
+        weekStart,
+        expect.any(Date)
+      );
+      expect(awards.deleteMany).toHaveBeenCalledWith({
+        type: 'week',
+        season: 2026,
+        periodStart: weekStart,
+      });
+      expect(result).toEqual([
+        expect.objectContaining({
+          userId: bob.userId,
+          label: 'Gameweek 2',
+          points: 18,
+          shared: false,
+          overridden: true,
+          awardedBy: adminId,
+        }),
+      ]);
+    });
+
+    it('names the month and shares an award between several managers', async () => {
+      const result = await overrideAward(
+        {
+          type: 'month',
+          season: 2026,
+          periodStart: new Date(2026, 3, 20),
+          userIds: [alice.userId, bob.userId],
+        },
+        adminId
+      );
+
+      expect(result.map((a) => [a.label, a.shared])).toEqual([
+        ['April 2026', true],
+        ['April 2026', true],
+      ]);
+    });
+
+    it('refuses a manager without a team', async () => {
+      const stranger = new ObjectId().toString();
+
+      await expect(
+        overrideAward(
+          { type: 'week', season: 2026, periodStart: new Date(2026, 3, 14), userIds: [stranger] },
+          adminId
+        )
+      ).rejects.toThrow(`Manager ${stranger} has no team in season 2026`);
+      expect(awards.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses a period with no tournaments', async () => {
+      vi.mocked(calculatePeriodStandings).mockResolvedValue([]);
+
+      await expect(
+        overrideAward(
+          { type: 'week', season: 2026, periodStart: new Date(2026, 3, 14), userIds: [bob.userId] },
+          adminId
+        )
+      ).rejects.toThrow('No tournaments were played in this period');
+    });
+
+    it('refuses an unknown season', async () => {
+      vi.mocked(getSeasonByName).mockResolvedValue(null);
+
+      await expect(
+        overrideAward(
+          { type: 'week', season: 1999, periodStart: new Date(1999, 3, 14), userIds: [bob.userId] },
+          adminId
+        )
+      ).rejects.toThrow('Season 1999 not found');
+    });
+  });
+
+  describe('getUserAwards', () => {
+    it('lists a manager’s awards, most recent first', async () => {
+      awards.find.mockReturnValue(
+        mockCursor([
+          {
+            _id: new ObjectId(),
+            userId: new ObjectId(alice.userId),
+            type: 'month',
+            season: 2026,
+            label: 'April 2026',
+            periodStart: april.startDate,
+            periodEnd: april.endDate,
+            points: 45,
+            shared: false,
+            overridden: false,
+            awardedBy: null,
+            awardedAt: now,
+          },
+        ])
+      );
+
+      const result = await getUserAwards(alice.userId);
+
+      expect(awards.find).toHaveBeenCalledWith({ userId: new ObjectId(alice.userId) });
+      expect(awards.find().sort).toHaveBeenCalledWith({ periodStart: -1 });
+      expect(result.map((a) => a.label)).toEqual(['April 2026']);
+    });
+  });
+
+  describe('getSeasonAwards', () => {
+    it('adds the manager’s name to each award', async () => {
+      const aliceId = new ObjectId(alice.userId);
+      awards.find.mockReturnValue(
+        mockCursor([
+          {
+            _id: new ObjectId(),
+            userId: aliceId,
+            type: 'week',
+            season: 2026,
+            label: 'Gameweek 2',
+            periodStart: gameweek2.startDate,
+            periodEnd: gameweek2.endDate,
+            points: 20,
+            shared: false,
+            overridden: false,
+            awardedBy: null,
+            awardedAt: now,
+          },
+        ])
+      );
+      users.find.mockReturnValue(
+        mockCursor([{ _id: aliceId, firstName: 'Alice', lastName: 'G', username: 'alice' }])
+      );
+
+      const result = await getSeasonAwards(2026);
+
+      expect(result).toEqual([
+        expect.objectContaining({ userId: alice.userId, label: 'Gameweek 2', username: 'alice' }),
+      ]);
+    });
+
+    it('returns nothing for a season without awards', async () => {
+      expect(await getSeasonAwards(2026)).toEqual([]);
+      expect(users.find).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,221 @@
+// Awards service - manager of the week and manager of the month
+
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { AwardDocument, toAward, AWARDS_COLLECTION } from '../models/Award';
+import { UserDocument, USERS_COLLECTION } from '../models/User';
+import { calculatePeriodStandings, calculateSeasonTables } from './season-archive.service';
+import { getActiveSeason, getSeasonByName } from './seasons.service';
+import {
+  getGameweekNumber,
+  getMonthEnd,
+  getMonthStart,
+  getWeekEnd,
+  getWeekStart,
+} from '../utils/dates';
+import type {
+  ArchivedPeriodWinner,
+  Award,
+  AwardType,
+  AwardWithManager,
+  OverrideAwardDTO,
+  Season,
+} from '../../../../shared/types';
+
+export interface GrantAwardsResult {
+  season: number | null;
+  granted: number;
+}
+
+const periodKey = (type: AwardType, periodStart: Date) =>
+  `${type}:${new Date(periodStart).getTime()}`;
+
+function toAwardDocuments(
+  type: AwardType,
+  season: number,
+  period: ArchivedPeriodWinner,
+  now: Date
+): Omit<AwardDocument, '_id'>[] {
+  return period.winners.map((winner) => ({
+    userId: new ObjectId(winner.userId),
+    type,
+    season,
+    label: period.label,
+    periodStart: period.startDate,
+    periodEnd: period.endDate,
+    points: period.points,
+    shared: period.winners.length > 1,
+    overridden: false,
+    awardedBy: null,
+    awardedAt: now,
+  }));
+}
+
+/**
+ * Award manager of the week and month for every period of a season that has closed
+ * and not yet been awarded. Managers level on the top score each get the award, marked
+ * as shared. Periods an admin has overridden are left alone. Once the season itself is
+ * closed every period counts as closed, even one cut short by the close.
+ */
+async function grantSeasonAwards(
+  season: Season,
+  now: Date,
+  seasonClosed: boolean
+): Promise<GrantAwardsResult> {
+  const seasonNumber = parseInt(season.name, 10);
+  const { db } = await connectToDatabase();
+  const awards = db.collection<AwardDocument>(AWARDS_COLLECTION);
+
+  const [tables, existing] = await Promise.all([
+    calculateSeasonTables(db, season),
+    awards
+      .find({ season: seasonNumber })
+      .project<Pick<AwardDocument, 'type' | 'periodStart'>>({ type: 1, periodStart: 1 })
+      .toArray(),
+  ]);
+  const awarded = new Set(existing.map((a) => periodKey(a.type, a.periodStart)));
+
+  const closed = (type: AwardType, periods: ArchivedPeriodWinner[]) =>
+    periods.filter(
+      (period) =>
+        (seasonClosed || period.endDate < now) && !awarded.has(periodKey(type, period.startDate))
+    );
+
+  const docs = [
+    ...closed('week', tables.gameweekWinners).flatMap((p) =>
+      toAwardDocuments('week', seasonNumber, p, now)
+    ),
+    ...closed('month', tables.monthlyWinners).flatMap((p) =>
+      toAwardDocuments('month', seasonNumber, p, now)
+    ),
+  ];
+
+  if (docs.length > 0) {
+    await awards.insertMany(docs as AwardDocument[]);
+  }
+
+  return { season: seasonNumber, granted: docs.length };
+}
+
+/**
+ * Award every closed period of the active season. Run daily by the scheduled job.
+ */
+export async function grantClosedPeriodAwards(now: Date = new Date()): Promise<GrantAwardsResult> {
+  const season = await getActiveSeason();
+  if (!season) return { season: null, granted: 0 };
+  return grantSeasonAwards(season, now, false);
+}
+
+/**
+ * Award the rest of a season being closed. The rollover activates the next season
+ * straight after, so the scheduled job would never get to its final gameweek and month.
+ */
+export async function grantFinalSeasonAwards(
+  seasonName: string,
+  now: Date = new Date()
+): Promise<GrantAwardsResult> {
+  const season = await getSeasonByName(seasonName);
+  if (!season) {
+    throw new Error(`Season ${seasonName} not found`);
+  }
+  return grantSeasonAwards(season, now, true);
+}
+
+/**
+ * Replace whoever holds an award for a period with the chosen managers. The period is
+ * the gameweek or month containing `periodStart`; points are each manager's score for
+ * it. Overridden periods are not recalculated by the scheduled job.
+ */
+export async function overrideAward(data: OverrideAwardDTO, adminId: string): Promise<Award[]> {
+  const season = await getSeasonByName(String(data.season));
+  if (!season) {
+    throw new Error(`Season ${data.season} not found`);
+  }
+
+  const isWeek = data.type === 'week';
+  const periodStart = isWeek ? getWeekStart(data.periodStart) : getMonthStart(data.periodStart);
+  const periodEnd = isWeek ? getWeekEnd(periodStart) : getMonthEnd(periodStart);
+  const label = isWeek
+    ? `Gameweek ${getGameweekNumber(periodStart, new Date(season.startDate))}`
+    : periodStart.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
+
+  const { db } = await connectToDatabase();
+  const standings = await calculatePeriodStandings(db, season, periodStart, periodEnd);
+  if (standings.length === 0) {
+    throw new Error('No tournaments were played in this period');
+  }
+
+  const pointsByUser = new Map(standings.map((s) => [s.userId, s.totalPoints]));
+  const missing = data.userIds.find((id) => !pointsByUser.has(id));
+  if (missing) {
+    throw new Error(`Manager ${missing} has no team in season ${season.name}`);
+  }
+
+  const now = new Date();
+  const docs: Omit<AwardDocument, '_id'>[] = data.userIds.map((userId) => ({
+    userId: new ObjectId(userId),
+    type: data.type,
+    season: data.season,
+    label,
+    periodStart,
+    periodEnd,
+    points: pointsByUser.get(userId)!,
+    shared: data.userIds.length > 1,
+    overridden: true,
+    awardedBy: new ObjectId(adminId),
+    awardedAt: now,
+  }));
+
+  const awards = db.collection<AwardDocument>(AWARDS_COLLECTION);
+  await awards.deleteMany({ type: data.type, season: data.season, periodStart });
+  const result = await awards.insertMany(docs as AwardDocument[]);
+
+  return docs.map((doc, index) => toAward({ ...doc, _id: result.insertedIds[index] }));
+}
+
+/**
+ * A manager's awards across every season, most recent first.
+ */
+export async function getUserAwards(userId: string): Promise<Award[]> {
+  const { db } = await connectToDatabase();
+  const docs = await db
+    .collection<AwardDocument>(AWARDS_COLLECTION)
+    .find({ userId: new ObjectId(userId) })
+    .sort({ periodStart: -1 })
+    .toArray();
+  return docs.map(toAward);
+}
+
+/**
+ * Every award in a season with the winning manager's name, most recent period first.
+ */
+export async function getSeasonAwards(season: number): Promise<AwardWithManager[]> {
+  const { db } = await connectToDatabase();
+  const docs = await db
+    .collection<AwardDocument>(AWARDS_COLLECTION)
+    .find({ season })
+    .sort({ periodStart: -1, type: 1 })
+    .toArray();
+  if (docs.length === 0) return [];
+
+  const users = await db
+    .collection<UserDocument>(USERS_COLLECTION)
+    .find({ _id: { $in: docs.map((d) => d.userId) } })
+    .project<Pick<UserDocument, '_id' | 'firstName' | 'lastName' | 'username'>>({
+      firstName: 1,
+      lastName: 1,
+      username: 1,
+    })
+    .toArray();
+  const usersById = new Map(users.map((u) => [u._id.toString(), u]));
+
+  return docs.map((doc) => {
+    const user = usersById.get(doc.userId.toString());
+    return {
+      ...toAward(doc),
+      firstName: user?.firstName ?? '',
+      lastName: user?.lastName ?? '',
+      username: user?.username ?? '',
+    };
+  });
+}
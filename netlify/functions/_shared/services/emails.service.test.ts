@@ -0,0 +1,227 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { generateUnsubscribeToken } from '../auth';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { calculatePeriodStandings } from './season-archive.service';
+import { getActiveSeason } from './seasons.service';
+import {
+  getEmailPreferences,
+  sendWeeklyDigests,
+  unsubscribeFromEmails,
+  updateEmailPreferences,
+} from './emails.service';
+
+const { mockLogger } = vi.hoisted(() => ({
+  mockLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('../utils/logger', () => ({ createLogger: () => mockLogger }));
+vi.mock('./season-archive.service', () => ({ calculatePeriodStandings: vi.fn() }));
+vi.mock('./seasons.service', () => ({ getActiveSeason: vi.fn() }));
+
+const season = { name: '2026', startDate: new Date(2026, 3, 1) } as any;
+const wednesday = new Date(2026, 4, 13, 12); // Gameweek 6 started Saturday 9 May
+const lastWeek = new Date(2026, 4, 2); // Gameweek 5
+
+const alice = { _id: new ObjectId(), firstName: 'Alice', email: 'alice@example.com' };
+const bob = { _id: new ObjectId(), firstName: 'Bob', email: 'bob@example.com' };
+const golfer = { _id: new ObjectId(), firstName: 'Tom', lastName: 'Morris' };
+const medal = {
+  _id: new ObjectId(),
+  name: 'May Medal',
+  startDate: new Date(2026, 4, 3),
+  status: 'published',
+};
+const stableford = { name: 'Summer Stableford', startDate: new Date(2026, 4, 23) };
+
+const standing = (user: typeof alice, rank: number, totalPoints: number) => ({
+  rank,
+  userId: user._id.toString(),
+  firstName: user.firstName,
+  lastName: 'Golfer',
+  username: user.firstName.toLowerCase(),
+  totalPoints,
+  teamValue: 0,
+  eventsPlayed: 1,
+});
+
+describe('emails.service', () => {
+  let users: Record<string, ReturnType<typeof vi.fn>>;
+  let tournaments: Record<string, ReturnType<typeof vi.fn>>;
+  let emailDigests: Record<string, ReturnType<typeof vi.fn>>;
+  let transport: { send: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('JWT_SECRET', 'test-secret');
+    vi.stubEnv('URL', 'https://fantasy.example.com');
+    users = {
+      find: vi.fn().mockReturnValue(mockCursor([alice, bob])),
+      findOne: vi.fn().mockResolvedValue(null),
+      updateOne: vi.fn().mockResolvedValue({ matchedCount: 1 }),
+    };
+    // Last week had a scored tournament; nothing has been played this week
+    tournaments = {
+      find: vi.fn().mockImplementation((filter) => {
+        if (filter.startDate.$gt) return mockCursor([stableford]);
+        return mockCursor(filter.startDate.$gte.getTime() === lastWeek.getTime() ? [medal] : []);
+      }),
+    };
+    emailDigests = {
+      updateOne: vi.fn().mockResolvedValue({ upsertedCount: 1 }),
+      deleteOne: vi.fn(),
+    };
+    transport = { send: vi.fn().mockResolvedValue(undefined) };
+    const { mockDb } = createMockDb({
+      users,
+      tournaments,
+      emailDigests,
+      scores: {
+        find: vi.fn().mockReturnValue(
+          mockCursor([
+            { golferId: golfer._id, multipliedPoints: 20 },
+            { golferId: new ObjectId(), multipliedPoints: 12 },
+          ])
+        ),
+      },
+      golfers: { findOne: vi.fn().mockResolvedValue(golfer) },
+    });
+    vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+    vi.mocked(getActiveSeason).mockResolvedValue(season);
+    vi.mocked(calculatePeriodStandings).mockImplementation(async (_db, _season, start, end) => {
+      if (start.getTime() === lastWeek.getTime())
+        return [standing(bob, 1, 30), standing(alice, 2, 12)];
+      if (end < lastWeek) return [standing(alice, 1, 50), standing(bob, 2, 40)];
+      return [standing(bob, 1, 70), standing(alice, 2, 62)];
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('sendWeeklyDigests', () => {
+    it('emails each manager a summary once the gameweek is scored', async () => {
+      const result = await sendWeeklyDigests(transport, wednesday);
+
+      expect(result).toEqual({ season: 2026, gameweeks: [5], sent: 2, failed: 0 });
+      expect(emailDigests.updateOne).toHaveBeenCalledWith(
+        { season: 2026, weekStart: lastWeek },
+        { $setOnInsert: expect.objectContaining({ gameweek: 5 }) },
+        { upsert: true }
+      );
+      expect(users.find).toHaveBeenCalledWith({
+        _id: { $in: [bob._id, alice._id] },
+        'emailPreferences.weeklyDigest': { $ne: false },
+      });
+
+      const email = transport.send.mock.calls[0][0];
+      expect(email.to).toBe('alice@example.com');
+      expect(email.subject).toBe('Gameweek 5: you scored 12 pts');
+      expect(email.text).toContain('You dropped from 1st to 2nd in the season.');
+      expect(email.text).toContain('Top manager: Bob Golfer (30 pts)');
+      expect(email.text).toContain('Best golfer: Tom Morris (20 pts)');
+      expect(email.text).toContain('Summer Stableford');
+      expect(email.text).toContain(
+        `https://fantasy.example.com/unsubscribe?token=${generateUnsubscribeToken(alice._id.toString())}`
+      );
+    });
+
+    it('waits while a tournament in the gameweek is still a draft', async () => {
+      tournaments.find.mockImplementation(() => mockCursor([{ ...medal, status: 'draft' }]));
+
+      const result = await sendWeeklyDigests(transport, wednesday);
+
+      expect(result.gameweeks).toEqual([]);
+      expect(emailDigests.updateOne).not.toHaveBeenCalled();
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+
+    it('does not send a gameweek twice', async () => {
+      emailDigests.updateOne.mockResolvedValue({ upsertedCount: 0 });
+
+      const result = await sendWeeklyDigests(transport, wednesday);
+
+      expect(result.sent).toBe(0);
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+
+    it('carries on when one email fails', async () => {
+      transport.send.mockRejectedValueOnce(new Error('Mailbox unavailable'));
+
+      const result = await sendWeeklyDigests(transport, wednesday);
+
+      expect(result).toMatchObject({ sent: 1, failed: 1 });
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Sending weekly digest failed',
+        expect.any(Error),
+        expect.objectContaining({ userId: alice._id.toString() })
+      );
+      expect(emailDigests.updateOne).toHaveBeenLastCalledWith(
+        { season: 2026, weekStart: lastWeek },
+        { $set: { sent: 1, failed: 1, sentAt: expect.any(Date) } }
+      );
+    });
+
+    it('releases the gameweek for the next run when building the digest fails', async () => {
+      vi.mocked(calculatePeriodStandings).mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(sendWeeklyDigests(transport, wednesday)).rejects.toThrow('Database unavailable');
+      expect(emailDigests.deleteOne).toHaveBeenCalledWith({ season: 2026, weekStart: lastWeek });
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+
+    it('does nothing without an active season', async () => {
+      vi.mocked(getActiveSeason).mockResolvedValue(null);
+
+      expect(await sendWeeklyDigests(transport, wednesday)).toEqual({
+        season: null,
+        gameweeks: [],
+        sent: 0,
+        failed: 0,
+      });
+    });
+  });
+
+  describe('email preferences', () => {
+    it('defaults to receiving the digest', async () => {
+      users.findOne.mockResolvedValue({ _id: alice._id });
+
+      expect(await getEmailPreferences(alice._id.toString())).toEqual({ weeklyDigest: true });
+    });
+
+    it('saves preferences on the user', async () => {
+      users.findOne.mockResolvedValue({ _id: alice._id });
+
+      await updateEmailPreferences(alice._id.toString(), { weeklyDigest: false });
+
+      expect(users.updateOne).toHaveBeenCalledWith(
+        { _id: alice._id },
+        { $set: { emailPreferences: { weeklyDigest: false }, updatedAt: expect.any(Date) } }
+      );
+    });
+
+    it('throws when the user does not exist', async () => {
+      await expect(getEmailPreferences(alice._id.toString())).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('unsubscribeFromEmails', () => {
+    it('turns the digest off for the user in the link', async () => {
+      await unsubscribeFromEmails(generateUnsubscribeToken(alice._id.toString()));
+
+      expect(users.updateOne).toHaveBeenCalledWith(
+        { _id: alice._id },
+        { $set: { 'emailPreferences.weeklyDigest': false, updatedAt: expect.any(Date) } }
+      );
+    });
+
+    it('rejects a link that was not signed by us', async () => {
+      await expect(unsubscribeFromEmails('not-a-token')).rejects.toThrow(
+        'Invalid unsubscribe link'
+      );
+      expect(users.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,274 @@
+// Emails service - email preferences and the weekly digest sent once a gameweek is scored
+
+import { ObjectId } from 'mongodb';
+import type { Db } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { generateUnsubscribeToken, verifyUnsubscribeToken } from '../auth';
+import { EmailTransport, getAppUrl, getEmailTransport } from '../email';
+import { renderWeeklyDigest } from '../email-templates';
+import {
+  EmailDigestDocument,
+  toEmailPreferences,
+  EMAIL_DIGESTS_COLLECTION,
+} from '../models/EmailDigest';
+import { GolferDocument, GOLFERS_COLLECTION } from '../models/Golfer';
+import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
+import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
+import { UserDocument, USERS_COLLECTION } from '../models/User';
+import { getGameweekNumber, getWeekEnd, getWeekStart } from '../utils/dates';
+import { createLogger } from '../utils/logger';
+import { calculatePeriodStandings } from './season-archive.service';
+import { getActiveSeason } from './seasons.service';
+import type { EmailPreferences, Season } from '../../../../shared/types';
+
+export interface WeeklyDigestResult {
+  season: number | null;
+  gameweeks: number[]; // Gameweeks whose digest was sent on this run
+  sent: number;
+  failed: number;
+}
+
+type DigestTournament = Pick<TournamentDocument, '_id' | 'name' | 'startDate' | 'status'>;
+
+const UPCOMING_TOURNAMENTS = 3;
+
+const logger = createLogger({ endpoint: 'emails' });
+
+async function findUser(userId: string): Promise<UserDocument> {
+  const { db } = await connectToDatabase();
+  const user = await db
+    .collection<UserDocument>(USERS_COLLECTION)
+    .findOne({ _id: new ObjectId(userId) });
+  if (!user) {
+    throw new Error('User not found');
+  }
+  return user;
+}
+
+export async function getEmailPreferences(userId: string): Promise<EmailPreferences> {
+  const user = await findUser(userId);
+  return toEmailPreferences(user.emailPreferences);
+}
+
+export async function updateEmailPreferences(
+  userId: string,
+  data: EmailPreferences
+): Promise<EmailPreferences> {
+  const user = await findUser(userId);
+  const preferences = toEmailPreferences(data);
+  const { db } = await connectToDatabase();
+  await db
+    .collection<UserDocument>(USERS_COLLECTION)
+    .updateOne(
+      { _id: user._id },
+      { $set: { emailPreferences: preferences, updatedAt: new Date() } }
+    );
+  return preferences;
+}
+
+/**
+ * Turn off the weekly digest for the manager an unsubscribe link was sent to. Works
+ * without signing in, so the link in the email is enough.
+ */
+export async function unsubscribeFromEmails(token: string): Promise<void> {
+  const userId = verifyUnsubscribeToken(token);
+  if (!userId || !ObjectId.isValid(userId)) {
+    throw new Error('Invalid unsubscribe link');
+  }
+
+  const { db } = await connectToDatabase();
+  const result = await db
+    .collection<UserDocument>(USERS_COLLECTION)
+    .updateOne(
+      { _id: new ObjectId(userId) },
+      { $set: { 'emailPreferences.weeklyDigest': false, updatedAt: new Date() } }
+    );
+  if (result.matchedCount === 0) {
+    throw new Error('User not found');
+  }
+}
+
+async function getBestGolfer(
+  db: Db,
+  tournaments: DigestTournament[]
+): Promise<{ name: string; points: number } | null> {
+  const scores = await db
+    .collection<ScoreDocument>(SCORES_COLLECTION)
+    .find({ tournamentId: { $in: tournaments.map((t) => t._id) }, participated: true })
+    .project<Pick<ScoreDocument, 'golferId' | 'multipliedPoints'>>({
+      golferId: 1,
+      multipliedPoints: 1,
+    })
+    .toArray();
+
+  const totals = new Map<string, number>();
+  for (const score of scores) {
+    const id = score.golferId.toString();
+    totals.set(id, (totals.get(id) ?? 0) + score.multipliedPoints);
+  }
+  const [best] = [...totals.entries()].sort((a, b) => b[1] - a[1]);
+  if (!best) return null;
+
+  const golfer = await db
+    .collection<GolferDocument>(GOLFERS_COLLECTION)
+    .findOne({ _id: new ObjectId(best[0]) });
+  return golfer ? { name: `${golfer.firstName} ${golfer.lastName}`, points: best[1] } : null;
+}
+
+/**
+ * Email every manager with a team who hasn't turned the digest off their summary of
+ * one gameweek.
+ */
+async function sendGameweekDigest(
+  db: Db,
+  season: Season,
+  weekStart: Date,
+  tournaments: DigestTournament[],
+  transport: EmailTransport
+): Promise<{ sent: number; failed: number }> {
+  const weekEnd = getWeekEnd(weekStart);
+  const seasonStart = new Date(season.startDate);
+  const [weekStandings, seasonStandings, previousStandings, bestGolfer, upcoming] =
+    await Promise.all([
+      calculatePeriodStandings(db, season, weekStart, weekEnd),
+      calculatePeriodStandings(db, season, seasonStart, weekEnd),
+      calculatePeriodStandings(db, season, seasonStart, new Date(weekStart.getTime() - 1)),
+      getBestGolfer(db, tournaments),
+      db
+        .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+        .find({ season: parseInt(season.name, 10), startDate: { $gt: weekEnd } })
+        .sort({ startDate: 1 })
+        .limit(UPCOMING_TOURNAMENTS)
+        .project<Pick<TournamentDocument, 'name' | 'startDate'>>({ name: 1, startDate: 1 })
+        .toArray(),
+    ]);
+  if (weekStandings.length === 0) return { sent: 0, failed: 0 };
+
+  const leaders = weekStandings.filter((s) => s.rank === 1);
+  const topManager = {
+    name: leaders.map((s) => `${s.firstName} ${s.lastName}`).join(' & '),
+    points: leaders[0].totalPoints,
+  };
+  const weekPoints = new Map(weekStandings.map((s) => [s.userId, s.totalPoints]));
+  const seasonRanks = new Map(seasonStandings.map((s) => [s.userId, s.rank]));
+  const previousRanks = new Map(previousStandings.map((s) => [s.userId, s.rank]));
+  const gameweek = getGameweekNumber(weekStart, seasonStart);
+
+  const recipients = await db
+    .collection<UserDocument>(USERS_COLLECTION)
+    .find({
+      _id: { $in: weekStandings.map((s) => new ObjectId(s.userId)) },
+      'emailPreferences.weeklyDigest': { $ne: false },
+    })
+    .project<Pick<UserDocument, '_id' | 'firstName' | 'email'>>({ firstName: 1, email: 1 })
+    .toArray();
+
+  let sent = 0;
+  let failed = 0;
+  for (const user of recipients) {
+    const userId = user._id.toString();
+    const email = renderWeeklyDigest(
+      {
+        firstName: user.firstName,
+        gameweek,
+        points: weekPoints.get(userId) ?? 0,
+        seasonRank: seasonRanks.get(userId) ?? null,
+        previousSeasonRank: previousRanks.get(userId) ?? null,
+        bestGolfer,
+        topManager,
+        upcomingTournaments: upcoming,
+      },
+      {
+        appUrl: getAppUrl('/leaderboard'),
+        preferencesUrl: getAppUrl('/profile'),
+        unsubscribeUrl: getAppUrl(`/unsubscribe?token=${generateUnsubscribeToken(userId)}`),
+      }
+    );
+
+    try {
+      await transport.send({ to: user.email, ...email });
+      sent++;
+    } catch (error) {
+      // One bad address shouldn't stop the rest of the league getting theirs
+      logger.error('Sending weekly digest failed', error instanceof Error ? error : undefined, {
+        userId,
+        gameweek,
+      });
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Send the digest for last week and this week once every tournament in the gameweek
+ * has been scored. Each gameweek's digest is sent once; a tournament scored late
+ * after that isn't sent again.
+ */
+export async function sendWeeklyDigests(
+  transport: EmailTransport = getEmailTransport(),
+  now: Date = new Date()
+): Promise<WeeklyDigestResult> {
+  const season = await getActiveSeason();
+  if (!season) return { season: null, gameweeks: [], sent: 0, failed: 0 };
+
+  const seasonNumber = parseInt(season.name, 10);
+  const seasonStart = new Date(season.startDate);
+  const result: WeeklyDigestResult = { season: seasonNumber, gameweeks: [], sent: 0, failed: 0 };
+
+  const { db } = await connectToDatabase();
+  const digests = db.collection<EmailDigestDocument>(EMAIL_DIGESTS_COLLECTION);
+  const thisWeek = getWeekStart(now);
+  const lastWeek = new Date(thisWeek.getFullYear(), thisWeek.getMonth(), thisWeek.getDate() - 7);
+
+  for (const weekStart of [lastWeek, thisWeek]) {
+    const weekEnd = getWeekEnd(weekStart);
+    if (weekEnd < seasonStart) continue;
+
+    const tournaments = await db
+      .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+      .find({ season: seasonNumber, startDate: { $gte: weekStart, $lte: weekEnd } })
+      .project<DigestTournament>({ name: 1, startDate: 1, status: 1 })
+      .toArray();
+    // Wait until the gameweek's last tournament has its results published
+    if (tournaments.length === 0 || tournaments.some((t) => t.status === 'draft')) continue;
+
+    // Claim the gameweek first so an overlapping run doesn't send it twice
+    const gameweek = getGameweekNumber(weekStart, seasonStart);
+    const claim = await digests.updateOne(
+      { season: seasonNumber, weekStart },
+      {
+        $setOnInsert: {
+          season: seasonNumber,
+          weekStart,
+          gameweek,
+          sent: 0,
+          failed: 0,
+          sentAt: now,
+        },
+      },
+      { upsert: true }
+    );
+    if (claim.upsertedCount === 0) continue;
+
+    let outcome: { sent: number; failed: number };
+    try {
+      outcome = await sendGameweekDigest(db, season, weekStart, tournaments, transport);
+    } catch (error) {
+      // Release the claim so the next run tries the gameweek again
+      await digests.deleteOne({ season: seasonNumber, weekStart });
+      throw error;
+    }
+    const { sent, failed } = outcome;
+    await digests.updateOne(
+      { season: seasonNumber, weekStart },
+      { $set: { sent, failed, sentAt: new Date() } }
+    );
+    result.gameweeks.push(gameweek);
+    result.sent += sent;
+    result.failed += failed;
+  }
+
+  return result;
+}
@@ -0,0 +1,138 @@
+import { ObjectId } from 'mongodb';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { refreshGolferSeasonStats, refreshTournamentGolferStats } from './golfer-stats.service';
+
+const golferA = new ObjectId();
+const golferB = new ObjectId();
+const tournamentId = new ObjectId();
+const draftId = new ObjectId();
+
+describe('golfer-stats.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('refreshGolferSeasonStats', () => {
+    it("stores each golfer's stats for the season from their scores", async () => {
+      const tournaments = {
+        find: vi.fn().mockReturnValue(
+          mockCursor([
+            { _id: tournamentId, status: 'published' },
+            { _id: draftId, status: 'draft' },
+          ])
+        ),
+      };
+      const scores = {
+        find: vi.fn().mockReturnValue(
+          mockCursor([
+            { golferId: golferA, position: 1, rawScore: 38 },
+            { golferId: golferA, position: 4, rawScore: 33 },
+          ])
+        ),
+      };
+      const golfers = { bulkWrite: vi.fn() };
+      const { mockDb } = createMockDb({ tournaments, scores, golfers });
+
+      await refreshGolferSeasonStats(mockDb.db, 2026, [golferA, golferB]);
+
+      expect(tournaments.find).toHaveBeenCalledWith({ season: 2026 });
+      expect(scores.find).toHaveBeenCalledWith({
+        golferId: { $in: [golferA, golferB] },
+        tournamentId: { $in: [tournamentId] },
+        participated: true,
+      });
+      expect(golfers.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { _id: golferA },
+            update: {
+              $set: {
+                'statsBySeason.2026': {
+                  timesScored36Plus: 1,
+                  timesScored32Plus: 2,
+                  timesFinished1st: 1,
+                  timesFinished2nd: 0,
+                  timesFinished3rd: 0,
+                  timesPlayed: 2,
+                },
+              },
+            },
+          },
+        },
+        {
+          updateOne: {
+            filter: { _id: golferB },
+            update: {
+              $set: {
+                'statsBySeason.2026': {
+                  timesScored36Plus: 0,
+                  timesScored32Plus: 0,
+                  timesFinished1st: 0,
+                  timesFinished2nd: 0,
+                  timesFinished3rd: 0,
+                  timesPlayed: 0,
+                },
+              },
+            },
+          },
+        },
+      ]);
+    });
+
+    it('keeps stored stats for a season without tournaments', async () => {
+      const tournaments = { find: vi.fn().mockReturnValue(mockCursor([])) };
+      const golfers = { bulkWrite: vi.fn() };
+      const { mockDb } = createMockDb({ tournaments, golfers });
+
+      await refreshGolferSeasonStats(mockDb.db, 2024, [golferA]);
+
+      expect(golfers.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('resets stats when only draft tournaments are left', async () => {
+      const tournaments = {
+        find: vi.fn().mockReturnValue(mockCursor([{ _id: draftId, status: 'draft' }])),
+      };
+      const scores = { find: vi.fn().mockReturnValue(mockCursor([])) };
+      const golfers = { bulkWrite: vi.fn() };
+      const { mockDb } = createMockDb({ tournaments, scores, golfers });
+
+      await refreshGolferSeasonStats(mockDb.db, 2026, [golferA]);
+
+      expect(scores.find).toHaveBeenCalledWith(
+        expect.objectContaining({ tournamentId: { $in: [] } })
+      );
+      const [[[operation]]] = golfers.bulkWrite.mock.calls;
+      expect(operation.updateOne.update.$set['statsBySeason.2026'].timesPlayed).toBe(0);
+    });
+
+    it('does nothing without golfers', async () => {
+      const golfers = { bulkWrite: vi.fn() };
+      const { mockDb } = createMockDb({ golfers });
+
+      await refreshGolferSeasonStats(mockDb.db, 2026, []);
+
+      expect(golfers.bulkWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshTournamentGolferStats', () => {
+    it("refreshes the season's stats for every golfer with a score in the tournament", async () => {
+      const tournaments = {
+        find: vi.fn().mockReturnValue(mockCursor([{ _id: tournamentId, status: 'published' }])),
+      };
+      const scores = {
+        distinct: vi.fn().mockResolvedValue([golferA, golferB]),
+        find: vi.fn().mockReturnValue(mockCursor([])),
+      };
+      const golfers = { bulkWrite: vi.fn() };
+      const { mockDb } = createMockDb({ tournaments, scores, golfers });
+
+      await refreshTournamentGolferStats(mockDb.db, tournamentId, 2026);
+
+      expect(scores.distinct).toHaveBeenCalledWith('golferId', { tournamentId });
+      expect(tournaments.find).toHaveBeenCalledWith({ season: 2026 });
+      expect(golfers.bulkWrite.mock.calls[0][0]).toHaveLength(2);
+    });
+  });
+});
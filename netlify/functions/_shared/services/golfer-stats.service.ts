@@ -0,0 +1,84 @@
+// Golfer stats service - per-season stats materialised from scores
+
+import type { Db, ObjectId } from 'mongodb';
+import { GolferDocument, GOLFERS_COLLECTION } from '../models/Golfer';
+import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
+import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
+import { calculateGolferSeasonStats } from '../../../../shared/types';
+import type { TournamentStatus } from '../../../../shared/types';
+
+type StatsScore = Pick<ScoreDocument, 'golferId' | 'position' | 'rawScore'>;
+
+// Draft results aren't public yet, so they don't count towards stats
+const COUNTED_STATUSES: TournamentStatus[] = ['published', 'complete'];
+
+/**
+ * Recalculate the given golfers' stats for one season from their scores in published
+ * tournaments and store them under statsBySeason.<season>. Golfers with no scores left
+ * in the season are reset to zero rather than keeping stale counts. A season with no
+ * tournaments is left alone, so stats recorded before results were tracked in the app
+ * survive.
+ */
+export async function refreshGolferSeasonStats(
+  db: Db,
+  season: number,
+  golferIds: ObjectId[]
+): Promise<void> {
+  if (golferIds.length === 0) return;
+
+  const tournaments = await db
+    .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+    .find({ season })
+    .project<Pick<TournamentDocument, '_id' | 'status'>>({ _id: 1, status: 1 })
+    .toArray();
+  if (tournaments.length === 0) return;
+  const countedIds = tournaments
+    .filter((t) => COUNTED_STATUSES.includes(t.status))
+    .map((t) => t._id);
+
+  const scores = await db
+    .collection<ScoreDocument>(SCORES_COLLECTION)
+    .find({
+      golferId: { $in: golferIds },
+      tournamentId: { $in: countedIds },
+      participated: true,
+    })
+    .project<StatsScore>({ golferId: 1, position: 1, rawScore: 1 })
+    .toArray();
+
+  const scoresByGolfer = new Map<string, StatsScore[]>();
+  for (const score of scores) {
+    const key = score.golferId.toString();
+    scoresByGolfer.set(key, [...(scoresByGolfer.get(key) ?? []), score]);
+  }
+
+  await db.collection<GolferDocument>(GOLFERS_COLLECTION).bulkWrite(
+    golferIds.map((golferId) => ({
+      updateOne: {
+        filter: { _id: golferId },
+        update: {
+          $set: {
+            [`statsBySeason.${season}`]: calculateGolferSeasonStats(
+              scoresByGolfer.get(golferId.toString()) ?? []
+            ),
+          },
+        },
+      },
+    }))
+  );
+}
+
+/**
+ * Recalculate stats for every golfer with a score in a tournament, after a change to
+ * whether its scores count.
+ */
+export async function refreshTournamentGolferStats(
+  db: Db,
+  tournamentId: ObjectId,
+  season: number
+): Promise<void> {
+  const golferIds = await db
+    .collection<ScoreDocument>(SCORES_COLLECTION)
+    .distinct('golferId', { tournamentId });
+  await refreshGolferSeasonStats(db, season, golferIds);
+}
@@ -14,12 +14,19 @@ vi.mock('../db', () => ({
   connectToDatabase: vi.fn(),
 }));
 
+vi.mock('./seasons.service', () => ({
+  getActiveSeason: vi.fn().mockResolvedValue({ name: '2026' }),
+}));
+
 const mockGolfersCollection = {
   find: vi.fn(),
   findOne: vi.fn(),
   insertOne: vi.fn(),
   findOneAndUpdate: vi.fn(),
   deleteOne: vi.fn(),
+  insertMany: vi.fn(),
+  updateOne: vi.fn(),
+  bulkWrite: vi.fn(),
 };
 
 const toArrayHelper = <T>(items: T[]) => ({
@@ -53,9 +60,7 @@ describe('golfers.service', () => {
     picture: 'tiger.jpg',
     price: 15_000_000,
     isActive: true,
-    stats2024: defaultStats,
-    stats2025: defaultStats,
-    stats2026: defaultStats,
+    statsBySeason: { '2025': defaultStats },
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -147,6 +152,41 @@ describe('golfers.service', () => {
 
       expect(result.isActive).toBe(false);
     });
+
+    it('records the opening handicap index', async () => {
+      const insertedId = new ObjectId();
+      mockGolfersCollection.insertOne.mockResolvedValue({ insertedId });
+
+      const result = await createGolfer({
+        firstName: 'Shane',
+        lastName: 'Lowry',
+        picture: '',
+        price: 8_000_000,
+        handicapIndex: 5.4,
+      });
+
+      expect(result.handicapIndex).toBe(5.4);
+      const [[operation]] = mockGolfersCollection.bulkWrite.mock.calls[0];
+      expect(operation.updateOne.filter.golferId).toBe(insertedId);
+      expect(operation.updateOne.update.$set).toMatchObject({
+        handicapIndex: 5.4,
+        source: 'admin',
+      });
+    });
+
+    it('leaves the handicap unset when none is given', async () => {
+      mockGolfersCollection.insertOne.mockResolvedValue({ insertedId: new ObjectId() });
+
+      const result = await createGolfer({
+        firstName: 'Rory',
+        lastName: 'McIlroy',
+        picture: '',
+        price: 12_000_000,
+      });
+
+      expect(result.handicapIndex).toBeNull();
+      expect(mockGolfersCollection.bulkWrite).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateGolfer', () => {
@@ -161,6 +201,88 @@ describe('golfers.service', () => {
       expect(result!.price).toBe(20_000_000);
     });
 
+    it('merges season stats without replacing other seasons', async () => {
+      mockGolfersCollection.findOneAndUpdate.mockResolvedValue(golferDoc);
+      const stats2024 = { ...defaultStats, timesPlayed: 8, timesFinished1st: 2 };
+
+      const result = await updateGolfer(golferId.toString(), {
+        statsBySeason: { '2024': stats2024 },
+      });
+
+      expect(mockGolfersCollection.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: golferId },
+        { $set: { 'statsBySeason.2024': stats2024, updatedAt: expect.any(Date) } },
+        { returnDocument: 'before' }
+      );
+      expect(result!.statsBySeason).toEqual({ '2024': stats2024, '2025': defaultStats });
+    });
+
+    it('records a price change in the price history', async () => {
+      mockGolfersCollection.findOneAndUpdate.mockResolvedValue(golferDoc);
+
+      const result = await updateGolfer(golferId.toString(), { price: 16_000_000 });
+
+      expect(result!.price).toBe(16_000_000);
+      expect(mockGolfersCollection.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          golferId,
+          season: 2026,
+          oldPrice: 15_000_000,
+          newPrice: 16_000_000,
+          source: 'admin',
+        }),
+      ]);
+    });
+
+    it('does not record history when the price is unchanged', async () => {
+      mockGolfersCollection.findOneAndUpdate.mockResolvedValue(golferDoc);
+
+      await updateGolfer(golferId.toString(), { firstName: 'Eldrick' });
+
+      expect(mockGolfersCollection.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('records a new handicap index from today', async () => {
+      mockGolfersCollection.findOneAndUpdate.mockResolvedValue({ ...golferDoc, handicapIndex: 2 });
+
+      const result = await updateGolfer(golferId.toString(), { handicapIndex: 1.6 });
+
+      expect(result!.handicapIndex).toBe(1.6);
+      const now = new Date();
+      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      expect(mockGolfersCollection.updateOne).toHaveBeenCalledWith(
+        { _id: golferId },
+        { $set: { handicapEffectiveDate: today } }
+      );
+      const [[operation]] = mockGolfersCollection.bulkWrite.mock.calls[0];
+      expect(operation.updateOne.filter).toEqual({ golferId, effectiveDate: today });
+      expect(operation.updateOne.update.$set).toMatchObject({
+        handicapIndex: 1.6,
+        source: 'admin',
+      });
+    });
+
+    it('does not record a handicap that is unchanged', async () => {
+      mockGolfersCollection.findOneAndUpdate.mockResolvedValue({ ...golferDoc, handicapIndex: 2 });
+
+      await updateGolfer(golferId.toString(), { handicapIndex: 2 });
+
+      expect(mockGolfersCollection.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('clears the effective date along with the handicap', async () => {
+      mockGolfersCollection.findOneAndUpdate.mockResolvedValue({ ...golferDoc, handicapIndex: 2 });
+
+      const result = await updateGolfer(golferId.toString(), { handicapIndex: null });
+
+      expect(result!.handicapIndex).toBeNull();
+      expect(mockGolfersCollection.updateOne).toHaveBeenCalledWith(
+        { _id: golferId },
+        { $unset: { handicapEffectiveDate: '' } }
+      );
+      expect(mockGolfersCollection.bulkWrite).not.toHaveBeenCalled();
+    });
+
     it('returns null when golfer not found', async () => {
       mockGolfersCollection.findOneAndUpdate.mockResolvedValue(null);
 
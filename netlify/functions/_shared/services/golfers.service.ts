@@ -2,9 +2,12 @@
 
 import { ObjectId } from 'mongodb';
 import { connectToDatabase } from '../db';
-import { GolferDocument, toGolfer, GOLFERS_COLLECTION, defaultStats2025 } from '../models/Golfer';
+import { GolferDocument, toGolfer, GOLFERS_COLLECTION } from '../models/Golfer';
 import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
 import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
+import { getActiveSeason } from './seasons.service';
+import { recordPriceChanges } from './prices.service';
+import { recordHandicapChanges, toEffectiveDate } from './handicaps.service';
 import type { Golfer, CreateGolferDTO, UpdateGolferDTO } from '../../../../shared/types';
 import {
   MIN_PRICE,
@@ -49,37 +52,110 @@ export async function createGolfer(data: CreateGolferDTO): Promise<Golfer> {
   const collection = db.collection<GolferDocument>(GOLFERS_COLLECTION);
 
   const now = new Date();
+  const handicapIndex = data.handicapIndex ?? null;
   const golferData: Omit<GolferDocument, '_id'> = {
     firstName: data.firstName,
     lastName: data.lastName,
     picture: data.picture,
     price: data.price,
+    handicapIndex,
+    ...(handicapIndex !== null && { handicapEffectiveDate: toEffectiveDate(now) }),
     isActive: data.isActive ?? true,
-    stats2025: data.stats2025 || defaultStats2025,
-    stats2026: data.stats2026 || defaultStats2025,
+    statsBySeason: data.statsBySeason ?? {},
     createdAt: now,
     updatedAt: now,
   };
 
   const result = await collection.insertOne(golferData as GolferDocument);
 
-  return {
-    id: result.insertedId.toString(),
-    ...golferData,
-  };
+  if (handicapIndex !== null) {
+    await recordHandicapChanges(db, [
+      {
+        golferId: result.insertedId,
+        handicapIndex,
+        effectiveDate: toEffectiveDate(now),
+        source: 'admin',
+        recordedAt: now,
+      },
+    ]);
+  }
+
+  return toGolfer({ _id: result.insertedId, ...golferData });
 }
 
+/**
+ * Update a golfer. A price change is recorded in golferPriceHistory against the
+ * active season, and a new handicap index in golferHandicapHistory from today.
+ * Season stats are merged by season, so stats for seasons not sent are kept.
+ */
 export async function updateGolfer(id: string, data: UpdateGolferDTO): Promise<Golfer | null> {
   const { db } = await connectToDatabase();
   const collection = db.collection<GolferDocument>(GOLFERS_COLLECTION);
 
+  const now = new Date();
+  const { statsBySeason, ...fields } = data;
+  const seasonStatsFields = Object.fromEntries(
+    Object.entries(statsBySeason ?? {}).map(([season, stats]) => [
+      `statsBySeason.${season}`,
+      stats,
+    ])
+  );
   const result = await collection.findOneAndUpdate(
     { _id: new ObjectId(id) },
-    { $set: { ...data, updatedAt: new Date() } },
-    { returnDocument: 'after' }
+    { $set: { ...fields, ...seasonStatsFields, updatedAt: now } },
+    { returnDocument: 'before' }
   );
+  if (!result) return null;
+
+  if (data.price !== undefined && data.price !== result.price) {
+    const activeSeason = await getActiveSeason();
+    await recordPriceChanges(db, [
+      {
+        golferId: result._id,
+        season: activeSeason
+          ? parseInt(activeSeason.name, 10) || now.getFullYear()
+          : now.getFullYear(),
+        oldPrice: result.price,
+        newPrice: data.price,
+        source: 'admin',
+        changedAt: now,
+      },
+    ]);
+  }
+
+  // A cleared handicap has no date it took effect from
+  const handicapCleared = data.handicapIndex === null && result.handicapIndex != null;
+  if (handicapCleared) {
+    await collection.updateOne({ _id: result._id }, { $unset: { handicapEffectiveDate: '' } });
+  }
 
-  return result ? toGolfer(result) : null;
+  const handicapChanged =
+    data.handicapIndex !== undefined &&
+    data.handicapIndex !== null &&
+    data.handicapIndex !== (result.handicapIndex ?? null);
+  if (handicapChanged) {
+    const effectiveDate = toEffectiveDate(now);
+    await collection.updateOne(
+      { _id: result._id },
+      { $set: { handicapEffectiveDate: effectiveDate } }
+    );
+    await recordHandicapChanges(db, [
+      {
+        golferId: result._id,
+        handicapIndex: data.handicapIndex as number,
+        effectiveDate,
+        source: 'admin',
+        recordedAt: now,
+      },
+    ]);
+  }
+
+  return toGolfer({
+    ...result,
+    ...fields,
+    statsBySeason: { ...result.statsBySeason, ...statsBySeason },
+    updatedAt: now,
+  });
 }
 
 export async function deleteGolfer(id: string): Promise<boolean> {
@@ -167,6 +243,18 @@ export async function calculateGolferPrices(season: number): Promise<{
   }
 
   const bulkResult = await db.collection<GolferDocument>(GOLFERS_COLLECTION).bulkWrite(bulkOps);
+  const changedAt = new Date();
+  await recordPriceChanges(
+    db,
+    golfers.map((golfer, i) => ({
+      golferId: golfer._id,
+      season,
+      oldPrice: golfer.price,
+      newPrice: bulkOps[i].updateOne.update.$set.price,
+      source: 'recalculation',
+      changedAt,
+    }))
+  );
 
   // 7. Return summary
   const prices = bulkOps.map((op) => op.updateOne.update.$set.price);
@@ -0,0 +1,218 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { getActiveSeason, getSeasonByName } from './seasons.service';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { generateRoundRobin, generateSeasonFixtures, getH2HResults } from './h2h.service';
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('./seasons.service', () => ({
+  getActiveSeason: vi.fn(),
+  getSeasonByName: vi.fn(),
+}));
+
+const season = {
+  id: 'season-1',
+  name: '2026',
+  startDate: new Date(2026, 3, 1), // Wed 1 April — GW1 starts Sat 4 April
+  endDate: new Date(2026, 3, 30),
+  isActive: true,
+  status: 'active',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('generateRoundRobin', () => {
+  it('pairs every manager with every other manager once per cycle', () => {
+    const ids = ['a', 'b', 'c', 'd'];
+    const schedule = generateRoundRobin(ids, 3);
+
+    const meetings = new Set<string>();
+    for (const round of schedule) {
+      expect(round).toHaveLength(2);
+      const playing = round.flat();
+      expect(new Set(playing).size).toBe(4);
+      for (const [home, away] of round) meetings.add([home, away].sort().join('-'));
+    }
+    expect(meetings.size).toBe(6);
+  });
+
+  it('gives one manager a bye each round with an odd number of managers', () => {
+    const schedule = generateRoundRobin(['a', 'b', 'c'], 3);
+
+    const byes = schedule.map((round) => round.find(([, away]) => away === null)?.[0]);
+    expect(byes.every(Boolean)).toBe(true);
+    expect(new Set(byes).size).toBe(3);
+  });
+
+  it('repeats the cycle when there are more gameweeks than opponents', () => {
+    const schedule = generateRoundRobin(['a', 'b'], 4);
+
+    expect(schedule).toHaveLength(4);
+    expect(schedule.every((round) => round.length === 1)).toBe(true);
+  });
+
+  it('returns no rounds for fewer than two managers', () => {
+    expect(generateRoundRobin([], 5)).toEqual([]);
+  });
+});
+
+describe('h2h.service', () => {
+  const userA = new ObjectId();
+  const userB = new ObjectId();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 3, 15, 12)); // Wed of GW2
+    vi.mocked(getActiveSeason).mockResolvedValue(season as any);
+    vi.mocked(getSeasonByName).mockResolvedValue(season as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('generateSeasonFixtures', () => {
+    it('schedules only the gameweeks that have not started', async () => {
+      const fixtures = { deleteMany: vi.fn(), insertMany: vi.fn() };
+      const { mockDb } = createMockDb({
+        picks: {
+          find: vi.fn().mockReturnValue(mockCursor([{ userId: userA }, { userId: userB }])),
+        },
+        h2hFixtures: fixtures,
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+
+      const result = await generateSeasonFixtures('2026');
+
+      // April 2026 has gameweeks 1-4 (Sat 4, 11, 18, 25); we're in GW2
+      expect(result).toEqual({ season: 2026, fromGameweek: 3, totalGameweeks: 4, fixtureCount: 2 });
+      expect(fixtures.deleteMany).toHaveBeenCalledWith({ season: 2026, gameweek: { $gte: 3 } });
+      const inserted = fixtures.insertMany.mock.calls[0][0];
+      expect(inserted.map((f: any) => f.gameweek)).toEqual([3, 4]);
+      expect(inserted[0].weekStart).toEqual(new Date(2026, 3, 18));
+    });
+
+    it('requires at least two managers', async () => {
+      const { mockDb } = createMockDb({
+        picks: { find: vi.fn().mockReturnValue(mockCursor([{ userId: userA }])) },
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+
+      await expect(generateSeasonFixtures('2026')).rejects.toThrow('At least two managers');
+    });
+
+    it('throws when the season does not exist', async () => {
+      vi.mocked(getSeasonByName).mockResolvedValue(null);
+
+      await expect(generateSeasonFixtures('1999')).rejects.toThrow('Season not found');
+    });
+  });
+
+  describe('getH2HResults', () => {
+    const golferA = new ObjectId();
+    const golferB = new ObjectId();
+    const tournamentId = new ObjectId();
+
+    function setupDb() {
+      const { mockDb } = createMockDb({
+        h2hFixtures: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              {
+                _id: new ObjectId(),
+                season: 2026,
+                gameweek: 1,
+                weekStart: new Date(2026, 3, 4),
+                homeUserId: userA,
+                awayUserId: userB,
+              },
+              {
+                _id: new ObjectId(),
+                season: 2026,
+                gameweek: 2,
+                weekStart: new Date(2026, 3, 11),
+                homeUserId: userB,
+                awayUserId: userA,
+              },
+            ])
+          ),
+        },
+        users: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              { _id: userA, firstName: 'Alice', lastName: 'A', username: 'alice' },
+              { _id: userB, firstName: 'Bob', lastName: 'B', username: 'bob' },
+            ])
+          ),
+        },
+        picks: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              { userId: userA, golferIds: [golferA], captainId: null },
+              { userId: userB, golferIds: [golferB], captainId: null },
+            ])
+          ),
+        },
+        pickHistory: { find: vi.fn().mockReturnValue(mockCursor([])) },
+        transferPenalties: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([{ userId: userA, season: 2026, weekStart: new Date(2026, 3, 4), points: 4 }])
+          ),
+        },
+        tournaments: {
+          find: vi
+            .fn()
+            .mockReturnValue(mockCursor([{ _id: tournamentId, startDate: new Date(2026, 3, 5) }])),
+        },
+        scores: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              { golferId: golferA, tournamentId, multipliedPoints: 20, participated: true },
+              { golferId: golferB, tournamentId, multipliedPoints: 10, participated: true },
+            ])
+          ),
+        },
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+    }
+
+    it('awards league points for finished gameweeks', async () => {
+      setupDb();
+
+      const result = await getH2HResults('2026', 1);
+
+      expect(result.gameweek).toBe(1);
+      expect(result.fixtures).toHaveLength(1);
+      // Alice's 20 less a 4 point transfer hit
+      expect(result.fixtures[0]).toMatchObject({ homePoints: 16, awayPoints: 10, result: 'home' });
+
+      const [first, second] = result.table;
+      expect(first).toMatchObject({ username: 'alice', rank: 1, won: 1, leaguePoints: 3 });
+      expect(second).toMatchObject({ username: 'bob', rank: 2, lost: 1, leaguePoints: 0 });
+    });
+
+    it('shows the current gameweek as pending without counting it', async () => {
+      setupDb();
+
+      const result = await getH2HResults();
+
+      expect(result.gameweek).toBe(2);
+      expect(result.fixtures[0].result).toBe('pending');
+      expect(result.table[0].played).toBe(1);
+    });
+
+    it('returns an empty table when no fixtures exist', async () => {
+      const { mockDb } = createMockDb({
+        h2hFixtures: { find: vi.fn().mockReturnValue(mockCursor([])) },
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+
+      const result = await getH2HResults('2026');
+
+      expect(result.fixtures).toEqual([]);
+      expect(result.table).toEqual([]);
+      expect(result.totalGameweeks).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,377 @@
+// Head-to-head service - round-robin fixtures and weekly results
+
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { H2HFixtureDocument, H2H_FIXTURES_COLLECTION } from '../models/H2HFixture';
+import { PickDocument, PICKS_COLLECTION } from '../models/Pick';
+import { UserDocument, USERS_COLLECTION } from '../models/User';
+import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
+import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
+import { getActiveSeason, getSeasonByName } from './seasons.service';
+import {
+  buildTeamSnapshots,
+  calculateSnapshotPoints,
+  getSeasonPickHistory,
+  getSeasonTransferPenalties,
+  sumPenaltyPoints,
+} from './team.service';
+import {
+  getWeekStart,
+  getWeekEnd,
+  getGameweekNumber,
+  getSeasonFirstSaturday,
+} from '../utils/dates';
+import { H2H_WIN_POINTS, H2H_DRAW_POINTS } from '../../../../shared/constants/rules';
+import type {
+  Season,
+  H2HFixtureResult,
+  H2HManager,
+  H2HResult,
+  H2HResultsResponse,
+  H2HTableEntry,
+} from '../../../../shared/types';
+
+export type RoundRobinPairing = [string, string | null];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Build a round-robin schedule using the circle method.
+ * Every manager meets every other manager once per cycle; with an odd number
+ * of managers one of them gets a bye (null opponent) each round.
+ */
+export function generateRoundRobin(userIds: string[], rounds: number): RoundRobinPairing[][] {
+  const slots: (string | null)[] = [...userIds];
+  if (slots.length % 2 === 1) slots.push(null);
+
+  const n = slots.length;
+  if (n < 2) return [];
+
+  const schedule: RoundRobinPairing[][] = [];
+  for (let round = 0; round < rounds; round++) {
+    // Keep the first slot fixed and rotate the rest one place per round
+    const shift = round % (n - 1);
+    const rest = slots.slice(1);
+    const rotated = [
+      slots[0],
+      ...rest.slice(rest.length - shift),
+      ...rest.slice(0, rest.length - shift),
+    ];
+
+    const pairings: RoundRobinPairing[] = [];
+    for (let i = 0; i < n / 2; i++) {
+      let home = rotated[i];
+      let away = rotated[n - 1 - i];
+      // Alternate home/away for the fixed slot so nobody is always at home
+      if (i === 0 && round % 2 === 1) [home, away] = [away, home];
+      // A bye is always listed against the manager sitting out
+      if (home === null) [home, away] = [away, null];
+      pairings.push([home as string, away]);
+    }
+    schedule.push(pairings);
+  }
+  return schedule;
+}
+
+function getSeasonGameweekCount(season: Season): number {
+  return getGameweekNumber(getWeekStart(new Date(season.endDate)), new Date(season.startDate));
+}
+
+function getGameweekStart(season: Season, gameweek: number): Date {
+  const firstSaturday = getSeasonFirstSaturday(new Date(season.startDate));
+  return new Date(firstSaturday.getTime() + (gameweek - 1) * WEEK_MS);
+}
+
+async function resolveSeason(seasonName?: string): Promise<Season> {
+  const season = seasonName ? await getSeasonByName(seasonName) : await getActiveSeason();
+  if (!season) {
+    throw new Error('Season not found');
+  }
+  return season;
+}
+
+/**
+ * Generate head-to-head fixtures for every manager with a team this season.
+ * Gameweeks that have already started keep their fixtures, so regenerating
+ * mid-season only reschedules the weeks still to come (e.g. to add late joiners).
+ */
+export async function generateSeasonFixtures(
+  seasonName?: string
+): Promise<{ season: number; fromGameweek: number; totalGameweeks: number; fixtureCount: number }> {
+  const season = await resolveSeason(seasonName);
+  const seasonNumber = parseInt(season.name);
+  const { db } = await connectToDatabase();
+
+  const picks = await db
+    .collection<PickDocument>(PICKS_COLLECTION)
+    .find({ season: seasonNumber })
+    .project<Pick<PickDocument, 'userId'>>({ userId: 1 })
+    .sort({ createdAt: 1, _id: 1 })
+    .toArray();
+
+  if (picks.length < 2) {
+    throw new Error('At least two managers need a team before fixtures can be generated');
+  }
+
+  const totalGameweeks = getSeasonGameweekCount(season);
+  const now = new Date();
+  const firstSaturday = getSeasonFirstSaturday(new Date(season.startDate));
+  const fromGameweek =
+    now < firstSaturday ? 1 : getGameweekNumber(getWeekStart(now), new Date(season.startDate)) + 1;
+
+  if (fromGameweek > totalGameweeks) {
+    throw new Error('Season has no remaining gameweeks to schedule');
+  }
+
+  const schedule = generateRoundRobin(
+    picks.map((p) => p.userId.toString()),
+    totalGameweeks - fromGameweek + 1
+  );
+
+  const createdAt = new Date();
+  const fixtures: Omit<H2HFixtureDocument, '_id'>[] = schedule.flatMap((pairings, index) => {
+    const gameweek = fromGameweek + index;
+    const weekStart = getGameweekStart(season, gameweek);
+    return pairings.map(([home, away]) => ({
+      season: seasonNumber,
+      gameweek,
+      weekStart,
+      homeUserId: new ObjectId(home),
+      awayUserId: away ? new ObjectId(away) : null,
+      createdAt,
+    }));
+  });
+
+  const collection = db.collection<H2HFixtureDocument>(H2H_FIXTURES_COLLECTION);
+  await collection.deleteMany({ season: seasonNumber, gameweek: { $gte: fromGameweek } });
+  await collection.insertMany(fixtures as H2HFixtureDocument[]);
+
+  return { season: seasonNumber, fromGameweek, totalGameweeks, fixtureCount: fixtures.length };
+}
+
+function getFixtureResult(homePoints: number, awayPoints: number): H2HResult {
+  if (homePoints > awayPoints) return 'home';
+  if (awayPoints > homePoints) return 'away';
+  return 'draw';
+}
+
+function recordResult(entry: H2HTableEntry, pointsFor: number, pointsAgainst: number): void {
+  entry.played++;
+  entry.pointsFor += pointsFor;
+  entry.pointsAgainst += pointsAgainst;
+  if (pointsFor > pointsAgainst) {
+    entry.won++;
+    entry.leaguePoints += H2H_WIN_POINTS;
+  } else if (pointsFor < pointsAgainst) {
+    entry.lost++;
+  } else {
+    entry.drawn++;
+    entry.leaguePoints += H2H_DRAW_POINTS;
+  }
+}
+
+function rankTable(entries: H2HTableEntry[]): H2HTableEntry[] {
+  const sorted = [...entries].sort(
+    (a, b) => b.leaguePoints - a.leaguePoints || b.pointsFor - a.pointsFor
+  );
+  let rank = 1;
+  return sorted.map((entry, index) => {
+    const prev = sorted[index - 1];
+    if (prev && (entry.leaguePoints < prev.leaguePoints || entry.pointsFor < prev.pointsFor)) {
+      rank = index + 1;
+    }
+    return { ...entry, rank };
+  });
+}
+
+/**
+ * Get the fixtures for a gameweek along with the season's head-to-head table.
+ * Only gameweeks that have finished count towards the table.
+ */
+export async function getH2HResults(
+  seasonName?: string,
+  gameweek?: number
+): Promise<H2HResultsResponse> {
+  const season = await resolveSeason(seasonName);
+  const seasonNumber = parseInt(season.name);
+  const seasonStart = new Date(season.startDate);
+  const totalGameweeks = getSeasonGameweekCount(season);
+  const now = new Date();
+  const { db } = await connectToDatabase();
+
+  const currentGameweek = getGameweekNumber(getWeekStart(now), seasonStart);
+  const selectedGameweek = Math.min(
+    Math.max(gameweek ?? currentGameweek, 1),
+    Math.max(totalGameweeks, 1)
+  );
+
+  const fixtures = await db
+    .collection<H2HFixtureDocument>(H2H_FIXTURES_COLLECTION)
+    .find({ season: seasonNumber, gameweek: { $lte: Math.max(selectedGameweek, currentGameweek) } })
+    .sort({ gameweek: 1 })
+    .toArray();
+
+  if (fixtures.length === 0) {
+    return {
+      season: seasonNumber,
+      gameweek: selectedGameweek,
+      totalGameweeks,
+      fixtures: [],
+      table: [],
+    };
+  }
+
+  const managerIds = [
+    ...new Map(
+      fixtures
+        .flatMap((f) => [f.homeUserId, f.awayUserId])
+        .filter((id): id is ObjectId => !!id)
+        .map((id) => [id.toString(), id])
+    ).values(),
+  ];
+
+  const [users, picks, historyByUser, penaltiesByUser, tournaments] = await Promise.all([
+    db
+      .collection<UserDocument>(USERS_COLLECTION)
+      .find({ _id: { $in: managerIds } })
+      .project<Pick<UserDocument, '_id' | 'firstName' | 'lastName' | 'username'>>({
+        firstName: 1,
+        lastName: 1,
+        username: 1,
+      })
+      .toArray(),
+    db
+      .collection<PickDocument>(PICKS_COLLECTION)
+      .find({ season: seasonNumber, userId: { $in: managerIds } })
+      .toArray(),
+    getSeasonPickHistory(db, seasonNumber, managerIds),
+    getSeasonTransferPenalties(db, seasonNumber, managerIds),
+    db
+      .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+      .find({ season: seasonNumber, status: { $in: ['published', 'complete'] } })
+      .project<Pick<TournamentDocument, '_id' | 'startDate'>>({ _id: 1, startDate: 1 })
+      .toArray(),
+  ]);
+
+  const tournamentDates = new Map(
+    tournaments.map((t) => [t._id.toString(), new Date(t.startDate)])
+  );
+  const scores =
+    tournaments.length > 0
+      ? await db
+          .collection<ScoreDocument>(SCORES_COLLECTION)
+          .find({ tournamentId: { $in: tournaments.map((t) => t._id) } })
+          .toArray()
+      : [];
+
+  const managers = new Map<string, H2HManager>(
+    users.map((u) => [
+      u._id.toString(),
+      {
+        userId: u._id.toString(),
+        firstName: u.firstName,
+        lastName: u.lastName,
+        username: u.username,
+      },
+    ])
+  );
+  const snapshotsByUser = new Map(
+    picks.map((p) => [
+      p.userId.toString(),
+      buildTeamSnapshots(p, historyByUser.get(p.userId.toString())),
+    ])
+  );
+
+  // Weekly points per manager, computed once per gameweek
+  const weeklyPoints = new Map<number, Map<string, number>>();
+  const getWeeklyPoints = (gw: number, userId: string): number => {
+    let week = weeklyPoints.get(gw);
+    if (!week) {
+      week = new Map();
+      weeklyPoints.set(gw, week);
+    }
+    if (!week.has(userId)) {
+      const snapshots = snapshotsByUser.get(userId);
+      const weekStart = getGameweekStart(season, gw);
+      const weekEnd = getWeekEnd(weekStart);
+      week.set(
+        userId,
+        snapshots
+          ? calculateSnapshotPoints(snapshots, scores, tournamentDates, weekStart, weekEnd).points -
+              sumPenaltyPoints(penaltiesByUser.get(userId), weekStart, weekEnd)
+          : 0
+      );
+    }
+    return week.get(userId)!;
+  };
+
+  const table = new Map<string, H2HTableEntry>();
+  const tableEntry = (manager: H2HManager): H2HTableEntry => {
+    let entry = table.get(manager.userId);
+    if (!entry) {
+      entry = {
+        ...manager,
+        rank: 0,
+        played: 0,
+        won: 0,
+        drawn: 0,
+        lost: 0,
+        pointsFor: 0,
+        pointsAgainst: 0,
+        leaguePoints: 0,
+      };
+      table.set(manager.userId, entry);
+    }
+    return entry;
+  };
+
+  const selectedFixtures: H2HFixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    const home = managers.get(fixture.homeUserId.toString());
+    const away = fixture.awayUserId ? managers.get(fixture.awayUserId.toString()) : null;
+    // Skip fixtures involving deleted accounts
+    if (!home || away === undefined) continue;
+
+    const weekStart = new Date(fixture.weekStart);
+    const started = weekStart <= now;
+    const finished = getWeekEnd(weekStart) < now;
+
+    const homePoints = started ? getWeeklyPoints(fixture.gameweek, home.userId) : 0;
+    const awayPoints = away ? (started ? getWeeklyPoints(fixture.gameweek, away.userId) : 0) : null;
+
+    let result: H2HResult;
+    if (!away) result = 'bye';
+    else if (!finished) result = 'pending';
+    else result = getFixtureResult(homePoints, awayPoints!);
+
+    if (away && finished) {
+      recordResult(tableEntry(home), homePoints, awayPoints!);
+      recordResult(tableEntry(away), awayPoints!, homePoints);
+    } else {
+      // Managers still show in the table before their first result
+      tableEntry(home);
+      if (away) tableEntry(away);
+    }
+
+    if (fixture.gameweek === selectedGameweek) {
+      selectedFixtures.push({
+        id: fixture._id.toString(),
+        gameweek: fixture.gameweek,
+        home,
+        away,
+        homePoints,
+        awayPoints,
+        result,
+      });
+    }
+  }
+
+  return {
+    season: seasonNumber,
+    gameweek: selectedGameweek,
+    totalGameweeks,
+    fixtures: selectedFixtures,
+    table: rankTable([...table.values()]),
+  };
+}
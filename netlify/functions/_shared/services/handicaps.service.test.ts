@@ -0,0 +1,198 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import {
+  getGolferHandicapHistory,
+  importHandicaps,
+  recordHandicapChanges,
+  toEffectiveDate,
+} from './handicaps.service';
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+
+const now = new Date(2026, 3, 18, 14, 30);
+const today = new Date(2026, 3, 18);
+
+const golferA = new ObjectId();
+const golferB = new ObjectId();
+
+describe('handicaps.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('toEffectiveDate', () => {
+    it('drops the time of day', () => {
+      expect(toEffectiveDate(now)).toEqual(today);
+    });
+  });
+
+  describe('recordHandicapChanges', () => {
+    it('upserts one entry per golfer per day', async () => {
+      const golferHandicapHistory = { bulkWrite: vi.fn() };
+      const { mockDb } = createMockDb({ golferHandicapHistory });
+
+      await recordHandicapChanges(mockDb.db, [
+        {
+          golferId: golferA,
+          handicapIndex: 12.4,
+          effectiveDate: today,
+          source: 'admin',
+          recordedAt: now,
+        },
+      ]);
+
+      expect(golferHandicapHistory.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { golferId: golferA, effectiveDate: today },
+            update: { $set: { handicapIndex: 12.4, source: 'admin', recordedAt: now } },
+            upsert: true,
+          },
+        },
+      ]);
+    });
+
+    it('skips the write when there is nothing to record', async () => {
+      const golferHandicapHistory = { bulkWrite: vi.fn() };
+      const { mockDb } = createMockDb({ golferHandicapHistory });
+
+      await recordHandicapChanges(mockDb.db, []);
+
+      expect(golferHandicapHistory.bulkWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importHandicaps', () => {
+    function setupDb() {
+      const golfers = {
+        find: vi.fn().mockReturnValue(
+          mockCursor([
+            { _id: golferA, firstName: 'Shane', lastName: 'Lowry', handicapIndex: 6 },
+            {
+              _id: golferB,
+              firstName: 'Rory',
+              lastName: 'McIlroy',
+              handicapIndex: 2,
+              handicapEffectiveDate: new Date(2026, 3, 1),
+            },
+          ])
+        ),
+        bulkWrite: vi.fn(),
+      };
+      const golferHandicapHistory = { bulkWrite: vi.fn() };
+      const { mockDb } = createMockDb({ golfers, golferHandicapHistory });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+      return { golfers, golferHandicapHistory };
+    }
+
+    it('records every matched row and moves current handicaps to the newest', async () => {
+      const { golfers, golferHandicapHistory } = setupDb();
+
+      const result = await importHandicaps(
+        [
+          { firstName: 'shane', lastName: ' LOWRY', handicapIndex: 5.8, effectiveDate: now },
+          {
+            firstName: 'Shane',
+            lastName: 'Lowry',
+            handicapIndex: 6.3,
+            effectiveDate: new Date(2026, 2, 1),
+          },
+          { firstName: 'Rory', lastName: 'McIlroy', handicapIndex: 1.9 },
+          { firstName: 'Tom', lastName: 'Kim', handicapIndex: 3 },
+        ],
+        now
+      );
+
+      expect(result).toEqual({ recorded: 3, updated: 2, unmatched: ['Tom Kim'] });
+      expect(golferHandicapHistory.bulkWrite.mock.calls[0][0]).toHaveLength(3);
+
+      const updates = golfers.bulkWrite.mock.calls[0][0];
+      expect(updates).toEqual([
+        {
+          updateOne: {
+            filter: { _id: golferA },
+            update: {
+              $set: { handicapIndex: 5.8, handicapEffectiveDate: today, updatedAt: now },
+            },
+          },
+        },
+        {
+          updateOne: {
+            filter: { _id: golferB },
+            update: {
+              $set: { handicapIndex: 1.9, handicapEffectiveDate: today, updatedAt: now },
+            },
+          },
+        },
+      ]);
+    });
+
+    it('keeps a newer current handicap when back-filling history', async () => {
+      const { golfers, golferHandicapHistory } = setupDb();
+
+      const result = await importHandicaps(
+        [
+          {
+            firstName: 'Rory',
+            lastName: 'McIlroy',
+            handicapIndex: 2.4,
+            effectiveDate: new Date(2026, 0, 10),
+          },
+        ],
+        now
+      );
+
+      expect(result).toEqual({ recorded: 1, updated: 0, unmatched: [] });
+      expect(golferHandicapHistory.bulkWrite).toHaveBeenCalled();
+      expect(golfers.bulkWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getGolferHandicapHistory', () => {
+    it('returns the current handicap and entries oldest first', async () => {
+      const entry = {
+        _id: new ObjectId(),
+        golferId: golferA,
+        handicapIndex: 6,
+        effectiveDate: new Date(2026, 2, 1),
+        source: 'import',
+        recordedAt: now,
+      };
+      const history = { find: vi.fn().mockReturnValue(mockCursor([entry])) };
+      const { mockDb } = createMockDb({
+        golfers: { findOne: vi.fn().mockResolvedValue({ _id: golferA, handicapIndex: 5.8 }) },
+        golferHandicapHistory: history,
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+
+      const result = await getGolferHandicapHistory(golferA.toString());
+
+      expect(result).toEqual({
+        golferId: golferA.toString(),
+        currentHandicap: 5.8,
+        entries: [
+          {
+            id: entry._id.toString(),
+            golferId: golferA.toString(),
+            handicapIndex: 6,
+            effectiveDate: new Date(2026, 2, 1),
+            source: 'import',
+            recordedAt: now,
+          },
+        ],
+      });
+      expect(history.find).toHaveBeenCalledWith({ golferId: golferA });
+    });
+
+    it('throws for an unknown golfer', async () => {
+      await expect(getGolferHandicapHistory('not-an-id')).rejects.toThrow('Golfer not found');
+
+      const { mockDb } = createMockDb({ golfers: { findOne: vi.fn().mockResolvedValue(null) } });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+      await expect(getGolferHandicapHistory(golferA.toString())).rejects.toThrow(
+        'Golfer not found'
+      );
+    });
+  });
+});
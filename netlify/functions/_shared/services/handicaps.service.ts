@@ -0,0 +1,176 @@
+// Handicaps service - golfer handicap index history and CSV imports
+
+import { ObjectId } from 'mongodb';
+import type { Db } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { GolferDocument, GOLFERS_COLLECTION } from '../models/Golfer';
+import {
+  GolferHandicapHistoryDocument,
+  toGolferHandicapEntry,
+  GOLFER_HANDICAP_HISTORY_COLLECTION,
+} from '../models/GolferHandicapHistory';
+import type {
+  GolferHandicapHistory,
+  HandicapImportResult,
+  HandicapImportRow,
+} from '../../../../shared/types';
+
+export type HandicapChangeRecord = Omit<GolferHandicapHistoryDocument, '_id'>;
+
+type HandicapGolfer = Pick<
+  GolferDocument,
+  '_id' | 'firstName' | 'lastName' | 'handicapIndex' | 'handicapEffectiveDate'
+>;
+
+/**
+ * Handicaps are recorded per day, so entries are keyed on the local start of the day
+ * they took effect.
+ */
+export function toEffectiveDate(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+const toNameKey = (firstName: string, lastName: string): string =>
+  `${firstName} ${lastName}`.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Write handicap entries to golferHandicapHistory. A golfer has at most one entry per
+ * effective date, so re-importing the same file or editing twice in a day overwrites
+ * rather than duplicating.
+ */
+export async function recordHandicapChanges(
+  db: Db,
+  changes: HandicapChangeRecord[]
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  await db.collection<GolferHandicapHistoryDocument>(GOLFER_HANDICAP_HISTORY_COLLECTION).bulkWrite(
+    changes.map(({ golferId, effectiveDate, ...change }) => ({
+      updateOne: {
+        filter: { golferId, effectiveDate },
+        update: { $set: change },
+        upsert: true,
+      },
+    }))
+  );
+}
+
+/**
+ * Record a batch of handicaps matched to golfers by name. Every row is kept as a dated
+ * history entry; a golfer's current handicap only moves when the newest imported row
+ * is at least as recent as the handicap it replaces, so back-filling old records
+ * doesn't overwrite a newer index.
+ */
+export async function importHandicaps(
+  rows: HandicapImportRow[],
+  now: Date = new Date()
+): Promise<HandicapImportResult> {
+  const { db } = await connectToDatabase();
+  const golfersCollection = db.collection<GolferDocument>(GOLFERS_COLLECTION);
+
+  const golfers = await golfersCollection
+    .find({})
+    .project<HandicapGolfer>({
+      firstName: 1,
+      lastName: 1,
+      handicapIndex: 1,
+      handicapEffectiveDate: 1,
+    })
+    .toArray();
+  const golfersByName = new Map(golfers.map((g) => [toNameKey(g.firstName, g.lastName), g]));
+
+  const changes: HandicapChangeRecord[] = [];
+  const unmatched: string[] = [];
+  for (const row of rows) {
+    const golfer = golfersByName.get(toNameKey(row.firstName, row.lastName));
+    if (!golfer) {
+      unmatched.push(`${row.firstName} ${row.lastName}`.trim());
+      continue;
+    }
+    changes.push({
+      golferId: golfer._id,
+      handicapIndex: row.handicapIndex,
+      effectiveDate: toEffectiveDate(row.effectiveDate ?? now),
+      source: 'import',
+      recordedAt: now,
+    });
+  }
+
+  await recordHandicapChanges(db, changes);
+
+  // Newest imported entry per golfer; later rows win on the same date
+  const latestByGolfer = new Map<string, HandicapChangeRecord>();
+  for (const change of changes) {
+    const key = change.golferId.toString();
+    const latest = latestByGolfer.get(key);
+    if (!latest || change.effectiveDate >= latest.effectiveDate) {
+      latestByGolfer.set(key, change);
+    }
+  }
+
+  const currentUpdates: { golfer: HandicapGolfer; latest: HandicapChangeRecord }[] = [];
+  for (const golfer of golfers) {
+    const latest = latestByGolfer.get(golfer._id.toString());
+    if (!latest) continue;
+    if (golfer.handicapEffectiveDate && latest.effectiveDate < golfer.handicapEffectiveDate) {
+      continue;
+    }
+    currentUpdates.push({ golfer, latest });
+  }
+
+  if (currentUpdates.length > 0) {
+    await golfersCollection.bulkWrite(
+      currentUpdates.map(({ golfer, latest }) => ({
+        updateOne: {
+          filter: { _id: golfer._id },
+          update: {
+            $set: {
+              handicapIndex: latest.handicapIndex,
+              handicapEffectiveDate: latest.effectiveDate,
+              updatedAt: now,
+            },
+          },
+        },
+      }))
+    );
+  }
+
+  return {
+    recorded: changes.length,
+    updated: currentUpdates.filter(
+      ({ golfer, latest }) => (golfer.handicapIndex ?? null) !== latest.handicapIndex
+    ).length,
+    unmatched,
+  };
+}
+
+/**
+ * A golfer's current handicap and every recorded index, oldest first.
+ */
+export async function getGolferHandicapHistory(golferId: string): Promise<GolferHandicapHistory> {
+  if (!ObjectId.isValid(golferId)) {
+    throw new Error('Golfer not found');
+  }
+
+  const { db } = await connectToDatabase();
+  const id = new ObjectId(golferId);
+
+  const golfer = await db
+    .collection<GolferDocument>(GOLFERS_COLLECTION)
+    .findOne({ _id: id }, { projection: { handicapIndex: 1 } });
+  if (!golfer) {
+    throw new Error('Golfer not found');
+  }
+
+  const entries = await db
+    .collection<GolferHandicapHistoryDocument>(GOLFER_HANDICAP_HISTORY_COLLECTION)
+    .find({ golferId: id })
+    .sort({ effectiveDate: 1 })
+    .toArray();
+
+  return {
+    golferId,
+    currentHandicap: golfer.handicapIndex ?? null,
+    entries: entries.map(toGolferHandicapEntry),
+  };
+}
@@ -1,12 +1,14 @@
 import { ObjectId } from 'mongodb';
 import type { Db, MongoClient } from 'mongodb';
 import { connectToDatabase } from '../db';
+import { getSeasonByName } from './seasons.service';
 import {
   getLeaderboard,
   getFullLeaderboard,
   getTournamentLeaderboard,
   invalidateLeaderboardCache,
 } from './leaderboard.service';
+import { DEFAULT_SCORING_RULES } from '../../../../shared/types/tournament.types';
 
 const mockRedisGet = vi.fn();
 const mockRedisSet = vi.fn();
@@ -19,6 +21,7 @@ vi.mock('../db', () => ({
 
 vi.mock('./seasons.service', () => ({
   getActiveSeason: vi.fn().mockResolvedValue({ id: '1', name: '2025', isActive: true }),
+  getSeasonByName: vi.fn().mockResolvedValue(null),
 }));
 
 vi.mock('../rateLimit', () => ({
@@ -34,6 +37,7 @@ vi.mock('../rateLimit', () => ({
 const mockTournamentsCollection = { find: vi.fn(), findOne: vi.fn() };
 const mockPicksCollection = { aggregate: vi.fn() };
 const mockUsersCollection = { find: vi.fn() };
+const mockScoresCollection = { find: vi.fn() };
 
 const chainHelper = <T>(items: T[]) => {
   const terminal = { toArray: vi.fn().mockResolvedValue(items) };
@@ -53,12 +57,14 @@ beforeEach(() => {
   mockRedisSet.mockResolvedValue('OK');
   mockRedisKeys.mockResolvedValue([]);
   mockRedisDel.mockResolvedValue(0);
+  mockScoresCollection.find.mockReturnValue(chainHelper([]));
   vi.mocked(connectToDatabase).mockResolvedValue({
     db: {
       collection: vi.fn().mockImplementation((name: string) => {
         if (name === 'users') return mockUsersCollection;
         if (name === 'picks') return mockPicksCollection;
         if (name === 'tournaments') return mockTournamentsCollection;
+        if (name === 'scores') return mockScoresCollection;
         return {};
       }),
     } as unknown as Db,
@@ -111,6 +117,7 @@ describe('leaderboard.service', () => {
           {
             userId: user1,
             captainId: null,
+            golferIds: [golfer1],
             createdAt: new Date('2024-01-01'),
             scores: [{ golferId: golfer1, tournamentId, multipliedPoints: 20 }],
             user: { _id: user1, username: 'alice' },
@@ -118,6 +125,7 @@ describe('leaderboard.service', () => {
           {
             userId: user2,
             captainId: null,
+            golferIds: [golfer2],
             createdAt: new Date('2024-01-01'),
             scores: [{ golferId: golfer2, tournamentId, multipliedPoints: 10 }],
             user: { _id: user2, username: 'bob' },
@@ -153,6 +161,7 @@ describe('leaderboard.service', () => {
           {
             userId: user1,
             captainId: null,
+            golferIds: [golfer1],
             createdAt: new Date('2024-01-01'),
             scores: [{ golferId: golfer1, tournamentId, multipliedPoints: 15 }],
             user: { _id: user1, username: 'alice' },
@@ -160,6 +169,7 @@ describe('leaderboard.service', () => {
           {
             userId: user2,
             captainId: null,
+            golferIds: [golfer2],
             createdAt: new Date('2024-01-01'),
             scores: [{ golferId: golfer2, tournamentId, multipliedPoints: 15 }],
             user: { _id: user2, username: 'bob' },
@@ -175,6 +185,110 @@ describe('leaderboard.service', () => {
       expect(result[1].rank).toBe(1);
     });
 
+    it('scores tournaments against the team held at the time', async () => {
+      const user1 = new ObjectId();
+      const soldGolfer = new ObjectId();
+      const newGolfer = new ObjectId();
+      const earlyTournament = new ObjectId();
+      const lateTournament = new ObjectId();
+
+      mockTournamentsCollection.find.mockReturnValue(
+        chainHelper([
+          { _id: earlyTournament, startDate: new Date('2025-05-01') },
+          { _id: lateTournament, startDate: new Date('2025-06-01') },
+        ])
+      );
+
+      mockPicksCollection.aggregate.mockReturnValue(
+        aggregateHelper([
+          {
+            userId: user1,
+            captainId: null,
+            golferIds: [newGolfer],
+            createdAt: new Date('2024-01-01'),
+            history: [
+              { golferIds: [soldGolfer], captainId: null, changedAt: new Date('2024-01-01') },
+              { golferIds: [newGolfer], captainId: null, changedAt: new Date('2025-05-15') },
+            ],
+            scores: [
+              { golferId: soldGolfer, tournamentId: earlyTournament, multipliedPoints: 12 },
+              { golferId: soldGolfer, tournamentId: lateTournament, multipliedPoints: 30 },
+              { golferId: newGolfer, tournamentId: earlyTournament, multipliedPoints: 40 },
+              { golferId: newGolfer, tournamentId: lateTournament, multipliedPoints: 8 },
+            ],
+            user: { _id: user1, username: 'alice' },
+          },
+        ])
+      );
+
+      mockUsersCollection.find.mockReturnValue(chainHelper([]));
+
+      const result = await getLeaderboard();
+
+      // Sold golfer keeps the early 12; new signing only scores after joining
+      expect(result[0].totalPoints).toBe(20);
+    });
+
+    it('scores a bench golfer in place of a starter who did not play', async () => {
+      const user1 = new ObjectId();
+      const starter = new ObjectId();
+      const benchGolfer = new ObjectId();
+      const tournamentId = new ObjectId();
+
+      mockTournamentsCollection.find.mockReturnValue(
+        chainHelper([{ _id: tournamentId, startDate: new Date('2025-05-01') }])
+      );
+      mockPicksCollection.aggregate.mockReturnValue(
+        aggregateHelper([
+          {
+            userId: user1,
+            captainId: null,
+            golferIds: [starter],
+            benchIds: [benchGolfer],
+            createdAt: new Date('2024-01-01'),
+            scores: [
+              { golferId: starter, tournamentId, multipliedPoints: 0, participated: false },
+              { golferId: benchGolfer, tournamentId, multipliedPoints: 9, participated: true },
+            ],
+            user: { _id: user1, username: 'alice' },
+          },
+        ])
+      );
+      mockUsersCollection.find.mockReturnValue(chainHelper([]));
+
+      const result = await getLeaderboard();
+
+      expect(result[0].totalPoints).toBe(9);
+    });
+
+    it('deducts transfer penalties from the season total', async () => {
+      const user1 = new ObjectId();
+      const golfer1 = new ObjectId();
+      const tournamentId = new ObjectId();
+
+      mockTournamentsCollection.find.mockReturnValue(
+        chainHelper([{ _id: tournamentId, startDate: new Date('2025-05-01') }])
+      );
+      mockPicksCollection.aggregate.mockReturnValue(
+        aggregateHelper([
+          {
+            userId: user1,
+            captainId: null,
+            golferIds: [golfer1],
+            createdAt: new Date('2024-01-01'),
+            penalties: [{ weekStart: new Date('2025-05-03'), points: 4 }],
+            scores: [{ golferId: golfer1, tournamentId, multipliedPoints: 10 }],
+            user: { _id: user1, username: 'alice' },
+          },
+        ])
+      );
+      mockUsersCollection.find.mockReturnValue(chainHelper([]));
+
+      const result = await getLeaderboard();
+
+      expect(result[0].totalPoints).toBe(6);
+    });
+
     it('gives zero points to users without picks', async () => {
       const user1 = new ObjectId();
 
@@ -239,6 +353,7 @@ describe('leaderboard.service', () => {
           {
             userId: user1,
             captainId: golfer1,
+            golferIds: [golfer1, golfer2],
             createdAt: new Date('2024-01-01'),
             totalSpent: 20_000_000,
             scores: [
@@ -255,6 +370,232 @@ describe('leaderboard.service', () => {
       // Captain golfer1 gets 10*2=20, golfer2 gets 10*1=10, total = 30
       expect(result.season[0].points).toBe(30);
     });
+
+    it('re-scores in memory against candidate rules without caching', async () => {
+      const user1 = new ObjectId();
+      const golfer1 = new ObjectId();
+      const tournamentId = new ObjectId();
+      const now = new Date();
+      const tournamentDate = new Date(
+        now.getFullYear(),
+        now.getMonth(),
+        Math.min(now.getDate(), 28)
+      );
+
+      mockTournamentsCollection.find.mockReturnValue(
+        chainHelper([
+          {
+            _id: tournamentId,
+            startDate: tournamentDate,
+            tournamentType: 'weekend_medal',
+            scoringFormat: 'medal',
+            isMultiDay: false,
+          },
+        ])
+      );
+      mockPicksCollection.aggregate.mockReturnValue(
+        aggregateHelper([
+          {
+            userId: user1,
+            captainId: null,
+            golferIds: [golfer1],
+            createdAt: new Date('2024-01-01'),
+            totalSpent: 20_000_000,
+            scores: [
+              {
+                golferId: golfer1,
+                tournamentId,
+                multipliedPoints: 26,
+                participated: true,
+                position: 1,
+                rawScore: -1,
+              },
+            ],
+            user: { _id: user1, username: 'alice' },
+          },
+        ])
+      );
+
+      const result = await getFullLeaderboard(2025, {
+        scoringRules: {
+          ...DEFAULT_SCORING_RULES,
+          positionPoints: [20, 10],
+          multipliers: { ...DEFAULT_SCORING_RULES.multipliers, weekend_medal: 1 },
+        },
+      });
+
+      // (20 + 3 bonus) * 1 instead of the stored 26
+      expect(result.season[0].points).toBe(23);
+      expect(mockRedisGet).not.toHaveBeenCalled();
+      expect(mockRedisSet).not.toHaveBeenCalled();
+    });
+
+    it('shares position points between golfers tied across the tournament', async () => {
+      const user1 = new ObjectId();
+      const golfer1 = new ObjectId();
+      const tournamentId = new ObjectId();
+      const now = new Date();
+      const tournamentDate = new Date(
+        now.getFullYear(),
+        now.getMonth(),
+        Math.min(now.getDate(), 28)
+      );
+
+      mockTournamentsCollection.find.mockReturnValue(
+        chainHelper([
+          {
+            _id: tournamentId,
+            startDate: tournamentDate,
+            tournamentType: 'rollup_stableford',
+            scoringFormat: 'stableford',
+            isMultiDay: false,
+          },
+        ])
+      );
+      // golfer1 is tied for 1st with a golfer nobody picked
+      mockScoresCollection.find.mockReturnValue(
+        chainHelper([
+          { tournamentId, participated: true, position: 1, tied: true },
+          { tournamentId, participated: true, position: 1, tied: true },
+        ])
+      );
+      mockPicksCollection.aggregate.mockReturnValue(
+        aggregateHelper([
+          {
+            userId: user1,
+            captainId: null,
+            golferIds: [golfer1],
+            createdAt: new Date('2024-01-01'),
+            totalSpent: 20_000_000,
+            scores: [
+              {
+                golferId: golfer1,
+                tournamentId,
+                multipliedPoints: 10,
+                participated: true,
+                position: 1,
+                tied: true,
+                rawScore: 30,
+              },
+            ],
+            user: { _id: user1, username: 'alice' },
+          },
+        ])
+      );
+
+      const result = await getFullLeaderboard(2025, { scoringRules: DEFAULT_SCORING_RULES });
+
+      // T1 between two golfers shares 1st and 2nd: (10 + 7) / 2
+      expect(result.season[0].points).toBe(8.5);
+    });
+  });
+
+  describe('getFullLeaderboard season window', () => {
+    it("counts a past season's points from that season's own start date", async () => {
+      const user1 = new ObjectId();
+      const golfer1 = new ObjectId();
+      const tournamentId = new ObjectId();
+      vi.mocked(getSeasonByName).mockResolvedValueOnce({
+        id: '2',
+        name: '2025',
+        startDate: new Date(2025, 3, 1),
+        endDate: new Date(2026, 2, 30),
+        isActive: false,
+        status: 'complete',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      mockTournamentsCollection.find.mockReturnValue(
+        chainHelper([{ _id: tournamentId, startDate: new Date(2025, 4, 10) }])
+      );
+      mockPicksCollection.aggregate.mockReturnValue(
+        aggregateHelper([
+          {
+            userId: user1,
+            captainId: null,
+            golferIds: [golfer1],
+            createdAt: new Date('2024-01-01'),
+            totalSpent: 20_000_000,
+            scores: [{ golferId: golfer1, tournamentId, multipliedPoints: 12, participated: true }],
+            user: { _id: user1, username: 'alice' },
+          },
+        ])
+      );
+
+      const result = await getFullLeaderboard(2025);
+
+      expect(getSeasonByName).toHaveBeenCalledWith('2025');
+      expect(result.season[0].points).toBe(12);
+    });
+  });
+
+  describe('getFullLeaderboard tied pairings', () => {
+    it('counts a tied pairing once when re-scoring', async () => {
+      const user1 = new ObjectId();
+      const [golfer1, partner1, golfer2, partner2] = [
+        new ObjectId(),
+        new ObjectId(),
+        new ObjectId(),
+        new ObjectId(),
+      ];
+      const tournamentId = new ObjectId();
+      const now = new Date();
+      const tournamentDate = new Date(
+        now.getFullYear(),
+        now.getMonth(),
+        Math.min(now.getDate(), 28)
+      );
+
+      mockTournamentsCollection.find.mockReturnValue(
+        chainHelper([
+          {
+            _id: tournamentId,
+            startDate: tournamentDate,
+            tournamentType: 'rollup_stableford',
+            scoringFormat: 'stableford',
+            isMultiDay: false,
+          },
+        ])
+      );
+      // Two pairings share 1st, so four golfers hold a tied score
+      const tiedScores = chainHelper([
+        { tournamentId, participated: true, position: 1, tied: true, partnerIds: [partner1] },
+        { tournamentId, participated: true, position: 1, tied: true, partnerIds: [golfer1] },
+        { tournamentId, participated: true, position: 1, tied: true, partnerIds: [partner2] },
+        { tournamentId, participated: true, position: 1, tied: true, partnerIds: [golfer2] },
+      ]);
+      mockScoresCollection.find.mockReturnValue(tiedScores);
+      mockPicksCollection.aggregate.mockReturnValue(
+        aggregateHelper([
+          {
+            userId: user1,
+            captainId: null,
+            golferIds: [golfer1],
+            createdAt: new Date('2024-01-01'),
+            totalSpent: 20_000_000,
+            scores: [
+              {
+                golferId: golfer1,
+                tournamentId,
+                multipliedPoints: 10,
+                participated: true,
+                position: 1,
+                tied: true,
+                rawScore: null,
+              },
+            ],
+            user: { _id: user1, username: 'alice' },
+          },
+        ])
+      );
+
+      const result = await getFullLeaderboard(2025, { scoringRules: DEFAULT_SCORING_RULES });
+
+      expect(tiedScores.project).toHaveBeenCalledWith(expect.objectContaining({ partnerIds: 1 }));
+      // Two pairings share 1st and 2nd: (10 + 7) / 2, not split four ways
+      expect(result.season[0].points).toBe(8.5);
+    });
   });
 
   describe('getTournamentLeaderboard', () => {
@@ -1,21 +1,31 @@
 // Leaderboard service - calculate rankings using MongoDB aggregation pipelines
 
-import { ObjectId } from 'mongodb';
+import { ObjectId, type Document } from 'mongodb';
 import { connectToDatabase } from '../db';
 import { USERS_COLLECTION } from '../models/User';
-import { PICKS_COLLECTION } from '../models/Pick';
-import { SCORES_COLLECTION } from '../models/Score';
+import { PICKS_COLLECTION, PICK_HISTORY_COLLECTION } from '../models/Pick';
+import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
+import { TRANSFER_PENALTIES_COLLECTION } from '../models/TransferPenalty';
 import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
-import type { LeaderboardEntry } from '../../../../shared/types';
+import type { ChipType, LeaderboardEntry, ScoringRules } from '../../../../shared/types';
+import {
+  calculateScorePoints,
+  countTiedPositionsByTournament,
+} from '../../../../shared/types/tournament.types';
 import {
   getWeekStart,
   getWeekEnd,
   getMonthStart,
   getMonthEnd,
   getSeasonStart,
-  getTeamEffectiveStartDate,
 } from '../utils/dates';
-import { getActiveSeason } from './seasons.service';
+import { getActiveSeason, getSeasonByName } from './seasons.service';
+import {
+  applyAutoSubs,
+  buildTeamSnapshots,
+  getSnapshotScorePoints,
+  sumPenaltyPoints,
+} from './team.service';
 import { getRedisClient, getRedisKeyPrefix } from '../rateLimit';
 
 const LEADERBOARD_CACHE_TTL = 60; // 60 seconds
@@ -57,7 +67,7 @@ export async function invalidateLeaderboardCache(season: number): Promise<void>
   }
 }
 
-interface ExtendedLeaderboardEntry {
+export interface ExtendedLeaderboardEntry {
   rank: number;
   userId: string;
   firstName: string;
@@ -68,7 +78,7 @@ interface ExtendedLeaderboardEntry {
   tournamentsPlayed: number;
 }
 
-interface FullLeaderboardResponse {
+export interface FullLeaderboardResponse {
   season: ExtendedLeaderboardEntry[];
   month: ExtendedLeaderboardEntry[];
   week: ExtendedLeaderboardEntry[];
@@ -82,17 +92,103 @@ interface AggregatedScore {
   tournamentId: ObjectId;
   multipliedPoints: number;
   participated?: boolean;
+  position?: number | null;
+  rawScore?: number | null;
+  tied?: boolean;
+}
+
+type ScoredTournament = Pick<
+  TournamentDocument,
+  '_id' | 'startDate' | 'tournamentType' | 'scoringFormat' | 'isMultiDay'
+>;
+
+export interface FullLeaderboardOptions {
+  // Re-score every score in memory against these rules instead of using the stored
+  // points. Nothing is written and the result is never cached.
+  scoringRules?: ScoringRules;
 }
 
 interface AggregatedPick {
   userId: ObjectId;
+  golferIds: ObjectId[];
+  benchIds?: ObjectId[];
   captainId?: ObjectId | null;
+  viceCaptainId?: ObjectId | null;
   createdAt: Date;
   totalSpent: number;
+  chips?: Array<{ chip: ChipType; weekStart: Date }>;
+  history?: Array<{
+    golferIds: ObjectId[];
+    benchIds?: ObjectId[];
+    captainId?: ObjectId | null;
+    viceCaptainId?: ObjectId | null;
+    changedAt: Date;
+  }>;
+  penalties?: Array<{ weekStart: Date; points: number }>;
   scores: AggregatedScore[];
   user?: { _id: ObjectId; username: string; firstName?: string; lastName?: string };
 }
 
+/**
+ * Pipeline stages that attach the season's pickHistory to each pick and collect every
+ * golfer the team has held (bench included), so scores can be credited against
+ * point-in-time snapshots.
+ */
+function teamHistoryStages(): Document[] {
+  return [
+    {
+      $lookup: {
+        from: PICK_HISTORY_COLLECTION,
+        let: { userId: '$userId', season: '$season' },
+        pipeline: [
+          {
+            $match: {
+              $expr: { $and: [{ $eq: ['$userId', '$$userId'] }, { $eq: ['$season', '$$season'] }] },
+            },
+          },
+          { $sort: { changedAt: 1 } },
+          { $project: { golferIds: 1, benchIds: 1, captainId: 1, viceCaptainId: 1, changedAt: 1 } },
+        ],
+        as: 'history',
+      },
+    },
+    {
+      $addFields: {
+        heldGolferIds: {
+          $reduce: {
+            input: '$history',
+            initialValue: { $setUnion: ['$golferIds', { $ifNull: ['$benchIds', []] }] },
+            in: {
+              $setUnion: ['$$value', '$$this.golferIds', { $ifNull: ['$$this.benchIds', []] }],
+            },
+          },
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * Pipeline stage that attaches the season's transfer penalties to each pick.
+ */
+function transferPenaltyStage(): Document {
+  return {
+    $lookup: {
+      from: TRANSFER_PENALTIES_COLLECTION,
+      let: { userId: '$userId', season: '$season' },
+      pipeline: [
+        {
+          $match: {
+            $expr: { $and: [{ $eq: ['$userId', '$$userId'] }, { $eq: ['$season', '$$season'] }] },
+          },
+        },
+        { $project: { weekStart: 1, points: 1 } },
+      ],
+      as: 'penalties',
+    },
+  };
+}
+
 async function getCurrentSeason(): Promise<number> {
   const activeSeason = await getActiveSeason();
   return activeSeason
@@ -100,17 +196,25 @@ async function getCurrentSeason(): Promise<number> {
     : new Date().getFullYear();
 }
 
-export async function getFullLeaderboard(season?: number): Promise<FullLeaderboardResponse> {
+export async function getFullLeaderboard(
+  season?: number,
+  options: FullLeaderboardOptions = {}
+): Promise<FullLeaderboardResponse> {
   const currentSeason = season ?? (await getCurrentSeason());
   const cacheKey = leaderboardCacheKey('full', currentSeason);
+  const { scoringRules } = options;
 
-  const cached = await getCachedLeaderboard<FullLeaderboardResponse>(cacheKey);
-  if (cached) return cached;
+  if (!scoringRules) {
+    const cached = await getCachedLeaderboard<FullLeaderboardResponse>(cacheKey);
+    if (cached) return cached;
+  }
 
   const { db } = await connectToDatabase();
 
-  // Date ranges
-  const seasonStart = getSeasonStart();
+  // Date ranges. The season runs from its own start date, so a past or future season
+  // can be ranked as well as the active one.
+  const seasonDoc = await getSeasonByName(String(currentSeason));
+  const seasonStart = seasonDoc ? new Date(seasonDoc.startDate) : getSeasonStart(currentSeason);
   const monthStart = getMonthStart();
   const monthEnd = getMonthEnd();
   const weekStart = getWeekStart();
@@ -129,23 +233,32 @@ export async function getFullLeaderboard(season?: number): Promise<FullLeaderboa
   const publishedTournaments = await db
     .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
     .find({ season: currentSeason, status: { $in: ['published', 'complete'] } })
-    .project<{ _id: ObjectId; startDate: Date }>({ _id: 1, startDate: 1 })
+    .project<ScoredTournament>({
+      _id: 1,
+      startDate: 1,
+      tournamentType: 1,
+      scoringFormat: 1,
+      isMultiDay: 1,
+    })
     .toArray();
 
   const tournamentIds = publishedTournaments.map((t) => t._id);
   const tournamentDateMap = new Map(
     publishedTournaments.map((t) => [t._id.toString(), new Date(t.startDate)])
   );
+  const tournamentMap = new Map(publishedTournaments.map((t) => [t._id.toString(), t]));
 
   // Aggregation: picks joined with scores and user data
   const pickResults = await db
     .collection(PICKS_COLLECTION)
     .aggregate<AggregatedPick>([
       { $match: { season: currentSeason } },
+      ...teamHistoryStages(),
+      transferPenaltyStage(),
       {
         $lookup: {
           from: SCORES_COLLECTION,
-          let: { golferIds: '$golferIds' },
+          let: { golferIds: '$heldGolferIds' },
           pipeline: [
             {
               $match: {
@@ -153,7 +266,17 @@ export async function getFullLeaderboard(season?: number): Promise<FullLeaderboa
                 tournamentId: { $in: tournamentIds },
               },
             },
-            { $project: { golferId: 1, tournamentId: 1, multipliedPoints: 1, participated: 1 } },
+            {
+              $project: {
+                golferId: 1,
+                tournamentId: 1,
+                multipliedPoints: 1,
+                participated: 1,
+                position: 1,
+                rawScore: 1,
+                tied: 1,
+              },
+            },
           ],
           as: 'scores',
         },
@@ -171,8 +294,14 @@ export async function getFullLeaderboard(season?: number): Promise<FullLeaderboa
       {
         $project: {
           userId: 1,
+          golferIds: 1,
+          benchIds: 1,
           captainId: 1,
+          viceCaptainId: 1,
           createdAt: 1,
+          chips: 1,
+          history: 1,
+          penalties: 1,
           totalSpent: 1,
           scores: 1,
           user: '$userArr',
@@ -183,7 +312,44 @@ export async function getFullLeaderboard(season?: number): Promise<FullLeaderboa
 
   if (pickResults.length === 0) return emptyResponse;
 
-  // Calculate points per user across date ranges (captain multiplier + effective start date in JS)
+  if (scoringRules) {
+    // Tie counts need every tied golfer in the tournament, not just those on a team
+    const tiedScores = await db
+      .collection<ScoreDocument>(SCORES_COLLECTION)
+      .find({ tournamentId: { $in: tournamentIds }, tied: true })
+      .project<
+        Pick<ScoreDocument, 'tournamentId' | 'participated' | 'position' | 'tied' | 'partnerIds'>
+      >({
+        tournamentId: 1,
+        participated: 1,
+        position: 1,
+        tied: 1,
+        partnerIds: 1,
+      })
+      .toArray();
+    const tiedCounts = countTiedPositionsByTournament(tiedScores);
+
+    for (const pick of pickResults) {
+      pick.scores = pick.scores.map((score) => {
+        const tournament = tournamentMap.get(score.tournamentId.toString());
+        if (!tournament) return score;
+        const { multipliedPoints } = calculateScorePoints(
+          {
+            participated: score.participated ?? true,
+            position: score.position ?? null,
+            rawScore: score.rawScore ?? null,
+            tied: score.tied,
+          },
+          tournament,
+          scoringRules,
+          tiedCounts.get(score.tournamentId.toString())
+        );
+        return { ...score, multipliedPoints };
+      });
+    }
+  }
+
+  // Calculate points per user across date ranges (team snapshots + captain multiplier in JS)
   const leaderboardData: Array<{
     userId: string;
     user: { username: string; firstName: string; lastName: string };
@@ -197,8 +363,11 @@ export async function getFullLeaderboard(season?: number): Promise<FullLeaderboa
   }> = [];
 
   for (const pick of pickResults) {
-    const teamEffectiveStart = getTeamEffectiveStartDate(pick.createdAt);
-    const captainIdStr = pick.captainId?.toString();
+    const snapshots = applyAutoSubs(
+      buildTeamSnapshots(pick, pick.history),
+      pick.scores,
+      tournamentDateMap
+    );
 
     let seasonPoints = 0;
     let monthPoints = 0;
@@ -210,10 +379,16 @@ export async function getFullLeaderboard(season?: number): Promise<FullLeaderboa
     for (const score of pick.scores) {
       const tournamentId = score.tournamentId.toString();
       const tournamentDate = tournamentDateMap.get(tournamentId);
-      if (!tournamentDate || tournamentDate < teamEffectiveStart) continue;
+      if (!tournamentDate) continue;
 
-      const isCaptain = score.golferId.toString() === captainIdStr;
-      const points = (score.multipliedPoints || 0) * (isCaptain ? 2 : 1);
+      // Only credit golfers in the team held when the tournament was played
+      const points = getSnapshotScorePoints(
+        snapshots,
+        score.golferId.toString(),
+        score.multipliedPoints,
+        tournamentDate
+      );
+      if (points === null) continue;
 
       if (tournamentDate >= seasonStart) {
         seasonPoints += points;
@@ -229,6 +404,11 @@ export async function getFullLeaderboard(season?: number): Promise<FullLeaderboa
       }
     }
 
+    // Transfer hits are charged against the gameweek the new team first played
+    seasonPoints -= sumPenaltyPoints(pick.penalties, seasonStart);
+    monthPoints -= sumPenaltyPoints(pick.penalties, monthStart, monthEnd);
+    weekPoints -= sumPenaltyPoints(pick.penalties, weekStart, weekEnd);
+
     leaderboardData.push({
       userId: pick.userId.toString(),
       user: {
@@ -282,7 +462,7 @@ export async function getFullLeaderboard(season?: number): Promise<FullLeaderboa
     weekEnd: weekEnd.toISOString(),
   };
 
-  await setCachedLeaderboard(cacheKey, result);
+  if (!scoringRules) await setCachedLeaderboard(cacheKey, result);
   return result;
 }
 
@@ -312,10 +492,12 @@ export async function getLeaderboard(season?: number): Promise<LeaderboardEntry[
     .collection(PICKS_COLLECTION)
     .aggregate<AggregatedPick>([
       { $match: { season: currentSeason } },
+      ...teamHistoryStages(),
+      transferPenaltyStage(),
       {
         $lookup: {
           from: SCORES_COLLECTION,
-          let: { golferIds: '$golferIds' },
+          let: { golferIds: '$heldGolferIds' },
           pipeline: [
             {
               $match: {
@@ -323,7 +505,7 @@ export async function getLeaderboard(season?: number): Promise<LeaderboardEntry[
                 tournamentId: { $in: tournamentIds },
               },
             },
-            { $project: { golferId: 1, tournamentId: 1, multipliedPoints: 1 } },
+            { $project: { golferId: 1, tournamentId: 1, multipliedPoints: 1, participated: 1 } },
           ],
           as: 'scores',
         },
@@ -341,8 +523,14 @@ export async function getLeaderboard(season?: number): Promise<LeaderboardEntry[
       {
         $project: {
           userId: 1,
+          golferIds: 1,
+          benchIds: 1,
           captainId: 1,
+          viceCaptainId: 1,
           createdAt: 1,
+          chips: 1,
+          history: 1,
+          penalties: 1,
           scores: 1,
           user: '$userArr',
         },
@@ -350,22 +538,31 @@ export async function getLeaderboard(season?: number): Promise<LeaderboardEntry[
     ])
     .toArray();
 
-  // Calculate points per user (captain multiplier + effective start date in JS)
+  // Calculate points per user (team snapshots + captain multiplier in JS)
   const pickUserIds: ObjectId[] = [];
   const leaderboardData: Array<{ userId: string; username: string; totalPoints: number }> = [];
 
   for (const pick of pickResults) {
     pickUserIds.push(pick.userId);
-    const teamEffectiveStart = getTeamEffectiveStartDate(pick.createdAt);
-    const captainIdStr = pick.captainId?.toString();
+    const snapshots = applyAutoSubs(
+      buildTeamSnapshots(pick, pick.history),
+      pick.scores,
+      tournamentDateMap
+    );
     let totalPoints = 0;
 
     for (const score of pick.scores) {
       const tournamentDate = tournamentDateMap.get(score.tournamentId.toString());
-      if (tournamentDate && tournamentDate < teamEffectiveStart) continue;
-      const isCaptain = score.golferId.toString() === captainIdStr;
-      totalPoints += (score.multipliedPoints || 0) * (isCaptain ? 2 : 1);
+      if (!tournamentDate) continue;
+      const points = getSnapshotScorePoints(
+        snapshots,
+        score.golferId.toString(),
+        score.multipliedPoints,
+        tournamentDate
+      );
+      totalPoints += points ?? 0;
     }
+    totalPoints -= sumPenaltyPoints(pick.penalties);
 
     leaderboardData.push({
       userId: pick.userId.toString(),
@@ -441,10 +638,11 @@ export async function getTournamentLeaderboard(
     .collection(PICKS_COLLECTION)
     .aggregate<AggregatedPick>([
       { $match: { season: currentSeason } },
+      ...teamHistoryStages(),
       {
         $lookup: {
           from: SCORES_COLLECTION,
-          let: { golferIds: '$golferIds' },
+          let: { golferIds: '$heldGolferIds' },
           pipeline: [
             {
               $match: {
@@ -452,7 +650,7 @@ export async function getTournamentLeaderboard(
                 tournamentId: tournamentObjId,
               },
             },
-            { $project: { golferId: 1, multipliedPoints: 1 } },
+            { $project: { golferId: 1, tournamentId: 1, multipliedPoints: 1, participated: 1 } },
           ],
           as: 'scores',
         },
@@ -470,8 +668,13 @@ export async function getTournamentLeaderboard(
       {
         $project: {
           userId: 1,
+          golferIds: 1,
+          benchIds: 1,
           captainId: 1,
+          viceCaptainId: 1,
           createdAt: 1,
+          chips: 1,
+          history: 1,
           scores: 1,
           user: '$userArr',
         },
@@ -479,21 +682,28 @@ export async function getTournamentLeaderboard(
     ])
     .toArray();
 
-  // Calculate points per user (captain multiplier + effective start date in JS)
+  // Calculate points per user (team snapshots + captain multiplier in JS)
   const pickUserIds: ObjectId[] = [];
   const leaderboardData: Array<{ userId: string; username: string; totalPoints: number }> = [];
+  const tournamentDateMap = new Map([[tournamentId, tournamentDate]]);
 
   for (const pick of pickResults) {
     pickUserIds.push(pick.userId);
-    const teamEffectiveStart = getTeamEffectiveStartDate(pick.createdAt);
-    const captainIdStr = pick.captainId?.toString();
+    const snapshots = applyAutoSubs(
+      buildTeamSnapshots(pick, pick.history),
+      pick.scores,
+      tournamentDateMap
+    );
     let totalPoints = 0;
 
-    if (tournamentDate >= teamEffectiveStart) {
-      for (const score of pick.scores) {
-        const isCaptain = score.golferId.toString() === captainIdStr;
-        totalPoints += (score.multipliedPoints || 0) * (isCaptain ? 2 : 1);
-      }
+    for (const score of pick.scores) {
+      const points = getSnapshotScorePoints(
+        snapshots,
+        score.golferId.toString(),
+        score.multipliedPoints,
+        tournamentDate
+      );
+      totalPoints += points ?? 0;
     }
 
     leaderboardData.push({
@@ -0,0 +1,215 @@
+import type { Db, MongoClient } from 'mongodb';
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import {
+  generateInviteCode,
+  getUserLeagues,
+  getLeagueMemberIds,
+  createLeague,
+  joinLeague,
+  leaveLeague,
+} from './leagues.service';
+
+vi.mock('../db', () => ({
+  connectToDatabase: vi.fn(),
+}));
+
+const mockLeaguesCollection = {
+  find: vi.fn(),
+  findOne: vi.fn(),
+  countDocuments: vi.fn(),
+  insertOne: vi.fn(),
+  findOneAndUpdate: vi.fn(),
+  updateOne: vi.fn(),
+  deleteOne: vi.fn(),
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(connectToDatabase).mockResolvedValue({
+    db: {
+      collection: vi.fn().mockReturnValue(mockLeaguesCollection),
+    } as unknown as Db,
+    client: {} as unknown as MongoClient,
+  });
+});
+
+describe('leagues.service', () => {
+  const ownerId = new ObjectId();
+  const memberId = new ObjectId();
+  const leagueId = new ObjectId();
+  const leagueDoc = {
+    _id: leagueId,
+    name: 'Tuesday Roll-up',
+    inviteCode: 'ABCD2345',
+    ownerId,
+    memberIds: [ownerId, memberId],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  describe('generateInviteCode', () => {
+    it('generates an 8 character code without ambiguous characters', () => {
+      const code = generateInviteCode();
+      expect(code).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+    });
+  });
+
+  describe('getUserLeagues', () => {
+    it('returns leagues the user is a member of', async () => {
+      mockLeaguesCollection.find.mockReturnValue({
+        sort: vi.fn().mockReturnValue({ toArray: vi.fn().mockResolvedValue([leagueDoc]) }),
+      });
+
+      const result = await getUserLeagues(memberId.toString());
+
+      expect(mockLeaguesCollection.find).toHaveBeenCalledWith({ memberIds: memberId });
+      expect(result).toHaveLength(1);
+      expect(result[0].memberCount).toBe(2);
+    });
+  });
+
+  describe('getLeagueMemberIds', () => {
+    it('returns member ids for a member', async () => {
+      mockLeaguesCollection.findOne.mockResolvedValue(leagueDoc);
+
+      const result = await getLeagueMemberIds(leagueId.toString(), memberId.toString());
+
+      expect(result).toEqual([ownerId, memberId]);
+    });
+
+    it('throws not found for non-members', async () => {
+      mockLeaguesCollection.findOne.mockResolvedValue(null);
+
+      await expect(
+        getLeagueMemberIds(leagueId.toString(), new ObjectId().toString())
+      ).rejects.toThrow('League not found');
+    });
+
+    it('throws not found for an invalid league id', async () => {
+      await expect(getLeagueMemberIds('not-an-id', memberId.toString())).rejects.toThrow(
+        'League not found'
+      );
+      expect(mockLeaguesCollection.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createLeague', () => {
+    it('creates a league with the creator as owner and only member', async () => {
+      const insertedId = new ObjectId();
+      mockLeaguesCollection.countDocuments.mockResolvedValue(0);
+      mockLeaguesCollection.findOne.mockResolvedValue(null);
+      mockLeaguesCollection.insertOne.mockResolvedValue({ insertedId });
+
+      const result = await createLeague(ownerId.toString(), ' Juniors ');
+
+      expect(result.id).toBe(insertedId.toString());
+      expect(result.name).toBe('Juniors');
+      expect(result.ownerId).toBe(ownerId.toString());
+      expect(result.memberIds).toEqual([ownerId.toString()]);
+      expect(result.inviteCode).toHaveLength(8);
+    });
+
+    it('retries when the invite code is already taken', async () => {
+      mockLeaguesCollection.countDocuments.mockResolvedValue(0);
+      mockLeaguesCollection.findOne.mockResolvedValueOnce(leagueDoc).mockResolvedValueOnce(null);
+      mockLeaguesCollection.insertOne.mockResolvedValue({ insertedId: new ObjectId() });
+
+      await createLeague(ownerId.toString(), 'Juniors');
+
+      expect(mockLeaguesCollection.findOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects users already at the league limit', async () => {
+      mockLeaguesCollection.countDocuments.mockResolvedValue(10);
+
+      await expect(createLeague(ownerId.toString(), 'Juniors')).rejects.toThrow(
+        'League limit reached'
+      );
+      expect(mockLeaguesCollection.insertOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('joinLeague', () => {
+    it('adds the user to the league', async () => {
+      const newMember = new ObjectId();
+      mockLeaguesCollection.findOne.mockResolvedValue(leagueDoc);
+      mockLeaguesCollection.countDocuments.mockResolvedValue(0);
+      mockLeaguesCollection.findOneAndUpdate.mockResolvedValue({
+        ...leagueDoc,
+        memberIds: [...leagueDoc.memberIds, newMember],
+      });
+
+      const result = await joinLeague(newMember.toString(), 'abcd2345');
+
+      expect(mockLeaguesCollection.findOne).toHaveBeenCalledWith({ inviteCode: 'ABCD2345' });
+      expect(mockLeaguesCollection.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: leagueId },
+        expect.objectContaining({ $addToSet: { memberIds: newMember } }),
+        { returnDocument: 'after' }
+      );
+      expect(result.memberCount).toBe(3);
+    });
+
+    it('is a no-op for existing members', async () => {
+      mockLeaguesCollection.findOne.mockResolvedValue(leagueDoc);
+
+      const result = await joinLeague(memberId.toString(), 'ABCD2345');
+
+      expect(result.id).toBe(leagueId.toString());
+      expect(mockLeaguesCollection.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('throws not found for an unknown code', async () => {
+      mockLeaguesCollection.findOne.mockResolvedValue(null);
+
+      await expect(joinLeague(memberId.toString(), 'ZZZZ9999')).rejects.toThrow('not found');
+    });
+  });
+
+  describe('leaveLeague', () => {
+    it('removes a member and keeps the owner', async () => {
+      mockLeaguesCollection.findOne.mockResolvedValue(leagueDoc);
+
+      await leaveLeague(memberId.toString(), leagueId.toString());
+
+      expect(mockLeaguesCollection.updateOne).toHaveBeenCalledWith(
+        { _id: leagueId },
+        {
+          $pull: { memberIds: memberId },
+          $set: { ownerId, updatedAt: expect.any(Date) },
+        }
+      );
+    });
+
+    it('hands ownership to the next member when the owner leaves', async () => {
+      mockLeaguesCollection.findOne.mockResolvedValue(leagueDoc);
+
+      await leaveLeague(ownerId.toString(), leagueId.toString());
+
+      expect(mockLeaguesCollection.updateOne).toHaveBeenCalledWith(
+        { _id: leagueId },
+        expect.objectContaining({
+          $set: { ownerId: memberId, updatedAt: expect.any(Date) },
+        })
+      );
+    });
+
+    it('deletes the league when the last member leaves', async () => {
+      mockLeaguesCollection.findOne.mockResolvedValue({ ...leagueDoc, memberIds: [ownerId] });
+
+      await leaveLeague(ownerId.toString(), leagueId.toString());
+
+      expect(mockLeaguesCollection.deleteOne).toHaveBeenCalledWith({ _id: leagueId });
+      expect(mockLeaguesCollection.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('throws not found when the user is not a member', async () => {
+      mockLeaguesCollection.findOne.mockResolvedValue(null);
+
+      await expect(
+        leaveLeague(new ObjectId().toString(), leagueId.toString())
+      ).rejects.toThrow('League not found');
+    });
+  });
+});
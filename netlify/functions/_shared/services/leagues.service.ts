@@ -0,0 +1,156 @@
+// Leagues service - private mini-leagues with invite codes
+
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { LeagueDocument, toLeague, LEAGUES_COLLECTION } from '../models/League';
+import { LEAGUE_INVITE_CODE_LENGTH, MAX_LEAGUES_PER_USER } from '../../../../shared/constants/rules';
+import type { League } from '../../../../shared/types';
+
+// No 0/O or 1/I/L so codes can be read out across the clubhouse
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const MAX_INVITE_CODE_ATTEMPTS = 5;
+
+export function generateInviteCode(): string {
+  let code = '';
+  for (let i = 0; i < LEAGUE_INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[crypto.randomInt(INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function toObjectId(id: string, message: string): ObjectId {
+  if (!ObjectId.isValid(id)) {
+    throw new Error(message);
+  }
+  return new ObjectId(id);
+}
+
+async function assertBelowLeagueLimit(userObjectId: ObjectId): Promise<void> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<LeagueDocument>(LEAGUES_COLLECTION);
+
+  const count = await collection.countDocuments({ memberIds: userObjectId });
+  if (count >= MAX_LEAGUES_PER_USER) {
+    throw new Error(`League limit reached: you can be in at most ${MAX_LEAGUES_PER_USER} leagues`);
+  }
+}
+
+export async function getUserLeagues(userId: string): Promise<League[]> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<LeagueDocument>(LEAGUES_COLLECTION);
+
+  const leagues = await collection
+    .find({ memberIds: new ObjectId(userId) })
+    .sort({ name: 1 })
+    .toArray();
+  return leagues.map(toLeague);
+}
+
+/**
+ * Get the member ids of a league the user belongs to.
+ * Non-members get the same error as a missing league so codes/ids can't be probed.
+ */
+export async function getLeagueMemberIds(leagueId: string, userId: string): Promise<ObjectId[]> {
+  const leagueObjectId = toObjectId(leagueId, 'League not found');
+  const { db } = await connectToDatabase();
+  const collection = db.collection<LeagueDocument>(LEAGUES_COLLECTION);
+
+  const league = await collection.findOne({
+    _id: leagueObjectId,
+    memberIds: new ObjectId(userId),
+  });
+  if (!league) {
+    throw new Error('League not found');
+  }
+  return league.memberIds;
+}
+
+export async function createLeague(userId: string, name: string): Promise<League> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<LeagueDocument>(LEAGUES_COLLECTION);
+  const userObjectId = new ObjectId(userId);
+
+  await assertBelowLeagueLimit(userObjectId);
+
+  let inviteCode = generateInviteCode();
+  let attempts = 1;
+  while (await collection.findOne({ inviteCode })) {
+    if (attempts >= MAX_INVITE_CODE_ATTEMPTS) {
+      throw new Error('Could not generate a unique invite code');
+    }
+    inviteCode = generateInviteCode();
+    attempts++;
+  }
+
+  const now = new Date();
+  const leagueData: Omit<LeagueDocument, '_id'> = {
+    name: name.trim(),
+    inviteCode,
+    ownerId: userObjectId,
+    memberIds: [userObjectId],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const result = await collection.insertOne(leagueData as LeagueDocument);
+  return toLeague({ _id: result.insertedId, ...leagueData });
+}
+
+/**
+ * Join a league by invite code. Joining a league you're already in is a no-op.
+ */
+export async function joinLeague(userId: string, inviteCode: string): Promise<League> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<LeagueDocument>(LEAGUES_COLLECTION);
+  const userObjectId = new ObjectId(userId);
+
+  const league = await collection.findOne({ inviteCode: inviteCode.trim().toUpperCase() });
+  if (!league) {
+    throw new Error('League not found for that invite code');
+  }
+
+  if (league.memberIds.some((id) => id.equals(userObjectId))) {
+    return toLeague(league);
+  }
+
+  await assertBelowLeagueLimit(userObjectId);
+
+  const updated = await collection.findOneAndUpdate(
+    { _id: league._id },
+    { $addToSet: { memberIds: userObjectId }, $set: { updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  if (!updated) {
+    throw new Error('League not found');
+  }
+  return toLeague(updated);
+}
+
+/**
+ * Leave a league. If the owner leaves, ownership passes to the longest-standing
+ * remaining member; the last member out deletes the league.
+ */
+export async function leaveLeague(userId: string, leagueId: string): Promise<void> {
+  const leagueObjectId = toObjectId(leagueId, 'League not found');
+  const { db } = await connectToDatabase();
+  const collection = db.collection<LeagueDocument>(LEAGUES_COLLECTION);
+  const userObjectId = new ObjectId(userId);
+
+  const league = await collection.findOne({ _id: leagueObjectId, memberIds: userObjectId });
+  if (!league) {
+    throw new Error('League not found');
+  }
+
+  const remaining = league.memberIds.filter((id) => !id.equals(userObjectId));
+  if (remaining.length === 0) {
+    await collection.deleteOne({ _id: leagueObjectId });
+    return;
+  }
+
+  const ownerId = league.ownerId.equals(userObjectId) ? remaining[0] : league.ownerId;
+  await collection.updateOne(
+    { _id: leagueObjectId },
+    { $pull: { memberIds: userObjectId }, $set: { ownerId, updatedAt: new Date() } }
+  );
+}
@@ -0,0 +1,286 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { getLeaderboard } from './leaderboard.service';
+import {
+  emitNotificationEvent,
+  getNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from './notifications.service';
+
+const { mockLogger } = vi.hoisted(() => ({
+  mockLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('../utils/logger', () => ({ createLogger: () => mockLogger }));
+vi.mock('./leaderboard.service', () => ({
+  getLeaderboard: vi.fn(),
+  invalidateLeaderboardCache: vi.fn(),
+}));
+
+const alice = new ObjectId();
+const bob = new ObjectId();
+const captain = new ObjectId();
+const viceCaptain = new ObjectId();
+const tournamentId = new ObjectId();
+
+const tournament = {
+  id: tournamentId.toString(),
+  name: 'Spring Medal',
+  startDate: new Date(2026, 3, 11),
+  season: 2026,
+} as any;
+
+const makePick = (userId: ObjectId, captainId: ObjectId, viceCaptainId: ObjectId | null) => ({
+  _id: new ObjectId(),
+  userId,
+  golferIds: [captain, viceCaptain],
+  captainId,
+  viceCaptainId,
+  season: 2026,
+  createdAt: new Date(2026, 2, 1),
+});
+
+const leaderboardEntry = (userId: ObjectId, rank: number) => ({
+  userId: userId.toString(),
+  username: 'manager',
+  totalPoints: 100 - rank,
+  rank,
+});
+
+describe('notifications.service', () => {
+  let notifications: Record<string, ReturnType<typeof vi.fn>>;
+  let notifiedRanks: Record<string, ReturnType<typeof vi.fn>>;
+  let picks: Record<string, ReturnType<typeof vi.fn>>;
+  let scores: Record<string, ReturnType<typeof vi.fn>>;
+  let tournaments: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    notifications = {
+      insertMany: vi.fn(),
+      bulkWrite: vi.fn(),
+      find: vi.fn().mockReturnValue(mockCursor([])),
+      countDocuments: vi.fn().mockResolvedValue(0),
+      updateOne: vi.fn(),
+      updateMany: vi.fn(),
+    };
+    notifiedRanks = {
+      find: vi.fn().mockReturnValue(mockCursor([])),
+      bulkWrite: vi.fn(),
+    };
+    picks = {
+      find: vi
+        .fn()
+        .mockReturnValue(
+          mockCursor([makePick(alice, captain, viceCaptain), makePick(bob, viceCaptain, null)])
+        ),
+    };
+    scores = { find: vi.fn().mockReturnValue(mockCursor([])) };
+    tournaments = {
+      findOne: vi.fn().mockResolvedValue({
+        _id: tournamentId,
+        name: 'Spring Medal',
+        startDate: new Date(2026, 3, 11),
+        season: 2026,
+        status: 'draft',
+      }),
+    };
+    const { mockDb } = createMockDb({
+      notifications,
+      notifiedRanks,
+      picks,
+      scores,
+      tournaments,
+      pickHistory: { find: vi.fn().mockReturnValue(mockCursor([])) },
+      users: { find: vi.fn().mockReturnValue(mockCursor([{ _id: alice }, { _id: bob }])) },
+      golfers: {
+        find: vi
+          .fn()
+          .mockReturnValue(mockCursor([{ _id: captain, firstName: 'Tom', lastName: 'Watson' }])),
+      },
+    });
+    vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+    vi.mocked(getLeaderboard).mockResolvedValue([
+      leaderboardEntry(alice, 1),
+      leaderboardEntry(bob, 2),
+    ]);
+  });
+
+  describe('emitNotificationEvent', () => {
+    it('tells each manager once that results are published', async () => {
+      await emitNotificationEvent({ type: 'tournament_published', tournament });
+
+      expect(notifications.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { userId: alice, key: `tournament_published:${tournamentId}` },
+            update: {
+              $setOnInsert: expect.objectContaining({
+                userId: alice,
+                type: 'tournament_published',
+                title: 'Spring Medal results are in',
+                link: `/tournaments/${tournamentId}`,
+                readAt: null,
+              }),
+            },
+            upsert: true,
+          },
+        },
+        expect.objectContaining({
+          updateOne: expect.objectContaining({ filter: expect.objectContaining({ userId: bob }) }),
+        }),
+      ]);
+    });
+
+    it('tells managers whose rank has moved and records the new ranks', async () => {
+      notifiedRanks.find.mockReturnValue(
+        mockCursor([
+          { userId: alice, season: 2026, rank: 2 },
+          { userId: bob, season: 2026, rank: 2 },
+        ])
+      );
+
+      await emitNotificationEvent({ type: 'tournament_published', tournament });
+
+      expect(notifications.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          userId: alice,
+          type: 'rank_changed',
+          title: 'You moved up to 1st',
+          message: 'You were 2nd on the season leaderboard.',
+        }),
+      ]);
+      expect(notifiedRanks.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { userId: alice, season: 2026 },
+            update: { $set: { rank: 1, updatedAt: expect.any(Date) } },
+            upsert: true,
+          },
+        },
+        expect.anything(),
+      ]);
+    });
+
+    it('only records ranks on the first check of a season', async () => {
+      await emitNotificationEvent({ type: 'tournament_published', tournament });
+
+      expect(notifications.insertMany).not.toHaveBeenCalled();
+      expect(notifiedRanks.bulkWrite).toHaveBeenCalled();
+    });
+
+    it('tells everyone when the transfer window opens', async () => {
+      await emitNotificationEvent({ type: 'transfer_window', open: true });
+
+      expect(notifications.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({ userId: alice, type: 'transfers_opened' }),
+        expect.objectContaining({ userId: bob, type: 'transfers_opened' }),
+      ]);
+    });
+
+    it("tells managers their captain didn't play", async () => {
+      scores.find.mockReturnValue(mockCursor([{ golferId: captain }]));
+
+      await emitNotificationEvent({
+        type: 'scores_entered',
+        tournamentId: tournamentId.toString(),
+      });
+
+      expect(notifications.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { userId: alice, key: `captain_missed:${tournamentId}` },
+            update: {
+              $setOnInsert: expect.objectContaining({
+                type: 'captain_missed',
+                message:
+                  "Tom Watson didn't play in Spring Medal, so your vice-captain takes the armband.",
+              }),
+            },
+            upsert: true,
+          },
+        },
+      ]);
+      // Results not yet published, so the leaderboard hasn't moved
+      expect(getLeaderboard).not.toHaveBeenCalled();
+    });
+
+    it('never fails the action that raised it', async () => {
+      vi.mocked(connectToDatabase).mockRejectedValue(new Error('DB connection failed'));
+
+      await expect(
+        emitNotificationEvent({ type: 'transfer_window', open: false })
+      ).resolves.toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Raising notifications failed',
+        expect.any(Error),
+        { eventType: 'transfer_window' }
+      );
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('returns the newest notifications and the unread count', async () => {
+      notifications.find.mockReturnValue(
+        mockCursor([
+          {
+            _id: new ObjectId(),
+            userId: alice,
+            type: 'transfers_opened',
+            title: 'The transfer window is open',
+            message: '',
+            link: '/my-team',
+            readAt: null,
+            createdAt: new Date(),
+          },
+        ])
+      );
+      notifications.countDocuments.mockResolvedValue(1);
+
+      const result = await getNotifications(alice.toString());
+
+      expect(notifications.find).toHaveBeenCalledWith({ userId: alice });
+      expect(notifications.find().sort).toHaveBeenCalledWith({ createdAt: -1 });
+      expect(notifications.find().limit).toHaveBeenCalledWith(20);
+      expect(notifications.countDocuments).toHaveBeenCalledWith({ userId: alice, readAt: null });
+      expect(result.unreadCount).toBe(1);
+      expect(result.notifications[0].read).toBe(false);
+    });
+  });
+
+  describe('markNotificationRead', () => {
+    const id = new ObjectId();
+
+    it('marks an unread notification read', async () => {
+      notifications.updateOne.mockResolvedValue({ matchedCount: 1 });
+
+      expect(await markNotificationRead(alice.toString(), id.toString())).toBe(true);
+      expect(notifications.updateOne).toHaveBeenCalledWith(
+        { _id: id, userId: alice, readAt: null },
+        { $set: { readAt: expect.any(Date) } }
+      );
+    });
+
+    it("is false for another user's notification", async () => {
+      notifications.updateOne.mockResolvedValue({ matchedCount: 0 });
+      notifications.countDocuments.mockResolvedValue(0);
+
+      expect(await markNotificationRead(bob.toString(), id.toString())).toBe(false);
+    });
+  });
+
+  describe('markAllNotificationsRead', () => {
+    it('returns how many were unread', async () => {
+      notifications.updateMany.mockResolvedValue({ modifiedCount: 3 });
+
+      expect(await markAllNotificationsRead(alice.toString())).toBe(3);
+      expect(notifications.updateMany).toHaveBeenCalledWith(
+        { userId: alice, readAt: null },
+        { $set: { readAt: expect.any(Date) } }
+      );
+    });
+  });
+});
@@ -0,0 +1,326 @@
+// Notifications service - tell managers about results, transfer windows and their rank
+
+import { ObjectId } from 'mongodb';
+import type { AnyBulkWriteOperation, Db } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { GolferDocument, GOLFERS_COLLECTION } from '../models/Golfer';
+import {
+  NotificationDocument,
+  NotifiedRankDocument,
+  toNotification,
+  NOTIFICATIONS_COLLECTION,
+  NOTIFIED_RANKS_COLLECTION,
+} from '../models/Notification';
+import { PickDocument, PICKS_COLLECTION } from '../models/Pick';
+import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
+import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
+import { UserDocument, USERS_COLLECTION } from '../models/User';
+import { getLeaderboard, invalidateLeaderboardCache } from './leaderboard.service';
+import { buildTeamSnapshots, getSeasonPickHistory, getSnapshotAt } from './team.service';
+import { createLogger } from '../utils/logger';
+import type { NotificationList, NotificationType, Tournament } from '../../../../shared/types';
+
+export type NotificationEvent =
+  | { type: 'tournament_published'; tournament: Tournament }
+  | { type: 'transfer_window'; open: boolean }
+  | { type: 'scores_entered'; tournamentId: string };
+
+interface NewNotification {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null;
+  key?: string;
+}
+
+const DEFAULT_LIST_LIMIT = 20;
+
+const logger = createLogger({ endpoint: 'notifications' });
+
+const ordinal = (n: number): string => {
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`;
+  const suffix = ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Send a notification to each user. One with a key is sent to a user at most once,
+ * so an event raised again (scores re-entered, a tournament re-published) isn't repeated.
+ */
+async function sendNotifications(
+  db: Db,
+  userIds: ObjectId[],
+  notification: NewNotification | ((userId: ObjectId) => NewNotification)
+): Promise<void> {
+  if (userIds.length === 0) return;
+
+  const now = new Date();
+  const docs = userIds.map((userId) => ({
+    userId,
+    ...(typeof notification === 'function' ? notification(userId) : notification),
+    readAt: null,
+    createdAt: now,
+  }));
+
+  const collection = db.collection<NotificationDocument>(NOTIFICATIONS_COLLECTION);
+  const once = docs.filter((doc) => doc.key);
+  const always = docs.filter((doc) => !doc.key);
+
+  if (always.length > 0) {
+    await collection.insertMany(always as NotificationDocument[]);
+  }
+  if (once.length > 0) {
+    await collection.bulkWrite(
+      once.map((doc) => ({
+        updateOne: {
+          filter: { userId: doc.userId, key: doc.key },
+          update: { $setOnInsert: doc },
+          upsert: true,
+        },
+      }))
+    );
+  }
+}
+
+async function getSeasonManagerIds(db: Db, season: number): Promise<ObjectId[]> {
+  const picks = await db
+    .collection<PickDocument>(PICKS_COLLECTION)
+    .find({ season })
+    .project<Pick<PickDocument, 'userId'>>({ userId: 1 })
+    .toArray();
+  return picks.map((p) => p.userId);
+}
+
+/**
+ * Compare each manager's season rank with the rank they were last told about, and tell
+ * those who have moved. The first check for a season only records the ranks.
+ */
+async function notifyRankChanges(db: Db, season: number): Promise<void> {
+  // The leaderboard is cached, and results have just changed
+  await invalidateLeaderboardCache(season);
+  const [leaderboard, managerIds, notified] = await Promise.all([
+    getLeaderboard(season),
+    getSeasonManagerIds(db, season),
+    db.collection<NotifiedRankDocument>(NOTIFIED_RANKS_COLLECTION).find({ season }).toArray(),
+  ]);
+
+  const managers = new Set(managerIds.map((id) => id.toString()));
+  const previousRanks = new Map(notified.map((r) => [r.userId.toString(), r.rank]));
+  const entries = leaderboard.filter((entry) => managers.has(entry.userId));
+  if (entries.length === 0) return;
+
+  const moved = entries.filter((entry) => {
+    const previous = previousRanks.get(entry.userId);
+    return previous !== undefined && previous !== entry.rank;
+  });
+  const ranks = new Map(moved.map((entry) => [entry.userId, entry.rank]));
+
+  await sendNotifications(
+    db,
+    moved.map((entry) => new ObjectId(entry.userId)),
+    (userId) => {
+      const rank = ranks.get(userId.toString())!;
+      const previous = previousRanks.get(userId.toString())!;
+      return {
+        type: 'rank_changed',
+        title:
+          rank < previous ? `You moved up to ${ordinal(rank)}` : `You dropped to ${ordinal(rank)}`,
+        message: `You were ${ordinal(previous)} on the season leaderboard.`,
+        link: '/leaderboard',
+      };
+    }
+  );
+
+  const now = new Date();
+  const operations: AnyBulkWriteOperation<NotifiedRankDocument>[] = entries.map((entry) => ({
+    updateOne: {
+      filter: { userId: new ObjectId(entry.userId), season },
+      update: { $set: { rank: entry.rank, updatedAt: now } },
+      upsert: true,
+    },
+  }));
+  await db.collection<NotifiedRankDocument>(NOTIFIED_RANKS_COLLECTION).bulkWrite(operations);
+}
+
+async function notifyTournamentPublished(db: Db, tournament: Tournament): Promise<void> {
+  await sendNotifications(db, await getSeasonManagerIds(db, tournament.season), {
+    type: 'tournament_published',
+    title: `${tournament.name} results are in`,
+    message: 'Scores have been published. See how your team did.',
+    link: `/tournaments/${tournament.id}`,
+    key: `tournament_published:${tournament.id}`,
+  });
+  await notifyRankChanges(db, tournament.season);
+}
+
+async function notifyTransferWindow(db: Db, open: boolean): Promise<void> {
+  const users = await db
+    .collection<UserDocument>(USERS_COLLECTION)
+    .find({})
+    .project<Pick<UserDocument, '_id'>>({ _id: 1 })
+    .toArray();
+
+  await sendNotifications(
+    db,
+    users.map((u) => u._id),
+    open
+      ? {
+          type: 'transfers_opened',
+          title: 'The transfer window is open',
+          message: 'You can make changes to your team until the window closes.',
+          link: '/my-team',
+        }
+      : {
+          type: 'transfers_locked',
+          title: 'The transfer window is locked',
+          message: 'Teams are locked until the window reopens.',
+          link: '/my-team',
+        }
+  );
+}
+
+/**
+ * Tell managers whose captain on the tournament date didn't play, then, if the
+ * tournament counts towards the leaderboard, anyone whose rank has moved.
+ */
+async function notifyScoresEntered(db: Db, tournamentId: string): Promise<void> {
+  const tournament = await db
+    .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+    .findOne({ _id: new ObjectId(tournamentId) });
+  if (!tournament) return;
+
+  const absent = await db
+    .collection<ScoreDocument>(SCORES_COLLECTION)
+    .find({ tournamentId: tournament._id, participated: false })
+    .project<Pick<ScoreDocument, 'golferId'>>({ golferId: 1 })
+    .toArray();
+
+  if (absent.length > 0) {
+    const absentIds = new Set(absent.map((s) => s.golferId.toString()));
+    const [picks, historyByUser] = await Promise.all([
+      db.collection<PickDocument>(PICKS_COLLECTION).find({ season: tournament.season }).toArray(),
+      getSeasonPickHistory(db, tournament.season),
+    ]);
+
+    const captains = new Map<string, { captainId: string; hasViceCaptain: boolean }>();
+    for (const pick of picks) {
+      const userId = pick.userId.toString();
+      const held = getSnapshotAt(
+        buildTeamSnapshots(pick, historyByUser.get(userId)),
+        new Date(tournament.startDate)
+      );
+      if (held?.captainId && absentIds.has(held.captainId)) {
+        captains.set(userId, { captainId: held.captainId, hasViceCaptain: !!held.viceCaptainId });
+      }
+    }
+
+    if (captains.size > 0) {
+      const captainIds = [...new Set([...captains.values()].map((c) => c.captainId))];
+      const golfers = await db
+        .collection<GolferDocument>(GOLFERS_COLLECTION)
+        .find({ _id: { $in: captainIds.map((id) => new ObjectId(id)) } })
+        .project<Pick<GolferDocument, '_id' | 'firstName' | 'lastName'>>({
+          firstName: 1,
+          lastName: 1,
+        })
+        .toArray();
+      const names = new Map(golfers.map((g) => [g._id.toString(), `${g.firstName} ${g.lastName}`]));
+
+      await sendNotifications(
+        db,
+        [...captains.keys()].map((id) => new ObjectId(id)),
+        (userId) => {
+          const { captainId, hasViceCaptain } = captains.get(userId.toString())!;
+          const name = names.get(captainId) ?? 'Your captain';
+          return {
+            type: 'captain_missed',
+            title: "Your captain didn't play",
+            message: hasViceCaptain
+              ? `${name} didn't play in ${tournament.name}, so your vice-captain takes the armband.`
+              : `${name} didn't play in ${tournament.name}, so you miss out on the captain's bonus.`,
+            link: '/my-team',
+            key: `captain_missed:${tournamentId}`,
+          };
+        }
+      );
+    }
+  }
+
+  if (tournament.status === 'published') {
+    await notifyRankChanges(db, tournament.season);
+  }
+}
+
+/**
+ * Raise the notifications for something that has happened in the game. Notifications
+ * are best-effort: a failure here never fails the action that raised them.
+ */
+export async function emitNotificationEvent(event: NotificationEvent): Promise<void> {
+  try {
+    const { db } = await connectToDatabase();
+    switch (event.type) {
+      case 'tournament_published':
+        await notifyTournamentPublished(db, event.tournament);
+        break;
+      case 'transfer_window':
+        await notifyTransferWindow(db, event.open);
+        break;
+      case 'scores_entered':
+        await notifyScoresEntered(db, event.tournamentId);
+        break;
+    }
+  } catch (error) {
+    // The action itself has already succeeded, so only log the failure
+    logger.error('Raising notifications failed', error instanceof Error ? error : undefined, {
+      eventType: event.type,
+    });
+  }
+}
+
+export async function getNotifications(
+  userId: string,
+  limit: number = DEFAULT_LIST_LIMIT
+): Promise<NotificationList> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<NotificationDocument>(NOTIFICATIONS_COLLECTION);
+  const userObjectId = new ObjectId(userId);
+
+  const [docs, unreadCount] = await Promise.all([
+    collection.find({ userId: userObjectId }).sort({ createdAt: -1 }).limit(limit).toArray(),
+    collection.countDocuments({ userId: userObjectId, readAt: null }),
+  ]);
+
+  return { notifications: docs.map(toNotification), unreadCount };
+}
+
+/**
+ * Mark one of a user's notifications read. False if the user has no such notification.
+ */
+export async function markNotificationRead(userId: string, id: string): Promise<boolean> {
+  const { db } = await connectToDatabase();
+  const result = await db
+    .collection<NotificationDocument>(NOTIFICATIONS_COLLECTION)
+    .updateOne(
+      { _id: new ObjectId(id), userId: new ObjectId(userId), readAt: null },
+      { $set: { readAt: new Date() } }
+    );
+  if (result.matchedCount === 1) return true;
+
+  // Already read counts as success
+  const existing = await db
+    .collection<NotificationDocument>(NOTIFICATIONS_COLLECTION)
+    .countDocuments({ _id: new ObjectId(id), userId: new ObjectId(userId) });
+  return existing === 1;
+}
+
+/**
+ * Mark all of a user's notifications read, returning how many were unread.
+ */
+export async function markAllNotificationsRead(userId: string): Promise<number> {
+  const { db } = await connectToDatabase();
+  const result = await db
+    .collection<NotificationDocument>(NOTIFICATIONS_COLLECTION)
+    .updateMany({ userId: new ObjectId(userId), readAt: null }, { $set: { readAt: new Date() } });
+  return result.modifiedCount;
+}
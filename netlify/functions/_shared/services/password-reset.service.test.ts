@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { hashPassword } from '../auth';
+import { getEmailTransport } from '../email';
+import { sendVerificationCode, checkVerificationCode } from '../twilio';
+import { createMockDb } from '../../__test-utils__';
+import { revokeAllUserTokens } from './auth.service';
+import { requestPasswordReset, resetPassword } from './password-reset.service';
+
+const { mockLogger } = vi.hoisted(() => ({
+  mockLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('../auth', () => ({ hashPassword: vi.fn().mockResolvedValue('new-hash') }));
+vi.mock('../twilio', () => ({
+  sendVerificationCode: vi.fn().mockResolvedValue('pending'),
+  checkVerificationCode: vi.fn(),
+}));
+vi.mock('./auth.service', () => ({ revokeAllUserTokens: vi.fn() }));
+vi.mock('../utils/logger', () => ({ createLogger: () => mockLogger }));
+
+const now = new Date('2026-05-09T08:00:00Z');
+const hash = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+const alice = {
+  _id: new ObjectId(),
+  firstName: 'Alice',
+  username: 'alice',
+  email: 'alice@example.com',
+  phoneNumber: '+447900165650',
+  phoneVerified: true,
+};
+
+describe('password-reset.service', () => {
+  let users: Record<string, ReturnType<typeof vi.fn>>;
+  let passwordResets: Record<string, ReturnType<typeof vi.fn>>;
+  let transport: { send: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('URL', 'https://fantasy.example.com');
+    users = {
+      findOne: vi.fn().mockResolvedValue(alice),
+      updateOne: vi.fn().mockResolvedValue({ matchedCount: 1 }),
+    };
+    passwordResets = {
+      findOne: vi.fn().mockResolvedValue(null),
+      insertOne: vi.fn(),
+      updateOne: vi.fn(),
+      deleteOne: vi.fn(),
+      deleteMany: vi.fn(),
+    };
+    transport = { send: vi.fn().mockResolvedValue(undefined) };
+    const { mockDb } = createMockDb({ users, passwordResets });
+    vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('requestPasswordReset', () => {
+    it('texts a code to a verified phone, found by phone number', async () => {
+      await requestPasswordReset('+447900165650', 'sms', transport, now);
+
+      expect(users.findOne).toHaveBeenCalledWith({ phoneNumber: '+447900165650' });
+      expect(sendVerificationCode).toHaveBeenCalledWith('+447900165650');
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+
+    it('does not text a phone that was never verified', async () => {
+      users.findOne.mockResolvedValue({ ...alice, phoneVerified: false });
+
+      await requestPasswordReset('alice', 'sms', transport, now);
+
+      expect(users.findOne).toHaveBeenCalledWith({ username: 'alice' });
+      expect(sendVerificationCode).not.toHaveBeenCalled();
+    });
+
+    it('emails a code that lasts 15 minutes, replacing any earlier one', async () => {
+      await requestPasswordReset('alice', 'email', transport, now);
+
+      expect(passwordResets.deleteMany).toHaveBeenCalledWith({ userId: alice._id });
+      const stored = passwordResets.insertOne.mock.calls[0][0];
+      expect(stored).toMatchObject({
+        userId: alice._id,
+        attempts: 0,
+        expiresAt: new Date('2026-05-09T08:15:00Z'),
+      });
+
+      const email = transport.send.mock.calls[0][0];
+      const code = email.subject.match(/\d{6}$/)[0];
+      expect(email.to).toBe('alice@example.com');
+      expect(stored.codeHash).toBe(hash(code));
+      expect(email.text).toContain('https://fantasy.example.com/forgot-password');
+    });
+
+    it('logs a failed send and returns as if it had worked', async () => {
+      transport.send.mockRejectedValue(new Error('Mailbox unavailable'));
+
+      await expect(requestPasswordReset('alice', 'email', transport, now)).resolves.toBe(undefined);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Sending password reset code failed',
+        expect.any(Error),
+        { channel: 'email' }
+      );
+    });
+
+    it('logs a failed text and returns as if it had worked', async () => {
+      vi.mocked(sendVerificationCode).mockRejectedValueOnce(new Error('Twilio unavailable'));
+
+      await expect(requestPasswordReset('alice', 'sms', transport, now)).resolves.toBe(undefined);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+
+    it('texts a code without needing email to be configured', async () => {
+      vi.stubEnv('CONTEXT', 'production');
+      vi.stubEnv('EMAIL_TRANSPORT', '');
+      vi.stubEnv('SMTP_HOST', '');
+
+      await requestPasswordReset('alice', 'sms', undefined, now);
+
+      expect(sendVerificationCode).toHaveBeenCalledWith('+447900165650');
+      expect(mockLogger.error).not.toHaveBeenCalled();
+      expect(() => getEmailTransport()).toThrow('Email is not configured');
+    });
+
+    it('returns quietly when there is no such account', async () => {
+      users.findOne.mockResolvedValue(null);
+
+      await expect(requestPasswordReset('nobody', 'email', transport, now)).resolves.toBe(
+        undefined
+      );
+      expect(transport.send).not.toHaveBeenCalled();
+      expect(sendVerificationCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const reset = {
+      identifier: 'alice',
+      channel: 'email' as const,
+      code: '042817',
+      password: 'newsecurepass',
+    };
+    const storedReset = {
+      _id: new ObjectId(),
+      userId: alice._id,
+      codeHash: hash('042817'),
+      attempts: 0,
+      expiresAt: new Date('2026-05-09T08:15:00Z'),
+      createdAt: now,
+    };
+
+    it('sets the new password and signs out every session', async () => {
+      passwordResets.findOne.mockResolvedValue(storedReset);
+
+      await resetPassword(reset, now);
+
+      expect(passwordResets.findOne).toHaveBeenCalledWith({
+        userId: alice._id,
+        expiresAt: { $gt: now },
+      });
+      expect(passwordResets.deleteMany).toHaveBeenCalledWith({ userId: alice._id });
+      expect(hashPassword).toHaveBeenCalledWith('newsecurepass');
+      expect(users.updateOne).toHaveBeenCalledWith(
+        { _id: alice._id },
+        { $set: { passwordHash: 'new-hash', updatedAt: now } }
+      );
+      expect(revokeAllUserTokens).toHaveBeenCalledWith(alice._id.toString());
+    });
+
+    it('counts a wrong code against the attempt limit', async () => {
+      passwordResets.findOne.mockResolvedValue(storedReset);
+
+      await expect(resetPassword({ ...reset, code: '111111' }, now)).rejects.toThrow(
+        'Invalid or expired reset code'
+      );
+      expect(passwordResets.updateOne).toHaveBeenCalledWith(
+        { _id: storedReset._id },
+        { $inc: { attempts: 1 } }
+      );
+      expect(users.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('uses the code up after too many wrong guesses', async () => {
+      passwordResets.findOne.mockResolvedValue({ ...storedReset, attempts: 4 });
+
+      await expect(resetPassword({ ...reset, code: '111111' }, now)).rejects.toThrow(
+        'Invalid or expired reset code'
+      );
+      expect(passwordResets.deleteOne).toHaveBeenCalledWith({ _id: storedReset._id });
+    });
+
+    it('rejects an expired code', async () => {
+      await expect(resetPassword(reset, now)).rejects.toThrow('Invalid or expired reset code');
+      expect(revokeAllUserTokens).not.toHaveBeenCalled();
+    });
+
+    it('checks an SMS code with Twilio Verify', async () => {
+      vi.mocked(checkVerificationCode).mockResolvedValue(true);
+
+      await resetPassword({ ...reset, channel: 'sms' }, now);
+
+      expect(checkVerificationCode).toHaveBeenCalledWith('+447900165650', '042817');
+      expect(revokeAllUserTokens).toHaveBeenCalledWith(alice._id.toString());
+    });
+
+    it('rejects a wrong SMS code', async () => {
+      vi.mocked(checkVerificationCode).mockResolvedValue(false);
+
+      await expect(resetPassword({ ...reset, channel: 'sms' }, now)).rejects.toThrow(
+        'Invalid or expired reset code'
+      );
+      expect(users.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('gives the same error when there is no such account', async () => {
+      users.findOne.mockResolvedValue(null);
+
+      await expect(resetPassword(reset, now)).rejects.toThrow('Invalid or expired reset code');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+// Password reset service — forgotten password codes by SMS or email
+
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import type { Db } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { hashPassword } from '../auth';
+import { EmailTransport, getAppUrl, getEmailTransport } from '../email';
+import { renderPasswordResetCode } from '../email-templates';
+import {
+  PasswordResetDocument,
+  getPasswordResetExpiry,
+  PASSWORD_RESETS_COLLECTION,
+  PASSWORD_RESET_CODE_TTL_MS,
+  PASSWORD_RESET_MAX_ATTEMPTS,
+} from '../models/PasswordReset';
+import { UserDocument, USERS_COLLECTION } from '../models/User';
+import { sendVerificationCode, checkVerificationCode } from '../twilio';
+import { revokeAllUserTokens } from './auth.service';
+import { createLogger } from '../utils/logger';
+import { PHONE_NUMBER_REGEX, VERIFICATION_CODE_LENGTH } from '../../../../shared/constants/rules';
+import type {
+  PasswordResetChannel,
+  ResetPasswordInput,
+} from '../../../../shared/validators/auth.validators';
+
+const INVALID_CODE = 'Invalid or expired reset code';
+
+const logger = createLogger({ endpoint: 'password-reset' });
+
+const hashCode = (code: string): string => crypto.createHash('sha256').update(code).digest('hex');
+
+/**
+ * Find the account a manager named on the forgot password form, by phone number or
+ * username.
+ */
+async function findUserByIdentifier(db: Db, identifier: string): Promise<UserDocument | null> {
+  const filter = PHONE_NUMBER_REGEX.test(identifier)
+    ? { phoneNumber: identifier }
+    : { username: identifier };
+  return db.collection<UserDocument>(USERS_COLLECTION).findOne(filter);
+}
+
+// Only a verified number is known to belong to the account holder
+const canUseSms = (user: UserDocument): user is UserDocument & { phoneNumber: string } =>
+  Boolean(user.phoneNumber && user.phoneVerified);
+
+// Email a new code, replacing any the manager asked for before
+async function sendEmailCode(
+  db: Db,
+  user: UserDocument,
+  transport: EmailTransport,
+  now: Date
+): Promise<void> {
+  const code = crypto
+    .randomInt(0, 10 ** VERIFICATION_CODE_LENGTH)
+    .toString()
+    .padStart(VERIFICATION_CODE_LENGTH, '0');
+
+  const resets = db.collection<PasswordResetDocument>(PASSWORD_RESETS_COLLECTION);
+  await resets.deleteMany({ userId: user._id });
+  await resets.insertOne({
+    userId: user._id,
+    codeHash: hashCode(code),
+    attempts: 0,
+    expiresAt: getPasswordResetExpiry(now),
+    createdAt: now,
+  });
+
+  await transport.send({
+    to: user.email,
+    ...renderPasswordResetCode(
+      {
+        firstName: user.firstName,
+        code,
+        expiresInMinutes: PASSWORD_RESET_CODE_TTL_MS / 60000,
+      },
+      getAppUrl('/forgot-password')
+    ),
+  });
+}
+
+/**
+ * Send a reset code by SMS or email. Returns quietly when there is no such account,
+ * it has no verified phone for SMS, or the code couldn't be sent, so the form can't be
+ * used to find out who is registered.
+ */
+export async function requestPasswordReset(
+  identifier: string,
+  channel: PasswordResetChannel,
+  transport?: EmailTransport,
+  now: Date = new Date()
+): Promise<void> {
+  const { db } = await connectToDatabase();
+  const user = await findUserByIdentifier(db, identifier);
+  if (!user) return;
+
+  try {
+    if (channel === 'sms') {
+      if (canUseSms(user)) {
+        await sendVerificationCode(user.phoneNumber);
+      }
+      return;
+    }
+    // Only the email channel needs a transport, so SMS works without email configured
+    await sendEmailCode(db, user, transport ?? getEmailTransport(), now);
+  } catch (error) {
+    // Failing only for accounts that exist would give away who is registered
+    logger.error('Sending password reset code failed', error instanceof Error ? error : undefined, {
+      channel,
+    });
+  }
+}
+
+async function checkEmailCode(db: Db, userId: ObjectId, code: string, now: Date): Promise<void> {
+  const resets = db.collection<PasswordResetDocument>(PASSWORD_RESETS_COLLECTION);
+  const reset = await resets.findOne({ userId, expiresAt: { $gt: now } });
+  if (!reset) {
+    throw new Error(INVALID_CODE);
+  }
+
+  const matches = crypto.timingSafeEqual(
+    Buffer.from(hashCode(code), 'hex'),
+    Buffer.from(reset.codeHash, 'hex')
+  );
+  if (!matches) {
+    // Too many wrong guesses uses the code up, so it can't be worked out by trying them all
+    if (reset.attempts + 1 >= PASSWORD_RESET_MAX_ATTEMPTS) {
+      await resets.deleteOne({ _id: reset._id });
+    } else {
+      await resets.updateOne({ _id: reset._id }, { $inc: { attempts: 1 } });
+    }
+    throw new Error(INVALID_CODE);
+  }
+
+  await resets.deleteMany({ userId });
+}
+
+/**
+ * Check a reset code and set the new password. Signs the account out everywhere, as
+ * whoever knew the old password may still be signed in.
+ */
+export async function resetPassword(
+  data: ResetPasswordInput,
+  now: Date = new Date()
+): Promise<void> {
+  const { db } = await connectToDatabase();
+  const user = await findUserByIdentifier(db, data.identifier);
+  if (!user) {
+    throw new Error(INVALID_CODE);
+  }
+
+  if (data.channel === 'sms') {
+    if (!canUseSms(user) || !(await checkVerificationCode(user.phoneNumber, data.code))) {
+      throw new Error(INVALID_CODE);
+    }
+  } else {
+    await checkEmailCode(db, user._id, data.code, now);
+  }
+
+  const passwordHash = await hashPassword(data.password);
+  await db
+    .collection<UserDocument>(USERS_COLLECTION)
+    .updateOne({ _id: user._id }, { $set: { passwordHash, updatedAt: now } });
+
+  await revokeAllUserTokens(user._id.toString());
+}
@@ -1,7 +1,17 @@
 import { ObjectId } from 'mongodb';
 import type { Db, MongoClient } from 'mongodb';
 import { connectToDatabase } from '../db';
-import { savePicks, getUserPicks, getPickHistory, getTransfersThisWeek } from './picks.service';
+import {
+  savePicks,
+  getUserPicks,
+  getPickHistory,
+  getTransfersThisWeek,
+  getChipStatus,
+  getChipWeekStart,
+  getNextGameweekStart,
+  getTransferStatus,
+  getSquadValue,
+} from './picks.service';
 
 vi.mock('../db', () => ({
   connectToDatabase: vi.fn(),
@@ -31,6 +41,10 @@ const mockSettingsCollection = {
   findOne: vi.fn(),
 };
 
+const mockPenaltiesCollection = {
+  insertOne: vi.fn(),
+};
+
 const toArrayHelper = <T>(items: T[]) => ({
   toArray: vi.fn().mockResolvedValue(items),
   sort: vi.fn().mockReturnValue({ toArray: vi.fn().mockResolvedValue(items) }),
@@ -45,6 +59,7 @@ beforeEach(() => {
         if (name === 'pickHistory') return mockHistoryCollection;
         if (name === 'golfers') return mockGolfersCollection;
         if (name === 'settings') return mockSettingsCollection;
+        if (name === 'transferPenalties') return mockPenaltiesCollection;
         return {};
       }),
     } as unknown as Db,
@@ -246,6 +261,541 @@ describe('picks.service', () => {
     });
   });
 
+  describe('chips', () => {
+    const existingPick = {
+      _id: new ObjectId(),
+      userId,
+      golferIds: golferIds.map((id) => new ObjectId(id)),
+      captainId: golferIds[0],
+      totalSpent: 30_000_000,
+      season: 2025,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date(),
+    };
+    const boughtGolferId = new ObjectId();
+    const newGolferIds = [...golferIdStrings.slice(1), boughtGolferId.toString()];
+
+    beforeEach(() => {
+      mockPicksCollection.findOne.mockResolvedValue(existingPick);
+      mockGolfersCollection.find.mockReturnValue(
+        toArrayHelper([
+          ...makeGolferDocs([5_000_000, 5_000_000, 5_000_000, 5_000_000, 5_000_000, 5_000_000]),
+          { _id: boughtGolferId, firstName: 'Golfer', lastName: '7', price: 5_000_000, isActive: true },
+        ])
+      );
+      // Weekly transfer already used
+      mockHistoryCollection.countDocuments.mockResolvedValue(1);
+    });
+
+    it('enforces the weekly limit when extra transfers are turned off', async () => {
+      mockSettingsCollection.findOne.mockImplementation(({ key }: { key: string }) => {
+        if (key === 'transfersOpen') return Promise.resolve({ key, value: true });
+        if (key === 'transferPenaltyPoints') return Promise.resolve({ key, value: 0 });
+        return Promise.resolve(null);
+      });
+
+      await expect(savePicks(userId.toString(), newGolferIds)).rejects.toThrow(
+        'Transfer limit reached'
+      );
+    });
+
+    it('charges a points penalty per golfer swapped beyond the weekly limit', async () => {
+      await savePicks(userId.toString(), newGolferIds);
+
+      expect(mockPenaltiesCollection.insertOne).toHaveBeenCalledWith(
+        expect.objectContaining({ swaps: 1, points: 4, weekStart: getNextGameweekStart() })
+      );
+    });
+
+    it('does not charge a penalty within the weekly limit', async () => {
+      mockHistoryCollection.countDocuments.mockResolvedValue(0);
+
+      await savePicks(userId.toString(), newGolferIds);
+
+      expect(mockPenaltiesCollection.insertOne).not.toHaveBeenCalled();
+    });
+
+    it('does not count a captain change against the weekly transfer', async () => {
+      const history: { reason: string }[] = [];
+      mockHistoryCollection.insertOne.mockImplementation(async (doc: { reason: string }) => {
+        history.push(doc);
+        return { insertedId: new ObjectId() };
+      });
+      mockHistoryCollection.countDocuments.mockImplementation(
+        async (filter: { reason: { $nin: string[] } }) =>
+          history.filter((h) => !filter.reason.$nin.includes(h.reason)).length
+      );
+
+      await savePicks(userId.toString(), golferIdStrings, 'Team selection', golferIdStrings[1]);
+      await savePicks(userId.toString(), newGolferIds);
+
+      expect(history.map((h) => h.reason)).toEqual(['Lineup change', 'Team selection']);
+      expect(mockPenaltiesCollection.insertOne).not.toHaveBeenCalled();
+    });
+
+    it('lifts the weekly limit when a Wildcard is played and records it', async () => {
+      await savePicks(
+        userId.toString(),
+        newGolferIds,
+        'Team selection',
+        null,
+        undefined,
+        'wildcard'
+      );
+
+      expect(mockPicksCollection.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          $push: {
+            chips: { chip: 'wildcard', weekStart: expect.any(Date), playedAt: expect.any(Date) },
+          },
+        }),
+        { upsert: true }
+      );
+      expect(mockPenaltiesCollection.insertOne).not.toHaveBeenCalled();
+    });
+
+    it('keeps transfers unlimited for the rest of a Wildcard week', async () => {
+      mockPicksCollection.findOne.mockResolvedValue({
+        ...existingPick,
+        chips: [
+          { chip: 'wildcard', weekStart: getChipWeekStart('wildcard'), playedAt: new Date() },
+        ],
+      });
+
+      await expect(savePicks(userId.toString(), newGolferIds)).resolves.toBeDefined();
+    });
+
+    it('rejects a chip with none left this season', async () => {
+      mockPicksCollection.findOne.mockResolvedValue({
+        ...existingPick,
+        chips: [{ chip: 'wildcard', weekStart: new Date('2024-05-04'), playedAt: new Date() }],
+      });
+
+      await expect(
+        savePicks(userId.toString(), newGolferIds, 'Team selection', null, undefined, 'wildcard')
+      ).rejects.toThrow('You have no Wildcard chips left this season');
+    });
+
+    it('requires a captain for Triple Captain', async () => {
+      await expect(
+        savePicks(
+          userId.toString(),
+          golferIdStrings,
+          'Team selection',
+          null,
+          undefined,
+          'tripleCaptain'
+        )
+      ).rejects.toThrow('Pick a captain before playing Triple Captain');
+    });
+
+    it('rejects chips before a team exists', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(null);
+
+      await expect(
+        savePicks(userId.toString(), golferIdStrings, 'Team selection', null, undefined, 'wildcard')
+      ).rejects.toThrow('Chips can only be played once your team is saved');
+    });
+
+    it('requires a bench for Bench Boost', async () => {
+      await expect(
+        savePicks(userId.toString(), golferIdStrings, 'Team selection', null, undefined, 'benchBoost')
+      ).rejects.toThrow('Pick a bench before playing Bench Boost');
+    });
+  });
+
+  describe('bench', () => {
+    const benchIds = [new ObjectId(), new ObjectId()];
+    const benchIdStrings = benchIds.map((id) => id.toString());
+    const benchDocs = benchIds.map((id) => ({ _id: id, price: 4_000_000, isActive: true }));
+    const existingPick = {
+      _id: new ObjectId(),
+      userId,
+      golferIds: golferIds.map((id) => new ObjectId(id)),
+      benchIds,
+      captainId: null,
+      totalSpent: 38_000_000,
+      season: 2025,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+      mockGolfersCollection.find.mockReturnValue(
+        toArrayHelper([
+          ...makeGolferDocs([5_000_000, 5_000_000, 5_000_000, 5_000_000, 5_000_000, 5_000_000]),
+          ...benchDocs,
+        ])
+      );
+    });
+
+    it('saves the bench in priority order and counts it against the budget', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(null);
+
+      await savePicks(
+        userId.toString(),
+        golferIdStrings,
+        'Team selection',
+        null,
+        undefined,
+        undefined,
+        benchIdStrings
+      );
+
+      expect(mockPicksCollection.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          $set: expect.objectContaining({ benchIds, totalSpent: 38_000_000 }),
+        }),
+        { upsert: true }
+      );
+    });
+
+    it('rejects a squad over budget once the bench is included', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(null);
+      mockGolfersCollection.find.mockReturnValue(
+        toArrayHelper([
+          ...makeGolferDocs([7_500_000, 7_500_000, 7_500_000, 7_500_000, 7_500_000, 7_500_000]),
+          ...benchDocs,
+        ])
+      );
+
+      await expect(
+        savePicks(
+          userId.toString(),
+          golferIdStrings,
+          'Team selection',
+          null,
+          undefined,
+          undefined,
+          benchIdStrings
+        )
+      ).rejects.toThrow('Budget exceeded');
+    });
+
+    it('rejects a golfer in both the team and the bench', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(null);
+
+      await expect(
+        savePicks(
+          userId.toString(),
+          golferIdStrings,
+          'Team selection',
+          null,
+          undefined,
+          undefined,
+          [golferIdStrings[0]]
+        )
+      ).rejects.toThrow('A golfer cannot be in both your team and your bench');
+    });
+
+    it('treats swapping a starter with a bench golfer as a lineup change, not a transfer', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(existingPick);
+      mockHistoryCollection.countDocuments.mockResolvedValue(1);
+      mockSettingsCollection.findOne.mockImplementation(({ key }: { key: string }) => {
+        if (key === 'transfersOpen') return Promise.resolve({ key, value: false });
+        return Promise.resolve(null);
+      });
+
+      await savePicks(
+        userId.toString(),
+        [benchIdStrings[0], ...golferIdStrings.slice(1)],
+        'Team selection',
+        null,
+        undefined,
+        undefined,
+        [benchIdStrings[1], golferIdStrings[0]]
+      );
+
+      expect(mockPicksCollection.updateOne).toHaveBeenCalled();
+      expect(mockPenaltiesCollection.insertOne).not.toHaveBeenCalled();
+    });
+
+    it('keeps the current bench when none is sent', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(existingPick);
+
+      await savePicks(userId.toString(), golferIdStrings, 'Team selection', null);
+
+      expect(mockPicksCollection.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ $set: expect.objectContaining({ benchIds }) }),
+        { upsert: true }
+      );
+    });
+  });
+
+  describe('vice-captain', () => {
+    const existingPick = {
+      _id: new ObjectId(),
+      userId,
+      golferIds: golferIds.map((id) => new ObjectId(id)),
+      captainId: new ObjectId(golferIdStrings[0]),
+      viceCaptainId: new ObjectId(golferIdStrings[1]),
+      totalSpent: 30_000_000,
+      season: 2025,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date(),
+    };
+
+    beforeEach(() => {
+      mockGolfersCollection.find.mockReturnValue(
+        toArrayHelper(makeGolferDocs([5_000_000, 5_000_000, 5_000_000, 5_000_000, 5_000_000, 5_000_000]))
+      );
+    });
+
+    it('saves the vice-captain as a lineup change', async () => {
+      mockPicksCollection.findOne.mockResolvedValue({ ...existingPick, viceCaptainId: null });
+      mockSettingsCollection.findOne.mockImplementation(({ key }: { key: string }) => {
+        if (key === 'transfersOpen') return Promise.resolve({ key, value: false });
+        return Promise.resolve(null);
+      });
+
+      await savePicks(
+        userId.toString(),
+        golferIdStrings,
+        'Team selection',
+        golferIdStrings[0],
+        undefined,
+        undefined,
+        undefined,
+        golferIdStrings[2]
+      );
+
+      expect(mockPicksCollection.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          $set: expect.objectContaining({ viceCaptainId: new ObjectId(golferIdStrings[2]) }),
+        }),
+        { upsert: true }
+      );
+    });
+
+    it('rejects a vice-captain who is not a starter', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(null);
+
+      await expect(
+        savePicks(
+          userId.toString(),
+          golferIdStrings,
+          'Team selection',
+          golferIdStrings[0],
+          undefined,
+          undefined,
+          undefined,
+          new ObjectId().toString()
+        )
+      ).rejects.toThrow('Vice-captain must be one of your selected golfers');
+    });
+
+    it('rejects the captain as vice-captain', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(null);
+
+      await expect(
+        savePicks(
+          userId.toString(),
+          golferIdStrings,
+          'Team selection',
+          golferIdStrings[0],
+          undefined,
+          undefined,
+          undefined,
+          golferIdStrings[0]
+        )
+      ).rejects.toThrow('different golfer to your captain');
+    });
+
+    it('keeps the current vice-captain when none is sent', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(existingPick);
+
+      await savePicks(userId.toString(), golferIdStrings, 'Team selection', golferIdStrings[0]);
+
+      expect(mockPicksCollection.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          $set: expect.objectContaining({ viceCaptainId: existingPick.viceCaptainId }),
+        }),
+        { upsert: true }
+      );
+    });
+
+    it('drops the vice-captain when they are made captain', async () => {
+      mockPicksCollection.findOne.mockResolvedValue(existingPick);
+
+      await savePicks(userId.toString(), golferIdStrings, 'Team selection', golferIdStrings[1]);
+
+      expect(mockPicksCollection.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ $set: expect.objectContaining({ viceCaptainId: null }) }),
+        { upsert: true }
+      );
+    });
+  });
+
+  describe('purchase prices', () => {
+    const boughtGolferId = new ObjectId();
+    const newGolferIds = [...golferIdStrings.slice(1), boughtGolferId.toString()];
+    const existingPick = {
+      _id: new ObjectId(),
+      userId,
+      golferIds: golferIds.map((id) => new ObjectId(id)),
+      captainId: null,
+      totalSpent: 30_000_000,
+      purchasePrices: Object.fromEntries(golferIdStrings.map((id) => [id, 5_000_000])),
+      bank: 1_000_000,
+      season: 2025,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date(),
+    };
+
+    const mockPrices = (soldPrice: number, boughtPrice: number) =>
+      mockGolfersCollection.find.mockReturnValue(
+        toArrayHelper([
+          ...makeGolferDocs([soldPrice]),
+          { _id: boughtGolferId, firstName: 'Golfer', lastName: '7', price: boughtPrice, isActive: true },
+        ])
+      );
+
+    beforeEach(() => {
+      mockPicksCollection.findOne.mockResolvedValue(existingPick);
+      mockHistoryCollection.countDocuments.mockResolvedValue(0);
+    });
+
+    it('records purchase prices and the bank for a new team', async () => {
+      mockPicksCollection.findOne.mockResolvedValueOnce(null);
+      mockGolfersCollection.find.mockReturnValue(
+        toArrayHelper(makeGolferDocs([9_000_000, 8_000_000]))
+      );
+
+      await savePicks(userId.toString(), golferIdStrings);
+
+      const { $set } = mockPicksCollection.updateOne.mock.calls[0][1];
+      expect($set.purchasePrices[golferIdStrings[0]]).toBe(9_000_000);
+      expect($set.purchasePrices[golferIdStrings[2]]).toBe(5_000_000);
+      expect($set.bank).toBe(13_000_000);
+      expect($set.totalSpent).toBe(37_000_000);
+    });
+
+    it('sells at the selling price and keeps purchase prices for golfers held', async () => {
+      // Bought at $5M, now $7M - half the rise is kept, so sells for $6M
+      mockPrices(7_000_000, 5_500_000);
+
+      await savePicks(userId.toString(), newGolferIds);
+
+      const { $set } = mockPicksCollection.updateOne.mock.calls[0][1];
+      expect($set.bank).toBe(1_500_000);
+      expect($set.purchasePrices[golferIdStrings[0]]).toBeUndefined();
+      expect($set.purchasePrices[golferIdStrings[1]]).toBe(5_000_000);
+      expect($set.purchasePrices[boughtGolferId.toString()]).toBe(5_500_000);
+    });
+
+    it('rejects a transfer the bank and selling price cannot cover', async () => {
+      // Sells for $4M after a fall, with $1M in the bank - not enough for $5.5M
+      mockPrices(4_000_000, 5_500_000);
+
+      await expect(savePicks(userId.toString(), newGolferIds)).rejects.toThrow(
+        'Budget exceeded. You have $30.0M to spend'
+      );
+    });
+  });
+
+  describe('getSquadValue', () => {
+    const pick = {
+      id: 'p1',
+      userId: userId.toString(),
+      golferIds: golferIdStrings.slice(0, 2),
+      benchIds: [],
+      captainId: null,
+      viceCaptainId: null,
+      totalSpent: 10_000_000,
+      purchasePrices: { [golferIdStrings[0]]: 5_000_000, [golferIdStrings[1]]: 5_000_000 },
+      bank: 2_000_000,
+      season: 2025,
+      chips: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const prices = new Map([
+      [golferIdStrings[0], 6_000_000],
+      [golferIdStrings[1], 4_000_000],
+    ]);
+
+    it('values each golfer at their selling price', () => {
+      const value = getSquadValue(pick, prices);
+
+      expect(value.bank).toBe(2_000_000);
+      expect(value.teamValue).toBe(9_500_000);
+      expect(value.golfers[0]).toEqual({
+        golferId: golferIdStrings[0],
+        purchasePrice: 5_000_000,
+        currentPrice: 6_000_000,
+        sellingPrice: 5_500_000,
+        profit: 500_000,
+      });
+      expect(value.golfers[1].profit).toBe(-1_000_000);
+    });
+
+    it('treats teams without purchase prices as bought at today\'s prices', () => {
+      const value = getSquadValue({ ...pick, purchasePrices: {}, bank: null }, prices);
+
+      expect(value.bank).toBe(40_000_000);
+      expect(value.teamValue).toBe(10_000_000);
+      expect(value.golfers.every((g) => g.profit === 0)).toBe(true);
+    });
+  });
+
+  describe('getChipStatus', () => {
+    it('reports the full allowance when no chips are played', () => {
+      expect(getChipStatus([])).toEqual([
+        { chip: 'wildcard', allowance: 1, remaining: 1, activeWeekStart: null },
+        { chip: 'tripleCaptain', allowance: 1, remaining: 1, activeWeekStart: null },
+        { chip: 'benchBoost', allowance: 1, remaining: 1, activeWeekStart: null },
+      ]);
+    });
+
+    it('marks an upcoming Triple Captain as active', () => {
+      const weekStart = getChipWeekStart('tripleCaptain');
+      const [, tripleCaptain] = getChipStatus([
+        { chip: 'tripleCaptain', weekStart, playedAt: new Date() },
+      ]);
+
+      expect(tripleCaptain).toEqual({
+        chip: 'tripleCaptain',
+        allowance: 1,
+        remaining: 0,
+        activeWeekStart: weekStart,
+      });
+    });
+  });
+
+  describe('getTransferStatus', () => {
+    it('reports the weekly allowance and penalty from settings', async () => {
+      mockHistoryCollection.countDocuments.mockResolvedValue(1);
+      const pick = {
+        id: 'p1',
+        userId: userId.toString(),
+        golferIds: golferIdStrings,
+        captainId: null,
+        totalSpent: 30_000_000,
+        season: 2025,
+        chips: [],
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date(),
+      };
+
+      const result = await getTransferStatus(userId.toString(), pick);
+
+      expect(result).toEqual({
+        transfersOpen: true,
+        unlimited: false,
+        transfersUsed: 1,
+        maxTransfers: 1,
+        maxPlayersPerTransfer: 6,
+        penaltyPerSwap: 4,
+      });
+    });
+  });
+
   describe('getUserPicks', () => {
     it('returns null when no pick exists', async () => {
       mockPicksCollection.findOne.mockResolvedValue(null);
@@ -294,7 +844,7 @@ describe('picks.service', () => {
       expect(result).toBe(2);
       expect(mockHistoryCollection.countDocuments).toHaveBeenCalledWith(
         expect.objectContaining({
-          reason: { $ne: 'Initial pick' },
+          reason: { $nin: ['Initial pick', 'Lineup change'] },
         })
       );
     });
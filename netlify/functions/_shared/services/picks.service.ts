@@ -9,10 +9,26 @@ import {
   PickHistoryDocument,
   PICK_HISTORY_COLLECTION,
 } from '../models/Pick';
-import { GolferDocument, GOLFERS_COLLECTION } from '../models/Golfer';
+import { GolferDocument, toGolfer, GOLFERS_COLLECTION } from '../models/Golfer';
 import { SettingDocument, SETTINGS_COLLECTION } from '../models/Settings';
-import { BUDGET_CAP, MAX_GOLFERS } from '../../../../shared/constants/rules';
-import type { Pick, PickWithGolfers, PickHistory } from '../../../../shared/types';
+import { TransferPenaltyDocument, TRANSFER_PENALTIES_COLLECTION } from '../models/TransferPenalty';
+import {
+  BUDGET_CAP,
+  MAX_GOLFERS,
+  MAX_BENCH_GOLFERS,
+  CHIP_ALLOWANCE,
+} from '../../../../shared/constants/rules';
+import { calculateSellingPrice } from '../../../../shared/constants/pricing';
+import type {
+  Pick,
+  PickWithGolfers,
+  SquadValue,
+  PickHistory,
+  ChipType,
+  ChipUsage,
+  ChipStatus,
+  TransferStatus,
+} from '../../../../shared/types';
 import { getWeekStart, getTeamEffectiveStartDate } from '../utils/dates';
 import { getActiveSeason } from './seasons.service';
 
@@ -56,21 +72,146 @@ async function getMaxPlayersPerTransfer(): Promise<number> {
   return (setting?.value as number) || 6; // Default to 6 (full team)
 }
 
+async function getTransferPenaltyPoints(): Promise<number> {
+  const { db } = await connectToDatabase();
+  const setting = await db
+    .collection<SettingDocument>(SETTINGS_COLLECTION)
+    .findOne({ key: 'transferPenaltyPoints' });
+  return (setting?.value as number | undefined) ?? 4; // 0 turns extra transfers off
+}
+
+/**
+ * Start of the next gameweek - team changes made now are first scored then.
+ */
+export function getNextGameweekStart(now: Date = new Date()): Date {
+  const weekStart = getWeekStart(now);
+  weekStart.setDate(weekStart.getDate() + 7);
+  return weekStart;
+}
+
+const CHIP_LABELS: Record<ChipType, string> = {
+  wildcard: 'Wildcard',
+  tripleCaptain: 'Triple Captain',
+  benchBoost: 'Bench Boost',
+};
+
+/**
+ * The gameweek a chip played now applies to. A Wildcard covers this week's transfers;
+ * scoring chips boost the next gameweek, when team changes made now take effect.
+ */
+export function getChipWeekStart(chip: ChipType, now: Date = new Date()): Date {
+  return chip === 'wildcard' ? getWeekStart(now) : getNextGameweekStart(now);
+}
+
+export function getChipStatus(chips: ChipUsage[] = [], now: Date = new Date()): ChipStatus[] {
+  const currentWeekStart = getWeekStart(now);
+
+  return (Object.keys(CHIP_ALLOWANCE) as ChipType[]).map((chip) => {
+    const played = chips.filter((c) => c.chip === chip);
+    const active = played.find((c) => new Date(c.weekStart) >= currentWeekStart);
+    return {
+      chip,
+      allowance: CHIP_ALLOWANCE[chip],
+      remaining: Math.max(0, CHIP_ALLOWANCE[chip] - played.length),
+      activeWeekStart: active ? new Date(active.weekStart) : null,
+    };
+  });
+}
+
+function isWildcardActive(chips: ChipUsage[] = [], now: Date = new Date()): boolean {
+  const currentWeekStart = getWeekStart(now).getTime();
+  return chips.some(
+    (c) => c.chip === 'wildcard' && new Date(c.weekStart).getTime() === currentWeekStart
+  );
+}
+
 export async function getTransfersThisWeek(userId: string): Promise<number> {
   const { db } = await connectToDatabase();
   const weekStart = getWeekStart(new Date());
 
   // Count pickHistory entries for this user since weekStart
-  // Exclude initial picks (reason === 'Initial pick')
+  // Exclude initial picks and lineup-only changes, which swap no golfers
   const count = await db.collection<PickHistoryDocument>(PICK_HISTORY_COLLECTION).countDocuments({
     userId: new ObjectId(userId),
     changedAt: { $gte: weekStart },
-    reason: { $ne: 'Initial pick' },
+    reason: { $nin: ['Initial pick', 'Lineup change'] },
   });
 
   return count;
 }
 
+/**
+ * Transfer allowance for a manager this week. Transfers are unlimited pre-season,
+ * before the team's first gameweek, and for the rest of a week a Wildcard is played.
+ */
+export async function getTransferStatus(
+  userId: string,
+  pick: Pick | null
+): Promise<TransferStatus> {
+  // Fetch all transfer-related settings in parallel
+  const [
+    transfersOpen,
+    activeSeason,
+    transfersUsed,
+    maxTransfers,
+    maxPlayersPerTransfer,
+    penaltyPerSwap,
+  ] = await Promise.all([
+    areTransfersOpen(),
+    getActiveSeason(),
+    getTransfersThisWeek(userId),
+    getMaxTransfersPerWeek(),
+    getMaxPlayersPerTransfer(),
+    getTransferPenaltyPoints(),
+  ]);
+
+  const now = new Date();
+  const seasonStartDate = activeSeason?.startDate ? new Date(activeSeason.startDate) : null;
+  const isPreSeason = !!seasonStartDate && now < seasonStartDate;
+  const isPreFirstGameWeek = !!pick && now < getTeamEffectiveStartDate(pick.createdAt);
+
+  return {
+    transfersOpen,
+    unlimited: isPreSeason || isPreFirstGameWeek || isWildcardActive(pick?.chips, now),
+    transfersUsed,
+    maxTransfers,
+    maxPlayersPerTransfer,
+    penaltyPerSwap,
+  };
+}
+
+// The parts of a pick needed to value its squad
+interface PricedSquad {
+  golferIds: string[];
+  benchIds: string[];
+  purchasePrices: Record<string, number>;
+  bank: number | null;
+}
+
+/**
+ * Value a squad at today's prices. Golfers without a recorded purchase price (teams saved
+ * before purchase prices were kept) count as bought at today's price, and the bank as
+ * whatever of the budget that leaves.
+ */
+export function getSquadValue(pick: PricedSquad, currentPrices: Map<string, number>): SquadValue {
+  const golfers = [...pick.golferIds, ...pick.benchIds].map((golferId) => {
+    const currentPrice = currentPrices.get(golferId) ?? pick.purchasePrices[golferId] ?? 0;
+    const purchasePrice = pick.purchasePrices[golferId] ?? currentPrice;
+    const sellingPrice = calculateSellingPrice(purchasePrice, currentPrice);
+    return {
+      golferId,
+      purchasePrice,
+      currentPrice,
+      sellingPrice,
+      profit: sellingPrice - purchasePrice,
+    };
+  });
+
+  const bank =
+    pick.bank ?? Math.max(0, BUDGET_CAP - golfers.reduce((sum, g) => sum + g.purchasePrice, 0));
+  return { bank, teamValue: golfers.reduce((sum, g) => sum + g.sellingPrice, 0), golfers };
+}
+
 export async function getUserPicks(userId: string, season?: number): Promise<Pick | null> {
   const { db } = await connectToDatabase();
   const collection = db.collection<PickDocument>(PICKS_COLLECTION);
@@ -89,37 +230,24 @@ export async function getUserPicksWithGolfers(userId: string): Promise<PickWithG
   const pick = await getUserPicks(userId);
   if (!pick) return null;
 
-  // Get golfers for this pick
+  // Get golfers for this pick, bench included
   const golfersCollection = db.collection<GolferDocument>(GOLFERS_COLLECTION);
-  const golferIds = pick.golferIds.map((id) => new ObjectId(id));
+  const golferIds = [...pick.golferIds, ...pick.benchIds].map((id) => new ObjectId(id));
   const golfers = await golfersCollection.find({ _id: { $in: golferIds } }).toArray();
 
-  const golferMap = golfers.map((g) => ({
-    id: g._id.toString(),
-    firstName: g.firstName,
-    lastName: g.lastName,
-    picture: g.picture,
-    price: g.price,
-    isActive: g.isActive,
-    stats2025: g.stats2025 || {
-      timesBonusScored: 0,
-      timesFinished1st: 0,
-      timesFinished2nd: 0,
-      timesFinished3rd: 0,
-      timesPlayed: 0,
-    },
-    stats2026: g.stats2026 || {
-      timesBonusScored: 0,
-      timesFinished1st: 0,
-      timesFinished2nd: 0,
-      timesFinished3rd: 0,
-      timesPlayed: 0,
-    },
-    createdAt: g.createdAt,
-    updatedAt: g.updatedAt,
-  }));
+  const golferMap = golfers.map(toGolfer);
+
+  const benchIds = new Set(pick.benchIds);
+  const golfersById = new Map(golferMap.map((g) => [g.id, g]));
 
-  return { ...pick, golfers: golferMap };
+  return {
+    ...pick,
+    golfers: golferMap.filter((g) => !benchIds.has(g.id)),
+    bench: pick.benchIds.flatMap((id) => golfersById.get(id) ?? []),
+    squadValue: getSquadValue(pick, new Map(golferMap.map((g) => [g.id, g.price]))),
+    chipStatus: getChipStatus(pick.chips),
+    transferStatus: await getTransferStatus(userId, pick),
+  };
 }
 
 export async function savePicks(
@@ -127,7 +255,10 @@ export async function savePicks(
   golferIds: string[],
   reason: string = 'Team selection',
   captainId?: string | null,
-  season?: number
+  season?: number,
+  chip?: ChipType,
+  benchIds?: string[],
+  viceCaptainId?: string | null
 ): Promise<Pick> {
   const { db } = await connectToDatabase();
   const picksCollection = db.collection<PickDocument>(PICKS_COLLECTION);
@@ -136,55 +267,90 @@ export async function savePicks(
 
   // Check if transfers are open (for existing teams) or new team creation is allowed (for new teams)
   const existingPick = await getUserPicks(userId);
+
+  // Without a bench in the request, keep the current bench minus anyone promoted to the team
+  const newBenchIds =
+    benchIds ?? (existingPick?.benchIds ?? []).filter((id) => !golferIds.includes(id));
+
+  // Likewise keep the current vice-captain while they're still a starter and not the captain
+  const existingViceCaptainId = existingPick?.viceCaptainId ?? null;
+  const newViceCaptainId =
+    viceCaptainId !== undefined
+      ? viceCaptainId
+      : existingViceCaptainId &&
+          golferIds.includes(existingViceCaptainId) &&
+          existingViceCaptainId !== captainId
+        ? existingViceCaptainId
+        : null;
+
+  if (chip) {
+    if (!existingPick) {
+      throw new Error('Chips can only be played once your team is saved');
+    }
+    const status = getChipStatus(existingPick.chips).find((c) => c.chip === chip)!;
+    if (status.activeWeekStart) {
+      throw new Error(`${CHIP_LABELS[chip]} is already active`);
+    }
+    if (status.remaining === 0) {
+      throw new Error(`You have no ${CHIP_LABELS[chip]} chips left this season`);
+    }
+    const newCaptainId = captainId !== undefined ? captainId : existingPick.captainId;
+    if (chip === 'tripleCaptain' && !newCaptainId) {
+      throw new Error('Pick a captain before playing Triple Captain');
+    }
+    if (chip === 'benchBoost' && newBenchIds.length === 0) {
+      throw new Error('Pick a bench before playing Bench Boost');
+    }
+  }
+
+  // Swaps beyond the weekly allowance, charged once the pick is saved
+  let penaltySwaps = 0;
+  let penaltyPoints = 0;
+  // Same squad, so only the captains or bench order can have changed
+  let isSameSquad = false;
+
   if (existingPick) {
-    // Check if this is ONLY a captain change (same golfers, different captain)
-    const oldGolferIds = new Set(existingPick.golferIds.map((id) => id.toString()));
-    const newGolferIds = new Set(golferIds);
+    // Check if this is ONLY a lineup change (same squad, different captains or bench order)
+    const oldGolferIds = new Set([...existingPick.golferIds, ...existingPick.benchIds]);
+    const newGolferIds = new Set([...golferIds, ...newBenchIds]);
     const isSameGolfers =
       oldGolferIds.size === newGolferIds.size &&
       [...oldGolferIds].every((id) => newGolferIds.has(id));
+    isSameSquad = isSameGolfers;
 
-    const isCaptainOnlyChange = isSameGolfers && captainId !== undefined;
+    const isLineupOnlyChange =
+      isSameGolfers &&
+      (captainId !== undefined || viceCaptainId !== undefined || benchIds !== undefined);
 
-    // Captain changes are always allowed, but golfer changes require transfers to be open
-    if (!isCaptainOnlyChange) {
-      // Fetch all transfer-related settings in parallel
-      const [transfersOpen, activeSeason, transfersUsed, maxTransfers, maxPlayersPerTransfer] =
-        await Promise.all([
-          areTransfersOpen(),
-          getActiveSeason(),
-          getTransfersThisWeek(userId),
-          getMaxTransfersPerWeek(),
-          getMaxPlayersPerTransfer(),
-        ]);
+    // Lineup changes are always allowed, but golfer changes (and Wildcards) require transfers to be open
+    if (!isLineupOnlyChange || chip === 'wildcard') {
+      const transferStatus = await getTransferStatus(userId, existingPick);
+      const { transfersUsed, maxTransfers, maxPlayersPerTransfer, penaltyPerSwap } = transferStatus;
 
       // User has an existing team and is changing golfers - this is a transfer
-      if (!transfersOpen) {
+      if (!transferStatus.transfersOpen) {
         throw new Error('Transfers are currently locked');
       }
 
-      // Check if we're in an unlimited transfer period:
-      // 1. Before the season starts (pre-season setup)
-      // 2. Before the team's first game week (grace period after creation)
-      const now = new Date();
-      const seasonStartDate = activeSeason?.startDate ? new Date(activeSeason.startDate) : null;
-      const teamEffectiveStart = getTeamEffectiveStartDate(existingPick.createdAt);
-      const isPreSeason = seasonStartDate && now < seasonStartDate;
-      const isPreFirstGameWeek = now < teamEffectiveStart;
-      const hasUnlimitedTransfers = isPreSeason || isPreFirstGameWeek;
-
-      if (!hasUnlimitedTransfers) {
-        // Enforce weekly transfer limit
-        if (transfersUsed >= maxTransfers) {
-          throw new Error(
-            `Transfer limit reached. You've used ${transfersUsed} of ${maxTransfers} transfer${maxTransfers === 1 ? '' : 's'} this week.`
-          );
-        }
+      // A Wildcard already in play was rejected above, so this is pre-season or a new team
+      if (chip === 'wildcard' && transferStatus.unlimited) {
+        throw new Error('You already have unlimited transfers - save your Wildcard for later');
+      }
 
+      // Playing a Wildcard lifts both limits for the rest of the week
+      if (!transferStatus.unlimited && chip !== 'wildcard') {
         // Check how many players are being changed
         const removedCount = [...oldGolferIds].filter((id) => !newGolferIds.has(id)).length;
         const addedCount = [...newGolferIds].filter((id) => !oldGolferIds.has(id)).length;
         const playersChanged = Math.max(removedCount, addedCount);
+        const isExtraTransfer = transfersUsed >= maxTransfers;
+
+        // Enforce weekly transfer limit unless extra transfers are allowed at a cost
+        if (isExtraTransfer && penaltyPerSwap <= 0) {
+          throw new Error(
+            `Transfer limit reached. You've used ${transfersUsed} of ${maxTransfers} transfer${maxTransfers === 1 ? '' : 's'} this week.`
+          );
+        }
 
         if (playersChanged > maxPlayersPerTransfer) {
           throw new Error(
@@ -192,6 +358,11 @@ export async function savePicks(
               `You're trying to change ${playersChanged}.`
           );
         }
+
+        if (isExtraTransfer && playersChanged > 0) {
+          penaltySwaps = playersChanged;
+          penaltyPoints = playersChanged * penaltyPerSwap;
+        }
       }
     }
   } else {
@@ -212,25 +383,68 @@ export async function savePicks(
     throw new Error('Duplicate golfers are not allowed');
   }
 
+  // Validate the bench
+  if (newBenchIds.length > MAX_BENCH_GOLFERS) {
+    throw new Error(`Your bench can have at most ${MAX_BENCH_GOLFERS} golfers`);
+  }
+  const squadIds = [...golferIds, ...newBenchIds];
+  if (new Set(squadIds).size !== squadIds.length) {
+    throw new Error('A golfer cannot be in both your team and your bench');
+  }
+
   // Validate captain is in selected golfers
   if (captainId && !golferIds.includes(captainId)) {
     throw new Error('Captain must be one of your selected golfers');
   }
 
-  // Get golfers and calculate total
+  // Validate vice-captain is a different starter
+  if (newViceCaptainId && !golferIds.includes(newViceCaptainId)) {
+    throw new Error('Vice-captain must be one of your selected golfers');
+  }
+  if (newViceCaptainId && newViceCaptainId === captainId) {
+    throw new Error('Your vice-captain must be a different golfer to your captain');
+  }
+
+  // Get today's prices for the new squad and any golfers being sold
   const objectIds = golferIds.map((id) => new ObjectId(id));
-  const golfers = await golfersCollection.find({ _id: { $in: objectIds } }).toArray();
+  const benchObjectIds = newBenchIds.map((id) => new ObjectId(id));
+  const soldIds = existingPick
+    ? [...existingPick.golferIds, ...existingPick.benchIds].filter((id) => !squadIds.includes(id))
+    : [];
+  const golfers = await golfersCollection
+    .find({
+      _id: { $in: [...objectIds, ...benchObjectIds, ...soldIds.map((id) => new ObjectId(id))] },
+    })
+    .toArray();
+  const currentPrices = new Map(golfers.map((g) => [g._id.toString(), g.price]));
 
-  if (golfers.length !== golferIds.length) {
+  if (squadIds.some((id) => !currentPrices.has(id))) {
     throw new Error('One or more golfers not found');
   }
 
-  const totalSpent = golfers.reduce((sum, g) => sum + g.price, 0);
+  // Kept golfers hold their purchase price. Sold golfers go back to the bank at their
+  // selling price and new ones are bought at today's price - the bench included.
+  const squadValue = existingPick ? getSquadValue(existingPick, currentPrices) : null;
+  const heldValues = new Map((squadValue?.golfers ?? []).map((g) => [g.golferId, g]));
+  let bank = squadValue?.bank ?? BUDGET_CAP;
+  for (const id of soldIds) {
+    bank += heldValues.get(id)?.sellingPrice ?? 0;
+  }
+
+  const purchasePrices: Record<string, number> = {};
+  for (const id of squadIds) {
+    const held = heldValues.get(id);
+    purchasePrices[id] = held ? held.purchasePrice : currentPrices.get(id)!;
+    if (!held) bank -= purchasePrices[id];
+  }
 
-  if (totalSpent > BUDGET_CAP) {
-    throw new Error(`Budget exceeded. Maximum is $${BUDGET_CAP / 1_000_000}M`);
+  if (bank < 0) {
+    const available = squadValue ? squadValue.bank + squadValue.teamValue : BUDGET_CAP;
+    throw new Error(`Budget exceeded. You have $${(available / 1_000_000).toFixed(1)}M to spend`);
   }
 
+  const totalSpent = Object.values(purchasePrices).reduce((sum, price) => sum + price, 0);
+
   const now = new Date();
   const userObjectId = new ObjectId(userId);
   const currentSeason = season ?? (await getCurrentSeason());
@@ -239,10 +453,13 @@ export async function savePicks(
   await historyCollection.insertOne({
     userId: userObjectId,
     golferIds: objectIds,
+    benchIds: benchObjectIds,
+    captainId: captainId ? new ObjectId(captainId) : null,
+    viceCaptainId: newViceCaptainId ? new ObjectId(newViceCaptainId) : null,
     totalSpent,
     season: currentSeason,
     changedAt: now,
-    reason: existingPick ? reason : 'Initial pick',
+    reason: !existingPick ? 'Initial pick' : isSameSquad ? 'Lineup change' : reason,
   } as PickHistoryDocument);
 
   // Upsert the current pick
@@ -251,8 +468,12 @@ export async function savePicks(
     {
       $set: {
         golferIds: objectIds,
+        benchIds: benchObjectIds,
         captainId: captainId ? new ObjectId(captainId) : null,
+        viceCaptainId: newViceCaptainId ? new ObjectId(newViceCaptainId) : null,
         totalSpent,
+        purchasePrices,
+        bank,
         updatedAt: now,
       },
       $setOnInsert: {
@@ -260,10 +481,24 @@ export async function savePicks(
         season: currentSeason,
         createdAt: now,
       },
+      ...(chip && {
+        $push: { chips: { chip, weekStart: getChipWeekStart(chip, now), playedAt: now } },
+      }),
     },
     { upsert: true }
   );
 
+  if (penaltyPoints > 0) {
+    await db.collection<TransferPenaltyDocument>(TRANSFER_PENALTIES_COLLECTION).insertOne({
+      userId: userObjectId,
+      season: currentSeason,
+      weekStart: getNextGameweekStart(now),
+      swaps: penaltySwaps,
+      points: penaltyPoints,
+      createdAt: now,
+    } as TransferPenaltyDocument);
+  }
+
   const pick = await getUserPicks(userId);
   return pick!;
 }
@@ -281,6 +516,9 @@ export async function getPickHistory(userId: string): Promise<PickHistory[]> {
     id: doc._id.toString(),
     userId: doc.userId.toString(),
     golferIds: doc.golferIds.map((id) => id.toString()),
+    benchIds: (doc.benchIds || []).map((id) => id.toString()),
+    captainId: doc.captainId?.toString() || null,
+    viceCaptainId: doc.viceCaptainId?.toString() || null,
     totalSpent: doc.totalSpent,
     season: doc.season,
     changedAt: doc.changedAt,
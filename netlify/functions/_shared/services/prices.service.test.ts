@@ -0,0 +1,301 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { getActiveSeason, getSeasonByName } from './seasons.service';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import {
+  applyWeeklyPriceChanges,
+  getGolferPriceSeries,
+  getNetTransfers,
+  recordPriceChanges,
+} from './prices.service';
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('./seasons.service', () => ({
+  getActiveSeason: vi.fn(),
+  getSeasonByName: vi.fn(),
+}));
+
+const season = {
+  id: 'season-1',
+  name: '2026',
+  startDate: new Date(2026, 3, 1),
+  endDate: new Date(2026, 9, 31),
+  isActive: true,
+  status: 'active',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+// Saturday 18 April 2026, just after the gameweek rolled over
+const now = new Date(2026, 3, 18, 1);
+const weekStart = new Date(2026, 3, 18);
+const previousWeekStart = new Date(2026, 3, 11);
+
+const userA = new ObjectId();
+const userB = new ObjectId();
+const golferA = new ObjectId();
+const golferB = new ObjectId();
+const golferC = new ObjectId();
+const tournamentId = new ObjectId();
+
+describe('prices.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getActiveSeason).mockResolvedValue(season as any);
+    vi.mocked(getSeasonByName).mockResolvedValue(season as any);
+  });
+
+  describe('recordPriceChanges', () => {
+    it('writes only the entries where the price moved', async () => {
+      const golferPriceHistory = { insertMany: vi.fn() };
+      const { mockDb } = createMockDb({ golferPriceHistory });
+      const base = { season: 2026, source: 'admin' as const, changedAt: now };
+
+      await recordPriceChanges(mockDb.db, [
+        { ...base, golferId: golferA, oldPrice: 8_000_000, newPrice: 9_000_000 },
+        { ...base, golferId: golferB, oldPrice: 8_000_000, newPrice: 8_000_000 },
+      ]);
+
+      const written = golferPriceHistory.insertMany.mock.calls[0][0];
+      expect(written).toHaveLength(1);
+      expect(written[0].golferId).toBe(golferA);
+    });
+
+    it('skips the write when nothing moved', async () => {
+      const golferPriceHistory = { insertMany: vi.fn() };
+      const { mockDb } = createMockDb({ golferPriceHistory });
+
+      await recordPriceChanges(mockDb.db, []);
+
+      expect(golferPriceHistory.insertMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getNetTransfers', () => {
+    it('counts golfers bought and sold within the window', async () => {
+      const { mockDb } = createMockDb({
+        pickHistory: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              { userId: userA, golferIds: [golferA, golferB], changedAt: new Date(2026, 3, 5) },
+              { userId: userA, golferIds: [golferA, golferC], changedAt: new Date(2026, 3, 13) },
+              {
+                userId: userB,
+                golferIds: [golferB],
+                benchIds: [golferC],
+                changedAt: new Date(2026, 3, 14),
+              },
+            ])
+          ),
+        },
+      });
+
+      const result = await getNetTransfers(mockDb.db, 2026, previousWeekStart, weekStart);
+
+      // userA swapped B for C; userB's new team bought B and C
+      expect(result.get(golferA.toString())).toBeUndefined();
+      expect(result.get(golferB.toString())).toBe(0);
+      expect(result.get(golferC.toString())).toBe(2);
+    });
+  });
+
+  describe('applyWeeklyPriceChanges', () => {
+    function setupDb(overrides: { alreadyRun?: boolean } = {}) {
+      const golfers = { find: vi.fn(), bulkWrite: vi.fn() };
+      golfers.find.mockReturnValue(
+        mockCursor([
+          { _id: golferA, price: 8_000_000, isActive: true },
+          { _id: golferB, price: 8_000_000, isActive: true },
+          { _id: golferC, price: 8_000_000, isActive: true },
+        ])
+      );
+      const golferPriceHistory = {
+        findOne: vi.fn().mockResolvedValue(overrides.alreadyRun ? { _id: new ObjectId() } : null),
+        insertMany: vi.fn(),
+      };
+
+      const { mockDb } = createMockDb({
+        golfers,
+        golferPriceHistory,
+        picks: { countDocuments: vi.fn().mockResolvedValue(2) },
+        pickHistory: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              { userId: userA, golferIds: [golferB, golferC], changedAt: new Date(2026, 3, 5) },
+              { userId: userA, golferIds: [golferA, golferC], changedAt: new Date(2026, 3, 13) },
+            ])
+          ),
+        },
+        tournaments: {
+          find: vi
+            .fn()
+            .mockReturnValue(mockCursor([{ _id: tournamentId, startDate: new Date(2026, 3, 12) }])),
+        },
+        scores: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              { golferId: golferA, tournamentId, multipliedPoints: 30 },
+              { golferId: golferB, tournamentId, multipliedPoints: 0 },
+              { golferId: golferC, tournamentId, multipliedPoints: 15 },
+            ])
+          ),
+        },
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+      return { golfers, golferPriceHistory };
+    }
+
+    it('moves prices with form and transfers and records each change', async () => {
+      const { golfers, golferPriceHistory } = setupDb();
+
+      const result = await applyWeeklyPriceChanges(now);
+
+      expect(result).toEqual({ season: 2026, weekStart, skipped: false, rises: 1, falls: 1 });
+      expect(golfers.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { _id: golferA },
+            update: { $set: { price: 8_300_000, updatedAt: now } },
+          },
+        },
+        {
+          updateOne: {
+            filter: { _id: golferB },
+            update: { $set: { price: 7_700_000, updatedAt: now } },
+          },
+        },
+      ]);
+
+      const [rise, fall] = golferPriceHistory.insertMany.mock.calls[0][0];
+      expect(rise).toMatchObject({
+        golferId: golferA,
+        oldPrice: 8_000_000,
+        newPrice: 8_300_000,
+        source: 'weekly',
+        formRatio: 2,
+        netTransfers: 1,
+        weekStart,
+        changedAt: now,
+      });
+      expect(fall).toMatchObject({ golferId: golferB, formRatio: 0, netTransfers: -1 });
+    });
+
+    it('skips a gameweek that has already been priced', async () => {
+      const { golfers } = setupDb({ alreadyRun: true });
+
+      const result = await applyWeeklyPriceChanges(now);
+
+      expect(result.skipped).toBe(true);
+      expect(golfers.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('skips outside the active season', async () => {
+      const result = await applyWeeklyPriceChanges(new Date(2026, 11, 5));
+
+      expect(result).toMatchObject({ skipped: true, reason: 'Outside the season' });
+      expect(connectToDatabase).not.toHaveBeenCalled();
+    });
+
+    it('skips without an active season', async () => {
+      vi.mocked(getActiveSeason).mockResolvedValue(null);
+
+      const result = await applyWeeklyPriceChanges(now);
+
+      expect(result).toMatchObject({ season: null, skipped: true });
+    });
+  });
+
+  describe('getGolferPriceSeries', () => {
+    const otherTournament = new ObjectId();
+
+    function setupDb(history: object[] = []) {
+      const { mockDb } = createMockDb({
+        golfers: { findOne: vi.fn().mockResolvedValue({ _id: golferA, price: 8_500_000 }) },
+        golferPriceHistory: { find: vi.fn().mockReturnValue(mockCursor(history)) },
+        tournaments: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              { _id: tournamentId, name: 'Spring Medal', startDate: new Date(2026, 3, 12) },
+              { _id: otherTournament, name: 'Club Stableford', startDate: new Date(2026, 3, 19) },
+            ])
+          ),
+        },
+        scores: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              { tournamentId, multipliedPoints: 12 },
+              { tournamentId: otherTournament, multipliedPoints: 8 },
+            ])
+          ),
+        },
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+    }
+
+    it('opens at the price before the first change and follows each move', async () => {
+      setupDb([
+        {
+          golferId: golferA,
+          season: 2026,
+          oldPrice: 8_000_000,
+          newPrice: 8_200_000,
+          source: 'weekly',
+          changedAt: new Date(2026, 3, 18),
+        },
+        {
+          golferId: golferA,
+          season: 2026,
+          oldPrice: 8_200_000,
+          newPrice: 8_500_000,
+          source: 'admin',
+          changedAt: new Date(2026, 3, 20),
+        },
+      ]);
+
+      const result = await getGolferPriceSeries(golferA.toString(), '2026');
+
+      expect(getSeasonByName).toHaveBeenCalledWith('2026');
+      expect(result.currentPrice).toBe(8_500_000);
+      expect(result.prices).toEqual([
+        { date: season.startDate, price: 8_000_000, source: null },
+        { date: new Date(2026, 3, 18), price: 8_200_000, source: 'weekly' },
+        { date: new Date(2026, 3, 20), price: 8_500_000, source: 'admin' },
+      ]);
+      expect(result.points).toEqual([
+        {
+          date: new Date(2026, 3, 12),
+          tournamentName: 'Spring Medal',
+          points: 12,
+          cumulativePoints: 12,
+        },
+        {
+          date: new Date(2026, 3, 19),
+          tournamentName: 'Club Stableford',
+          points: 8,
+          cumulativePoints: 20,
+        },
+      ]);
+    });
+
+    it('shows a flat current price when nothing has been recorded', async () => {
+      setupDb();
+
+      const result = await getGolferPriceSeries(golferA.toString());
+
+      expect(getActiveSeason).toHaveBeenCalled();
+      expect(result.prices).toEqual([{ date: season.startDate, price: 8_500_000, source: null }]);
+    });
+
+    it('throws for an unknown golfer', async () => {
+      await expect(getGolferPriceSeries('not-an-id')).rejects.toThrow('Golfer not found');
+    });
+
+    it('throws when the season does not exist', async () => {
+      vi.mocked(getSeasonByName).mockResolvedValue(null);
+
+      await expect(getGolferPriceSeries(golferA.toString(), '1999')).rejects.toThrow(
+        'Season not found'
+      );
+    });
+  });
+});
@@ -0,0 +1,329 @@
+// Prices service - golfer price history and weekly price changes driven by form and transfers
+
+import { ObjectId } from 'mongodb';
+import type { Db } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { GolferDocument, GOLFERS_COLLECTION } from '../models/Golfer';
+import {
+  GolferPriceHistoryDocument,
+  GOLFER_PRICE_HISTORY_COLLECTION,
+} from '../models/GolferPriceHistory';
+import {
+  PickDocument,
+  PICKS_COLLECTION,
+  PickHistoryDocument,
+  PICK_HISTORY_COLLECTION,
+} from '../models/Pick';
+import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
+import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
+import { getActiveSeason, getSeasonByName } from './seasons.service';
+import { getWeekStart } from '../utils/dates';
+import { FORM_WINDOW, calculateWeeklyPrice } from '../../../../shared/constants/pricing';
+import type { GolferPriceSeries, GolferPointsPoint } from '../../../../shared/types';
+
+export type PriceChangeRecord = Omit<GolferPriceHistoryDocument, '_id'>;
+
+export interface WeeklyPriceUpdateResult {
+  season: number | null;
+  weekStart: Date;
+  skipped: boolean;
+  reason?: string;
+  rises: number;
+  falls: number;
+}
+
+/**
+ * Write price changes to golferPriceHistory. Every code path that moves a golfer's
+ * price records through here; entries where the price didn't actually move are dropped.
+ */
+export async function recordPriceChanges(db: Db, changes: PriceChangeRecord[]): Promise<void> {
+  const moved = changes.filter((change) => change.newPrice !== change.oldPrice);
+  if (moved.length === 0) return;
+
+  await db
+    .collection<GolferPriceHistoryDocument>(GOLFER_PRICE_HISTORY_COLLECTION)
+    .insertMany(moved as GolferPriceHistoryDocument[]);
+}
+
+/**
+ * Transfers in less transfers out for each golfer over [from, to), comparing each
+ * pickHistory entry with the manager's previous squad (bench included). A new team
+ * counts as transfers in for every golfer picked.
+ */
+export async function getNetTransfers(
+  db: Db,
+  season: number,
+  from: Date,
+  to: Date
+): Promise<Map<string, number>> {
+  const history = await db
+    .collection<PickHistoryDocument>(PICK_HISTORY_COLLECTION)
+    .find({ season, changedAt: { $lt: to } })
+    .project<Pick<PickHistoryDocument, 'userId' | 'golferIds' | 'benchIds' | 'changedAt'>>({
+      userId: 1,
+      golferIds: 1,
+      benchIds: 1,
+      changedAt: 1,
+    })
+    .sort({ changedAt: 1 })
+    .toArray();
+
+  const squadsByUser = new Map<string, Set<string>>();
+  const netTransfers = new Map<string, number>();
+  const adjust = (golferId: string, by: number) =>
+    netTransfers.set(golferId, (netTransfers.get(golferId) ?? 0) + by);
+
+  for (const entry of history) {
+    const userId = entry.userId.toString();
+    const squad = new Set(
+      [...entry.golferIds, ...(entry.benchIds ?? [])].map((id) => id.toString())
+    );
+
+    if (new Date(entry.changedAt) >= from) {
+      const previous = squadsByUser.get(userId) ?? new Set<string>();
+      for (const id of squad) if (!previous.has(id)) adjust(id, 1);
+      for (const id of previous) if (!squad.has(id)) adjust(id, -1);
+    }
+    squadsByUser.set(userId, squad);
+  }
+
+  return netTransfers;
+}
+
+/**
+ * Each golfer's average over their last FORM_WINDOW participating scores this season,
+ * relative to the field average of those averages. Golfers without scores are left out.
+ */
+export async function getFormRatios(db: Db, season: number): Promise<Map<string, number>> {
+  const tournaments = await db
+    .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+    .find({ season, status: { $in: ['published', 'complete'] } })
+    .project<Pick<TournamentDocument, '_id' | 'startDate'>>({ _id: 1, startDate: 1 })
+    .toArray();
+  if (tournaments.length === 0) return new Map();
+
+  const tournamentDates = new Map(
+    tournaments.map((t) => [t._id.toString(), new Date(t.startDate)])
+  );
+  const scores = await db
+    .collection<ScoreDocument>(SCORES_COLLECTION)
+    .find({ tournamentId: { $in: tournaments.map((t) => t._id) }, participated: true })
+    .project<Pick<ScoreDocument, 'golferId' | 'tournamentId' | 'multipliedPoints'>>({
+      golferId: 1,
+      tournamentId: 1,
+      multipliedPoints: 1,
+    })
+    .toArray();
+
+  // Most recent first, so each golfer's form is the head of their list
+  const scoresByGolfer = new Map<string, number[]>();
+  const sorted = [...scores].sort(
+    (a, b) =>
+      tournamentDates.get(b.tournamentId.toString())!.getTime() -
+      tournamentDates.get(a.tournamentId.toString())!.getTime()
+  );
+  for (const score of sorted) {
+    const golferId = score.golferId.toString();
+    if (!scoresByGolfer.has(golferId)) scoresByGolfer.set(golferId, []);
+    scoresByGolfer.get(golferId)!.push(score.multipliedPoints || 0);
+  }
+
+  const formAverages = new Map<string, number>();
+  for (const [golferId, points] of scoresByGolfer) {
+    const recent = points.slice(0, FORM_WINDOW);
+    formAverages.set(golferId, recent.reduce((sum, p) => sum + p, 0) / recent.length);
+  }
+
+  const averages = [...formAverages.values()];
+  const fieldAverage = averages.reduce((sum, a) => sum + a, 0) / averages.length;
+  if (fieldAverage <= 0) return new Map();
+
+  return new Map([...formAverages].map(([golferId, avg]) => [golferId, avg / fieldAverage]));
+}
+
+/**
+ * Move every active golfer's price for the gameweek containing `now`, based on recent
+ * form and the previous gameweek's net transfers. Each change is recorded in
+ * golferPriceHistory. Only runs during the active season, and skips a gameweek that
+ * already has weekly changes recorded.
+ */
+export async function applyWeeklyPriceChanges(
+  now: Date = new Date()
+): Promise<WeeklyPriceUpdateResult> {
+  const weekStart = getWeekStart(now);
+  const skip = (season: number | null, reason: string): WeeklyPriceUpdateResult => ({
+    season,
+    weekStart,
+    skipped: true,
+    reason,
+    rises: 0,
+    falls: 0,
+  });
+
+  const activeSeason = await getActiveSeason();
+  if (!activeSeason) return skip(null, 'No active season');
+
+  const season = parseInt(activeSeason.name, 10) || now.getFullYear();
+  if (now < new Date(activeSeason.startDate) || now > new Date(activeSeason.endDate)) {
+    return skip(season, 'Outside the season');
+  }
+
+  const { db } = await connectToDatabase();
+  const historyCollection = db.collection<GolferPriceHistoryDocument>(
+    GOLFER_PRICE_HISTORY_COLLECTION
+  );
+
+  const alreadyRun = await historyCollection.findOne({ source: 'weekly', weekStart });
+  if (alreadyRun) return skip(season, 'Prices already updated this gameweek');
+
+  const previousWeekStart = new Date(weekStart);
+  previousWeekStart.setDate(previousWeekStart.getDate() - 7);
+
+  const [golfers, managerCount, netTransfers, formRatios] = await Promise.all([
+    db.collection<GolferDocument>(GOLFERS_COLLECTION).find({ isActive: true }).toArray(),
+    db.collection<PickDocument>(PICKS_COLLECTION).countDocuments({ season }),
+    getNetTransfers(db, season, previousWeekStart, weekStart),
+    getFormRatios(db, season),
+  ]);
+
+  const changes: PriceChangeRecord[] = [];
+  for (const golfer of golfers) {
+    const golferId = golfer._id.toString();
+    const net = netTransfers.get(golferId) ?? 0;
+    const formRatio = formRatios.get(golferId) ?? null;
+    const newPrice = calculateWeeklyPrice(
+      golfer.price,
+      formRatio,
+      managerCount > 0 ? net / managerCount : 0
+    );
+    if (newPrice === golfer.price) continue;
+
+    changes.push({
+      golferId: golfer._id,
+      season,
+      oldPrice: golfer.price,
+      newPrice,
+      source: 'weekly',
+      formRatio,
+      netTransfers: net,
+      weekStart,
+      changedAt: now,
+    });
+  }
+
+  if (changes.length === 0) {
+    return { season, weekStart, skipped: false, rises: 0, falls: 0 };
+  }
+
+  await db.collection<GolferDocument>(GOLFERS_COLLECTION).bulkWrite(
+    changes.map((change) => ({
+      updateOne: {
+        filter: { _id: change.golferId },
+        update: { $set: { price: change.newPrice, updatedAt: now } },
+      },
+    }))
+  );
+  await recordPriceChanges(db, changes);
+
+  return {
+    season,
+    weekStart,
+    skipped: false,
+    rises: changes.filter((c) => c.newPrice > c.oldPrice).length,
+    falls: changes.filter((c) => c.newPrice < c.oldPrice).length,
+  };
+}
+
+/**
+ * A golfer's price history for a season alongside their fantasy points, in date order.
+ * The series opens at the season start with the price before the first recorded change
+ * (or the current price when it hasn't moved). Defaults to the active season.
+ */
+export async function getGolferPriceSeries(
+  golferId: string,
+  seasonName?: string
+): Promise<GolferPriceSeries> {
+  const seasonDoc = seasonName ? await getSeasonByName(seasonName) : await getActiveSeason();
+  if (!seasonDoc) {
+    throw new Error('Season not found');
+  }
+  if (!ObjectId.isValid(golferId)) {
+    throw new Error('Golfer not found');
+  }
+
+  const season = parseInt(seasonDoc.name, 10) || new Date().getFullYear();
+  const golferObjectId = new ObjectId(golferId);
+  const { db } = await connectToDatabase();
+
+  const golfer = await db
+    .collection<GolferDocument>(GOLFERS_COLLECTION)
+    .findOne({ _id: golferObjectId }, { projection: { price: 1 } });
+  if (!golfer) {
+    throw new Error('Golfer not found');
+  }
+
+  const [history, tournaments] = await Promise.all([
+    db
+      .collection<GolferPriceHistoryDocument>(GOLFER_PRICE_HISTORY_COLLECTION)
+      .find({ golferId: golferObjectId, season })
+      .sort({ changedAt: 1 })
+      .toArray(),
+    db
+      .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+      .find({ season, status: { $in: ['published', 'complete'] } })
+      .project<Pick<TournamentDocument, '_id' | 'name' | 'startDate'>>({
+        _id: 1,
+        name: 1,
+        startDate: 1,
+      })
+      .sort({ startDate: 1 })
+      .toArray(),
+  ]);
+
+  const scores = await db
+    .collection<ScoreDocument>(SCORES_COLLECTION)
+    .find({
+      golferId: golferObjectId,
+      tournamentId: { $in: tournaments.map((t) => t._id) },
+      participated: true,
+    })
+    .project<Pick<ScoreDocument, 'tournamentId' | 'multipliedPoints'>>({
+      tournamentId: 1,
+      multipliedPoints: 1,
+    })
+    .toArray();
+  const pointsByTournament = new Map(
+    scores.map((s) => [s.tournamentId.toString(), s.multipliedPoints || 0])
+  );
+
+  let cumulativePoints = 0;
+  const points: GolferPointsPoint[] = [];
+  for (const tournament of tournaments) {
+    const tournamentPoints = pointsByTournament.get(tournament._id.toString());
+    if (tournamentPoints === undefined) continue;
+    cumulativePoints += tournamentPoints;
+    points.push({
+      date: tournament.startDate,
+      tournamentName: tournament.name,
+      points: tournamentPoints,
+      cumulativePoints,
+    });
+  }
+
+  return {
+    golferId,
+    season,
+    startDate: seasonDoc.startDate,
+    endDate: seasonDoc.endDate,
+    currentPrice: golfer.price,
+    prices: [
+      { date: seasonDoc.startDate, price: history[0]?.oldPrice ?? golfer.price, source: null },
+      ...history.map((entry) => ({
+        date: entry.changedAt,
+        price: entry.newPrice,
+        source: entry.source,
+      })),
+    ],
+    points,
+  };
+}
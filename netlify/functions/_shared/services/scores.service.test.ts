@@ -12,6 +12,10 @@ import {
   recalculateScoresForTournament,
 } from './scores.service';
 import { invalidateLeaderboardCache } from './leaderboard.service';
+import { refreshGolferSeasonStats } from './golfer-stats.service';
+import { emitNotificationEvent } from './notifications.service';
+import { getScoringRules } from './scoring-rules.service';
+import { DEFAULT_SCORING_RULES } from '../../../../shared/types/tournament.types';
 
 vi.mock('../db', () => ({
   connectToDatabase: vi.fn(),
@@ -21,15 +25,28 @@ vi.mock('./leaderboard.service', () => ({
   invalidateLeaderboardCache: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock('./golfer-stats.service', () => ({
+  refreshGolferSeasonStats: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('./notifications.service', () => ({
+  emitNotificationEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
 vi.mock('./seasons.service', () => ({
   getActiveSeason: vi.fn().mockResolvedValue({ id: '1', name: '2025', isActive: true }),
 }));
 
+vi.mock('./scoring-rules.service', () => ({
+  getScoringRules: vi.fn(),
+}));
+
 const mockScoresCollection = {
   find: vi.fn(),
   findOneAndUpdate: vi.fn(),
-  deleteOne: vi.fn(),
+  findOneAndDelete: vi.fn(),
   deleteMany: vi.fn(),
+  distinct: vi.fn(),
   bulkWrite: vi.fn(),
   updateOne: vi.fn(),
 };
@@ -37,6 +54,7 @@ const mockScoresCollection = {
 const mockTournamentsCollection = {
   findOne: vi.fn(),
   find: vi.fn(),
+  distinct: vi.fn(),
 };
 
 const toArrayHelper = <T>(items: T[]) => ({
@@ -45,6 +63,14 @@ const toArrayHelper = <T>(items: T[]) => ({
 
 beforeEach(() => {
   vi.clearAllMocks();
+  // No other tied golfers in the tournament unless a test says otherwise
+  mockScoresCollection.find.mockReturnValue(toArrayHelper([]));
+  vi.mocked(getScoringRules).mockResolvedValue({
+    ...DEFAULT_SCORING_RULES,
+    season: 2025,
+    isDefault: true,
+    updatedAt: null,
+  });
   vi.mocked(connectToDatabase).mockResolvedValue({
     db: {
       collection: vi.fn().mockImplementation((name: string) => {
@@ -67,7 +93,9 @@ describe('scores.service', () => {
     name: 'Test Tournament',
     scoringFormat: 'stableford',
     isMultiDay: false,
+    tournamentType: 'rollup_stableford',
     multiplier: 1,
+    season: 2025,
     ...overrides,
   });
 
@@ -110,11 +138,16 @@ describe('scores.service', () => {
         { upsert: true, returnDocument: 'after' }
       );
       expect(result.multipliedPoints).toBe(13);
+      expect(refreshGolferSeasonStats).toHaveBeenCalledWith(expect.anything(), 2025, [golferId]);
+      expect(emitNotificationEvent).toHaveBeenCalledWith({
+        type: 'scores_entered',
+        tournamentId: tournamentId.toString(),
+      });
     });
 
     it('calculates points for 2nd place weekend medal 2x with raw score 2 (over par)', async () => {
       mockTournamentsCollection.findOne.mockResolvedValue(
-        makeTournament({ scoringFormat: 'medal', multiplier: 2 })
+        makeTournament({ tournamentType: 'weekend_medal', scoringFormat: 'medal', multiplier: 2 })
       );
       const resultDoc = {
         _id: scoreId,
@@ -155,7 +188,12 @@ describe('scores.service', () => {
 
     it('calculates points for 3rd place founders 4x with stableford 40 (multi-day)', async () => {
       mockTournamentsCollection.findOne.mockResolvedValue(
-        makeTournament({ scoringFormat: 'stableford', isMultiDay: true, multiplier: 4 })
+        makeTournament({
+          tournamentType: 'founders',
+          scoringFormat: 'stableford',
+          isMultiDay: true,
+          multiplier: 4,
+        })
       );
       const resultDoc = {
         _id: scoreId,
@@ -287,7 +325,7 @@ describe('scores.service', () => {
 
     it('gives bonus 3 for medal score at par (0) single-day', async () => {
       mockTournamentsCollection.findOne.mockResolvedValue(
-        makeTournament({ scoringFormat: 'medal', multiplier: 1 })
+        makeTournament({ tournamentType: 'weekday_medal', scoringFormat: 'medal', multiplier: 1 })
       );
       mockScoresCollection.findOneAndUpdate.mockResolvedValue({
         _id: scoreId,
@@ -322,11 +360,170 @@ describe('scores.service', () => {
         expect.any(Object)
       );
     });
+    it("scores against the ruleset of the tournament's season", async () => {
+      vi.mocked(getScoringRules).mockResolvedValue({
+        ...DEFAULT_SCORING_RULES,
+        positionPoints: [12, 9, 7, 5, 3],
+        multipliers: { ...DEFAULT_SCORING_RULES.multipliers, rollup_stableford: 2 },
+        appearancePoints: 1,
+        season: 2024,
+        isDefault: false,
+        updatedAt: new Date(),
+      });
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament({ season: 2024 }));
+      mockScoresCollection.findOneAndUpdate.mockResolvedValue({
+        _id: scoreId,
+        tournamentId,
+        golferId,
+      });
+
+      await enterScore({
+        tournamentId: tournamentId.toString(),
+        golferId: golferId.toString(),
+        participated: true,
+        position: 4,
+        rawScore: 33,
+      });
+
+      // 4th = 5 + 1 appearance, 33 stableford = 1 bonus, (6+1)*2 = 14
+      expect(getScoringRules).toHaveBeenCalledWith(2024);
+      expect(mockScoresCollection.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({
+          $set: expect.objectContaining({ basePoints: 6, bonusPoints: 1, multipliedPoints: 14 }),
+        }),
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('ties', () => {
+    it('shares the points for the places covered by a tie in a bulk entry', async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
+      mockScoresCollection.bulkWrite.mockResolvedValue({ modifiedCount: 3 });
+      const [g1, g2, g3] = [new ObjectId(), new ObjectId(), new ObjectId()];
+
+      await bulkEnterScores({
+        tournamentId: tournamentId.toString(),
+        scores: [
+          { golferId: g1.toString(), participated: true, position: 1, rawScore: 30 },
+          { golferId: g2.toString(), participated: true, position: 2, rawScore: 30, tied: true },
+          { golferId: g3.toString(), participated: true, position: 2, rawScore: 30, tied: true },
+        ],
+      });
+
+      // T2 between two golfers shares 2nd and 3rd: (7 + 5) / 2 = 6
+      const sets = mockScoresCollection.bulkWrite.mock.calls[0][0].map(
+        (op: any) => op.updateOne.update.$set
+      );
+      expect(sets.map((set: any) => [set.tied, set.basePoints])).toEqual([
+        [false, 10],
+        [true, 6],
+        [true, 6],
+      ]);
+    });
+
+    it('gives every tied golfer the full points under the full policy', async () => {
+      vi.mocked(getScoringRules).mockResolvedValue({
+        ...DEFAULT_SCORING_RULES,
+        tiePolicy: 'full',
+        season: 2025,
+        isDefault: false,
+        updatedAt: null,
+      });
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
+      const [g1, g2] = [new ObjectId(), new ObjectId()];
+
+      await bulkEnterScores({
+        tournamentId: tournamentId.toString(),
+        scores: [
+          { golferId: g1.toString(), participated: true, position: 1, rawScore: 30, tied: true },
+          { golferId: g2.toString(), participated: true, position: 1, rawScore: 30, tied: true },
+        ],
+      });
+
+      const sets = mockScoresCollection.bulkWrite.mock.calls[0][0].map(
+        (op: any) => op.updateOne.update.$set
+      );
+      expect(sets.map((set: any) => set.basePoints)).toEqual([10, 10]);
+    });
+
+    it('re-scores the golfer already tied on the position when a single score joins it', async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
+      const existingId = new ObjectId();
+      mockScoresCollection.find.mockReturnValue(
+        toArrayHelper([
+          {
+            _id: existingId,
+            tournamentId,
+            golferId: new ObjectId(),
+            participated: true,
+            position: 1,
+            tied: true,
+            rawScore: 30,
+            basePoints: 10,
+            bonusPoints: 0,
+            multipliedPoints: 10,
+          },
+        ])
+      );
+      mockScoresCollection.findOneAndUpdate.mockResolvedValue({ _id: scoreId, tournamentId });
+
+      await enterScore({
+        tournamentId: tournamentId.toString(),
+        golferId: golferId.toString(),
+        participated: true,
+        position: 1,
+        rawScore: 30,
+        tied: true,
+      });
+
+      // T1 between two golfers shares 1st and 2nd: (10 + 7) / 2 = 8.5
+      expect(mockScoresCollection.findOneAndUpdate.mock.calls[0][1].$set).toMatchObject({
+        tied: true,
+        basePoints: 8.5,
+        multipliedPoints: 8.5,
+      });
+      expect(mockScoresCollection.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { _id: existingId },
+            update: { $set: expect.objectContaining({ basePoints: 8.5, multipliedPoints: 8.5 }) },
+          },
+        },
+      ]);
+    });
+
+    it('counts ties across the tournament when recalculating', async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
+      const tiedScore = (position: number) => ({
+        _id: new ObjectId(),
+        tournamentId,
+        golferId: new ObjectId(),
+        participated: true,
+        position,
+        tied: true,
+        rawScore: 30,
+      });
+      mockScoresCollection.find.mockReturnValue(
+        toArrayHelper([tiedScore(1), tiedScore(1), tiedScore(1)])
+      );
+
+      await recalculateScoresForTournament(tournamentId.toString());
+
+      // T1 between three golfers shares 1st-3rd: (10 + 7 + 5) / 3 = 7.3
+      const sets = mockScoresCollection.bulkWrite.mock.calls[0][0].map(
+        (op: any) => op.updateOne.update.$set
+      );
+      expect(sets.map((set: any) => set.basePoints)).toEqual([7.3, 7.3, 7.3]);
+    });
   });
 
   describe('bulkEnterScores', () => {
     it('processes multiple scores in a single bulkWrite', async () => {
-      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament({ multiplier: 2 }));
+      mockTournamentsCollection.findOne.mockResolvedValue(
+        makeTournament({ tournamentType: 'weekend_medal', multiplier: 2 })
+      );
       mockScoresCollection.bulkWrite.mockResolvedValue({ modifiedCount: 2 });
       const g1 = new ObjectId();
       const g2 = new ObjectId();
@@ -381,6 +578,7 @@ describe('scores.service', () => {
         ])
       );
       expect(result).toHaveLength(2);
+      expect(refreshGolferSeasonStats).toHaveBeenCalledWith(expect.anything(), 2025, [g1, g2]);
     });
 
     it('throws when tournament not found', async () => {
@@ -397,34 +595,213 @@ describe('scores.service', () => {
     });
   });
 
+  describe('team-format events', () => {
+    const [g1, g2, g3, g4, g5, g6] = Array.from({ length: 6 }, () => new ObjectId());
+
+    it("credits each member of a pairing with the pairing's points", async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament({ teamFormat: 'pairs' }));
+
+      await bulkEnterScores({
+        tournamentId: tournamentId.toString(),
+        scores: [
+          {
+            golferId: g1.toString(),
+            partnerIds: [g2.toString()],
+            participated: true,
+            position: 1,
+            rawScore: 44,
+          },
+          { golferId: g3.toString(), participated: false, position: null, rawScore: null },
+        ],
+      });
+
+      const operations = mockScoresCollection.bulkWrite.mock.calls[0][0];
+      expect(operations.map((op: any) => op.updateOne.filter.golferId)).toEqual([g1, g2, g3]);
+      const [first, second, absent] = operations.map((op: any) => op.updateOne.update.$set);
+      expect(first).toMatchObject({ position: 1, rawScore: 44, partnerIds: [g2] });
+      expect(second).toMatchObject({ position: 1, rawScore: 44, partnerIds: [g1] });
+      expect(second.multipliedPoints).toBe(first.multipliedPoints);
+      expect(absent).toMatchObject({ participated: false, partnerIds: [] });
+    });
+
+    it('counts tied pairings rather than golfers', async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(
+        makeTournament({ teamFormat: 'fourball' })
+      );
+
+      await bulkEnterScores({
+        tournamentId: tournamentId.toString(),
+        scores: [
+          {
+            golferId: g1.toString(),
+            partnerIds: [g2.toString()],
+            participated: true,
+            position: 1,
+            rawScore: 30,
+          },
+          {
+            golferId: g3.toString(),
+            partnerIds: [g4.toString()],
+            participated: true,
+            position: 2,
+            rawScore: 30,
+            tied: true,
+          },
+          {
+            golferId: g5.toString(),
+            partnerIds: [g6.toString()],
+            participated: true,
+            position: 2,
+            rawScore: 30,
+            tied: true,
+          },
+        ],
+      });
+
+      // Two pairings tied 2nd share 2nd and 3rd: (7 + 5) / 2 = 6
+      const sets = mockScoresCollection.bulkWrite.mock.calls[0][0].map(
+        (op: any) => op.updateOne.update.$set
+      );
+      expect(sets.map((set: any) => set.basePoints)).toEqual([10, 10, 6, 6, 6, 6]);
+    });
+
+    it('requires a full pairing', async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament({ teamFormat: 'pairs' }));
+
+      await expect(
+        bulkEnterScores({
+          tournamentId: tournamentId.toString(),
+          scores: [{ golferId: g1.toString(), participated: true, position: 1, rawScore: 36 }],
+        })
+      ).rejects.toThrow('Each pairing must have 2 golfers');
+      expect(mockScoresCollection.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('rejects partners in an individual event', async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
+
+      await expect(
+        bulkEnterScores({
+          tournamentId: tournamentId.toString(),
+          scores: [
+            {
+              golferId: g1.toString(),
+              partnerIds: [g2.toString()],
+              participated: true,
+              position: 1,
+              rawScore: 36,
+            },
+          ],
+        })
+      ).rejects.toThrow('Partners can only be entered for team-format tournaments');
+    });
+
+    it('refuses a single golfer score', async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament({ teamFormat: 'pairs' }));
+
+      await expect(
+        enterScore({
+          tournamentId: tournamentId.toString(),
+          golferId: g1.toString(),
+          participated: true,
+          position: 1,
+          rawScore: 36,
+        })
+      ).rejects.toThrow('entered per pairing');
+    });
+
+    it('keeps pairings counted once when recalculating', async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament({ teamFormat: 'pairs' }));
+      const member = (golfer: ObjectId, partner: ObjectId) => ({
+        _id: new ObjectId(),
+        tournamentId,
+        golferId: golfer,
+        partnerIds: [partner],
+        participated: true,
+        position: 1,
+        tied: true,
+        rawScore: 30,
+      });
+      mockScoresCollection.find.mockReturnValue(
+        toArrayHelper([member(g1, g2), member(g2, g1), member(g3, g4), member(g4, g3)])
+      );
+
+      await recalculateScoresForTournament(tournamentId.toString());
+
+      // T1 between two pairings shares 1st and 2nd: (10 + 7) / 2 = 8.5
+      const sets = mockScoresCollection.bulkWrite.mock.calls[0][0].map(
+        (op: any) => op.updateOne.update.$set
+      );
+      expect(sets.map((set: any) => set.basePoints)).toEqual([8.5, 8.5, 8.5, 8.5]);
+    });
+  });
+
   describe('deleteScore', () => {
     it('returns true when score is deleted', async () => {
-      mockScoresCollection.deleteOne.mockResolvedValue({ deletedCount: 1 });
+      mockScoresCollection.findOneAndDelete.mockResolvedValue({ _id: scoreId, tournamentId, golferId });
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
       const result = await deleteScore(scoreId.toString());
       expect(result).toBe(true);
     });
 
     it('returns false when score not found', async () => {
-      mockScoresCollection.deleteOne.mockResolvedValue({ deletedCount: 0 });
+      mockScoresCollection.findOneAndDelete.mockResolvedValue(null);
       const result = await deleteScore(scoreId.toString());
       expect(result).toBe(false);
     });
+
+    it("refreshes the golfer's stats for the tournament's season", async () => {
+      mockScoresCollection.findOneAndDelete.mockResolvedValue({ _id: scoreId, tournamentId, golferId });
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
+
+      await deleteScore(scoreId.toString());
+
+      expect(refreshGolferSeasonStats).toHaveBeenCalledWith(expect.anything(), 2025, [golferId]);
+    });
   });
 
   describe('deleteScoresForTournament', () => {
     it('returns count of deleted scores', async () => {
+      mockScoresCollection.distinct.mockResolvedValue([]);
       mockScoresCollection.deleteMany.mockResolvedValue({ deletedCount: 5 });
       const result = await deleteScoresForTournament(tournamentId.toString());
       expect(result).toBe(5);
     });
+
+    it("refreshes stats for the tournament's golfers", async () => {
+      mockScoresCollection.distinct.mockResolvedValue([golferId]);
+      mockScoresCollection.deleteMany.mockResolvedValue({ deletedCount: 1 });
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
+
+      await deleteScoresForTournament(tournamentId.toString());
+
+      expect(refreshGolferSeasonStats).toHaveBeenCalledWith(expect.anything(), 2025, [golferId]);
+    });
   });
 
   describe('deleteScoresForGolfer', () => {
     it('returns count of deleted scores', async () => {
+      mockScoresCollection.distinct.mockResolvedValue([tournamentId]);
       mockScoresCollection.deleteMany.mockResolvedValue({ deletedCount: 3 });
+      mockTournamentsCollection.distinct.mockResolvedValue([2025]);
       const result = await deleteScoresForGolfer(golferId.toString());
       expect(result).toBe(3);
     });
+
+    it("refreshes the golfer's stats for each season they had scores in", async () => {
+      const otherTournamentId = new ObjectId();
+      mockScoresCollection.distinct.mockResolvedValue([tournamentId, otherTournamentId]);
+      mockScoresCollection.deleteMany.mockResolvedValue({ deletedCount: 2 });
+      mockTournamentsCollection.distinct.mockResolvedValue([2024, 2025]);
+
+      await deleteScoresForGolfer(golferId.toString());
+
+      expect(mockTournamentsCollection.distinct).toHaveBeenCalledWith('season', {
+        _id: { $in: [tournamentId, otherTournamentId] },
+      });
+      expect(refreshGolferSeasonStats).toHaveBeenCalledWith(expect.anything(), 2024, [golferId]);
+      expect(refreshGolferSeasonStats).toHaveBeenCalledWith(expect.anything(), 2025, [golferId]);
+    });
   });
 
   describe('getScoresForTournament', () => {
@@ -487,7 +864,9 @@ describe('scores.service', () => {
 
   describe('recalculateScoresForTournament', () => {
     it('recalculates all scores for a tournament', async () => {
-      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament({ multiplier: 3 }));
+      mockTournamentsCollection.findOne.mockResolvedValue(
+        makeTournament({ tournamentType: 'presidents_cup', multiplier: 3 })
+      );
       mockScoresCollection.find.mockReturnValue(
         toArrayHelper([
           {
@@ -534,6 +913,32 @@ describe('scores.service', () => {
       const count = await recalculateScoresForTournament(tournamentId.toString());
       expect(count).toBe(0);
     });
+
+    it("refreshes stats for the tournament's golfers", async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
+      mockScoresCollection.find.mockReturnValue(
+        toArrayHelper([
+          {
+            _id: scoreId,
+            tournamentId,
+            golferId,
+            participated: true,
+            position: 2,
+            rawScore: 34,
+            basePoints: 5,
+            bonusPoints: 0,
+            multipliedPoints: 5,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+        ])
+      );
+      mockScoresCollection.bulkWrite.mockResolvedValue({ modifiedCount: 1 });
+
+      await recalculateScoresForTournament(tournamentId.toString());
+
+      expect(refreshGolferSeasonStats).toHaveBeenCalledWith(expect.anything(), 2025, [golferId]);
+    });
   });
 
   describe('leaderboard cache invalidation', () => {
@@ -565,7 +970,9 @@ describe('scores.service', () => {
     });
 
     it('invalidates leaderboard cache after bulkEnterScores', async () => {
-      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament({ multiplier: 2 }));
+      mockTournamentsCollection.findOne.mockResolvedValue(
+        makeTournament({ tournamentType: 'weekend_medal', multiplier: 2 })
+      );
       mockScoresCollection.bulkWrite.mockResolvedValue({ modifiedCount: 1 });
       const g1 = new ObjectId();
       mockScoresCollection.find.mockReturnValue(
@@ -595,7 +1002,8 @@ describe('scores.service', () => {
     });
 
     it('invalidates leaderboard cache after deleteScore', async () => {
-      mockScoresCollection.deleteOne.mockResolvedValue({ deletedCount: 1 });
+      mockScoresCollection.findOneAndDelete.mockResolvedValue({ _id: scoreId, tournamentId, golferId });
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
 
       await deleteScore(scoreId.toString());
 
@@ -603,7 +1011,7 @@ describe('scores.service', () => {
     });
 
     it('does not invalidate leaderboard cache when deleteScore finds nothing', async () => {
-      mockScoresCollection.deleteOne.mockResolvedValue({ deletedCount: 0 });
+      mockScoresCollection.findOneAndDelete.mockResolvedValue(null);
 
       await deleteScore(scoreId.toString());
 
@@ -611,7 +1019,9 @@ describe('scores.service', () => {
     });
 
     it('invalidates leaderboard cache after deleteScoresForTournament', async () => {
+      mockScoresCollection.distinct.mockResolvedValue([]);
       mockScoresCollection.deleteMany.mockResolvedValue({ deletedCount: 5 });
+      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament());
 
       await deleteScoresForTournament(tournamentId.toString());
 
@@ -619,7 +1029,9 @@ describe('scores.service', () => {
     });
 
     it('invalidates leaderboard cache after recalculateScoresForTournament', async () => {
-      mockTournamentsCollection.findOne.mockResolvedValue(makeTournament({ multiplier: 3 }));
+      mockTournamentsCollection.findOne.mockResolvedValue(
+        makeTournament({ tournamentType: 'presidents_cup', multiplier: 3 })
+      );
       mockScoresCollection.find.mockReturnValue(
         toArrayHelper([
           {
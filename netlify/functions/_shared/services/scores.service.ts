@@ -1,16 +1,26 @@
 // Scores service - enter and retrieve scores
 
 import { ObjectId } from 'mongodb';
+import type { AnyBulkWriteOperation, Collection } from 'mongodb';
 import { connectToDatabase } from '../db';
 import { ScoreDocument, toScore, SCORES_COLLECTION } from '../models/Score';
 import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
-import type { Score, EnterScoreRequest, BulkEnterScoresRequest } from '../../../../shared/types';
+import type {
+  Score,
+  EnterScoreRequest,
+  BulkEnterScoresRequest,
+  ScoringRules,
+} from '../../../../shared/types';
 import {
-  getBasePointsForPosition,
-  getBonusPoints,
+  calculateScorePoints,
+  countTiedPositions,
+  PAIRING_SIZE,
 } from '../../../../shared/types/tournament.types';
 import { invalidateLeaderboardCache } from './leaderboard.service';
+import { refreshGolferSeasonStats } from './golfer-stats.service';
+import { emitNotificationEvent } from './notifications.service';
 import { getActiveSeason } from './seasons.service';
+import { getScoringRules } from './scoring-rules.service';
 
 async function invalidateLeaderboard(): Promise<void> {
   const activeSeason = await getActiveSeason();
@@ -20,6 +30,84 @@ async function invalidateLeaderboard(): Promise<void> {
   }
 }
 
+// Only a placed participant can be tied
+function isTied(entry: { participated: boolean; position?: number | null; tied?: boolean }) {
+  return entry.participated && (entry.position ?? null) !== null && (entry.tied ?? false);
+}
+
+type BulkScoreEntry = BulkEnterScoresRequest['scores'][number];
+
+/**
+ * A team-format event takes one entry per pairing and an individual event one per golfer.
+ * Pairings are expanded into a score for each member, sharing the pairing's result.
+ */
+function expandPairings(
+  tournament: TournamentDocument,
+  scores: BulkScoreEntry[]
+): Array<BulkScoreEntry & { partnerIds: string[] }> {
+  return scores.flatMap((entry) => {
+    const partnerIds = entry.participated ? (entry.partnerIds ?? []) : [];
+    if (!tournament.teamFormat) {
+      if (partnerIds.length > 0) {
+        throw new Error('Partners can only be entered for team-format tournaments');
+      }
+      return [{ ...entry, partnerIds }];
+    }
+
+    if (entry.participated && partnerIds.length !== PAIRING_SIZE - 1) {
+      throw new Error(`Each pairing must have ${PAIRING_SIZE} golfers`);
+    }
+    const members = [entry.golferId, ...partnerIds];
+    return members.map((golferId) => ({
+      ...entry,
+      golferId,
+      partnerIds: members.filter((id) => id !== golferId),
+    }));
+  });
+}
+
+/**
+ * Tied golfers' points depend on how many share the position, so entering results also
+ * re-scores the tournament's other tied golfers. Returns the tie counts to score the
+ * entered results with, and the updates for the other tied golfers.
+ */
+async function rescoreOtherTiedScores(
+  collection: Collection<ScoreDocument>,
+  tournament: TournamentDocument,
+  rules: ScoringRules,
+  entered: Array<{
+    participated: boolean;
+    position?: number | null;
+    tied?: boolean;
+    partnerIds?: string[];
+  }>,
+  enteredGolferIds: ObjectId[],
+  now: Date
+): Promise<{
+  tiedCounts: Map<number, number>;
+  operations: AnyBulkWriteOperation<ScoreDocument>[];
+}> {
+  const otherTied = (
+    await collection
+      .find({ tournamentId: tournament._id, tied: true, golferId: { $nin: enteredGolferIds } })
+      .toArray()
+  ).filter((score) => score.tied);
+
+  const tiedCounts = countTiedPositions([
+    ...otherTied,
+    ...entered.map((e) => ({ ...e, position: e.position ?? null })),
+  ]);
+  const operations = otherTied.map((score) => ({
+    updateOne: {
+      filter: { _id: score._id },
+      update: {
+        $set: { ...calculateScorePoints(score, tournament, rules, tiedCounts), updatedAt: now },
+      },
+    },
+  }));
+  return { tiedCounts, operations };
+}
+
 export async function getScoresForTournament(tournamentId: string): Promise<Score[]> {
   const { db } = await connectToDatabase();
   const collection = db.collection<ScoreDocument>(SCORES_COLLECTION);
@@ -49,22 +137,28 @@ export async function enterScore(data: EnterScoreRequest): Promise<Score> {
   if (!tournament) {
     throw new Error('Tournament not found');
   }
-
-  const scoringFormat = tournament.scoringFormat || 'stableford';
-  const isMultiDay = tournament.isMultiDay ?? false;
-
-  // Calculate points - only if participated
-  let basePoints = 0;
-  let bonusPoints = 0;
-  let multipliedPoints = 0;
-
-  if (data.participated) {
-    basePoints = getBasePointsForPosition(data.position);
-    bonusPoints = getBonusPoints(data.rawScore, scoringFormat, isMultiDay);
-    multipliedPoints = (basePoints + bonusPoints) * tournament.multiplier;
+  if (tournament.teamFormat) {
+    throw new Error('Team-format results must be entered per pairing');
   }
 
+  // Score against the ruleset of the tournament's season
+  const rules = await getScoringRules(tournament.season);
+  const tied = isTied(data);
   const now = new Date();
+  const { tiedCounts, operations } = await rescoreOtherTiedScores(
+    scoresCollection,
+    tournament,
+    rules,
+    [{ ...data, tied }],
+    [golferObjectId],
+    now
+  );
+  const { basePoints, bonusPoints, multipliedPoints } = calculateScorePoints(
+    { ...data, tied },
+    tournament,
+    rules,
+    tiedCounts
+  );
 
   // Upsert score for golfer/tournament combination
   const result = await scoresCollection.findOneAndUpdate(
@@ -73,6 +167,7 @@ export async function enterScore(data: EnterScoreRequest): Promise<Score> {
       $set: {
         participated: data.participated,
         position: data.participated ? data.position : null,
+        tied,
         rawScore: data.participated ? data.rawScore : null,
         basePoints,
         bonusPoints,
@@ -88,8 +183,12 @@ export async function enterScore(data: EnterScoreRequest): Promise<Score> {
     { upsert: true, returnDocument: 'after' }
   );
 
+  if (operations.length > 0) await scoresCollection.bulkWrite(operations);
+  await refreshGolferSeasonStats(db, tournament.season, [golferObjectId]);
+
   const score = toScore(result!);
   await invalidateLeaderboard();
+  await emitNotificationEvent({ type: 'scores_entered', tournamentId: data.tournamentId });
   return score;
 }
 
@@ -105,24 +204,31 @@ export async function bulkEnterScores(data: BulkEnterScoresRequest): Promise<Sco
     throw new Error('Tournament not found');
   }
 
-  const scoringFormat = tournament.scoringFormat || 'stableford';
-  const isMultiDay = tournament.isMultiDay ?? false;
+  const entered = expandPairings(tournament, data.scores).map((scoreData) => ({
+    ...scoreData,
+    tied: isTied(scoreData),
+  }));
+  const rules = await getScoringRules(tournament.season);
   const now = new Date();
+  const golferIds = entered.map((s) => new ObjectId(s.golferId));
+  const { tiedCounts, operations: tiedOperations } = await rescoreOtherTiedScores(
+    scoresCollection,
+    tournament,
+    rules,
+    entered,
+    golferIds,
+    now
+  );
 
   // Build bulk operations for MongoDB bulkWrite
-  const operations = data.scores.map((scoreData) => {
+  const operations: AnyBulkWriteOperation<ScoreDocument>[] = entered.map((scoreData) => {
     const golferObjectId = new ObjectId(scoreData.golferId);
-
-    // Calculate points - only if participated
-    let basePoints = 0;
-    let bonusPoints = 0;
-    let multipliedPoints = 0;
-
-    if (scoreData.participated) {
-      basePoints = getBasePointsForPosition(scoreData.position);
-      bonusPoints = getBonusPoints(scoreData.rawScore, scoringFormat, isMultiDay);
-      multipliedPoints = (basePoints + bonusPoints) * tournament.multiplier;
-    }
+    const { basePoints, bonusPoints, multipliedPoints } = calculateScorePoints(
+      scoreData,
+      tournament,
+      rules,
+      tiedCounts
+    );
 
     return {
       updateOne: {
@@ -131,6 +237,8 @@ export async function bulkEnterScores(data: BulkEnterScoresRequest): Promise<Sco
           $set: {
             participated: scoreData.participated,
             position: scoreData.participated ? scoreData.position : null,
+            tied: scoreData.tied,
+            partnerIds: scoreData.partnerIds.map((id) => new ObjectId(id)),
             rawScore: scoreData.participated ? scoreData.rawScore : null,
             basePoints,
             bonusPoints,
@@ -149,16 +257,17 @@ export async function bulkEnterScores(data: BulkEnterScoresRequest): Promise<Sco
   });
 
   // Execute all upserts in a single bulk operation (50 scores = 1 DB call instead of 150+)
-  await scoresCollection.bulkWrite(operations);
+  await scoresCollection.bulkWrite([...operations, ...tiedOperations]);
+  await refreshGolferSeasonStats(db, tournament.season, golferIds);
 
   // Fetch the updated scores to return
-  const golferIds = data.scores.map((s) => new ObjectId(s.golferId));
   const updatedScores = await scoresCollection
     .find({ tournamentId: tournamentObjectId, golferId: { $in: golferIds } })
     .toArray();
 
   const scores = updatedScores.map(toScore);
   await invalidateLeaderboard();
+  await emitNotificationEvent({ type: 'scores_entered', tournamentId: data.tournamentId });
   return scores;
 }
 
@@ -195,18 +304,31 @@ export async function deleteScore(scoreId: string): Promise<boolean> {
   const { db } = await connectToDatabase();
   const collection = db.collection<ScoreDocument>(SCORES_COLLECTION);
 
-  const result = await collection.deleteOne({ _id: new ObjectId(scoreId) });
-  const deleted = result.deletedCount === 1;
-  if (deleted) await invalidateLeaderboard();
-  return deleted;
+  const deleted = await collection.findOneAndDelete({ _id: new ObjectId(scoreId) });
+  if (!deleted) return false;
+
+  const tournament = await db
+    .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+    .findOne({ _id: deleted.tournamentId });
+  if (tournament) await refreshGolferSeasonStats(db, tournament.season, [deleted.golferId]);
+  await invalidateLeaderboard();
+  return true;
 }
 
 export async function deleteScoresForTournament(tournamentId: string): Promise<number> {
   const { db } = await connectToDatabase();
   const collection = db.collection<ScoreDocument>(SCORES_COLLECTION);
 
-  const result = await collection.deleteMany({ tournamentId: new ObjectId(tournamentId) });
-  if (result.deletedCount > 0) await invalidateLeaderboard();
+  const tournamentObjectId = new ObjectId(tournamentId);
+  const golferIds = await collection.distinct('golferId', { tournamentId: tournamentObjectId });
+  const result = await collection.deleteMany({ tournamentId: tournamentObjectId });
+  if (result.deletedCount > 0) {
+    const tournament = await db
+      .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+      .findOne({ _id: tournamentObjectId });
+    if (tournament) await refreshGolferSeasonStats(db, tournament.season, golferIds);
+    await invalidateLeaderboard();
+  }
   return result.deletedCount;
 }
 
@@ -214,8 +336,18 @@ export async function deleteScoresForGolfer(golferId: string): Promise<number> {
   const { db } = await connectToDatabase();
   const collection = db.collection<ScoreDocument>(SCORES_COLLECTION);
 
-  const result = await collection.deleteMany({ golferId: new ObjectId(golferId) });
-  if (result.deletedCount > 0) await invalidateLeaderboard();
+  const golferObjectId = new ObjectId(golferId);
+  const tournamentIds = await collection.distinct('tournamentId', { golferId: golferObjectId });
+  const result = await collection.deleteMany({ golferId: golferObjectId });
+  if (result.deletedCount > 0) {
+    const seasons = await db
+      .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+      .distinct('season', { _id: { $in: tournamentIds } });
+    for (const season of seasons) {
+      await refreshGolferSeasonStats(db, season, [golferObjectId]);
+    }
+    await invalidateLeaderboard();
+  }
   return result.deletedCount;
 }
 
@@ -232,9 +364,6 @@ export async function recalculateScoresForTournament(tournamentId: string): Prom
     throw new Error('Tournament not found');
   }
 
-  const scoringFormat = tournament.scoringFormat || 'stableford';
-  const isMultiDay = tournament.isMultiDay ?? false;
-
   // Get all scores for this tournament
   const scores = await scoresCollection.find({ tournamentId: tournamentObjectId }).toArray();
 
@@ -242,18 +371,17 @@ export async function recalculateScoresForTournament(tournamentId: string): Prom
     return 0;
   }
 
-  // Build bulk operations to recalculate each score
+  // Build bulk operations to recalculate each score against the season's current ruleset
+  const rules = await getScoringRules(tournament.season);
+  const tiedCounts = countTiedPositions(scores);
   const now = new Date();
   const operations = scores.map((score) => {
-    let basePoints = 0;
-    let bonusPoints = 0;
-    let multipliedPoints = 0;
-
-    if (score.participated) {
-      basePoints = getBasePointsForPosition(score.position);
-      bonusPoints = getBonusPoints(score.rawScore, scoringFormat, isMultiDay);
-      multipliedPoints = (basePoints + bonusPoints) * tournament.multiplier;
-    }
+    const { basePoints, bonusPoints, multipliedPoints } = calculateScorePoints(
+      score,
+      tournament,
+      rules,
+      tiedCounts
+    );
 
     return {
       updateOne: {
@@ -272,6 +400,11 @@ export async function recalculateScoresForTournament(tournamentId: string): Prom
 
   await scoresCollection.bulkWrite(operations);
 
+  await refreshGolferSeasonStats(
+    db,
+    tournament.season,
+    scores.map((score) => score.golferId)
+  );
   await invalidateLeaderboard();
   return scores.length;
 }
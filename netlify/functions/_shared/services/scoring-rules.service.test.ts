@@ -0,0 +1,280 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { getFullLeaderboard } from './leaderboard.service';
+import { getTournamentTypes } from './tournament-types.service';
+import { getScoringRules, saveScoringRules, simulateScoringRules } from './scoring-rules.service';
+import { DEFAULT_SCORING_RULES } from '../../../../shared/types/tournament.types';
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('./seasons.service', () => ({
+  getActiveSeason: vi.fn().mockResolvedValue({ id: '1', name: '2026', isActive: true }),
+}));
+vi.mock('./leaderboard.service', () => ({ getFullLeaderboard: vi.fn() }));
+vi.mock('./tournament-types.service', () => ({ getTournamentTypes: vi.fn() }));
+
+function tournamentType(key: string, multiplier: number) {
+  return {
+    id: key,
+    key,
+    label: key,
+    multiplier,
+    defaultScoringFormat: 'stableford' as const,
+    forcedScoringFormat: null,
+    defaultMultiDay: false,
+    isBuiltIn: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('scoring-rules.service', () => {
+  const adminId = new ObjectId();
+  const now = new Date();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getTournamentTypes).mockResolvedValue([]);
+  });
+
+  describe('getScoringRules', () => {
+    it('falls back to the default rules for a season without a ruleset', async () => {
+      const scoringRules = { findOne: vi.fn().mockResolvedValue(null) };
+      const { mockDb } = createMockDb({ scoringRules });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+
+      const result = await getScoringRules();
+
+      expect(scoringRules.findOne).toHaveBeenCalledWith({ season: 2026 });
+      expect(result).toEqual({
+        ...DEFAULT_SCORING_RULES,
+        season: 2026,
+        isDefault: true,
+        updatedAt: null,
+      });
+    });
+
+    it("returns the season's saved ruleset", async () => {
+      const { mockDb } = createMockDb({
+        scoringRules: {
+          findOne: vi.fn().mockResolvedValue({
+            _id: new ObjectId(),
+            season: 2025,
+            ...DEFAULT_SCORING_RULES,
+            positionPoints: [15, 10, 5],
+            updatedBy: adminId,
+            createdAt: now,
+            updatedAt: now,
+          }),
+        },
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+
+      const result = await getScoringRules(2025);
+
+      expect(result).toMatchObject({ season: 2025, positionPoints: [15, 10, 5], isDefault: false });
+    });
+
+    it("fills in each tournament type's own multiplier where the ruleset has none", async () => {
+      vi.mocked(getTournamentTypes).mockResolvedValue([
+        tournamentType('founders', 6),
+        tournamentType('winter_foursomes', 1.5),
+      ]);
+      const { mockDb } = createMockDb({
+        scoringRules: {
+          findOne: vi
+            .fn()
+            .mockResolvedValueOnce(null)
+            .mockResolvedValueOnce({
+              _id: new ObjectId(),
+              season: 2025,
+              ...DEFAULT_SCORING_RULES,
+              updatedBy: adminId,
+              createdAt: now,
+              updatedAt: now,
+            }),
+        },
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+
+      const unsaved = await getScoringRules(2026);
+      expect(unsaved.multipliers).toMatchObject({ founders: 6, winter_foursomes: 1.5 });
+
+      // A saved ruleset keeps its own multipliers for the types it covers
+      const saved = await getScoringRules(2025);
+      expect(saved.multipliers).toMatchObject({ founders: 4, winter_foursomes: 1.5 });
+    });
+  });
+
+  describe('saveScoringRules', () => {
+    it('upserts the ruleset and syncs tournament multipliers for the season', async () => {
+      const rules = {
+        ...DEFAULT_SCORING_RULES,
+        multipliers: { ...DEFAULT_SCORING_RULES.multipliers, founders: 6 },
+      };
+      const scoringRules = {
+        findOneAndUpdate: vi.fn().mockResolvedValue({
+          _id: new ObjectId(),
+          season: 2026,
+          ...rules,
+          updatedBy: adminId,
+          createdAt: now,
+          updatedAt: now,
+        }),
+      };
+      const tournaments = { bulkWrite: vi.fn() };
+      const { mockDb } = createMockDb({ scoringRules, tournaments });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+
+      const result = await saveScoringRules(rules, adminId.toString(), 2026);
+
+      expect(result.multipliers.founders).toBe(6);
+      expect(scoringRules.findOneAndUpdate).toHaveBeenCalledWith(
+        { season: 2026 },
+        expect.objectContaining({
+          $set: expect.objectContaining({
+            multipliers: rules.multipliers,
+            tiePolicy: rules.tiePolicy,
+            updatedBy: adminId,
+          }),
+        }),
+        { upsert: true, returnDocument: 'after' }
+      );
+      const operations = tournaments.bulkWrite.mock.calls[0][0];
+      expect(operations).toContainEqual({
+        updateMany: {
+          filter: { season: 2026, tournamentType: 'founders' },
+          update: { $set: { multiplier: 6 } },
+        },
+      });
+    });
+  });
+
+  describe('simulateScoringRules', () => {
+    const tournamentId = new ObjectId();
+    const entry = (userId: string, username: string, rank: number, points: number) => ({
+      rank,
+      userId,
+      username,
+      firstName: username,
+      lastName: '',
+      points,
+      teamValue: 0,
+      tournamentsPlayed: 1,
+    });
+    const leaderboard = (season: ReturnType<typeof entry>[]) => ({
+      season,
+      month: [],
+      week: [],
+      currentMonth: 'May 2026',
+      weekStart: '',
+      weekEnd: '',
+    });
+
+    it('diffs the simulated standings against the live ones without writing', async () => {
+      const scores = {
+        find: vi.fn().mockReturnValue(
+          mockCursor([
+            { tournamentId, participated: true, position: 1, rawScore: 30, multipliedPoints: 10 },
+            { tournamentId, participated: true, position: 4, rawScore: 30, multipliedPoints: 0 },
+            {
+              tournamentId,
+              participated: false,
+              position: null,
+              rawScore: null,
+              multipliedPoints: 0,
+            },
+          ])
+        ),
+        bulkWrite: vi.fn(),
+        updateOne: vi.fn(),
+      };
+      const { mockDb } = createMockDb({
+        tournaments: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              {
+                _id: tournamentId,
+                tournamentType: 'rollup_stableford',
+                scoringFormat: 'stableford',
+                isMultiDay: false,
+              },
+            ])
+          ),
+        },
+        scores,
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+      vi.mocked(getFullLeaderboard)
+        .mockResolvedValueOnce(leaderboard([entry('a', 'alice', 1, 30), entry('b', 'bob', 2, 20)]))
+        .mockResolvedValueOnce(leaderboard([entry('b', 'bob', 1, 28), entry('a', 'alice', 2, 31)]));
+      const rules = { ...DEFAULT_SCORING_RULES, positionPoints: [10, 7, 5, 3] };
+
+      const result = await simulateScoringRules(rules, 2026);
+
+      expect(getFullLeaderboard).toHaveBeenCalledWith(2026);
+      expect(getFullLeaderboard).toHaveBeenCalledWith(2026, { scoringRules: rules });
+      expect(result.scoresRescored).toBe(3);
+      expect(result.scoresChanged).toBe(1);
+      expect(result.standings).toEqual([
+        expect.objectContaining({
+          userId: 'b',
+          liveRank: 2,
+          simulatedRank: 1,
+          rankChange: 1,
+          pointsChange: 8,
+        }),
+        expect.objectContaining({
+          userId: 'a',
+          liveRank: 1,
+          simulatedRank: 2,
+          rankChange: -1,
+          pointsChange: 1,
+        }),
+      ]);
+      expect(scores.bulkWrite).not.toHaveBeenCalled();
+      expect(scores.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('counts a tied pairing once when splitting the points', async () => {
+      const [a1, a2, b1, b2] = [new ObjectId(), new ObjectId(), new ObjectId(), new ObjectId()];
+      // Two pairings share first place, so they split 1st and 2nd: (10 + 7) / 2 each
+      const tiedScore = (partnerId: ObjectId) => ({
+        tournamentId,
+        participated: true,
+        position: 1,
+        tied: true,
+        partnerIds: [partnerId],
+        rawScore: null,
+        multipliedPoints: 8.5,
+      });
+      const scoreCursor = mockCursor([tiedScore(a2), tiedScore(a1), tiedScore(b2), tiedScore(b1)]);
+      const scores = { find: vi.fn().mockReturnValue(scoreCursor) };
+      const { mockDb } = createMockDb({
+        tournaments: {
+          find: vi.fn().mockReturnValue(
+            mockCursor([
+              {
+                _id: tournamentId,
+                tournamentType: 'rollup_stableford',
+                scoringFormat: 'stableford',
+                isMultiDay: false,
+              },
+            ])
+          ),
+        },
+        scores,
+      });
+      vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+      vi.mocked(getFullLeaderboard).mockResolvedValue(leaderboard([]));
+
+      const result = await simulateScoringRules(
+        { ...DEFAULT_SCORING_RULES, positionPoints: [10, 7, 5, 3] },
+        2026
+      );
+
+      expect(scoreCursor.project).toHaveBeenCalledWith(expect.objectContaining({ partnerIds: 1 }));
+      expect(result.scoresChanged).toBe(0);
+    });
+  });
+});
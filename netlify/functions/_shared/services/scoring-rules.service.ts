@@ -0,0 +1,198 @@
+// Scoring rules service - per-season rulesets and what-if simulation against the live standings
+
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import {
+  ScoringRulesDocument,
+  toSeasonScoringRules,
+  SCORING_RULES_COLLECTION,
+} from '../models/ScoringRules';
+import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
+import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
+import type {
+  ScoringRules,
+  ScoringSimulationResult,
+  SeasonScoringRules,
+} from '../../../../shared/types';
+import {
+  calculateScorePoints,
+  countTiedPositionsByTournament,
+  DEFAULT_SCORING_RULES,
+} from '../../../../shared/types/tournament.types';
+import { getActiveSeason } from './seasons.service';
+import { getFullLeaderboard } from './leaderboard.service';
+import { getTournamentTypes } from './tournament-types.service';
+
+async function getCurrentSeason(): Promise<number> {
+  const activeSeason = await getActiveSeason();
+  if (activeSeason) {
+    const parsed = parseInt(activeSeason.name, 10);
+    if (!isNaN(parsed)) return parsed;
+  }
+  return new Date().getFullYear();
+}
+
+/**
+ * The ruleset for a season (defaults to the active season). Seasons that have never
+ * been configured score with DEFAULT_SCORING_RULES. Every tournament type has a
+ * multiplier: types the ruleset doesn't set take the type's own multiplier.
+ */
+export async function getScoringRules(season?: number): Promise<SeasonScoringRules> {
+  const targetSeason = season ?? (await getCurrentSeason());
+  const { db } = await connectToDatabase();
+  const collection = db.collection<ScoringRulesDocument>(SCORING_RULES_COLLECTION);
+
+  const [doc, types] = await Promise.all([
+    collection.findOne({ season: targetSeason }),
+    getTournamentTypes(),
+  ]);
+  const typeMultipliers = Object.fromEntries(types.map((type) => [type.key, type.multiplier]));
+
+  if (doc) {
+    const rules = toSeasonScoringRules(doc);
+    return { ...rules, multipliers: { ...typeMultipliers, ...doc.multipliers } };
+  }
+
+  return {
+    ...DEFAULT_SCORING_RULES,
+    multipliers: { ...DEFAULT_SCORING_RULES.multipliers, ...typeMultipliers },
+    season: targetSeason,
+    isDefault: true,
+    updatedAt: null,
+  };
+}
+
+/**
+ * Save a season's ruleset and bring the stored multiplier of that season's tournaments
+ * in line with it. Existing scores are not rescored; recalculate each tournament to
+ * apply the new rules.
+ */
+export async function saveScoringRules(
+  rules: ScoringRules,
+  updatedBy: string,
+  season?: number
+): Promise<SeasonScoringRules> {
+  const targetSeason = season ?? (await getCurrentSeason());
+  const { db } = await connectToDatabase();
+  const collection = db.collection<ScoringRulesDocument>(SCORING_RULES_COLLECTION);
+  const now = new Date();
+
+  const result = await collection.findOneAndUpdate(
+    { season: targetSeason },
+    {
+      $set: {
+        positionPoints: rules.positionPoints,
+        bonusBands: rules.bonusBands,
+        multipliers: rules.multipliers,
+        appearancePoints: rules.appearancePoints,
+        tiePolicy: rules.tiePolicy,
+        updatedBy: new ObjectId(updatedBy),
+        updatedAt: now,
+      },
+      $setOnInsert: { season: targetSeason, createdAt: now },
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+
+  await db.collection<TournamentDocument>(TOURNAMENTS_COLLECTION).bulkWrite(
+    Object.entries(rules.multipliers).map(([tournamentType, multiplier]) => ({
+      updateMany: {
+        filter: { season: targetSeason, tournamentType },
+        update: { $set: { multiplier } },
+      },
+    }))
+  );
+
+  return toSeasonScoringRules(result!);
+}
+
+/**
+ * Re-score every score in a season against a candidate ruleset in memory and compare
+ * the resulting season standings with the live ones. Nothing is written.
+ */
+export async function simulateScoringRules(
+  rules: ScoringRules,
+  season?: number
+): Promise<ScoringSimulationResult> {
+  const targetSeason = season ?? (await getCurrentSeason());
+  const { db } = await connectToDatabase();
+
+  const tournaments = await db
+    .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+    .find({ season: targetSeason })
+    .project<
+      Pick<TournamentDocument, '_id' | 'tournamentType' | 'scoringFormat' | 'isMultiDay'>
+    >({ _id: 1, tournamentType: 1, scoringFormat: 1, isMultiDay: 1 })
+    .toArray();
+  const tournamentMap = new Map(tournaments.map((t) => [t._id.toString(), t]));
+
+  const scores = await db
+    .collection<ScoreDocument>(SCORES_COLLECTION)
+    .find({ tournamentId: { $in: tournaments.map((t) => t._id) } })
+    .project<
+      Pick<
+        ScoreDocument,
+        | 'tournamentId'
+        | 'participated'
+        | 'position'
+        | 'tied'
+        | 'partnerIds'
+        | 'rawScore'
+        | 'multipliedPoints'
+      >
+    >({
+      tournamentId: 1,
+      participated: 1,
+      position: 1,
+      tied: 1,
+      partnerIds: 1,
+      rawScore: 1,
+      multipliedPoints: 1,
+    })
+    .toArray();
+  const tiedCounts = countTiedPositionsByTournament(scores);
+
+  const scoresChanged = scores.filter((score) => {
+    const { multipliedPoints } = calculateScorePoints(
+      {
+        participated: score.participated ?? true,
+        position: score.position ?? null,
+        rawScore: score.rawScore ?? null,
+        tied: score.tied,
+      },
+      tournamentMap.get(score.tournamentId.toString())!,
+      rules,
+      tiedCounts.get(score.tournamentId.toString())
+    );
+    return multipliedPoints !== (score.multipliedPoints ?? 0);
+  }).length;
+
+  const [live, simulated] = await Promise.all([
+    getFullLeaderboard(targetSeason),
+    getFullLeaderboard(targetSeason, { scoringRules: rules }),
+  ]);
+  const liveByUser = new Map(live.season.map((entry) => [entry.userId, entry]));
+
+  return {
+    season: targetSeason,
+    scoresRescored: scores.length,
+    scoresChanged,
+    standings: simulated.season.map((entry) => {
+      const liveEntry = liveByUser.get(entry.userId);
+      const liveRank = liveEntry?.rank ?? entry.rank;
+      const livePoints = liveEntry?.points ?? 0;
+      return {
+        userId: entry.userId,
+        username: entry.username,
+        firstName: entry.firstName,
+        lastName: entry.lastName,
+        liveRank,
+        simulatedRank: entry.rank,
+        rankChange: liveRank - entry.rank,
+        livePoints,
+        simulatedPoints: entry.points,
+        pointsChange: entry.points - livePoints,
+      };
+    }),
+  };
+}
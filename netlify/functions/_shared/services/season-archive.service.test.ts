@@ -0,0 +1,304 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { getSeasonByName } from './seasons.service';
+import {
+  archiveSeason,
+  calculatePeriodStandings,
+  calculateSeasonTables,
+  getHallOfFame,
+  getSeasonArchive,
+} from './season-archive.service';
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('./seasons.service', () => ({ getSeasonByName: vi.fn() }));
+
+const season = {
+  id: new ObjectId().toString(),
+  name: '2026',
+  startDate: new Date(2026, 3, 1),
+  endDate: new Date(2026, 4, 31),
+  isActive: false,
+  status: 'complete' as const,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const golferA = new ObjectId();
+const golferB = new ObjectId();
+const aprilEvent = { _id: new ObjectId(), startDate: new Date(2026, 3, 11) }; // Gameweek 2
+const mayEvent = { _id: new ObjectId(), startDate: new Date(2026, 4, 16) }; // Gameweek 7
+
+const makeManager = (username: string) => ({
+  _id: new ObjectId(),
+  firstName: username[0].toUpperCase() + username.slice(1),
+  lastName: 'Golfer',
+  username,
+});
+const alice = makeManager('alice');
+const bob = makeManager('bob');
+const carol = makeManager('carol');
+
+const makePick = (userId: ObjectId, golferIds: ObjectId[]) => ({
+  _id: new ObjectId(),
+  userId,
+  golferIds,
+  captainId: null,
+  totalSpent: 40_000_000,
+  season: 2026,
+});
+
+const score = (golferId: ObjectId, tournamentId: ObjectId, multipliedPoints: number) => ({
+  golferId,
+  tournamentId,
+  multipliedPoints,
+  participated: true,
+});
+
+const asManager = (user: typeof alice) => ({
+  userId: user._id.toString(),
+  firstName: user.firstName,
+  lastName: user.lastName,
+  username: user.username,
+});
+
+describe('season-archive.service', () => {
+  let seasonArchives: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    seasonArchives = {
+      findOne: vi.fn().mockResolvedValue(null),
+      findOneAndUpdate: vi.fn(),
+      find: vi.fn().mockReturnValue(mockCursor([])),
+    };
+    const { mockDb } = createMockDb({
+      seasonArchives,
+      picks: {
+        find: vi
+          .fn()
+          .mockReturnValue(
+            mockCursor([
+              makePick(alice._id, [golferA]),
+              makePick(bob._id, [golferB]),
+              makePick(carol._id, [golferA]),
+            ])
+          ),
+      },
+      pickHistory: { find: vi.fn().mockReturnValue(mockCursor([])) },
+      transferPenalties: {
+        find: vi
+          .fn()
+          .mockReturnValue(
+            mockCursor([{ userId: bob._id, weekStart: new Date(2026, 4, 16), points: 4 }])
+          ),
+      },
+      tournaments: { find: vi.fn().mockReturnValue(mockCursor([aprilEvent, mayEvent])) },
+      users: { find: vi.fn().mockReturnValue(mockCursor([alice, bob, carol])) },
+      scores: {
+        find: vi
+          .fn()
+          .mockReturnValue(
+            mockCursor([
+              score(golferA, aprilEvent._id, 20),
+              score(golferB, aprilEvent._id, 10),
+              score(golferA, mayEvent._id, 5),
+              score(golferB, mayEvent._id, 30),
+            ])
+          ),
+      },
+    });
+    vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+    vi.mocked(getSeasonByName).mockResolvedValue(season);
+  });
+
+  describe('calculateSeasonTables', () => {
+    it('ranks the season and picks the winners of each month and gameweek', async () => {
+      const { db } = await connectToDatabase();
+
+      const tables = await calculateSeasonTables(db, season);
+
+      expect(tables.standings).toEqual([
+        {
+          rank: 1,
+          ...asManager(bob),
+          totalPoints: 36,
+          teamValue: 40_000_000,
+          eventsPlayed: 2,
+        },
+        {
+          rank: 2,
+          ...asManager(alice),
+          totalPoints: 25,
+          teamValue: 40_000_000,
+          eventsPlayed: 2,
+        },
+        {
+          rank: 2,
+          ...asManager(carol),
+          totalPoints: 25,
+          teamValue: 40_000_000,
+          eventsPlayed: 2,
+        },
+      ]);
+
+      // Level on points in April, so the month is shared
+      expect(tables.monthlyWinners).toEqual([
+        expect.objectContaining({
+          label: 'April 2026',
+          points: 20,
+          winners: [asManager(alice), asManager(carol)],
+        }),
+        expect.objectContaining({ label: 'May 2026', points: 26, winners: [asManager(bob)] }),
+      ]);
+
+      expect(tables.gameweekWinners).toEqual([
+        expect.objectContaining({ label: 'Gameweek 2', gameweek: 2, points: 20 }),
+        expect.objectContaining({
+          label: 'Gameweek 7',
+          gameweek: 7,
+          points: 26,
+          winners: [asManager(bob)],
+        }),
+      ]);
+    });
+  });
+
+  describe('calculatePeriodStandings', () => {
+    it('ranks managers on tournaments within the period', async () => {
+      const { db } = await connectToDatabase();
+
+      const standings = await calculatePeriodStandings(
+        db,
+        season,
+        new Date(2026, 4, 16),
+        new Date(2026, 4, 22, 23, 59)
+      );
+
+      expect(standings.map((s) => [s.rank, s.username, s.totalPoints])).toEqual([
+        [1, 'bob', 26],
+        [2, 'alice', 5],
+        [2, 'carol', 5],
+      ]);
+    });
+
+    it('is empty when no tournament was played', async () => {
+      const { db } = await connectToDatabase();
+
+      expect(
+        await calculatePeriodStandings(db, season, new Date(2026, 4, 23), new Date(2026, 4, 29))
+      ).toEqual([]);
+    });
+  });
+
+  describe('archiveSeason', () => {
+    it('stores the tables against the season name', async () => {
+      seasonArchives.findOneAndUpdate.mockResolvedValue({
+        _id: new ObjectId(),
+        seasonName: '2026',
+        standings: [],
+        archivedAt: new Date(),
+      });
+
+      const archive = await archiveSeason('2026');
+
+      expect(seasonArchives.findOneAndUpdate).toHaveBeenCalledWith(
+        { seasonName: '2026' },
+        {
+          $set: expect.objectContaining({
+            seasonName: '2026',
+            startDate: season.startDate,
+            endDate: season.endDate,
+            standings: expect.arrayContaining([expect.objectContaining({ username: 'bob' })]),
+            monthlyWinners: expect.any(Array),
+            gameweekWinners: expect.any(Array),
+            archivedAt: expect.any(Date),
+          }),
+        },
+        { upsert: true, returnDocument: 'after' }
+      );
+      expect(archive.seasonName).toBe('2026');
+    });
+
+    it('throws when the season does not exist', async () => {
+      vi.mocked(getSeasonByName).mockResolvedValue(null);
+
+      await expect(archiveSeason('1999')).rejects.toThrow('Season 1999 not found');
+      expect(seasonArchives.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSeasonArchive', () => {
+    it('returns null for a season that has not been archived', async () => {
+      expect(await getSeasonArchive('2026')).toBeNull();
+      expect(seasonArchives.findOne).toHaveBeenCalledWith({ seasonName: '2026' });
+    });
+  });
+
+  describe('getHallOfFame', () => {
+    it('lists champions, managers of the month and records', async () => {
+      const winner = (user: typeof alice, label: string, points: number) => ({
+        label,
+        startDate: new Date(),
+        endDate: new Date(),
+        points,
+        winners: [asManager(user)],
+      });
+      seasonArchives.find.mockReturnValue(
+        mockCursor([
+          {
+            _id: new ObjectId(),
+            seasonName: '2026',
+            standings: [
+              { rank: 1, ...asManager(bob), totalPoints: 36, teamValue: 0, eventsPlayed: 2 },
+              { rank: 2, ...asManager(alice), totalPoints: 25, teamValue: 0, eventsPlayed: 2 },
+            ],
+            monthlyWinners: [winner(alice, 'April 2026', 20), winner(bob, 'May 2026', 26)],
+            gameweekWinners: [winner(bob, 'Gameweek 7', 26)],
+            archivedAt: new Date(),
+          },
+          {
+            _id: new ObjectId(),
+            seasonName: '2025',
+            standings: [
+              { rank: 1, ...asManager(carol), totalPoints: 51, teamValue: 0, eventsPlayed: 3 },
+            ],
+            monthlyWinners: [winner(carol, 'June 2025', 51)],
+            gameweekWinners: [winner(carol, 'Gameweek 10', 30)],
+            archivedAt: new Date(),
+          },
+        ])
+      );
+
+      const hallOfFame = await getHallOfFame();
+
+      expect(seasonArchives.find().sort).toHaveBeenCalledWith({ seasonName: -1 });
+      expect(hallOfFame.champions.map((c) => [c.seasonName, c.points])).toEqual([
+        ['2026', 36],
+        ['2025', 51],
+      ]);
+      expect(hallOfFame.managersOfTheMonth.map((m) => m.label)).toEqual([
+        'May 2026',
+        'April 2026',
+        'June 2025',
+      ]);
+      expect(hallOfFame.records.highestSeasonScore).toMatchObject({
+        seasonName: '2025',
+        points: 51,
+      });
+      expect(hallOfFame.records.highestMonthScore).toMatchObject({ label: 'June 2025' });
+      expect(hallOfFame.records.highestGameweekScore).toMatchObject({
+        label: 'Gameweek 10',
+        points: 30,
+        winners: [asManager(carol)],
+      });
+    });
+
+    it('has no records before any season is archived', async () => {
+      const hallOfFame = await getHallOfFame();
+
+      expect(hallOfFame.champions).toEqual([]);
+      expect(hallOfFame.records.highestGameweekScore).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,366 @@
+// Season archive service - freeze a closed season's tables and build the hall of fame
+
+import type { Db } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { PickDocument, PICKS_COLLECTION } from '../models/Pick';
+import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
+import {
+  SeasonArchiveDocument,
+  toSeasonArchive,
+  SEASON_ARCHIVES_COLLECTION,
+} from '../models/SeasonArchive';
+import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
+import type { TransferPenaltyDocument } from '../models/TransferPenalty';
+import { UserDocument, USERS_COLLECTION } from '../models/User';
+import { getSeasonByName } from './seasons.service';
+import {
+  TeamSnapshot,
+  buildTeamSnapshots,
+  calculateSnapshotPoints,
+  getSeasonPickHistory,
+  getSeasonTransferPenalties,
+  sumPenaltyPoints,
+} from './team.service';
+import {
+  getGameweekNumber,
+  getMonthEnd,
+  getMonthStart,
+  getWeekEnd,
+  getWeekStart,
+} from '../utils/dates';
+import type {
+  ArchivedManager,
+  ArchivedPeriodWinner,
+  ArchivedStanding,
+  HallOfFame,
+  HallOfFameEntry,
+  Season,
+  SeasonArchive,
+} from '../../../../shared/types';
+
+type ArchivedTables = Pick<SeasonArchive, 'standings' | 'monthlyWinners' | 'gameweekWinners'>;
+
+interface SeasonScoringData {
+  picks: PickDocument[];
+  managers: Map<string, ArchivedManager>;
+  snapshotsByUser: Map<string, TeamSnapshot[]>;
+  penaltiesByUser: Map<string, TransferPenaltyDocument[]>;
+  tournamentDates: Map<string, Date>;
+  scores: ScoreDocument[];
+}
+
+interface PeriodTotal {
+  manager: ArchivedManager;
+  points: number;
+  teamValue: number;
+  eventsPlayed: number;
+}
+
+async function loadSeasonScoringData(
+  db: Db,
+  seasonNumber: number,
+  seasonStart: Date,
+  seasonEnd: Date
+): Promise<SeasonScoringData> {
+  const [picks, historyByUser, penaltiesByUser, tournaments] = await Promise.all([
+    db.collection<PickDocument>(PICKS_COLLECTION).find({ season: seasonNumber }).toArray(),
+    getSeasonPickHistory(db, seasonNumber),
+    getSeasonTransferPenalties(db, seasonNumber),
+    db
+      .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+      .find({ season: seasonNumber, status: { $in: ['published', 'complete'] } })
+      .project<Pick<TournamentDocument, '_id' | 'startDate'>>({ _id: 1, startDate: 1 })
+      .toArray(),
+  ]);
+
+  const seasonTournaments = tournaments.filter((t) => {
+    const startDate = new Date(t.startDate);
+    return startDate >= seasonStart && startDate <= seasonEnd;
+  });
+  const tournamentDates = new Map(
+    seasonTournaments.map((t) => [t._id.toString(), new Date(t.startDate)])
+  );
+
+  const [users, scores] = await Promise.all([
+    picks.length > 0
+      ? db
+          .collection<UserDocument>(USERS_COLLECTION)
+          .find({ _id: { $in: picks.map((p) => p.userId) } })
+          .project<Pick<UserDocument, '_id' | 'firstName' | 'lastName' | 'username'>>({
+            firstName: 1,
+            lastName: 1,
+            username: 1,
+          })
+          .toArray()
+      : [],
+    seasonTournaments.length > 0
+      ? db
+          .collection<ScoreDocument>(SCORES_COLLECTION)
+          .find({ tournamentId: { $in: seasonTournaments.map((t) => t._id) } })
+          .toArray()
+      : [],
+  ]);
+
+  return {
+    picks,
+    managers: new Map(
+      users.map((u) => [
+        u._id.toString(),
+        {
+          userId: u._id.toString(),
+          firstName: u.firstName,
+          lastName: u.lastName,
+          username: u.username,
+        },
+      ])
+    ),
+    snapshotsByUser: new Map(
+      picks.map((p) => [
+        p.userId.toString(),
+        buildTeamSnapshots(p, historyByUser.get(p.userId.toString())),
+      ])
+    ),
+    penaltiesByUser,
+    tournamentDates,
+    scores,
+  };
+}
+
+/**
+ * Each manager's points for tournaments starting within a period, highest first.
+ * Null when no tournament was played in the period.
+ */
+function scorePeriod(data: SeasonScoringData, start: Date, end: Date): PeriodTotal[] | null {
+  const hasTournaments = [...data.tournamentDates.values()].some(
+    (date) => date >= start && date <= end
+  );
+  if (!hasTournaments) return null;
+
+  const totals: PeriodTotal[] = [];
+  for (const pick of data.picks) {
+    const userId = pick.userId.toString();
+    const manager = data.managers.get(userId);
+    if (!manager) continue;
+
+    const { points, tournamentIds } = calculateSnapshotPoints(
+      data.snapshotsByUser.get(userId) ?? buildTeamSnapshots(pick),
+      data.scores,
+      data.tournamentDates,
+      start,
+      end
+    );
+    totals.push({
+      manager,
+      points: points - sumPenaltyPoints(data.penaltiesByUser.get(userId), start, end),
+      teamValue: pick.totalSpent,
+      eventsPlayed: tournamentIds.size,
+    });
+  }
+  return totals.sort((a, b) => b.points - a.points);
+}
+
+function toPeriodWinner(
+  totals: PeriodTotal[],
+  label: string,
+  startDate: Date,
+  endDate: Date,
+  gameweek?: number
+): ArchivedPeriodWinner | null {
+  if (totals.length === 0) return null;
+  const points = totals[0].points;
+  return {
+    label,
+    startDate,
+    endDate,
+    ...(gameweek !== undefined && { gameweek }),
+    points,
+    winners: totals.filter((t) => t.points === points).map((t) => t.manager),
+  };
+}
+
+function rankTotals(totals: PeriodTotal[]): ArchivedStanding[] {
+  let rank = 1;
+  return totals.map((total, index) => {
+    if (index > 0 && total.points < totals[index - 1].points) rank = index + 1;
+    return {
+      rank,
+      ...total.manager,
+      totalPoints: total.points,
+      teamValue: total.teamValue,
+      eventsPlayed: total.eventsPlayed,
+    };
+  });
+}
+
+/**
+ * Rank every manager with a team on their points for tournaments starting within
+ * a period of the season. Managers level on points share a rank.
+ */
+export async function calculatePeriodStandings(
+  db: Db,
+  season: Season,
+  start: Date,
+  end: Date
+): Promise<ArchivedStanding[]> {
+  const seasonEnd = new Date(season.endDate);
+  seasonEnd.setHours(23, 59, 59, 999);
+  const data = await loadSeasonScoringData(
+    db,
+    parseInt(season.name, 10),
+    new Date(season.startDate),
+    seasonEnd
+  );
+  return rankTotals(scorePeriod(data, start, end) ?? []);
+}
+
+/**
+ * Work out a season's final standings and the winners of every month and gameweek
+ * in which a tournament was played. Managers level on points share a rank or a win.
+ */
+export async function calculateSeasonTables(db: Db, season: Season): Promise<ArchivedTables> {
+  const seasonStart = new Date(season.startDate);
+  const seasonEnd = new Date(season.endDate);
+  seasonEnd.setHours(23, 59, 59, 999);
+
+  const data = await loadSeasonScoringData(db, parseInt(season.name, 10), seasonStart, seasonEnd);
+
+  const standings = rankTotals(scorePeriod(data, seasonStart, seasonEnd) ?? []);
+
+  const monthlyWinners: ArchivedPeriodWinner[] = [];
+  for (
+    let month = getMonthStart(seasonStart);
+    month <= seasonEnd;
+    month = getMonthStart(new Date(month.getFullYear(), month.getMonth() + 1, 1))
+  ) {
+    const monthEnd = getMonthEnd(month);
+    const totals = scorePeriod(data, month, monthEnd);
+    const label = month.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
+    const winner = totals && toPeriodWinner(totals, label, month, monthEnd);
+    if (winner) monthlyWinners.push(winner);
+  }
+
+  const gameweekWinners: ArchivedPeriodWinner[] = [];
+  for (
+    let week = getWeekStart(seasonStart);
+    week <= seasonEnd;
+    week = new Date(week.getFullYear(), week.getMonth(), week.getDate() + 7)
+  ) {
+    const weekEnd = getWeekEnd(week);
+    const totals = scorePeriod(data, week, weekEnd);
+    const gameweek = getGameweekNumber(week, seasonStart);
+    const winner =
+      totals && toPeriodWinner(totals, `Gameweek ${gameweek}`, week, weekEnd, gameweek);
+    if (winner) gameweekWinners.push(winner);
+  }
+
+  return { standings, monthlyWinners, gameweekWinners };
+}
+
+/**
+ * Freeze a season's final tables into the archive. Archiving again replaces the
+ * earlier copy, so scores corrected after the close can be picked up.
+ */
+export async function archiveSeason(seasonName: string): Promise<SeasonArchive> {
+  const season = await getSeasonByName(seasonName);
+  if (!season) {
+    throw new Error(`Season ${seasonName} not found`);
+  }
+
+  const { db } = await connectToDatabase();
+  const tables = await calculateSeasonTables(db, season);
+  const archive: Omit<SeasonArchiveDocument, '_id'> = {
+    seasonName: season.name,
+    startDate: new Date(season.startDate),
+    endDate: new Date(season.endDate),
+    ...tables,
+    archivedAt: new Date(),
+  };
+
+  const result = await db
+    .collection<SeasonArchiveDocument>(SEASON_ARCHIVES_COLLECTION)
+    .findOneAndUpdate(
+      { seasonName: season.name },
+      { $set: archive },
+      { upsert: true, returnDocument: 'after' }
+    );
+  return toSeasonArchive(result!);
+}
+
+export async function getSeasonArchive(seasonName: string): Promise<SeasonArchive | null> {
+  const { db } = await connectToDatabase();
+  const doc = await db
+    .collection<SeasonArchiveDocument>(SEASON_ARCHIVES_COLLECTION)
+    .findOne({ seasonName });
+  return doc ? toSeasonArchive(doc) : null;
+}
+
+function highest(entries: HallOfFameEntry[]): HallOfFameEntry | null {
+  return entries.reduce<HallOfFameEntry | null>(
+    (best, entry) => (!best || entry.points > best.points ? entry : best),
+    null
+  );
+}
+
+/**
+ * Past champions, managers of the month and scoring records across every archived season.
+ */
+export async function getHallOfFame(): Promise<HallOfFame> {
+  const { db } = await connectToDatabase();
+  const archives = (
+    await db
+      .collection<SeasonArchiveDocument>(SEASON_ARCHIVES_COLLECTION)
+      .find({})
+      .sort({ seasonName: -1 })
+      .toArray()
+  ).map(toSeasonArchive);
+
+  const champions: HallOfFameEntry[] = [];
+  const managersOfTheMonth: HallOfFameEntry[] = [];
+  const gameweeks: HallOfFameEntry[] = [];
+
+  for (const archive of archives) {
+    const leaders = archive.standings.filter((s) => s.rank === 1);
+    if (leaders.length > 0) {
+      champions.push({
+        seasonName: archive.seasonName,
+        label: `${archive.seasonName} Season`,
+        points: leaders[0].totalPoints,
+        winners: leaders.map(({ userId, firstName, lastName, username }) => ({
+          userId,
+          firstName,
+          lastName,
+          username,
+        })),
+      });
+    }
+
+    // Newest month first, matching the season order
+    for (const month of [...archive.monthlyWinners].reverse()) {
+      managersOfTheMonth.push({
+        seasonName: archive.seasonName,
+        label: month.label,
+        points: month.points,
+        winners: month.winners,
+      });
+    }
+
+    for (const gameweek of archive.gameweekWinners) {
+      gameweeks.push({
+        seasonName: archive.seasonName,
+        label: gameweek.label,
+        points: gameweek.points,
+        winners: gameweek.winners,
+      });
+    }
+  }
+
+  return {
+    champions,
+    managersOfTheMonth,
+    records: {
+      highestSeasonScore: highest(champions),
+      highestMonthScore: highest(managersOfTheMonth),
+      highestGameweekScore: highest(gameweeks),
+    },
+  };
+}
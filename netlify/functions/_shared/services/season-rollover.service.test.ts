@@ -0,0 +1,305 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { grantFinalSeasonAwards } from './awards.service';
+import { calculateGolferPrices } from './golfers.service';
+import { archiveSeason } from './season-archive.service';
+import { createSeason, getSeasonByName, updateSeason } from './seasons.service';
+import { setSetting } from './settings.service';
+import {
+  carryOverTeams,
+  getLatestSeasonRollover,
+  runSeasonRollover,
+} from './season-rollover.service';
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('./awards.service', () => ({ grantFinalSeasonAwards: vi.fn() }));
+vi.mock('./golfers.service', () => ({ calculateGolferPrices: vi.fn() }));
+vi.mock('./season-archive.service', () => ({ archiveSeason: vi.fn() }));
+vi.mock('./seasons.service', () => ({
+  createSeason: vi.fn(),
+  getSeasonByName: vi.fn(),
+  setActiveSeason: vi.fn(),
+  updateSeason: vi.fn(),
+}));
+vi.mock('./settings.service', () => ({ setSetting: vi.fn() }));
+
+const adminId = new ObjectId();
+const activeSeason = { _id: new ObjectId(), name: '2026', isActive: true, status: 'active' };
+const newSeasonId = new ObjectId();
+const request = {
+  name: '2027',
+  startDate: new Date('2027-04-01'),
+  endDate: new Date('2028-03-31'),
+  carryOverTeams: true,
+};
+
+const golferA = { _id: new ObjectId(), price: 9_000_000, isActive: true };
+const golferB = { _id: new ObjectId(), price: 6_000_000, isActive: true };
+const retired = { _id: new ObjectId(), price: 5_000_000, isActive: false };
+const pricey = { _id: new ObjectId(), price: 45_000_000, isActive: true };
+
+const makePick = (golferIds: ObjectId[]) => ({
+  _id: new ObjectId(),
+  userId: new ObjectId(),
+  golferIds,
+  benchIds: [],
+  captainId: golferIds[0],
+  viceCaptainId: null,
+  totalSpent: 0,
+  season: 2026,
+  chips: [{ chip: 'wildcard', weekStart: new Date() }],
+});
+
+describe('season-rollover.service', () => {
+  let seasonRollovers: Record<string, ReturnType<typeof vi.fn>>;
+  let seasons: Record<string, ReturnType<typeof vi.fn>>;
+  let picks: Record<string, ReturnType<typeof vi.fn>>;
+  let pickHistory: Record<string, ReturnType<typeof vi.fn>>;
+  let golfers: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    seasonRollovers = {
+      findOne: vi.fn().mockResolvedValue(null),
+      insertOne: vi.fn().mockResolvedValue({ insertedId: new ObjectId() }),
+      updateOne: vi.fn(),
+      createIndex: vi.fn(),
+    };
+    seasons = { findOne: vi.fn().mockResolvedValue(activeSeason) };
+    picks = {
+      find: vi.fn().mockReturnValue(mockCursor([])),
+      bulkWrite: vi.fn().mockResolvedValue({ upsertedIds: {} }),
+    };
+    pickHistory = { insertMany: vi.fn() };
+    golfers = {
+      find: vi.fn().mockReturnValue(mockCursor([golferA, golferB, retired, pricey])),
+    };
+    const { mockDb } = createMockDb({
+      seasonRollovers,
+      seasons,
+      picks,
+      pickHistory,
+      golfers,
+    });
+    vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+    vi.mocked(getSeasonByName).mockResolvedValue(null);
+    vi.mocked(createSeason).mockResolvedValue({
+      id: newSeasonId.toString(),
+      name: '2027',
+      isActive: true,
+    } as any);
+  });
+
+  describe('runSeasonRollover', () => {
+    it('closes the active season and opens the next', async () => {
+      const result = await runSeasonRollover(request, adminId.toString());
+
+      expect(seasonRollovers.insertOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fromSeasonId: activeSeason._id,
+          fromSeasonName: '2026',
+          toSeasonName: '2027',
+          carryOverTeams: true,
+          status: 'in_progress',
+          completedSteps: [],
+          startedBy: adminId,
+        })
+      );
+      expect(updateSeason).toHaveBeenCalledWith(activeSeason._id.toString(), {
+        status: 'complete',
+      });
+      expect(archiveSeason).toHaveBeenCalledWith('2026');
+      expect(grantFinalSeasonAwards).toHaveBeenCalledWith('2026');
+      expect(calculateGolferPrices).toHaveBeenCalledWith(2026);
+      expect(createSeason).toHaveBeenCalledWith({
+        name: '2027',
+        startDate: request.startDate,
+        endDate: request.endDate,
+        isActive: true,
+        status: 'active',
+      });
+      expect(setSetting).toHaveBeenCalledWith('transfersOpen', true);
+      expect(setSetting).toHaveBeenCalledWith('allowNewTeamCreation', true);
+      expect(picks.find).toHaveBeenCalledWith({ season: 2026 });
+
+      expect(result.status).toBe('complete');
+      expect(result.toSeasonId).toBe(newSeasonId.toString());
+      expect(result.completedSteps).toEqual([
+        'closeSeason',
+        'archiveStandings',
+        'recalculatePrices',
+        'createSeason',
+        'resetSettings',
+        'carryOverTeams',
+      ]);
+    });
+
+    it('resumes from the first step that has not completed', async () => {
+      seasonRollovers.findOne.mockResolvedValue({
+        _id: new ObjectId(),
+        fromSeasonId: activeSeason._id,
+        fromSeasonName: '2026',
+        toSeasonId: null,
+        toSeasonName: '2027',
+        startDate: request.startDate,
+        endDate: request.endDate,
+        carryOverTeams: false,
+        status: 'in_progress',
+        completedSteps: ['closeSeason', 'archiveStandings', 'recalculatePrices'],
+        startedBy: adminId,
+        startedAt: new Date(),
+      });
+
+      const result = await runSeasonRollover(request, adminId.toString());
+
+      expect(seasonRollovers.insertOne).not.toHaveBeenCalled();
+      expect(updateSeason).not.toHaveBeenCalled();
+      expect(calculateGolferPrices).not.toHaveBeenCalled();
+      expect(createSeason).toHaveBeenCalled();
+      // Started with fresh teams, so nothing is copied even though this request asks to
+      expect(picks.find).not.toHaveBeenCalled();
+      expect(result.status).toBe('complete');
+      expect(result.teamsCarriedOver).toBe(0);
+    });
+
+    it('records a failed step so the rollover can be resumed', async () => {
+      vi.mocked(calculateGolferPrices).mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(runSeasonRollover(request, adminId.toString())).rejects.toThrow(
+        'Recalculate opening prices failed: Database unavailable. Run the rollover again to resume'
+      );
+      expect(seasonRollovers.updateOne).toHaveBeenCalledWith(
+        { _id: expect.any(ObjectId) },
+        { $set: { lastError: 'Database unavailable' } }
+      );
+      expect(seasonRollovers.updateOne).toHaveBeenCalledWith(
+        { _id: expect.any(ObjectId) },
+        { $set: { lastError: null }, $addToSet: { completedSteps: 'archiveStandings' } }
+      );
+      expect(createSeason).not.toHaveBeenCalled();
+    });
+
+    it('refuses to start a second rollover while one is in progress', async () => {
+      seasonRollovers.findOne.mockResolvedValue({ toSeasonName: '2028', completedSteps: [] });
+
+      await expect(runSeasonRollover(request, adminId.toString())).rejects.toThrow(
+        'A rollover to 2028 is already in progress'
+      );
+      expect(updateSeason).not.toHaveBeenCalled();
+    });
+
+    it('refuses to start when another rollover starts at the same time', async () => {
+      seasonRollovers.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ toSeasonName: '2027', completedSteps: [] });
+      seasonRollovers.insertOne.mockRejectedValue(
+        Object.assign(new Error('E11000 duplicate key error'), { code: 11000 })
+      );
+
+      await expect(runSeasonRollover(request, adminId.toString())).rejects.toThrow(
+        'A rollover to 2027 is already in progress'
+      );
+      expect(seasonRollovers.createIndex).toHaveBeenCalledWith(
+        { status: 1 },
+        { unique: true, partialFilterExpression: { status: 'in_progress' } }
+      );
+      expect(updateSeason).not.toHaveBeenCalled();
+    });
+
+    it('refuses a season that already exists', async () => {
+      vi.mocked(getSeasonByName).mockResolvedValue({ id: 's1', name: '2027' } as any);
+
+      await expect(runSeasonRollover(request, adminId.toString())).rejects.toThrow(
+        'A season named 2027 already exists'
+      );
+      expect(seasonRollovers.insertOne).not.toHaveBeenCalled();
+    });
+
+    it('refuses a season that does not follow the active one', async () => {
+      await expect(
+        runSeasonRollover({ ...request, name: '2025' }, adminId.toString())
+      ).rejects.toThrow('The new season must come after 2026');
+    });
+
+    it('requires an active season', async () => {
+      seasons.findOne.mockResolvedValue(null);
+
+      await expect(runSeasonRollover(request, adminId.toString())).rejects.toThrow(
+        'There is no active season to roll over'
+      );
+    });
+  });
+
+  describe('carryOverTeams', () => {
+    it('copies squads that still fit the budget at the new prices', async () => {
+      const kept = makePick([golferA._id, golferB._id]);
+      picks.find.mockReturnValue(
+        mockCursor([
+          kept,
+          makePick([golferA._id, retired._id]),
+          makePick([golferA._id, pricey._id]),
+        ])
+      );
+      picks.bulkWrite.mockResolvedValue({ upsertedIds: { 0: new ObjectId() } });
+      const now = new Date();
+
+      const result = await carryOverTeams(mockDbFor(), '2026', '2027', now);
+
+      expect(result).toEqual({ carried: 1, notCarried: 2 });
+      expect(picks.bulkWrite).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { userId: kept.userId, season: 2027 },
+            update: {
+              $setOnInsert: {
+                userId: kept.userId,
+                golferIds: kept.golferIds,
+                benchIds: [],
+                captainId: golferA._id,
+                viceCaptainId: null,
+                totalSpent: 15_000_000,
+                purchasePrices: {
+                  [golferA._id.toString()]: 9_000_000,
+                  [golferB._id.toString()]: 6_000_000,
+                },
+                bank: 35_000_000,
+                season: 2027,
+                chips: [],
+                createdAt: now,
+                updatedAt: now,
+              },
+            },
+            upsert: true,
+          },
+        },
+      ]);
+      expect(pickHistory.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          userId: kept.userId,
+          season: 2027,
+          reason: 'Carried over from 2026',
+        }),
+      ]);
+    });
+
+    it('leaves teams already saved for the new season alone', async () => {
+      picks.find.mockReturnValue(mockCursor([makePick([golferA._id])]));
+
+      const result = await carryOverTeams(mockDbFor(), '2026', '2027');
+
+      expect(result).toEqual({ carried: 0, notCarried: 0 });
+      expect(pickHistory.insertMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLatestSeasonRollover', () => {
+    it('returns null before any rollover has run', async () => {
+      expect(await getLatestSeasonRollover()).toBeNull();
+    });
+  });
+
+  function mockDbFor() {
+    return createMockDb({ picks, pickHistory, golfers }).mockDb.db;
+  }
+});
@@ -0,0 +1,296 @@
+// Season rollover service - close the active season and open the next in one resumable job
+
+import { ObjectId } from 'mongodb';
+import type { Db } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { GolferDocument, GOLFERS_COLLECTION } from '../models/Golfer';
+import {
+  PickDocument,
+  PICKS_COLLECTION,
+  PickHistoryDocument,
+  PICK_HISTORY_COLLECTION,
+} from '../models/Pick';
+import {
+  SeasonRolloverDocument,
+  toSeasonRollover,
+  SEASON_ROLLOVERS_COLLECTION,
+} from '../models/SeasonRollover';
+import { SeasonDocument, SEASONS_COLLECTION } from '../models/Season';
+import { BUDGET_CAP } from '../../../../shared/constants/rules';
+import {
+  SEASON_ROLLOVER_STEPS,
+  SEASON_ROLLOVER_STEP_LABELS,
+  type SeasonRollover,
+  type SeasonRolloverStep,
+  type StartSeasonRolloverDTO,
+} from '../../../../shared/types';
+import { grantFinalSeasonAwards } from './awards.service';
+import { calculateGolferPrices } from './golfers.service';
+import { archiveSeason } from './season-archive.service';
+import { createSeason, getSeasonByName, setActiveSeason, updateSeason } from './seasons.service';
+import { setSetting } from './settings.service';
+
+type StepResult = Partial<
+  Pick<SeasonRolloverDocument, 'toSeasonId' | 'teamsCarriedOver' | 'teamsNotCarriedOver'>
+>;
+
+type SquadGolfer = Pick<GolferDocument, '_id' | 'price' | 'isActive'>;
+
+const toSeasonNumber = (name: string): number => parseInt(name, 10) || 0;
+
+const rolloverInProgressError = (toSeasonName: string): Error =>
+  new Error(
+    `A rollover to ${toSeasonName} is already in progress. Resume it before starting another`
+  );
+
+/**
+ * Copy last season's squads into the new season at the new opening prices. A squad is
+ * left behind if it holds a golfer who has since been removed or retired, or if it no
+ * longer fits the budget; those managers pick a fresh team. Managers who have already
+ * saved a team for the new season keep it.
+ */
+export async function carryOverTeams(
+  db: Db,
+  fromSeason: string,
+  toSeason: string,
+  now: Date = new Date()
+): Promise<{ carried: number; notCarried: number }> {
+  const picks = await db
+    .collection<PickDocument>(PICKS_COLLECTION)
+    .find({ season: toSeasonNumber(fromSeason) })
+    .toArray();
+  if (picks.length === 0) return { carried: 0, notCarried: 0 };
+
+  const golfers = await db
+    .collection<GolferDocument>(GOLFERS_COLLECTION)
+    .find({})
+    .project<SquadGolfer>({ price: 1, isActive: 1 })
+    .toArray();
+  const golfersById = new Map(golfers.map((g) => [g._id.toString(), g]));
+
+  const carried: Omit<PickDocument, '_id'>[] = [];
+  for (const pick of picks) {
+    const squad = [...pick.golferIds, ...(pick.benchIds ?? [])].map((id) =>
+      golfersById.get(id.toString())
+    );
+    if (squad.some((golfer) => !golfer?.isActive)) continue;
+
+    const purchasePrices = Object.fromEntries(
+      (squad as SquadGolfer[]).map((g) => [g._id.toString(), g.price])
+    );
+    const totalSpent = Object.values(purchasePrices).reduce((sum, price) => sum + price, 0);
+    if (totalSpent > BUDGET_CAP) continue;
+
+    carried.push({
+      userId: pick.userId,
+      golferIds: pick.golferIds,
+      benchIds: pick.benchIds ?? [],
+      captainId: pick.captainId ?? null,
+      viceCaptainId: pick.viceCaptainId ?? null,
+      totalSpent,
+      purchasePrices,
+      bank: BUDGET_CAP - totalSpent,
+      season: toSeasonNumber(toSeason),
+      chips: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  if (carried.length === 0) return { carried: 0, notCarried: picks.length };
+
+  const result = await db.collection<PickDocument>(PICKS_COLLECTION).bulkWrite(
+    carried.map((pick) => ({
+      updateOne: {
+        filter: { userId: pick.userId, season: pick.season },
+        update: { $setOnInsert: pick },
+        upsert: true,
+      },
+    }))
+  );
+
+  const inserted = Object.keys(result.upsertedIds).map((index) => carried[Number(index)]);
+  if (inserted.length > 0) {
+    await db.collection<PickHistoryDocument>(PICK_HISTORY_COLLECTION).insertMany(
+      inserted.map(
+        (pick) =>
+          ({
+            userId: pick.userId,
+            golferIds: pick.golferIds,
+            benchIds: pick.benchIds,
+            captainId: pick.captainId,
+            viceCaptainId: pick.viceCaptainId,
+            totalSpent: pick.totalSpent,
+            season: pick.season,
+            changedAt: now,
+            reason: `Carried over from ${fromSeason}`,
+          }) as PickHistoryDocument
+      )
+    );
+  }
+
+  return { carried: inserted.length, notCarried: picks.length - carried.length };
+}
+
+async function runStep(
+  db: Db,
+  step: SeasonRolloverStep,
+  rollover: SeasonRolloverDocument
+): Promise<StepResult> {
+  const fromSeason = toSeasonNumber(rollover.fromSeasonName);
+
+  switch (step) {
+    case 'closeSeason':
+      await updateSeason(rollover.fromSeasonId.toString(), { status: 'complete' });
+      return {};
+
+    case 'archiveStandings':
+      await archiveSeason(rollover.fromSeasonName);
+      await grantFinalSeasonAwards(rollover.fromSeasonName);
+      return {};
+
+    case 'recalculatePrices':
+      await calculateGolferPrices(fromSeason);
+      return {};
+
+    case 'createSeason': {
+      // A retry after a partial failure finds the season created on the first attempt
+      const existing = await getSeasonByName(rollover.toSeasonName);
+      const season =
+        existing ??
+        (await createSeason({
+          name: rollover.toSeasonName,
+          startDate: rollover.startDate,
+          endDate: rollover.endDate,
+          isActive: true,
+          status: 'active',
+        }));
+      if (!season.isActive) await setActiveSeason(season.id);
+      return { toSeasonId: new ObjectId(season.id) };
+    }
+
+    case 'resetSettings':
+      // Open the pre-season window: new teams can be created and carried-over teams
+      // changed freely until the season starts
+      await setSetting('transfersOpen', true);
+      await setSetting('allowNewTeamCreation', true);
+      return {};
+
+    case 'carryOverTeams': {
+      if (!rollover.carryOverTeams) return { teamsCarriedOver: 0, teamsNotCarriedOver: 0 };
+      const { carried, notCarried } = await carryOverTeams(
+        db,
+        rollover.fromSeasonName,
+        rollover.toSeasonName
+      );
+      return { teamsCarriedOver: carried, teamsNotCarriedOver: notCarried };
+    }
+  }
+}
+
+/**
+ * The rollover in progress, or else the most recently finished one.
+ */
+export async function getLatestSeasonRollover(): Promise<SeasonRollover | null> {
+  const { db } = await connectToDatabase();
+  // 'in_progress' sorts after 'complete', so a rollover still running comes first
+  const doc = await db
+    .collection<SeasonRolloverDocument>(SEASON_ROLLOVERS_COLLECTION)
+    .findOne({}, { sort: { status: -1, startedAt: -1 } });
+  return doc ? toSeasonRollover(doc) : null;
+}
+
+/**
+ * Close the active season and open the next. Each step is recorded as it completes, so
+ * if one fails the admin can run the rollover again and it carries on from that step
+ * with the options it was started with. Only one rollover can be in progress at a time.
+ */
+export async function runSeasonRollover(
+  data: StartSeasonRolloverDTO,
+  adminId: string
+): Promise<SeasonRollover> {
+  const { db } = await connectToDatabase();
+  const rollovers = db.collection<SeasonRolloverDocument>(SEASON_ROLLOVERS_COLLECTION);
+
+  let rollover = await rollovers.findOne({ status: 'in_progress' });
+
+  if (rollover && rollover.toSeasonName !== data.name) {
+    throw rolloverInProgressError(rollover.toSeasonName);
+  }
+
+  if (!rollover) {
+    const activeSeason = await db
+      .collection<SeasonDocument>(SEASONS_COLLECTION)
+      .findOne({ isActive: true });
+    if (!activeSeason) {
+      throw new Error('There is no active season to roll over');
+    }
+    if (toSeasonNumber(data.name) <= toSeasonNumber(activeSeason.name)) {
+      throw new Error(`The new season must come after ${activeSeason.name}`);
+    }
+    if (await getSeasonByName(data.name)) {
+      throw new Error(`A season named ${data.name} already exists`);
+    }
+
+    const doc: Omit<SeasonRolloverDocument, '_id'> = {
+      fromSeasonId: activeSeason._id,
+      fromSeasonName: activeSeason.name,
+      toSeasonId: null,
+      toSeasonName: data.name,
+      startDate: new Date(data.startDate),
+      endDate: new Date(data.endDate),
+      carryOverTeams: data.carryOverTeams,
+      status: 'in_progress',
+      completedSteps: [],
+      lastError: null,
+      startedBy: new ObjectId(adminId),
+      startedAt: new Date(),
+      completedAt: null,
+    };
+    // The check above can race with another admin starting a rollover at the same time,
+    // so the unique index makes the second insert fail instead of running alongside
+    await rollovers.createIndex(
+      { status: 1 },
+      { unique: true, partialFilterExpression: { status: 'in_progress' } }
+    );
+    try {
+      const result = await rollovers.insertOne(doc as SeasonRolloverDocument);
+      rollover = { _id: result.insertedId, ...doc };
+    } catch (err: unknown) {
+      if (err instanceof Error && 'code' in err && (err as { code: number }).code === 11000) {
+        const running = await rollovers.findOne({ status: 'in_progress' });
+        throw rolloverInProgressError(running?.toSeasonName ?? data.name);
+      }
+      throw err;
+    }
+  }
+
+  for (const step of SEASON_ROLLOVER_STEPS) {
+    if (rollover.completedSteps.includes(step)) continue;
+
+    try {
+      const stepResult = await runStep(db, step, rollover);
+      rollover = {
+        ...rollover,
+        ...stepResult,
+        completedSteps: [...rollover.completedSteps, step],
+        lastError: null,
+      };
+      await rollovers.updateOne(
+        { _id: rollover._id },
+        { $set: { ...stepResult, lastError: null }, $addToSet: { completedSteps: step } }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await rollovers.updateOne({ _id: rollover._id }, { $set: { lastError: message } });
+      throw new Error(
+        `${SEASON_ROLLOVER_STEP_LABELS[step]} failed: ${message}. Run the rollover again to resume`
+      );
+    }
+  }
+
+  const completedAt = new Date();
+  await rollovers.updateOne({ _id: rollover._id }, { $set: { status: 'complete', completedAt } });
+
+  return toSeasonRollover({ ...rollover, status: 'complete', completedAt });
+}
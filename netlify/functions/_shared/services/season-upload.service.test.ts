@@ -2,11 +2,48 @@ import { ObjectId } from 'mongodb';
 import type { Db, MongoClient } from 'mongodb';
 import { connectToDatabase } from '../db';
 import { processSeasonUpload } from './season-upload.service';
+import { getScoringRules } from './scoring-rules.service';
+import { getTournamentTypes } from './tournament-types.service';
+import { refreshGolferSeasonStats } from './golfer-stats.service';
+import {
+  DEFAULT_SCORING_RULES,
+  TOURNAMENT_TYPE_CONFIG,
+} from '../../../../shared/types/tournament.types';
 
 vi.mock('../db', () => ({
   connectToDatabase: vi.fn(),
 }));
 
+vi.mock('./scoring-rules.service', () => ({
+  getScoringRules: vi.fn(),
+}));
+
+vi.mock('./tournament-types.service', () => ({
+  getTournamentTypes: vi.fn(),
+}));
+
+vi.mock('./golfer-stats.service', () => ({
+  refreshGolferSeasonStats: vi.fn().mockResolvedValue(undefined),
+}));
+
+const tournamentTypes = [
+  ...Object.entries(TOURNAMENT_TYPE_CONFIG).map(([key, config]) => ({ key, ...config })),
+  {
+    key: 'winter_foursomes',
+    label: 'Winter Foursomes',
+    multiplier: 1.5,
+    defaultScoringFormat: 'stableford' as const,
+    forcedScoringFormat: null,
+    defaultMultiDay: false,
+  },
+].map((type) => ({
+  id: type.key,
+  ...type,
+  isBuiltIn: type.key !== 'winter_foursomes',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}));
+
 const mockGolfersCol = {
   findOne: vi.fn(),
   insertOne: vi.fn(),
@@ -37,6 +74,13 @@ const toArraySorted = <T>(items: T[]) => ({
 
 beforeEach(() => {
   vi.clearAllMocks();
+  vi.mocked(getScoringRules).mockResolvedValue({
+    ...DEFAULT_SCORING_RULES,
+    season: 2025,
+    isDefault: true,
+    updatedAt: null,
+  });
+  vi.mocked(getTournamentTypes).mockResolvedValue(tournamentTypes);
   vi.mocked(connectToDatabase).mockResolvedValue({
     db: {
       collection: vi.fn().mockImplementation((name: string) => {
@@ -96,6 +140,25 @@ describe('season-upload.service', () => {
     expect(result.summary).toContain('Processed 2 rows');
   });
 
+  it('scores golfers sharing a position as tied, accepting T2 notation', async () => {
+    const csv = [
+      'date,position,player,rawScore,tournamentType,scoringFormat,isMultiDay',
+      '15/06/2025,1,Tiger Woods,30,rollup_stableford,stableford,No',
+      '15/06/2025,T2,Rory McIlroy,30,rollup_stableford,stableford,No',
+      '15/06/2025,2,Jon Rahm,30,rollup_stableford,stableford,No',
+    ].join('\n');
+
+    await processSeasonUpload(csv);
+
+    // T2 between two golfers shares 2nd and 3rd: (7 + 5) / 2 = 6
+    const sets = mockScoresCol.updateOne.mock.calls.map((call: any[]) => call[1].$set);
+    expect(sets.map((set: any) => [set.position, set.tied, set.basePoints])).toEqual([
+      [1, false, 10],
+      [2, true, 6],
+      [2, true, 6],
+    ]);
+  });
+
   it('parses tab-delimited CSV', async () => {
     const csv = [
       'date\tposition\tplayer\trawScore\ttournamentType\tscoringFormat\tisMultiDay',
@@ -127,6 +190,26 @@ describe('season-upload.service', () => {
     expect(mockGolfersCol.insertOne).not.toHaveBeenCalled();
   });
 
+  it("refreshes affected golfers' stats for each season", async () => {
+    const existingGolferId = new ObjectId();
+    mockGolfersCol.findOne.mockResolvedValue({
+      _id: existingGolferId,
+      firstName: 'Tiger',
+      lastName: 'Woods',
+    });
+
+    const csv = [
+      'date,position,player,rawScore,tournamentType,scoringFormat,isMultiDay',
+      '15/06/2025,1,Tiger Woods,38,rollup_stableford,stableford,No',
+    ].join('\n');
+
+    await processSeasonUpload(csv);
+
+    expect(refreshGolferSeasonStats).toHaveBeenCalledWith(expect.anything(), 2025, [
+      existingGolferId,
+    ]);
+  });
+
   it('handles existing tournaments', async () => {
     mockTournamentsCol.findOne.mockResolvedValue({
       _id: new ObjectId(),
@@ -201,4 +284,34 @@ describe('season-upload.service', () => {
 
     expect(result.scoresEntered).toBe(1);
   });
+
+  it('accepts a custom tournament type by name and uses its multiplier', async () => {
+    const csv = [
+      'date,position,player,rawScore,tournamentType,scoringFormat,isMultiDay',
+      '15/06/2025,1,Tiger Woods,38,Winter Foursomes,medal,No',
+    ].join('\n');
+
+    await processSeasonUpload(csv);
+
+    expect(mockTournamentsCol.insertOne).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tournamentType: 'winter_foursomes',
+        scoringFormat: 'medal',
+        multiplier: 1.5,
+      })
+    );
+  });
+
+  it('skips and warns about dates with an unknown tournament type', async () => {
+    const csv = [
+      'date,position,player,rawScore,tournamentType,scoringFormat,isMultiDay',
+      '15/06/2025,1,Tiger Woods,38,matchplay,stableford,No',
+      '22/06/2025,1,Tiger Woods,38,rollup_stableford,stableford,No',
+    ].join('\n');
+
+    const result = await processSeasonUpload(csv);
+
+    expect(result.tournamentsCreated).toBe(1);
+    expect(result.summary).toContain('unknown tournament type: 15/06/2025');
+  });
 });
@@ -2,24 +2,23 @@
 
 import { ObjectId } from 'mongodb';
 import { connectToDatabase } from '../db';
-import {
-  GolferDocument,
-  GOLFERS_COLLECTION,
-  defaultStats2024,
-  defaultStats2025,
-  defaultStats2026,
-} from '../models/Golfer';
+import { GolferDocument, GOLFERS_COLLECTION } from '../models/Golfer';
 import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
 import { ScoreDocument, SCORES_COLLECTION } from '../models/Score';
 import { SeasonDocument, SEASONS_COLLECTION } from '../models/Season';
 import {
-  getBasePointsForPosition,
-  getBonusPoints,
-  TOURNAMENT_TYPE_CONFIG,
-  type TournamentType,
+  calculateScorePoints,
+  countTiedPositions,
+  getMultiplierForType,
+  toTournamentTypeKey,
+  type ScoringRules,
   type ScoringFormat,
   type GolferCountTier,
+  type TournamentTypeConfig,
 } from '../../../../shared/types/tournament.types';
+import { getScoringRules } from './scoring-rules.service';
+import { getTournamentTypes } from './tournament-types.service';
+import { refreshGolferSeasonStats } from './golfer-stats.service';
 
 export interface SeasonUploadResult {
   golfersCreated: number;
@@ -32,6 +31,7 @@ export interface SeasonUploadResult {
 interface CsvRow {
   date: string;
   position: number;
+  tied: boolean;
   player: string;
   rawScore: number;
   tournamentType: string;
@@ -66,7 +66,8 @@ function parseCsv(csvText: string): CsvRow[] {
     if (parts.length < 4) continue;
 
     const rawScore = parseInt(stripQuotes(parts[3]), 10);
-    const position = parseInt(stripQuotes(parts[1]), 10);
+    // Countback ties may be written T2 or =2; golfers sharing a position are tied either way
+    const position = parseInt(stripQuotes(parts[1]).replace(/^[T=]/i, ''), 10);
 
     if (isNaN(position) || isNaN(rawScore)) continue;
 
@@ -76,9 +77,10 @@ function parseCsv(csvText: string): CsvRow[] {
     rows.push({
       date: stripQuotes(parts[0]),
       position,
+      tied: false,
       player: stripQuotes(parts[2]),
       rawScore,
-      tournamentType: parts[4] ? stripQuotes(parts[4]).toLowerCase() : 'rollup_stableford',
+      tournamentType: stripQuotes(parts[4] ?? '') || 'rollup_stableford',
       scoringFormat: parts[5] ? stripQuotes(parts[5]).toLowerCase() : 'stableford',
       isMultiDay,
     });
@@ -133,14 +135,6 @@ function parsePlayerName(player: string): { firstName: string; lastName: string
   };
 }
 
-// NOTE: This handles 2024, 2025, and 2026 seasons. When a new season field is added
-// to the model (e.g., stats2027), this function must be updated to include it.
-function getStatsKey(season: number): 'stats2024' | 'stats2025' | 'stats2026' {
-  if (season === 2026) return 'stats2026';
-  if (season === 2025) return 'stats2025';
-  return 'stats2024';
-}
-
 export async function processSeasonUpload(csvText: string): Promise<SeasonUploadResult> {
   const { db } = await connectToDatabase();
   const golfersCol = db.collection<GolferDocument>(GOLFERS_COLLECTION);
@@ -150,6 +144,13 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
 
   const allSeasons = await seasonsCol.find({}).sort({ startDate: -1 }).toArray();
 
+  // The type column may hold a type's key or its name ("weekend_medal" or "Weekend Medal")
+  const typesByKey = new Map<string, TournamentTypeConfig>();
+  for (const type of await getTournamentTypes()) {
+    typesByKey.set(toTournamentTypeKey(type.label), type);
+    typesByKey.set(type.key, type);
+  }
+
   const rows = parseCsv(csvText);
 
   // Group rows by date
@@ -159,6 +160,11 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
     existing.push(row);
     dateGroups.set(row.date, existing);
   }
+  for (const group of dateGroups.values()) {
+    for (const row of group) {
+      row.tied = group.some((other) => other !== row && other.position === row.position);
+    }
+  }
 
   let tournamentsCreated = 0;
   let scoresEntered = 0;
@@ -166,7 +172,9 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
   const updatedGolferIds = new Set<string>();
   const affectedGolferIds = new Set<string>();
   const unmatchedDates: string[] = [];
+  const unknownTypeDates: string[] = [];
   const seasonsAffected = new Set<string>();
+  const rulesBySeason = new Map<number, ScoringRules>();
 
   for (const [dateStr, group] of dateGroups) {
     const date = parseDate(dateStr);
@@ -177,19 +185,28 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
       continue;
     }
 
+    // Get tournament type, scoring format, and multi-day from the first row in the group
+    const typeConfig = typesByKey.get(toTournamentTypeKey(group[0].tournamentType));
+    if (!typeConfig) {
+      unknownTypeDates.push(dateStr);
+      continue;
+    }
+
     const seasonNumber = parseInt(matchedSeason.name, 10) || 0;
     seasonsAffected.add(matchedSeason.name);
     const name = formatTournamentName(dateStr);
     const tier = getGolferCountTier(group.length);
 
-    // Get tournament type, scoring format, and multi-day from the first row in the group
-    const csvType = (group[0].tournamentType || 'rollup_stableford') as TournamentType;
     const csvScoringFormat = (group[0].scoringFormat || 'stableford') as ScoringFormat;
     const csvMultiDay = group[0].isMultiDay;
-    const typeConfig = TOURNAMENT_TYPE_CONFIG[csvType];
-    const multiplier = typeConfig?.multiplier ?? 1;
+    if (!rulesBySeason.has(seasonNumber)) {
+      rulesBySeason.set(seasonNumber, await getScoringRules(seasonNumber));
+    }
+    const rules = rulesBySeason.get(seasonNumber)!;
+    const multiplier = getMultiplierForType(typeConfig.key, rules, typeConfig.multiplier);
     const isMultiDay = csvMultiDay; // Use CSV value directly (Yes/No from column 7)
-    const scoringFormat = typeConfig?.forcedScoringFormat ?? csvScoringFormat;
+    const scoringFormat = typeConfig.forcedScoringFormat ?? csvScoringFormat;
+    const tiedCounts = countTiedPositions(group);
 
     // Find or create tournament
     const tournament = await tournamentsCol.findOne({ name, season: seasonNumber });
@@ -203,7 +220,7 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
         name,
         startDate: date,
         endDate: date,
-        tournamentType: csvType,
+        tournamentType: typeConfig.key,
         scoringFormat,
         isMultiDay,
         multiplier,
@@ -241,9 +258,7 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
           picture: '',
           price: 1,
           isActive: true,
-          stats2024: { ...defaultStats2024 },
-          stats2025: { ...defaultStats2025 },
-          stats2026: { ...defaultStats2026 },
+          statsBySeason: {},
           createdAt: now,
           updatedAt: now,
         };
@@ -254,11 +269,14 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
 
       affectedGolferIds.add(golferId.toString());
 
-      // Calculate points using tournament's scoring format and multi-day setting
-      const basePoints = getBasePointsForPosition(row.position);
+      // Calculate points using the season's ruleset and the tournament's format and multi-day setting
       const rawScore = row.rawScore;
-      const bonusPoints = getBonusPoints(rawScore, scoringFormat, isMultiDay);
-      const multipliedPoints = (basePoints + bonusPoints) * multiplier;
+      const { basePoints, bonusPoints, multipliedPoints } = calculateScorePoints(
+        { participated: true, position: row.position, rawScore, tied: row.tied },
+        { tournamentType: typeConfig.key, scoringFormat, isMultiDay },
+        rules,
+        tiedCounts
+      );
 
       // Upsert score
       const now = new Date();
@@ -268,6 +286,7 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
           $set: {
             participated: true,
             position: row.position,
+            tied: row.tied,
             rawScore,
             basePoints,
             bonusPoints,
@@ -293,43 +312,10 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
   }
 
   // Recalculate stats for all affected golfers, per season
+  const affectedObjectIds = [...affectedGolferIds].map((id) => new ObjectId(id));
   for (const seasonDoc of allSeasons) {
     const seasonNumber = parseInt(seasonDoc.name, 10) || 0;
-    const statsKey = getStatsKey(seasonNumber);
-
-    const seasonTournamentIds = await tournamentsCol
-      .find({ season: seasonNumber })
-      .project<{ _id: ObjectId }>({ _id: 1 })
-      .toArray();
-    const tournamentIds = seasonTournamentIds.map((t) => t._id);
-
-    if (tournamentIds.length === 0) continue;
-
-    for (const golferIdStr of affectedGolferIds) {
-      const golferId = new ObjectId(golferIdStr);
-
-      const scores = await scoresCol
-        .find({
-          golferId,
-          tournamentId: { $in: tournamentIds },
-          participated: true,
-        })
-        .toArray();
-
-      const stats = {
-        timesPlayed: scores.length,
-        timesScored36Plus: scores.filter((s) => (s.rawScore ?? 0) >= 36).length,
-        timesScored32Plus: scores.filter((s) => (s.rawScore ?? 0) >= 32).length,
-        timesFinished1st: scores.filter((s) => s.position === 1).length,
-        timesFinished2nd: scores.filter((s) => s.position === 2).length,
-        timesFinished3rd: scores.filter((s) => s.position === 3).length,
-      };
-
-      await golfersCol.updateOne(
-        { _id: golferId },
-        { $set: { [statsKey]: stats, updatedAt: new Date() } }
-      );
-    }
+    await refreshGolferSeasonStats(db, seasonNumber, affectedObjectIds);
   }
 
   // Golfers that were found (not created) — exclude any that were created in this same upload
@@ -344,6 +330,9 @@ export async function processSeasonUpload(csvText: string): Promise<SeasonUpload
   if (unmatchedDates.length > 0) {
     summary += ` Warning: ${unmatchedDates.length} dates did not match any season: ${unmatchedDates.join(', ')}.`;
   }
+  if (unknownTypeDates.length > 0) {
+    summary += ` Warning: ${unknownTypeDates.length} dates had an unknown tournament type: ${unknownTypeDates.join(', ')}.`;
+  }
 
   return {
     golfersCreated,
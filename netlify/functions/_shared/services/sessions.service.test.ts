@@ -0,0 +1,117 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { listSessions, revokeOtherSessions, revokeSession } from './sessions.service';
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+
+const now = new Date('2026-05-09T08:00:00Z');
+const active = {
+  userId: 'user-1',
+  revokedAt: { $exists: false },
+  expiresAt: { $gt: now },
+};
+
+const laptop = {
+  _id: new ObjectId(),
+  tokenHash: 'laptop-hash',
+  userId: 'user-1',
+  expiresAt: new Date('2026-06-08T08:00:00Z'),
+  createdAt: new Date('2026-05-09T07:45:00Z'),
+  userAgent:
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+  ipAddress: '203.0.113.5',
+};
+const phone = {
+  _id: new ObjectId(),
+  tokenHash: 'phone-hash',
+  userId: 'user-1',
+  expiresAt: new Date('2026-06-01T08:00:00Z'),
+  createdAt: new Date('2026-05-02T18:00:00Z'),
+  userAgent:
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+};
+
+describe('sessions.service', () => {
+  let refreshTokens: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    refreshTokens = {
+      find: vi.fn().mockReturnValue(mockCursor([laptop, phone])),
+      updateOne: vi.fn().mockResolvedValue({ matchedCount: 1 }),
+      updateMany: vi.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    const { mockDb } = createMockDb({ refreshTokens });
+    vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+  });
+
+  describe('listSessions', () => {
+    it('lists active sessions with the current one marked', async () => {
+      const sessions = await listSessions('user-1', 'laptop-hash', now);
+
+      expect(refreshTokens.find).toHaveBeenCalledWith(active);
+      expect(sessions).toEqual([
+        {
+          id: laptop._id.toString(),
+          device: 'Chrome on Windows',
+          ipAddress: '203.0.113.5',
+          lastUsedAt: laptop.createdAt,
+          current: true,
+        },
+        {
+          id: phone._id.toString(),
+          device: 'Safari on iPhone',
+          ipAddress: null,
+          lastUsedAt: phone.createdAt,
+          current: false,
+        },
+      ]);
+    });
+
+    it('marks no session as current without a refresh cookie', async () => {
+      const sessions = await listSessions('user-1', null, now);
+
+      expect(sessions.every((s) => !s.current)).toBe(true);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it("revokes one of the user's sessions", async () => {
+      await revokeSession('user-1', phone._id.toString(), now);
+
+      expect(refreshTokens.updateOne).toHaveBeenCalledWith(
+        { _id: phone._id, ...active },
+        { $set: { revokedAt: now } }
+      );
+    });
+
+    it("throws for a session that isn't the user's or has ended", async () => {
+      refreshTokens.updateOne.mockResolvedValue({ matchedCount: 0 });
+
+      await expect(revokeSession('user-2', phone._id.toString(), now)).rejects.toThrow(
+        'Session not found'
+      );
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('keeps the current session signed in', async () => {
+      const count = await revokeOtherSessions('user-1', 'laptop-hash', now);
+
+      expect(count).toBe(1);
+      expect(refreshTokens.updateMany).toHaveBeenCalledWith(
+        { ...active, tokenHash: { $ne: 'laptop-hash' } },
+        { $set: { revokedAt: now } }
+      );
+    });
+
+    it('signs out everything when there is no current session', async () => {
+      await revokeOtherSessions('user-1', null, now);
+
+      expect(refreshTokens.updateMany).toHaveBeenCalledWith(active, {
+        $set: { revokedAt: now },
+      });
+    });
+  });
+});
@@ -0,0 +1,76 @@
+// Sessions service - list and sign out the devices a manager is signed in on
+
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import {
+  RefreshTokenDocument,
+  toActiveSession,
+  REFRESH_TOKENS_COLLECTION,
+} from '../models/RefreshToken';
+import type { ActiveSession } from '../../../../shared/types';
+
+// Unrevoked and unexpired refresh tokens are the sessions still signed in
+const activeFilter = (userId: string, now: Date) => ({
+  userId,
+  revokedAt: { $exists: false },
+  expiresAt: { $gt: now },
+});
+
+/**
+ * The user's signed-in sessions, most recently used first. `currentTokenHash` marks
+ * the one the request came from.
+ */
+export async function listSessions(
+  userId: string,
+  currentTokenHash?: string | null,
+  now: Date = new Date()
+): Promise<ActiveSession[]> {
+  const { db } = await connectToDatabase();
+  const tokens = await db
+    .collection<RefreshTokenDocument>(REFRESH_TOKENS_COLLECTION)
+    .find(activeFilter(userId, now))
+    .sort({ createdAt: -1 })
+    .toArray();
+
+  return tokens.map((doc) => toActiveSession(doc, currentTokenHash));
+}
+
+/**
+ * Sign out one session. The device keeps its access token until it expires, but
+ * can't refresh it.
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const { db } = await connectToDatabase();
+  const result = await db
+    .collection<RefreshTokenDocument>(REFRESH_TOKENS_COLLECTION)
+    .updateOne(
+      { _id: new ObjectId(sessionId), ...activeFilter(userId, now) },
+      { $set: { revokedAt: now } }
+    );
+  if (result.matchedCount === 0) {
+    throw new Error('Session not found');
+  }
+}
+
+/**
+ * Sign out every session except the one the request came from. Returns how many
+ * were signed out.
+ */
+export async function revokeOtherSessions(
+  userId: string,
+  currentTokenHash: string | null,
+  now: Date = new Date()
+): Promise<number> {
+  const { db } = await connectToDatabase();
+  const filter = currentTokenHash
+    ? { ...activeFilter(userId, now), tokenHash: { $ne: currentTokenHash } }
+    : activeFilter(userId, now);
+  const result = await db
+    .collection<RefreshTokenDocument>(REFRESH_TOKENS_COLLECTION)
+    .updateMany(filter, { $set: { revokedAt: now } });
+  return result.modifiedCount;
+}
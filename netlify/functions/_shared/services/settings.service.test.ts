@@ -112,7 +112,7 @@ describe('settings.service', () => {
 
   describe('getAppSettings', () => {
     it('returns defaults when no settings configured', async () => {
-      mockRedis.mget.mockResolvedValue([null, null, null, null, null]);
+      mockRedis.mget.mockResolvedValue([null, null, null, null, null, null]);
 
       const result = await getAppSettings();
 
@@ -122,11 +122,12 @@ describe('settings.service', () => {
         allowNewTeamCreation: true,
         maxTransfersPerWeek: 1,
         maxPlayersPerTransfer: 6,
+        transferPenaltyPoints: 4,
       });
     });
 
     it('returns stored settings when they exist', async () => {
-      mockRedis.mget.mockResolvedValue([null, null, null, null, null]);
+      mockRedis.mget.mockResolvedValue([null, null, null, null, null, null]);
       mockSettingsCollection.find.mockReturnValue({
         toArray: vi.fn().mockResolvedValue([
           { key: 'transfersOpen', value: true },
@@ -134,6 +135,7 @@ describe('settings.service', () => {
           { key: 'allowNewTeamCreation', value: false },
           { key: 'maxTransfersPerWeek', value: 3 },
           { key: 'maxPlayersPerTransfer', value: 2 },
+          { key: 'transferPenaltyPoints', value: 8 },
         ]),
       });
 
@@ -142,6 +144,7 @@ describe('settings.service', () => {
       expect(result.transfersOpen).toBe(true);
       expect(result.registrationOpen).toBe(false);
       expect(result.maxTransfersPerWeek).toBe(3);
+      expect(result.transferPenaltyPoints).toBe(8);
     });
   });
 
@@ -221,6 +224,7 @@ describe('settings.service', () => {
       allowNewTeamCreation: false,
       maxTransfersPerWeek: 3,
       maxPlayersPerTransfer: 2,
+      transferPenaltyPoints: 4,
     };
 
     it('returns cached value from Redis when available', async () => {
@@ -255,7 +259,7 @@ describe('settings.service', () => {
       mockRedis.get.mockResolvedValue(null);
       mockSettingsCollection.findOne.mockResolvedValue(null);
       // getAppSettings will call getSettings which uses mget
-      mockRedis.mget.mockResolvedValue([null, null, null, null, null]);
+      mockRedis.mget.mockResolvedValue([null, null, null, null, null, null]);
 
       const result = await getAppSettingsDoc();
 
@@ -265,6 +269,7 @@ describe('settings.service', () => {
         allowNewTeamCreation: true,
         maxTransfersPerWeek: 1,
         maxPlayersPerTransfer: 6,
+        transferPenaltyPoints: 4,
       });
     });
   });
@@ -276,6 +281,7 @@ describe('settings.service', () => {
       allowNewTeamCreation: true,
       maxTransfersPerWeek: 2,
       maxPlayersPerTransfer: 4,
+      transferPenaltyPoints: 0,
     };
 
     it('upserts consolidated doc and invalidates cache', async () => {
@@ -127,6 +127,7 @@ export async function getAppSettings(): Promise<AppSettings> {
     'allowNewTeamCreation',
     'maxTransfersPerWeek',
     'maxPlayersPerTransfer',
+    'transferPenaltyPoints',
   ];
   const settings = await getSettings(keys);
 
@@ -136,6 +137,7 @@ export async function getAppSettings(): Promise<AppSettings> {
     allowNewTeamCreation: (settings.get('allowNewTeamCreation') as boolean) ?? true,
     maxTransfersPerWeek: (settings.get('maxTransfersPerWeek') as number) ?? 1,
     maxPlayersPerTransfer: (settings.get('maxPlayersPerTransfer') as number) ?? 6,
+    transferPenaltyPoints: (settings.get('transferPenaltyPoints') as number) ?? 4,
   };
 }
 
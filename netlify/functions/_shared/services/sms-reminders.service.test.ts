@@ -0,0 +1,230 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import { getActiveSeason } from './seasons.service';
+import { getAppSettings } from './settings.service';
+import {
+  getSmsReminderPreferences,
+  sendSmsReminders,
+  updateSmsReminderPreferences,
+} from './sms-reminders.service';
+
+const { mockLogger } = vi.hoisted(() => ({
+  mockLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('../utils/logger', () => ({ createLogger: () => mockLogger }));
+vi.mock('../twilio', () => ({ twilioSmsSender: { send: vi.fn() } }));
+vi.mock('./seasons.service', () => ({ getActiveSeason: vi.fn() }));
+vi.mock('./settings.service', () => ({ getAppSettings: vi.fn() }));
+
+const fridayNoon = new Date(2026, 4, 15, 12); // Deadline is 8am Saturday 16 May
+const deadline = new Date(2026, 4, 16, 8);
+
+const golferA = new ObjectId();
+const retired = { _id: new ObjectId(), firstName: 'Old', lastName: 'Tom' };
+
+const makeUser = (smsReminders: Record<string, unknown> = {}) => ({
+  _id: new ObjectId(),
+  phoneNumber: '+447123456789',
+  phoneVerified: true,
+  smsReminders: {
+    enabled: true,
+    types: ['transfer_deadline', 'no_captain', 'inactive_golfer'],
+    quietHoursStart: 22,
+    quietHoursEnd: 8,
+    ...smsReminders,
+  },
+});
+
+describe('sms-reminders.service', () => {
+  let users: Record<string, ReturnType<typeof vi.fn>>;
+  let picks: Record<string, ReturnType<typeof vi.fn>>;
+  let golfers: Record<string, ReturnType<typeof vi.fn>>;
+  let smsReminderLog: Record<string, ReturnType<typeof vi.fn>>;
+  let sender: { send: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    users = {
+      find: vi.fn().mockReturnValue(mockCursor([])),
+      findOne: vi.fn().mockResolvedValue(null),
+      updateOne: vi.fn(),
+    };
+    picks = { find: vi.fn().mockReturnValue(mockCursor([])) };
+    golfers = { find: vi.fn().mockReturnValue(mockCursor([])) };
+    smsReminderLog = { find: vi.fn().mockReturnValue(mockCursor([])), insertOne: vi.fn() };
+    sender = { send: vi.fn().mockResolvedValue(undefined) };
+    const { mockDb } = createMockDb({ users, picks, golfers, smsReminderLog });
+    vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+    vi.mocked(getActiveSeason).mockResolvedValue({ name: '2026' } as any);
+    vi.mocked(getAppSettings).mockResolvedValue({ transfersOpen: true } as any);
+  });
+
+  describe('sendSmsReminders', () => {
+    it('texts each reminder that applies in the day before the deadline', async () => {
+      const user = makeUser();
+      users.find.mockReturnValue(mockCursor([user]));
+      picks.find.mockReturnValue(
+        mockCursor([
+          { userId: user._id, golferIds: [golferA, retired._id], benchIds: [], captainId: null },
+        ])
+      );
+      golfers.find.mockReturnValue(mockCursor([retired]));
+
+      const result = await sendSmsReminders(sender, fridayNoon);
+
+      expect(result).toEqual({ deadline, sent: 3, failed: 0 });
+      expect(users.find).toHaveBeenCalledWith({
+        'smsReminders.enabled': true,
+        phoneVerified: true,
+        phoneNumber: { $ne: null },
+      });
+      expect(picks.find).toHaveBeenCalledWith({ season: 2026, userId: { $in: [user._id] } });
+      expect(sender.send).toHaveBeenCalledWith(
+        '+447123456789',
+        expect.stringContaining('Transfers close at 8am on Saturday')
+      );
+      expect(sender.send).toHaveBeenCalledWith(
+        '+447123456789',
+        expect.stringContaining('Your team has no captain')
+      );
+      expect(sender.send).toHaveBeenCalledWith(
+        '+447123456789',
+        expect.stringContaining('Old Tom is no longer active')
+      );
+      expect(smsReminderLog.insertOne).toHaveBeenCalledWith({
+        userId: user._id,
+        type: 'no_captain',
+        deadline,
+        sentAt: expect.any(Date),
+      });
+    });
+
+    it('does nothing more than a day before the deadline', async () => {
+      const result = await sendSmsReminders(sender, new Date(2026, 4, 14, 12));
+
+      expect(result).toEqual({ deadline, sent: 0, failed: 0 });
+      expect(users.find).not.toHaveBeenCalled();
+    });
+
+    it('skips reminders already sent and those the manager has turned off', async () => {
+      const user = makeUser({ types: ['transfer_deadline', 'no_captain'] });
+      users.find.mockReturnValue(mockCursor([user]));
+      picks.find.mockReturnValue(
+        mockCursor([{ userId: user._id, golferIds: [retired._id], captainId: null }])
+      );
+      golfers.find.mockReturnValue(mockCursor([retired]));
+      smsReminderLog.find.mockReturnValue(
+        mockCursor([{ userId: user._id, type: 'transfer_deadline' }])
+      );
+
+      const result = await sendSmsReminders(sender, fridayNoon);
+
+      expect(result.sent).toBe(1);
+      expect(sender.send).toHaveBeenCalledTimes(1);
+      expect(sender.send).toHaveBeenCalledWith(
+        '+447123456789',
+        expect.stringContaining('no captain')
+      );
+    });
+
+    it('holds reminders back during quiet hours', async () => {
+      users.find.mockReturnValue(mockCursor([makeUser()]));
+
+      const result = await sendSmsReminders(sender, new Date(2026, 4, 15, 23, 30));
+
+      expect(result.sent).toBe(0);
+      expect(sender.send).not.toHaveBeenCalled();
+    });
+
+    it('only reminds about the deadline while transfers are open', async () => {
+      vi.mocked(getAppSettings).mockResolvedValue({ transfersOpen: false } as any);
+      users.find.mockReturnValue(mockCursor([makeUser()]));
+
+      const result = await sendSmsReminders(sender, fridayNoon);
+
+      expect(result.sent).toBe(0);
+    });
+
+    it('does not log a failed send so it is retried', async () => {
+      const user = makeUser();
+      users.find.mockReturnValue(mockCursor([user]));
+      sender.send.mockRejectedValue(new Error('Twilio unavailable'));
+
+      const result = await sendSmsReminders(sender, fridayNoon);
+
+      expect(result).toEqual({ deadline, sent: 0, failed: 1 });
+      expect(smsReminderLog.insertOne).not.toHaveBeenCalled();
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'Sending SMS reminder failed',
+        expect.any(Error),
+        expect.objectContaining({ userId: user._id.toString() })
+      );
+    });
+
+    it('sends nothing without an active season', async () => {
+      vi.mocked(getActiveSeason).mockResolvedValue(null);
+
+      await sendSmsReminders(sender, fridayNoon);
+
+      expect(users.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSmsReminderPreferences', () => {
+    it('defaults to opted out', async () => {
+      users.findOne.mockResolvedValue({ _id: new ObjectId(), phoneVerified: true });
+
+      const preferences = await getSmsReminderPreferences(new ObjectId().toString());
+
+      expect(preferences.enabled).toBe(false);
+    });
+
+    it('throws when the user does not exist', async () => {
+      await expect(getSmsReminderPreferences(new ObjectId().toString())).rejects.toThrow(
+        'User not found'
+      );
+    });
+  });
+
+  describe('updateSmsReminderPreferences', () => {
+    const preferences = {
+      enabled: true,
+      types: ['no_captain' as const],
+      quietHoursStart: 21,
+      quietHoursEnd: 7,
+    };
+
+    it('saves the preferences on the user', async () => {
+      const userId = new ObjectId();
+      users.findOne.mockResolvedValue({
+        _id: userId,
+        phoneNumber: '+447123456789',
+        phoneVerified: true,
+      });
+
+      const saved = await updateSmsReminderPreferences(userId.toString(), preferences);
+
+      expect(saved).toEqual(preferences);
+      expect(users.updateOne).toHaveBeenCalledWith(
+        { _id: userId },
+        { $set: { smsReminders: preferences, updatedAt: expect.any(Date) } }
+      );
+    });
+
+    it('refuses to turn reminders on before the phone is verified', async () => {
+      users.findOne.mockResolvedValue({
+        _id: new ObjectId(),
+        phoneNumber: '+447123456789',
+        phoneVerified: false,
+      });
+
+      await expect(
+        updateSmsReminderPreferences(new ObjectId().toString(), preferences)
+      ).rejects.toThrow('Verify your phone number before turning on SMS reminders');
+      expect(users.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
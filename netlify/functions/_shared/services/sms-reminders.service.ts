@@ -0,0 +1,203 @@
+// SMS reminders service - text opted-in managers ahead of the weekly transfer deadline
+
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { GolferDocument, GOLFERS_COLLECTION } from '../models/Golfer';
+import { PickDocument, PICKS_COLLECTION } from '../models/Pick';
+import {
+  SmsReminderLogDocument,
+  toSmsReminderPreferences,
+  SMS_REMINDER_LOG_COLLECTION,
+} from '../models/SmsReminder';
+import { UserDocument, USERS_COLLECTION } from '../models/User';
+import { SmsSender, twilioSmsSender } from '../twilio';
+import { getNextTransferDeadline } from '../utils/dates';
+import { createLogger } from '../utils/logger';
+import { getActiveSeason } from './seasons.service';
+import { getAppSettings } from './settings.service';
+import type { SmsReminderPreferences, SmsReminderType } from '../../../../shared/types';
+
+export interface SmsReminderRunResult {
+  deadline: Date;
+  sent: number;
+  failed: number;
+}
+
+type ReminderRecipient = Pick<UserDocument, '_id' | 'phoneNumber' | 'smsReminders'>;
+
+// Reminders go out in the 24 hours before the Saturday 8am deadline
+const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const SIGN_OFF = ' - Bearwood Lakes Fantasy League';
+
+const logger = createLogger({ endpoint: 'sms-reminders' });
+
+const ukHour = (date: Date): number =>
+  Number(
+    new Intl.DateTimeFormat('en-GB', {
+      hour: 'numeric',
+      hourCycle: 'h23',
+      timeZone: 'Europe/London',
+    }).format(date)
+  );
+
+function isQuietHour(preferences: SmsReminderPreferences, hour: number): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = preferences;
+  if (start === null || end === null || start === end) return false;
+  // Quiet hours usually run overnight, e.g. 22 to 8
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+async function findUser(userId: string): Promise<UserDocument> {
+  const { db } = await connectToDatabase();
+  const user = await db
+    .collection<UserDocument>(USERS_COLLECTION)
+    .findOne({ _id: new ObjectId(userId) });
+  if (!user) {
+    throw new Error('User not found');
+  }
+  return user;
+}
+
+export async function getSmsReminderPreferences(userId: string): Promise<SmsReminderPreferences> {
+  const user = await findUser(userId);
+  return toSmsReminderPreferences(user.smsReminders);
+}
+
+/**
+ * Save a manager's reminder preferences. Reminders can only be turned on once the
+ * manager's mobile number has been verified.
+ */
+export async function updateSmsReminderPreferences(
+  userId: string,
+  data: SmsReminderPreferences
+): Promise<SmsReminderPreferences> {
+  const user = await findUser(userId);
+  if (data.enabled && (!user.phoneVerified || !user.phoneNumber)) {
+    throw new Error('Verify your phone number before turning on SMS reminders');
+  }
+
+  const preferences = toSmsReminderPreferences(data);
+  const { db } = await connectToDatabase();
+  await db
+    .collection<UserDocument>(USERS_COLLECTION)
+    .updateOne({ _id: user._id }, { $set: { smsReminders: preferences, updatedAt: new Date() } });
+  return preferences;
+}
+
+/**
+ * Text each opted-in manager the reminders that apply to them in the 24 hours before
+ * the next transfer deadline. Each reminder is sent at most once per deadline; one held
+ * back by quiet hours or a failed send goes out on a later run inside the window.
+ */
+export async function sendSmsReminders(
+  sender: SmsSender = twilioSmsSender,
+  now: Date = new Date()
+): Promise<SmsReminderRunResult> {
+  const deadline = getNextTransferDeadline(now);
+  const result: SmsReminderRunResult = { deadline, sent: 0, failed: 0 };
+  if (deadline.getTime() - now.getTime() > REMINDER_WINDOW_MS) return result;
+
+  const season = await getActiveSeason();
+  if (!season) return result;
+
+  const { db } = await connectToDatabase();
+  const hour = ukHour(now);
+  const recipients = (
+    await db
+      .collection<UserDocument>(USERS_COLLECTION)
+      .find({ 'smsReminders.enabled': true, phoneVerified: true, phoneNumber: { $ne: null } })
+      .project<ReminderRecipient>({ phoneNumber: 1, smsReminders: 1 })
+      .toArray()
+  ).filter((user) => !isQuietHour(toSmsReminderPreferences(user.smsReminders), hour));
+  if (recipients.length === 0) return result;
+
+  const userIds = recipients.map((user) => user._id);
+  const log = db.collection<SmsReminderLogDocument>(SMS_REMINDER_LOG_COLLECTION);
+  const [settings, picks, alreadySent] = await Promise.all([
+    getAppSettings(),
+    db
+      .collection<PickDocument>(PICKS_COLLECTION)
+      .find({ season: parseInt(season.name, 10), userId: { $in: userIds } })
+      .toArray(),
+    log
+      .find({ deadline, userId: { $in: userIds } })
+      .project<Pick<SmsReminderLogDocument, 'userId' | 'type'>>({ userId: 1, type: 1 })
+      .toArray(),
+  ]);
+
+  const picksByUser = new Map(picks.map((pick) => [pick.userId.toString(), pick]));
+  const sent = new Set(alreadySent.map((entry) => `${entry.userId}:${entry.type}`));
+
+  const squadIds = picks.flatMap((pick) => [...pick.golferIds, ...(pick.benchIds ?? [])]);
+  const inactiveGolfers =
+    squadIds.length > 0
+      ? await db
+          .collection<GolferDocument>(GOLFERS_COLLECTION)
+          .find({ _id: { $in: squadIds }, isActive: false })
+          .project<Pick<GolferDocument, '_id' | 'firstName' | 'lastName'>>({
+            firstName: 1,
+            lastName: 1,
+          })
+          .toArray()
+      : [];
+  const inactiveNames = new Map(
+    inactiveGolfers.map((g) => [g._id.toString(), `${g.firstName} ${g.lastName}`])
+  );
+
+  const messagesFor = (pick: PickDocument | undefined): Map<SmsReminderType, string> => {
+    const messages = new Map<SmsReminderType, string>();
+    if (settings.transfersOpen) {
+      messages.set(
+        'transfer_deadline',
+        'Transfers close at 8am on Saturday. Make any changes to your team before then.'
+      );
+    }
+    if (pick && !pick.captainId) {
+      messages.set(
+        'no_captain',
+        'Your team has no captain. Pick one before 8am on Saturday to double their points.'
+      );
+    }
+    const inactive = [...(pick?.golferIds ?? []), ...(pick?.benchIds ?? [])]
+      .map((id) => inactiveNames.get(id.toString()))
+      .filter((name): name is string => !!name);
+    if (inactive.length > 0) {
+      messages.set(
+        'inactive_golfer',
+        `${inactive.join(', ')} ${inactive.length === 1 ? 'is' : 'are'} no longer active. Transfer them out before 8am on Saturday.`
+      );
+    }
+    return messages;
+  };
+
+  for (const user of recipients) {
+    const preferences = toSmsReminderPreferences(user.smsReminders);
+    const messages = messagesFor(picksByUser.get(user._id.toString()));
+
+    for (const [type, message] of messages) {
+      if (!preferences.types.includes(type) || sent.has(`${user._id}:${type}`)) continue;
+
+      try {
+        await sender.send(user.phoneNumber!, message + SIGN_OFF);
+      } catch (error) {
+        // Left out of the log so the next run tries again
+        logger.error('Sending SMS reminder failed', error instanceof Error ? error : undefined, {
+          userId: user._id.toString(),
+          reminderType: type,
+        });
+        result.failed++;
+        continue;
+      }
+      await log.insertOne({
+        userId: user._id,
+        type,
+        deadline,
+        sentAt: new Date(),
+      } as SmsReminderLogDocument);
+      result.sent++;
+    }
+  }
+
+  return result;
+}
@@ -1,5 +1,14 @@
 import { ObjectId, type Db } from 'mongodb';
-import { getTeamGolferScores, getTeamTransferHistory } from './team.service';
+import {
+  applyAutoSubs,
+  buildTeamSnapshots,
+  calculateSnapshotPoints,
+  getSnapshotAt,
+  getTeamGolferScores,
+  getTeamTransferHistory,
+  sumPenaltyPoints,
+  type TeamSnapshot,
+} from './team.service';
 import type { GolferDocument } from '../models/Golfer';
 import type { TournamentDocument } from '../models/Tournament';
 import type { ScoreDocument } from '../models/Score';
@@ -52,9 +61,7 @@ function makeGolfer(id: ObjectId, first: string, last: string): GolferDocument {
     picture: '',
     price: 10_000_000,
     isActive: true,
-    stats2024: {} as any,
-    stats2025: {} as any,
-    stats2026: {} as any,
+    statsBySeason: {},
     createdAt: new Date('2025-01-01'),
     updatedAt: new Date('2025-01-01'),
   };
@@ -103,12 +110,25 @@ function makeScore(
   };
 }
 
+function makeSnapshot(
+  golferIds: ObjectId[],
+  captainId: ObjectId | null,
+  effectiveFrom: Date,
+): TeamSnapshot {
+  return {
+    golferIds: golferIds.map((id) => id.toString()),
+    captainId: captainId?.toString() ?? null,
+    effectiveFrom,
+  };
+}
+
 describe('getTeamGolferScores', () => {
   // Use a known date range for the selected week — Saturday Jan 4 to Friday Jan 10 2025
   const selectedWeekStart = new Date('2025-01-04T00:00:00.000Z');
   const selectedWeekEnd = new Date('2025-01-10T23:59:59.999Z');
   const seasonStartDate = new Date('2025-01-01');
   const teamEffectiveStart = new Date('2025-01-01');
+  const team = makeSnapshot([golferId1, golferId2], null, teamEffectiveStart);
 
   it('computes week, month, and season points for golfers', () => {
     const golfers = [makeGolfer(golferId1, 'Rory', 'McIlroy')];
@@ -123,10 +143,9 @@ describe('getTeamGolferScores', () => {
       tournaments,
       scores,
       seasonStartDate,
-      null,
+      [team],
       selectedWeekStart,
       selectedWeekEnd,
-      teamEffectiveStart,
     );
 
     expect(result).toHaveLength(1);
@@ -150,10 +169,9 @@ describe('getTeamGolferScores', () => {
       tournaments,
       scores,
       seasonStartDate,
-      golferId1.toString(), // captain
+      [makeSnapshot([golferId1, golferId2], golferId1, teamEffectiveStart)], // captain
       selectedWeekStart,
       selectedWeekEnd,
-      teamEffectiveStart,
     );
 
     expect(result[0].isCaptain).toBe(true);
@@ -174,10 +192,9 @@ describe('getTeamGolferScores', () => {
       tournaments,
       scores,
       seasonStartDate,
-      null,
+      [makeSnapshot([golferId1, golferId2], null, lateTeamStart)],
       selectedWeekStart,
       selectedWeekEnd,
-      lateTeamStart,
     );
 
     expect(result[0].weekPoints).toBe(0);
@@ -200,10 +217,9 @@ describe('getTeamGolferScores', () => {
       tournaments,
       scores,
       seasonStartDate,
-      null,
+      [team],
       selectedWeekStart,
       selectedWeekEnd,
-      teamEffectiveStart,
     );
 
     expect(result[0].weekPoints).toBe(30);
@@ -228,10 +244,9 @@ describe('getTeamGolferScores', () => {
       tournaments,
       scores,
       seasonStartDate,
-      null,
+      [team],
       selectedWeekStart,
       selectedWeekEnd,
-      teamEffectiveStart,
     );
 
     expect(result[0].golfer.firstName).toBe('High');
@@ -245,16 +260,350 @@ describe('getTeamGolferScores', () => {
       [],
       [],
       seasonStartDate,
-      null,
+      [team],
       selectedWeekStart,
       selectedWeekEnd,
-      teamEffectiveStart,
     );
 
     expect(result[0].weekPoints).toBe(0);
     expect(result[0].seasonPoints).toBe(0);
     expect(result[0].weekScores).toHaveLength(0);
   });
+
+  it('only credits scores from weeks the golfer was in the team', () => {
+    const golfers = [
+      makeGolfer(golferId1, 'Sold', 'Golfer'),
+      makeGolfer(golferId2, 'New', 'Signing'),
+    ];
+    const tournaments = [
+      makeTournament(tournamentId1, 'Before Transfer', new Date('2025-01-05')),
+      makeTournament(tournamentId2, 'After Transfer', new Date('2025-01-12')),
+    ];
+    const scores = [
+      makeScore(golferId1, tournamentId1, 20),
+      makeScore(golferId1, tournamentId2, 30),
+      makeScore(golferId2, tournamentId1, 40),
+      makeScore(golferId2, tournamentId2, 15),
+    ];
+    const snapshots = [
+      makeSnapshot([golferId1], golferId1, new Date('2025-01-01')),
+      makeSnapshot([golferId2], null, new Date('2025-01-11')),
+    ];
+
+    const result = getTeamGolferScores(
+      golfers,
+      tournaments,
+      scores,
+      seasonStartDate,
+      snapshots,
+      selectedWeekStart,
+      selectedWeekEnd,
+    );
+
+    const sold = result.find((g) => g.golfer.firstName === 'Sold')!;
+    const signing = result.find((g) => g.golfer.firstName === 'New')!;
+    expect(sold.seasonPoints).toBe(40); // 20 * 2 as captain, nothing after being sold
+    expect(sold.seasonScores).toHaveLength(1);
+    expect(sold.isCaptain).toBe(false); // not captain of the current team
+    expect(signing.seasonPoints).toBe(15); // nothing from before the transfer
+  });
+});
+
+describe('buildTeamSnapshots', () => {
+  it('falls back to the current pick when there is no history', () => {
+    const createdAt = new Date('2025-01-05');
+    const snapshots = buildTeamSnapshots({
+      golferIds: [golferId1, golferId2],
+      captainId: golferId1,
+      createdAt,
+    });
+
+    expect(snapshots).toEqual([
+      {
+        golferIds: [golferId1.toString(), golferId2.toString()],
+        benchIds: [],
+        captainId: golferId1.toString(),
+        viceCaptainId: null,
+        effectiveFrom: createdAt,
+      },
+    ]);
+  });
+
+  it('orders history and takes the captain recorded on each entry', () => {
+    const pick = { golferIds: [golferId2], captainId: golferId2, createdAt: new Date('2025-01-01') };
+    const snapshots = buildTeamSnapshots(pick, [
+      { golferIds: [golferId2], captainId: golferId2, changedAt: new Date('2025-02-01') },
+      { golferIds: [golferId1], captainId: golferId1, changedAt: new Date('2025-01-01') },
+    ]);
+
+    expect(snapshots.map((s) => s.captainId)).toEqual([
+      golferId1.toString(),
+      golferId2.toString(),
+    ]);
+    expect(snapshots[1].effectiveFrom).toEqual(new Date('2025-02-01'));
+  });
+
+  it('keeps the current captain on legacy entries only if that golfer was held', () => {
+    const pick = { golferIds: [golferId1], captainId: golferId1, createdAt: new Date('2025-01-01') };
+    const snapshots = buildTeamSnapshots(pick, [
+      { golferIds: [golferId2], changedAt: new Date('2025-01-01') },
+      { golferIds: [golferId1], changedAt: new Date('2025-02-01') },
+    ]);
+
+    expect(snapshots[0].captainId).toBeNull();
+    expect(snapshots[1].captainId).toBe(golferId1.toString());
+  });
+
+  it('ignores history from before the current team was created', () => {
+    const pick = { golferIds: [golferId2], captainId: null, createdAt: new Date('2025-03-01') };
+    const snapshots = buildTeamSnapshots(pick, [
+      { golferIds: [golferId1], captainId: null, changedAt: new Date('2025-01-01') },
+      { golferIds: [golferId2], captainId: null, changedAt: new Date('2025-03-01') },
+    ]);
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].golferIds).toEqual([golferId2.toString()]);
+  });
+
+  it('splits out a Triple Captain gameweek with the boosted multiplier', () => {
+    const pick = {
+      golferIds: [golferId1],
+      captainId: golferId1,
+      createdAt: new Date(2025, 0, 1),
+      chips: [{ chip: 'tripleCaptain' as const, weekStart: new Date(2025, 0, 11) }],
+    };
+    const snapshots = buildTeamSnapshots(pick);
+
+    expect(snapshots.map((s) => [s.effectiveFrom, s.captainMultiplier])).toEqual([
+      [new Date(2025, 0, 1), undefined],
+      [new Date(2025, 0, 11), 3],
+      [new Date(2025, 0, 18), undefined],
+    ]);
+  });
+
+  it('plays the bench alongside the starters in a Bench Boost gameweek', () => {
+    const pick = {
+      golferIds: [golferId1],
+      benchIds: [golferId2],
+      captainId: null,
+      createdAt: new Date(2025, 0, 1),
+      chips: [{ chip: 'benchBoost' as const, weekStart: new Date(2025, 0, 11) }],
+    };
+    const snapshots = buildTeamSnapshots(pick);
+
+    expect(snapshots.map((s) => s.golferIds)).toEqual([
+      [golferId1.toString()],
+      [golferId1.toString(), golferId2.toString()],
+      [golferId1.toString()],
+    ]);
+    expect(snapshots[1].benchIds).toEqual([]);
+  });
+
+  it('ignores chips that do not change scoring', () => {
+    const pick = {
+      golferIds: [golferId1],
+      captainId: golferId1,
+      createdAt: new Date(2025, 0, 1),
+      chips: [{ chip: 'wildcard' as const, weekStart: new Date(2025, 0, 11) }],
+    };
+
+    expect(buildTeamSnapshots(pick)).toHaveLength(1);
+  });
+});
+
+describe('applyAutoSubs', () => {
+  const benchId1 = new ObjectId();
+  const benchId2 = new ObjectId();
+  const tournamentDates = new Map([[tournamentId1.toString(), new Date(2025, 0, 12)]]);
+  const benchSnapshot = (): TeamSnapshot => ({
+    ...makeSnapshot([golferId1, golferId2], golferId1, new Date(2025, 0, 1)),
+    benchIds: [benchId1.toString(), benchId2.toString()],
+  });
+
+  it('replaces a starter who did not play with the first bench golfer who did', () => {
+    const scores = [
+      makeScore(golferId1, tournamentId1, 10),
+      { ...makeScore(golferId2, tournamentId1, 0), participated: false },
+      makeScore(benchId2, tournamentId1, 6),
+    ];
+
+    const snapshots = applyAutoSubs([benchSnapshot()], scores, tournamentDates);
+
+    expect(snapshots).toHaveLength(3);
+    expect(snapshots[1].effectiveFrom).toEqual(new Date(2025, 0, 11));
+    expect(snapshots[1].golferIds).toEqual([golferId1.toString(), benchId2.toString()]);
+    expect(snapshots[1].benchIds).toEqual([benchId1.toString(), golferId2.toString()]);
+    expect(snapshots[2].golferIds).toEqual([golferId1.toString(), golferId2.toString()]);
+  });
+
+  it('leaves the team alone when every starter played', () => {
+    const scores = [
+      makeScore(golferId1, tournamentId1, 10),
+      makeScore(golferId2, tournamentId1, 4),
+      makeScore(benchId1, tournamentId1, 6),
+    ];
+
+    expect(applyAutoSubs([benchSnapshot()], scores, tournamentDates)).toHaveLength(1);
+  });
+
+  it('counts a subbed-on golfer in the team total', () => {
+    const scores = [
+      makeScore(golferId1, tournamentId1, 10),
+      makeScore(benchId1, tournamentId1, 6),
+      makeScore(benchId2, tournamentId1, 5),
+    ];
+
+    const result = calculateSnapshotPoints(
+      [benchSnapshot()],
+      scores,
+      tournamentDates,
+      new Date(2025, 0, 1),
+    );
+    // Captain 20 + first bench golfer 6 for the absent golfer2; second bench golfer unused
+    expect(result.points).toBe(26);
+  });
+});
+
+describe('vice-captain', () => {
+  const tournamentDates = new Map([[tournamentId1.toString(), new Date(2025, 0, 12)]]);
+  const viceSnapshot = (): TeamSnapshot => ({
+    ...makeSnapshot([golferId1, golferId2], golferId1, new Date(2025, 0, 1)),
+    viceCaptainId: golferId2.toString(),
+  });
+
+  it('takes the recorded vice-captain from each history entry', () => {
+    const pick = { golferIds: [golferId1, golferId2], captainId: golferId1, createdAt: new Date('2025-01-01') };
+    const snapshots = buildTeamSnapshots(pick, [
+      { golferIds: [golferId1, golferId2], captainId: golferId1, changedAt: new Date('2025-01-01') },
+      {
+        golferIds: [golferId1, golferId2],
+        captainId: golferId1,
+        viceCaptainId: golferId2,
+        changedAt: new Date('2025-02-01'),
+      },
+    ]);
+
+    expect(snapshots.map((s) => s.viceCaptainId)).toEqual([null, golferId2.toString()]);
+  });
+
+  it('doubles the vice-captain in a gameweek the captain did not play', () => {
+    const scores = [
+      { ...makeScore(golferId1, tournamentId1, 0), participated: false },
+      makeScore(golferId2, tournamentId1, 8),
+    ];
+
+    const result = calculateSnapshotPoints([viceSnapshot()], scores, tournamentDates, new Date(2025, 0, 1));
+    expect(result.points).toBe(16);
+  });
+
+  it('keeps the armband with the captain when the captain played', () => {
+    const scores = [makeScore(golferId1, tournamentId1, 10), makeScore(golferId2, tournamentId1, 8)];
+
+    expect(applyAutoSubs([viceSnapshot()], scores, tournamentDates)).toHaveLength(1);
+    const result = calculateSnapshotPoints([viceSnapshot()], scores, tournamentDates, new Date(2025, 0, 1));
+    expect(result.points).toBe(28);
+  });
+
+  it('only hands over the armband for the gameweek the captain missed', () => {
+    const scores = [
+      { ...makeScore(golferId1, tournamentId1, 0), participated: false },
+      makeScore(golferId2, tournamentId1, 8),
+    ];
+
+    const snapshots = applyAutoSubs([viceSnapshot()], scores, tournamentDates);
+    expect(snapshots.map((s) => s.captainId)).toEqual([
+      golferId1.toString(),
+      golferId2.toString(),
+      golferId1.toString(),
+    ]);
+  });
+});
+
+describe('getSnapshotAt', () => {
+  const snapshots = [
+    makeSnapshot([golferId1], null, new Date('2025-01-04')),
+    makeSnapshot([golferId2], null, new Date('2025-01-11')),
+  ];
+
+  it('returns null before the team is eligible', () => {
+    expect(getSnapshotAt(snapshots, new Date('2025-01-03'))).toBeNull();
+  });
+
+  it('returns the latest snapshot in effect on the date', () => {
+    expect(getSnapshotAt(snapshots, new Date('2025-01-05'))).toBe(snapshots[0]);
+    expect(getSnapshotAt(snapshots, new Date('2025-01-11'))).toBe(snapshots[1]);
+  });
+});
+
+describe('calculateSnapshotPoints', () => {
+  it('totals points within the period against the team held at the time', () => {
+    const snapshots = [
+      makeSnapshot([golferId1], golferId1, new Date('2025-01-01')),
+      makeSnapshot([golferId1, golferId2], golferId2, new Date('2025-01-11')),
+    ];
+    const tournamentDates = new Map([
+      [tournamentId1.toString(), new Date('2025-01-05')],
+      [tournamentId2.toString(), new Date('2025-01-12')],
+    ]);
+    const scores = [
+      makeScore(golferId1, tournamentId1, 10),
+      makeScore(golferId2, tournamentId1, 99),
+      makeScore(golferId1, tournamentId2, 5),
+      makeScore(golferId2, tournamentId2, 8),
+    ];
+
+    const season = calculateSnapshotPoints(
+      snapshots,
+      scores,
+      tournamentDates,
+      new Date('2025-01-01'),
+    );
+    // T1: golfer1 captain 20 (golfer2 not held); T2: golfer1 5 + golfer2 captain 16
+    expect(season.points).toBe(41);
+    expect(season.tournamentIds.size).toBe(2);
+
+    const secondWeek = calculateSnapshotPoints(
+      snapshots,
+      scores,
+      tournamentDates,
+      new Date('2025-01-11'),
+      new Date('2025-01-17'),
+    );
+    expect(secondWeek.points).toBe(21);
+  });
+
+  it('triples the captain in a Triple Captain snapshot', () => {
+    const snapshots = [
+      { ...makeSnapshot([golferId1, golferId2], golferId1, new Date('2025-01-01')), captainMultiplier: 3 },
+    ];
+    const tournamentDates = new Map([[tournamentId1.toString(), new Date('2025-01-05')]]);
+    const scores = [makeScore(golferId1, tournamentId1, 10), makeScore(golferId2, tournamentId1, 4)];
+
+    const result = calculateSnapshotPoints(
+      snapshots,
+      scores,
+      tournamentDates,
+      new Date('2025-01-01'),
+    );
+    expect(result.points).toBe(34);
+  });
+});
+
+describe('sumPenaltyPoints', () => {
+  const penalties = [
+    { weekStart: new Date('2025-01-04'), points: 4 },
+    { weekStart: new Date('2025-01-11'), points: 8 },
+  ];
+
+  it('totals penalties for gameweeks within the period', () => {
+    expect(sumPenaltyPoints(penalties)).toBe(12);
+    expect(sumPenaltyPoints(penalties, new Date('2025-01-11'))).toBe(8);
+    expect(sumPenaltyPoints(penalties, new Date('2025-01-01'), new Date('2025-01-10'))).toBe(4);
+  });
+
+  it('returns zero without penalties', () => {
+    expect(sumPenaltyPoints(undefined, new Date('2025-01-01'))).toBe(0);
+  });
 });
 
 describe('getTeamTransferHistory', () => {
@@ -4,16 +4,399 @@ import { ObjectId, type Db } from 'mongodb';
 import { GolferDocument, GOLFERS_COLLECTION, toGolfer } from '../models/Golfer';
 import { ScoreDocument } from '../models/Score';
 import { TournamentDocument } from '../models/Tournament';
-import { PickDocument } from '../models/Pick';
 import { PickHistoryDocument, PICK_HISTORY_COLLECTION } from '../models/Pick';
+import {
+  TransferPenaltyDocument,
+  TRANSFER_PENALTIES_COLLECTION,
+} from '../models/TransferPenalty';
 import {
   getWeekStart,
-  getWeekEnd,
   getMonthStart,
   getMonthEnd,
   getTeamEffectiveStartDate,
   getSeasonFirstSaturday,
 } from '../utils/dates';
+import {
+  CAPTAIN_MULTIPLIER,
+  TRIPLE_CAPTAIN_MULTIPLIER,
+} from '../../../../shared/constants/rules';
+import type { ChipUsage } from '../../../../shared/types';
+
+/**
+ * The team a manager fielded from `effectiveFrom` until the next snapshot.
+ * Rebuilt from pickHistory so past gameweeks are scored against the team
+ * actually held at the time rather than the current picks.
+ */
+export interface TeamSnapshot {
+  golferIds: string[];
+  benchIds?: string[]; // Substitutes in priority order
+  captainId: string | null;
+  viceCaptainId?: string | null; // Takes the armband in weeks the captain doesn't play
+  effectiveFrom: Date;
+  captainMultiplier?: number; // Overrides the normal captain multiplier (Triple Captain)
+}
+
+type SnapshotPick = {
+  golferIds: ObjectId[];
+  benchIds?: ObjectId[];
+  captainId?: ObjectId | null;
+  viceCaptainId?: ObjectId | null;
+  createdAt?: Date;
+  chips?: Pick<ChipUsage, 'chip' | 'weekStart'>[];
+};
+
+type SnapshotHistoryEntry = {
+  golferIds: ObjectId[];
+  benchIds?: ObjectId[];
+  captainId?: ObjectId | null;
+  viceCaptainId?: ObjectId | null;
+  changedAt: Date;
+};
+
+type SnapshotPenalty = Pick<TransferPenaltyDocument, 'weekStart' | 'points'>;
+
+type SnapshotScore = {
+  golferId: ObjectId;
+  tournamentId: ObjectId;
+  multipliedPoints: number;
+  participated?: boolean;
+};
+
+/**
+ * Build the ordered list of team snapshots for a pick.
+ * Each history entry takes effect from the next gameweek after it was made, using the
+ * same rule as a newly created team. Without history the current pick is the only snapshot.
+ */
+export function buildTeamSnapshots(
+  pick: SnapshotPick,
+  history: SnapshotHistoryEntry[] = [],
+): TeamSnapshot[] {
+  const currentCaptainId = pick.captainId?.toString() || null;
+  const teamCreatedAt = pick.createdAt ? new Date(pick.createdAt) : null;
+  const hasValidCreatedAt = !!teamCreatedAt && !isNaN(teamCreatedAt.getTime());
+
+  // Entries written before the current team existed belong to a deleted team
+  const entries = history
+    .filter((h) => !hasValidCreatedAt || new Date(h.changedAt) >= teamCreatedAt!)
+    .sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime());
+
+  if (entries.length === 0) {
+    return applyChips(
+      [
+        {
+          golferIds: pick.golferIds.map((id) => id.toString()),
+          benchIds: (pick.benchIds || []).map((id) => id.toString()),
+          captainId: currentCaptainId,
+          viceCaptainId: pick.viceCaptainId?.toString() || null,
+          effectiveFrom: getTeamEffectiveStartDate(pick.createdAt),
+        },
+      ],
+      pick.chips,
+    );
+  }
+
+  const snapshots = entries.map((entry, index) => {
+    const golferIds = entry.golferIds.map((id) => id.toString());
+    const benchIds = (entry.benchIds || []).map((id) => id.toString());
+
+    // Entries recorded before captains were tracked keep the current captain if still held
+    let captainId: string | null;
+    if (entry.captainId !== undefined) {
+      captainId = entry.captainId?.toString() || null;
+    } else {
+      captainId = currentCaptainId && golferIds.includes(currentCaptainId) ? currentCaptainId : null;
+    }
+    const viceCaptainId = entry.viceCaptainId?.toString() || null;
+
+    // The first snapshot starts with the team itself (keeps grandfathered teams intact)
+    const effectiveFrom =
+      index === 0
+        ? getTeamEffectiveStartDate(pick.createdAt)
+        : getTeamEffectiveStartDate(entry.changedAt);
+
+    return { golferIds, benchIds, captainId, viceCaptainId, effectiveFrom };
+  });
+
+  return applyChips(snapshots, pick.chips);
+}
+
+/**
+ * Split out the part of each snapshot that falls within a gameweek and replace it with
+ * `override(snapshot)`, so any lookup by date picks up the change for that week only.
+ * Snapshots the override leaves alone (returns null) are kept whole.
+ */
+function overrideGameweek(
+  snapshots: TeamSnapshot[],
+  weekStart: Date,
+  override: (snapshot: TeamSnapshot) => TeamSnapshot | null,
+): TeamSnapshot[] {
+  const windowStart = getWeekStart(weekStart);
+  const windowEnd = new Date(windowStart);
+  windowEnd.setDate(windowEnd.getDate() + 7);
+
+  return snapshots.flatMap((snapshot, index) => {
+    const from = snapshot.effectiveFrom;
+    const to = snapshots[index + 1]?.effectiveFrom ?? null;
+    const overrideFrom = from > windowStart ? from : windowStart;
+    const overrideTo = to && to < windowEnd ? to : windowEnd;
+    if (overrideFrom >= overrideTo) return [snapshot];
+
+    const overridden = override(snapshot);
+    if (!overridden) return [snapshot];
+
+    const pieces: TeamSnapshot[] = [];
+    if (from < overrideFrom) pieces.push(snapshot);
+    pieces.push({ ...overridden, effectiveFrom: overrideFrom });
+    if (!to || overrideTo < to) {
+      pieces.push({ ...snapshot, effectiveFrom: overrideTo });
+    }
+    return pieces;
+  });
+}
+
+/**
+ * Apply chips that change scoring. Triple Captain triples the captain and Bench Boost
+ * plays the whole bench alongside the starters, each for exactly their gameweek.
+ */
+function applyChips(
+  snapshots: TeamSnapshot[],
+  chips: SnapshotPick['chips'] = [],
+): TeamSnapshot[] {
+  let result = snapshots;
+  for (const chip of chips) {
+    const weekStart = new Date(chip.weekStart);
+    if (chip.chip === 'tripleCaptain') {
+      result = overrideGameweek(result, weekStart, (snapshot) => ({
+        ...snapshot,
+        captainMultiplier: TRIPLE_CAPTAIN_MULTIPLIER,
+      }));
+    } else if (chip.chip === 'benchBoost') {
+      result = overrideGameweek(result, weekStart, (snapshot) =>
+        snapshot.benchIds?.length
+          ? { ...snapshot, golferIds: [...snapshot.golferIds, ...snapshot.benchIds], benchIds: [] }
+          : null,
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Swap starters who didn't play for the first bench golfers who did, or null if
+ * no substitution is possible.
+ */
+function substituteNonPlayers(snapshot: TeamSnapshot, played: Set<string>): TeamSnapshot | null {
+  const bench = snapshot.benchIds ?? [];
+  const available = bench.filter((id) => played.has(id));
+  if (available.length === 0) return null;
+
+  const subbedOff: string[] = [];
+  const golferIds = snapshot.golferIds.map((id) => {
+    if (played.has(id) || subbedOff.length >= available.length) return id;
+    subbedOff.push(id);
+    return available[subbedOff.length - 1];
+  });
+  if (subbedOff.length === 0) return null;
+
+  const subbedOn = new Set(available.slice(0, subbedOff.length));
+  return {
+    ...snapshot,
+    golferIds,
+    benchIds: [...bench.filter((id) => !subbedOn.has(id)), ...subbedOff],
+  };
+}
+
+/**
+ * Hand the armband to the vice-captain when the captain didn't play but the
+ * vice-captain did, or null if the captain stands.
+ */
+function promoteViceCaptain(snapshot: TeamSnapshot, played: Set<string>): TeamSnapshot | null {
+  const { captainId, viceCaptainId } = snapshot;
+  if (!captainId || !viceCaptainId || played.has(captainId)) return null;
+  if (!snapshot.golferIds.includes(viceCaptainId) || !played.has(viceCaptainId)) return null;
+  return { ...snapshot, captainId: viceCaptainId };
+}
+
+/**
+ * Automatic substitutions: in each gameweek, a starter without a participating score is
+ * replaced by the first bench golfer who did play, and the vice-captain takes the captain
+ * multiplier if the captain didn't play. Scores must cover the bench golfers.
+ */
+export function applyAutoSubs(
+  snapshots: TeamSnapshot[],
+  scores: SnapshotScore[],
+  tournamentDates: Map<string, Date>,
+): TeamSnapshot[] {
+  if (!snapshots.some((s) => s.benchIds?.length || s.viceCaptainId)) return snapshots;
+
+  // Golfers with a participating score in each gameweek
+  const playedByWeek = new Map<number, Set<string>>();
+  for (const score of scores) {
+    const tournamentDate = tournamentDates.get(score.tournamentId.toString());
+    if (!tournamentDate) continue;
+    const week = getWeekStart(tournamentDate).getTime();
+    if (!playedByWeek.has(week)) playedByWeek.set(week, new Set());
+    if (score.participated) playedByWeek.get(week)!.add(score.golferId.toString());
+  }
+
+  let result = snapshots;
+  for (const [week, played] of playedByWeek) {
+    result = overrideGameweek(result, new Date(week), (snapshot) => {
+      const subbed = substituteNonPlayers(snapshot, played) ?? snapshot;
+      const promoted = promoteViceCaptain(subbed, played) ?? subbed;
+      return promoted === snapshot ? null : promoted;
+    });
+  }
+  return result;
+}
+
+/**
+ * Get the snapshot held on a given date, or null if the team wasn't eligible yet.
+ */
+export function getSnapshotAt(snapshots: TeamSnapshot[], date: Date): TeamSnapshot | null {
+  let held: TeamSnapshot | null = null;
+  for (const snapshot of snapshots) {
+    if (snapshot.effectiveFrom <= date) held = snapshot;
+  }
+  return held;
+}
+
+/**
+ * Every golfer that appears in any snapshot, bench included — used to fetch the scores a team can earn from.
+ */
+export function getSnapshotGolferIds(snapshots: TeamSnapshot[]): string[] {
+  const ids = new Set<string>();
+  for (const snapshot of snapshots) {
+    for (const id of [...snapshot.golferIds, ...(snapshot.benchIds ?? [])]) ids.add(id);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Fantasy points a golfer's score earns a team, or null if the golfer
+ * wasn't in the team held on the tournament date.
+ */
+export function getSnapshotScorePoints(
+  snapshots: TeamSnapshot[],
+  golferId: string,
+  multipliedPoints: number,
+  tournamentDate: Date,
+): number | null {
+  const snapshot = getSnapshotAt(snapshots, tournamentDate);
+  if (!snapshot || !snapshot.golferIds.includes(golferId)) return null;
+  const multiplier =
+    snapshot.captainId === golferId ? (snapshot.captainMultiplier ?? CAPTAIN_MULTIPLIER) : 1;
+  return (multipliedPoints || 0) * multiplier;
+}
+
+/**
+ * Total team points within a date range, scoring each tournament against the
+ * snapshot held at the time (after auto-subs). Also returns the tournaments a held golfer played in.
+ */
+export function calculateSnapshotPoints(
+  snapshots: TeamSnapshot[],
+  scores: SnapshotScore[],
+  tournamentDates: Map<string, Date>,
+  periodStart: Date,
+  periodEnd?: Date,
+): { points: number; tournamentIds: Set<string> } {
+  let points = 0;
+  const tournamentIds = new Set<string>();
+  const subbedSnapshots = applyAutoSubs(snapshots, scores, tournamentDates);
+
+  for (const score of scores) {
+    const tournamentId = score.tournamentId.toString();
+    const tournamentDate = tournamentDates.get(tournamentId);
+    if (!tournamentDate || tournamentDate < periodStart) continue;
+    if (periodEnd && tournamentDate > periodEnd) continue;
+
+    const scorePoints = getSnapshotScorePoints(
+      subbedSnapshots,
+      score.golferId.toString(),
+      score.multipliedPoints,
+      tournamentDate,
+    );
+    if (scorePoints === null) continue;
+
+    points += scorePoints;
+    if (score.participated) tournamentIds.add(tournamentId);
+  }
+
+  return { points, tournamentIds };
+}
+
+/**
+ * Load pickHistory for a season grouped by user, oldest first.
+ */
+export async function getSeasonPickHistory(
+  db: Db,
+  season: number,
+  userIds?: ObjectId[],
+): Promise<Map<string, PickHistoryDocument[]>> {
+  const filter = userIds ? { season, userId: { $in: userIds } } : { season };
+  const history = await db
+    .collection<PickHistoryDocument>(PICK_HISTORY_COLLECTION)
+    .find(filter)
+    .project<PickHistoryDocument>({
+      userId: 1,
+      golferIds: 1,
+      benchIds: 1,
+      captainId: 1,
+      viceCaptainId: 1,
+      changedAt: 1,
+    })
+    .sort({ changedAt: 1 })
+    .toArray();
+
+  const historyByUser = new Map<string, PickHistoryDocument[]>();
+  for (const entry of history) {
+    const userId = entry.userId.toString();
+    if (!historyByUser.has(userId)) historyByUser.set(userId, []);
+    historyByUser.get(userId)!.push(entry);
+  }
+  return historyByUser;
+}
+
+/**
+ * Transfer penalty points charged against gameweeks starting within a date range.
+ */
+export function sumPenaltyPoints(
+  penalties: SnapshotPenalty[] = [],
+  periodStart?: Date,
+  periodEnd?: Date,
+): number {
+  return penalties
+    .filter((penalty) => {
+      const weekStart = new Date(penalty.weekStart);
+      if (periodStart && weekStart < periodStart) return false;
+      if (periodEnd && weekStart > periodEnd) return false;
+      return true;
+    })
+    .reduce((sum, penalty) => sum + penalty.points, 0);
+}
+
+/**
+ * Load transfer penalties for a season grouped by user.
+ */
+export async function getSeasonTransferPenalties(
+  db: Db,
+  season: number,
+  userIds?: ObjectId[],
+): Promise<Map<string, TransferPenaltyDocument[]>> {
+  const filter = userIds ? { season, userId: { $in: userIds } } : { season };
+  const penalties = await db
+    .collection<TransferPenaltyDocument>(TRANSFER_PENALTIES_COLLECTION)
+    .find(filter)
+    .toArray();
+
+  const penaltiesByUser = new Map<string, TransferPenaltyDocument[]>();
+  for (const penalty of penalties) {
+    const userId = penalty.userId.toString();
+    if (!penaltiesByUser.has(userId)) penaltiesByUser.set(userId, []);
+    penaltiesByUser.get(userId)!.push(penalty);
+  }
+  return penaltiesByUser;
+}
 
 export interface TournamentScoreInfo {
   tournamentId: string;
@@ -35,10 +418,13 @@ export interface GolferWithScores {
   weekScores: TournamentScoreInfo[];
   seasonScores: TournamentScoreInfo[];
   isCaptain: boolean;
+  isViceCaptain: boolean;
 }
 
 /**
  * Compute per-golfer scores with week/month/season breakdowns.
+ * Each score only counts while the golfer was in the team held at the time (bench
+ * golfers only when subbed on), with the captain multiplier of that snapshot.
  * Pure computation over pre-fetched data — no DB calls.
  */
 export function getTeamGolferScores(
@@ -46,14 +432,18 @@ export function getTeamGolferScores(
   publishedTournaments: TournamentDocument[],
   scores: ScoreDocument[],
   seasonStartDate: Date | null,
-  captainId: string | null | undefined,
+  snapshots: TeamSnapshot[],
   selectedWeekStart: Date,
   selectedWeekEnd: Date,
-  teamEffectiveStart: Date,
 ): GolferWithScores[] {
   const tournamentMap = new Map(
     publishedTournaments.map((t) => [t._id.toString(), t]),
   );
+  const subbedSnapshots = applyAutoSubs(
+    snapshots,
+    scores,
+    new Map(publishedTournaments.map((t) => [t._id.toString(), new Date(t.startDate)])),
+  );
 
   // Build golfer scores map
   const golferScoresMap = new Map<string, ScoreDocument[]>();
@@ -70,79 +460,80 @@ export function getTeamGolferScores(
     ? getSeasonFirstSaturday(new Date(seasonStartDate))
     : getWeekStart(new Date());
 
-  const captainIdString = captainId?.toString();
+  // The latest snapshot is the current team
+  const currentCaptainId = snapshots[snapshots.length - 1]?.captainId ?? null;
+  const currentViceCaptainId = snapshots[snapshots.length - 1]?.viceCaptainId ?? null;
+
+  // Month scores — current month of the selected week
+  const monthStart = getMonthStart(selectedWeekStart);
+  const monthEnd = getMonthEnd(selectedWeekStart);
 
   const golfersWithScores: GolferWithScores[] = golfers.map((golfer) => {
-    const golferScores = golferScoresMap.get(golfer._id.toString()) || [];
-    const isCaptain = golfer._id.toString() === captainIdString;
-    const captainMultiplier = isCaptain ? 2 : 1;
-
-    // Format scores with tournament info
-    const formattedScores: TournamentScoreInfo[] = golferScores
-      .map((score) => {
-        const tournament = tournamentMap.get(score.tournamentId.toString());
-        return {
-          tournamentId: score.tournamentId.toString(),
-          tournamentName: tournament?.name || 'Unknown Tournament',
-          position: score.position,
-          basePoints: score.basePoints,
-          bonusPoints: score.bonusPoints,
-          multipliedPoints: score.multipliedPoints,
-          rawScore: score.rawScore,
-          participated: score.participated,
-          tournamentDate: tournament?.startDate || new Date(),
-        };
-      })
-      .sort(
-        (a, b) =>
-          new Date(b.tournamentDate).getTime() -
-          new Date(a.tournamentDate).getTime(),
+    const golferId = golfer._id.toString();
+    const golferScores = golferScoresMap.get(golferId) || [];
+
+    // Format scores with tournament info, keeping only those earned while held
+    const formattedScores: TournamentScoreInfo[] = [];
+    const teamPointsByTournament = new Map<string, number>();
+    for (const score of golferScores) {
+      const tournament = tournamentMap.get(score.tournamentId.toString());
+      const tournamentDate = tournament?.startDate || new Date();
+      const teamPoints = getSnapshotScorePoints(
+        subbedSnapshots,
+        golferId,
+        score.multipliedPoints,
+        new Date(tournamentDate),
       );
+      if (teamPoints === null) continue;
 
-    // Filter by time period — must be within period AND after team's effective start date
+      teamPointsByTournament.set(score.tournamentId.toString(), teamPoints);
+      formattedScores.push({
+        tournamentId: score.tournamentId.toString(),
+        tournamentName: tournament?.name || 'Unknown Tournament',
+        position: score.position,
+        basePoints: score.basePoints,
+        bonusPoints: score.bonusPoints,
+        multipliedPoints: score.multipliedPoints,
+        rawScore: score.rawScore,
+        participated: score.participated,
+        tournamentDate,
+      });
+    }
+    formattedScores.sort(
+      (a, b) =>
+        new Date(b.tournamentDate).getTime() -
+        new Date(a.tournamentDate).getTime(),
+    );
+
+    // Filter by time period
     const weekScores = formattedScores.filter((s) => {
       const date = new Date(s.tournamentDate);
-      return (
-        date >= selectedWeekStart &&
-        date <= selectedWeekEnd &&
-        date >= teamEffectiveStart
-      );
+      return date >= selectedWeekStart && date <= selectedWeekEnd;
     });
 
     const seasonScores = formattedScores.filter((s) => {
       const date = new Date(s.tournamentDate);
-      return date >= seasonFirstSat && date >= teamEffectiveStart;
+      return date >= seasonFirstSat;
     });
 
-    // Month scores — current month of the selected week
-    const monthStart = getMonthStart(selectedWeekStart);
-    const monthEnd = getMonthEnd(selectedWeekStart);
     const monthScores = formattedScores.filter((s) => {
       const date = new Date(s.tournamentDate);
-      return (
-        date >= monthStart && date <= monthEnd && date >= teamEffectiveStart
-      );
+      return date >= monthStart && date <= monthEnd;
     });
 
-    // Calculate totals with captain multiplier
-    const weekPoints =
-      weekScores.reduce((sum, s) => sum + s.multipliedPoints, 0) *
-      captainMultiplier;
-    const monthPoints =
-      monthScores.reduce((sum, s) => sum + s.multipliedPoints, 0) *
-      captainMultiplier;
-    const seasonPoints =
-      seasonScores.reduce((sum, s) => sum + s.multipliedPoints, 0) *
-      captainMultiplier;
+    // Totals already include the captain multiplier of the snapshot held at the time
+    const sumTeamPoints = (list: TournamentScoreInfo[]) =>
+      list.reduce((sum, s) => sum + (teamPointsByTournament.get(s.tournamentId) || 0), 0);
 
     return {
       golfer: toGolfer(golfer),
-      weekPoints,
-      monthPoints,
-      seasonPoints,
+      weekPoints: sumTeamPoints(weekScores),
+      monthPoints: sumTeamPoints(monthScores),
+      seasonPoints: sumTeamPoints(seasonScores),
       weekScores,
       seasonScores,
-      isCaptain,
+      isCaptain: golferId === currentCaptainId,
+      isViceCaptain: golferId === currentViceCaptainId,
     };
   });
 
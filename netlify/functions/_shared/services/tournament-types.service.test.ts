@@ -0,0 +1,200 @@
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '../db';
+import { createMockDb, mockCursor } from '../../__test-utils__';
+import {
+  createTournamentType,
+  deleteTournamentType,
+  getTournamentType,
+  getTournamentTypes,
+  updateTournamentType,
+} from './tournament-types.service';
+
+vi.mock('../db', () => ({ connectToDatabase: vi.fn() }));
+
+const now = new Date();
+const foundersDoc = {
+  _id: new ObjectId(),
+  key: 'founders',
+  label: 'Founders',
+  multiplier: 4,
+  defaultScoringFormat: 'stableford',
+  forcedScoringFormat: null,
+  defaultMultiDay: true,
+  isBuiltIn: true,
+  createdAt: now,
+  updatedAt: now,
+};
+const winterDoc = {
+  ...foundersDoc,
+  _id: new ObjectId(),
+  key: 'winter_foursomes',
+  label: 'Winter Foursomes',
+  multiplier: 1.5,
+  defaultMultiDay: false,
+  isBuiltIn: false,
+};
+
+describe('tournament-types.service', () => {
+  let tournamentTypes: Record<string, ReturnType<typeof vi.fn>>;
+  let tournaments: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tournamentTypes = {
+      find: vi.fn().mockReturnValue(mockCursor([foundersDoc, winterDoc])),
+      findOne: vi.fn(),
+      insertOne: vi.fn(),
+      findOneAndUpdate: vi.fn(),
+      deleteOne: vi.fn(),
+      bulkWrite: vi.fn(),
+    };
+    tournaments = { countDocuments: vi.fn().mockResolvedValue(0) };
+    const { mockDb } = createMockDb({ tournamentTypes, tournaments });
+    vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+  });
+
+  describe('getTournamentTypes', () => {
+    it('returns the stored types', async () => {
+      const result = await getTournamentTypes();
+
+      expect(result.map((t) => t.key)).toEqual(['founders', 'winter_foursomes']);
+      expect(tournamentTypes.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('seeds the built-in types into an empty collection', async () => {
+      tournamentTypes.find
+        .mockReturnValueOnce(mockCursor([]))
+        .mockReturnValueOnce(mockCursor([foundersDoc]));
+
+      const result = await getTournamentTypes();
+
+      const operations = tournamentTypes.bulkWrite.mock.calls[0][0];
+      expect(operations).toHaveLength(6);
+      expect(operations).toContainEqual({
+        updateOne: {
+          filter: { key: 'founders' },
+          update: {
+            $setOnInsert: expect.objectContaining({
+              key: 'founders',
+              label: 'Founders',
+              multiplier: 4,
+              isBuiltIn: true,
+            }),
+          },
+          upsert: true,
+        },
+      });
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('getTournamentType', () => {
+    it('finds a type by key', async () => {
+      expect((await getTournamentType('winter_foursomes'))?.label).toBe('Winter Foursomes');
+      expect(await getTournamentType('matchplay')).toBeNull();
+    });
+  });
+
+  describe('createTournamentType', () => {
+    it('derives the key from the label and stores the type', async () => {
+      const insertedId = new ObjectId();
+      tournamentTypes.insertOne.mockResolvedValue({ insertedId });
+
+      const result = await createTournamentType({
+        label: "Captain's Day",
+        multiplier: 2,
+        defaultScoringFormat: 'stableford',
+        forcedScoringFormat: 'medal',
+      });
+
+      expect(result).toMatchObject({
+        id: insertedId.toString(),
+        key: 'captain_s_day',
+        label: "Captain's Day",
+        multiplier: 2,
+        defaultScoringFormat: 'medal',
+        forcedScoringFormat: 'medal',
+        defaultMultiDay: false,
+        isBuiltIn: false,
+      });
+    });
+
+    it('rejects a name that is already taken', async () => {
+      await expect(
+        createTournamentType({ label: 'Winter  Foursomes', multiplier: 1 })
+      ).rejects.toThrow('already exists');
+      expect(tournamentTypes.insertOne).not.toHaveBeenCalled();
+    });
+
+    it('rejects a name without letters or numbers', async () => {
+      await expect(createTournamentType({ label: '***', multiplier: 1 })).rejects.toThrow(
+        'must contain letters or numbers'
+      );
+    });
+  });
+
+  describe('updateTournamentType', () => {
+    it('updates only the given fields', async () => {
+      tournamentTypes.findOneAndUpdate.mockResolvedValue({ ...winterDoc, multiplier: 2 });
+
+      const result = await updateTournamentType(winterDoc._id.toString(), { multiplier: 2 });
+
+      expect(result?.multiplier).toBe(2);
+      const [, update] = tournamentTypes.findOneAndUpdate.mock.calls[0];
+      expect(Object.keys(update.$set).sort()).toEqual(['multiplier', 'updatedAt']);
+    });
+
+    it('makes a forced format the default too', async () => {
+      tournamentTypes.findOneAndUpdate.mockResolvedValue(winterDoc);
+
+      await updateTournamentType(winterDoc._id.toString(), { forcedScoringFormat: 'medal' });
+
+      const [, update] = tournamentTypes.findOneAndUpdate.mock.calls[0];
+      expect(update.$set).toMatchObject({
+        forcedScoringFormat: 'medal',
+        defaultScoringFormat: 'medal',
+      });
+    });
+
+    it('returns null for an unknown id', async () => {
+      expect(await updateTournamentType('not-an-id', { multiplier: 2 })).toBeNull();
+    });
+  });
+
+  describe('deleteTournamentType', () => {
+    it('deletes an unused custom type', async () => {
+      tournamentTypes.findOne.mockResolvedValue(winterDoc);
+      tournamentTypes.deleteOne.mockResolvedValue({ deletedCount: 1 });
+
+      expect(await deleteTournamentType(winterDoc._id.toString())).toBe(true);
+      expect(tournaments.countDocuments).toHaveBeenCalledWith(
+        { tournamentType: 'winter_foursomes' },
+        { limit: 1 }
+      );
+    });
+
+    it('refuses to delete a built-in type', async () => {
+      tournamentTypes.findOne.mockResolvedValue(foundersDoc);
+
+      await expect(deleteTournamentType(foundersDoc._id.toString())).rejects.toThrow(
+        'Cannot delete a built-in tournament type'
+      );
+    });
+
+    it('refuses to delete a type that tournaments use', async () => {
+      tournamentTypes.findOne.mockResolvedValue(winterDoc);
+      tournaments.countDocuments.mockResolvedValue(1);
+
+      await expect(deleteTournamentType(winterDoc._id.toString())).rejects.toThrow(
+        'used by tournaments'
+      );
+      expect(tournamentTypes.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('returns false for a missing type', async () => {
+      tournamentTypes.findOne.mockResolvedValue(null);
+
+      expect(await deleteTournamentType(new ObjectId().toString())).toBe(false);
+    });
+  });
+});
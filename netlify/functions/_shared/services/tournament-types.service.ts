@@ -0,0 +1,154 @@
+// Tournament types service - club event types with their multiplier and format defaults
+
+import { ObjectId } from 'mongodb';
+import type { Collection } from 'mongodb';
+import { connectToDatabase } from '../db';
+import {
+  TournamentTypeDocument,
+  toTournamentTypeConfig,
+  TOURNAMENT_TYPES_COLLECTION,
+} from '../models/TournamentType';
+import { TournamentDocument, TOURNAMENTS_COLLECTION } from '../models/Tournament';
+import type {
+  CreateTournamentTypeDTO,
+  TournamentTypeConfig,
+  UpdateTournamentTypeDTO,
+} from '../../../../shared/types';
+import {
+  TOURNAMENT_TYPE_CONFIG,
+  toTournamentTypeKey,
+} from '../../../../shared/types/tournament.types';
+
+/**
+ * Insert any built-in type that isn't stored yet. Upserting by key keeps this safe to
+ * run from concurrent requests and never overwrites an admin's edits.
+ */
+async function seedBuiltInTypes(collection: Collection<TournamentTypeDocument>): Promise<void> {
+  const now = new Date();
+  await collection.bulkWrite(
+    Object.entries(TOURNAMENT_TYPE_CONFIG).map(([key, config]) => ({
+      updateOne: {
+        filter: { key },
+        update: {
+          $setOnInsert: { key, ...config, isBuiltIn: true, createdAt: now, updatedAt: now },
+        },
+        upsert: true,
+      },
+    }))
+  );
+}
+
+/**
+ * All tournament types, lowest multiplier first. The built-in types are seeded the
+ * first time the collection is read.
+ */
+export async function getTournamentTypes(): Promise<TournamentTypeConfig[]> {
+  const { db } = await connectToDatabase();
+  const collection = db.collection<TournamentTypeDocument>(TOURNAMENT_TYPES_COLLECTION);
+
+  let types = await collection.find({}).sort({ multiplier: 1, label: 1 }).toArray();
+  if (types.length === 0) {
+    await seedBuiltInTypes(collection);
+    types = await collection.find({}).sort({ multiplier: 1, label: 1 }).toArray();
+  }
+  return types.map(toTournamentTypeConfig);
+}
+
+export async function getTournamentType(key: string): Promise<TournamentTypeConfig | null> {
+  const types = await getTournamentTypes();
+  return types.find((type) => type.key === key) ?? null;
+}
+
+export async function createTournamentType(
+  data: CreateTournamentTypeDTO
+): Promise<TournamentTypeConfig> {
+  const key = toTournamentTypeKey(data.label);
+  if (!key) {
+    throw new Error('Tournament type name must contain letters or numbers');
+  }
+
+  // Seed first so a new type can't take a built-in key
+  const existing = await getTournamentType(key);
+  if (existing) {
+    throw new Error('A tournament type with that name already exists');
+  }
+
+  const { db } = await connectToDatabase();
+  const collection = db.collection<TournamentTypeDocument>(TOURNAMENT_TYPES_COLLECTION);
+
+  const now = new Date();
+  const typeData: Omit<TournamentTypeDocument, '_id'> = {
+    key,
+    label: data.label.trim(),
+    multiplier: data.multiplier,
+    // A forced format is also the default
+    defaultScoringFormat: data.forcedScoringFormat ?? data.defaultScoringFormat ?? 'stableford',
+    forcedScoringFormat: data.forcedScoringFormat ?? null,
+    defaultMultiDay: data.defaultMultiDay ?? false,
+    isBuiltIn: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const result = await collection.insertOne(typeData as TournamentTypeDocument);
+  return toTournamentTypeConfig({ _id: result.insertedId, ...typeData });
+}
+
+/**
+ * Update a type's label, multiplier or defaults. The key stays fixed so tournaments and
+ * rulesets keep pointing at the type. Existing tournaments keep their stored multiplier.
+ */
+export async function updateTournamentType(
+  id: string,
+  data: UpdateTournamentTypeDTO
+): Promise<TournamentTypeConfig | null> {
+  if (!ObjectId.isValid(id)) return null;
+
+  const { db } = await connectToDatabase();
+  const collection = db.collection<TournamentTypeDocument>(TOURNAMENT_TYPES_COLLECTION);
+
+  const updateData: Record<string, unknown> = { updatedAt: new Date() };
+
+  if (data.label !== undefined) updateData.label = data.label.trim();
+  if (data.multiplier !== undefined) updateData.multiplier = data.multiplier;
+  if (data.defaultScoringFormat !== undefined) {
+    updateData.defaultScoringFormat = data.defaultScoringFormat;
+  }
+  if (data.forcedScoringFormat !== undefined) {
+    updateData.forcedScoringFormat = data.forcedScoringFormat;
+    if (data.forcedScoringFormat) updateData.defaultScoringFormat = data.forcedScoringFormat;
+  }
+  if (data.defaultMultiDay !== undefined) updateData.defaultMultiDay = data.defaultMultiDay;
+
+  const result = await collection.findOneAndUpdate(
+    { _id: new ObjectId(id) },
+    { $set: updateData },
+    { returnDocument: 'after' }
+  );
+
+  return result ? toTournamentTypeConfig(result) : null;
+}
+
+export async function deleteTournamentType(id: string): Promise<boolean> {
+  if (!ObjectId.isValid(id)) return false;
+
+  const { db } = await connectToDatabase();
+  const collection = db.collection<TournamentTypeDocument>(TOURNAMENT_TYPES_COLLECTION);
+
+  const type = await collection.findOne({ _id: new ObjectId(id) });
+  if (!type) return false;
+
+  if (type.isBuiltIn) {
+    throw new Error('Cannot delete a built-in tournament type');
+  }
+
+  const inUse = await db
+    .collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
+    .countDocuments({ tournamentType: type.key }, { limit: 1 });
+  if (inUse > 0) {
+    throw new Error('Cannot delete a tournament type that is used by tournaments');
+  }
+
+  const result = await collection.deleteOne({ _id: type._id });
+  return result.deletedCount === 1;
+}
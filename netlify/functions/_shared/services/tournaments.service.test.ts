@@ -1,6 +1,15 @@
 import type { Db, MongoClient } from 'mongodb';
 import { ObjectId } from 'mongodb';
 import { connectToDatabase } from '../db';
+import { getScoringRules } from './scoring-rules.service';
+import { getTournamentType } from './tournament-types.service';
+import { emitNotificationEvent } from './notifications.service';
+import { refreshTournamentGolferStats } from './golfer-stats.service';
+import {
+  DEFAULT_SCORING_RULES,
+  isBuiltInTournamentType,
+  TOURNAMENT_TYPE_CONFIG,
+} from '../../../../shared/types/tournament.types';
 import {
   getAllTournaments,
   getTournamentsBySeason,
@@ -21,6 +30,30 @@ vi.mock('./seasons.service', () => ({
   getActiveSeason: vi.fn().mockResolvedValue({ id: '1', name: '2025', isActive: true }),
 }));
 
+vi.mock('./scoring-rules.service', () => ({
+  getScoringRules: vi.fn(),
+}));
+
+vi.mock('./tournament-types.service', () => ({
+  getTournamentType: vi.fn(),
+}));
+
+vi.mock('./golfer-stats.service', () => ({
+  refreshTournamentGolferStats: vi.fn(),
+}));
+
+vi.mock('./notifications.service', () => ({
+  emitNotificationEvent: vi.fn(),
+}));
+
+const winterFoursomes = {
+  label: 'Winter Foursomes',
+  multiplier: 1.5,
+  defaultScoringFormat: 'stableford' as const,
+  forcedScoringFormat: 'stableford' as const,
+  defaultMultiDay: false,
+};
+
 const mockTournamentsCollection = {
   find: vi.fn(),
   findOne: vi.fn(),
@@ -36,12 +69,34 @@ const toArraySorted = <T>(items: T[]) => ({
 
 beforeEach(() => {
   vi.clearAllMocks();
+  vi.mocked(getScoringRules).mockResolvedValue({
+    ...DEFAULT_SCORING_RULES,
+    season: 2025,
+    isDefault: true,
+    updatedAt: null,
+  });
   vi.mocked(connectToDatabase).mockResolvedValue({
     db: {
       collection: vi.fn().mockReturnValue(mockTournamentsCollection),
     } as unknown as Db,
     client: {} as unknown as MongoClient,
   });
+  vi.mocked(getTournamentType).mockImplementation(async (key: string) => {
+    const config = isBuiltInTournamentType(key)
+      ? TOURNAMENT_TYPE_CONFIG[key]
+      : key === 'winter_foursomes'
+        ? winterFoursomes
+        : null;
+    if (!config) return null;
+    return {
+      id: key,
+      key,
+      ...config,
+      isBuiltIn: isBuiltInTournamentType(key),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  });
 });
 
 describe('tournaments.service', () => {
@@ -152,6 +207,7 @@ describe('tournaments.service', () => {
       expect(result.multiplier).toBe(1);
       expect(result.tournamentType).toBe('rollup_stableford');
       expect(result.scoringFormat).toBe('stableford');
+      expect(result.teamFormat).toBeNull();
     });
 
     it('creates a founders tournament with 4x multiplier', async () => {
@@ -185,6 +241,96 @@ describe('tournaments.service', () => {
 
       expect(result.season).toBe(2026);
     });
+
+    it('takes the multiplier from the season scoring rules', async () => {
+      vi.mocked(getScoringRules).mockResolvedValue({
+        ...DEFAULT_SCORING_RULES,
+        multipliers: { ...DEFAULT_SCORING_RULES.multipliers, weekend_medal: 3 },
+        season: 2026,
+        isDefault: false,
+        updatedAt: new Date(),
+      });
+      mockTournamentsCollection.insertOne.mockResolvedValue({ insertedId: new ObjectId() });
+
+      const result = await createTournament(
+        {
+          name: 'Weekend Medal',
+          startDate: '2026-05-02',
+          endDate: '2026-05-02',
+          tournamentType: 'weekend_medal',
+        },
+        2026
+      );
+
+      expect(getScoringRules).toHaveBeenCalledWith(2026);
+      expect(result.multiplier).toBe(3);
+    });
+
+    it('creates a tournament of a custom type with its defaults', async () => {
+      mockTournamentsCollection.insertOne.mockResolvedValue({ insertedId: new ObjectId() });
+
+      const result = await createTournament({
+        name: 'Winter Foursomes',
+        startDate: '2025-11-01',
+        endDate: '2025-11-01',
+        tournamentType: 'winter_foursomes',
+        scoringFormat: 'medal',
+      });
+
+      expect(getTournamentType).toHaveBeenCalledWith('winter_foursomes');
+      // Not in the ruleset yet, so the type's own multiplier; its format is forced
+      expect(result.multiplier).toBe(1.5);
+      expect(result.scoringFormat).toBe('stableford');
+    });
+
+    it('stores the team format of a pairs event', async () => {
+      mockTournamentsCollection.insertOne.mockResolvedValue({ insertedId: new ObjectId() });
+
+      const result = await createTournament({
+        name: 'Mixed Foursomes',
+        startDate: '2025-06-07',
+        endDate: '2025-06-07',
+        teamFormat: 'foursomes',
+      });
+
+      expect(result.teamFormat).toBe('foursomes');
+      expect(mockTournamentsCollection.insertOne.mock.calls[0][0].teamFormat).toBe('foursomes');
+    });
+
+    it("refreshes golfer stats when the tournament's status changes", async () => {
+      mockTournamentsCollection.findOneAndUpdate.mockResolvedValue({
+        ...tournamentDoc,
+        status: 'draft',
+      });
+
+      await updateTournament(tournamentId.toString(), { status: 'draft' });
+
+      expect(refreshTournamentGolferStats).toHaveBeenCalledWith(
+        expect.any(Object),
+        tournamentDoc._id,
+        tournamentDoc.season
+      );
+    });
+
+    it('leaves golfer stats alone for other changes', async () => {
+      mockTournamentsCollection.findOneAndUpdate.mockResolvedValue(tournamentDoc);
+
+      await updateTournament(tournamentId.toString(), { name: 'Renamed' });
+
+      expect(refreshTournamentGolferStats).not.toHaveBeenCalled();
+    });
+
+    it('rejects an unknown tournament type', async () => {
+      await expect(
+        createTournament({
+          name: 'Matchplay',
+          startDate: '2025-11-01',
+          endDate: '2025-11-01',
+          tournamentType: 'matchplay',
+        })
+      ).rejects.toThrow('Tournament type not found');
+      expect(mockTournamentsCollection.insertOne).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateTournament', () => {
@@ -200,6 +346,7 @@ describe('tournaments.service', () => {
     });
 
     it('updates multiplier when tournament type changes', async () => {
+      mockTournamentsCollection.findOne.mockResolvedValue(tournamentDoc);
       mockTournamentsCollection.findOneAndUpdate.mockResolvedValue({
         ...tournamentDoc,
         tournamentType: 'presidents_cup',
@@ -211,6 +358,7 @@ describe('tournaments.service', () => {
       });
 
       expect(result!.multiplier).toBe(3);
+      expect(getScoringRules).toHaveBeenCalledWith(2025);
       expect(mockTournamentsCollection.findOneAndUpdate).toHaveBeenCalledWith(
         expect.any(Object),
         {
@@ -223,6 +371,13 @@ describe('tournaments.service', () => {
       );
     });
 
+    it('rejects an unknown tournament type', async () => {
+      await expect(
+        updateTournament(tournamentId.toString(), { tournamentType: 'matchplay' })
+      ).rejects.toThrow('Tournament type not found');
+      expect(mockTournamentsCollection.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
     it('returns null when tournament not found', async () => {
       mockTournamentsCollection.findOneAndUpdate.mockResolvedValue(null);
 
@@ -261,6 +416,20 @@ describe('tournaments.service', () => {
 
       expect(result!.status).toBe('published');
     });
+
+    it('notifies managers that the results are in', async () => {
+      mockTournamentsCollection.findOneAndUpdate.mockResolvedValue({
+        ...tournamentDoc,
+        status: 'published',
+      });
+
+      const result = await publishTournament(tournamentId.toString());
+
+      expect(emitNotificationEvent).toHaveBeenCalledWith({
+        type: 'tournament_published',
+        tournament: result,
+      });
+    });
   });
 
   describe('completeTournament', () => {
@@ -9,11 +9,12 @@ import type {
   CreateTournamentDTO,
   UpdateTournamentDTO,
 } from '../../../../shared/types';
-import {
-  getMultiplierForType,
-  TOURNAMENT_TYPE_CONFIG,
-} from '../../../../shared/types/tournament.types';
+import { getMultiplierForType } from '../../../../shared/types/tournament.types';
+import { refreshTournamentGolferStats } from './golfer-stats.service';
+import { emitNotificationEvent } from './notifications.service';
 import { getActiveSeason } from './seasons.service';
+import { getScoringRules } from './scoring-rules.service';
+import { getTournamentType } from './tournament-types.service';
 
 async function getCurrentSeason(): Promise<number> {
   const activeSeason = await getActiveSeason();
@@ -71,16 +72,21 @@ export async function createTournament(
   const now = new Date();
 
   const tournamentType = data.tournamentType ?? 'rollup_stableford';
-  const config = TOURNAMENT_TYPE_CONFIG[tournamentType];
-  const multiplier = getMultiplierForType(tournamentType);
+  const config = await getTournamentType(tournamentType);
+  if (!config) {
+    throw new Error('Tournament type not found');
+  }
+  const rules = await getScoringRules(data.season ?? currentSeason);
+  const multiplier = getMultiplierForType(tournamentType, rules, config.multiplier);
 
   const tournamentData: Omit<TournamentDocument, '_id'> = {
     name: data.name,
     startDate: new Date(data.startDate),
     endDate: new Date(data.endDate),
     tournamentType,
-    scoringFormat: data.scoringFormat ?? config.defaultScoringFormat,
+    scoringFormat: config.forcedScoringFormat ?? data.scoringFormat ?? config.defaultScoringFormat,
     isMultiDay: data.isMultiDay ?? config.defaultMultiDay,
+    teamFormat: data.teamFormat ?? null,
     multiplier,
     golferCountTier: data.golferCountTier ?? '20+',
     season: data.season ?? currentSeason,
@@ -92,11 +98,7 @@ export async function createTournament(
 
   const result = await collection.insertOne(tournamentData as TournamentDocument);
 
-  return {
-    id: result.insertedId.toString(),
-    ...tournamentData,
-    participatingGolferIds: [],
-  };
+  return toTournament({ _id: result.insertedId, ...tournamentData });
 }
 
 export async function updateTournament(
@@ -112,12 +114,26 @@ export async function updateTournament(
   if (data.startDate !== undefined) updateData.startDate = new Date(data.startDate);
   if (data.endDate !== undefined) updateData.endDate = new Date(data.endDate);
   if (data.tournamentType !== undefined) {
+    const config = await getTournamentType(data.tournamentType);
+    if (!config) {
+      throw new Error('Tournament type not found');
+    }
+
+    // The multiplier comes from the ruleset of the tournament's season
+    const existing = await collection.findOne(
+      { _id: new ObjectId(id) },
+      { projection: { season: 1 } }
+    );
+    if (!existing) return null;
+
+    const rules = await getScoringRules(existing.season);
     updateData.tournamentType = data.tournamentType;
-    updateData.multiplier = getMultiplierForType(data.tournamentType);
+    updateData.multiplier = getMultiplierForType(data.tournamentType, rules, config.multiplier);
   }
   if (data.golferCountTier !== undefined) updateData.golferCountTier = data.golferCountTier;
   if (data.scoringFormat !== undefined) updateData.scoringFormat = data.scoringFormat;
   if (data.isMultiDay !== undefined) updateData.isMultiDay = data.isMultiDay;
+  if (data.teamFormat !== undefined) updateData.teamFormat = data.teamFormat;
   if (data.status !== undefined) updateData.status = data.status;
   if (data.participatingGolferIds !== undefined) {
     updateData.participatingGolferIds = data.participatingGolferIds.map((id) => new ObjectId(id));
@@ -128,8 +144,18 @@ export async function updateTournament(
     { $set: updateData },
     { returnDocument: 'after' }
   );
+  if (!result) return null;
 
-  return result ? toTournament(result) : null;
+  // Publishing or unpublishing decides whether the scores count towards golfer stats
+  if (data.status !== undefined) {
+    await refreshTournamentGolferStats(db, result._id, result.season);
+  }
+
+  const tournament = toTournament(result);
+  if (data.status === 'published') {
+    await emitNotificationEvent({ type: 'tournament_published', tournament });
+  }
+  return tournament;
 }
 
 export async function deleteTournament(id: string): Promise<boolean> {
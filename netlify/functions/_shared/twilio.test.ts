@@ -1,8 +1,9 @@
-import { sendVerificationCode, checkVerificationCode } from './twilio';
+import { sendVerificationCode, checkVerificationCode, twilioSmsSender } from './twilio';
 
-const { mockCreate, mockCheckCreate } = vi.hoisted(() => ({
+const { mockCreate, mockCheckCreate, mockMessageCreate } = vi.hoisted(() => ({
   mockCreate: vi.fn(),
   mockCheckCreate: vi.fn(),
+  mockMessageCreate: vi.fn(),
 }));
 
 vi.mock('twilio', () => {
@@ -16,6 +17,7 @@ vi.mock('twilio', () => {
           }),
         },
       },
+      messages: { create: mockMessageCreate },
     }),
   };
 });
@@ -25,6 +27,7 @@ beforeEach(() => {
   vi.stubEnv('TWILIO_ACCOUNT_SID', 'AC_test_sid');
   vi.stubEnv('TWILIO_AUTH_TOKEN', 'test_auth_token');
   vi.stubEnv('TWILIO_VERIFY_SERVICE_SID', 'VA_test_service');
+  vi.stubEnv('TWILIO_MESSAGING_SERVICE_SID', 'MG_test_service');
 });
 
 afterEach(() => {
@@ -87,4 +90,27 @@ describe('twilio', () => {
       );
     });
   });
+
+  describe('twilioSmsSender', () => {
+    it('sends the message through the messaging service', async () => {
+      mockMessageCreate.mockResolvedValue({ sid: 'SM123' });
+
+      await twilioSmsSender.send('+447123456789', 'Transfers close tomorrow');
+
+      expect(mockMessageCreate).toHaveBeenCalledWith({
+        messagingServiceSid: 'MG_test_service',
+        to: '+447123456789',
+        body: 'Transfers close tomorrow',
+      });
+    });
+
+    it('throws when the messaging service is not configured', async () => {
+      vi.stubEnv('TWILIO_MESSAGING_SERVICE_SID', '');
+
+      await expect(twilioSmsSender.send('+447123456789', 'Hi')).rejects.toThrow(
+        'Missing required environment variable: TWILIO_MESSAGING_SERVICE_SID'
+      );
+      expect(mockMessageCreate).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,4 +1,4 @@
-// Twilio client for phone verification via Verify API v2
+// Twilio client for phone verification via Verify API v2 and outbound SMS
 
 import twilio from 'twilio';
 
@@ -29,6 +29,27 @@ function getVerifyServiceSid(): string {
   return getRequiredEnv('TWILIO_VERIFY_SERVICE_SID');
 }
 
+/**
+ * Sends a text message. Services take a sender so tests can pass a fake.
+ */
+export interface SmsSender {
+  send(to: string, body: string): Promise<void>;
+}
+
+/**
+ * Sends through the Twilio Messaging Service set in TWILIO_MESSAGING_SERVICE_SID.
+ */
+export const twilioSmsSender: SmsSender = {
+  async send(to, body) {
+    const client = getTwilioClient();
+    await client.messages.create({
+      messagingServiceSid: getRequiredEnv('TWILIO_MESSAGING_SERVICE_SID'),
+      to,
+      body,
+    });
+  },
+};
+
 /**
  * Send a verification code via SMS to the given phone number.
  * Returns the verification status (should be 'pending').
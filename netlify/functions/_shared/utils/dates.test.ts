@@ -2,6 +2,7 @@ import {
   getWeekStart,
   getWeekEnd,
   getNextWeekStart,
+  getNextTransferDeadline,
   getTeamEffectiveStartDate,
   getMonthStart,
   getMonthEnd,
@@ -110,6 +111,23 @@ describe('getNextWeekStart', () => {
   });
 });
 
+describe('getNextTransferDeadline', () => {
+  it('returns the coming Saturday at 8am', () => {
+    const result = getNextTransferDeadline(new Date(2025, 0, 8, 14)); // Wednesday Jan 8
+    expect(result).toEqual(new Date(2025, 0, 11, 8));
+  });
+
+  it('returns the same day before 8am on a Saturday', () => {
+    const result = getNextTransferDeadline(new Date(2025, 0, 11, 7, 30));
+    expect(result).toEqual(new Date(2025, 0, 11, 8));
+  });
+
+  it('returns the following Saturday once the deadline has passed', () => {
+    const result = getNextTransferDeadline(new Date(2025, 0, 11, 8));
+    expect(result).toEqual(new Date(2025, 0, 18, 8));
+  });
+});
+
 describe('getTeamEffectiveStartDate', () => {
   it('returns far past date for null', () => {
     const result = getTeamEffectiveStartDate(null);
@@ -52,6 +52,19 @@ export const getNextWeekStart = (date: Date): Date => {
   return nextWeek;
 };
 
+/**
+ * Get the next weekly transfer deadline (Saturday at 8am) after the given date
+ * Changes made before the deadline count from that week's tournaments
+ */
+export const getNextTransferDeadline = (date: Date = new Date()): Date => {
+  const deadline = getWeekStart(date);
+  deadline.setHours(TEAM_ELIGIBILITY_HOUR, 0, 0, 0);
+  if (date >= deadline) {
+    deadline.setDate(deadline.getDate() + 7);
+  }
+  return deadline;
+};
+
 /**
  * Calculate the effective start date for a team to earn points
  * A team only earns points from tournaments starting on or after the
@@ -0,0 +1,39 @@
+import { describeDevice } from './devices';
+
+describe('devices', () => {
+  describe('describeDevice', () => {
+    it.each([
+      [
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+        'Chrome on Windows',
+      ],
+      [
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+        'Safari on iPhone',
+      ],
+      [
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+        'Safari on Mac',
+      ],
+      [
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+        'Chrome on Android',
+      ],
+      [
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0',
+        'Edge on Windows',
+      ],
+      [
+        'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+        'Firefox on Linux',
+      ],
+    ])('describes %s', (userAgent, expected) => {
+      expect(describeDevice(userAgent)).toBe(expected);
+    });
+
+    it('falls back when the user agent is missing or unrecognised', () => {
+      expect(describeDevice(undefined)).toBe('Unknown device');
+      expect(describeDevice('curl/8.4.0')).toBe('Unknown device');
+    });
+  });
+});
@@ -0,0 +1,37 @@
+// Describe the device behind a session from its User-Agent header
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+// iOS and Android user agents also mention Mac OS X and Linux, so they come first
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Macintosh|Mac OS X/, 'Mac'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, patterns: [RegExp, string][]): string | null =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+/**
+ * A friendly name for the device a session was signed in from, such as
+ * "Chrome on Windows". Falls back to "Unknown device" when there's nothing to go on.
+ */
+export function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = match(userAgent, BROWSERS);
+  const platform = match(userAgent, PLATFORMS);
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+}
@@ -1,4 +1,10 @@
-import { registerSchema, loginSchema, verifyPhoneSchema } from './auth.validator';
+import {
+  registerSchema,
+  loginSchema,
+  verifyPhoneSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+} from './auth.validator';
 
 describe('auth.validator re-exports', () => {
   it('exports registerSchema', () => {
@@ -15,4 +21,9 @@ describe('auth.validator re-exports', () => {
     expect(verifyPhoneSchema).toBeDefined();
     expect(typeof verifyPhoneSchema.parse).toBe('function');
   });
+
+  it('exports the password reset schemas', () => {
+    expect(typeof forgotPasswordSchema.parse).toBe('function');
+    expect(typeof resetPasswordSchema.parse).toBe('function');
+  });
 });
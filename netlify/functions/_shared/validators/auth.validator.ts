@@ -4,7 +4,15 @@ import {
   registerSchema,
   loginSchema,
   verifyPhoneSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
 } from '../../../../shared/validators/auth.validators';
 export { validateBody } from '../utils/validate';
 
-export { registerSchema, loginSchema, verifyPhoneSchema };
+export {
+  registerSchema,
+  loginSchema,
+  verifyPhoneSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+};
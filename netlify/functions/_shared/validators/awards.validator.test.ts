@@ -0,0 +1,39 @@
+import { ObjectId } from 'mongodb';
+import { overrideAwardSchema } from './awards.validator';
+
+describe('overrideAwardSchema', () => {
+  const userId = new ObjectId().toString();
+  const body = { type: 'month', season: 2026, periodStart: '2026-04-01', userIds: [userId] };
+
+  it('accepts an override', () => {
+    const result = overrideAwardSchema.safeParse(body);
+    expect(result.success && result.data).toEqual({
+      type: 'month',
+      season: 2026,
+      periodStart: new Date('2026-04-01'),
+      userIds: [userId],
+    });
+  });
+
+  it('only accepts weekly and monthly awards', () => {
+    expect(overrideAwardSchema.safeParse({ ...body, type: 'season' }).success).toBe(false);
+  });
+
+  it('rejects a badly formatted date', () => {
+    expect(overrideAwardSchema.safeParse({ ...body, periodStart: '01/04/2026' }).success).toBe(
+      false
+    );
+  });
+
+  it('requires at least one manager', () => {
+    const result = overrideAwardSchema.safeParse({ ...body, userIds: [] });
+    expect(!result.success && result.error.errors[0].message).toBe('Choose at least one manager');
+  });
+
+  it('rejects invalid and duplicate user ids', () => {
+    expect(overrideAwardSchema.safeParse({ ...body, userIds: ['abc'] }).success).toBe(false);
+    expect(overrideAwardSchema.safeParse({ ...body, userIds: [userId, userId] }).success).toBe(
+      false
+    );
+  });
+});
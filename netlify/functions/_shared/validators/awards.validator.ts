@@ -0,0 +1,21 @@
+// Award override validation schemas
+
+import { z } from 'zod';
+import { ObjectId } from 'mongodb';
+
+export const overrideAwardSchema = z.object({
+  type: z.enum(['week', 'month']),
+  season: z.number().int().min(2000, 'Season must be a year'),
+  // Any date within the gameweek or month being overridden
+  periodStart: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format')
+    .transform((value) => new Date(value))
+    .refine((date) => !isNaN(date.getTime()), 'Invalid date'),
+  userIds: z
+    .array(z.string().refine((id) => ObjectId.isValid(id), 'Invalid user id'))
+    .min(1, 'Choose at least one manager')
+    .refine((ids) => new Set(ids).size === ids.length, 'Duplicate managers are not allowed'),
+});
+
+export type OverrideAwardInput = z.infer<typeof overrideAwardSchema>;
@@ -0,0 +1,20 @@
+import { emailPreferencesSchema, unsubscribeSchema } from './emails.validator';
+
+describe('emailPreferencesSchema', () => {
+  it('accepts preferences', () => {
+    const result = emailPreferencesSchema.safeParse({ weeklyDigest: false });
+    expect(result.success && result.data).toEqual({ weeklyDigest: false });
+  });
+
+  it('requires weeklyDigest', () => {
+    const result = emailPreferencesSchema.safeParse({});
+    expect(!result.success && result.error.errors[0].message).toBe('weeklyDigest is required');
+  });
+});
+
+describe('unsubscribeSchema', () => {
+  it('requires a token', () => {
+    const result = unsubscribeSchema.safeParse({ token: '' });
+    expect(!result.success && result.error.errors[0].message).toBe('Unsubscribe token is required');
+  });
+});
@@ -0,0 +1,13 @@
+// Email preference validation schemas
+
+import { z } from 'zod';
+
+export const emailPreferencesSchema = z.object({
+  weeklyDigest: z.boolean({ required_error: 'weeklyDigest is required' }),
+});
+
+export const unsubscribeSchema = z.object({
+  token: z.string().min(1, 'Unsubscribe token is required'),
+});
+
+export type EmailPreferencesInput = z.infer<typeof emailPreferencesSchema>;
@@ -0,0 +1,40 @@
+import { handicapImportSchema } from './handicaps.validator';
+
+describe('handicapImportSchema', () => {
+  const row = { firstName: ' Shane ', lastName: 'Lowry', handicapIndex: 5.8 };
+
+  it('accepts rows and reads dates as local calendar days', () => {
+    const result = handicapImportSchema.safeParse({
+      rows: [row, { ...row, handicapIndex: -1.2, effectiveDate: '2026-04-18' }],
+    });
+    expect(result.success && result.data.rows).toEqual([
+      { firstName: 'Shane', lastName: 'Lowry', handicapIndex: 5.8 },
+      {
+        firstName: 'Shane',
+        lastName: 'Lowry',
+        handicapIndex: -1.2,
+        effectiveDate: new Date(2026, 3, 18),
+      },
+    ]);
+  });
+
+  it('rejects a handicap outside the WHS range', () => {
+    expect(
+      handicapImportSchema.safeParse({ rows: [{ ...row, handicapIndex: 54.1 }] }).success
+    ).toBe(false);
+    expect(handicapImportSchema.safeParse({ rows: [{ ...row, handicapIndex: -11 }] }).success).toBe(
+      false
+    );
+  });
+
+  it('rejects a malformed date', () => {
+    const result = handicapImportSchema.safeParse({
+      rows: [{ ...row, effectiveDate: '18/04/2026' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects an empty import', () => {
+    expect(handicapImportSchema.safeParse({ rows: [] }).success).toBe(false);
+  });
+});
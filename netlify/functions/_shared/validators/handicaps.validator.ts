@@ -0,0 +1,37 @@
+// Handicap validation schemas
+
+import { z } from 'zod';
+import { MAX_HANDICAP_INDEX, MIN_HANDICAP_INDEX } from '../../../../shared/types/golfer.types';
+
+export const MAX_HANDICAP_IMPORT_ROWS = 500;
+
+// A calendar date, read as local midnight so it lands on the day the club sees
+const effectiveDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format')
+  .transform((value) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  })
+  .refine((date) => !isNaN(date.getTime()), 'Invalid date');
+
+export const handicapIndexSchema = z
+  .number()
+  .min(MIN_HANDICAP_INDEX, `Handicap index must be at least ${MIN_HANDICAP_INDEX}`)
+  .max(MAX_HANDICAP_INDEX, `Handicap index must be at most ${MAX_HANDICAP_INDEX}`);
+
+export const handicapImportSchema = z.object({
+  rows: z
+    .array(
+      z.object({
+        firstName: z.string().trim().min(1, 'First name is required'),
+        lastName: z.string().trim().min(1, 'Last name is required'),
+        handicapIndex: handicapIndexSchema,
+        effectiveDate: effectiveDateSchema.optional(),
+      })
+    )
+    .min(1, 'At least one handicap is required')
+    .max(MAX_HANDICAP_IMPORT_ROWS, `At most ${MAX_HANDICAP_IMPORT_ROWS} handicaps per import`),
+});
+
+export type HandicapImportInput = z.infer<typeof handicapImportSchema>;
@@ -0,0 +1,10 @@
+// League validation for functions
+
+import {
+  createLeagueSchema,
+  joinLeagueSchema,
+  leaveLeagueSchema,
+} from '../../../../shared/validators/leagues.validators';
+export { validateBody } from '../utils/validate';
+
+export { createLeagueSchema, joinLeagueSchema, leaveLeagueSchema };
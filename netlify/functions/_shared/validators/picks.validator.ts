@@ -1,7 +1,7 @@
 // Picks validation for functions
 
 import { savePicksSchema } from '../../../../shared/validators/picks.validators';
-import { BUDGET_CAP, MAX_PLAYERS } from '../../../../shared/constants/rules';
+import { BUDGET_CAP, MAX_PLAYERS, MAX_BENCH_GOLFERS } from '../../../../shared/constants/rules';
 export { validateBody } from '../utils/validate';
 
-export { savePicksSchema, BUDGET_CAP, MAX_PLAYERS };
+export { savePicksSchema, BUDGET_CAP, MAX_PLAYERS, MAX_BENCH_GOLFERS };
@@ -211,6 +211,82 @@ describe('bulkEnterScoresSchema', () => {
       }
     });
 
+    it('passes when two golfers tie for 2nd and the next place is 4th', () => {
+      const result = bulkEnterScoresSchema.safeParse({
+        tournamentId: 't1',
+        scores: [
+          validScore({ golferId: 'g1', position: 1 }),
+          validScore({ golferId: 'g2', position: 2, tied: true }),
+          validScore({ golferId: 'g3', position: 2, tied: true }),
+          validScore({ golferId: 'g4', position: 4 }),
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('passes when a tie for 1st covers 2nd place', () => {
+      const result = bulkEnterScoresSchema.safeParse({
+        tournamentId: 't1',
+        scores: [
+          validScore({ golferId: 'g1', position: 1, tied: true }),
+          validScore({ golferId: 'g2', position: 1, tied: true }),
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('fails when a golfer is marked tied on their own', () => {
+      const result = bulkEnterScoresSchema.safeParse({
+        tournamentId: 't1',
+        scores: [
+          validScore({ golferId: 'g1', position: 1, tied: true }),
+          validScore({ golferId: 'g2', position: 2 }),
+        ],
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toContain('shared by at least two golfers');
+      }
+    });
+
+    it('fails when a place covered by a tie is also assigned', () => {
+      const result = bulkEnterScoresSchema.safeParse({
+        tournamentId: 't1',
+        scores: [
+          validScore({ golferId: 'g1', position: 1 }),
+          validScore({ golferId: 'g2', position: 2, tied: true }),
+          validScore({ golferId: 'g3', position: 2, tied: true }),
+          validScore({ golferId: 'g4', position: 3 }),
+        ],
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toContain('Position 3 is covered');
+      }
+    });
+
+    it('accepts a pairing entered as one score', () => {
+      const result = bulkEnterScoresSchema.safeParse({
+        tournamentId: 't1',
+        scores: [validScore({ position: 1, partnerIds: ['g2'] })],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('fails when a golfer is entered twice', () => {
+      const result = bulkEnterScoresSchema.safeParse({
+        tournamentId: 't1',
+        scores: [
+          validScore({ position: 1, partnerIds: ['g2'] }),
+          validScore({ golferId: 'g2', position: 2, partnerIds: ['g3'] }),
+        ],
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Each golfer can only be entered once');
+      }
+    });
+
     it('allows non-participating golfers without rawScore', () => {
       const result = bulkEnterScoresSchema.safeParse({
         tournamentId: 't1',
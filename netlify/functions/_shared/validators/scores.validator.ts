@@ -7,14 +7,18 @@ export const enterScoreSchema = z.object({
   tournamentId: z.string().min(1, 'Tournament ID is required'),
   golferId: z.string().min(1, 'Golfer ID is required'),
   position: z.number().int().min(1).max(100).nullable().optional(),
+  tied: z.boolean().default(false),
   rawScore: z.number().int().nullable().optional(),
   participated: z.boolean().default(true),
 });
 
-// Score entry within bulk entry
+// Score entry within bulk entry. In a team-format event one entry covers a pairing:
+// golferId and the partnerIds share its position and raw score.
 export const bulkScoreEntrySchema = z.object({
   golferId: z.string().min(1, 'Golfer ID is required'),
+  partnerIds: z.array(z.string().min(1, 'Partner ID is required')).default([]),
   position: z.number().int().min(1).max(100).nullable().optional(),
+  tied: z.boolean().default(false),
   rawScore: z.number().int().nullable().optional(),
   participated: z.boolean().default(false),
 });
@@ -26,6 +30,17 @@ export const bulkEnterScoresSchema = z
     scores: z.array(bulkScoreEntrySchema).min(1, 'At least one score is required'),
   })
   .superRefine((data, ctx) => {
+    // Rule 0: A golfer has one result, so can't appear in two entries or partner themselves
+    const golferIds = data.scores.flatMap((s) => [s.golferId, ...s.partnerIds]);
+    if (new Set(golferIds).size !== golferIds.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Each golfer can only be entered once',
+        path: ['scores'],
+      });
+      return;
+    }
+
     const participatingScores = data.scores.filter((s) => s.participated);
 
     // Rule 1: At least 1 golfer must have participated
@@ -62,47 +77,76 @@ export const bulkEnterScoresSchema = z
       return;
     }
 
+    // Golfers at or above a place, so a tie for 1st covers 2nd and a tie for 2nd covers 3rd
+    const placedWithin = (place: number) =>
+      participatingScores.filter(
+        (s) => s.position !== null && s.position !== undefined && s.position <= place
+      ).length;
+
     // Rule 4: If 2+ participants, must have 2nd place
-    if (participatingScores.length >= 2) {
-      const hasSecond = participatingScores.some((s) => s.position === 2);
-      if (!hasSecond) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: 'With 2+ golfers, you must assign a 2nd place finish',
-          path: ['scores'],
-        });
-        return;
-      }
+    if (participatingScores.length >= 2 && placedWithin(2) < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'With 2+ golfers, you must assign a 2nd place finish',
+        path: ['scores'],
+      });
+      return;
     }
 
     // Rule 5: If 3+ participants, must have 3rd place
-    if (participatingScores.length >= 3) {
-      const hasThird = participatingScores.some((s) => s.position === 3);
-      if (!hasThird) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: 'With 3+ golfers, you must assign a 3rd place finish',
-          path: ['scores'],
-        });
-        return;
-      }
+    if (participatingScores.length >= 3 && placedWithin(3) < 3) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'With 3+ golfers, you must assign a 3rd place finish',
+        path: ['scores'],
+      });
+      return;
     }
 
-    // Check for duplicate positions (only for positions 1, 2, 3)
-    const podiumPositions = participatingScores
-      .filter(
-        (s) => s.position !== null && s.position !== undefined && s.position >= 1 && s.position <= 3
-      )
-      .map((s) => s.position);
-    const uniquePositions = new Set(podiumPositions);
+    const byPosition = new Map<number, BulkScoreEntry[]>();
+    for (const score of participatingScores) {
+      if (score.position === null || score.position === undefined) continue;
+      byPosition.set(score.position, [...(byPosition.get(score.position) ?? []), score]);
+    }
 
-    if (podiumPositions.length !== uniquePositions.size) {
+    // Check for duplicate positions (only for positions 1, 2, 3) that aren't marked as tied
+    const hasUntiedDuplicate = [...byPosition].some(
+      ([position, shared]) => position <= 3 && shared.length > 1 && shared.some((s) => !s.tied)
+    );
+    if (hasUntiedDuplicate) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         message:
-          'Duplicate positions found. Each position (1st, 2nd, 3rd) can only be assigned once',
+          'Duplicate positions found. Each position (1st, 2nd, 3rd) can only be assigned once unless marked as tied',
         path: ['scores'],
       });
+      return;
+    }
+
+    for (const [position, shared] of byPosition) {
+      if (!shared.some((s) => s.tied)) continue;
+
+      // Rule 6: A tied position is shared by every golfer on it, and by at least two
+      if (shared.length < 2 || shared.some((s) => !s.tied)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `A tied position must be shared by at least two golfers, all marked as tied (position ${position})`,
+          path: ['scores'],
+        });
+        return;
+      }
+
+      // Rule 7: The places a tie covers are skipped, so two tied 2nd are followed by 4th
+      for (let place = position + 1; place < position + shared.length; place++) {
+        if (byPosition.has(place)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Position ${place} is covered by the ${shared.length}-way tie for position ${position}`,
+            path: ['scores'],
+          });
+          return;
+        }
+      }
     }
   });
 
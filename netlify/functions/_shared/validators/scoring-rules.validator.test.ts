@@ -0,0 +1,60 @@
+import { scoringRulesSchema } from './scoring-rules.validator';
+import { DEFAULT_SCORING_RULES } from '../../../../shared/types/tournament.types';
+
+describe('scoringRulesSchema', () => {
+  it('accepts the default rules', () => {
+    expect(scoringRulesSchema.safeParse(DEFAULT_SCORING_RULES).success).toBe(true);
+  });
+
+  it('accepts a deeper position table and a season', () => {
+    const result = scoringRulesSchema.safeParse({
+      ...DEFAULT_SCORING_RULES,
+      season: 2026,
+      positionPoints: [20, 15, 12, 10, 8, 6, 4, 2, 1],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects an empty position table', () => {
+    const result = scoringRulesSchema.safeParse({ ...DEFAULT_SCORING_RULES, positionPoints: [] });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects negative position points', () => {
+    const result = scoringRulesSchema.safeParse({
+      ...DEFAULT_SCORING_RULES,
+      positionPoints: [10, -1],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts multipliers for custom tournament types', () => {
+    const result = scoringRulesSchema.safeParse({
+      ...DEFAULT_SCORING_RULES,
+      multipliers: { ...DEFAULT_SCORING_RULES.multipliers, winter_foursomes: 1.5 },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a negative multiplier', () => {
+    const result = scoringRulesSchema.safeParse({
+      ...DEFAULT_SCORING_RULES,
+      multipliers: { ...DEFAULT_SCORING_RULES.multipliers, founders: -1 },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a negative appearance point', () => {
+    const result = scoringRulesSchema.safeParse({ ...DEFAULT_SCORING_RULES, appearancePoints: -1 });
+    expect(result.success).toBe(false);
+  });
+
+  it('defaults the tie policy to split and rejects unknown policies', () => {
+    const { tiePolicy: _tiePolicy, ...withoutPolicy } = DEFAULT_SCORING_RULES;
+    const defaulted = scoringRulesSchema.safeParse(withoutPolicy);
+    expect(defaulted.success && defaulted.data.tiePolicy).toBe('split');
+
+    const result = scoringRulesSchema.safeParse({ ...DEFAULT_SCORING_RULES, tiePolicy: 'lowest' });
+    expect(result.success).toBe(false);
+  });
+});
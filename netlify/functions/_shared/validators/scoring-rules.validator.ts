@@ -0,0 +1,35 @@
+// Scoring rules validation schemas
+
+import { z } from 'zod';
+
+const bonusBandSchema = z.object({
+  threshold: z.number().int().min(-50).max(200),
+  points: z.number().int().min(0).max(50),
+});
+
+const bonusBandSetSchema = z.object({
+  singleDay: z.array(bonusBandSchema).max(10, 'At most 10 bonus bands per format'),
+  multiDay: z.array(bonusBandSchema).max(10, 'At most 10 bonus bands per format'),
+});
+
+const multiplierSchema = z.number().min(0).max(20);
+
+// Keyed by tournament type; types left out score at the type's own multiplier
+const multipliersSchema = z.record(z.string().min(1), multiplierSchema);
+
+export const scoringRulesSchema = z.object({
+  season: z.number().int().min(2000).max(2100).optional(),
+  positionPoints: z
+    .array(z.number().int().min(0).max(100))
+    .min(1, 'At least one position must score points')
+    .max(100, 'Position points can go at most 100 places deep'),
+  bonusBands: z.object({
+    stableford: bonusBandSetSchema,
+    medal: bonusBandSetSchema,
+  }),
+  multipliers: multipliersSchema,
+  appearancePoints: z.number().int().min(0).max(20),
+  tiePolicy: z.enum(['split', 'full']).default('split'),
+});
+
+export type ScoringRulesInput = z.infer<typeof scoringRulesSchema>;
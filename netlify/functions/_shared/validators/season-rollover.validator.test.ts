@@ -0,0 +1,37 @@
+import { seasonRolloverSchema } from './season-rollover.validator';
+
+describe('seasonRolloverSchema', () => {
+  const body = {
+    name: ' 2027 ',
+    startDate: '2027-04-01',
+    endDate: '2028-03-31',
+    carryOverTeams: true,
+    confirm: 'CONFIRM',
+  };
+
+  it('accepts a rollover request', () => {
+    const result = seasonRolloverSchema.safeParse(body);
+    expect(result.success && result.data).toEqual({
+      name: '2027',
+      startDate: new Date('2027-04-01'),
+      endDate: new Date('2028-03-31'),
+      carryOverTeams: true,
+      confirm: 'CONFIRM',
+    });
+  });
+
+  it('requires the season to be named after a year', () => {
+    expect(seasonRolloverSchema.safeParse({ ...body, name: '2027/28' }).success).toBe(false);
+  });
+
+  it('rejects an end date before the start date', () => {
+    expect(seasonRolloverSchema.safeParse({ ...body, endDate: '2027-03-01' }).success).toBe(false);
+  });
+
+  it('requires confirmation', () => {
+    const result = seasonRolloverSchema.safeParse({ ...body, confirm: 'yes' });
+    expect(!result.success && result.error.errors[0].message).toBe(
+      'Must send confirm: "CONFIRM" to proceed'
+    );
+  });
+});
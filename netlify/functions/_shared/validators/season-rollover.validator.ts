@@ -0,0 +1,31 @@
+// Season rollover validation schemas
+
+import { z } from 'zod';
+
+// Parsed the same way seasons-create stores its dates
+const seasonDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format')
+  .transform((value) => new Date(value))
+  .refine((date) => !isNaN(date.getTime()), 'Invalid date');
+
+export const seasonRolloverSchema = z
+  .object({
+    // Picks and tournaments key seasons by year, so the name must be one
+    name: z
+      .string()
+      .trim()
+      .regex(/^\d{4}$/, 'Season name must be a year, e.g. 2027'),
+    startDate: seasonDateSchema,
+    endDate: seasonDateSchema,
+    carryOverTeams: z.boolean(),
+    confirm: z.literal('CONFIRM', {
+      errorMap: () => ({ message: 'Must send confirm: "CONFIRM" to proceed' }),
+    }),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  });
+
+export type SeasonRolloverInput = z.infer<typeof seasonRolloverSchema>;
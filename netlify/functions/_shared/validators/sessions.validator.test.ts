@@ -0,0 +1,37 @@
+import { ObjectId } from 'mongodb';
+import { adminRevokeSessionsSchema, revokeSessionsSchema } from './sessions.validator';
+
+const sessionId = new ObjectId().toString();
+const userId = new ObjectId().toString();
+
+describe('revokeSessionsSchema', () => {
+  it('accepts one session or all others', () => {
+    expect(revokeSessionsSchema.safeParse({ sessionId }).success).toBe(true);
+    expect(revokeSessionsSchema.safeParse({ allOthers: true }).success).toBe(true);
+  });
+
+  it('requires exactly one of sessionId and allOthers', () => {
+    const neither = revokeSessionsSchema.safeParse({});
+    expect(!neither.success && neither.error.errors[0].message).toBe(
+      'Give either sessionId or allOthers'
+    );
+    expect(revokeSessionsSchema.safeParse({ sessionId, allOthers: true }).success).toBe(false);
+  });
+
+  it('rejects an invalid session id', () => {
+    const result = revokeSessionsSchema.safeParse({ sessionId: 'nope' });
+    expect(!result.success && result.error.errors[0].message).toBe('Invalid session id');
+  });
+});
+
+describe('adminRevokeSessionsSchema', () => {
+  it('accepts one session or all of them for a user', () => {
+    expect(adminRevokeSessionsSchema.safeParse({ userId, sessionId }).success).toBe(true);
+    expect(adminRevokeSessionsSchema.safeParse({ userId, all: true }).success).toBe(true);
+  });
+
+  it('requires a valid user id', () => {
+    const result = adminRevokeSessionsSchema.safeParse({ userId: 'nope', all: true });
+    expect(!result.success && result.error.errors[0].message).toBe('Invalid user id');
+  });
+});
@@ -0,0 +1,31 @@
+// Session sign-out validation schemas
+
+import { z } from 'zod';
+import { ObjectId } from 'mongodb';
+
+const objectIdSchema = (label: string) =>
+  z.string().refine((id) => ObjectId.isValid(id), `Invalid ${label} id`);
+
+// Either one session, or every session but the one making the request
+export const revokeSessionsSchema = z
+  .object({
+    sessionId: objectIdSchema('session').optional(),
+    allOthers: z.boolean().optional(),
+  })
+  .refine((data) => Boolean(data.sessionId) !== Boolean(data.allOthers), {
+    message: 'Give either sessionId or allOthers',
+  });
+
+// Admins sign out one of a user's sessions, or all of them
+export const adminRevokeSessionsSchema = z
+  .object({
+    userId: objectIdSchema('user'),
+    sessionId: objectIdSchema('session').optional(),
+    all: z.boolean().optional(),
+  })
+  .refine((data) => Boolean(data.sessionId) !== Boolean(data.all), {
+    message: 'Give either sessionId or all',
+  });
+
+export type RevokeSessionsInput = z.infer<typeof revokeSessionsSchema>;
+export type AdminRevokeSessionsInput = z.infer<typeof adminRevokeSessionsSchema>;
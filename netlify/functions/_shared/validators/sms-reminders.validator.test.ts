@@ -0,0 +1,45 @@
+import { smsReminderPreferencesSchema } from './sms-reminders.validator';
+
+describe('smsReminderPreferencesSchema', () => {
+  const body = {
+    enabled: true,
+    types: ['transfer_deadline', 'no_captain'],
+    quietHoursStart: 22,
+    quietHoursEnd: 8,
+  };
+
+  it('accepts preferences', () => {
+    const result = smsReminderPreferencesSchema.safeParse(body);
+    expect(result.success && result.data).toEqual(body);
+  });
+
+  it('accepts no quiet hours', () => {
+    expect(
+      smsReminderPreferencesSchema.safeParse({
+        ...body,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+      }).success
+    ).toBe(true);
+  });
+
+  it('rejects an unknown reminder', () => {
+    expect(smsReminderPreferencesSchema.safeParse({ ...body, types: ['weather'] }).success).toBe(
+      false
+    );
+  });
+
+  it('rejects an hour outside the day', () => {
+    const result = smsReminderPreferencesSchema.safeParse({ ...body, quietHoursStart: 24 });
+    expect(!result.success && result.error.errors[0].message).toBe(
+      'Quiet hours must be between 0 and 23'
+    );
+  });
+
+  it('requires both ends of the quiet hours', () => {
+    const result = smsReminderPreferencesSchema.safeParse({ ...body, quietHoursEnd: null });
+    expect(!result.success && result.error.errors[0].message).toBe(
+      'Set both a start and an end for quiet hours, or neither'
+    );
+  });
+});
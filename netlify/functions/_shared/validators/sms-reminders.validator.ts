@@ -0,0 +1,30 @@
+// SMS reminder preference validation schemas
+
+import { z } from 'zod';
+import { SMS_REMINDER_TYPES, type SmsReminderType } from '../../../../shared/types';
+
+const hourSchema = z
+  .number()
+  .int()
+  .min(0, 'Quiet hours must be between 0 and 23')
+  .max(23, 'Quiet hours must be between 0 and 23')
+  .nullable();
+
+export const smsReminderPreferencesSchema = z
+  .object({
+    enabled: z.boolean(),
+    types: z
+      .array(z.enum(SMS_REMINDER_TYPES as [SmsReminderType, ...SmsReminderType[]]))
+      .refine(
+        (types) => new Set(types).size === types.length,
+        'Duplicate reminders are not allowed'
+      ),
+    quietHoursStart: hourSchema,
+    quietHoursEnd: hourSchema,
+  })
+  .refine(
+    (data) => (data.quietHoursStart === null) === (data.quietHoursEnd === null),
+    'Set both a start and an end for quiet hours, or neither'
+  );
+
+export type SmsReminderPreferencesInput = z.infer<typeof smsReminderPreferencesSchema>;
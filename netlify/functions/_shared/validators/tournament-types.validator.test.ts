@@ -0,0 +1,46 @@
+import {
+  createTournamentTypeSchema,
+  updateTournamentTypeSchema,
+} from './tournament-types.validator';
+
+describe('createTournamentTypeSchema', () => {
+  it('accepts a label and multiplier, defaulting the rest', () => {
+    const result = createTournamentTypeSchema.safeParse({
+      label: '  Winter Foursomes ',
+      multiplier: 1.5,
+    });
+    expect(result.success && result.data).toEqual({
+      label: 'Winter Foursomes',
+      multiplier: 1.5,
+      defaultScoringFormat: 'stableford',
+      forcedScoringFormat: null,
+      defaultMultiDay: false,
+    });
+  });
+
+  it('rejects a short name', () => {
+    const result = createTournamentTypeSchema.safeParse({ label: 'W', multiplier: 1 });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a negative multiplier', () => {
+    const result = createTournamentTypeSchema.safeParse({ label: 'Winter', multiplier: -1 });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects an unknown scoring format', () => {
+    const result = createTournamentTypeSchema.safeParse({
+      label: 'Winter',
+      multiplier: 1,
+      forcedScoringFormat: 'matchplay',
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('updateTournamentTypeSchema', () => {
+  it('leaves omitted fields undefined rather than defaulting them', () => {
+    const result = updateTournamentTypeSchema.safeParse({ multiplier: 2 });
+    expect(result.success && result.data).toEqual({ multiplier: 2 });
+  });
+});
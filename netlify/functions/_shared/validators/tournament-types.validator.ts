@@ -0,0 +1,23 @@
+// Tournament type validation schemas
+
+import { z } from 'zod';
+
+const scoringFormatSchema = z.enum(['stableford', 'medal']);
+
+export const createTournamentTypeSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters')
+    .max(40, 'Name must be at most 40 characters'),
+  multiplier: z.number().min(0).max(20),
+  defaultScoringFormat: scoringFormatSchema.default('stableford'),
+  forcedScoringFormat: scoringFormatSchema.nullable().default(null),
+  defaultMultiDay: z.boolean().default(false),
+});
+
+// Every field is optional on update; the key is fixed when the type is created
+export const updateTournamentTypeSchema = createTournamentTypeSchema.partial();
+
+export type CreateTournamentTypeInput = z.infer<typeof createTournamentTypeSchema>;
+export type UpdateTournamentTypeInput = z.infer<typeof updateTournamentTypeSchema>;
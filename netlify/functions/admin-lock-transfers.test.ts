@@ -37,12 +37,18 @@ vi.mock('./_shared/services/settings.service', () => ({
   setTransfersOpen: (...args: any[]) => mockSetTransfersOpen(...args),
 }));
 
+const mockEmitNotificationEvent = vi.fn();
+vi.mock('./_shared/services/notifications.service', () => ({
+  emitNotificationEvent: (...args: any[]) => mockEmitNotificationEvent(...args),
+}));
+
 describe('admin-lock-transfers handler', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
   it('sets transfers open with explicit value on POST', async () => {
+    mockGetAppSettings.mockResolvedValue({ transfersOpen: false });
     mockSetTransfersOpen.mockResolvedValue(undefined);
 
     const event = makeAuthEvent({
@@ -56,6 +62,20 @@ describe('admin-lock-transfers handler', () => {
     expect(body.success).toBe(true);
     expect(body.data.transfersOpen).toBe(true);
     expect(mockSetTransfersOpen).toHaveBeenCalledWith(true);
+    expect(mockEmitNotificationEvent).toHaveBeenCalledWith({ type: 'transfer_window', open: true });
+  });
+
+  it('does not notify when the window is already in the requested state', async () => {
+    mockGetAppSettings.mockResolvedValue({ transfersOpen: true });
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ open: true }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(mockEmitNotificationEvent).not.toHaveBeenCalled();
   });
 
   it('toggles transfers when no explicit value given', async () => {
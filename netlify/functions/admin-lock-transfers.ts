@@ -4,6 +4,7 @@
 import type { Handler } from '@netlify/functions';
 import { withAdmin } from './_shared/middleware';
 import { getAppSettings, setTransfersOpen } from './_shared/services/settings.service';
+import { emitNotificationEvent } from './_shared/services/notifications.service';
 
 export const handler: Handler = withAdmin(async (event) => {
   if (event.httpMethod !== 'POST') {
@@ -12,17 +13,15 @@ export const handler: Handler = withAdmin(async (event) => {
 
   try {
     const body = JSON.parse(event.body || '{}');
+    const currentSettings = await getAppSettings();
 
     // If explicit value provided, use it; otherwise toggle
-    let newValue: boolean;
-    if (typeof body.open === 'boolean') {
-      newValue = body.open;
-    } else {
-      const currentSettings = await getAppSettings();
-      newValue = !currentSettings.transfersOpen;
-    }
+    const newValue = typeof body.open === 'boolean' ? body.open : !currentSettings.transfersOpen;
 
     await setTransfersOpen(newValue);
+    if (newValue !== currentSettings.transfersOpen) {
+      await emitNotificationEvent({ type: 'transfer_window', open: newValue });
+    }
 
     return {
       statusCode: 200,
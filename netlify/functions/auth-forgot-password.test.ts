@@ -0,0 +1,74 @@
+import { handler } from './auth-forgot-password';
+import { makeEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 4, resetAt: new Date() }),
+  RateLimitConfig: {
+    passwordReset: { windowMs: 900000, maxRequests: 5 },
+    default: { windowMs: 60000, maxRequests: 100 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn().mockReturnValue({ statusCode: 429, body: '{}' }),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockRequestPasswordReset = vi.fn();
+vi.mock('./_shared/services/password-reset.service', () => ({
+  requestPasswordReset: (...args: any[]) => mockRequestPasswordReset(...args),
+}));
+
+describe('auth-forgot-password handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends a code without signing in', async () => {
+    mockRequestPasswordReset.mockResolvedValue(undefined);
+
+    const event = makeEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ identifier: 'alice', channel: 'email' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).message).toBe("If that account exists, we've emailed it a reset code");
+    expect(mockRequestPasswordReset).toHaveBeenCalledWith('alice', 'email');
+  });
+
+  it('returns 422 for an unknown channel', async () => {
+    const event = makeEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ identifier: 'alice', channel: 'post' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(422);
+    expect(mockRequestPasswordReset).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the reset cannot be started', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockRequestPasswordReset.mockRejectedValue(new Error('Database unavailable'));
+
+    const event = makeEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ identifier: 'alice', channel: 'email' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(500);
+    expect(parseBody(res).error).toBe('Failed to send reset code');
+  });
+
+  it('rejects other methods', async () => {
+    const res = await handler(makeEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,48 @@
+// POST /.netlify/functions/auth-forgot-password
+// Public: sends a password reset code by SMS or email. The response is the same whether
+// or not the account exists, so it can't be used to find out who is registered.
+
+import { z } from 'zod';
+import { withRateLimit } from './_shared/middleware';
+import { requestPasswordReset } from './_shared/services/password-reset.service';
+import { forgotPasswordSchema } from './_shared/validators/auth.validator';
+
+export const handler = withRateLimit(async (event) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { identifier, channel } = forgotPasswordSchema.parse(JSON.parse(event.body || '{}'));
+    await requestPasswordReset(identifier, channel);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        message:
+          channel === 'sms'
+            ? "If that account has a verified phone number, we've texted it a reset code"
+            : "If that account exists, we've emailed it a reset code",
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    console.error('Failed to send password reset code:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: 'Failed to send reset code' }),
+    };
+  }
+}, 'passwordReset');
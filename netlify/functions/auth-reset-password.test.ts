@@ -0,0 +1,78 @@
+import { handler } from './auth-reset-password';
+import { makeEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 4, resetAt: new Date() }),
+  RateLimitConfig: {
+    passwordReset: { windowMs: 900000, maxRequests: 5 },
+    default: { windowMs: 60000, maxRequests: 100 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn().mockReturnValue({ statusCode: 429, body: '{}' }),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockResetPassword = vi.fn();
+vi.mock('./_shared/services/password-reset.service', () => ({
+  resetPassword: (...args: any[]) => mockResetPassword(...args),
+}));
+
+const body = {
+  identifier: 'alice',
+  channel: 'email',
+  code: '042817',
+  password: 'newsecurepass',
+};
+
+describe('auth-reset-password handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sets the new password', async () => {
+    mockResetPassword.mockResolvedValue(undefined);
+
+    const res = await handler(
+      makeEvent({ httpMethod: 'POST', body: JSON.stringify(body) }),
+      mockContext
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).success).toBe(true);
+    expect(mockResetPassword).toHaveBeenCalledWith(body);
+  });
+
+  it('returns 400 for a wrong or expired code', async () => {
+    mockResetPassword.mockRejectedValue(new Error('Invalid or expired reset code'));
+
+    const res = await handler(
+      makeEvent({ httpMethod: 'POST', body: JSON.stringify(body) }),
+      mockContext
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(parseBody(res).error).toBe('Invalid or expired reset code');
+  });
+
+  it('returns 422 for a password that is too short', async () => {
+    const res = await handler(
+      makeEvent({ httpMethod: 'POST', body: JSON.stringify({ ...body, password: 'short' }) }),
+      mockContext
+    );
+
+    expect(res.statusCode).toBe(422);
+    expect(parseBody(res).error).toBe('Password must be at least 8 characters');
+    expect(mockResetPassword).not.toHaveBeenCalled();
+  });
+
+  it('rejects other methods', async () => {
+    const res = await handler(makeEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
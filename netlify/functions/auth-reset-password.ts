@@ -0,0 +1,45 @@
+// POST /.netlify/functions/auth-reset-password
+// Public: checks a reset code from auth-forgot-password and sets a new password
+
+import { z } from 'zod';
+import { withRateLimit } from './_shared/middleware';
+import { resetPassword } from './_shared/services/password-reset.service';
+import { resetPasswordSchema } from './_shared/validators/auth.validator';
+
+export const handler = withRateLimit(async (event) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const data = resetPasswordSchema.parse(JSON.parse(event.body || '{}'));
+    await resetPassword(data);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        message: 'Password updated. Sign in with your new password.',
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    const message = error instanceof Error ? error.message : 'Failed to reset password';
+    const statusCode = message === 'Invalid or expired reset code' ? 400 : 500;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'passwordReset');
@@ -0,0 +1,89 @@
+import { handler } from './awards-list';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockGetUserAwards = vi.fn();
+const mockGetSeasonAwards = vi.fn();
+vi.mock('./_shared/services/awards.service', () => ({
+  getUserAwards: (...args: any[]) => mockGetUserAwards(...args),
+  getSeasonAwards: (...args: any[]) => mockGetSeasonAwards(...args),
+}));
+
+const userId = '507f1f77bcf86cd799439011';
+
+describe('awards-list handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns a manager's awards", async () => {
+    const awards = [{ id: 'a1', userId, type: 'week', label: 'Gameweek 3' }];
+    mockGetUserAwards.mockResolvedValue(awards);
+
+    const event = makeAuthEvent({ httpMethod: 'GET', queryStringParameters: { userId } });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(awards);
+    expect(mockGetUserAwards).toHaveBeenCalledWith(userId);
+  });
+
+  it("returns a season's awards", async () => {
+    mockGetSeasonAwards.mockResolvedValue([]);
+
+    const event = makeAuthEvent({ httpMethod: 'GET', queryStringParameters: { season: '2026' } });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(mockGetSeasonAwards).toHaveBeenCalledWith(2026);
+  });
+
+  it('returns 400 without a user or season', async () => {
+    const event = makeAuthEvent({ httpMethod: 'GET', queryStringParameters: {} });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('returns 400 for an invalid user ID', async () => {
+    const event = makeAuthEvent({ httpMethod: 'GET', queryStringParameters: { userId: 'bad' } });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+    expect(mockGetUserAwards).not.toHaveBeenCalled();
+  });
+
+  it('returns 405 for other methods', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,48 @@
+// GET /.netlify/functions/awards-list?userId=<id> or ?season=<year>
+// Returns a manager's awards, or every award in a season with the winners' names
+
+import type { Handler } from '@netlify/functions';
+import { ObjectId } from 'mongodb';
+import { withVerifiedAuth } from './_shared/middleware';
+import { getSeasonAwards, getUserAwards } from './_shared/services/awards.service';
+
+export const handler: Handler = withVerifiedAuth(async (event) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  const { userId, season } = event.queryStringParameters ?? {};
+
+  if (userId && !ObjectId.isValid(userId)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ success: false, error: 'Invalid user ID' }),
+    };
+  }
+
+  const seasonNumber = season ? parseInt(season, 10) : NaN;
+  if (!userId && isNaN(seasonNumber)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ success: false, error: 'A user ID or season is required' }),
+    };
+  }
+
+  try {
+    const awards = userId ? await getUserAwards(userId) : await getSeasonAwards(seasonNumber);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: awards }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch awards';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
@@ -0,0 +1,96 @@
+import { handler } from './awards-override';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockOverrideAward = vi.fn();
+vi.mock('./_shared/services/awards.service', () => ({
+  overrideAward: (...args: any[]) => mockOverrideAward(...args),
+}));
+
+const userId = '507f1f77bcf86cd799439011';
+const validBody = { type: 'week', season: 2026, periodStart: '2026-04-14', userIds: [userId] };
+
+describe('awards-override handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('overrides the award on PUT', async () => {
+    const awards = [{ id: 'a1', userId, label: 'Gameweek 2', overridden: true }];
+    mockOverrideAward.mockResolvedValue(awards);
+
+    const event = makeAuthEvent({ httpMethod: 'PUT', body: JSON.stringify(validBody) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(awards);
+    expect(parseBody(res).message).toBe('Gameweek 2 award updated');
+    expect(mockOverrideAward).toHaveBeenCalledWith(
+      { ...validBody, periodStart: new Date('2026-04-14') },
+      'user-admin-1'
+    );
+  });
+
+  it('returns 422 for an invalid body', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      body: JSON.stringify({ ...validBody, userIds: [] }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(422);
+    expect(mockOverrideAward).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when the manager has no team', async () => {
+    mockOverrideAward.mockRejectedValue(new Error(`Manager ${userId} has no team in season 2026`));
+
+    const event = makeAuthEvent({ httpMethod: 'PUT', body: JSON.stringify(validBody) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('returns 404 for an unknown season', async () => {
+    mockOverrideAward.mockRejectedValue(new Error('Season 2026 not found'));
+
+    const event = makeAuthEvent({ httpMethod: 'PUT', body: JSON.stringify(validBody) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
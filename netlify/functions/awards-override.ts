@@ -0,0 +1,53 @@
+// PUT /.netlify/functions/awards-override (Admin only)
+// Replaces the winners of a week or month award
+
+import { z } from 'zod';
+import { overrideAward } from './_shared/services/awards.service';
+import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
+import { overrideAwardSchema } from './_shared/validators/awards.validator';
+
+const handler = withAdmin(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'PUT') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const data = overrideAwardSchema.parse(JSON.parse(event.body || '{}'));
+    const awards = await overrideAward(data, event.user.userId);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: awards,
+        message: `${awards[0].label} award updated`,
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    console.error('Error overriding award:', error);
+    const message = error instanceof Error ? error.message : 'Failed to override award';
+    const statusCode = message.endsWith('not found')
+      ? 404
+      : message.startsWith('No tournaments') || message.startsWith('Manager ')
+        ? 400
+        : 500;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
+
+export { handler };
@@ -0,0 +1,86 @@
+import { handler } from './email-preferences';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockGetEmailPreferences = vi.fn();
+const mockUpdateEmailPreferences = vi.fn();
+vi.mock('./_shared/services/emails.service', () => ({
+  getEmailPreferences: (...args: any[]) => mockGetEmailPreferences(...args),
+  updateEmailPreferences: (...args: any[]) => mockUpdateEmailPreferences(...args),
+}));
+
+describe('email-preferences handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the current user preferences on GET', async () => {
+    mockGetEmailPreferences.mockResolvedValue({ weeklyDigest: true });
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual({ weeklyDigest: true });
+    expect(mockGetEmailPreferences).toHaveBeenCalledWith('user-admin-1');
+  });
+
+  it('saves preferences on PUT', async () => {
+    mockUpdateEmailPreferences.mockResolvedValue({ weeklyDigest: false });
+
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      body: JSON.stringify({ weeklyDigest: false }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(mockUpdateEmailPreferences).toHaveBeenCalledWith('user-admin-1', {
+      weeklyDigest: false,
+    });
+  });
+
+  it('returns 422 for invalid preferences', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      body: JSON.stringify({ weeklyDigest: 'no' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(422);
+    expect(mockUpdateEmailPreferences).not.toHaveBeenCalled();
+  });
+
+  it('rejects other methods', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'DELETE' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
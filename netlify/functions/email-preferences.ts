@@ -0,0 +1,63 @@
+// GET/PUT /.netlify/functions/email-preferences
+// GET returns the current user's email preferences; PUT replaces them
+
+import { z } from 'zod';
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { getEmailPreferences, updateEmailPreferences } from './_shared/services/emails.service';
+import { emailPreferencesSchema } from './_shared/validators/emails.validator';
+
+const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod === 'GET') {
+    try {
+      const preferences = await getEmailPreferences(event.user.userId);
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, data: preferences }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch email preferences';
+      return {
+        statusCode: message === 'User not found' ? 404 : 500,
+        body: JSON.stringify({ success: false, error: message }),
+      };
+    }
+  }
+
+  if (event.httpMethod !== 'PUT') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const data = emailPreferencesSchema.parse(JSON.parse(event.body || '{}'));
+    const preferences = await updateEmailPreferences(event.user.userId, data);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: preferences,
+        message: 'Email preferences updated',
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    const message = error instanceof Error ? error.message : 'Failed to update email preferences';
+    return {
+      statusCode: message === 'User not found' ? 404 : 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'write');
+
+export { handler };
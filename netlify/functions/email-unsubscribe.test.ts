@@ -0,0 +1,62 @@
+import { handler } from './email-unsubscribe';
+import { makeEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    auth: { windowMs: 60000, maxRequests: 10 },
+    default: { windowMs: 60000, maxRequests: 100 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn().mockReturnValue({ statusCode: 429, body: '{}' }),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockUnsubscribeFromEmails = vi.fn();
+vi.mock('./_shared/services/emails.service', () => ({
+  unsubscribeFromEmails: (...args: any[]) => mockUnsubscribeFromEmails(...args),
+}));
+
+describe('email-unsubscribe handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('unsubscribes without signing in', async () => {
+    mockUnsubscribeFromEmails.mockResolvedValue(undefined);
+
+    const event = makeEvent({ httpMethod: 'POST', body: JSON.stringify({ token: 'signed' }) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).success).toBe(true);
+    expect(mockUnsubscribeFromEmails).toHaveBeenCalledWith('signed');
+  });
+
+  it('returns 400 for a link that is not valid', async () => {
+    mockUnsubscribeFromEmails.mockRejectedValue(new Error('Invalid unsubscribe link'));
+
+    const event = makeEvent({ httpMethod: 'POST', body: JSON.stringify({ token: 'forged' }) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+    expect(parseBody(res).error).toBe('Invalid unsubscribe link');
+  });
+
+  it('returns 422 without a token', async () => {
+    const res = await handler(makeEvent({ httpMethod: 'POST', body: '{}' }), mockContext);
+
+    expect(res.statusCode).toBe(422);
+  });
+
+  it('rejects other methods', async () => {
+    const res = await handler(makeEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
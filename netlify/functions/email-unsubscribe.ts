@@ -0,0 +1,47 @@
+// POST /.netlify/functions/email-unsubscribe
+// Public: turns off the weekly digest using the signed token from an email's unsubscribe link
+
+import { z } from 'zod';
+import { withRateLimit } from './_shared/middleware';
+import { unsubscribeFromEmails } from './_shared/services/emails.service';
+import { unsubscribeSchema } from './_shared/validators/emails.validator';
+
+export const handler = withRateLimit(async (event) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { token } = unsubscribeSchema.parse(JSON.parse(event.body || '{}'));
+    await unsubscribeFromEmails(token);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        message: "You've been unsubscribed from the weekly digest",
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    const message = error instanceof Error ? error.message : 'Failed to unsubscribe';
+    let statusCode = 500;
+    if (message === 'Invalid unsubscribe link') statusCode = 400;
+    else if (message === 'User not found') statusCode = 404;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'auth');
@@ -56,6 +56,17 @@ describe('golfers-create handler', () => {
     expect(createGolfer).toHaveBeenCalledWith(golferData);
   });
 
+  it('returns 422 when the handicap index is not a number', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ ...golferData, handicapIndex: '5.4' }),
+    });
+    const result = await handler(event, mockContext);
+
+    expect(result.statusCode).toBe(422);
+    expect(createGolfer).not.toHaveBeenCalled();
+  });
+
   it('returns 405 for non-POST method', async () => {
     const event = makeAuthEvent({ httpMethod: 'GET' });
     const result = await handler(event, mockContext);
@@ -1,8 +1,10 @@
 // POST /.netlify/functions/golfers-create (Admin only)
 
 import type { Handler } from '@netlify/functions';
+import { z } from 'zod';
 import { withAdmin } from './_shared/middleware';
 import { createGolfer } from './_shared/services/golfers.service';
+import { handicapIndexSchema } from './_shared/validators/handicaps.validator';
 import type { CreateGolferDTO } from '../../shared/types';
 
 export const handler: Handler = withAdmin(async (event) => {
@@ -12,6 +14,8 @@ export const handler: Handler = withAdmin(async (event) => {
 
   try {
     const data: CreateGolferDTO = JSON.parse(event.body || '{}');
+    handicapIndexSchema.nullable().optional().parse(data.handicapIndex);
+
     const golfer = await createGolfer(data);
 
     return {
@@ -19,6 +23,15 @@ export const handler: Handler = withAdmin(async (event) => {
       body: JSON.stringify({ success: true, data: golfer }),
     };
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
     const message = error instanceof Error ? error.message : 'Failed to create golfer';
     return {
       statusCode: 400,
@@ -89,9 +89,11 @@ describe('golfers-get handler', () => {
       picture: 'pic.jpg',
       price: 5000000,
       isActive: true,
-      stats2024: { timesPlayed: 0, timesFinished1st: 0, timesFinished2nd: 0, timesFinished3rd: 0, timesScored36Plus: 0, timesScored32Plus: 0 },
-      stats2025: { timesPlayed: 0, timesFinished1st: 0, timesFinished2nd: 0, timesFinished3rd: 0, timesScored36Plus: 0, timesScored32Plus: 0 },
-      stats2026: { timesPlayed: 0, timesFinished1st: 0, timesFinished2nd: 0, timesFinished3rd: 0, timesScored36Plus: 0, timesScored32Plus: 0 },
+      handicapIndex: null,
+      statsBySeason: {
+        '2025': { timesPlayed: 6, timesFinished1st: 0, timesFinished2nd: 2, timesFinished3rd: 1, timesScored36Plus: 0, timesScored32Plus: 3 },
+        '2026': { timesPlayed: 1, timesFinished1st: 1, timesFinished2nd: 0, timesFinished3rd: 0, timesScored36Plus: 1, timesScored32Plus: 1 },
+      },
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -128,14 +130,30 @@ describe('golfers-get handler', () => {
     expect(result.statusCode).toBe(200);
     expect(body.success).toBe(true);
     expect(body.data.firstName).toBe('Tiger');
-    expect(body.data.stats2026).toBeDefined();
-    expect(body.data.stats2026.timesPlayed).toBe(1);
-    expect(body.data.stats2026.timesFinished1st).toBe(1);
+    expect(body.data.stats.timesPlayed).toBe(1);
+    expect(body.data.stats.timesFinished1st).toBe(1);
     expect(body.data.points).toBeDefined();
     expect(body.data.points.season).toBe(50);
     expect(body.data.seasonStats).toBeDefined();
   });
 
+  it('returns stats for the requested season', async () => {
+    const stats2025 = { timesPlayed: 6, timesFinished1st: 0, timesFinished2nd: 2, timesFinished3rd: 1, timesScored36Plus: 0, timesScored32Plus: 3 };
+    vi.mocked(getGolferById).mockResolvedValue({
+      id: 'g1', firstName: 'Tiger', lastName: 'Woods', picture: 'pic.jpg', price: 5000000,
+      handicapIndex: null, isActive: true, statsBySeason: { '2025': stats2025 },
+      createdAt: new Date(), updatedAt: new Date(),
+    });
+
+    const event = makeAuthEvent({
+      httpMethod: 'GET',
+      queryStringParameters: { id: 'g1', season: '2025' },
+    });
+    const body = parseBody(await handler(event, mockContext));
+
+    expect(body.data.stats).toEqual(stats2025);
+  });
+
   it('returns 500 on internal error', async () => {
     vi.mocked(getGolferById).mockRejectedValue(new Error('DB error'));
 
@@ -1,4 +1,6 @@
 // GET /.netlify/functions/golfers-get?id=xxx
+// ?season=2025 picks the season for stats (default: active season); ?season=overall adds
+// up every season
 
 import { ObjectId } from 'mongodb';
 import { withVerifiedAuth } from './_shared/middleware';
@@ -8,6 +10,7 @@ import { getScoresForGolfer } from './_shared/services/scores.service';
 import { getWeekStart, getMonthStart, getSeasonStart } from './_shared/utils/dates';
 import { getActiveSeason, getAllSeasons } from './_shared/services/seasons.service';
 import { connectToDatabase } from './_shared/db';
+import { getGolferSeasonStats } from '../../shared/types';
 
 export const handler = withVerifiedAuth(async (event) => {
   try {
@@ -37,6 +40,7 @@ export const handler = withVerifiedAuth(async (event) => {
     // Get active season for filtering
     const activeSeason = await getActiveSeason();
     const currentSeason = activeSeason ? (parseInt(activeSeason.name, 10) || new Date().getFullYear()) : new Date().getFullYear();
+    const statsSeason = event.queryStringParameters?.season || activeSeason?.name || String(currentSeason);
 
     // Get published/complete tournaments for current season
     const publishedTournaments = tournaments.filter(
@@ -56,15 +60,8 @@ export const handler = withVerifiedAuth(async (event) => {
         };
       });
 
-    // Calculate dynamic stats
-    const stats2026 = {
-      timesPlayed: relevantScores.length,
-      timesFinished1st: relevantScores.filter(s => s.position === 1).length,
-      timesFinished2nd: relevantScores.filter(s => s.position === 2).length,
-      timesFinished3rd: relevantScores.filter(s => s.position === 3).length,
-      timesBonusScored: relevantScores.filter(s => s.bonusPoints > 0).length,
-    };
-    
+    const stats = getGolferSeasonStats(golfer.statsBySeason, statsSeason);
+
     // Calculate points by period
     const weekStart = getWeekStart();
     const monthStart = getMonthStart();
@@ -132,7 +129,7 @@ export const handler = withVerifiedAuth(async (event) => {
         statusCode: 200,
         body: JSON.stringify({
           success: true,
-          data: { ...golfer, stats2026, points, seasonStats, selectedBy: [], selectedByCount: 0, totalTeams: 0 },
+          data: { ...golfer, stats, points, seasonStats, selectedBy: [], selectedByCount: 0, totalTeams: 0 },
         }),
       };
     }
@@ -172,7 +169,7 @@ export const handler = withVerifiedAuth(async (event) => {
         success: true, 
         data: {
           ...golfer,
-          stats2026,
+          stats,
           points,
           seasonStats,
           selectedBy,
@@ -0,0 +1,65 @@
+import { handler } from './golfers-handicap-history';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-player-1',
+    username: 'testplayer',
+    role: 'player',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+const mockGetHistory = vi.fn();
+vi.mock('./_shared/services/handicaps.service', () => ({
+  getGolferHandicapHistory: (...args: unknown[]) => mockGetHistory(...args),
+}));
+
+describe('golfers-handicap-history handler', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('returns the handicap history for the golfer', async () => {
+    const history = { golferId: 'g1', currentHandicap: 5.8, entries: [] };
+    mockGetHistory.mockResolvedValue(history);
+
+    const res = await handler(makeAuthEvent({ queryStringParameters: { id: 'g1' } }), mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).data).toEqual(history);
+    expect(mockGetHistory).toHaveBeenCalledWith('g1');
+  });
+
+  it('returns 400 without a golfer id', async () => {
+    const res = await handler(makeAuthEvent({ queryStringParameters: {} }), mockContext);
+
+    expect(res!.statusCode).toBe(400);
+    expect(mockGetHistory).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the golfer does not exist', async () => {
+    mockGetHistory.mockRejectedValue(new Error('Golfer not found'));
+
+    const res = await handler(
+      makeAuthEvent({ queryStringParameters: { id: 'missing' } }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(404);
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+    expect(res!.statusCode).toBe(405);
+  });
+});
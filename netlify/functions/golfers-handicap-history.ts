@@ -0,0 +1,39 @@
+// GET /.netlify/functions/golfers-handicap-history?id=xxx
+// Returns a golfer's current handicap index and its dated history
+
+import type { Handler } from '@netlify/functions';
+import { withVerifiedAuth } from './_shared/middleware';
+import { getGolferHandicapHistory } from './_shared/services/handicaps.service';
+
+export const handler: Handler = withVerifiedAuth(async (event) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const id = event.queryStringParameters?.id;
+    if (!id) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ success: false, error: 'Golfer ID is required' }),
+      };
+    }
+
+    const history = await getGolferHandicapHistory(id);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: history }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch handicap history';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
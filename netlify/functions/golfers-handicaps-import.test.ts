@@ -0,0 +1,92 @@
+import { handler } from './golfers-handicaps-import';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockImportHandicaps = vi.fn();
+vi.mock('./_shared/services/handicaps.service', () => ({
+  importHandicaps: (...args: any[]) => mockImportHandicaps(...args),
+}));
+
+describe('golfers-handicaps-import handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('imports the validated rows on POST', async () => {
+    const summary = { recorded: 1, updated: 1, unmatched: [] };
+    mockImportHandicaps.mockResolvedValue(summary);
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({
+        rows: [
+          {
+            firstName: 'Shane',
+            lastName: 'Lowry',
+            handicapIndex: 5.8,
+            effectiveDate: '2026-04-18',
+          },
+        ],
+      }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(summary);
+    expect(mockImportHandicaps).toHaveBeenCalledWith([
+      {
+        firstName: 'Shane',
+        lastName: 'Lowry',
+        handicapIndex: 5.8,
+        effectiveDate: new Date(2026, 3, 18),
+      },
+    ]);
+  });
+
+  it('returns 422 for an invalid handicap', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({
+        rows: [{ firstName: 'Shane', lastName: 'Lowry', handicapIndex: 60 }],
+      }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(422);
+    expect(mockImportHandicaps).not.toHaveBeenCalled();
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,44 @@
+// POST /.netlify/functions/golfers-handicaps-import (Admin only)
+// Records a batch of dated handicap indexes, matched to golfers by name
+
+import { z } from 'zod';
+import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
+import { importHandicaps } from './_shared/services/handicaps.service';
+import { handicapImportSchema } from './_shared/validators/handicaps.validator';
+
+const handler = withAdmin(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { rows } = handicapImportSchema.parse(JSON.parse(event.body || '{}'));
+    const result = await importHandicaps(rows);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: result }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    console.error('Error importing handicaps:', error);
+    const message = error instanceof Error ? error.message : 'Failed to import handicaps';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
+
+export { handler };
@@ -47,9 +47,10 @@ const makeGolferDoc = (id: string, firstName: string, lastName: string) => ({
   picture: 'pic.jpg',
   price: 5000000,
   isActive: true,
-  stats2024: { timesPlayed: 0, timesFinished1st: 0, timesFinished2nd: 0, timesFinished3rd: 0, timesScored36Plus: 0, timesScored32Plus: 0 },
-  stats2025: { timesPlayed: 0, timesFinished1st: 0, timesFinished2nd: 0, timesFinished3rd: 0, timesScored36Plus: 0, timesScored32Plus: 0 },
-  stats2026: { timesPlayed: 0, timesFinished1st: 0, timesFinished2nd: 0, timesFinished3rd: 0, timesScored36Plus: 0, timesScored32Plus: 0 },
+  statsBySeason: {
+    '2025': { timesPlayed: 4, timesFinished1st: 1, timesFinished2nd: 0, timesFinished3rd: 0, timesScored36Plus: 1, timesScored32Plus: 2 },
+    '2026': { timesPlayed: 1, timesFinished1st: 1, timesFinished2nd: 0, timesFinished3rd: 0, timesScored36Plus: 1, timesScored32Plus: 1 },
+  },
   createdAt: new Date(),
   updatedAt: new Date(),
   scores: [],
@@ -144,7 +145,7 @@ describe('golfers-list handler', () => {
     expect(body.data).toHaveLength(1);
     expect(body.data[0].firstName).toBe('Tiger');
     expect(body.data[0].points).toBeDefined();
-    expect(body.data[0].stats2026).toBeDefined();
+    expect(body.data[0].stats.timesPlayed).toBe(1);
     expect(body.data[0].seasonStats).toBeDefined();
     expect(typeof body.data[0].selectedPercentage).toBe('number');
     expect(body.pagination).toBeDefined();
@@ -190,6 +191,27 @@ describe('golfers-list handler', () => {
 
     expect(result.statusCode).toBe(200);
     expect(body.success).toBe(true);
+    expect(body.data[0].stats.timesPlayed).toBe(4);
+  });
+
+  it('adds up stats across seasons for ?season=overall', async () => {
+    const golfer = makeGolferDoc('507f1f77bcf86cd799439011', 'Brooks', 'Koepka');
+    setupMockDb([golfer], [], [makeSeasonDoc('2025', false), makeSeasonDoc('2026', true)]);
+
+    const event = makeAuthEvent({
+      httpMethod: 'GET',
+      queryStringParameters: { season: 'overall' },
+    });
+    const body = parseBody(await handler(event, mockContext));
+
+    expect(body.data[0].stats).toEqual({
+      timesPlayed: 5,
+      timesFinished1st: 2,
+      timesFinished2nd: 0,
+      timesFinished3rd: 0,
+      timesScored36Plus: 2,
+      timesScored32Plus: 3,
+    });
   });
 
   it('returns all golfers when ?all=true is passed', async () => {
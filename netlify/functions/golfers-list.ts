@@ -1,6 +1,8 @@
 // GET /.netlify/functions/golfers-list
 // Supports pagination: ?page=1&limit=50 (default)
 // Pass ?all=true to bypass pagination and return every golfer
+// ?season=2025 picks the season for stats, form and points (default: active season);
+// ?season=overall covers every season
 
 import { ObjectId } from 'mongodb';
 import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
@@ -11,6 +13,7 @@ import { SCORES_COLLECTION } from './_shared/models/Score';
 import { PICKS_COLLECTION } from './_shared/models/Pick';
 import { SeasonDocument, SEASONS_COLLECTION } from './_shared/models/Season';
 import { getSeasonStart } from './_shared/utils/dates';
+import { getGolferSeasonStats } from '../../shared/types';
 import { createPerfTimer } from './_shared/utils/perf';
 import { successResponse, successResponseWithMeta, internalError } from './_shared/utils/response';
 
@@ -42,10 +45,6 @@ export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
       ])
     );
 
-    // Separate 2026 tournaments for existing stats
-    const tournaments2026 = allPublishedTournaments.filter(t => t.season === 2026);
-    const tournament2026IdSet = new Set(tournaments2026.map(t => t._id.toString()));
-
     const publishedTournamentIds = allPublishedTournaments.map(t => t._id);
     const tournamentDateMap = new Map(allPublishedTournaments.map(t => [t._id.toString(), new Date(t.startDate)]));
 
@@ -116,6 +115,7 @@ export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
     const activeSeason = allSeasons.find(s => s.isActive);
     const activeSeasonNumber = activeSeason ? parseInt(activeSeason.name) || 0 : 0;
     const useOwnership = !seasonParam || seasonParam === 'overall' || seasonParam === activeSeason?.name;
+    const statsSeason = seasonParam || activeSeason?.name || '';
 
     const ownershipMap = new Map<string, number>();
     let totalPicks = 0;
@@ -155,18 +155,6 @@ export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
         tournamentDate: tournamentDateMap.get(s.tournamentId.toString()) || new Date(0)
       }));
 
-      // Filter to 2026 scores for existing stats
-      const scores2026 = scoresWithDates.filter(s => tournament2026IdSet.has(s.tournamentId.toString()));
-
-      const stats2026 = {
-        timesPlayed: scores2026.length,
-        timesFinished1st: scores2026.filter(s => s.position === 1).length,
-        timesFinished2nd: scores2026.filter(s => s.position === 2).length,
-        timesFinished3rd: scores2026.filter(s => s.position === 3).length,
-        timesScored36Plus: scores2026.filter(s => (s.rawScore ?? 0) >= 36).length,
-        timesScored32Plus: scores2026.filter(s => (s.rawScore ?? 0) >= 32).length,
-      };
-
       // Calculate form (avg pts over last 5 events) and season total
       const FORM_EVENTS = 5;
       let formScores: typeof scoresWithDates;
@@ -243,7 +231,7 @@ export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
 
       return {
         ...golfer,
-        stats2026,
+        stats: getGolferSeasonStats(golfer.statsBySeason, statsSeason),
         points,
         seasonStats,
         selectedPercentage,
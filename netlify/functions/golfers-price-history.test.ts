@@ -0,0 +1,74 @@
+import { handler } from './golfers-price-history';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-player-1',
+    username: 'testplayer',
+    role: 'player',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+const mockGetSeries = vi.fn();
+vi.mock('./_shared/services/prices.service', () => ({
+  getGolferPriceSeries: (...args: unknown[]) => mockGetSeries(...args),
+}));
+
+describe('golfers-price-history handler', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('returns the price series for the golfer and season', async () => {
+    const series = {
+      golferId: 'g1',
+      season: 2026,
+      currentPrice: 8_000_000,
+      prices: [],
+      points: [],
+    };
+    mockGetSeries.mockResolvedValue(series);
+
+    const res = await handler(
+      makeAuthEvent({ queryStringParameters: { id: 'g1', season: '2026' } }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).data).toEqual(series);
+    expect(mockGetSeries).toHaveBeenCalledWith('g1', '2026');
+  });
+
+  it('returns 400 without a golfer id', async () => {
+    const res = await handler(makeAuthEvent({ queryStringParameters: {} }), mockContext);
+
+    expect(res!.statusCode).toBe(400);
+    expect(mockGetSeries).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the golfer does not exist', async () => {
+    mockGetSeries.mockRejectedValue(new Error('Golfer not found'));
+
+    const res = await handler(
+      makeAuthEvent({ queryStringParameters: { id: 'missing' } }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(404);
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+    expect(res!.statusCode).toBe(405);
+  });
+});
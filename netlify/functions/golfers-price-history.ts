@@ -0,0 +1,39 @@
+// GET /.netlify/functions/golfers-price-history?id=xxx&season=2026
+// Returns a golfer's price changes and fantasy points across a season
+
+import type { Handler } from '@netlify/functions';
+import { withVerifiedAuth } from './_shared/middleware';
+import { getGolferPriceSeries } from './_shared/services/prices.service';
+
+export const handler: Handler = withVerifiedAuth(async (event) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const id = event.queryStringParameters?.id;
+    if (!id) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ success: false, error: 'Golfer ID is required' }),
+      };
+    }
+
+    const series = await getGolferPriceSeries(id, event.queryStringParameters?.season);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: series }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch price history';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
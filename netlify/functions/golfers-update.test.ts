@@ -79,6 +79,19 @@ describe('golfers-update handler', () => {
     expect(body.error).toContain('Golfer not found');
   });
 
+  it('returns 422 for a handicap index out of range', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      body: JSON.stringify({ id: 'g1', handicapIndex: 99 }),
+    });
+    const result = await handler(event, mockContext);
+    const body = parseBody(result);
+
+    expect(result.statusCode).toBe(422);
+    expect(body.error).toContain('Handicap index must be at most');
+    expect(updateGolfer).not.toHaveBeenCalled();
+  });
+
   it('returns 405 for non-PUT method', async () => {
     const event = makeAuthEvent({ httpMethod: 'GET' });
     const result = await handler(event, mockContext);
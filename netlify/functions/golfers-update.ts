@@ -1,8 +1,10 @@
 // PUT /.netlify/functions/golfers-update (Admin only)
 
 import type { Handler } from '@netlify/functions';
+import { z } from 'zod';
 import { withAdmin } from './_shared/middleware';
 import { updateGolfer } from './_shared/services/golfers.service';
+import { handicapIndexSchema } from './_shared/validators/handicaps.validator';
 import type { UpdateGolferDTO } from '../../shared/types';
 
 export const handler: Handler = withAdmin(async (event) => {
@@ -20,6 +22,8 @@ export const handler: Handler = withAdmin(async (event) => {
       };
     }
 
+    handicapIndexSchema.nullable().optional().parse(data.handicapIndex);
+
     const golfer = await updateGolfer(id, data);
 
     if (!golfer) {
@@ -34,6 +38,15 @@ export const handler: Handler = withAdmin(async (event) => {
       body: JSON.stringify({ success: true, data: golfer }),
     };
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
     const message = error instanceof Error ? error.message : 'Failed to update golfer';
     return {
       statusCode: 400,
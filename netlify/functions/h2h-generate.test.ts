@@ -0,0 +1,88 @@
+import { handler } from './h2h-generate';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+const { mockVerifyToken } = vi.hoisted(() => ({ mockVerifyToken: vi.fn() }));
+vi.mock('./_shared/auth', () => ({ verifyToken: mockVerifyToken }));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+const mockGenerate = vi.fn();
+vi.mock('./_shared/services/h2h.service', () => ({
+  generateSeasonFixtures: (...args: unknown[]) => mockGenerate(...args),
+}));
+
+describe('h2h-generate handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVerifyToken.mockReturnValue({
+      userId: 'user-admin-1',
+      username: 'testadmin',
+      role: 'admin',
+      phoneVerified: true,
+    });
+  });
+
+  it('generates fixtures for the requested season', async () => {
+    const result = { season: 2026, fromGameweek: 1, totalGameweeks: 30, fixtureCount: 60 };
+    mockGenerate.mockResolvedValue(result);
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ season: 2026 }) });
+    const res = await handler(event, mockContext);
+    const body = parseBody(res!);
+
+    expect(res!.statusCode).toBe(200);
+    expect(body.data).toEqual(result);
+    expect(mockGenerate).toHaveBeenCalledWith('2026');
+  });
+
+  it('falls back to the active season', async () => {
+    mockGenerate.mockResolvedValue({
+      season: 2026,
+      fromGameweek: 1,
+      totalGameweeks: 1,
+      fixtureCount: 1,
+    });
+
+    await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+
+    expect(mockGenerate).toHaveBeenCalledWith(undefined);
+  });
+
+  it('returns 400 when there are not enough managers', async () => {
+    mockGenerate.mockRejectedValue(
+      new Error('At least two managers need a team before fixtures can be generated')
+    );
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+
+    expect(res!.statusCode).toBe(400);
+  });
+
+  it('returns 403 for non-admins', async () => {
+    mockVerifyToken.mockReturnValue({
+      userId: 'user-player-1',
+      username: 'testplayer',
+      role: 'player',
+      phoneVerified: true,
+    });
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+
+    expect(res!.statusCode).toBe(403);
+    expect(mockGenerate).not.toHaveBeenCalled();
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+    expect(res!.statusCode).toBe(405);
+  });
+});
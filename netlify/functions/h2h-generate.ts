@@ -0,0 +1,38 @@
+// POST /.netlify/functions/h2h-generate
+// Generates the head-to-head round-robin fixtures for a season (admin only)
+
+import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
+import { generateSeasonFixtures } from './_shared/services/h2h.service';
+
+const handler = withAdmin(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const body = JSON.parse(event.body || '{}');
+    const result = await generateSeasonFixtures(body.season ? String(body.season) : undefined);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: result,
+        message: `Generated ${result.fixtureCount} fixtures from gameweek ${result.fromGameweek}`,
+      }),
+    };
+  } catch (error) {
+    console.error('Error generating H2H fixtures:', error);
+    const message = error instanceof Error ? error.message : 'Failed to generate fixtures';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
+
+export { handler };
@@ -0,0 +1,71 @@
+import { handler } from './h2h-results';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-player-1',
+    username: 'testplayer',
+    role: 'player',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+const mockGetResults = vi.fn();
+vi.mock('./_shared/services/h2h.service', () => ({
+  getH2HResults: (...args: unknown[]) => mockGetResults(...args),
+}));
+
+describe('h2h-results handler', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('returns fixtures and table for the gameweek', async () => {
+    const results = { season: 2026, gameweek: 4, totalGameweeks: 30, fixtures: [], table: [] };
+    mockGetResults.mockResolvedValue(results);
+
+    const res = await handler(
+      makeAuthEvent({ queryStringParameters: { season: '2026', gameweek: '4' } }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).data).toEqual(results);
+    expect(mockGetResults).toHaveBeenCalledWith('2026', 4);
+  });
+
+  it('returns 400 for an invalid gameweek', async () => {
+    const res = await handler(
+      makeAuthEvent({ queryStringParameters: { gameweek: 'abc' } }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(400);
+    expect(mockGetResults).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the season does not exist', async () => {
+    mockGetResults.mockRejectedValue(new Error('Season not found'));
+
+    const res = await handler(
+      makeAuthEvent({ queryStringParameters: { season: '1999' } }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(404);
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+    expect(res!.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,42 @@
+// GET /.netlify/functions/h2h-results
+// Returns head-to-head fixtures for a gameweek and the season's H2H table
+
+import type { Handler } from '@netlify/functions';
+import { withVerifiedAuth } from './_shared/middleware';
+import { getH2HResults } from './_shared/services/h2h.service';
+
+export const handler: Handler = withVerifiedAuth(async (event) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const seasonParam = event.queryStringParameters?.season;
+    const gameweekParam = event.queryStringParameters?.gameweek;
+    const gameweek = gameweekParam ? parseInt(gameweekParam, 10) : undefined;
+
+    if (gameweek !== undefined && (isNaN(gameweek) || gameweek < 1)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ success: false, error: 'gameweek must be a positive number' }),
+      };
+    }
+
+    const results = await getH2HResults(seasonParam, gameweek);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: results }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch H2H results';
+    const statusCode = message.includes('not found') ? 404 : 500;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
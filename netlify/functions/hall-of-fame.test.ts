@@ -0,0 +1,64 @@
+import { handler } from './hall-of-fame';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockGetHallOfFame = vi.fn();
+vi.mock('./_shared/services/season-archive.service', () => ({
+  getHallOfFame: (...args: any[]) => mockGetHallOfFame(...args),
+}));
+
+describe('hall-of-fame handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the hall of fame on GET', async () => {
+    const hallOfFame = {
+      champions: [{ seasonName: '2025', label: '2025 Season', points: 412, winners: [] }],
+      managersOfTheMonth: [],
+      records: { highestSeasonScore: null, highestMonthScore: null, highestGameweekScore: null },
+    };
+    mockGetHallOfFame.mockResolvedValue(hallOfFame);
+
+    const event = makeAuthEvent({ httpMethod: 'GET' });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(hallOfFame);
+  });
+
+  it('returns 405 for other methods', async () => {
+    const event = makeAuthEvent({ httpMethod: 'POST' });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
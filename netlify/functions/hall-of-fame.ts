@@ -0,0 +1,30 @@
+// GET /.netlify/functions/hall-of-fame
+// Past champions, managers of the month and scoring records from archived seasons
+
+import type { Handler } from '@netlify/functions';
+import { withVerifiedAuth } from './_shared/middleware';
+import { getHallOfFame } from './_shared/services/season-archive.service';
+
+export const handler: Handler = withVerifiedAuth(async (event) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const hallOfFame = await getHallOfFame();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: hallOfFame }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch hall of fame';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
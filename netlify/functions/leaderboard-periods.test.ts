@@ -3,6 +3,7 @@ import { handler } from './leaderboard-periods';
 import { makeAuthEvent, mockContext, parseBody, createMockDb, mockCursor } from './__test-utils__';
 import { connectToDatabase } from './_shared/db';
 import { getActiveSeason, getSeasonByName } from './_shared/services/seasons.service';
+import { getLeagueMemberIds } from './_shared/services/leagues.service';
 import { getWeekStart, getMonthStart, getTeamEffectiveStartDate, getGameweekNumber } from './_shared/utils/dates';
 
 vi.mock('./_shared/auth', () => ({
@@ -29,6 +30,9 @@ vi.mock('./_shared/services/seasons.service', () => ({
   getActiveSeason: vi.fn(),
   getSeasonByName: vi.fn(),
 }));
+vi.mock('./_shared/services/leagues.service', () => ({
+  getLeagueMemberIds: vi.fn(),
+}));
 vi.mock('./_shared/utils/dates', () => ({
   getWeekStart: vi.fn().mockImplementation((d: Date) => {
     const date = new Date(d);
@@ -53,14 +57,24 @@ const mockSeason = {
   isActive: true,
 };
 
-function setupCollections(picks: any[] = [], users: any[] = [], tournaments: any[] = [], scores: any[] = []) {
-  const { mockDb } = createMockDb({
+function setupCollections(
+  picks: any[] = [],
+  users: any[] = [],
+  tournaments: any[] = [],
+  scores: any[] = [],
+  pickHistory: any[] = [],
+  transferPenalties: any[] = [],
+) {
+  const { collections, mockDb } = createMockDb({
     picks: { find: vi.fn().mockReturnValue(mockCursor(picks)) },
     users: { find: vi.fn().mockReturnValue(mockCursor(users)) },
     tournaments: { find: vi.fn().mockReturnValue(mockCursor(tournaments)) },
     scores: { find: vi.fn().mockReturnValue(mockCursor(scores)) },
+    pickHistory: { find: vi.fn().mockReturnValue(mockCursor(pickHistory)) },
+    transferPenalties: { find: vi.fn().mockReturnValue(mockCursor(transferPenalties)) },
   });
   vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
+  return collections;
 }
 
 beforeEach(() => {
@@ -170,6 +184,56 @@ describe('leaderboard-periods handler', () => {
       expect(body.data.period.hasPrevious).toBe(false);
       expect(body.data.period.hasNext).toBe(false);
     });
+
+    it('deducts transfer penalties charged within the period', async () => {
+      setupCollections(picks, users, tournaments, scores, [], [
+        { userId, season: 2025, weekStart: new Date('2025-06-14'), swaps: 1, points: 4 },
+      ]);
+
+      const res = await handler(
+        makeAuthEvent({ queryStringParameters: { period: 'season' } }),
+        mockContext,
+      );
+      const body = parseBody(res!);
+
+      expect(res!.statusCode).toBe(200);
+      expect(body.data.entries[0].points).toBe(21);
+    });
+
+    it('scopes the table to league members when league is given', async () => {
+      const leagueId = new ObjectId().toString();
+      vi.mocked(getLeagueMemberIds).mockResolvedValue([userId]);
+      const collections = setupCollections(picks, users, tournaments, scores);
+
+      const res = await handler(
+        makeAuthEvent({ queryStringParameters: { period: 'season', league: leagueId } }),
+        mockContext,
+      );
+      const body = parseBody(res!);
+
+      expect(res!.statusCode).toBe(200);
+      expect(getLeagueMemberIds).toHaveBeenCalledWith(leagueId, 'user-player-1');
+      expect(collections.picks.find).toHaveBeenCalledWith({
+        season: 2025,
+        userId: { $in: [userId] },
+      });
+      expect(body.data.entries).toHaveLength(1);
+    });
+
+    it('returns 404 when the caller is not in the league', async () => {
+      vi.mocked(getLeagueMemberIds).mockRejectedValue(new Error('League not found'));
+      setupCollections(picks, users, tournaments, scores);
+
+      const res = await handler(
+        makeAuthEvent({ queryStringParameters: { period: 'season', league: 'other-league' } }),
+        mockContext,
+      );
+      const body = parseBody(res!);
+
+      expect(res!.statusCode).toBe(404);
+      expect(body.error).toBe('League not found');
+      expect(connectToDatabase).not.toHaveBeenCalled();
+    });
   });
 
   it('returns leaders with picks and action=leaders', async () => {
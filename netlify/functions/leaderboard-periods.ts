@@ -1,21 +1,39 @@
 // GET /.netlify/functions/leaderboard-periods
 // Returns leaderboard data for specific periods (week/month/season) with navigation
+// Pass ?league=<id> to scope the tables to a private league the caller belongs to
 
 import type { Handler } from '@netlify/functions';
+import type { ObjectId } from 'mongodb';
 import { withVerifiedAuth } from './_shared/middleware';
 import { connectToDatabase } from './_shared/db';
 import { PickDocument, PICKS_COLLECTION } from './_shared/models/Pick';
+import type { TransferPenaltyDocument } from './_shared/models/TransferPenalty';
 import { UserDocument, USERS_COLLECTION } from './_shared/models/User';
 import { ScoreDocument, SCORES_COLLECTION } from './_shared/models/Score';
 import { TournamentDocument, TOURNAMENTS_COLLECTION } from './_shared/models/Tournament';
 import { getActiveSeason, getSeasonByName } from './_shared/services/seasons.service';
-import { getWeekStart, getMonthStart, getTeamEffectiveStartDate, getGameweekNumber } from './_shared/utils/dates';
+import { getLeagueMemberIds } from './_shared/services/leagues.service';
+import { getWeekStart, getMonthStart, getGameweekNumber } from './_shared/utils/dates';
+import {
+  TeamSnapshot,
+  buildTeamSnapshots,
+  calculateSnapshotPoints,
+  getSeasonPickHistory,
+  getSeasonTransferPenalties,
+  sumPenaltyPoints,
+} from './_shared/services/team.service';
 import { getRedisClient, getRedisKeyPrefix } from './_shared/rateLimit';
 
 const PERIODS_CACHE_TTL = 60; // 60 seconds
 
-function periodsCacheKey(action: string, season: string, period?: string, date?: string): string {
-  const parts = [getRedisKeyPrefix(), 'v1:cache:leaderboard-periods', season, action];
+function periodsCacheKey(
+  action: string,
+  season: string,
+  league: string,
+  period?: string,
+  date?: string
+): string {
+  const parts = [getRedisKeyPrefix(), 'v1:cache:leaderboard-periods', season, league, action];
   if (period) parts.push(period);
   if (date) parts.push(date);
   return parts.join(':');
@@ -110,6 +128,8 @@ function formatMonthLabel(date: Date): string {
 
 async function calculateLeaderboard(
   picks: PickDocument[],
+  snapshotsByUser: Map<string, TeamSnapshot[]>,
+  penaltiesByUser: Map<string, TransferPenaltyDocument[]>,
   userMap: Map<string, UserDocument>,
   tournaments: TournamentDocument[],
   allScores: ScoreDocument[],
@@ -123,25 +143,13 @@ async function calculateLeaderboard(
     return startDate >= periodStart && startDate <= periodEnd;
   });
 
-  const periodTournamentIds = new Set(periodTournaments.map(t => t._id.toString()));
-
   // Create tournament date lookup
   const tournamentDateMap = new Map<string, Date>();
   for (const t of periodTournaments) {
     tournamentDateMap.set(t._id.toString(), new Date(t.startDate));
   }
 
-  // Create score lookup
-  const scoresByPlayerAndTournament = new Map<string, Map<string, ScoreDocument>>();
-  for (const score of allScores) {
-    if (!periodTournamentIds.has(score.tournamentId.toString())) continue;
-
-    const golferId = score.golferId.toString();
-    if (!scoresByPlayerAndTournament.has(golferId)) {
-      scoresByPlayerAndTournament.set(golferId, new Map());
-    }
-    scoresByPlayerAndTournament.get(golferId)!.set(score.tournamentId.toString(), score);
-  }
+  const periodScores = allScores.filter(score => tournamentDateMap.has(score.tournamentId.toString()));
 
   // Calculate points for each user
   const entries: Array<{ userId: string; user: UserDocument; points: number; teamValue: number; events: number }> = [];
@@ -150,34 +158,23 @@ async function calculateLeaderboard(
     const user = userMap.get(pick.userId.toString());
     if (!user) continue;
 
-    // Team only earns points from tournaments starting on or after their effective start date
-    const teamEffectiveStart = getTeamEffectiveStartDate(pick.createdAt);
-
-    let points = 0;
-    const eventsSet = new Set<string>();
-
-    for (const golferId of pick.golferIds) {
-      const playerScores = scoresByPlayerAndTournament.get(golferId.toString());
-      if (!playerScores) continue;
-
-      for (const [tournamentId, score] of playerScores) {
-        // Skip tournaments before team's effective start date
-        const tournamentDate = tournamentDateMap.get(tournamentId);
-        if (tournamentDate && tournamentDate < teamEffectiveStart) continue;
-
-        points += score.multipliedPoints || 0;
-        if (score.participated) {
-          eventsSet.add(tournamentId);
-        }
-      }
-    }
+    // Each tournament is scored against the team held at the time (including captain)
+    const snapshots = snapshotsByUser.get(pick.userId.toString()) ?? buildTeamSnapshots(pick);
+    const { points, tournamentIds } = calculateSnapshotPoints(
+      snapshots,
+      periodScores,
+      tournamentDateMap,
+      periodStart,
+      periodEnd
+    );
+    const penaltyPoints = sumPenaltyPoints(penaltiesByUser.get(pick.userId.toString()), periodStart, periodEnd);
 
     entries.push({
       userId: pick.userId.toString(),
       user,
-      points,
+      points: points - penaltyPoints,
       teamValue: pick.totalSpent,
-      events: eventsSet.size,
+      events: tournamentIds.size,
     });
   }
 
@@ -250,9 +247,30 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
     const dateParam = event.queryStringParameters?.date;
     const action = event.queryStringParameters?.action;
     const seasonParam = event.queryStringParameters?.season;
+    const leagueParam = event.queryStringParameters?.league;
+
+    // League tables are only visible to members — check before serving from cache
+    let leagueMemberIds: ObjectId[] | null = null;
+    if (leagueParam) {
+      try {
+        leagueMemberIds = await getLeagueMemberIds(leagueParam, event.user.userId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'League not found';
+        return {
+          statusCode: message.includes('not found') ? 404 : 500,
+          body: JSON.stringify({ success: false, error: message }),
+        };
+      }
+    }
 
     // Check Redis cache first
-    const cacheKey = periodsCacheKey(action || period, seasonParam || 'active', period, dateParam);
+    const cacheKey = periodsCacheKey(
+      action || period,
+      seasonParam || 'active',
+      leagueParam || 'global',
+      period,
+      dateParam
+    );
     const cached = await getCached<unknown>(cacheKey);
     if (cached) {
       return {
@@ -275,8 +293,21 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
     const currentSeason = activeSeason ? parseInt(activeSeason.name) || fallbackYear : fallbackYear;
     
     const picks = await db.collection<PickDocument>(PICKS_COLLECTION)
-      .find({ season: currentSeason })
-      .project({ userId: 1, golferIds: 1, captainId: 1, totalSpent: 1, createdAt: 1 })
+      .find(
+        leagueMemberIds
+          ? { season: currentSeason, userId: { $in: leagueMemberIds } }
+          : { season: currentSeason }
+      )
+      .project({
+        userId: 1,
+        golferIds: 1,
+        benchIds: 1,
+        captainId: 1,
+        viceCaptainId: 1,
+        totalSpent: 1,
+        createdAt: 1,
+        chips: 1,
+      })
       .toArray();
     
     const now = new Date();
@@ -338,6 +369,13 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
     const userIds = picks.map(p => p.userId);
     const users = await db.collection<UserDocument>(USERS_COLLECTION).find({ _id: { $in: userIds } }).project({ passwordHash: 0 }).toArray();
     const userMap = new Map(users.map(u => [u._id.toString(), u]));
+
+    // Rebuild each manager's point-in-time teams from pick history
+    const historyByUser = await getSeasonPickHistory(db, currentSeason, leagueMemberIds ?? undefined);
+    const snapshotsByUser = new Map(
+      picks.map(p => [p.userId.toString(), buildTeamSnapshots(p as PickDocument, historyByUser.get(p.userId.toString()))])
+    );
+    const penaltiesByUser = await getSeasonTransferPenalties(db, currentSeason, leagueMemberIds ?? undefined);
     
     // Get all published or complete tournaments within season
     const publishedTournaments = await db.collection<TournamentDocument>(TOURNAMENTS_COLLECTION)
@@ -381,11 +419,11 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
       const prevMonthEnd = getMonthEnd(new Date(now.getFullYear(), now.getMonth() - 1, 1));
       
       // Calculate all leaderboards
-      const weekData = await calculateLeaderboard(picks, userMap, seasonTournaments, allScores, weekStart, weekEnd);
-      const prevWeekData = await calculateLeaderboard(picks, userMap, seasonTournaments, allScores, prevWeekStart, prevWeekEnd);
-      const monthData = await calculateLeaderboard(picks, userMap, seasonTournaments, allScores, monthStart, monthEnd);
-      const prevMonthData = await calculateLeaderboard(picks, userMap, seasonTournaments, allScores, prevMonthStart, prevMonthEnd);
-      const seasonData = await calculateLeaderboard(picks, userMap, seasonTournaments, allScores, seasonStartDate, seasonEndDate);
+      const weekData = await calculateLeaderboard(picks, snapshotsByUser, penaltiesByUser, userMap, seasonTournaments, allScores, weekStart, weekEnd);
+      const prevWeekData = await calculateLeaderboard(picks, snapshotsByUser, penaltiesByUser, userMap, seasonTournaments, allScores, prevWeekStart, prevWeekEnd);
+      const monthData = await calculateLeaderboard(picks, snapshotsByUser, penaltiesByUser, userMap, seasonTournaments, allScores, monthStart, monthEnd);
+      const prevMonthData = await calculateLeaderboard(picks, snapshotsByUser, penaltiesByUser, userMap, seasonTournaments, allScores, prevMonthStart, prevMonthEnd);
+      const seasonData = await calculateLeaderboard(picks, snapshotsByUser, penaltiesByUser, userMap, seasonTournaments, allScores, seasonStartDate, seasonEndDate);
       
       const weekRanked = rankEntries(weekData.entries, prevWeekData.entries);
       const monthRanked = rankEntries(monthData.entries, prevMonthData.entries);
@@ -461,9 +499,9 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
     }
     
     // Calculate current and previous period
-    const currentData = await calculateLeaderboard(picks, userMap, seasonTournaments, allScores, periodStart, periodEnd);
+    const currentData = await calculateLeaderboard(picks, snapshotsByUser, penaltiesByUser, userMap, seasonTournaments, allScores, periodStart, periodEnd);
     const previousData = period !== 'season' 
-      ? await calculateLeaderboard(picks, userMap, seasonTournaments, allScores, prevPeriodStart, prevPeriodEnd)
+      ? await calculateLeaderboard(picks, snapshotsByUser, penaltiesByUser, userMap, seasonTournaments, allScores, prevPeriodStart, prevPeriodEnd)
       : null;
     
     const ranked = rankEntries(currentData.entries, previousData?.entries || null);
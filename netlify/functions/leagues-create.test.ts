@@ -0,0 +1,69 @@
+import { handler } from './leagues-create';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-player-1',
+    username: 'testplayer',
+    role: 'player',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    default: { windowMs: 60000, maxRequests: 100 },
+    write: { windowMs: 60000, maxRequests: 30 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+const mockCreateLeague = vi.fn();
+vi.mock('./_shared/services/leagues.service', () => ({
+  createLeague: (...args: unknown[]) => mockCreateLeague(...args),
+}));
+
+describe('leagues-create handler', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('creates a league owned by the current user', async () => {
+    const league = { id: 'l1', name: 'Tuesday Roll-up', inviteCode: 'ABCD2345' };
+    mockCreateLeague.mockResolvedValue(league);
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ name: '  Tuesday Roll-up ' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(201);
+    expect(parseBody(res!).data).toEqual(league);
+    expect(mockCreateLeague).toHaveBeenCalledWith('user-player-1', 'Tuesday Roll-up');
+  });
+
+  it('returns 400 for an invalid name', async () => {
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ name: 'x' }) });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(400);
+    expect(mockCreateLeague).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when the league limit is reached', async () => {
+    mockCreateLeague.mockRejectedValue(new Error('League limit reached'));
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ name: 'Juniors' }) });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(400);
+    expect(parseBody(res!).error).toBe('League limit reached');
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+    expect(res!.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,34 @@
+// POST /.netlify/functions/leagues-create
+
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { createLeague } from './_shared/services/leagues.service';
+import { validateBody, createLeagueSchema } from './_shared/validators/leagues.validator';
+
+export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { name } = validateBody(createLeagueSchema, event.body);
+    const league = await createLeague(event.user.userId, name);
+
+    return {
+      statusCode: 201,
+      body: JSON.stringify({
+        success: true,
+        data: league,
+        message: 'League created successfully',
+      }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create league';
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'write');
@@ -0,0 +1,71 @@
+import { handler } from './leagues-join';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-player-1',
+    username: 'testplayer',
+    role: 'player',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    default: { windowMs: 60000, maxRequests: 100 },
+    write: { windowMs: 60000, maxRequests: 30 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+const mockJoinLeague = vi.fn();
+vi.mock('./_shared/services/leagues.service', () => ({
+  joinLeague: (...args: unknown[]) => mockJoinLeague(...args),
+}));
+
+describe('leagues-join handler', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('joins a league by invite code', async () => {
+    const league = { id: 'l1', name: 'Juniors', inviteCode: 'ABCD2345' };
+    mockJoinLeague.mockResolvedValue(league);
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ inviteCode: 'abcd2345' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).data).toEqual(league);
+    expect(mockJoinLeague).toHaveBeenCalledWith('user-player-1', 'ABCD2345');
+  });
+
+  it('returns 404 for an unknown invite code', async () => {
+    mockJoinLeague.mockRejectedValue(new Error('League not found for that invite code'));
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ inviteCode: 'ZZZZ9999' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(404);
+  });
+
+  it('returns 400 for a malformed invite code', async () => {
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ inviteCode: 'ABC' }) });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(400);
+    expect(mockJoinLeague).not.toHaveBeenCalled();
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+    expect(res!.statusCode).toBe(405);
+  });
+});
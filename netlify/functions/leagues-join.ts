@@ -0,0 +1,35 @@
+// POST /.netlify/functions/leagues-join
+
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { joinLeague } from './_shared/services/leagues.service';
+import { validateBody, joinLeagueSchema } from './_shared/validators/leagues.validator';
+
+export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { inviteCode } = validateBody(joinLeagueSchema, event.body);
+    const league = await joinLeague(event.user.userId, inviteCode);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: league,
+        message: `Joined ${league.name}`,
+      }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to join league';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'write');
@@ -0,0 +1,64 @@
+import { handler } from './leagues-leave';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-player-1',
+    username: 'testplayer',
+    role: 'player',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    default: { windowMs: 60000, maxRequests: 100 },
+    write: { windowMs: 60000, maxRequests: 30 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+const mockLeaveLeague = vi.fn();
+vi.mock('./_shared/services/leagues.service', () => ({
+  leaveLeague: (...args: unknown[]) => mockLeaveLeague(...args),
+}));
+
+describe('leagues-leave handler', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('leaves the league', async () => {
+    mockLeaveLeague.mockResolvedValue(undefined);
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ leagueId: 'l1' }) });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).success).toBe(true);
+    expect(mockLeaveLeague).toHaveBeenCalledWith('user-player-1', 'l1');
+  });
+
+  it('returns 404 when the user is not in the league', async () => {
+    mockLeaveLeague.mockRejectedValue(new Error('League not found'));
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ leagueId: 'l1' }) });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(404);
+  });
+
+  it('returns 400 when leagueId is missing', async () => {
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({}) });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(400);
+    expect(mockLeaveLeague).not.toHaveBeenCalled();
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+    expect(res!.statusCode).toBe(405);
+  });
+});
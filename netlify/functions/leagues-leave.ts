@@ -0,0 +1,31 @@
+// POST /.netlify/functions/leagues-leave
+
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { leaveLeague } from './_shared/services/leagues.service';
+import { validateBody, leaveLeagueSchema } from './_shared/validators/leagues.validator';
+
+export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { leagueId } = validateBody(leaveLeagueSchema, event.body);
+    await leaveLeague(event.user.userId, leagueId);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, message: 'Left league successfully' }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to leave league';
+    const statusCode = message.includes('not found') ? 404 : 400;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'write');
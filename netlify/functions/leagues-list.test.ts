@@ -0,0 +1,56 @@
+import { handler } from './leagues-list';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-player-1',
+    username: 'testplayer',
+    role: 'player',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    default: { windowMs: 60000, maxRequests: 100 },
+    write: { windowMs: 60000, maxRequests: 30 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+const mockGetUserLeagues = vi.fn();
+vi.mock('./_shared/services/leagues.service', () => ({
+  getUserLeagues: (...args: unknown[]) => mockGetUserLeagues(...args),
+}));
+
+describe('leagues-list handler', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('returns the leagues for the current user', async () => {
+    const leagues = [{ id: 'l1', name: 'Juniors', inviteCode: 'ABCD2345', memberCount: 3 }];
+    mockGetUserLeagues.mockResolvedValue(leagues);
+
+    const res = await handler(makeAuthEvent(), mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).data).toEqual(leagues);
+    expect(mockGetUserLeagues).toHaveBeenCalledWith('user-player-1');
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+    expect(res!.statusCode).toBe(405);
+  });
+
+  it('returns 500 when the service fails', async () => {
+    mockGetUserLeagues.mockRejectedValue(new Error('DB down'));
+
+    const res = await handler(makeAuthEvent(), mockContext);
+
+    expect(res!.statusCode).toBe(500);
+    expect(parseBody(res!).error).toBe('DB down');
+  });
+});
@@ -0,0 +1,30 @@
+// GET /.netlify/functions/leagues-list
+// Returns the private leagues the current user belongs to
+
+import type { Handler } from '@netlify/functions';
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { getUserLeagues } from './_shared/services/leagues.service';
+
+export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const leagues = await getUserLeagues(event.user.userId);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: leagues }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch leagues';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
@@ -25,7 +25,16 @@ vi.mock('./_shared/utils/logger', () => ({
 
 vi.mock('./_shared/db', () => ({ connectToDatabase: vi.fn() }));
 vi.mock('./_shared/services/seasons.service', () => ({ getActiveSeason: vi.fn() }));
-vi.mock('./_shared/services/picks.service', () => ({ getTransfersThisWeek: vi.fn() }));
+vi.mock('./_shared/services/picks.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./_shared/services/picks.service')>();
+  return {
+    getSquadValue: actual.getSquadValue,
+    getTransfersThisWeek: vi.fn(),
+    getChipStatus: vi.fn().mockReturnValue([
+      { chip: 'wildcard', allowance: 1, remaining: 1, activeWeekStart: null },
+    ]),
+  };
+});
 vi.mock('./_shared/utils/dates', () => ({
   getWeekStart: vi.fn().mockImplementation((d: Date) => {
     const date = new Date(d);
@@ -72,6 +81,7 @@ function setupDb(overrides: {
   settings?: any[];
   pickHistory?: any[];
   historyGolfers?: any[];
+  transferPenalties?: any[];
 } = {}) {
   const settingsData = overrides.settings ?? [
     { key: 'transfersOpen', value: true },
@@ -94,6 +104,9 @@ function setupDb(overrides: {
     pickHistory: {
       find: vi.fn().mockReturnValue(mockCursor(overrides.pickHistory ?? [])),
     },
+    transferPenalties: {
+      find: vi.fn().mockReturnValue(mockCursor(overrides.transferPenalties ?? [])),
+    },
   });
 
   vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
@@ -188,6 +201,34 @@ describe('my-team handler', () => {
     expect(body.data.team.captainId).toBe(captainId.toString());
   });
 
+  it('reports the bank, team value and each golfer\'s profit', async () => {
+    const pick = {
+      userId: userObjectId,
+      golferIds: [golferId1, golferId2],
+      captainId: null,
+      totalSpent: 20_000_000,
+      purchasePrices: { [golferId1.toString()]: 10_000_000, [golferId2.toString()]: 10_000_000 },
+      bank: 30_000_000,
+      season: 2025,
+      createdAt: new Date('2025-01-05'),
+      updatedAt: new Date('2025-01-10'),
+    };
+    const golfers = [
+      { _id: golferId1, firstName: 'Rory', lastName: 'McIlroy', price: 11_000_000, isActive: true },
+      { _id: golferId2, firstName: 'Tiger', lastName: 'Woods', price: 9_000_000, isActive: true },
+    ];
+
+    setupDb({ pick, golfers, tournaments: [], scores: [] });
+
+    const res = await handler(makeAuthEvent(), mockContext);
+    const { team } = parseBody(res!).data;
+
+    expect(team.totals.bank).toBe(30_000_000);
+    expect(team.totals.teamValue).toBe(19_500_000);
+    const rory = team.golfers.find((g: any) => g.golfer.id === golferId1.toString());
+    expect(rory).toMatchObject({ purchasePrice: 10_000_000, sellingPrice: 10_500_000, profit: 500_000 });
+  });
+
   it('applies captain multiplier to points', async () => {
     const tournamentDate = new Date();
     const pick = {
@@ -238,6 +279,86 @@ describe('my-team handler', () => {
     expect(captainGolfer.isCaptain).toBe(true);
   });
 
+  it('lists the bench and scores a substitute for a starter who did not play', async () => {
+    const pick = {
+      userId: userObjectId,
+      golferIds: [golferId1],
+      benchIds: [golferId2],
+      captainId: null,
+      totalSpent: 20_000_000,
+      season: 2025,
+      createdAt: new Date('2025-01-01'),
+      updatedAt: new Date(),
+    };
+    const golfers = [golferId1, golferId2].map((_id, i) => ({
+      _id,
+      firstName: 'Golfer',
+      lastName: `${i + 1}`,
+      picture: null,
+      price: 10_000_000,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }));
+    const tournaments = [{
+      _id: tournamentId,
+      name: 'PGA',
+      status: 'published',
+      season: 2025,
+      startDate: new Date(),
+    }];
+    const scores = [{
+      golferId: golferId2,
+      tournamentId,
+      position: 3,
+      basePoints: 30,
+      bonusPoints: 0,
+      multipliedPoints: 30,
+      rawScore: -8,
+      participated: true,
+    }];
+
+    setupDb({ pick, golfers, tournaments, scores });
+
+    const res = await handler(makeAuthEvent(), mockContext);
+    const body = parseBody(res!);
+
+    expect(body.data.team.golfers.map((g: any) => g.golfer.id)).toEqual([golferId1.toString()]);
+    expect(body.data.team.bench.map((g: any) => g.golfer.id)).toEqual([golferId2.toString()]);
+    expect(body.data.team.bench[0].weekPoints).toBe(30);
+    expect(body.data.team.totals.weekPoints).toBe(30);
+  });
+
+  it('deducts transfer penalties from the team totals', async () => {
+    const pick = {
+      userId: userObjectId,
+      golferIds: [golferId1],
+      captainId: null,
+      totalSpent: 12_000_000,
+      season: 2025,
+      createdAt: new Date('2025-01-01'),
+      updatedAt: new Date(),
+    };
+    const weekStart = new Date();
+    weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 1) % 7));
+    weekStart.setHours(0, 0, 0, 0);
+
+    setupDb({
+      pick,
+      transferPenalties: [
+        { userId: userObjectId, season: 2025, weekStart, swaps: 2, points: 8 },
+      ],
+    });
+
+    const res = await handler(makeAuthEvent(), mockContext);
+    const body = parseBody(res!);
+
+    expect(body.data.team.totals.weekPenaltyPoints).toBe(8);
+    expect(body.data.team.totals.weekPoints).toBe(-8);
+    expect(body.data.team.totals.seasonPoints).toBe(-8);
+    expect(body.data.transferPenaltyPoints).toBe(4);
+  });
+
   it('includes transfer info', async () => {
     vi.mocked(getTransfersThisWeek).mockResolvedValue(1);
     setupDb();
@@ -249,6 +370,17 @@ describe('my-team handler', () => {
     expect(body.data.maxTransfersPerWeek).toBe(2);
   });
 
+  it('includes chip status', async () => {
+    setupDb();
+
+    const res = await handler(makeAuthEvent(), mockContext);
+    const body = parseBody(res!);
+
+    expect(body.data.chips).toEqual([
+      { chip: 'wildcard', allowance: 1, remaining: 1, activeWeekStart: null },
+    ]);
+  });
+
   it('returns 400 for invalid date param', async () => {
     setupDb();
 
@@ -11,10 +11,18 @@ import { GolferDocument, GOLFERS_COLLECTION } from './_shared/models/Golfer';
 import { ScoreDocument, SCORES_COLLECTION } from './_shared/models/Score';
 import { TournamentDocument, TOURNAMENTS_COLLECTION } from './_shared/models/Tournament';
 import { SettingDocument, SETTINGS_COLLECTION } from './_shared/models/Settings';
-import { getWeekStart, getWeekEnd, getTeamEffectiveStartDate, getGameweekNumber, getSeasonFirstSaturday } from './_shared/utils/dates';
-import { getTransfersThisWeek } from './_shared/services/picks.service';
+import { getWeekStart, getWeekEnd, getMonthStart, getMonthEnd, getTeamEffectiveStartDate, getGameweekNumber, getSeasonFirstSaturday } from './_shared/utils/dates';
+import { getTransfersThisWeek, getChipStatus, getSquadValue } from './_shared/services/picks.service';
 import { getActiveSeason } from './_shared/services/seasons.service';
-import { getTeamGolferScores, getTeamTransferHistory } from './_shared/services/team.service';
+import {
+  buildTeamSnapshots,
+  getSeasonPickHistory,
+  getSeasonTransferPenalties,
+  getSnapshotGolferIds,
+  getTeamGolferScores,
+  getTeamTransferHistory,
+  sumPenaltyPoints,
+} from './_shared/services/team.service';
 
 /**
  * Format week label like "Jan 4 - Jan 10"
@@ -55,11 +63,12 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
     }
 
     // Get active season and parallelize settings queries
-    const [activeSeason, transfersSetting, newTeamSetting, maxTransfersSetting] = await Promise.all([
+    const [activeSeason, transfersSetting, newTeamSetting, maxTransfersSetting, penaltySetting] = await Promise.all([
       getActiveSeason(),
       db.collection<SettingDocument>(SETTINGS_COLLECTION).findOne({ key: 'transfersOpen' }),
       db.collection<SettingDocument>(SETTINGS_COLLECTION).findOne({ key: 'allowNewTeamCreation' }),
       db.collection<SettingDocument>(SETTINGS_COLLECTION).findOne({ key: 'maxTransfersPerWeek' }),
+      db.collection<SettingDocument>(SETTINGS_COLLECTION).findOne({ key: 'transferPenaltyPoints' }),
     ]);
 
     const currentSeason = activeSeason ? (parseInt(activeSeason.name, 10) || new Date().getFullYear()) : new Date().getFullYear();
@@ -75,6 +84,7 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
     const transfersOpen = (transfersSetting?.value as boolean) || false;
     const allowNewTeamCreation = (newTeamSetting?.value as boolean) ?? true;
     const maxTransfersPerWeek = (maxTransfersSetting?.value as number) || 1;
+    const transferPenaltyPoints = (penaltySetting?.value as number) ?? 4;
 
     // Get transfer count for this user this week
     const transfersUsedThisWeek = await getTransfersThisWeek(event.user.userId);
@@ -107,14 +117,24 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
             maxTransfersPerWeek,
             transfersUsedThisWeek: 0,
             unlimitedTransfers: isPreSeason,
+            transferPenaltyPoints,
+            chips: getChipStatus(),
             team: null,
           },
         }),
       };
     }
 
-    // Get golfers for this pick
-    const golferIds = pick.golferIds.map((id) => new ObjectId(id));
+    // Rebuild the teams held over the season so sold golfers keep the points they earned
+    const historyByUser = await getSeasonPickHistory(db, currentSeason, [pick.userId]);
+    const snapshots = buildTeamSnapshots(pick, historyByUser.get(pick.userId.toString()));
+    const heldGolferIds = new Set([
+      ...pick.golferIds.map((id) => id.toString()),
+      ...getSnapshotGolferIds(snapshots),
+    ]);
+
+    // Get every golfer the team has held this season
+    const golferIds = Array.from(heldGolferIds).map((id) => new ObjectId(id));
     const golfers = await db
       .collection<GolferDocument>(GOLFERS_COLLECTION)
       .find({ _id: { $in: golferIds } })
@@ -165,29 +185,67 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
     // Can go forward if we're not already on or past the current week
     const hasNext = selectedWeekEnd < currentWeekEnd;
 
-    // Compute golfer scores and fetch transfer history in parallel
-    const [golfersWithScores, filteredHistory] = await Promise.all([
+    // Compute golfer scores and fetch transfer history and penalties in parallel
+    const [heldGolfersWithScores, filteredHistory, penaltiesByUser] = await Promise.all([
       Promise.resolve(
         getTeamGolferScores(
           golfers,
           publishedTournaments,
           scores,
           activeSeason?.startDate ? new Date(activeSeason.startDate) : null,
-          pick.captainId?.toString(),
+          snapshots,
           selectedWeekStart,
           selectedWeekEnd,
-          teamEffectiveStartDate,
         ),
       ),
       getTeamTransferHistory(db, event.user.userId, currentSeason),
+      getSeasonTransferPenalties(db, currentSeason, [pick.userId]),
     ]);
 
-    // Calculate team totals
+    // Only the current golfers are listed, but totals include golfers since sold
+    const currentGolferIds = new Set(pick.golferIds.map((id) => id.toString()));
+    const golfersWithScores = heldGolfersWithScores.filter((g) => currentGolferIds.has(g.golfer.id));
+
+    // Bench listed in substitution order
+    const benchWithScores = (pick.benchIds ?? []).flatMap((id) => {
+      const benchGolfer = heldGolfersWithScores.find((g) => g.golfer.id === id.toString());
+      return benchGolfer ? [benchGolfer] : [];
+    });
+
+    // What each squad golfer was bought for against what they'd sell for today
+    const squadValue = getSquadValue(
+      {
+        golferIds: pick.golferIds.map((id) => id.toString()),
+        benchIds: (pick.benchIds ?? []).map((id) => id.toString()),
+        purchasePrices: pick.purchasePrices ?? {},
+        bank: pick.bank ?? null,
+      },
+      new Map(golfers.map((g) => [g._id.toString(), g.price])),
+    );
+    const valueByGolfer = new Map(squadValue.golfers.map((v) => [v.golferId, v]));
+    const withValue = (g: (typeof heldGolfersWithScores)[number]) => {
+      const value = valueByGolfer.get(g.golfer.id);
+      return {
+        ...g,
+        purchasePrice: value?.purchasePrice ?? null,
+        sellingPrice: value?.sellingPrice ?? null,
+        profit: value?.profit ?? null,
+      };
+    };
+
+    // Calculate team totals, less any transfer penalties charged in each period
+    const penalties = penaltiesByUser.get(pick.userId.toString());
+    const weekPenaltyPoints = sumPenaltyPoints(penalties, selectedWeekStart, selectedWeekEnd);
     const teamTotals = {
-      weekPoints: golfersWithScores.reduce((sum, g) => sum + g.weekPoints, 0),
-      monthPoints: golfersWithScores.reduce((sum, g) => sum + g.monthPoints, 0),
-      seasonPoints: golfersWithScores.reduce((sum, g) => sum + g.seasonPoints, 0),
+      weekPoints: heldGolfersWithScores.reduce((sum, g) => sum + g.weekPoints, 0) - weekPenaltyPoints,
+      monthPoints:
+        heldGolfersWithScores.reduce((sum, g) => sum + g.monthPoints, 0) -
+        sumPenaltyPoints(penalties, getMonthStart(selectedWeekStart), getMonthEnd(selectedWeekStart)),
+      seasonPoints: heldGolfersWithScores.reduce((sum, g) => sum + g.seasonPoints, 0) - sumPenaltyPoints(penalties),
+      weekPenaltyPoints,
       totalSpent: pick.totalSpent,
+      bank: squadValue.bank,
+      teamValue: squadValue.teamValue,
     };
 
     return {
@@ -201,10 +259,14 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
           maxTransfersPerWeek,
           transfersUsedThisWeek,
           unlimitedTransfers,
+          transferPenaltyPoints,
+          chips: getChipStatus(pick.chips),
           team: {
-            golfers: golfersWithScores,
+            golfers: golfersWithScores.map(withValue),
+            bench: benchWithScores.map(withValue),
             totals: teamTotals,
             captainId: pick.captainId?.toString() || null,
+            viceCaptainId: pick.viceCaptainId?.toString() || null,
             period: {
               weekStart: selectedWeekStart.toISOString(),
               weekEnd: selectedWeekEnd.toISOString(),
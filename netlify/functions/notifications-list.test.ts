@@ -0,0 +1,70 @@
+import { handler } from './notifications-list';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockGetNotifications = vi.fn();
+vi.mock('./_shared/services/notifications.service', () => ({
+  getNotifications: (...args: any[]) => mockGetNotifications(...args),
+}));
+
+describe('notifications-list handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns the user's notifications on GET", async () => {
+    const list = {
+      notifications: [{ id: 'n1', type: 'transfers_opened', read: false }],
+      unreadCount: 1,
+    };
+    mockGetNotifications.mockResolvedValue(list);
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(list);
+    expect(mockGetNotifications).toHaveBeenCalledWith('user-admin-1');
+  });
+
+  it('returns 500 when the service fails', async () => {
+    mockGetNotifications.mockRejectedValue(new Error('DB connection failed'));
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(500);
+  });
+
+  it('returns 405 for other methods', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
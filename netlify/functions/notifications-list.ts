@@ -0,0 +1,29 @@
+// GET /.netlify/functions/notifications-list
+// Returns the current user's latest notifications and how many are unread
+
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { getNotifications } from './_shared/services/notifications.service';
+
+export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const notifications = await getNotifications(event.user.userId);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: notifications }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch notifications';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'read');
@@ -0,0 +1,58 @@
+import { handler } from './notifications-mark-all-read';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockMarkAllNotificationsRead = vi.fn();
+vi.mock('./_shared/services/notifications.service', () => ({
+  markAllNotificationsRead: (...args: any[]) => mockMarkAllNotificationsRead(...args),
+}));
+
+describe('notifications-mark-all-read handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks every notification read on POST', async () => {
+    mockMarkAllNotificationsRead.mockResolvedValue(4);
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual({ marked: 4 });
+    expect(mockMarkAllNotificationsRead).toHaveBeenCalledWith('user-admin-1');
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
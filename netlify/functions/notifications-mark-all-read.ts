@@ -0,0 +1,33 @@
+// POST /.netlify/functions/notifications-mark-all-read
+// Marks all of the current user's notifications read
+
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { markAllNotificationsRead } from './_shared/services/notifications.service';
+
+export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const marked = await markAllNotificationsRead(event.user.userId);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: { marked },
+        message: 'All notifications marked as read',
+      }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to mark notifications read';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'write');
@@ -0,0 +1,77 @@
+import { handler } from './notifications-mark-read';
+import { makeAuthEvent, mockContext } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockMarkNotificationRead = vi.fn();
+vi.mock('./_shared/services/notifications.service', () => ({
+  markNotificationRead: (...args: any[]) => mockMarkNotificationRead(...args),
+}));
+
+const id = '507f1f77bcf86cd799439011';
+
+describe('notifications-mark-read handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('marks the notification read on POST', async () => {
+    mockMarkNotificationRead.mockResolvedValue(true);
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ id }) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(mockMarkNotificationRead).toHaveBeenCalledWith('user-admin-1', id);
+  });
+
+  it('returns 404 for a notification the user does not have', async () => {
+    mockMarkNotificationRead.mockResolvedValue(false);
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ id }) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it('returns 400 for an invalid ID', async () => {
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ id: 'bad' }) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+    expect(mockMarkNotificationRead).not.toHaveBeenCalled();
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
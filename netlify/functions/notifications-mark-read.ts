@@ -0,0 +1,44 @@
+// POST /.netlify/functions/notifications-mark-read
+// Marks one of the current user's notifications read
+
+import { ObjectId } from 'mongodb';
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { markNotificationRead } from './_shared/services/notifications.service';
+
+export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { id } = JSON.parse(event.body || '{}');
+    if (typeof id !== 'string' || !ObjectId.isValid(id)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ success: false, error: 'Invalid notification ID' }),
+      };
+    }
+
+    const found = await markNotificationRead(event.user.userId, id);
+    if (!found) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ success: false, error: 'Notification not found' }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, message: 'Notification marked as read' }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to mark notification read';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'write');
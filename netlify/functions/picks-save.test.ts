@@ -51,7 +51,62 @@ describe('picks-save handler', () => {
     expect(res!.statusCode).toBe(200);
     expect(body.success).toBe(true);
     expect(body.data).toEqual(savedPicks);
-    expect(mockSavePicks).toHaveBeenCalledWith('user-admin-1', golferIds, 'Team selection', captainId);
+    expect(mockSavePicks).toHaveBeenCalledWith('user-admin-1', golferIds, 'Team selection', captainId, undefined, undefined, undefined, undefined);
+  });
+
+  it('passes a played chip through to the service', async () => {
+    const golferIds = ['g1', 'g2', 'g3', 'g4', 'g5', 'g6'];
+    mockValidateBody.mockReturnValue({ golferIds, captainId: 'g1', chip: 'tripleCaptain' });
+    mockSavePicks.mockResolvedValue({ golferIds, captainId: 'g1' });
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ golferIds, captainId: 'g1', chip: 'tripleCaptain' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(mockSavePicks).toHaveBeenCalledWith('user-admin-1', golferIds, 'Team selection', 'g1', undefined, 'tripleCaptain', undefined, undefined);
+  });
+
+  it('passes the bench through to the service', async () => {
+    const golferIds = ['g1', 'g2', 'g3', 'g4', 'g5', 'g6'];
+    const benchIds = ['g7', 'g8'];
+    mockValidateBody.mockReturnValue({ golferIds, benchIds, captainId: null });
+    mockSavePicks.mockResolvedValue({ golferIds, benchIds, captainId: null });
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ golferIds, benchIds }) });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(mockSavePicks).toHaveBeenCalledWith('user-admin-1', golferIds, 'Team selection', null, undefined, undefined, benchIds, undefined);
+  });
+
+  it('passes the vice-captain through to the service', async () => {
+    const golferIds = ['g1', 'g2', 'g3', 'g4', 'g5', 'g6'];
+    mockValidateBody.mockReturnValue({ golferIds, captainId: 'g1', viceCaptainId: 'g2' });
+    mockSavePicks.mockResolvedValue({ golferIds, captainId: 'g1', viceCaptainId: 'g2' });
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ golferIds, captainId: 'g1', viceCaptainId: 'g2' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(mockSavePicks).toHaveBeenCalledWith('user-admin-1', golferIds, 'Team selection', 'g1', undefined, undefined, undefined, 'g2');
+  });
+
+  it('returns 400 when a chip cannot be played', async () => {
+    mockValidateBody.mockReturnValue({ golferIds: ['g1'], chip: 'wildcard' });
+    mockSavePicks.mockRejectedValue(new Error('You have no Wildcard chips left this season'));
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: '{}' });
+    const res = await handler(event, mockContext);
+    const body = parseBody(res!);
+
+    expect(res!.statusCode).toBe(400);
+    expect(body.error).toContain('Wildcard');
   });
 
   it('returns 405 for wrong method', async () => {
@@ -10,8 +10,17 @@ export const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
   }
 
   try {
-    const { golferIds, captainId } = validateBody(savePicksSchema, event.body);
-    const picks = await savePicks(event.user.userId, golferIds, 'Team selection', captainId);
+    const { golferIds, benchIds, captainId, viceCaptainId, chip } = validateBody(savePicksSchema, event.body);
+    const picks = await savePicks(
+      event.user.userId,
+      golferIds,
+      'Team selection',
+      captainId,
+      undefined,
+      chip,
+      benchIds,
+      viceCaptainId
+    );
 
     return {
       statusCode: 200,
@@ -0,0 +1,48 @@
+import { handler } from './scheduled-awards';
+
+const mockGrantClosedPeriodAwards = vi.fn();
+vi.mock('./_shared/services/awards.service', () => ({
+  grantClosedPeriodAwards: (...args: any[]) => mockGrantClosedPeriodAwards(...args),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('scheduled-awards handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports how many awards were granted', async () => {
+    mockGrantClosedPeriodAwards.mockResolvedValue({ season: 2026, granted: 3 });
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(200);
+    expect(JSON.parse(res!.body!).data).toEqual({ season: 2026, granted: 3 });
+  });
+
+  it('skips when there is no active season', async () => {
+    mockGrantClosedPeriodAwards.mockResolvedValue({ season: null, granted: 0 });
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(200);
+    expect(JSON.parse(res!.body!).message).toBe('No active season');
+  });
+
+  it('handles errors gracefully', async () => {
+    mockGrantClosedPeriodAwards.mockRejectedValue(new Error('DB connection failed'));
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(500);
+    expect(JSON.parse(res!.body!).error).toBe('Granting awards failed');
+  });
+});
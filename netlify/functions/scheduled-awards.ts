@@ -0,0 +1,35 @@
+// Scheduled function: award manager of the week and month once each period closes
+// Runs daily via Netlify scheduled functions
+
+import type { Handler } from '@netlify/functions';
+import { grantClosedPeriodAwards } from './_shared/services/awards.service';
+import { createLogger } from './_shared/utils/logger';
+
+const logger = createLogger({ endpoint: 'scheduled-awards' });
+
+export const handler: Handler = async () => {
+  try {
+    const result = await grantClosedPeriodAwards();
+
+    if (result.season === null) {
+      logger.info('Skipped awards', { reason: 'No active season' });
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, message: 'No active season' }),
+      };
+    }
+
+    logger.info('Granted awards', { season: result.season, granted: result.granted });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: result }),
+    };
+  } catch (error) {
+    logger.error('Granting awards failed', error instanceof Error ? error : undefined);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: 'Granting awards failed' }),
+    };
+  }
+};
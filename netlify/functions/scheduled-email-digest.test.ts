@@ -0,0 +1,52 @@
+import { handler } from './scheduled-email-digest';
+
+const mockSendWeeklyDigests = vi.fn();
+vi.mock('./_shared/services/emails.service', () => ({
+  sendWeeklyDigests: (...args: any[]) => mockSendWeeklyDigests(...args),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('scheduled-email-digest handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports which gameweeks were sent', async () => {
+    mockSendWeeklyDigests.mockResolvedValue({ season: 2026, gameweeks: [5], sent: 12, failed: 0 });
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(200);
+    expect(JSON.parse(res!.body!).data).toEqual({
+      season: 2026,
+      gameweeks: [5],
+      sent: 12,
+      failed: 0,
+    });
+  });
+
+  it('skips when there is no active season', async () => {
+    mockSendWeeklyDigests.mockResolvedValue({ season: null, gameweeks: [], sent: 0, failed: 0 });
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(JSON.parse(res!.body!).message).toBe('No active season');
+  });
+
+  it('handles errors gracefully', async () => {
+    mockSendWeeklyDigests.mockRejectedValue(new Error('SMTP unavailable'));
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(500);
+    expect(JSON.parse(res!.body!).error).toBe('Sending weekly digest failed');
+  });
+});
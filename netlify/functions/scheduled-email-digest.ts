@@ -0,0 +1,42 @@
+// Scheduled function: email the weekly digest once the last tournament of a gameweek is scored
+// Runs hourly via Netlify scheduled functions
+
+import type { Handler } from '@netlify/functions';
+import { sendWeeklyDigests } from './_shared/services/emails.service';
+import { createLogger } from './_shared/utils/logger';
+
+const logger = createLogger({ endpoint: 'scheduled-email-digest' });
+
+export const handler: Handler = async () => {
+  try {
+    const result = await sendWeeklyDigests();
+
+    if (result.season === null) {
+      logger.info('Skipped weekly digest', { reason: 'No active season' });
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, message: 'No active season' }),
+      };
+    }
+
+    if (result.failed > 0) {
+      logger.warn('Some digest emails failed to send', { failed: result.failed });
+    }
+    logger.info('Sent weekly digests', {
+      season: result.season,
+      gameweeks: result.gameweeks,
+      sent: result.sent,
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: result }),
+    };
+  } catch (error) {
+    logger.error('Sending weekly digest failed', error instanceof Error ? error : undefined);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: 'Sending weekly digest failed' }),
+    };
+  }
+};
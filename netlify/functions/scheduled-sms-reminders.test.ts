@@ -0,0 +1,44 @@
+import { handler } from './scheduled-sms-reminders';
+
+const mockSendSmsReminders = vi.fn();
+vi.mock('./_shared/services/sms-reminders.service', () => ({
+  sendSmsReminders: (...args: any[]) => mockSendSmsReminders(...args),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('scheduled-sms-reminders handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports how many reminders were sent', async () => {
+    const deadline = new Date(2026, 4, 16, 8);
+    mockSendSmsReminders.mockResolvedValue({ deadline, sent: 4, failed: 1 });
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(200);
+    expect(JSON.parse(res!.body!).data).toEqual({
+      deadline: deadline.toISOString(),
+      sent: 4,
+      failed: 1,
+    });
+  });
+
+  it('handles errors gracefully', async () => {
+    mockSendSmsReminders.mockRejectedValue(new Error('DB connection failed'));
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(500);
+    expect(JSON.parse(res!.body!).error).toBe('Sending SMS reminders failed');
+  });
+});
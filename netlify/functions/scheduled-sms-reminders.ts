@@ -0,0 +1,33 @@
+// Scheduled function: text opted-in managers ahead of the weekly transfer deadline
+// Runs hourly via Netlify scheduled functions, so quiet hours only delay a reminder
+
+import type { Handler } from '@netlify/functions';
+import { sendSmsReminders } from './_shared/services/sms-reminders.service';
+import { createLogger } from './_shared/utils/logger';
+
+const logger = createLogger({ endpoint: 'scheduled-sms-reminders' });
+
+export const handler: Handler = async () => {
+  try {
+    const result = await sendSmsReminders();
+
+    if (result.failed > 0) {
+      logger.warn('Some SMS reminders failed to send', { failed: result.failed });
+    }
+    logger.info('Sent SMS reminders', {
+      deadline: result.deadline.toISOString(),
+      sent: result.sent,
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: result }),
+    };
+  } catch (error) {
+    logger.error('Sending SMS reminders failed', error instanceof Error ? error : undefined);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: 'Sending SMS reminders failed' }),
+    };
+  }
+};
@@ -0,0 +1,66 @@
+import { handler } from './scheduled-update-prices';
+
+const mockApplyWeeklyPriceChanges = vi.fn();
+vi.mock('./_shared/services/prices.service', () => ({
+  applyWeeklyPriceChanges: (...args: any[]) => mockApplyWeeklyPriceChanges(...args),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('scheduled-update-prices handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports the price rises and falls', async () => {
+    mockApplyWeeklyPriceChanges.mockResolvedValue({
+      season: 2026,
+      weekStart: new Date('2026-04-18'),
+      skipped: false,
+      rises: 4,
+      falls: 2,
+    });
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(200);
+    const body = JSON.parse(res!.body!);
+    expect(body.success).toBe(true);
+    expect(body.data.rises).toBe(4);
+    expect(body.data.falls).toBe(2);
+  });
+
+  it('returns the reason when the update is skipped', async () => {
+    mockApplyWeeklyPriceChanges.mockResolvedValue({
+      season: 2026,
+      weekStart: new Date('2026-04-18'),
+      skipped: true,
+      reason: 'Prices already updated this gameweek',
+      rises: 0,
+      falls: 0,
+    });
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(200);
+    expect(JSON.parse(res!.body!).message).toBe('Prices already updated this gameweek');
+  });
+
+  it('handles errors gracefully', async () => {
+    mockApplyWeeklyPriceChanges.mockRejectedValue(new Error('DB connection failed'));
+
+    const res = await handler({} as any, {} as any, () => {});
+
+    expect(res!.statusCode).toBe(500);
+    const body = JSON.parse(res!.body!);
+    expect(body.success).toBe(false);
+    expect(body.error).toBe('Price update failed');
+  });
+});
@@ -0,0 +1,40 @@
+// Scheduled function: move golfer prices for the new gameweek based on form and transfers
+// Runs weekly via Netlify scheduled functions, just after the gameweek rolls over
+
+import type { Handler } from '@netlify/functions';
+import { applyWeeklyPriceChanges } from './_shared/services/prices.service';
+import { createLogger } from './_shared/utils/logger';
+
+const logger = createLogger({ endpoint: 'scheduled-update-prices' });
+
+export const handler: Handler = async () => {
+  try {
+    const result = await applyWeeklyPriceChanges();
+
+    if (result.skipped) {
+      logger.info('Skipped weekly price update', { reason: result.reason });
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, message: result.reason }),
+      };
+    }
+
+    logger.info('Updated golfer prices', {
+      season: result.season,
+      weekStart: result.weekStart.toISOString(),
+      rises: result.rises,
+      falls: result.falls,
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: result }),
+    };
+  } catch (error) {
+    logger.error('Weekly price update failed', error instanceof Error ? error : undefined);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: 'Price update failed' }),
+    };
+  }
+};
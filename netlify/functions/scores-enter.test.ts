@@ -87,6 +87,26 @@ describe('scores-enter handler', () => {
     expect(body.data).toEqual(bulkResult);
   });
 
+  it('passes tied positions through to the service', async () => {
+    mockBulkEnterScores.mockResolvedValue([]);
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({
+        tournamentId: 't1',
+        scores: [
+          { golferId: 'g1', position: 1, rawScore: 38, participated: true },
+          { golferId: 'g2', position: 2, tied: true, rawScore: 36, participated: true },
+          { golferId: 'g3', position: 2, tied: true, rawScore: 36, participated: true },
+        ],
+      }),
+    });
+    await handler(event, mockContext);
+
+    const { scores } = mockBulkEnterScores.mock.calls[0][0];
+    expect(scores.map((s: { tied: boolean }) => s.tied)).toEqual([false, true, true]);
+  });
+
   it('returns 405 for wrong method', async () => {
     const event = makeAuthEvent({ httpMethod: 'GET' });
     const res = await handler(event, mockContext);
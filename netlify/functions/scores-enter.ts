@@ -27,7 +27,9 @@ export const handler = withAdmin(async (event) => {
         tournamentId: data.tournamentId,
         scores: data.scores.map(s => ({
           golferId: s.golferId,
+          partnerIds: s.partnerIds,
           position: s.position ?? null,
+          tied: s.tied,
           rawScore: s.rawScore ?? null,
           participated: s.participated,
         })),
@@ -44,6 +46,7 @@ export const handler = withAdmin(async (event) => {
       tournamentId: data.tournamentId,
       golferId: data.golferId,
       position: data.position ?? null,
+      tied: data.tied,
       rawScore: data.rawScore ?? null,
       participated: data.participated,
     }));
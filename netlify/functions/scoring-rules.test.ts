@@ -0,0 +1,105 @@
+import { handler } from './scoring-rules';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+import { DEFAULT_SCORING_RULES } from '../../shared/types/tournament.types';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockGetScoringRules = vi.fn();
+const mockSaveScoringRules = vi.fn();
+vi.mock('./_shared/services/scoring-rules.service', () => ({
+  getScoringRules: (...args: any[]) => mockGetScoringRules(...args),
+  saveScoringRules: (...args: any[]) => mockSaveScoringRules(...args),
+}));
+
+describe('scoring-rules handler', () => {
+  const seasonRules = { ...DEFAULT_SCORING_RULES, season: 2026, isDefault: true, updatedAt: null };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the requested season on GET', async () => {
+    mockGetScoringRules.mockResolvedValue(seasonRules);
+
+    const event = makeAuthEvent({
+      httpMethod: 'GET',
+      queryStringParameters: { season: '2026' },
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(seasonRules);
+    expect(mockGetScoringRules).toHaveBeenCalledWith(2026);
+  });
+
+  it('defaults to the active season on GET', async () => {
+    mockGetScoringRules.mockResolvedValue(seasonRules);
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(mockGetScoringRules).toHaveBeenCalledWith(undefined);
+  });
+
+  it('saves the rules on PUT', async () => {
+    mockSaveScoringRules.mockResolvedValue({ ...seasonRules, isDefault: false });
+
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      body: JSON.stringify({ ...DEFAULT_SCORING_RULES, season: 2026, appearancePoints: 1 }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(mockSaveScoringRules).toHaveBeenCalledWith(
+      { ...DEFAULT_SCORING_RULES, appearancePoints: 1 },
+      'user-admin-1',
+      2026
+    );
+  });
+
+  it('returns 422 for invalid rules', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      body: JSON.stringify({ ...DEFAULT_SCORING_RULES, positionPoints: [] }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(422);
+    expect(parseBody(res).error).toContain('At least one position');
+    expect(mockSaveScoringRules).not.toHaveBeenCalled();
+  });
+
+  it('returns 405 for unsupported methods', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'DELETE' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,61 @@
+// GET/PUT /.netlify/functions/scoring-rules?season=2026 (Admin only)
+// Get or update a season's scoring rules (defaults to the active season)
+
+import type { Handler } from '@netlify/functions';
+import { z } from 'zod';
+import { withAdmin } from './_shared/middleware';
+import { getScoringRules, saveScoringRules } from './_shared/services/scoring-rules.service';
+import { scoringRulesSchema } from './_shared/validators/scoring-rules.validator';
+
+export const handler: Handler = withAdmin(async (event) => {
+  // GET - retrieve the season's rules
+  if (event.httpMethod === 'GET') {
+    try {
+      const seasonParam = event.queryStringParameters?.season;
+      const rules = await getScoringRules(seasonParam ? parseInt(seasonParam, 10) : undefined);
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, data: rules }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to get scoring rules';
+      return {
+        statusCode: 500,
+        body: JSON.stringify({ success: false, error: message }),
+      };
+    }
+  }
+
+  // PUT - replace the season's rules
+  if (event.httpMethod === 'PUT') {
+    try {
+      const { season, ...rules } = scoringRulesSchema.parse(JSON.parse(event.body || '{}'));
+      const saved = await saveScoringRules(rules, event.user.userId, season);
+
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, data: saved }),
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return {
+          statusCode: 422,
+          body: JSON.stringify({
+            success: false,
+            error: error.errors.map((e) => e.message).join('; '),
+          }),
+        };
+      }
+      const message = error instanceof Error ? error.message : 'Failed to update scoring rules';
+      return {
+        statusCode: 500,
+        body: JSON.stringify({ success: false, error: message }),
+      };
+    }
+  }
+
+  return {
+    statusCode: 405,
+    body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+  };
+});
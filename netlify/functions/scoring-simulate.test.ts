@@ -0,0 +1,78 @@
+import { handler } from './scoring-simulate';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+import { DEFAULT_SCORING_RULES } from '../../shared/types/tournament.types';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockSimulateScoringRules = vi.fn();
+vi.mock('./_shared/services/scoring-rules.service', () => ({
+  simulateScoringRules: (...args: any[]) => mockSimulateScoringRules(...args),
+}));
+
+describe('scoring-simulate handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('simulates the candidate rules for the season', async () => {
+    const simulation = { season: 2025, scoresRescored: 12, scoresChanged: 4, standings: [] };
+    mockSimulateScoringRules.mockResolvedValue(simulation);
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ ...DEFAULT_SCORING_RULES, season: 2025, positionPoints: [12, 8] }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(simulation);
+    expect(mockSimulateScoringRules).toHaveBeenCalledWith(
+      { ...DEFAULT_SCORING_RULES, positionPoints: [12, 8] },
+      2025
+    );
+  });
+
+  it('returns 422 for invalid rules', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ ...DEFAULT_SCORING_RULES, appearancePoints: -2 }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(422);
+    expect(mockSimulateScoringRules).not.toHaveBeenCalled();
+  });
+
+  it('returns 405 for non-POST requests', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,42 @@
+// POST /.netlify/functions/scoring-simulate (Admin only)
+// Re-score a season against candidate scoring rules and diff the standings. Nothing is saved.
+
+import type { Handler } from '@netlify/functions';
+import { z } from 'zod';
+import { withAdmin } from './_shared/middleware';
+import { simulateScoringRules } from './_shared/services/scoring-rules.service';
+import { scoringRulesSchema } from './_shared/validators/scoring-rules.validator';
+
+export const handler: Handler = withAdmin(async (event) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { season, ...rules } = scoringRulesSchema.parse(JSON.parse(event.body || '{}'));
+    const result = await simulateScoringRules(rules, season);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: result }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    const message = error instanceof Error ? error.message : 'Failed to simulate scoring rules';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
@@ -0,0 +1,72 @@
+import { handler } from './seasons-archive';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockGetSeasonArchive = vi.fn();
+vi.mock('./_shared/services/season-archive.service', () => ({
+  getSeasonArchive: (...args: any[]) => mockGetSeasonArchive(...args),
+}));
+
+describe('seasons-archive handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the archive for the season', async () => {
+    const archive = { id: 'a1', seasonName: '2025', standings: [] };
+    mockGetSeasonArchive.mockResolvedValue(archive);
+
+    const event = makeAuthEvent({ httpMethod: 'GET', queryStringParameters: { season: '2025' } });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(archive);
+    expect(mockGetSeasonArchive).toHaveBeenCalledWith('2025');
+  });
+
+  it('returns 404 for a season that has not been archived', async () => {
+    mockGetSeasonArchive.mockResolvedValue(null);
+
+    const event = makeAuthEvent({ httpMethod: 'GET', queryStringParameters: { season: '2026' } });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(404);
+    expect(parseBody(res).error).toBe('Season has not been archived');
+  });
+
+  it('returns 400 without a season', async () => {
+    const event = makeAuthEvent({ httpMethod: 'GET', queryStringParameters: {} });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+    expect(mockGetSeasonArchive).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+// GET /.netlify/functions/seasons-archive?season=<name>
+// Returns a completed season's frozen final standings and period winners
+
+import type { Handler } from '@netlify/functions';
+import { withVerifiedAuth } from './_shared/middleware';
+import { getSeasonArchive } from './_shared/services/season-archive.service';
+
+export const handler: Handler = withVerifiedAuth(async (event) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  const seasonName = event.queryStringParameters?.season;
+  if (!seasonName) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ success: false, error: 'Season is required' }),
+    };
+  }
+
+  try {
+    const archive = await getSeasonArchive(seasonName);
+
+    if (!archive) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ success: false, error: 'Season has not been archived' }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: archive }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch season archive';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
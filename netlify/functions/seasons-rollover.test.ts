@@ -0,0 +1,122 @@
+import { handler } from './seasons-rollover';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockRunSeasonRollover = vi.fn();
+const mockGetLatestSeasonRollover = vi.fn();
+vi.mock('./_shared/services/season-rollover.service', () => ({
+  runSeasonRollover: (...args: any[]) => mockRunSeasonRollover(...args),
+  getLatestSeasonRollover: (...args: any[]) => mockGetLatestSeasonRollover(...args),
+}));
+
+const validBody = {
+  name: '2027',
+  startDate: '2027-04-01',
+  endDate: '2028-03-31',
+  carryOverTeams: false,
+  confirm: 'CONFIRM',
+};
+
+describe('seasons-rollover handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the latest rollover on GET', async () => {
+    const rollover = { id: 'r1', toSeasonName: '2027', status: 'in_progress' };
+    mockGetLatestSeasonRollover.mockResolvedValue(rollover);
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(rollover);
+  });
+
+  it('runs the rollover on POST', async () => {
+    const rollover = { id: 'r1', toSeasonName: '2027', status: 'complete' };
+    mockRunSeasonRollover.mockResolvedValue(rollover);
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify(validBody) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(rollover);
+    expect(mockRunSeasonRollover).toHaveBeenCalledWith(
+      {
+        name: '2027',
+        startDate: new Date('2027-04-01'),
+        endDate: new Date('2028-03-31'),
+        carryOverTeams: false,
+      },
+      'user-admin-1'
+    );
+  });
+
+  it('returns 422 without confirmation', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ ...validBody, confirm: undefined }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(422);
+    expect(mockRunSeasonRollover).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when another rollover is in progress', async () => {
+    mockRunSeasonRollover.mockRejectedValue(
+      new Error('A rollover to 2028 is already in progress. Resume it before starting another')
+    );
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify(validBody) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(409);
+  });
+
+  it('returns 500 when a step fails', async () => {
+    mockRunSeasonRollover.mockRejectedValue(
+      new Error('Recalculate opening prices failed: timeout. Run the rollover again to resume')
+    );
+
+    const event = makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify(validBody) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(500);
+    expect(parseBody(res).error).toContain('Run the rollover again to resume');
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'DELETE' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,81 @@
+// GET/POST /.netlify/functions/seasons-rollover (Admin only)
+// GET returns the rollover in progress (or the last one); POST starts or resumes one
+
+import { z } from 'zod';
+import {
+  getLatestSeasonRollover,
+  runSeasonRollover,
+} from './_shared/services/season-rollover.service';
+import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
+import { seasonRolloverSchema } from './_shared/validators/season-rollover.validator';
+
+// Refusals raised before any step has run
+const CONFLICT_ERRORS = [
+  'A rollover to',
+  'There is no active season',
+  'The new season must come after',
+  'A season named',
+];
+
+const handler = withAdmin(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod === 'GET') {
+    try {
+      const rollover = await getLatestSeasonRollover();
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, data: rollover }),
+      };
+    } catch (error) {
+      console.error('Error fetching season rollover:', error);
+      return {
+        statusCode: 500,
+        body: JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch season rollover',
+        }),
+      };
+    }
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { confirm: _confirm, ...data } = seasonRolloverSchema.parse(
+      JSON.parse(event.body || '{}')
+    );
+    const rollover = await runSeasonRollover(data, event.user.userId);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: rollover,
+        message: `Season ${rollover.toSeasonName} is now active`,
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    console.error('Error rolling over season:', error);
+    const message = error instanceof Error ? error.message : 'Failed to roll over season';
+    const statusCode = CONFLICT_ERRORS.some((e) => message.startsWith(e)) ? 409 : 500;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
+
+export { handler };
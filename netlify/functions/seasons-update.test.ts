@@ -35,6 +35,11 @@ vi.mock('./_shared/services/seasons.service', () => ({
   updateSeason: (...args: any[]) => mockUpdateSeason(...args),
 }));
 
+const mockArchiveSeason = vi.fn();
+vi.mock('./_shared/services/season-archive.service', () => ({
+  archiveSeason: (...args: any[]) => mockArchiveSeason(...args),
+}));
+
 describe('seasons-update handler', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -55,6 +60,25 @@ describe('seasons-update handler', () => {
     const body = parseBody(res);
     expect(body.success).toBe(true);
     expect(body.data).toEqual(updated);
+    expect(mockArchiveSeason).not.toHaveBeenCalled();
+  });
+
+  it('archives the season when it is marked complete', async () => {
+    mockUpdateSeason.mockResolvedValue({ id: 's1', name: '2025', status: 'complete' });
+
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      queryStringParameters: { id: 's1' },
+      body: JSON.stringify({ status: 'complete' }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(mockUpdateSeason).toHaveBeenCalledWith(
+      's1',
+      expect.objectContaining({ status: 'complete' })
+    );
+    expect(mockArchiveSeason).toHaveBeenCalledWith('2025');
   });
 
   it('returns 400 when id is missing', async () => {
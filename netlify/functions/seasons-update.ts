@@ -1,6 +1,8 @@
 // PUT /.netlify/functions/seasons-update
+// Marking a season complete freezes its final tables into the season archive
 
 import { updateSeason } from './_shared/services/seasons.service';
+import { archiveSeason } from './_shared/services/season-archive.service';
 import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
 
 const handler = withAdmin(async (event: AuthenticatedEvent) => {
@@ -33,6 +35,10 @@ const handler = withAdmin(async (event: AuthenticatedEvent) => {
       };
     }
 
+    if (status === 'complete') {
+      await archiveSeason(season.name);
+    }
+
     return {
       statusCode: 200,
       body: JSON.stringify({
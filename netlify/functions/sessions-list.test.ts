@@ -0,0 +1,73 @@
+import { handler } from './sessions-list';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+  hashRefreshToken: (token: string) => `hash:${token}`,
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockListSessions = vi.fn();
+vi.mock('./_shared/services/sessions.service', () => ({
+  listSessions: (...args: any[]) => mockListSessions(...args),
+}));
+
+describe('sessions-list handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists the user's sessions, marking this one from the refresh cookie", async () => {
+    const sessions = [{ id: 's1', device: 'Chrome on Windows', current: true }];
+    mockListSessions.mockResolvedValue(sessions);
+
+    const event = makeAuthEvent({
+      httpMethod: 'GET',
+      headers: { authorization: 'Bearer valid-token', cookie: 'refresh_token=abc' },
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).data).toEqual(sessions);
+    expect(mockListSessions).toHaveBeenCalledWith('user-admin-1', 'hash:abc');
+  });
+
+  it('lists sessions without a refresh cookie', async () => {
+    mockListSessions.mockResolvedValue([]);
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(mockListSessions).toHaveBeenCalledWith('user-admin-1', null);
+  });
+
+  it('rejects other methods', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+
+    expect(res!.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,37 @@
+// GET /.netlify/functions/sessions-list
+// Lists the devices the current user is signed in on, marking the one making the request
+
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { hashRefreshToken } from './_shared/auth';
+import { listSessions } from './_shared/services/sessions.service';
+import { getRefreshTokenFromCookie } from './_shared/utils/cookies';
+
+const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const refreshToken = getRefreshTokenFromCookie(event.headers.cookie);
+    const sessions = await listSessions(
+      event.user.userId,
+      refreshToken ? hashRefreshToken(refreshToken) : null
+    );
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: sessions }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch sessions';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'read');
+
+export { handler };
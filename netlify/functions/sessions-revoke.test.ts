@@ -0,0 +1,98 @@
+import { handler } from './sessions-revoke';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+  hashRefreshToken: (token: string) => `hash:${token}`,
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockRevokeSession = vi.fn();
+const mockRevokeOtherSessions = vi.fn();
+vi.mock('./_shared/services/sessions.service', () => ({
+  revokeSession: (...args: any[]) => mockRevokeSession(...args),
+  revokeOtherSessions: (...args: any[]) => mockRevokeOtherSessions(...args),
+}));
+
+const sessionId = '665f1c2b9d3e4a0012345678';
+
+describe('sessions-revoke handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('signs out one session', async () => {
+    mockRevokeSession.mockResolvedValue(undefined);
+
+    const res = await handler(
+      makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ sessionId }) }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(200);
+    expect(mockRevokeSession).toHaveBeenCalledWith('user-admin-1', sessionId);
+  });
+
+  it('signs out every other session, keeping this one', async () => {
+    mockRevokeOtherSessions.mockResolvedValue(2);
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      headers: { authorization: 'Bearer valid-token', cookie: 'refresh_token=abc' },
+      body: JSON.stringify({ allOthers: true }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).data).toEqual({ revoked: 2 });
+    expect(mockRevokeOtherSessions).toHaveBeenCalledWith('user-admin-1', 'hash:abc');
+  });
+
+  it('returns 404 for a session that belongs to someone else', async () => {
+    mockRevokeSession.mockRejectedValue(new Error('Session not found'));
+
+    const res = await handler(
+      makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ sessionId }) }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(404);
+  });
+
+  it('returns 422 without a session or allOthers', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST', body: '{}' }), mockContext);
+
+    expect(res!.statusCode).toBe(422);
+    expect(parseBody(res!).error).toBe('Give either sessionId or allOthers');
+  });
+
+  it('rejects other methods', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res!.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,61 @@
+// POST /.netlify/functions/sessions-revoke
+// Signs the current user out of one device, or every device but this one
+
+import { z } from 'zod';
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import { hashRefreshToken } from './_shared/auth';
+import { revokeOtherSessions, revokeSession } from './_shared/services/sessions.service';
+import { getRefreshTokenFromCookie } from './_shared/utils/cookies';
+import { revokeSessionsSchema } from './_shared/validators/sessions.validator';
+
+const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { sessionId } = revokeSessionsSchema.parse(JSON.parse(event.body || '{}'));
+
+    if (sessionId) {
+      await revokeSession(event.user.userId, sessionId);
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, data: { revoked: 1 }, message: 'Signed out' }),
+      };
+    }
+
+    const refreshToken = getRefreshTokenFromCookie(event.headers.cookie);
+    const revoked = await revokeOtherSessions(
+      event.user.userId,
+      refreshToken ? hashRefreshToken(refreshToken) : null
+    );
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: { revoked },
+        message: 'Signed out of all other devices',
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    const message = error instanceof Error ? error.message : 'Failed to sign out';
+    return {
+      statusCode: message === 'Session not found' ? 404 : 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'write');
+
+export { handler };
@@ -37,7 +37,7 @@ export const handler: Handler = withAdmin(async (event) => {
       }
 
       // Validate allowed keys
-      const allowedKeys = ['transfersOpen', 'registrationOpen', 'allowNewTeamCreation', 'maxTransfersPerWeek', 'maxPlayersPerTransfer'];
+      const allowedKeys = ['transfersOpen', 'registrationOpen', 'allowNewTeamCreation', 'maxTransfersPerWeek', 'maxPlayersPerTransfer', 'transferPenaltyPoints'];
       if (!allowedKeys.includes(key)) {
         return {
           statusCode: 400,
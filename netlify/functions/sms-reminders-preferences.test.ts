@@ -0,0 +1,99 @@
+import { handler } from './sms-reminders-preferences';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockGetSmsReminderPreferences = vi.fn();
+const mockUpdateSmsReminderPreferences = vi.fn();
+vi.mock('./_shared/services/sms-reminders.service', () => ({
+  getSmsReminderPreferences: (...args: any[]) => mockGetSmsReminderPreferences(...args),
+  updateSmsReminderPreferences: (...args: any[]) => mockUpdateSmsReminderPreferences(...args),
+}));
+
+const preferences = {
+  enabled: true,
+  types: ['transfer_deadline'],
+  quietHoursStart: 22,
+  quietHoursEnd: 8,
+};
+
+describe('sms-reminders-preferences handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the current user preferences on GET', async () => {
+    mockGetSmsReminderPreferences.mockResolvedValue(preferences);
+
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(preferences);
+    expect(mockGetSmsReminderPreferences).toHaveBeenCalledWith('user-admin-1');
+  });
+
+  it('saves preferences on PUT', async () => {
+    mockUpdateSmsReminderPreferences.mockResolvedValue(preferences);
+
+    const event = makeAuthEvent({ httpMethod: 'PUT', body: JSON.stringify(preferences) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(mockUpdateSmsReminderPreferences).toHaveBeenCalledWith('user-admin-1', preferences);
+  });
+
+  it('returns 422 for invalid preferences', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      body: JSON.stringify({ ...preferences, quietHoursStart: 30 }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(422);
+    expect(mockUpdateSmsReminderPreferences).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when the phone number is not verified', async () => {
+    mockUpdateSmsReminderPreferences.mockRejectedValue(
+      new Error('Verify your phone number before turning on SMS reminders')
+    );
+
+    const event = makeAuthEvent({ httpMethod: 'PUT', body: JSON.stringify(preferences) });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('rejects other methods', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'DELETE' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
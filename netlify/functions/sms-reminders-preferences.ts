@@ -0,0 +1,69 @@
+// GET/PUT /.netlify/functions/sms-reminders-preferences
+// GET returns the current user's SMS reminder preferences; PUT replaces them
+
+import { z } from 'zod';
+import { withVerifiedAuth, AuthenticatedEvent } from './_shared/middleware';
+import {
+  getSmsReminderPreferences,
+  updateSmsReminderPreferences,
+} from './_shared/services/sms-reminders.service';
+import { smsReminderPreferencesSchema } from './_shared/validators/sms-reminders.validator';
+
+const handler = withVerifiedAuth(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod === 'GET') {
+    try {
+      const preferences = await getSmsReminderPreferences(event.user.userId);
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, data: preferences }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch SMS reminders';
+      return {
+        statusCode: message === 'User not found' ? 404 : 500,
+        body: JSON.stringify({ success: false, error: message }),
+      };
+    }
+  }
+
+  if (event.httpMethod !== 'PUT') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const data = smsReminderPreferencesSchema.parse(JSON.parse(event.body || '{}'));
+    const preferences = await updateSmsReminderPreferences(event.user.userId, data);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: preferences,
+        message: 'SMS reminders updated',
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    const message = error instanceof Error ? error.message : 'Failed to update SMS reminders';
+    let statusCode = 500;
+    if (message === 'User not found') statusCode = 404;
+    else if (message.startsWith('Verify your phone number')) statusCode = 400;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+}, 'write');
+
+export { handler };
@@ -191,6 +191,52 @@ describe('tournament-detail handler', () => {
     expect(body.data.stats.averagePoints).toBe(90);
   });
 
+  it('puts golfers tied on countback on the same podium step', async () => {
+    const tiedScores = [
+      { ...scoresDocs[0] },
+      { ...scoresDocs[1], tied: true },
+      { ...scoresDocs[2], position: 2, tied: true },
+    ];
+    setupDb(makeTournamentDoc({ status: 'complete' }), tiedScores);
+
+    const res = await handler(
+      makeEvent({ queryStringParameters: { id: tid.toString() } }),
+      mockContext,
+    );
+    const body = parseBody(res);
+
+    expect(body.data.podium.first.tied).toBe(false);
+    expect(body.data.podium.second.tied).toBe(true);
+    expect(body.data.podium.second.golfer.firstName).toBe('Rory');
+    expect(body.data.podium.second.tiedWith.map((g: any) => g.firstName)).toEqual(['Jon']);
+    expect(body.data.podium.third).toBeNull();
+    expect(body.data.scores.map((s: any) => s.tied)).toEqual([false, true, true]);
+  });
+
+  it('lists each pairing of a team-format event once', async () => {
+    const pairScores = [
+      { ...scoresDocs[0], partnerIds: [gid2] },
+      { ...scoresDocs[1], position: 1, multipliedPoints: 120, partnerIds: [gid1] },
+      { ...scoresDocs[2], position: 2 },
+    ];
+    setupDb(makeTournamentDoc({ status: 'complete', teamFormat: 'pairs' }), pairScores);
+
+    const res = await handler(
+      makeEvent({ queryStringParameters: { id: tid.toString() } }),
+      mockContext,
+    );
+    const body = parseBody(res);
+
+    expect(body.data.scores).toHaveLength(2);
+    // The pairing is listed under its first member by name
+    expect(body.data.scores[0].golfer.firstName).toBe('Rory');
+    expect(body.data.scores[0].partners.map((g: any) => g.firstName)).toEqual(['Tiger']);
+    expect(body.data.podium.first.partners.map((g: any) => g.firstName)).toEqual(['Tiger']);
+    expect(body.data.podium.first.tied).toBe(false);
+    // Stats still count golfers
+    expect(body.data.stats.totalParticipants).toBe(3);
+  });
+
   it('returns 500 on unexpected error', async () => {
     mockConnect.mockRejectedValue(new Error('DB down'));
     const res = await handler(
@@ -16,7 +16,9 @@ interface GolferScore {
     lastName: string;
     picture: string;
   };
+  partners: GolferScore['golfer'][]; // the rest of the pairing in a team-format event
   position: number | null;
+  tied: boolean;
   participated: boolean;
   rawScore: number | null;
   basePoints: number;
@@ -25,13 +27,11 @@ interface GolferScore {
 }
 
 interface PodiumEntry {
-  golfer: {
-    id: string;
-    firstName: string;
-    lastName: string;
-    picture: string;
-  };
+  golfer: GolferScore['golfer'];
+  partners: GolferScore['golfer'][];
   points: number;
+  tied: boolean;
+  tiedWith: GolferScore['golfer'][]; // others sharing the place on countback
 }
 
 const handler: Handler = async (event: HandlerEvent) => {
@@ -126,6 +126,12 @@ const handler: Handler = async (event: HandlerEvent) => {
 
     // Create golfer lookup map
     const golferMap = new Map(golfers.map(g => [g._id.toString(), g]));
+    const toGolferInfo = (golfer: GolferDocument): GolferScore['golfer'] => ({
+      id: golfer._id.toString(),
+      firstName: golfer.firstName,
+      lastName: golfer.lastName,
+      picture: golfer.picture || '',
+    });
 
     // Build scores with golfer info
     const mappedScores = scores.map(score => {
@@ -133,13 +139,13 @@ const handler: Handler = async (event: HandlerEvent) => {
       if (!golfer) return null;
 
       return {
-        golfer: {
-          id: golfer._id.toString(),
-          firstName: golfer.firstName,
-          lastName: golfer.lastName,
-          picture: golfer.picture || '',
-        },
+        golfer: toGolferInfo(golfer),
+        partners: (score.partnerIds || [])
+          .map(id => golferMap.get(id.toString()))
+          .filter((partner): partner is GolferDocument => partner !== undefined)
+          .map(toGolferInfo),
         position: score.position,
+        tied: score.tied ?? false,
         participated: score.participated,
         rawScore: score.rawScore,
         basePoints: score.basePoints,
@@ -153,11 +159,12 @@ const handler: Handler = async (event: HandlerEvent) => {
       .filter((s): s is GolferScore => s !== null)
       .sort((a, b) => {
         // Sort by position (1, 2, 3 first), then by points, then alphabetically
-        if (a.position !== null && b.position !== null) {
+        // Golfers tied on a position fall through to points and name
+        if (a.position !== b.position) {
+          if (a.position === null) return 1;
+          if (b.position === null) return -1;
           return a.position - b.position;
         }
-        if (a.position !== null) return -1;
-        if (b.position !== null) return 1;
         if (b.multipliedPoints !== a.multipliedPoints) {
           return b.multipliedPoints - a.multipliedPoints;
         }
@@ -177,15 +184,31 @@ const handler: Handler = async (event: HandlerEvent) => {
       third: null,
     };
 
-    for (const score of golferScores) {
-      if (score.position === 1) {
-        podium.first = { golfer: score.golfer, points: score.multipliedPoints };
-      } else if (score.position === 2) {
-        podium.second = { golfer: score.golfer, points: score.multipliedPoints };
-      } else if (score.position === 3) {
-        podium.third = { golfer: score.golfer, points: score.multipliedPoints };
-      }
-    }
+    // Every member of a pairing holds the same result, so list each pairing once
+    const listedGolferIds = new Set<string>();
+    const resultRows = golferScores.filter(s => {
+      if (s.partners.some(partner => listedGolferIds.has(partner.id))) return false;
+      listedGolferIds.add(s.golfer.id);
+      return true;
+    });
+
+    // A tie puts every golfer sharing the place on the same step; the places it covers stay empty
+    const podiumEntry = (position: number): PodiumEntry | null => {
+      const [leader, ...others] = resultRows.filter(
+        s => s.participated && s.position === position
+      );
+      if (!leader) return null;
+      return {
+        golfer: leader.golfer,
+        partners: leader.partners,
+        points: leader.multipliedPoints,
+        tied: others.length > 0,
+        tiedWith: others.flatMap(s => [s.golfer, ...s.partners]),
+      };
+    };
+    podium.first = podiumEntry(1);
+    podium.second = podiumEntry(2);
+    podium.third = podiumEntry(3);
 
     // Calculate stats
     const participatedScores = golferScores.filter(s => s.participated);
@@ -215,7 +238,7 @@ const handler: Handler = async (event: HandlerEvent) => {
             participantCount: tournament.participatingGolferIds?.length || 0,
           },
           podium,
-          scores: golferScores,
+          scores: resultRows,
           stats,
         },
       }),
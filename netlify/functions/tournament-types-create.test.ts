@@ -0,0 +1,94 @@
+import { handler } from './tournament-types-create';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockCreateTournamentType = vi.fn();
+vi.mock('./_shared/services/tournament-types.service', () => ({
+  createTournamentType: (...args: any[]) => mockCreateTournamentType(...args),
+}));
+
+describe('tournament-types-create handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates a tournament type on POST', async () => {
+    const created = { id: 't1', key: 'winter_foursomes', label: 'Winter Foursomes' };
+    mockCreateTournamentType.mockResolvedValue(created);
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ label: 'Winter Foursomes', multiplier: 1.5 }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(201);
+    expect(parseBody(res).data).toEqual(created);
+    expect(mockCreateTournamentType).toHaveBeenCalledWith({
+      label: 'Winter Foursomes',
+      multiplier: 1.5,
+      defaultScoringFormat: 'stableford',
+      forcedScoringFormat: null,
+      defaultMultiDay: false,
+    });
+  });
+
+  it('returns 422 for an invalid body', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ label: 'Winter Foursomes', multiplier: -1 }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(422);
+    expect(mockCreateTournamentType).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the name is taken', async () => {
+    mockCreateTournamentType.mockRejectedValue(
+      new Error('A tournament type with that name already exists')
+    );
+
+    const event = makeAuthEvent({
+      httpMethod: 'POST',
+      body: JSON.stringify({ label: 'Founders', multiplier: 4 }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(409);
+  });
+
+  it('returns 405 for wrong method', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'GET' }), mockContext);
+
+    expect(res.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,48 @@
+// POST /.netlify/functions/tournament-types-create
+
+import { z } from 'zod';
+import { createTournamentType } from './_shared/services/tournament-types.service';
+import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
+import { createTournamentTypeSchema } from './_shared/validators/tournament-types.validator';
+
+const handler = withAdmin(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const data = createTournamentTypeSchema.parse(JSON.parse(event.body || '{}'));
+    const type = await createTournamentType(data);
+
+    return {
+      statusCode: 201,
+      body: JSON.stringify({
+        success: true,
+        data: type,
+        message: 'Tournament type created successfully',
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    console.error('Error creating tournament type:', error);
+    const message = error instanceof Error ? error.message : 'Failed to create tournament type';
+    const statusCode = message.startsWith('A tournament type with that name') ? 409 : 500;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
+
+export { handler };
@@ -0,0 +1,78 @@
+import { handler } from './tournament-types-delete';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockDeleteTournamentType = vi.fn();
+vi.mock('./_shared/services/tournament-types.service', () => ({
+  deleteTournamentType: (...args: any[]) => mockDeleteTournamentType(...args),
+}));
+
+describe('tournament-types-delete handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('deletes a tournament type on DELETE', async () => {
+    mockDeleteTournamentType.mockResolvedValue(true);
+
+    const event = makeAuthEvent({
+      httpMethod: 'DELETE',
+      queryStringParameters: { id: 't1' },
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).success).toBe(true);
+    expect(mockDeleteTournamentType).toHaveBeenCalledWith('t1');
+  });
+
+  it('returns 400 when the type cannot be deleted', async () => {
+    mockDeleteTournamentType.mockRejectedValue(
+      new Error('Cannot delete a built-in tournament type')
+    );
+
+    const event = makeAuthEvent({
+      httpMethod: 'DELETE',
+      queryStringParameters: { id: 't1' },
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+    expect(parseBody(res).error).toBe('Cannot delete a built-in tournament type');
+  });
+
+  it('returns 400 when id is missing', async () => {
+    const event = makeAuthEvent({ httpMethod: 'DELETE', queryStringParameters: {} });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,51 @@
+// DELETE /.netlify/functions/tournament-types-delete
+
+import { deleteTournamentType } from './_shared/services/tournament-types.service';
+import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
+
+const handler = withAdmin(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'DELETE') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const id = event.queryStringParameters?.id;
+
+    if (!id) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ success: false, error: 'Tournament type id is required' }),
+      };
+    }
+
+    const deleted = await deleteTournamentType(id);
+
+    if (!deleted) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ success: false, error: 'Tournament type not found' }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        message: 'Tournament type deleted successfully',
+      }),
+    };
+  } catch (error) {
+    console.error('Delete tournament type error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete tournament type';
+    const statusCode = message.startsWith('Cannot delete') ? 400 : 500;
+    return {
+      statusCode,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
+
+export { handler };
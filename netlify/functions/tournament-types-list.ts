@@ -0,0 +1,29 @@
+// GET /.netlify/functions/tournament-types-list
+
+import type { Handler } from '@netlify/functions';
+import { withVerifiedAuth } from './_shared/middleware';
+import { getTournamentTypes } from './_shared/services/tournament-types.service';
+
+export const handler: Handler = withVerifiedAuth(async (event) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const types = await getTournamentTypes();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: types }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch tournament types';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
@@ -0,0 +1,83 @@
+import { handler } from './tournament-types-update';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockUpdateTournamentType = vi.fn();
+vi.mock('./_shared/services/tournament-types.service', () => ({
+  updateTournamentType: (...args: any[]) => mockUpdateTournamentType(...args),
+}));
+
+describe('tournament-types-update handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('updates a tournament type on PUT', async () => {
+    const updated = { id: 't1', key: 'founders', label: 'Founders', multiplier: 6 };
+    mockUpdateTournamentType.mockResolvedValue(updated);
+
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      queryStringParameters: { id: 't1' },
+      body: JSON.stringify({ multiplier: 6 }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(200);
+    expect(parseBody(res).data).toEqual(updated);
+    expect(mockUpdateTournamentType).toHaveBeenCalledWith('t1', { multiplier: 6 });
+  });
+
+  it('returns 400 when id is missing', async () => {
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      queryStringParameters: {},
+      body: JSON.stringify({ multiplier: 6 }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(400);
+    expect(parseBody(res).error).toBe('Tournament type id is required');
+  });
+
+  it('returns 404 when the type does not exist', async () => {
+    mockUpdateTournamentType.mockResolvedValue(null);
+
+    const event = makeAuthEvent({
+      httpMethod: 'PUT',
+      queryStringParameters: { id: 't9' },
+      body: JSON.stringify({ multiplier: 6 }),
+    });
+    const res = await handler(event, mockContext);
+
+    expect(res.statusCode).toBe(404);
+  });
+});
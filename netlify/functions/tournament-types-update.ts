@@ -0,0 +1,65 @@
+// PUT /.netlify/functions/tournament-types-update
+
+import { z } from 'zod';
+import { updateTournamentType } from './_shared/services/tournament-types.service';
+import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
+import { updateTournamentTypeSchema } from './_shared/validators/tournament-types.validator';
+
+const handler = withAdmin(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'PUT') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const id = event.queryStringParameters?.id;
+
+    if (!id) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ success: false, error: 'Tournament type id is required' }),
+      };
+    }
+
+    const data = updateTournamentTypeSchema.parse(JSON.parse(event.body || '{}'));
+    const type = await updateTournamentType(id, data);
+
+    if (!type) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ success: false, error: 'Tournament type not found' }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: type,
+        message: 'Tournament type updated successfully',
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    console.error('Error updating tournament type:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update tournament type',
+      }),
+    };
+  }
+});
+
+export { handler };
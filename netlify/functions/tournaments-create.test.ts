@@ -114,6 +114,20 @@ describe('tournaments-create handler', () => {
     expect(parseBody(res).error).toContain('Admin');
   });
 
+  it('returns 400 for an unknown tournament type', async () => {
+    mockCreate.mockRejectedValue(new Error('Tournament type not found'));
+
+    const res = await handler(
+      makeAuthEvent({
+        httpMethod: 'POST',
+        body: JSON.stringify({ ...validBody, tournamentType: 'matchplay' }),
+      }),
+      mockContext,
+    );
+    expect(res.statusCode).toBe(400);
+    expect(parseBody(res).error).toBe('Tournament type not found');
+  });
+
   it('returns 500 on service error', async () => {
     mockCreate.mockRejectedValue(new Error('DB error'));
 
@@ -2,7 +2,6 @@
 
 import { createTournament } from './_shared/services/tournaments.service';
 import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
-import { TOURNAMENT_TYPE_CONFIG, type TournamentType } from '../../shared/types/tournament.types';
 
 const handler = withAdmin(async (event: AuthenticatedEvent) => {
   if (event.httpMethod !== 'POST') {
@@ -14,7 +13,7 @@ const handler = withAdmin(async (event: AuthenticatedEvent) => {
 
   try {
     const body = JSON.parse(event.body || '{}');
-    const { name, startDate, endDate, tournamentType, scoringFormat, isMultiDay, playerCountTier, season } = body;
+    const { name, startDate, endDate, tournamentType, scoringFormat, isMultiDay, teamFormat, playerCountTier, season } = body;
 
     if (!name || !startDate || !endDate) {
       return {
@@ -26,16 +25,15 @@ const handler = withAdmin(async (event: AuthenticatedEvent) => {
       };
     }
 
-    const resolvedType: TournamentType = tournamentType || 'rollup_stableford';
-    const config = TOURNAMENT_TYPE_CONFIG[resolvedType];
-
+    // The service fills in the type's scoring format and multi-day defaults
     const tournament = await createTournament({
       name,
       startDate,
       endDate,
-      tournamentType: resolvedType,
-      scoringFormat: config.forcedScoringFormat ?? scoringFormat ?? config.defaultScoringFormat,
-      isMultiDay: isMultiDay ?? config.defaultMultiDay,
+      tournamentType: tournamentType || undefined,
+      scoringFormat,
+      isMultiDay,
+      teamFormat: teamFormat || null,
       golferCountTier: playerCountTier || '20+',
       season,
     });
@@ -50,6 +48,12 @@ const handler = withAdmin(async (event: AuthenticatedEvent) => {
     };
   } catch (error) {
     console.error('Error creating tournament:', error);
+    if (error instanceof Error && error.message === 'Tournament type not found') {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ success: false, error: error.message }),
+      };
+    }
     return {
       statusCode: 500,
       body: JSON.stringify({
@@ -164,6 +164,20 @@ describe('tournaments-update handler', () => {
     expect(res.statusCode).toBe(403);
   });
 
+  it('returns 400 for an unknown tournament type', async () => {
+    mockUpdate.mockRejectedValue(new Error('Tournament type not found'));
+
+    const res = await handler(
+      makeAuthEvent({
+        httpMethod: 'PUT',
+        body: JSON.stringify({ id: 't1', tournamentType: 'matchplay' }),
+      }),
+      mockContext,
+    );
+    expect(res.statusCode).toBe(400);
+    expect(parseBody(res).error).toBe('Tournament type not found');
+  });
+
   it('returns 500 on service error', async () => {
     mockUpdate.mockRejectedValue(new Error('DB error'));
 
@@ -14,7 +14,7 @@ const handler = withAdmin(async (event: AuthenticatedEvent) => {
 
   try {
     const body = JSON.parse(event.body || '{}');
-    const { id, name, startDate, endDate, tournamentType, scoringFormat, isMultiDay, golferCountTier, status, participatingGolferIds } = body;
+    const { id, name, startDate, endDate, tournamentType, scoringFormat, isMultiDay, teamFormat, golferCountTier, status, participatingGolferIds } = body;
 
     if (!id) {
       return {
@@ -30,6 +30,7 @@ const handler = withAdmin(async (event: AuthenticatedEvent) => {
       tournamentType,
       scoringFormat,
       isMultiDay,
+      teamFormat,
       golferCountTier,
       status,
       participatingGolferIds,
@@ -57,6 +58,12 @@ const handler = withAdmin(async (event: AuthenticatedEvent) => {
     };
   } catch (error) {
     console.error('Error updating tournament:', error);
+    if (error instanceof Error && error.message === 'Tournament type not found') {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ success: false, error: error.message }),
+      };
+    }
     return {
       statusCode: 500,
       body: JSON.stringify({
@@ -78,6 +78,9 @@ function setupDb(overrides: {
     pickHistory: {
       find: vi.fn().mockReturnValue(mockCursor(overrides.pickHistory ?? [])),
     },
+    transferPenalties: {
+      find: vi.fn().mockReturnValue(mockCursor([])),
+    },
   });
 
   vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
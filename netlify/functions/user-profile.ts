@@ -10,8 +10,20 @@ import { PickDocument, PICKS_COLLECTION, PickHistoryDocument, PICK_HISTORY_COLLE
 import { GolferDocument, GOLFERS_COLLECTION, toGolfer } from './_shared/models/Golfer';
 import { ScoreDocument, SCORES_COLLECTION } from './_shared/models/Score';
 import { TournamentDocument, TOURNAMENTS_COLLECTION } from './_shared/models/Tournament';
+import type { TransferPenaltyDocument } from './_shared/models/TransferPenalty';
 import { getWeekStart, getMonthStart, getSeasonStart, getTeamEffectiveStartDate } from './_shared/utils/dates';
 import { getActiveSeason } from './_shared/services/seasons.service';
+import {
+  TeamSnapshot,
+  buildTeamSnapshots,
+  calculateSnapshotPoints,
+  getSeasonPickHistory,
+  getSeasonTransferPenalties,
+  sumPenaltyPoints,
+  getSnapshotGolferIds,
+  getSnapshotScorePoints,
+  applyAutoSubs,
+} from './_shared/services/team.service';
 
 export const handler: Handler = withVerifiedAuth(async (event) => {
   try {
@@ -100,8 +112,17 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
       };
     }
 
-    // Get golfers for this pick
-    const golferIds = pick.golferIds.map((id) => new ObjectId(id));
+    // Rebuild every manager's point-in-time teams (needed for this user and the rankings)
+    const historyByUser = await getSeasonPickHistory(db, currentSeason);
+    const penaltiesByUser = await getSeasonTransferPenalties(db, currentSeason);
+    const snapshots = buildTeamSnapshots(pick, historyByUser.get(userId));
+
+    // Get every golfer this team has held, so sold golfers keep the points they earned
+    const heldGolferIds = new Set([
+      ...pick.golferIds.map((id) => id.toString()),
+      ...getSnapshotGolferIds(snapshots),
+    ]);
+    const golferIds = Array.from(heldGolferIds).map((id) => new ObjectId(id));
     const golfers = await db
       .collection<GolferDocument>(GOLFERS_COLLECTION)
       .find({ _id: { $in: golferIds } })
@@ -130,6 +151,10 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
       })
       .toArray();
 
+    // Bench golfers stand in for starters who didn't play that gameweek
+    const tournamentDates = new Map(tournaments.map((t) => [t._id.toString(), new Date(t.startDate)]));
+    const scoredSnapshots = applyAutoSubs(snapshots, scores, tournamentDates);
+
     // Build golfer scores map
     const golferScoresMap = new Map<string, ScoreDocument[]>();
     for (const score of scores) {
@@ -151,17 +176,24 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
     // Team can only earn points from tournaments after team creation
     const teamEffectiveStart = getTeamEffectiveStartDate(pick.createdAt);
 
-    // Build golfer data with scores
+    // Build golfer data with scores, each credited against the team held at the time
     const captainIdString = pick.captainId?.toString();
-    const golfersWithScores = golfers.map((golfer) => {
-      const golferScores = golferScoresMap.get(golfer._id.toString()) || [];
-      const isCaptain = golfer._id.toString() === captainIdString;
-      const captainMultiplier = isCaptain ? 2 : 1;
-
-      // Format scores with tournament info
-      const formattedScores = golferScores.map((score) => {
+    const viceCaptainIdString = pick.viceCaptainId?.toString();
+    const heldGolfersWithScores = golfers.map((golfer) => {
+      const golferId = golfer._id.toString();
+      const golferScores = golferScoresMap.get(golferId) || [];
+      const isCaptain = golferId === captainIdString;
+
+      // Format scores with tournament info (only while the golfer was in the team)
+      const teamPointsByTournament = new Map<string, number>();
+      const formattedScores = golferScores.flatMap((score) => {
         const tournament = tournamentMap.get(score.tournamentId.toString());
-        return {
+        const tournamentDate = tournament?.startDate || new Date();
+        const teamPoints = getSnapshotScorePoints(scoredSnapshots, golferId, score.multipliedPoints, new Date(tournamentDate));
+        if (teamPoints === null) return [];
+
+        teamPointsByTournament.set(score.tournamentId.toString(), teamPoints);
+        return [{
           tournamentId: score.tournamentId.toString(),
           tournamentName: tournament?.name || 'Unknown Tournament',
           position: score.position,
@@ -170,49 +202,54 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
           multipliedPoints: score.multipliedPoints,
           rawScore: score.rawScore,
           participated: score.participated,
-          tournamentDate: tournament?.startDate || new Date(),
-        };
+          tournamentDate,
+        }];
       }).sort((a, b) => new Date(b.tournamentDate).getTime() - new Date(a.tournamentDate).getTime());
 
-      // Filter by time period (only tournaments after team was created)
+      // Filter by time period
       const weekScores = formattedScores.filter((s) => {
         const date = new Date(s.tournamentDate);
-        return date >= weekStart && date < weekEnd && date >= teamEffectiveStart;
+        return date >= weekStart && date < weekEnd;
       });
       const monthScores = formattedScores.filter((s) => {
         const date = new Date(s.tournamentDate);
-        return date >= monthStart && date >= teamEffectiveStart;
+        return date >= monthStart;
       });
       const seasonScores = formattedScores.filter((s) => {
         const date = new Date(s.tournamentDate);
-        return date >= seasonStart && date >= teamEffectiveStart;
+        return date >= seasonStart;
       });
 
-      // Calculate totals with captain multiplier
-      const weekPoints = weekScores.reduce((sum, s) => sum + s.multipliedPoints, 0) * captainMultiplier;
-      const monthPoints = monthScores.reduce((sum, s) => sum + s.multipliedPoints, 0) * captainMultiplier;
-      const seasonPoints = seasonScores.reduce((sum, s) => sum + s.multipliedPoints, 0) * captainMultiplier;
+      // Totals already include the captain multiplier of the snapshot held at the time
+      const sumTeamPoints = (list: typeof formattedScores) =>
+        list.reduce((sum, s) => sum + (teamPointsByTournament.get(s.tournamentId) || 0), 0);
 
       return {
         golfer: toGolfer(golfer),
         isCaptain,
-        weekPoints,
-        monthPoints,
-        seasonPoints,
+        isViceCaptain: golferId === viceCaptainIdString,
+        weekPoints: sumTeamPoints(weekScores),
+        monthPoints: sumTeamPoints(monthScores),
+        seasonPoints: sumTeamPoints(seasonScores),
         weekScores,
         monthScores,
         seasonScores,
       };
     });
 
+    // Only the current golfers are listed, but totals include golfers since sold
+    const currentGolferIds = new Set(pick.golferIds.map((id) => id.toString()));
+    const golfersWithScores = heldGolfersWithScores.filter((g) => currentGolferIds.has(g.golfer.id));
+
     // Sort by season points descending
     golfersWithScores.sort((a, b) => b.seasonPoints - a.seasonPoints);
 
     // Calculate team totals
+    const penalties = penaltiesByUser.get(userId);
     const teamTotals = {
-      weekPoints: golfersWithScores.reduce((sum, g) => sum + g.weekPoints, 0),
-      monthPoints: golfersWithScores.reduce((sum, g) => sum + g.monthPoints, 0),
-      seasonPoints: golfersWithScores.reduce((sum, g) => sum + g.seasonPoints, 0),
+      weekPoints: heldGolfersWithScores.reduce((sum, g) => sum + g.weekPoints, 0) - sumPenaltyPoints(penalties, weekStart),
+      monthPoints: heldGolfersWithScores.reduce((sum, g) => sum + g.monthPoints, 0) - sumPenaltyPoints(penalties, monthStart),
+      seasonPoints: heldGolfersWithScores.reduce((sum, g) => sum + g.seasonPoints, 0) - sumPenaltyPoints(penalties, seasonStart),
       totalSpent: pick.totalSpent,
     };
 
@@ -223,7 +260,7 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
       .toArray();
 
     // Calculate rankings (simplified - in production this would be more efficient)
-    const allUserPoints = await calculateAllUserPoints(db, allPicks, tournaments, currentSeason, weekStart, monthStart, seasonStart);
+    const allUserPoints = await calculateAllUserPoints(db, allPicks, tournaments, historyByUser, penaltiesByUser, weekStart, monthStart, seasonStart);
     
     const weekRank = calculateUserRank(userId, allUserPoints, 'weekPoints');
     const monthRank = calculateUserRank(userId, allUserPoints, 'monthPoints');
@@ -343,6 +380,7 @@ export const handler: Handler = withVerifiedAuth(async (event) => {
           teamCreatedAt: pick.createdAt,
           teamEffectiveStart: teamEffectiveStart.toISOString(),
           captainId: pick.captainId?.toString() || null,
+          viceCaptainId: pick.viceCaptainId?.toString() || null,
           history: filteredHistory,
         },
       }),
@@ -361,15 +399,19 @@ async function calculateAllUserPoints(
   db: Db,
   picks: PickDocument[],
   tournaments: TournamentDocument[],
-  _currentSeason: number,
+  historyByUser: Map<string, PickHistoryDocument[]>,
+  penaltiesByUser: Map<string, TransferPenaltyDocument[]>,
   weekStart: Date,
   monthStart: Date,
   seasonStart: Date
 ): Promise<Map<string, { weekPoints: number; monthPoints: number; seasonPoints: number }>> {
+  const snapshotsByUser = new Map<string, TeamSnapshot[]>();
   const allGolferIds = new Set<string>();
   for (const pick of picks) {
-    for (const golferId of pick.golferIds) {
-      allGolferIds.add(golferId.toString());
+    const snapshots = buildTeamSnapshots(pick, historyByUser.get(pick.userId.toString()));
+    snapshotsByUser.set(pick.userId.toString(), snapshots);
+    for (const golferId of getSnapshotGolferIds(snapshots)) {
+      allGolferIds.add(golferId);
     }
   }
 
@@ -384,50 +426,18 @@ async function calculateAllUserPoints(
     })
     .toArray() as ScoreDocument[];
 
-  // Score lookup
-  const scoresByGolferTournament = new Map<string, Map<string, ScoreDocument>>();
-  for (const score of scores) {
-    const golferId = score.golferId.toString();
-    if (!scoresByGolferTournament.has(golferId)) {
-      scoresByGolferTournament.set(golferId, new Map());
-    }
-    scoresByGolferTournament.get(golferId)!.set(score.tournamentId.toString(), score);
-  }
-
   const result = new Map<string, { weekPoints: number; monthPoints: number; seasonPoints: number }>();
 
   for (const pick of picks) {
-    let weekPoints = 0;
-    let monthPoints = 0;
-    let seasonPoints = 0;
-
-    // Only count points from tournaments after team was created
-    const teamEffectiveStart = getTeamEffectiveStartDate(pick.createdAt);
-    const captainIdString = pick.captainId?.toString();
-
-    for (const golferId of pick.golferIds) {
-      const golferScores = scoresByGolferTournament.get(golferId.toString());
-      if (!golferScores) continue;
-
-      const isCaptain = golferId.toString() === captainIdString;
-      const captainMultiplier = isCaptain ? 2 : 1;
-
-      for (const [tournamentId, score] of golferScores) {
-        const tournamentDate = tournamentDates.get(tournamentId);
-        if (!tournamentDate) continue;
-
-        // Skip tournaments that occurred before team was created
-        if (tournamentDate < teamEffectiveStart) continue;
-
-        const points = (score.multipliedPoints || 0) * captainMultiplier;
-
-        if (tournamentDate >= seasonStart) seasonPoints += points;
-        if (tournamentDate >= monthStart) monthPoints += points;
-        if (tournamentDate >= weekStart) weekPoints += points;
-      }
-    }
-
-    result.set(pick.userId.toString(), { weekPoints, monthPoints, seasonPoints });
+    // Each tournament is scored against the team held at the time
+    const snapshots = snapshotsByUser.get(pick.userId.toString())!;
+    const penalties = penaltiesByUser.get(pick.userId.toString());
+
+    result.set(pick.userId.toString(), {
+      weekPoints: calculateSnapshotPoints(snapshots, scores, tournamentDates, weekStart).points - sumPenaltyPoints(penalties, weekStart),
+      monthPoints: calculateSnapshotPoints(snapshots, scores, tournamentDates, monthStart).points - sumPenaltyPoints(penalties, monthStart),
+      seasonPoints: calculateSnapshotPoints(snapshots, scores, tournamentDates, seasonStart).points - sumPenaltyPoints(penalties, seasonStart),
+    });
   }
 
   return result;
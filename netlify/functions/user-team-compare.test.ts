@@ -28,6 +28,7 @@ vi.mock('./_shared/utils/dates', () => ({
   getWeekStart: vi.fn().mockReturnValue(new Date('2025-06-07')),
   getMonthStart: vi.fn().mockReturnValue(new Date('2025-06-01')),
   getSeasonStart: vi.fn().mockReturnValue(new Date('2025-01-01')),
+  getTeamEffectiveStartDate: vi.fn().mockReturnValue(new Date('2000-01-01')),
 }));
 
 const mockSeason = {
@@ -53,6 +54,7 @@ function setupDb(overrides: {
   golfers?: any[];
   tournaments?: any[];
   scores?: any[];
+  pickHistory?: any[];
 } = {}) {
   const usersMap = new Map<string, any>();
   if (overrides.currentUser) usersMap.set(currentUserId.toString(), overrides.currentUser);
@@ -82,6 +84,9 @@ function setupDb(overrides: {
     scores: {
       find: vi.fn().mockReturnValue(mockCursor(overrides.scores ?? [])),
     },
+    pickHistory: {
+      find: vi.fn().mockReturnValue(mockCursor(overrides.pickHistory ?? [])),
+    },
   });
 
   vi.mocked(connectToDatabase).mockResolvedValue(mockDb);
@@ -12,6 +12,14 @@ import { ScoreDocument, SCORES_COLLECTION } from './_shared/models/Score';
 import { TournamentDocument, TOURNAMENTS_COLLECTION } from './_shared/models/Tournament';
 import { getWeekStart, getMonthStart, getSeasonStart } from './_shared/utils/dates';
 import { getActiveSeason } from './_shared/services/seasons.service';
+import {
+  TeamSnapshot,
+  buildTeamSnapshots,
+  getSeasonPickHistory,
+  getSnapshotGolferIds,
+  getSnapshotScorePoints,
+  applyAutoSubs,
+} from './_shared/services/team.service';
 
 interface GolferWithPoints {
   golfer: ReturnType<typeof toGolfer>;
@@ -85,7 +93,19 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
       }),
     ]);
 
-    // Get all unique golfer IDs from both teams
+    // Rebuild both managers' point-in-time teams from pick history
+    const historyByUser = await getSeasonPickHistory(db, currentSeason, [
+      new ObjectId(currentUserId),
+      new ObjectId(targetUserId),
+    ]);
+    const currentSnapshots = currentPick
+      ? buildTeamSnapshots(currentPick, historyByUser.get(currentUserId))
+      : [];
+    const targetSnapshots = targetPick
+      ? buildTeamSnapshots(targetPick, historyByUser.get(targetUserId))
+      : [];
+
+    // Get all unique golfer IDs held by either team this season
     const allGolferIds = new Set<string>();
     if (currentPick) {
       currentPick.golferIds.forEach(id => allGolferIds.add(id.toString()));
@@ -93,6 +113,9 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
     if (targetPick) {
       targetPick.golferIds.forEach(id => allGolferIds.add(id.toString()));
     }
+    for (const golferId of [...getSnapshotGolferIds(currentSnapshots), ...getSnapshotGolferIds(targetSnapshots)]) {
+      allGolferIds.add(golferId);
+    }
 
     // Get all golfers
     const golfers = await db
@@ -139,8 +162,12 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
     const monthStart = getMonthStart(now);
     const seasonStart = getSeasonStart();
 
-    // Helper to calculate golfer points
-    function calculateGolferPoints(golferId: string): { weekPoints: number; monthPoints: number; seasonPoints: number } {
+    // Helper to calculate golfer points. With snapshots, only points earned while the golfer
+    // was in that team count (including captain multiplier); without, the golfer's raw form.
+    function calculateGolferPoints(
+      golferId: string,
+      snapshots?: TeamSnapshot[]
+    ): { weekPoints: number; monthPoints: number; seasonPoints: number } {
       const golferScores = scoresByGolfer.get(golferId) || [];
       let weekPoints = 0;
       let monthPoints = 0;
@@ -150,7 +177,11 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
         const tournamentDate = tournamentDates.get(score.tournamentId.toString());
         if (!tournamentDate) continue;
 
-        const points = score.multipliedPoints || 0;
+        const points = snapshots
+          ? getSnapshotScorePoints(snapshots, golferId, score.multipliedPoints, tournamentDate)
+          : score.multipliedPoints || 0;
+        if (points === null) continue;
+
         if (tournamentDate >= seasonStart) seasonPoints += points;
         if (tournamentDate >= monthStart) monthPoints += points;
         if (tournamentDate >= weekStart) weekPoints += points;
@@ -162,7 +193,8 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
     // Build team summaries
     function buildTeamSummary(
       user: UserDocument,
-      pick: PickDocument | null
+      pick: PickDocument | null,
+      snapshots: TeamSnapshot[]
     ): TeamSummary {
       if (!pick) {
         return {
@@ -178,13 +210,16 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
 
       const golfersWithPoints: GolferWithPoints[] = pick.golferIds.map(golferId => {
         const golfer = golferMap.get(golferId.toString())!;
-        const points = calculateGolferPoints(golferId.toString());
+        const points = calculateGolferPoints(golferId.toString(), snapshots);
         return {
           golfer: toGolfer(golfer),
           ...points,
         };
       }).sort((a, b) => b.seasonPoints - a.seasonPoints);
 
+      // Totals include golfers since sold, for the weeks they were in the team
+      const heldGolferPoints = getSnapshotGolferIds(snapshots).map(id => calculateGolferPoints(id, snapshots));
+
       return {
         userId: user._id.toString(),
         firstName: user.firstName,
@@ -193,16 +228,25 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
         hasTeam: true,
         golfers: golfersWithPoints,
         totals: {
-          weekPoints: golfersWithPoints.reduce((sum, g) => sum + g.weekPoints, 0),
-          monthPoints: golfersWithPoints.reduce((sum, g) => sum + g.monthPoints, 0),
-          seasonPoints: golfersWithPoints.reduce((sum, g) => sum + g.seasonPoints, 0),
+          weekPoints: heldGolferPoints.reduce((sum, g) => sum + g.weekPoints, 0),
+          monthPoints: heldGolferPoints.reduce((sum, g) => sum + g.monthPoints, 0),
+          seasonPoints: heldGolferPoints.reduce((sum, g) => sum + g.seasonPoints, 0),
           totalSpent: pick.totalSpent,
         },
       };
     }
 
-    const currentTeam = buildTeamSummary(currentUser, currentPick);
-    const targetTeam = buildTeamSummary(targetUser, targetPick);
+    // Bench golfers stand in for starters who didn't play that gameweek
+    const currentTeam = buildTeamSummary(
+      currentUser,
+      currentPick,
+      applyAutoSubs(currentSnapshots, scores, tournamentDates)
+    );
+    const targetTeam = buildTeamSummary(
+      targetUser,
+      targetPick,
+      applyAutoSubs(targetSnapshots, scores, tournamentDates)
+    );
 
     // Find shared and unique golfers
     const currentGolferIds = new Set(currentPick?.golferIds.map(id => id.toString()) || []);
@@ -212,7 +256,7 @@ export const handler: Handler = withVerifiedAuth(async (event: AuthenticatedEven
     const uniqueToCurrentIds = [...currentGolferIds].filter(id => !targetGolferIds.has(id));
     const uniqueToTargetIds = [...targetGolferIds].filter(id => !currentGolferIds.has(id));
 
-    // Build comparison data
+    // Build comparison data (golfers' raw form, independent of either team)
     const sharedGolfers = sharedGolferIds.map(id => {
       const golfer = golferMap.get(id)!;
       const points = calculateGolferPoints(id);
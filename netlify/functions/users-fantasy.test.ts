@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ObjectId } from 'mongodb';
-import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+import { makeAuthEvent, mockContext, parseBody, mockCursor } from './__test-utils__';
 
 vi.mock('./_shared/auth', () => ({
   verifyToken: vi.fn().mockReturnValue({
@@ -21,22 +21,34 @@ vi.mock('./_shared/utils/logger', () => ({
 
 const {
   mockUsersCollection, mockPicksCollection, mockTournamentsCollection, mockScoresCollection,
-  mockDb,
+  mockPickHistoryCollection, mockTransferPenaltiesCollection, mockDb,
 } = vi.hoisted(() => {
   const mockUsersCollection = { find: vi.fn() };
   const mockPicksCollection = { find: vi.fn() };
   const mockTournamentsCollection = { find: vi.fn() };
   const mockScoresCollection = { find: vi.fn() };
+  const mockPickHistoryCollection = { find: vi.fn() };
+  const mockTransferPenaltiesCollection = { find: vi.fn() };
 
   const collectionMap: Record<string, unknown> = {
     users: mockUsersCollection,
     picks: mockPicksCollection,
     tournaments: mockTournamentsCollection,
     scores: mockScoresCollection,
+    pickHistory: mockPickHistoryCollection,
+    transferPenalties: mockTransferPenaltiesCollection,
   };
   const mockDb = { collection: vi.fn().mockImplementation((name: string) => collectionMap[name] || {}) };
 
-  return { mockUsersCollection, mockPicksCollection, mockTournamentsCollection, mockScoresCollection, mockDb };
+  return {
+    mockUsersCollection,
+    mockPicksCollection,
+    mockTournamentsCollection,
+    mockScoresCollection,
+    mockPickHistoryCollection,
+    mockTransferPenaltiesCollection,
+    mockDb,
+  };
 });
 
 vi.mock('./_shared/db', () => ({
@@ -51,7 +63,7 @@ vi.mock('./_shared/utils/dates', () => ({
   getWeekStart: vi.fn().mockReturnValue(new Date('2024-01-01')),
   getMonthStart: vi.fn().mockReturnValue(new Date('2024-01-01')),
   getSeasonStart: vi.fn().mockReturnValue(new Date('2024-01-01')),
-  getTeamEffectiveStartDate: vi.fn().mockReturnValue(new Date('2024-01-01')),
+  getTeamEffectiveStartDate: vi.fn().mockImplementation((d?: Date) => (d ? new Date(d) : new Date('2024-01-01'))),
 }));
 
 import { handler } from './users-fantasy';
@@ -98,6 +110,9 @@ describe('users-fantasy handler', () => {
         { golferId: golferId2, tournamentId: tournamentId1, multipliedPoints: 5 },
       ]),
     });
+
+    mockPickHistoryCollection.find.mockReturnValue(mockCursor([]));
+    mockTransferPenaltiesCollection.find.mockReturnValue(mockCursor([]));
   });
 
   it('returns users sorted by season points', async () => {
@@ -136,4 +151,48 @@ describe('users-fantasy handler', () => {
     expect(alice.weekRank).toBe(1);
     expect(alice.monthRank).toBe(1);
   });
+
+  it('scores each tournament against the team held at the time', async () => {
+    const soldGolferId = new ObjectId();
+    const laterTournamentId = new ObjectId();
+
+    mockTournamentsCollection.find.mockReturnValue({
+      toArray: vi.fn().mockResolvedValue([
+        { _id: tournamentId1, startDate: '2024-06-01', status: 'published', season: 2024 },
+        { _id: laterTournamentId, startDate: '2024-08-01', status: 'published', season: 2024 },
+      ]),
+    });
+    mockScoresCollection.find.mockReturnValue({
+      toArray: vi.fn().mockResolvedValue([
+        { golferId: soldGolferId, tournamentId: tournamentId1, multipliedPoints: 20 },
+        { golferId: soldGolferId, tournamentId: laterTournamentId, multipliedPoints: 50 },
+        { golferId: golferId1, tournamentId: tournamentId1, multipliedPoints: 10 },
+        { golferId: golferId1, tournamentId: laterTournamentId, multipliedPoints: 7 },
+      ]),
+    });
+    // Sold golfer (captain) held until July, then swapped for golferId2
+    mockPickHistoryCollection.find.mockReturnValue(
+      mockCursor([
+        {
+          userId: userId1,
+          golferIds: [golferId1, soldGolferId],
+          captainId: soldGolferId,
+          changedAt: new Date('2024-01-01'),
+        },
+        {
+          userId: userId1,
+          golferIds: [golferId1, golferId2],
+          captainId: null,
+          changedAt: new Date('2024-07-01'),
+        },
+      ])
+    );
+
+    const res = await handler(makeAuthEvent(), mockContext);
+    const body = parseBody(res!);
+
+    const alice = body.data.find((u: { username: string }) => u.username === 'alice');
+    // June: sold golfer as captain 20*2 + golferId1 10; August: golferId1 7 (golferId2 has no score)
+    expect(alice.seasonPoints).toBe(57);
+  });
 });
@@ -9,8 +9,17 @@ import { UserDocument, USERS_COLLECTION } from './_shared/models/User';
 import { PickDocument, PICKS_COLLECTION } from './_shared/models/Pick';
 import { ScoreDocument, SCORES_COLLECTION } from './_shared/models/Score';
 import { TournamentDocument, TOURNAMENTS_COLLECTION } from './_shared/models/Tournament';
-import { getWeekStart, getMonthStart, getSeasonStart, getTeamEffectiveStartDate } from './_shared/utils/dates';
+import { getWeekStart, getMonthStart, getSeasonStart } from './_shared/utils/dates';
 import { getActiveSeason } from './_shared/services/seasons.service';
+import {
+  TeamSnapshot,
+  buildTeamSnapshots,
+  calculateSnapshotPoints,
+  getSeasonPickHistory,
+  getSeasonTransferPenalties,
+  sumPenaltyPoints,
+  getSnapshotGolferIds,
+} from './_shared/services/team.service';
 
 interface FantasyUser {
   id: string;
@@ -49,11 +58,18 @@ export const handler: Handler = withVerifiedAuth(async () => {
 
     const pickMap = new Map(picks.map(p => [p.userId.toString(), p]));
 
-    // Get all golfer IDs from picks
+    // Rebuild each manager's point-in-time teams from pick history
+    const historyByUser = await getSeasonPickHistory(db, currentSeason);
+    const penaltiesByUser = await getSeasonTransferPenalties(db, currentSeason);
+    const snapshotsByUser = new Map<string, TeamSnapshot[]>();
+
+    // Get every golfer held by any team this season
     const allGolferIds = new Set<string>();
     for (const pick of picks) {
-      for (const golferId of pick.golferIds) {
-        allGolferIds.add(golferId.toString());
+      const snapshots = buildTeamSnapshots(pick, historyByUser.get(pick.userId.toString()));
+      snapshotsByUser.set(pick.userId.toString(), snapshots);
+      for (const golferId of getSnapshotGolferIds(snapshots)) {
+        allGolferIds.add(golferId);
       }
     }
 
@@ -68,16 +84,6 @@ export const handler: Handler = withVerifiedAuth(async () => {
       })
       .toArray();
 
-    // Create score lookup by golfer and tournament
-    const scoresByGolferTournament = new Map<string, Map<string, ScoreDocument>>();
-    for (const score of scores) {
-      const golferId = score.golferId.toString();
-      if (!scoresByGolferTournament.has(golferId)) {
-        scoresByGolferTournament.set(golferId, new Map());
-      }
-      scoresByGolferTournament.get(golferId)!.set(score.tournamentId.toString(), score);
-    }
-
     // Create tournament date lookup
     const tournamentDates = new Map(
       tournaments.map(t => [t._id.toString(), new Date(t.startDate)])
@@ -112,37 +118,12 @@ export const handler: Handler = withVerifiedAuth(async () => {
         continue;
       }
 
-      let weekPoints = 0;
-      let monthPoints = 0;
-      let seasonPoints = 0;
-
-      // Team only earns points from tournaments starting on or after their effective start date
-      const teamEffectiveStart = getTeamEffectiveStartDate(pick.createdAt);
-
-      for (const golferId of pick.golferIds) {
-        const golferScores = scoresByGolferTournament.get(golferId.toString());
-        if (!golferScores) continue;
-
-        for (const [tournamentId, score] of golferScores) {
-          const tournamentDate = tournamentDates.get(tournamentId);
-          if (!tournamentDate) continue;
-
-          // Skip tournaments before team's effective start date
-          if (tournamentDate < teamEffectiveStart) continue;
-
-          const points = score.multipliedPoints || 0;
-
-          if (tournamentDate >= seasonStart) {
-            seasonPoints += points;
-          }
-          if (tournamentDate >= monthStart) {
-            monthPoints += points;
-          }
-          if (tournamentDate >= weekStart) {
-            weekPoints += points;
-          }
-        }
-      }
+      // Each tournament is scored against the team held at the time (including captain)
+      const snapshots = snapshotsByUser.get(user._id.toString())!;
+      const penalties = penaltiesByUser.get(user._id.toString());
+      const weekPoints = calculateSnapshotPoints(snapshots, scores, tournamentDates, weekStart).points - sumPenaltyPoints(penalties, weekStart);
+      const monthPoints = calculateSnapshotPoints(snapshots, scores, tournamentDates, monthStart).points - sumPenaltyPoints(penalties, monthStart);
+      const seasonPoints = calculateSnapshotPoints(snapshots, scores, tournamentDates, seasonStart).points - sumPenaltyPoints(penalties, seasonStart);
 
       userPointsList.push({
         userId: user._id.toString(),
@@ -0,0 +1,74 @@
+import { handler } from './users-sessions-list';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockListSessions = vi.fn();
+vi.mock('./_shared/services/sessions.service', () => ({
+  listSessions: (...args: any[]) => mockListSessions(...args),
+}));
+
+const userId = '665f1c2b9d3e4a0012345678';
+
+describe('users-sessions-list handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists another user's sessions", async () => {
+    const sessions = [{ id: 's1', device: 'Safari on iPhone', current: false }];
+    mockListSessions.mockResolvedValue(sessions);
+
+    const res = await handler(
+      makeAuthEvent({ httpMethod: 'GET', queryStringParameters: { userId } }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).data).toEqual(sessions);
+    expect(mockListSessions).toHaveBeenCalledWith(userId);
+  });
+
+  it('returns 400 without a valid userId', async () => {
+    const res = await handler(
+      makeAuthEvent({ httpMethod: 'GET', queryStringParameters: { userId: 'nope' } }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(400);
+    expect(mockListSessions).not.toHaveBeenCalled();
+  });
+
+  it('rejects other methods', async () => {
+    const res = await handler(makeAuthEvent({ httpMethod: 'POST' }), mockContext);
+
+    expect(res!.statusCode).toBe(405);
+  });
+});
@@ -0,0 +1,41 @@
+// GET /.netlify/functions/users-sessions-list?userId=
+// Admin: lists the devices a user is signed in on
+
+import { ObjectId } from 'mongodb';
+import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
+import { listSessions } from './_shared/services/sessions.service';
+
+const handler = withAdmin(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  const userId = event.queryStringParameters?.userId;
+  if (!userId || !ObjectId.isValid(userId)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ success: false, error: 'A valid userId is required' }),
+    };
+  }
+
+  try {
+    // The admin's own cookie says nothing about which of this user's sessions is current
+    const sessions = await listSessions(userId);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, data: sessions }),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch sessions';
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
+
+export { handler };
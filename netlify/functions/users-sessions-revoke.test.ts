@@ -0,0 +1,92 @@
+import { handler } from './users-sessions-revoke';
+import { makeAuthEvent, mockContext, parseBody } from './__test-utils__';
+
+vi.mock('./_shared/auth', () => ({
+  verifyToken: vi.fn().mockReturnValue({
+    userId: 'user-admin-1',
+    username: 'testadmin',
+    role: 'admin',
+    phoneVerified: true,
+  }),
+}));
+
+vi.mock('./_shared/rateLimit', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({ allowed: true, remaining: 99, resetAt: new Date() }),
+  RateLimitConfig: {
+    admin: { windowMs: 60000, maxRequests: 60 },
+    default: { windowMs: 60000, maxRequests: 100 },
+    read: { windowMs: 60000, maxRequests: 120 },
+    write: { windowMs: 60000, maxRequests: 30 },
+    auth: { windowMs: 60000, maxRequests: 10 },
+    verification: { windowMs: 60000, maxRequests: 5 },
+  },
+  getRateLimitKeyFromEvent: vi.fn().mockReturnValue('ratelimit:key'),
+  rateLimitHeaders: vi.fn().mockReturnValue({}),
+  rateLimitExceededResponse: vi.fn(),
+}));
+
+vi.mock('./_shared/utils/logger', () => ({
+  createLogger: vi.fn().mockReturnValue({ info: vi.fn(), warn: vi.fn(), error: vi.fn() }),
+  getRequestId: vi.fn().mockReturnValue('req-123'),
+}));
+
+const mockRevokeSession = vi.fn();
+const mockRevokeOtherSessions = vi.fn();
+vi.mock('./_shared/services/sessions.service', () => ({
+  revokeSession: (...args: any[]) => mockRevokeSession(...args),
+  revokeOtherSessions: (...args: any[]) => mockRevokeOtherSessions(...args),
+}));
+
+const userId = '665f1c2b9d3e4a0012345678';
+const sessionId = '665f1c2b9d3e4a0087654321';
+
+describe('users-sessions-revoke handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("signs out one of a user's sessions", async () => {
+    mockRevokeSession.mockResolvedValue(undefined);
+
+    const res = await handler(
+      makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ userId, sessionId }) }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(200);
+    expect(mockRevokeSession).toHaveBeenCalledWith(userId, sessionId);
+  });
+
+  it('signs a user out of every device', async () => {
+    mockRevokeOtherSessions.mockResolvedValue(3);
+
+    const res = await handler(
+      makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ userId, all: true }) }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(200);
+    expect(parseBody(res!).data).toEqual({ revoked: 3 });
+    expect(mockRevokeOtherSessions).toHaveBeenCalledWith(userId, null);
+  });
+
+  it('returns 404 for a session that has already ended', async () => {
+    mockRevokeSession.mockRejectedValue(new Error('Session not found'));
+
+    const res = await handler(
+      makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ userId, sessionId }) }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(404);
+  });
+
+  it('returns 422 for an invalid request', async () => {
+    const res = await handler(
+      makeAuthEvent({ httpMethod: 'POST', body: JSON.stringify({ userId }) }),
+      mockContext
+    );
+
+    expect(res!.statusCode).toBe(422);
+  });
+});
@@ -0,0 +1,59 @@
+// POST /.netlify/functions/users-sessions-revoke
+// Admin: signs a user out of one device, or all of them
+
+import { z } from 'zod';
+import { withAdmin, AuthenticatedEvent } from './_shared/middleware';
+import { revokeOtherSessions, revokeSession } from './_shared/services/sessions.service';
+import { adminRevokeSessionsSchema } from './_shared/validators/sessions.validator';
+
+const handler = withAdmin(async (event: AuthenticatedEvent) => {
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ success: false, error: 'Method not allowed' }),
+    };
+  }
+
+  try {
+    const { userId, sessionId } = adminRevokeSessionsSchema.parse(JSON.parse(event.body || '{}'));
+
+    if (sessionId) {
+      await revokeSession(userId, sessionId);
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          success: true,
+          data: { revoked: 1 },
+          message: 'Session signed out',
+        }),
+      };
+    }
+
+    const revoked = await revokeOtherSessions(userId, null);
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        success: true,
+        data: { revoked },
+        message: 'Signed out of all devices',
+      }),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        statusCode: 422,
+        body: JSON.stringify({
+          success: false,
+          error: error.errors.map((e) => e.message).join('; '),
+        }),
+      };
+    }
+    const message = error instanceof Error ? error.message : 'Failed to sign out';
+    return {
+      statusCode: message === 'Session not found' ? 404 : 500,
+      body: JSON.stringify({ success: false, error: message }),
+    };
+  }
+});
+
+export { handler };
@@ -0,0 +1,145 @@
+// Migration: Move golfer stats2024/stats2025/stats2026 into statsBySeason and recalculate
+// stats for every season that has tournaments in the app
+//
+// Usage:
+//   npx tsx scripts/migrate-season-stats.ts           # Dry run
+//   npx tsx scripts/migrate-season-stats.ts --apply    # Apply changes
+
+import { MongoClient, ObjectId } from 'mongodb';
+
+const MONGODB_URI = process.env.MONGODB_URI || process.env.MONGO_URI || '';
+const isDryRun = !process.argv.includes('--apply');
+
+const LEGACY_SEASONS = ['2024', '2025', '2026'];
+
+interface SeasonStats {
+  timesScored36Plus: number;
+  timesScored32Plus: number;
+  timesFinished1st: number;
+  timesFinished2nd: number;
+  timesFinished3rd: number;
+  timesPlayed: number;
+}
+
+function calculateStats(
+  scores: { position: number | null; rawScore: number | null }[]
+): SeasonStats {
+  return {
+    timesScored36Plus: scores.filter((s) => (s.rawScore ?? 0) >= 36).length,
+    timesScored32Plus: scores.filter((s) => (s.rawScore ?? 0) >= 32).length,
+    timesFinished1st: scores.filter((s) => s.position === 1).length,
+    timesFinished2nd: scores.filter((s) => s.position === 2).length,
+    timesFinished3rd: scores.filter((s) => s.position === 3).length,
+    timesPlayed: scores.length,
+  };
+}
+
+async function main() {
+  if (!MONGODB_URI) {
+    console.error('❌ MONGODB_URI is required');
+    process.exit(1);
+  }
+
+  console.log(`\n🔄 Season Stats Migration`);
+  console.log(`   Mode: ${isDryRun ? '🔍 DRY RUN' : '⚡ APPLYING CHANGES'}\n`);
+
+  const client = new MongoClient(MONGODB_URI);
+  await client.connect();
+  const db = client.db();
+
+  const golfersCol = db.collection('golfers');
+  const tournamentsCol = db.collection('tournaments');
+  const scoresCol = db.collection('scores');
+
+  // Step 1: Copy legacy fields into statsBySeason, keeping any season already there
+  console.log(`📋 Step 1: Move legacy stats fields into statsBySeason`);
+  const legacyGolfers = await golfersCol
+    .find({ $or: LEGACY_SEASONS.map((season) => ({ [`stats${season}`]: { $exists: true } })) })
+    .toArray();
+
+  for (const golfer of legacyGolfers) {
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, ''> = {};
+    for (const season of LEGACY_SEASONS) {
+      const legacy = golfer[`stats${season}`];
+      if (legacy === undefined) continue;
+      $unset[`stats${season}`] = '';
+      if (!golfer.statsBySeason?.[season]) {
+        $set[`statsBySeason.${season}`] = legacy;
+      }
+    }
+
+    if (!isDryRun) {
+      await golfersCol.updateOne(
+        { _id: golfer._id },
+        Object.keys($set).length > 0 ? { $set, $unset } : { $unset }
+      );
+    }
+  }
+  console.log(`   ${isDryRun ? 'Would migrate' : '✅ Migrated'} ${legacyGolfers.length} golfers`);
+
+  // Step 2: Recalculate stats from scores for seasons played in the app. Seasons without
+  // tournaments keep the stats carried over above.
+  console.log(`\n📋 Step 2: Recalculate stats from scores`);
+  const seasons: number[] = await tournamentsCol.distinct('season');
+  const golferIds = (await golfersCol.find({}).project({ _id: 1 }).toArray()).map(
+    (g) => g._id as ObjectId
+  );
+
+  for (const season of seasons.sort()) {
+    const tournamentIds = (await tournamentsCol.find({ season }).project({ _id: 1 }).toArray()).map(
+      (t) => t._id
+    );
+    const scores = await scoresCol
+      .find({ tournamentId: { $in: tournamentIds }, participated: true })
+      .toArray();
+
+    const scoresByGolfer = new Map<
+      string,
+      { position: number | null; rawScore: number | null }[]
+    >();
+    for (const score of scores) {
+      const key = score.golferId.toString();
+      scoresByGolfer.set(key, [
+        ...(scoresByGolfer.get(key) ?? []),
+        { position: score.position ?? null, rawScore: score.rawScore ?? null },
+      ]);
+    }
+
+    if (!isDryRun && golferIds.length > 0) {
+      await golfersCol.bulkWrite(
+        golferIds.map((golferId) => ({
+          updateOne: {
+            filter: { _id: golferId },
+            update: {
+              $set: {
+                [`statsBySeason.${season}`]: calculateStats(
+                  scoresByGolfer.get(golferId.toString()) ?? []
+                ),
+              },
+            },
+          },
+        }))
+      );
+    }
+    console.log(
+      `   ${season}: ${tournamentIds.length} tournaments, ${scores.length} scores, ${scoresByGolfer.size} golfers played`
+    );
+  }
+
+  console.log('\n' + '='.repeat(50));
+  if (isDryRun) {
+    console.log('🔍 DRY RUN COMPLETE — no changes made');
+    console.log('   Run with --apply to execute');
+  } else {
+    console.log('✅ MIGRATION COMPLETE');
+  }
+  console.log('='.repeat(50) + '\n');
+
+  await client.close();
+}
+
+main().catch((err) => {
+  console.error('Migration failed:', err);
+  process.exit(1);
+});
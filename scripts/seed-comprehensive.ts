@@ -374,13 +374,17 @@ interface GolferDoc {
   lastName: string;
   price: number;
   isActive: boolean;
-  stats2026: {
-    timesScored36Plus: number;
-    timesFinished1st: number;
-    timesFinished2nd: number;
-    timesFinished3rd: number;
-    timesPlayed: number;
-  };
+  statsBySeason?: Record<
+    string,
+    {
+      timesScored36Plus: number;
+      timesScored32Plus: number;
+      timesFinished1st: number;
+      timesFinished2nd: number;
+      timesFinished3rd: number;
+      timesPlayed: number;
+    }
+  >;
 }
 
 interface TournamentDoc {
@@ -484,20 +488,23 @@ async function seedComprehensive() {
     const deletedUsers = await db.collection('users').deleteMany({ role: { $ne: 'admin' } });
     console.log(`   Deleted ${deletedUsers.deletedCount} non-admin users`);
 
-    // Reset golfer stats2026
+    // Reset golfer 2026 stats
     await db.collection('golfers').updateMany(
       {},
       {
         $set: {
-          'stats2026.timesScored36Plus': 0,
-          'stats2026.timesFinished1st': 0,
-          'stats2026.timesFinished2nd': 0,
-          'stats2026.timesFinished3rd': 0,
-          'stats2026.timesPlayed': 0,
+          'statsBySeason.2026': {
+            timesScored36Plus: 0,
+            timesScored32Plus: 0,
+            timesFinished1st: 0,
+            timesFinished2nd: 0,
+            timesFinished3rd: 0,
+            timesPlayed: 0,
+          },
         },
       }
     );
-    console.log('   Reset golfer stats2026');
+    console.log('   Reset golfer 2026 stats');
 
     // ============================================
     // 3. Get all active golfers
@@ -674,11 +681,11 @@ async function seedComprehensive() {
         { _id: new ObjectId(golferIdStr) },
         {
           $set: {
-            'stats2026.timesPlayed': stats.timesPlayed,
-            'stats2026.timesFinished1st': stats.timesFinished1st,
-            'stats2026.timesFinished2nd': stats.timesFinished2nd,
-            'stats2026.timesFinished3rd': stats.timesFinished3rd,
-            'stats2026.timesScored36Plus': stats.timesScored36Plus,
+            'statsBySeason.2026.timesPlayed': stats.timesPlayed,
+            'statsBySeason.2026.timesFinished1st': stats.timesFinished1st,
+            'statsBySeason.2026.timesFinished2nd': stats.timesFinished2nd,
+            'statsBySeason.2026.timesFinished3rd': stats.timesFinished3rd,
+            'statsBySeason.2026.timesScored36Plus': stats.timesScored36Plus,
           },
         }
       );
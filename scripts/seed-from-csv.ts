@@ -105,12 +105,6 @@ function getSeasonForDate(date: Date): number {
   return month < 3 ? year - 1 : year;
 }
 
-function getStatsKey(season: number): 'stats2024' | 'stats2025' | 'stats2026' {
-  if (season === 2026) return 'stats2026';
-  if (season === 2025) return 'stats2025';
-  return 'stats2024';
-}
-
 function parseCsv(csvText: string): CsvRow[] {
   const lines = csvText.split('\n');
   const rows: CsvRow[] = [];
@@ -306,9 +300,7 @@ async function seedFromCsv() {
         picture: '',
         price: 1_000_000, // Placeholder, recalculated later
         isActive: true,
-        stats2024: defaultStats(),
-        stats2025: defaultStats(),
-        stats2026: defaultStats(),
+        statsBySeason: {},
         createdAt: now,
         updatedAt: now,
       };
@@ -323,13 +315,10 @@ async function seedFromCsv() {
     let tournamentsCreated = 0;
     let scoresEntered = 0;
 
-    // Track stats per golfer per season
-    const golferStats = new Map<
-      string,
-      { stats2024: GolferSeasonStats; stats2025: GolferSeasonStats }
-    >();
+    // Track stats per golfer, keyed by season name
+    const golferStats = new Map<string, Record<string, GolferSeasonStats>>();
     for (const [_name, id] of golferMap) {
-      golferStats.set(id.toString(), { stats2024: defaultStats(), stats2025: defaultStats() });
+      golferStats.set(id.toString(), {});
     }
 
     const MULTIPLIERS: Record<string, number> = {
@@ -400,18 +389,17 @@ async function seedFromCsv() {
         scoresEntered++;
 
         // Accumulate stats
-        const statsKey = getStatsKey(seasonNumber);
-        const key = statsKey === 'stats2024' ? 'stats2024' : 'stats2025';
         const gs = golferStats.get(golferId.toString());
         if (gs) {
-          gs[key].timesPlayed++;
+          const stats = (gs[String(seasonNumber)] ??= defaultStats());
+          stats.timesPlayed++;
           const earned3Bonus = getBonusPoints(row.rawScore, scoringFormat, isMultiDay) >= 3;
           const earned1Bonus = getBonusPoints(row.rawScore, scoringFormat, isMultiDay) >= 1;
-          if (earned3Bonus) gs[key].timesScored36Plus++;
-          if (earned1Bonus) gs[key].timesScored32Plus++;
-          if (row.position === 1) gs[key].timesFinished1st++;
-          if (row.position === 2) gs[key].timesFinished2nd++;
-          if (row.position === 3) gs[key].timesFinished3rd++;
+          if (earned3Bonus) stats.timesScored36Plus++;
+          if (earned1Bonus) stats.timesScored32Plus++;
+          if (row.position === 1) stats.timesFinished1st++;
+          if (row.position === 2) stats.timesFinished2nd++;
+          if (row.position === 3) stats.timesFinished3rd++;
         }
       }
 
@@ -430,14 +418,13 @@ async function seedFromCsv() {
       const gs = golferStats.get(golferId.toString());
       if (!gs) continue;
 
-      const price = calculatePrice(gs.stats2024, gs.stats2025);
+      const price = calculatePrice(gs['2024'] ?? defaultStats(), gs['2025'] ?? defaultStats());
 
       await db.collection('golfers').updateOne(
         { _id: golferId },
         {
           $set: {
-            stats2024: gs.stats2024,
-            stats2025: gs.stats2025,
+            statsBySeason: gs,
             price,
             updatedAt: new Date(),
           },
@@ -322,8 +322,7 @@ interface GolferDocument {
   picture: string;
   price: number;
   isActive: boolean;
-  stats2025: GolferStats;
-  stats2026: GolferStats;
+  statsBySeason: Record<string, GolferStats>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -380,8 +379,10 @@ async function seedGolfers() {
         picture: getAvatarUrl(firstName, lastName),
         price: generatePrice(tier),
         isActive: Math.random() > 0.05, // 95% active
-        stats2025: generateStats(tier, false),
-        stats2026: generateStats(tier, true),
+        statsBySeason: {
+          '2025': generateStats(tier, false),
+          '2026': generateStats(tier, true),
+        },
         createdAt: now,
         updatedAt: now,
       };
@@ -422,12 +423,11 @@ async function seedGolfers() {
       samples.forEach((g) => {
         const priceStr = `£${(g.price / 1_000_000).toFixed(1)}M`;
         console.log(`   ${g.firstName} ${g.lastName} - ${priceStr}`);
-        console.log(
-          `      2025: ${g.stats2025.timesPlayed} played, ${g.stats2025.timesFinished1st} wins, ${g.stats2025.timesScored36Plus} x 36+`
-        );
-        console.log(
-          `      2026: ${g.stats2026.timesPlayed} played, ${g.stats2026.timesFinished1st} wins, ${g.stats2026.timesScored36Plus} x 36+`
-        );
+        Object.entries(g.statsBySeason).forEach(([season, stats]) => {
+          console.log(
+            `      ${season}: ${stats.timesPlayed} played, ${stats.timesFinished1st} wins, ${stats.timesScored36Plus} x 36+`
+          );
+        });
       });
     }
 
@@ -50,6 +50,14 @@ async function seed() {
     await db.collection('seasons').createIndex({ isActive: 1 });
     await db.collection('seasons').createIndex({ name: 1 }, { unique: true });
 
+    // Season rollovers indexes (only one rollover in progress at a time)
+    await db
+      .collection('seasonRollovers')
+      .createIndex(
+        { status: 1 },
+        { unique: true, partialFilterExpression: { status: 'in_progress' } }
+      );
+
     // --- Optimized compound & coverage indexes ---
 
     // Tournaments - compound for season+status queries (leaderboard, picks, my-team)
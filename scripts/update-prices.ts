@@ -182,6 +182,25 @@ async function updatePrices() {
         updated++;
       }
       console.log(`\n✅ Updated ${updated} golfer prices`);
+
+      // Record the moves in the price history against the active season
+      const activeSeason = await db.collection('seasons').findOne({ isActive: true });
+      const season = parseInt(activeSeason?.name, 10) || new Date().getFullYear();
+      const changedAt = new Date();
+      const history = updates
+        .filter((u) => u.newPrice !== u.oldPrice)
+        .map((u) => ({
+          golferId: u.id,
+          season,
+          oldPrice: u.oldPrice,
+          newPrice: u.newPrice,
+          source: 'script',
+          changedAt,
+        }));
+      if (history.length > 0) {
+        await db.collection('golferPriceHistory').insertMany(history);
+      }
+      console.log(`📜 Recorded ${history.length} price changes in golferPriceHistory`);
     } else {
       console.log('\n🔍 Dry run complete — no changes written to database');
     }
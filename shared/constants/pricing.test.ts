@@ -7,6 +7,10 @@ import {
   MEAN_AVG_PTS,
   MIN_SAMPLE_SIZE,
   calculatePrice,
+  calculateWeeklyPrice,
+  MAX_WEEKLY_PRICE_STEPS,
+  PRICE_CHANGE_STEP,
+  calculateSellingPrice,
 } from './pricing';
 
 describe('pricing constants', () => {
@@ -109,3 +113,57 @@ describe('calculatePrice', () => {
     });
   });
 });
+
+describe('calculateWeeklyPrice', () => {
+  const price = 8_000_000;
+
+  it('holds the price for average form and no net transfers', () => {
+    expect(calculateWeeklyPrice(price, 1, 0)).toBe(price);
+  });
+
+  it('holds the price without recent scores or transfers', () => {
+    expect(calculateWeeklyPrice(price, null, 0)).toBe(price);
+  });
+
+  it('rises by the maximum for strong form and heavy transfers in', () => {
+    expect(calculateWeeklyPrice(price, 3, 0.5)).toBe(
+      price + MAX_WEEKLY_PRICE_STEPS * PRICE_CHANGE_STEP
+    );
+  });
+
+  it('falls by the maximum for no points and heavy transfers out', () => {
+    expect(calculateWeeklyPrice(price, 0, -0.5)).toBe(
+      price - MAX_WEEKLY_PRICE_STEPS * PRICE_CHANGE_STEP
+    );
+  });
+
+  it('weighs form and transfers equally', () => {
+    // Good form is cancelled out by managers selling
+    expect(calculateWeeklyPrice(price, 2, -0.1)).toBe(price);
+  });
+
+  it('never leaves the price range', () => {
+    expect(calculateWeeklyPrice(MAX_PRICE, 3, 1)).toBe(MAX_PRICE);
+    expect(calculateWeeklyPrice(MIN_PRICE, 0, -1)).toBe(MIN_PRICE);
+  });
+});
+
+describe('calculateSellingPrice', () => {
+  it('sells at the purchase price when the price has not moved', () => {
+    expect(calculateSellingPrice(8_000_000, 8_000_000)).toBe(8_000_000);
+  });
+
+  it('passes on the whole of a fall', () => {
+    expect(calculateSellingPrice(8_000_000, 7_600_000)).toBe(7_600_000);
+  });
+
+  it('keeps half of a rise', () => {
+    expect(calculateSellingPrice(8_000_000, 8_400_000)).toBe(8_200_000);
+  });
+
+  it('rounds the kept profit down', () => {
+    // Half of a £300K rise is £150K, which rounds down to £100K
+    expect(calculateSellingPrice(8_000_000, 8_300_000)).toBe(8_100_000);
+    expect(calculateSellingPrice(8_000_000, 8_100_000)).toBe(8_000_000);
+  });
+});
@@ -32,3 +32,52 @@ export function calculatePrice(normalizedScore: number): number {
   const rounded = Math.round(rawPrice / ROUND_TO) * ROUND_TO;
   return Math.min(Math.max(rounded, MIN_PRICE), MAX_PRICE);
 }
+
+// Weekly price changes
+
+/** Weekly price moves are made in £100K steps */
+export const PRICE_CHANGE_STEP = ROUND_TO;
+
+/** A golfer's price moves by at most 3 steps (£300K) a week */
+export const MAX_WEEKLY_PRICE_STEPS = 3;
+
+/** Number of most recent scores that make up a golfer's form */
+export const FORM_WINDOW = 5;
+
+/** Net transfers in by this share of managers moves the price the full amount */
+export const FULL_TRANSFER_SHARE = 0.1;
+
+/**
+ * Calculate a golfer's price for the coming week from form and transfers.
+ * `formRatio` is recent average points relative to the field average (1 = average,
+ * null = no recent scores); `transferShare` is net transfers in as a share of all
+ * managers (negative when more sold than bought). Both count equally, and the move
+ * is bounded to MAX_WEEKLY_PRICE_STEPS steps within [MIN_PRICE, MAX_PRICE].
+ */
+export function calculateWeeklyPrice(
+  currentPrice: number,
+  formRatio: number | null,
+  transferShare: number
+): number {
+  const formSignal = formRatio === null ? 0 : Math.max(-1, Math.min(1, formRatio - 1));
+  const transferSignal = Math.max(-1, Math.min(1, transferShare / FULL_TRANSFER_SHARE));
+  const steps = Math.round(((formSignal + transferSignal) / 2) * MAX_WEEKLY_PRICE_STEPS);
+  const price = currentPrice + steps * PRICE_CHANGE_STEP;
+  return Math.min(Math.max(price, MIN_PRICE), MAX_PRICE);
+}
+
+// Selling prices
+
+/** Share of a price rise a manager keeps when selling; the rest is lost as a sell-on fee */
+export const SELL_ON_PROFIT_SHARE = 0.5;
+
+/**
+ * What a golfer sells for, given what the manager paid. Price falls are passed on in
+ * full; a manager keeps SELL_ON_PROFIT_SHARE of any rise, rounded down to ROUND_TO.
+ */
+export function calculateSellingPrice(purchasePrice: number, currentPrice: number): number {
+  if (currentPrice <= purchasePrice) return currentPrice;
+  const keptProfit =
+    Math.floor(((currentPrice - purchasePrice) * SELL_ON_PROFIT_SHARE) / ROUND_TO) * ROUND_TO;
+  return purchasePrice + keptProfit;
+}
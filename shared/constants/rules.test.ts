@@ -10,10 +10,6 @@ import {
   USERNAME_MAX_LENGTH,
   PHONE_NUMBER_REGEX,
   VERIFICATION_CODE_LENGTH,
-  POSITION_POINTS,
-  STABLEFORD_THRESHOLDS,
-  MEDAL_THRESHOLDS,
-  BONUS_POINTS,
 } from './rules';
 
 describe('team size constants', () => {
@@ -98,30 +94,3 @@ describe('PHONE_NUMBER_REGEX', () => {
     expect(PHONE_NUMBER_REGEX.test('')).toBe(false);
   });
 });
-
-describe('scoring constants', () => {
-  it('POSITION_POINTS maps 1st/2nd/3rd correctly', () => {
-    expect(POSITION_POINTS[1]).toBe(10);
-    expect(POSITION_POINTS[2]).toBe(7);
-    expect(POSITION_POINTS[3]).toBe(5);
-  });
-
-  it('POSITION_POINTS has exactly 3 entries', () => {
-    expect(Object.keys(POSITION_POINTS)).toHaveLength(3);
-  });
-
-  it('STABLEFORD_THRESHOLDS has HIGH=36 and LOW=32', () => {
-    expect(STABLEFORD_THRESHOLDS.HIGH).toBe(36);
-    expect(STABLEFORD_THRESHOLDS.LOW).toBe(32);
-  });
-
-  it('MEDAL_THRESHOLDS has HIGH=72 and LOW=76', () => {
-    expect(MEDAL_THRESHOLDS.HIGH).toBe(72);
-    expect(MEDAL_THRESHOLDS.LOW).toBe(76);
-  });
-
-  it('BONUS_POINTS has HIGH=3 and LOW=1', () => {
-    expect(BONUS_POINTS.HIGH).toBe(3);
-    expect(BONUS_POINTS.LOW).toBe(1);
-  });
-});
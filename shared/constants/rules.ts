@@ -3,6 +3,7 @@
 export const BUDGET_CAP = 50_000_000; // $50m budget
 export const MAX_GOLFERS = 6; // Exactly 6 golfers per team
 export const MIN_GOLFERS = 6; // Must have exactly 6 golfers
+export const MAX_BENCH_GOLFERS = 3; // Optional substitutes, in priority order
 
 // Backwards compatibility aliases
 export const MAX_PLAYERS = MAX_GOLFERS;
@@ -17,12 +18,21 @@ export const PASSWORD_MIN_LENGTH = 8;
 export const USERNAME_MIN_LENGTH = 3;
 export const USERNAME_MAX_LENGTH = 20;
 
+// Season chip allowance and effects
+export const CHIP_ALLOWANCE = { wildcard: 1, tripleCaptain: 1, benchBoost: 1 } as const;
+export const CAPTAIN_MULTIPLIER = 2;
+export const TRIPLE_CAPTAIN_MULTIPLIER = 3;
+
+// Private leagues
+export const LEAGUE_NAME_MIN_LENGTH = 3;
+export const LEAGUE_NAME_MAX_LENGTH = 40;
+export const LEAGUE_INVITE_CODE_LENGTH = 8;
+export const MAX_LEAGUES_PER_USER = 10;
+
+// Head-to-head league points
+export const H2H_WIN_POINTS = 3;
+export const H2H_DRAW_POINTS = 1;
+
 // Phone verification
 export const PHONE_NUMBER_REGEX = /^\+447\d{9}$/;
 export const VERIFICATION_CODE_LENGTH = 6;
-
-// Scoring constants
-export const POSITION_POINTS: Record<number, number> = { 1: 10, 2: 7, 3: 5 };
-export const STABLEFORD_THRESHOLDS = { HIGH: 36, LOW: 32 } as const;
-export const MEDAL_THRESHOLDS = { HIGH: 72, LOW: 76 } as const;
-export const BONUS_POINTS = { HIGH: 3, LOW: 1 } as const;
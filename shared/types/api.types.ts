@@ -1,6 +1,6 @@
 // API request/response types
 
-import type { Golfer, GolferSeasonStats } from './golfer.types';
+import type { Golfer, GolferSeasonStats, GolferStatsBySeason } from './golfer.types';
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -107,8 +107,8 @@ export interface GolferListItem {
   picture: string;
   price: number;
   isActive: boolean;
-  stats2025: GolferStats;
-  stats2026?: GolferStats;
+  statsBySeason: GolferStatsBySeason;
+  stats?: GolferStats; // For the season requested with ?season=
   points?: GolferPoints;
 }
 
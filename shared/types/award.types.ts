@@ -0,0 +1,37 @@
+// Manager of the week / month awards
+
+export type AwardType = 'week' | 'month';
+
+export const AWARD_TITLES: Record<AwardType, string> = {
+  week: 'Manager of the Week',
+  month: 'Manager of the Month',
+};
+
+export interface Award {
+  id: string;
+  userId: string;
+  type: AwardType;
+  season: number;
+  label: string; // "Gameweek 5", "April 2026"
+  periodStart: Date;
+  periodEnd: Date;
+  points: number;
+  shared: boolean; // Tied on points with another manager, who holds the same award
+  overridden: boolean; // Set by an admin rather than calculated
+  awardedBy: string | null;
+  awardedAt: Date;
+}
+
+// An award with the manager's name, for admin listings
+export interface AwardWithManager extends Award {
+  firstName: string;
+  lastName: string;
+  username: string;
+}
+
+export interface OverrideAwardDTO {
+  type: AwardType;
+  season: number;
+  periodStart: Date;
+  userIds: string[]; // Several managers share the award
+}
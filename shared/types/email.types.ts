@@ -0,0 +1,9 @@
+// Email preference types
+
+export interface EmailPreferences {
+  weeklyDigest: boolean; // Summary emailed once the last tournament of a gameweek is scored
+}
+
+export const DEFAULT_EMAIL_PREFERENCES: EmailPreferences = {
+  weeklyDigest: true,
+};
@@ -10,10 +10,52 @@ export interface GolferSeasonStats {
   timesPlayed: number; // Total times played
 }
 
-// Alias for backwards compatibility
-export type Golfer2024Stats = GolferSeasonStats;
-export type Golfer2025Stats = GolferSeasonStats;
-export type Golfer2026Stats = GolferSeasonStats;
+// Season stats keyed by season name, e.g. { '2025': {...}, '2026': {...} }
+export type GolferStatsBySeason = Record<string, GolferSeasonStats>;
+
+export const EMPTY_GOLFER_SEASON_STATS: GolferSeasonStats = {
+  timesScored36Plus: 0,
+  timesScored32Plus: 0,
+  timesFinished1st: 0,
+  timesFinished2nd: 0,
+  timesFinished3rd: 0,
+  timesPlayed: 0,
+};
+
+// Tally a golfer's season stats from the scores of events they played
+export function calculateGolferSeasonStats(
+  scores: { position: number | null; rawScore: number | null }[]
+): GolferSeasonStats {
+  return {
+    timesScored36Plus: scores.filter((s) => (s.rawScore ?? 0) >= 36).length,
+    timesScored32Plus: scores.filter((s) => (s.rawScore ?? 0) >= 32).length,
+    timesFinished1st: scores.filter((s) => s.position === 1).length,
+    timesFinished2nd: scores.filter((s) => s.position === 2).length,
+    timesFinished3rd: scores.filter((s) => s.position === 3).length,
+    timesPlayed: scores.length,
+  };
+}
+
+// Stats for one season, or every season added together for 'overall'
+export function getGolferSeasonStats(
+  statsBySeason: GolferStatsBySeason | undefined,
+  season: string
+): GolferSeasonStats {
+  if (season !== 'overall') {
+    return statsBySeason?.[season] ?? EMPTY_GOLFER_SEASON_STATS;
+  }
+  return Object.values(statsBySeason ?? {}).reduce(
+    (total, stats) => ({
+      timesScored36Plus: total.timesScored36Plus + stats.timesScored36Plus,
+      timesScored32Plus: total.timesScored32Plus + stats.timesScored32Plus,
+      timesFinished1st: total.timesFinished1st + stats.timesFinished1st,
+      timesFinished2nd: total.timesFinished2nd + stats.timesFinished2nd,
+      timesFinished3rd: total.timesFinished3rd + stats.timesFinished3rd,
+      timesPlayed: total.timesPlayed + stats.timesPlayed,
+    }),
+    EMPTY_GOLFER_SEASON_STATS
+  );
+}
 
 export interface Golfer {
   id: string;
@@ -21,10 +63,9 @@ export interface Golfer {
   lastName: string;
   picture: string;
   price: number;
+  handicapIndex: number | null; // World Handicap System index; null if not recorded
   isActive: boolean;
-  stats2024: Golfer2024Stats;
-  stats2025: Golfer2025Stats;
-  stats2026: Golfer2026Stats;
+  statsBySeason: GolferStatsBySeason; // Materialised from scores as results are entered
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,10 +75,9 @@ export interface CreateGolferDTO {
   lastName: string;
   picture: string;
   price: number;
+  handicapIndex?: number | null;
   isActive?: boolean;
-  stats2024?: Golfer2024Stats;
-  stats2025?: Golfer2025Stats;
-  stats2026?: Golfer2026Stats;
+  statsBySeason?: GolferStatsBySeason;
 }
 
 export interface UpdateGolferDTO {
@@ -45,16 +85,94 @@ export interface UpdateGolferDTO {
   lastName?: string;
   picture?: string;
   price?: number;
+  handicapIndex?: number | null;
   isActive?: boolean;
-  stats2024?: Golfer2024Stats;
-  stats2025?: Golfer2025Stats;
-  stats2026?: Golfer2026Stats;
+  statsBySeason?: GolferStatsBySeason;
+}
+
+// Where a price change came from
+// weekly: scheduled form/transfer move; admin: golfer edit; recalculation: season reprice;
+// script: db:update-prices
+export type PriceChangeSource = 'weekly' | 'admin' | 'recalculation' | 'script';
+
+// An audited change to a golfer's price
+export interface GolferPriceChange {
+  id: string;
+  golferId: string;
+  season: number;
+  oldPrice: number;
+  newPrice: number;
+  change: number;
+  source: PriceChangeSource;
+  formRatio: number | null;
+  netTransfers: number | null;
+  changedAt: Date;
+}
+
+// A golfer's price and fantasy points across a season, for charting
+export interface GolferPricePoint {
+  date: Date;
+  price: number;
+  source: PriceChangeSource | null; // null for the opening price
+}
+
+export interface GolferPointsPoint {
+  date: Date;
+  tournamentName: string;
+  points: number;
+  cumulativePoints: number;
+}
+
+export interface GolferPriceSeries {
+  golferId: string;
+  season: number;
+  startDate: Date;
+  endDate: Date;
+  currentPrice: number;
+  prices: GolferPricePoint[];
+  points: GolferPointsPoint[];
+}
+
+// Handicap index limits under the World Handicap System (plus handicaps are negative)
+export const MIN_HANDICAP_INDEX = -10;
+export const MAX_HANDICAP_INDEX = 54;
+
+// Where a handicap change came from
+// admin: golfer edit; import: handicap CSV upload
+export type HandicapChangeSource = 'admin' | 'import';
+
+// A golfer's handicap index from a given date
+export interface GolferHandicapEntry {
+  id: string;
+  golferId: string;
+  handicapIndex: number;
+  effectiveDate: Date;
+  source: HandicapChangeSource;
+  recordedAt: Date;
+}
+
+export interface GolferHandicapHistory {
+  golferId: string;
+  currentHandicap: number | null;
+  entries: GolferHandicapEntry[]; // Oldest first
+}
+
+// One row of a handicap CSV import, matched to a golfer by name
+export interface HandicapImportRow {
+  firstName: string;
+  lastName: string;
+  handicapIndex: number;
+  effectiveDate?: Date;
+}
+
+export interface HandicapImportResult {
+  recorded: number; // History entries written
+  updated: number; // Golfers whose current handicap changed
+  unmatched: string[]; // Names with no matching golfer
 }
 
 // Backwards compatibility aliases (map old names to new)
 export type golfer = Golfer;
 export type PlayerSeasonStats = GolferSeasonStats;
-export type Player2025Stats = Golfer2025Stats;
-export type Player2026Stats = Golfer2026Stats;
 export type CreatePlayerDTO = CreateGolferDTO;
 export type UpdatePlayerDTO = UpdateGolferDTO;
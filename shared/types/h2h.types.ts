@@ -0,0 +1,49 @@
+// Head-to-head league types
+
+export type H2HResult = 'home' | 'away' | 'draw' | 'bye' | 'pending';
+
+export interface H2HFixture {
+  id: string;
+  season: number;
+  gameweek: number;
+  weekStart: Date;
+  homeUserId: string;
+  awayUserId: string | null; // null = bye week
+  createdAt: Date;
+}
+
+export interface H2HManager {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+}
+
+export interface H2HFixtureResult {
+  id: string;
+  gameweek: number;
+  home: H2HManager;
+  away: H2HManager | null;
+  homePoints: number;
+  awayPoints: number | null;
+  result: H2HResult;
+}
+
+export interface H2HTableEntry extends H2HManager {
+  rank: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  leaguePoints: number;
+}
+
+export interface H2HResultsResponse {
+  season: number;
+  gameweek: number;
+  totalGameweeks: number;
+  fixtures: H2HFixtureResult[];
+  table: H2HTableEntry[];
+}
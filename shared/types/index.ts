@@ -7,4 +7,10 @@ export * from './score.types';
 export * from './tournament.types';
 export * from './settings.types';
 export * from './season.types';
+export * from './league.types';
+export * from './h2h.types';
+export * from './award.types';
+export * from './notification.types';
+export * from './sms.types';
+export * from './email.types';
 export * from './api.types';
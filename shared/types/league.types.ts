@@ -0,0 +1,20 @@
+// League domain types
+
+export interface League {
+  id: string;
+  name: string;
+  inviteCode: string; // Shared with friends to join the league
+  ownerId: string;
+  memberIds: string[];
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateLeagueDTO {
+  name: string;
+}
+
+export interface JoinLeagueDTO {
+  inviteCode: string;
+}
@@ -0,0 +1,24 @@
+// In-app notification types
+
+export type NotificationType =
+  | 'tournament_published'
+  | 'transfers_opened'
+  | 'transfers_locked'
+  | 'captain_missed'
+  | 'rank_changed';
+
+export interface UserNotification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null; // In-app path to open, e.g. /tournaments/<id>
+  read: boolean;
+  createdAt: Date;
+}
+
+export interface NotificationList {
+  notifications: UserNotification[]; // Newest first
+  unreadCount: number;
+}
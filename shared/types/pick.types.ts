@@ -2,24 +2,87 @@
 
 import type { Golfer } from './golfer.types';
 
+// Season chips — each manager gets a limited allowance per season
+export type ChipType = 'wildcard' | 'tripleCaptain' | 'benchBoost';
+
+export interface ChipUsage {
+  chip: ChipType;
+  weekStart: Date; // Gameweek the chip applies to
+  playedAt: Date;
+}
+
+export interface ChipStatus {
+  chip: ChipType;
+  allowance: number;
+  remaining: number;
+  activeWeekStart: Date | null; // Set while a played chip is current or upcoming
+}
+
 export interface Pick {
   id: string;
   userId: string;
   golferIds: string[];
+  benchIds: string[]; // Substitutes in priority order, outside the starting six
   captainId: string | null;
-  totalSpent: number;
+  viceCaptainId: string | null; // Takes the captain multiplier in weeks the captain doesn't play
+  totalSpent: number; // Purchase prices of the whole squad, bench included
+  purchasePrices: Record<string, number>; // What was paid for each squad golfer, by golfer id
+  bank: number | null; // Unspent budget; null for teams saved before purchase prices were kept
   season: number;
+  chips: ChipUsage[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Points deducted for swaps beyond the weekly transfer allowance
+export interface TransferPenalty {
+  id: string;
+  userId: string;
+  season: number;
+  weekStart: Date; // Gameweek the deduction counts against
+  swaps: number;
+  points: number;
+  createdAt: Date;
+}
+
+export interface TransferStatus {
+  transfersOpen: boolean;
+  unlimited: boolean; // Pre-season, before the team's first gameweek, or during a Wildcard week
+  transfersUsed: number;
+  maxTransfers: number;
+  maxPlayersPerTransfer: number;
+  penaltyPerSwap: number; // 0 blocks transfers beyond the weekly limit
+}
+
+// A squad golfer's purchase price against what they would sell for today
+export interface SquadGolferValue {
+  golferId: string;
+  purchasePrice: number;
+  currentPrice: number;
+  sellingPrice: number;
+  profit: number; // sellingPrice - purchasePrice
+}
+
+export interface SquadValue {
+  bank: number;
+  teamValue: number; // Selling prices of the squad, bench included
+  golfers: SquadGolferValue[];
+}
+
 export interface PickWithGolfers extends Omit<Pick, 'golferIds'> {
   golfers: Golfer[];
+  bench: Golfer[];
+  squadValue: SquadValue;
+  chipStatus: ChipStatus[];
+  transferStatus: TransferStatus;
 }
 
 export interface SavePicksRequest {
   golferIds: string[];
+  benchIds?: string[];
   captainId?: string | null;
+  viceCaptainId?: string | null;
+  chip?: ChipType;
 }
 
 export interface UserPicksSummary {
@@ -35,6 +98,9 @@ export interface PickHistory {
   id: string;
   userId: string;
   golferIds: string[];
+  benchIds: string[];
+  captainId: string | null;
+  viceCaptainId: string | null;
   totalSpent: number;
   season: number;
   changedAt: Date;
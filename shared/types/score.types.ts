@@ -6,8 +6,10 @@ export interface Score {
   golferId: string;
   participated: boolean; // Did the golfer participate in this tournament?
   position: number | null; // 1, 2, 3 for podium, null for others
+  tied: boolean; // position shared with other golfers (e.g. T2 on countback)
+  partnerIds: string[]; // teammates sharing this result in a team-format event
   rawScore: number | null; // Actual stableford/medal score (required if participated)
-  basePoints: number; // Points from position (10, 7, 5, or 0)
+  basePoints: number; // Points from position (10, 7, 5, or 0), shared out for split ties
   bonusPoints: number; // 3 or 1 based on rawScore thresholds, 0 otherwise
   multipliedPoints: number; // (basePoints + bonusPoints) * multiplier
   createdAt: Date;
@@ -19,6 +21,7 @@ export interface GolferTournamentScore {
   golferName: string;
   participated: boolean;
   position: number | null;
+  tied: boolean;
   rawScore: number | null;
   basePoints: number;
   bonusPoints: number;
@@ -37,15 +40,19 @@ export interface EnterScoreRequest {
   golferId: string;
   participated: boolean;
   position: number | null;
+  tied?: boolean;
   rawScore: number | null;
 }
 
 export interface BulkEnterScoresRequest {
   tournamentId: string;
+  // One entry per golfer, or per pairing in a team-format event: golferId plus partnerIds
   scores: Array<{
     golferId: string;
+    partnerIds?: string[];
     participated: boolean;
     position: number | null;
+    tied?: boolean;
     rawScore: number | null;
   }>;
 }
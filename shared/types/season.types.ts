@@ -28,3 +28,112 @@ export interface UpdateSeasonDTO {
   isActive?: boolean;
   status?: SeasonStatus;
 }
+
+// Season rollover - closing one season and opening the next as a single resumable job
+
+export type SeasonRolloverStep =
+  | 'closeSeason'
+  | 'archiveStandings'
+  | 'recalculatePrices'
+  | 'createSeason'
+  | 'resetSettings'
+  | 'carryOverTeams';
+
+// In the order they run
+export const SEASON_ROLLOVER_STEPS: SeasonRolloverStep[] = [
+  'closeSeason',
+  'archiveStandings',
+  'recalculatePrices',
+  'createSeason',
+  'resetSettings',
+  'carryOverTeams',
+];
+
+export const SEASON_ROLLOVER_STEP_LABELS: Record<SeasonRolloverStep, string> = {
+  closeSeason: 'Close the current season',
+  archiveStandings: 'Archive final standings',
+  recalculatePrices: 'Recalculate opening prices',
+  createSeason: 'Create and activate the new season',
+  resetSettings: 'Reset transfer and team settings',
+  carryOverTeams: 'Carry over teams',
+};
+
+export interface SeasonRollover {
+  id: string;
+  fromSeasonId: string;
+  fromSeasonName: string;
+  toSeasonId: string | null; // Set once the new season has been created
+  toSeasonName: string;
+  startDate: Date;
+  endDate: Date;
+  carryOverTeams: boolean;
+  status: 'in_progress' | 'complete';
+  completedSteps: SeasonRolloverStep[];
+  teamsCarriedOver: number;
+  teamsNotCarriedOver: number; // Squads with retired golfers or over budget at the new prices
+  lastError: string | null;
+  startedBy: string;
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface StartSeasonRolloverDTO {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  carryOverTeams: boolean;
+}
+
+// Season archive - a closed season's tables, frozen when it is marked complete
+
+export interface ArchivedManager {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+}
+
+export interface ArchivedStanding extends ArchivedManager {
+  rank: number;
+  totalPoints: number;
+  teamValue: number;
+  eventsPlayed: number;
+}
+
+// A month or gameweek and the manager(s) who topped it; ties share the win
+export interface ArchivedPeriodWinner {
+  label: string; // "April 2026", "Gameweek 3"
+  startDate: Date;
+  endDate: Date;
+  gameweek?: number;
+  points: number;
+  winners: ArchivedManager[];
+}
+
+export interface SeasonArchive {
+  id: string;
+  seasonName: string;
+  startDate: Date | null; // Null for archives taken before periods were recorded
+  endDate: Date | null;
+  standings: ArchivedStanding[];
+  monthlyWinners: ArchivedPeriodWinner[];
+  gameweekWinners: ArchivedPeriodWinner[];
+  archivedAt: Date;
+}
+
+export interface HallOfFameEntry {
+  seasonName: string;
+  label: string;
+  points: number;
+  winners: ArchivedManager[];
+}
+
+export interface HallOfFame {
+  champions: HallOfFameEntry[]; // Newest season first
+  managersOfTheMonth: HallOfFameEntry[];
+  records: {
+    highestSeasonScore: HallOfFameEntry | null;
+    highestMonthScore: HallOfFameEntry | null;
+    highestGameweekScore: HallOfFameEntry | null;
+  };
+}
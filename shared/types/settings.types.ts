@@ -13,7 +13,8 @@ export type SettingsKey =
   | 'registrationOpen'
   | 'allowNewTeamCreation'
   | 'maxTransfersPerWeek'
-  | 'maxPlayersPerTransfer';
+  | 'maxPlayersPerTransfer'
+  | 'transferPenaltyPoints';
 
 export interface AppSettings {
   transfersOpen: boolean;
@@ -21,6 +22,7 @@ export interface AppSettings {
   allowNewTeamCreation: boolean;
   maxTransfersPerWeek: number; // Max transfers allowed per week (when transfers are open)
   maxPlayersPerTransfer: number; // Max golfers that can be swapped in a single transfer
+  transferPenaltyPoints: number; // Points deducted per golfer swapped beyond the weekly limit (0 = hard limit)
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
@@ -29,4 +31,5 @@ export const DEFAULT_SETTINGS: AppSettings = {
   allowNewTeamCreation: true,
   maxTransfersPerWeek: 1,
   maxPlayersPerTransfer: 6, // Default: can swap entire team
+  transferPenaltyPoints: 4,
 };
@@ -0,0 +1,30 @@
+// Opt-in SMS reminder types
+
+export type SmsReminderType = 'transfer_deadline' | 'no_captain' | 'inactive_golfer';
+
+export const SMS_REMINDER_TYPES: SmsReminderType[] = [
+  'transfer_deadline',
+  'no_captain',
+  'inactive_golfer',
+];
+
+export const SMS_REMINDER_LABELS: Record<SmsReminderType, string> = {
+  transfer_deadline: 'Transfers close in 24 hours',
+  no_captain: 'My team has no captain',
+  inactive_golfer: 'My team has an inactive golfer',
+};
+
+export interface SmsReminderPreferences {
+  enabled: boolean;
+  types: SmsReminderType[];
+  // UK hours (0-23) during which no reminder is sent, e.g. 22 to 8. Null for none
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+}
+
+export const DEFAULT_SMS_REMINDER_PREFERENCES: SmsReminderPreferences = {
+  enabled: false,
+  types: [...SMS_REMINDER_TYPES],
+  quietHoursStart: 22,
+  quietHoursEnd: 8,
+};
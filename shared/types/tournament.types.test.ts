@@ -1,9 +1,17 @@
 import {
+  calculateScorePoints,
+  countTiedPositions,
+  countTiedPositionsByTournament,
+  DEFAULT_SCORING_RULES,
   getBasePointsForPosition,
   getBonusPoints,
   getMultiplierForType,
   getTournamentTypeLabel,
+  isBuiltInTournamentType,
+  toTournamentTypeKey,
   TOURNAMENT_TYPE_CONFIG,
+  type BuiltInTournamentType,
+  type ScoringRules,
   type TournamentType,
 } from './tournament.types';
 
@@ -139,7 +147,7 @@ describe('getBonusPoints', () => {
 });
 
 describe('TOURNAMENT_TYPE_CONFIG', () => {
-  const allTypes: TournamentType[] = [
+  const allTypes: BuiltInTournamentType[] = [
     'rollup_stableford',
     'weekday_medal',
     'weekend_medal',
@@ -221,6 +229,11 @@ describe('getMultiplierForType', () => {
   ] as [TournamentType, number][])('returns %i for %s', (type, expected) => {
     expect(getMultiplierForType(type)).toBe(expected);
   });
+
+  it('falls back for a type the ruleset has no multiplier for', () => {
+    expect(getMultiplierForType('winter_foursomes')).toBe(1);
+    expect(getMultiplierForType('winter_foursomes', DEFAULT_SCORING_RULES, 3)).toBe(3);
+  });
 });
 
 describe('getTournamentTypeLabel', () => {
@@ -234,4 +247,169 @@ describe('getTournamentTypeLabel', () => {
   ] as [TournamentType, string][])('returns "%s" for %s', (type, expected) => {
     expect(getTournamentTypeLabel(type)).toBe(expected);
   });
+
+  it('prefers the stored label and falls back to the key for unknown types', () => {
+    const types = [
+      { key: 'founders', label: "Founders' Trophy" },
+      { key: 'winter_foursomes', label: 'Winter Foursomes' },
+    ];
+    expect(getTournamentTypeLabel('founders', types)).toBe("Founders' Trophy");
+    expect(getTournamentTypeLabel('winter_foursomes', types)).toBe('Winter Foursomes');
+    expect(getTournamentTypeLabel('winter_foursomes')).toBe('winter_foursomes');
+  });
+});
+
+describe('isBuiltInTournamentType', () => {
+  it('recognises only the built-in keys', () => {
+    expect(isBuiltInTournamentType('founders')).toBe(true);
+    expect(isBuiltInTournamentType('winter_foursomes')).toBe(false);
+    expect(isBuiltInTournamentType('toString')).toBe(false);
+  });
+});
+
+describe('toTournamentTypeKey', () => {
+  it.each([
+    ['Winter Foursomes', 'winter_foursomes'],
+    ["  Captain's Day! ", 'captain_s_day'],
+    ['Texas Scramble (Mixed)', 'texas_scramble_mixed'],
+    ['***', ''],
+  ])('turns "%s" into "%s"', (label, expected) => {
+    expect(toTournamentTypeKey(label)).toBe(expected);
+  });
+});
+
+describe('custom scoring rules', () => {
+  const rules: ScoringRules = {
+    ...DEFAULT_SCORING_RULES,
+    positionPoints: [15, 10, 8, 6, 4, 2],
+    bonusBands: {
+      ...DEFAULT_SCORING_RULES.bonusBands,
+      stableford: {
+        singleDay: [
+          { threshold: 30, points: 1 },
+          { threshold: 34, points: 2 },
+          { threshold: 38, points: 5 },
+        ],
+        multiDay: [],
+      },
+    },
+    multipliers: { ...DEFAULT_SCORING_RULES.multipliers, weekend_medal: 3 },
+    appearancePoints: 1,
+  };
+
+  it('awards position points down the full list', () => {
+    expect(getBasePointsForPosition(1, rules)).toBe(15);
+    expect(getBasePointsForPosition(6, rules)).toBe(2);
+    expect(getBasePointsForPosition(7, rules)).toBe(0);
+  });
+
+  it('awards the best band reached regardless of order', () => {
+    expect(getBonusPoints(39, 'stableford', false, rules)).toBe(5);
+    expect(getBonusPoints(35, 'stableford', false, rules)).toBe(2);
+    expect(getBonusPoints(29, 'stableford', false, rules)).toBe(0);
+    expect(getBonusPoints(80, 'stableford', true, rules)).toBe(0);
+  });
+
+  it('uses the ruleset multiplier', () => {
+    expect(getMultiplierForType('weekend_medal', rules)).toBe(3);
+  });
+});
+
+describe('tied positions', () => {
+  it('averages the places a split tie covers to one decimal place', () => {
+    expect(getBasePointsForPosition(1, DEFAULT_SCORING_RULES, 2)).toBe(8.5);
+    expect(getBasePointsForPosition(1, DEFAULT_SCORING_RULES, 3)).toBe(7.3);
+    // Places past the end of the table score 0: (5 + 0) / 2
+    expect(getBasePointsForPosition(3, DEFAULT_SCORING_RULES, 2)).toBe(2.5);
+  });
+
+  it('counts only participating golfers marked as tied', () => {
+    const counts = countTiedPositions([
+      { participated: true, position: 1, tied: false },
+      { participated: true, position: 2, tied: true },
+      { participated: true, position: 2, tied: true },
+      { participated: false, position: 2, tied: true },
+    ]);
+
+    expect(counts).toEqual(new Map([[2, 2]]));
+  });
+
+  it('counts a tied pairing once between its members', () => {
+    const counts = countTiedPositions([
+      { participated: true, position: 2, tied: true, partnerIds: ['b'] },
+      { participated: true, position: 2, tied: true, partnerIds: ['a'] },
+      { participated: true, position: 2, tied: true, partnerIds: ['d'] },
+      { participated: true, position: 2, tied: true, partnerIds: ['c'] },
+    ]);
+
+    expect(counts).toEqual(new Map([[2, 2]]));
+  });
+
+  it('groups tie counts by tournament', () => {
+    const counts = countTiedPositionsByTournament([
+      { tournamentId: 't1', position: 1, tied: true },
+      { tournamentId: 't1', position: 1, tied: true },
+      { tournamentId: 't2', position: 3, tied: true },
+    ]);
+
+    expect(counts.get('t1')).toEqual(new Map([[1, 2]]));
+    expect(counts.get('t2')).toEqual(new Map([[3, 1]]));
+  });
+});
+
+describe('calculateScorePoints', () => {
+  const tournament = {
+    tournamentType: 'weekend_medal' as TournamentType,
+    scoringFormat: 'medal' as const,
+    isMultiDay: false,
+  };
+
+  it('matches the default rules', () => {
+    expect(
+      calculateScorePoints({ participated: true, position: 1, rawScore: -2 }, tournament)
+    ).toEqual({ basePoints: 10, bonusPoints: 3, multipliedPoints: 26 });
+  });
+
+  it('adds the appearance point to base points before the multiplier', () => {
+    const rules = { ...DEFAULT_SCORING_RULES, appearancePoints: 2 };
+
+    expect(
+      calculateScorePoints({ participated: true, position: 5, rawScore: 3 }, tournament, rules)
+    ).toEqual({ basePoints: 2, bonusPoints: 1, multipliedPoints: 6 });
+  });
+
+  it('shares the points for the places covered by a split tie', () => {
+    const tiedCounts = new Map([[2, 2]]);
+
+    // (7 + 5) / 2 = 6, doubled by the weekend medal multiplier
+    expect(
+      calculateScorePoints(
+        { participated: true, position: 2, rawScore: 10, tied: true },
+        tournament,
+        DEFAULT_SCORING_RULES,
+        tiedCounts
+      )
+    ).toEqual({ basePoints: 6, bonusPoints: 0, multipliedPoints: 12 });
+  });
+
+  it('gives every tied golfer the full points under the full policy', () => {
+    const rules = { ...DEFAULT_SCORING_RULES, tiePolicy: 'full' as const };
+
+    expect(
+      calculateScorePoints(
+        { participated: true, position: 2, rawScore: 10, tied: true },
+        tournament,
+        rules,
+        new Map([[2, 2]])
+      ).basePoints
+    ).toBe(7);
+  });
+
+  it('scores nothing for non-participants', () => {
+    const rules = { ...DEFAULT_SCORING_RULES, appearancePoints: 2 };
+
+    expect(
+      calculateScorePoints({ participated: false, position: 1, rawScore: -2 }, tournament, rules)
+    ).toEqual({ basePoints: 0, bonusPoints: 0, multipliedPoints: 0 });
+  });
 });
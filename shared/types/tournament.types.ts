@@ -1,15 +1,24 @@
 // Tournament domain types
 
 export type TournamentStatus = 'draft' | 'published' | 'complete';
-export type TournamentType =
+// The club's original events. Further types are created by admins and stored in the
+// tournamentTypes collection, so a tournament type is any stored type's key.
+export type BuiltInTournamentType =
   | 'rollup_stableford'
   | 'weekday_medal'
   | 'weekend_medal'
   | 'presidents_cup'
   | 'founders'
   | 'club_champs_nett';
+export type TournamentType = string;
 export type ScoringFormat = 'stableford' | 'medal';
 export type GolferCountTier = '0-10' | '10-20' | '20+';
+// How golfers tied on a position are scored: 'split' shares the points for every place
+// the tie covers (two tied 2nd share 2nd and 3rd), 'full' gives each the position's points
+export type TiePolicy = 'split' | 'full';
+// Team-format events are played in pairings of two golfers who share one position and
+// raw score. Every member of a pairing is credited with the pairing's points.
+export type TeamFormat = 'pairs' | 'fourball' | 'foursomes';
 
 // Backwards compatibility alias
 export type PlayerCountTier = GolferCountTier;
@@ -22,6 +31,7 @@ export interface Tournament {
   tournamentType: TournamentType;
   scoringFormat: ScoringFormat;
   isMultiDay: boolean;
+  teamFormat: TeamFormat | null; // null = individual event
   multiplier: number;
   golferCountTier: GolferCountTier;
   season: number;
@@ -38,6 +48,7 @@ export interface CreateTournamentDTO {
   tournamentType?: TournamentType;
   scoringFormat?: ScoringFormat;
   isMultiDay?: boolean;
+  teamFormat?: TeamFormat | null;
   golferCountTier?: GolferCountTier;
   season?: number;
 }
@@ -49,6 +60,7 @@ export interface UpdateTournamentDTO {
   tournamentType?: TournamentType;
   scoringFormat?: ScoringFormat;
   isMultiDay?: boolean;
+  teamFormat?: TeamFormat | null;
   golferCountTier?: GolferCountTier;
   status?: TournamentStatus;
   participatingGolferIds?: string[];
@@ -59,23 +71,42 @@ export interface TournamentWithScores extends Tournament {
     golferId: string;
     golferName: string;
     position: number | null;
+    tied: boolean;
     basePoints: number;
     bonusPoints: number;
     multipliedPoints: number;
   }>;
 }
 
-// Tournament type configuration — single source of truth
-export const TOURNAMENT_TYPE_CONFIG: Record<
-  TournamentType,
-  {
-    label: string;
-    multiplier: number;
-    defaultScoringFormat: ScoringFormat;
-    forcedScoringFormat: ScoringFormat | null; // null = user can choose
-    defaultMultiDay: boolean;
-  }
-> = {
+export interface TournamentTypeSettings {
+  label: string;
+  multiplier: number;
+  defaultScoringFormat: ScoringFormat;
+  forcedScoringFormat: ScoringFormat | null; // null = user can choose
+  defaultMultiDay: boolean;
+}
+
+export interface TournamentTypeConfig extends TournamentTypeSettings {
+  id: string;
+  key: TournamentType;
+  isBuiltIn: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateTournamentTypeDTO {
+  label: string;
+  multiplier: number;
+  defaultScoringFormat?: ScoringFormat;
+  forcedScoringFormat?: ScoringFormat | null;
+  defaultMultiDay?: boolean;
+}
+
+export type UpdateTournamentTypeDTO = Partial<CreateTournamentTypeDTO>;
+
+// Built-in tournament types — seeded into the tournamentTypes collection, which is the
+// source of truth once it exists
+export const TOURNAMENT_TYPE_CONFIG: Record<BuiltInTournamentType, TournamentTypeSettings> = {
   rollup_stableford: {
     label: 'Rollup Stableford',
     multiplier: 1,
@@ -120,55 +151,241 @@ export const TOURNAMENT_TYPE_CONFIG: Record<
   },
 };
 
-// Helper to get multiplier from tournament type
-export function getMultiplierForType(type: TournamentType): number {
-  return TOURNAMENT_TYPE_CONFIG[type]?.multiplier ?? 1;
+// Scoring rules — stored per season, falling back to DEFAULT_SCORING_RULES.
+// Stableford bands are reached at or above the threshold; medal bands (nett score,
+// 0 = par) at or below it. A score earns the single best band it reaches.
+export interface BonusBand {
+  threshold: number;
+  points: number;
+}
+
+export interface BonusBandSet {
+  singleDay: BonusBand[];
+  multiDay: BonusBand[];
+}
+
+export interface ScoringRules {
+  positionPoints: number[]; // index 0 = 1st place; positions beyond the list score 0
+  bonusBands: Record<ScoringFormat, BonusBandSet>;
+  multipliers: Record<TournamentType, number>; // keyed by tournament type key
+  appearancePoints: number; // awarded to every golfer who plays, before the multiplier
+  tiePolicy: TiePolicy;
+}
+
+export interface SeasonScoringRules extends ScoringRules {
+  season: number;
+  isDefault: boolean; // true when the season has no saved ruleset yet
+  updatedAt: Date | null;
+}
+
+// Result of re-scoring a season against a candidate ruleset, compared with the live standings
+export interface ScoringSimulationEntry {
+  userId: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  liveRank: number;
+  simulatedRank: number;
+  rankChange: number; // positive = climbs the table
+  livePoints: number;
+  simulatedPoints: number;
+  pointsChange: number;
+}
+
+export interface ScoringSimulationResult {
+  season: number;
+  scoresRescored: number;
+  scoresChanged: number;
+  standings: ScoringSimulationEntry[]; // in simulated rank order
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  positionPoints: [10, 7, 5],
+  bonusBands: {
+    stableford: {
+      singleDay: [
+        { threshold: 36, points: 3 },
+        { threshold: 32, points: 1 },
+      ],
+      multiDay: [
+        { threshold: 72, points: 3 },
+        { threshold: 64, points: 1 },
+      ],
+    },
+    medal: {
+      singleDay: [
+        { threshold: 0, points: 3 },
+        { threshold: 4, points: 1 },
+      ],
+      multiDay: [
+        { threshold: 0, points: 3 },
+        { threshold: 8, points: 1 },
+      ],
+    },
+  },
+  multipliers: Object.fromEntries(
+    Object.entries(TOURNAMENT_TYPE_CONFIG).map(([type, config]) => [type, config.multiplier])
+  ) as Record<TournamentType, number>,
+  appearancePoints: 0,
+  tiePolicy: 'split',
+};
+
+export const TEAM_FORMAT_LABELS: Record<TeamFormat, string> = {
+  pairs: 'Pairs',
+  fourball: 'Fourball',
+  foursomes: 'Foursomes',
+};
+
+// Golfers in each pairing of a team-format event
+export const PAIRING_SIZE = 2;
+
+export const TIE_POLICY_LABELS: Record<TiePolicy, string> = {
+  split: 'Share the points for the places covered',
+  full: 'Full points for the position to everyone tied',
+};
+
+export function isBuiltInTournamentType(type: TournamentType): type is BuiltInTournamentType {
+  return Object.prototype.hasOwnProperty.call(TOURNAMENT_TYPE_CONFIG, type);
 }
 
-// Helper to get display label for tournament type
-export function getTournamentTypeLabel(type: TournamentType): string {
-  return TOURNAMENT_TYPE_CONFIG[type]?.label ?? type;
+// Helper to get multiplier from tournament type. fallback is used when the ruleset has
+// no multiplier for the type, normally the type's own default multiplier.
+export function getMultiplierForType(
+  type: TournamentType,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  fallback: number = 1
+): number {
+  return rules.multipliers[type] ?? fallback;
 }
 
-// Position-based points (same for all field sizes)
-const POSITION_POINTS: Record<number, number> = { 1: 10, 2: 7, 3: 5 };
+// Helper to get display label for tournament type, preferring the stored types when given
+export function getTournamentTypeLabel(
+  type: TournamentType,
+  types: Pick<TournamentTypeConfig, 'key' | 'label'>[] = []
+): string {
+  const stored = types.find((t) => t.key === type);
+  if (stored) return stored.label;
+  return isBuiltInTournamentType(type) ? TOURNAMENT_TYPE_CONFIG[type].label : type;
+}
 
-// Helper to calculate base points from position
-export function getBasePointsForPosition(position: number | null): number {
-  if (position === null) return 0;
-  return POSITION_POINTS[position] ?? 0;
+// Key for a new tournament type, derived from its label: "Winter Foursomes" -> "winter_foursomes"
+export function toTournamentTypeKey(label: string): TournamentType {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+// Helper to calculate base points from position. tiedCount is how many golfers share
+// the position; split ties average the places covered, rounded to one decimal place.
+export function getBasePointsForPosition(
+  position: number | null,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  tiedCount: number = 1
+): number {
+  if (position === null || position < 1) return 0;
+  if (tiedCount <= 1 || rules.tiePolicy === 'full') {
+    return rules.positionPoints[position - 1] ?? 0;
+  }
+
+  let total = 0;
+  for (let place = position; place < position + tiedCount; place++) {
+    total += rules.positionPoints[place - 1] ?? 0;
+  }
+  return Math.round((total / tiedCount) * 10) / 10;
+}
+
+// Number of participating golfers sharing each tied position in one tournament. In a
+// team-format event every member holds a score, so a pairing counts once between them.
+export function countTiedPositions(
+  scores: Array<{
+    participated?: boolean;
+    position: number | null;
+    tied?: boolean;
+    partnerIds?: unknown[];
+  }>
+): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const score of scores) {
+    if (score.participated === false || !score.tied || score.position === null) continue;
+    const share = 1 / (1 + (score.partnerIds?.length ?? 0));
+    counts.set(score.position, (counts.get(score.position) ?? 0) + share);
+  }
+  return counts;
 }
 
 // Helper to calculate bonus points from raw score, scoring format, and multi-day
 export function getBonusPoints(
   rawScore: number | null,
   scoringFormat: ScoringFormat,
-  isMultiDay: boolean = false
+  isMultiDay: boolean = false,
+  rules: ScoringRules = DEFAULT_SCORING_RULES
 ): number {
   if (rawScore === null) return 0;
 
-  if (scoringFormat === 'stableford') {
-    if (isMultiDay) {
-      // Multi-day stableford: doubled thresholds
-      if (rawScore >= 72) return 3;
-      if (rawScore >= 64) return 1;
-      return 0;
-    }
-    // Single-day stableford
-    if (rawScore >= 36) return 3;
-    if (rawScore >= 32) return 1;
-    return 0;
+  const bandSet = rules.bonusBands[scoringFormat];
+  const bands = (isMultiDay ? bandSet?.multiDay : bandSet?.singleDay) ?? [];
+
+  let points = 0;
+  for (const band of bands) {
+    const reached =
+      scoringFormat === 'stableford' ? rawScore >= band.threshold : rawScore <= band.threshold;
+    if (reached) points = Math.max(points, band.points);
+  }
+  return points;
+}
+
+// countTiedPositions for scores spanning several tournaments, keyed by tournament id
+export function countTiedPositionsByTournament(
+  scores: Array<{
+    tournamentId: { toString(): string };
+    participated?: boolean;
+    position: number | null;
+    tied?: boolean;
+    partnerIds?: unknown[];
+  }>
+): Map<string, Map<number, number>> {
+  const byTournament = new Map<string, typeof scores>();
+  for (const score of scores) {
+    const key = score.tournamentId.toString();
+    byTournament.set(key, [...(byTournament.get(key) ?? []), score]);
   }
+  return new Map(
+    [...byTournament].map(([tournamentId, group]) => [tournamentId, countTiedPositions(group)])
+  );
+}
 
-  // Medal (nett score: 0 = par, negative = under par)
-  if (isMultiDay) {
-    // Multi-day medal
-    if (rawScore <= 0) return 3;
-    if (rawScore <= 8) return 1;
-    return 0;
+// Points for one golfer's result. Non-participants score nothing; participants get
+// position points plus the appearance point as base, then bonus, all multiplied.
+// Tied results need the tournament's tie counts (see countTiedPositions).
+export function calculateScorePoints(
+  result: {
+    participated: boolean;
+    position: number | null;
+    rawScore: number | null;
+    tied?: boolean;
+  },
+  tournament: Pick<Tournament, 'tournamentType' | 'scoringFormat' | 'isMultiDay'>,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  tiedCounts: Map<number, number> = new Map()
+): { basePoints: number; bonusPoints: number; multipliedPoints: number } {
+  if (!result.participated) {
+    return { basePoints: 0, bonusPoints: 0, multipliedPoints: 0 };
   }
-  // Single-day medal
-  if (rawScore <= 0) return 3;
-  if (rawScore <= 4) return 1;
-  return 0;
+
+  const tiedCount =
+    result.tied && result.position !== null ? (tiedCounts.get(result.position) ?? 1) : 1;
+  const basePoints =
+    getBasePointsForPosition(result.position, rules, tiedCount) + rules.appearancePoints;
+  const bonusPoints = getBonusPoints(
+    result.rawScore,
+    tournament.scoringFormat || 'stableford',
+    tournament.isMultiDay ?? false,
+    rules
+  );
+  const multiplier = getMultiplierForType(tournament.tournamentType || 'rollup_stableford', rules);
+  // Split ties can leave fractional base points; keep the total to one decimal place
+  const multipliedPoints = Math.round((basePoints + bonusPoints) * multiplier * 10) / 10;
+  return { basePoints, bonusPoints, multipliedPoints };
 }
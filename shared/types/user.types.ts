@@ -33,3 +33,12 @@ export interface AuthResponse {
   user: Omit<User, 'passwordHash'>;
   token: string;
 }
+
+// A signed-in device, one per unrevoked refresh token
+export interface ActiveSession {
+  id: string;
+  device: string; // e.g. "Chrome on Windows"
+  ipAddress: string | null;
+  lastUsedAt: Date; // Refresh tokens rotate on use, so this is when it was last refreshed
+  current: boolean; // The session making the request
+}
@@ -1,4 +1,10 @@
-import { registerSchema, loginSchema, verifyPhoneSchema } from './auth.validators';
+import {
+  registerSchema,
+  loginSchema,
+  verifyPhoneSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+} from './auth.validators';
 
 const validRegistration = {
   firstName: 'Nick',
@@ -203,3 +209,48 @@ describe('verifyPhoneSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('forgotPasswordSchema', () => {
+  it('accepts a username and channel', () => {
+    const result = forgotPasswordSchema.safeParse({ identifier: 'nick_liffen', channel: 'sms' });
+    expect(result.success).toBe(true);
+  });
+
+  it('trims the identifier', () => {
+    const result = forgotPasswordSchema.parse({ identifier: ' +447900165650 ', channel: 'email' });
+    expect(result.identifier).toBe('+447900165650');
+  });
+
+  it('rejects a blank identifier', () => {
+    const result = forgotPasswordSchema.safeParse({ identifier: '  ', channel: 'sms' });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects an unknown channel', () => {
+    const result = forgotPasswordSchema.safeParse({ identifier: 'nick', channel: 'post' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('resetPasswordSchema', () => {
+  const validReset = {
+    identifier: 'nick_liffen',
+    channel: 'email',
+    code: '123456',
+    password: 'newsecurepass',
+  };
+
+  it('accepts a code and new password', () => {
+    expect(resetPasswordSchema.safeParse(validReset).success).toBe(true);
+  });
+
+  it('rejects a short password', () => {
+    const result = resetPasswordSchema.safeParse({ ...validReset, password: 'short' });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a malformed code', () => {
+    const result = resetPasswordSchema.safeParse({ ...validReset, code: '12ab56' });
+    expect(result.success).toBe(false);
+  });
+});
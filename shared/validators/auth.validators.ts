@@ -33,13 +33,31 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+const verificationCodeSchema = z
+  .string()
+  .length(VERIFICATION_CODE_LENGTH, `Code must be ${VERIFICATION_CODE_LENGTH} digits`)
+  .regex(/^\d+$/, 'Code must contain only digits');
+
 export const verifyPhoneSchema = z.object({
-  code: z
+  code: verificationCodeSchema,
+});
+
+// Forgotten password: the code goes by SMS to a verified phone, or by email
+export const forgotPasswordSchema = z.object({
+  identifier: z.string().trim().min(1, 'Username or phone number is required'),
+  channel: z.enum(['sms', 'email'], { message: 'Choose SMS or email' }),
+});
+
+export const resetPasswordSchema = forgotPasswordSchema.extend({
+  code: verificationCodeSchema,
+  password: z
     .string()
-    .length(VERIFICATION_CODE_LENGTH, `Code must be ${VERIFICATION_CODE_LENGTH} digits`)
-    .regex(/^\d+$/, 'Code must contain only digits'),
+    .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
 });
 
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type VerifyPhoneInput = z.infer<typeof verifyPhoneSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type PasswordResetChannel = ForgotPasswordInput['channel'];
@@ -1,3 +1,4 @@
 // Barrel exports for shared validators
 export * from './auth.validators';
 export * from './picks.validators';
+export * from './leagues.validators';
@@ -0,0 +1,42 @@
+import { createLeagueSchema, joinLeagueSchema, leaveLeagueSchema } from './leagues.validators';
+
+describe('createLeagueSchema', () => {
+  it('accepts a valid name', () => {
+    const result = createLeagueSchema.safeParse({ name: 'Tuesday Roll-up' });
+    expect(result.success).toBe(true);
+  });
+
+  it('trims whitespace from the name', () => {
+    const result = createLeagueSchema.parse({ name: '  Juniors  ' });
+    expect(result.name).toBe('Juniors');
+  });
+
+  it('rejects a name that is too short', () => {
+    const result = createLeagueSchema.safeParse({ name: 'ab' });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a name that is too long', () => {
+    const result = createLeagueSchema.safeParse({ name: 'x'.repeat(41) });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('joinLeagueSchema', () => {
+  it('accepts an 8 character code and upper-cases it', () => {
+    const result = joinLeagueSchema.parse({ inviteCode: 'abcd2345' });
+    expect(result.inviteCode).toBe('ABCD2345');
+  });
+
+  it('rejects a code of the wrong length', () => {
+    const result = joinLeagueSchema.safeParse({ inviteCode: 'ABC' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('leaveLeagueSchema', () => {
+  it('requires a league id', () => {
+    expect(leaveLeagueSchema.safeParse({ leagueId: '' }).success).toBe(false);
+    expect(leaveLeagueSchema.safeParse({ leagueId: 'abc' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+// League validation schemas (Zod)
+
+import { z } from 'zod';
+import {
+  LEAGUE_NAME_MIN_LENGTH,
+  LEAGUE_NAME_MAX_LENGTH,
+  LEAGUE_INVITE_CODE_LENGTH,
+} from '../constants/rules';
+
+export const createLeagueSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(LEAGUE_NAME_MIN_LENGTH, `League name must be at least ${LEAGUE_NAME_MIN_LENGTH} characters`)
+    .max(LEAGUE_NAME_MAX_LENGTH, `League name must be at most ${LEAGUE_NAME_MAX_LENGTH} characters`),
+});
+
+export const joinLeagueSchema = z.object({
+  inviteCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .length(LEAGUE_INVITE_CODE_LENGTH, `Invite code must be ${LEAGUE_INVITE_CODE_LENGTH} characters`),
+});
+
+export const leaveLeagueSchema = z.object({
+  leagueId: z.string().min(1, 'League ID is required'),
+});
+
+export type CreateLeagueInput = z.infer<typeof createLeagueSchema>;
+export type JoinLeagueInput = z.infer<typeof joinLeagueSchema>;
+export type LeaveLeagueInput = z.infer<typeof leaveLeagueSchema>;
@@ -23,6 +23,52 @@ describe('savePicksSchema', () => {
     expect(result.success).toBe(true);
   });
 
+  it('accepts a known chip', () => {
+    const result = savePicksSchema.safeParse({ golferIds: sixUniqueIds, chip: 'tripleCaptain' });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects an unknown chip', () => {
+    const result = savePicksSchema.safeParse({ golferIds: sixUniqueIds, chip: 'freeHit' });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts an ordered bench', () => {
+    const result = savePicksSchema.safeParse({ golferIds: sixUniqueIds, benchIds: ['g7', 'g8'] });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a bench larger than the limit', () => {
+    const result = savePicksSchema.safeParse({
+      golferIds: sixUniqueIds,
+      benchIds: ['g7', 'g8', 'g9', 'g10'],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a bench golfer who is also a starter', () => {
+    const result = savePicksSchema.safeParse({ golferIds: sixUniqueIds, benchIds: ['g1'] });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts a vice-captain alongside the captain', () => {
+    const result = savePicksSchema.safeParse({
+      golferIds: sixUniqueIds,
+      captainId: 'g1',
+      viceCaptainId: 'g2',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects the captain as vice-captain', () => {
+    const result = savePicksSchema.safeParse({
+      golferIds: sixUniqueIds,
+      captainId: 'g1',
+      viceCaptainId: 'g1',
+    });
+    expect(result.success).toBe(false);
+  });
+
   it('rejects fewer than 6 golfers', () => {
     const result = savePicksSchema.safeParse({ golferIds: ['g1', 'g2', 'g3', 'g4', 'g5'] });
     expect(result.success).toBe(false);
@@ -1,16 +1,32 @@
 // Picks validation schemas (Zod)
 
 import { z } from 'zod';
-import { MAX_PLAYERS, MIN_PLAYERS, BUDGET_CAP } from '../constants/rules';
+import { MAX_PLAYERS, MIN_PLAYERS, MAX_BENCH_GOLFERS, BUDGET_CAP } from '../constants/rules';
 
-export const savePicksSchema = z.object({
-  golferIds: z
-    .array(z.string())
-    .min(MIN_PLAYERS, `You must select exactly ${MIN_PLAYERS} golfers`)
-    .max(MAX_PLAYERS, `You must select exactly ${MAX_PLAYERS} golfers`)
-    .refine((ids) => new Set(ids).size === ids.length, 'Duplicate golfers are not allowed'),
-  captainId: z.string().nullable().optional(),
-});
+export const savePicksSchema = z
+  .object({
+    golferIds: z
+      .array(z.string())
+      .min(MIN_PLAYERS, `You must select exactly ${MIN_PLAYERS} golfers`)
+      .max(MAX_PLAYERS, `You must select exactly ${MAX_PLAYERS} golfers`)
+      .refine((ids) => new Set(ids).size === ids.length, 'Duplicate golfers are not allowed'),
+    benchIds: z
+      .array(z.string())
+      .max(MAX_BENCH_GOLFERS, `Your bench can have at most ${MAX_BENCH_GOLFERS} golfers`)
+      .refine((ids) => new Set(ids).size === ids.length, 'Duplicate golfers are not allowed')
+      .optional(),
+    captainId: z.string().nullable().optional(),
+    viceCaptainId: z.string().nullable().optional(),
+    chip: z.enum(['wildcard', 'tripleCaptain', 'benchBoost']).optional(),
+  })
+  .refine((data) => !data.benchIds?.some((id) => data.golferIds.includes(id)), {
+    message: 'A golfer cannot be in both your team and your bench',
+    path: ['benchIds'],
+  })
+  .refine((data) => !data.viceCaptainId || data.viceCaptainId !== data.captainId, {
+    message: 'Your vice-captain must be a different golfer to your captain',
+    path: ['viceCaptainId'],
+  });
 
 export type SavePicksInput = z.infer<typeof savePicksSchema>;
 
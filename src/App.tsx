@@ -9,6 +9,8 @@ import HomePage from './pages/Home/HomePage';
 import LoginPage from './pages/Auth/Login';
 import RegisterPage from './pages/Auth/Register';
 import VerifyPhonePage from './pages/Auth/VerifyPhone';
+import ForgotPasswordPage from './pages/Auth/ForgotPassword';
+import UnsubscribePage from './pages/Auth/Unsubscribe';
 import ScoringPage from './pages/Scoring/ScoringPage';
 import DashboardPage from './pages/Dashboard/DashboardPage';
 import ProfilePage from './pages/Profile/ProfilePage';
@@ -17,6 +19,7 @@ import MyTeamPage from './pages/MyTeam/MyTeamPage';
 import GolfersPage from './pages/Golfers/GolfersPage';
 import GolferProfilePage from './pages/GolferProfile/GolferProfilePage';
 import LeaderboardPage from './pages/Leaderboard/LeaderboardPage';
+import HallOfFamePage from './pages/HallOfFame/HallOfFamePage';
 import UsersPage from './pages/Users/UsersPage';
 import UserProfilePage from './pages/Users/UserProfilePage';
 import TournamentsPage from './pages/Tournaments/TournamentsPage';
@@ -123,6 +126,8 @@ const AppRoutes: React.FC = () => {
       <Route path="/" element={<HomeRoute />} />
       <Route path="/login" element={<LoginPage />} />
       <Route path="/register" element={<RegisterPage />} />
+      <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+      <Route path="/unsubscribe" element={<UnsubscribePage />} />
 
       {/* Phone verification — requires auth but not verified phone */}
       <Route
@@ -200,6 +205,14 @@ const AppRoutes: React.FC = () => {
           </VerifiedRoute>
         }
       />
+      <Route
+        path="/hall-of-fame"
+        element={
+          <VerifiedRoute>
+            <HallOfFamePage />
+          </VerifiedRoute>
+        }
+      />
       <Route
         path="/users"
         element={
@@ -3,6 +3,7 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../../../hooks/useAuth';
+import NotificationBell from '../../ui/NotificationBell';
 import './PageLayout.css';
 
 interface User {
@@ -156,6 +157,7 @@ const PageLayout: React.FC<PageLayoutProps> = ({ children, activeNav }) => {
           </nav>
 
           <div className="header-user" ref={userRef}>
+            <NotificationBell />
             <Link to="/profile" className="user-greeting-link">
               Hi, <strong>{user.firstName}</strong>
             </Link>
@@ -269,6 +271,7 @@ const PageLayout: React.FC<PageLayoutProps> = ({ children, activeNav }) => {
             <Link to="/dashboard">Dashboard</Link>
             <Link to="/my-team">My Team</Link>
             <Link to="/leaderboard">Leaderboard</Link>
+            <Link to="/hall-of-fame">Hall of Fame</Link>
             {user.role === 'admin' && (
               <Link to="/admin" className="footer-admin-link">
                 Admin Panel
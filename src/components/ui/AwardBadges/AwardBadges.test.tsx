@@ -0,0 +1,62 @@
+const mockGet = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: vi.fn(),
+    put: vi.fn(),
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { render, screen, waitFor } from '@testing-library/react';
+import AwardBadges from './AwardBadges';
+
+const award = (id: string, type: string, label: string, shared = false) => ({
+  id,
+  userId: 'u1',
+  type,
+  season: 2026,
+  label,
+  periodStart: '2026-04-01T00:00:00.000Z',
+  periodEnd: '2026-04-30T00:00:00.000Z',
+  points: 40,
+  shared,
+  overridden: false,
+  awardedBy: null,
+  awardedAt: '2026-05-01T00:00:00.000Z',
+});
+
+describe('AwardBadges', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('shows a badge for each kind of award with how many were won', async () => {
+    mockGet.mockResolvedValue({
+      success: true,
+      data: [
+        award('a1', 'week', 'Gameweek 2', true),
+        award('a2', 'month', 'April 2026'),
+        award('a3', 'week', 'Gameweek 5'),
+      ],
+    });
+
+    render(<AwardBadges userId="u1" />);
+
+    expect(await screen.findByText('×2')).toBeInTheDocument();
+    expect(screen.getByText(/Manager of the Month/)).toBeInTheDocument();
+    expect(screen.getByText(/Manager of the Week/).closest('li')).toHaveAttribute(
+      'title',
+      'Gameweek 2 (shared), Gameweek 5'
+    );
+    expect(mockGet).toHaveBeenCalledWith('awards-list?userId=u1');
+  });
+
+  it('renders nothing without awards', async () => {
+    mockGet.mockResolvedValue({ success: true, data: [] });
+
+    const { container } = render(<AwardBadges userId="u1" />);
+
+    await waitFor(() => expect(mockGet).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+});
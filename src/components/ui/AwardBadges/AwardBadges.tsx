@@ -0,0 +1,60 @@
+// Award Badges - a manager's manager of the week / month awards
+
+import React, { useEffect, useState } from 'react';
+import { useApiClient } from '../../../hooks/useApiClient';
+import { AWARD_TITLES, type Award, type AwardType } from '@shared/types';
+import './AwardBadges.css';
+
+interface AwardBadgesProps {
+  userId: string;
+}
+
+const AWARD_ICONS: Record<AwardType, string> = {
+  month: '🏅',
+  week: '⭐',
+};
+
+// Months first, as the rarer award
+const AWARD_ORDER: AwardType[] = ['month', 'week'];
+
+const AwardBadges: React.FC<AwardBadgesProps> = ({ userId }) => {
+  const { get, isAuthReady } = useApiClient();
+  const [awards, setAwards] = useState<Award[]>([]);
+
+  useEffect(() => {
+    if (!isAuthReady || !userId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const response = await get<Award[]>(`awards-list?userId=${userId}`);
+      if (response.cancelled || cancelled) return;
+      // Badges are decoration, so a failed load just shows none
+      setAwards(response.success && response.data ? response.data : []);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [get, isAuthReady, userId]);
+
+  if (awards.length === 0) return null;
+
+  return (
+    <ul className="award-badges" aria-label="Awards">
+      {AWARD_ORDER.map((type) => {
+        const won = awards.filter((a) => a.type === type);
+        if (won.length === 0) return null;
+        const periods = won.map((a) => `${a.label}${a.shared ? ' (shared)' : ''}`).join(', ');
+        return (
+          <li key={type} className={`award-badge award-badge-${type}`} title={periods}>
+            <span aria-hidden="true">{AWARD_ICONS[type]}</span> {AWARD_TITLES[type]}
+            {won.length > 1 && <span className="award-badge-count">×{won.length}</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AwardBadges;
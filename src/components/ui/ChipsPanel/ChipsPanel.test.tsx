@@ -0,0 +1,42 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import ChipsPanel from './ChipsPanel';
+import type { ChipState } from './ChipsPanel';
+
+const chips: ChipState[] = [
+  { chip: 'wildcard', allowance: 1, remaining: 1, activeWeekStart: null },
+  { chip: 'tripleCaptain', allowance: 1, remaining: 0, activeWeekStart: null },
+];
+
+describe('ChipsPanel', () => {
+  it('renders each chip with its state', () => {
+    render(<ChipsPanel chips={chips} onPlay={vi.fn()} />);
+    expect(screen.getByText('Wildcard')).toBeInTheDocument();
+    expect(screen.getByText('Triple Captain')).toBeInTheDocument();
+    expect(screen.getByText('Used')).toBeInTheDocument();
+  });
+
+  it('calls onPlay for an available chip', () => {
+    const onPlay = vi.fn();
+    render(<ChipsPanel chips={chips} onPlay={onPlay} />);
+    fireEvent.click(screen.getByText('Play (1 left)'));
+    expect(onPlay).toHaveBeenCalledWith('wildcard');
+  });
+
+  it('shows active chips instead of a play button', () => {
+    render(
+      <ChipsPanel
+        chips={[
+          {
+            chip: 'wildcard',
+            allowance: 1,
+            remaining: 0,
+            activeWeekStart: '2026-04-11T00:00:00.000Z',
+          },
+        ]}
+        onPlay={vi.fn()}
+      />
+    );
+    expect(screen.getByText(/Active w\/c/)).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+});
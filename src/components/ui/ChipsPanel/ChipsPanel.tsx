@@ -0,0 +1,78 @@
+import React from 'react';
+import type { ChipType } from '@shared/types';
+import './ChipsPanel.css';
+
+// Chip status as returned by the API (dates serialised as strings)
+export interface ChipState {
+  chip: ChipType;
+  allowance: number;
+  remaining: number;
+  activeWeekStart: string | null;
+}
+
+interface ChipsPanelProps {
+  chips: ChipState[];
+  onPlay?: (chip: ChipType) => void;
+  disabled?: boolean;
+}
+
+const CHIP_DETAILS: Record<ChipType, { label: string; icon: string; description: string }> = {
+  wildcard: {
+    label: 'Wildcard',
+    icon: '🃏',
+    description: 'Unlimited transfers for the rest of this week',
+  },
+  tripleCaptain: {
+    label: 'Triple Captain',
+    icon: '👑',
+    description: 'Your captain scores 3× points next gameweek',
+  },
+  benchBoost: {
+    label: 'Bench Boost',
+    icon: '🪑',
+    description: 'Your bench golfers score too next gameweek',
+  },
+};
+
+const formatWeek = (weekStart: string) =>
+  new Date(weekStart).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+const ChipsPanel: React.FC<ChipsPanelProps> = ({ chips, onPlay, disabled = false }) => {
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="chips-panel">
+      {chips.map((status) => {
+        const details = CHIP_DETAILS[status.chip];
+        const isActive = !!status.activeWeekStart;
+
+        return (
+          <div key={status.chip} className={`chip-card ${isActive ? 'chip-active' : ''}`}>
+            <span className="chip-icon">{details.icon}</span>
+            <div className="chip-info">
+              <span className="chip-name">{details.label}</span>
+              <span className="chip-description">{details.description}</span>
+            </div>
+            {isActive ? (
+              <span className="chip-state">Active w/c {formatWeek(status.activeWeekStart!)}</span>
+            ) : status.remaining > 0 ? (
+              onPlay && (
+                <button
+                  className="chip-play-btn"
+                  onClick={() => onPlay(status.chip)}
+                  disabled={disabled}
+                >
+                  Play ({status.remaining} left)
+                </button>
+              )
+            ) : (
+              <span className="chip-state chip-used">Used</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ChipsPanel;
@@ -0,0 +1,2 @@
+export { default } from './ChipsPanel';
+export type { ChipState } from './ChipsPanel';
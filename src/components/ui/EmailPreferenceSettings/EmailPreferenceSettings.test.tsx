@@ -0,0 +1,46 @@
+const mockGet = vi.fn();
+const mockPut = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: vi.fn(),
+    put: mockPut,
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import EmailPreferenceSettings from './EmailPreferenceSettings';
+
+describe('EmailPreferenceSettings', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('shows the saved preference', async () => {
+    mockGet.mockResolvedValue({ success: true, data: { weeklyDigest: false } });
+
+    render(<EmailPreferenceSettings email="alice@example.com" />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('checkbox')).not.toBeChecked();
+    });
+    expect(mockGet).toHaveBeenCalledWith('email-preferences');
+    expect(screen.getByText('Emails are sent to alice@example.com.')).toBeInTheDocument();
+  });
+
+  it('saves changes', async () => {
+    mockGet.mockResolvedValue({ success: true, data: { weeklyDigest: true } });
+    mockPut.mockResolvedValue({ success: true, data: { weeklyDigest: false } });
+
+    render(<EmailPreferenceSettings email="alice@example.com" />);
+    await waitFor(() => {
+      expect(screen.getByRole('checkbox')).toBeChecked();
+    });
+
+    fireEvent.click(screen.getByRole('checkbox'));
+    fireEvent.click(screen.getByRole('button', { name: 'Save Email Preferences' }));
+
+    expect(mockPut).toHaveBeenCalledWith('email-preferences', { weeklyDigest: false });
+    expect(await screen.findByText('Email preferences updated')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,94 @@
+// Email Preference Settings - choose which emails to receive
+
+import React, { useEffect, useState } from 'react';
+import { useApiClient } from '../../../hooks/useApiClient';
+import { DEFAULT_EMAIL_PREFERENCES, type EmailPreferences } from '@shared/types';
+import './EmailPreferenceSettings.css';
+
+interface EmailPreferenceSettingsProps {
+  email: string;
+}
+
+const EmailPreferenceSettings: React.FC<EmailPreferenceSettingsProps> = ({ email }) => {
+  const { get, put, isAuthReady } = useApiClient();
+  const [preferences, setPreferences] = useState<EmailPreferences>(DEFAULT_EMAIL_PREFERENCES);
+  const [isSaving, setIsSaving] = useState(false);
+  const [success, setSuccess] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isAuthReady) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const response = await get<EmailPreferences>('email-preferences');
+      if (response.cancelled || cancelled) return;
+      if (response.success && response.data) {
+        setPreferences(response.data);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [get, isAuthReady]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setSuccess('');
+    setError('');
+
+    try {
+      const response = await put<EmailPreferences>('email-preferences', preferences);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to update email preferences');
+      }
+      setPreferences(response.data);
+      setSuccess('Email preferences updated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="profile-card email-preference-settings">
+      <div className="profile-card-header">
+        <h2>📧 Email</h2>
+      </div>
+      <form onSubmit={handleSave} className="profile-form">
+        {success && <div className="alert alert-success">{success}</div>}
+        {error && <div className="alert alert-error">{error}</div>}
+
+        <p className="email-preference-intro">Emails are sent to {email}.</p>
+
+        <label className="email-preference-option">
+          <input
+            type="checkbox"
+            checked={preferences.weeklyDigest}
+            onChange={(e) => {
+              setPreferences({ ...preferences, weeklyDigest: e.target.checked });
+              setSuccess('');
+            }}
+          />
+          <span>
+            Weekly digest
+            <small>
+              Your points, rank movement and the week&apos;s highlights once every tournament in the
+              gameweek is scored.
+            </small>
+          </span>
+        </label>
+
+        <button type="submit" className="btn btn-primary" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Email Preferences'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default EmailPreferenceSettings;
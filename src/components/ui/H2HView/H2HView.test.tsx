@@ -0,0 +1,81 @@
+const mockGet = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: vi.fn(),
+    put: vi.fn(),
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import H2HView from './H2HView';
+
+const alice = { userId: 'u1', firstName: 'Alice', lastName: 'A', username: 'alice' };
+const bob = { userId: 'u2', firstName: 'Bob', lastName: 'B', username: 'bob' };
+
+describe('H2HView', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('renders fixtures and the table', async () => {
+    mockGet.mockResolvedValue({
+      success: true,
+      data: {
+        season: 2026,
+        gameweek: 2,
+        totalGameweeks: 4,
+        fixtures: [
+          {
+            id: 'f1',
+            gameweek: 2,
+            home: alice,
+            away: bob,
+            homePoints: 20,
+            awayPoints: 10,
+            result: 'home',
+          },
+        ],
+        table: [
+          {
+            ...alice,
+            rank: 1,
+            played: 1,
+            won: 1,
+            drawn: 0,
+            lost: 0,
+            pointsFor: 20,
+            pointsAgainst: 10,
+            leaguePoints: 3,
+          },
+        ],
+      },
+    });
+
+    render(
+      <MemoryRouter>
+        <H2HView season="2026" currentUserId="u1" />
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByText('20 – 10')).toBeInTheDocument();
+    expect(screen.getByText('Head-to-Head Table')).toBeInTheDocument();
+    expect(mockGet).toHaveBeenCalledWith('h2h-results?season=2026');
+  });
+
+  it('shows an empty state when no fixtures have been drawn', async () => {
+    mockGet.mockResolvedValue({
+      success: true,
+      data: { season: 2026, gameweek: 1, totalGameweeks: 4, fixtures: [], table: [] },
+    });
+
+    render(
+      <MemoryRouter>
+        <H2HView season="2026" />
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByText('No head-to-head fixtures yet')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import DataTable, { Column } from '../DataTable';
+import PeriodNav from '../PeriodNav';
+import LoadingSpinner from '../LoadingSpinner';
+import { useApiClient } from '../../../hooks/useApiClient';
+import type { H2HFixtureResult, H2HResultsResponse, H2HTableEntry } from '@shared/types';
+import './H2HView.css';
+
+interface H2HViewProps {
+  season: string;
+  currentUserId?: string;
+}
+
+const H2HView: React.FC<H2HViewProps> = ({ season, currentUserId }) => {
+  const { get, isAuthReady } = useApiClient();
+  const [data, setData] = useState<H2HResultsResponse | null>(null);
+  const [gameweek, setGameweek] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset to the current gameweek when the season changes
+  useEffect(() => {
+    setGameweek(null);
+  }, [season]);
+
+  useEffect(() => {
+    if (!isAuthReady || !season) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const query = gameweek ? `&gameweek=${gameweek}` : '';
+      const response = await get<H2HResultsResponse>(`h2h-results?season=${season}${query}`);
+      if (response.cancelled || cancelled) return;
+
+      if (response.success && response.data) {
+        setData(response.data);
+      } else {
+        setError(response.error || 'Failed to load head-to-head results');
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [get, isAuthReady, season, gameweek]);
+
+  const gameweekOptions = useMemo(
+    () =>
+      Array.from({ length: data?.totalGameweeks ?? 0 }, (_, i) => ({
+        value: String(i + 1),
+        label: `Gameweek ${i + 1}`,
+      })),
+    [data?.totalGameweeks]
+  );
+
+  const columns: Column<H2HTableEntry>[] = useMemo(
+    () => [
+      { key: 'rank', header: 'Rank', width: '70px', align: 'center', render: (e) => e.rank },
+      {
+        key: 'manager',
+        header: 'Manager',
+        render: (e) => (
+          <Link to={`/users/${e.userId}`} className="dt-text-link">
+            {e.firstName} {e.lastName}
+            {e.userId === currentUserId && <span className="dt-you-badge">You</span>}
+          </Link>
+        ),
+      },
+      { key: 'played', header: 'P', width: '50px', align: 'center', render: (e) => e.played },
+      { key: 'won', header: 'W', width: '50px', align: 'center', render: (e) => e.won },
+      { key: 'drawn', header: 'D', width: '50px', align: 'center', render: (e) => e.drawn },
+      { key: 'lost', header: 'L', width: '50px', align: 'center', render: (e) => e.lost },
+      {
+        key: 'pointsFor',
+        header: 'Score',
+        width: '80px',
+        align: 'center',
+        headerClassName: 'hide-on-small',
+        cellClassName: 'hide-on-small',
+        render: (e) => e.pointsFor,
+      },
+      {
+        key: 'leaguePoints',
+        header: 'Pts',
+        width: '70px',
+        align: 'center',
+        render: (e) => <span className="dt-text-price">{e.leaguePoints}</span>,
+      },
+    ],
+    [currentUserId]
+  );
+
+  const renderFixture = (fixture: H2HFixtureResult) => {
+    const homeClass = fixture.result === 'home' ? 'h2h-winner' : '';
+    const awayClass = fixture.result === 'away' ? 'h2h-winner' : '';
+    return (
+      <li key={fixture.id} className="h2h-fixture">
+        <span className={`h2h-manager ${homeClass}`}>
+          {fixture.home.firstName} {fixture.home.lastName}
+        </span>
+        {fixture.away ? (
+          <>
+            <span className="h2h-score">
+              {fixture.homePoints} – {fixture.awayPoints}
+              {fixture.result === 'pending' && <span className="h2h-live">live</span>}
+            </span>
+            <span className={`h2h-manager h2h-away ${awayClass}`}>
+              {fixture.away.firstName} {fixture.away.lastName}
+            </span>
+          </>
+        ) : (
+          <span className="h2h-score h2h-bye">Bye</span>
+        )}
+      </li>
+    );
+  };
+
+  if (loading && !data) {
+    return <LoadingSpinner text="Loading head-to-head..." />;
+  }
+
+  if (error) {
+    return <div className="error-message">{error}</div>;
+  }
+
+  if (!data || (data.fixtures.length === 0 && data.table.length === 0)) {
+    return (
+      <div className="empty-state">
+        <div className="empty-icon">⚔️</div>
+        <h3>No head-to-head fixtures yet</h3>
+        <p>Fixtures for the {season} season haven't been drawn.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h2h-view">
+      <div className="leaderboard-section">
+        <div className="section-header">
+          <div className="section-title-row">
+            <h2>Fixtures</h2>
+          </div>
+          <PeriodNav
+            id="h2h-gameweek-select"
+            options={gameweekOptions}
+            selectedDate={String(data.gameweek)}
+            hasPrevious={data.gameweek > 1}
+            hasNext={data.gameweek < data.totalGameweeks}
+            onNavigate={(dir) => setGameweek(data.gameweek + (dir === 'prev' ? -1 : 1))}
+            onSelect={(value) => setGameweek(parseInt(value, 10))}
+          />
+        </div>
+        {data.fixtures.length > 0 ? (
+          <ul className="h2h-fixtures">{data.fixtures.map(renderFixture)}</ul>
+        ) : (
+          <p className="dt-text-muted">No fixtures this gameweek.</p>
+        )}
+      </div>
+
+      <div className="leaderboard-section">
+        <div className="section-header">
+          <div className="section-title-row">
+            <h2>Head-to-Head Table</h2>
+            <span className="section-meta">Win 3 · Draw 1</span>
+          </div>
+        </div>
+        <DataTable
+          data={data.table}
+          columns={columns}
+          rowKey={(entry) => entry.userId}
+          rowClassName={(entry) => (entry.userId === currentUserId ? 'dt-row-highlighted' : '')}
+          emptyMessage="No results yet."
+        />
+      </div>
+    </div>
+  );
+};
+
+export default H2HView;
@@ -0,0 +1,73 @@
+const mockPost = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: vi.fn(),
+    post: mockPost,
+    put: vi.fn(),
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import HandicapImportModal, { parseHandicapCsv } from './HandicapImportModal';
+
+describe('parseHandicapCsv', () => {
+  it('reads names, plus handicaps and optional dates', () => {
+    const { rows, errors } = parseHandicapCsv(
+      'firstName,lastName,handicap,date\nShane,Lowry,5.8,2026-04-18\nRory,McIlroy,+1.2,'
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { firstName: 'Shane', lastName: 'Lowry', handicapIndex: 5.8, effectiveDate: '2026-04-18' },
+      { firstName: 'Rory', lastName: 'McIlroy', handicapIndex: -1.2 },
+    ]);
+  });
+
+  it('reports missing columns', () => {
+    expect(parseHandicapCsv('firstName,lastName\nShane,Lowry').errors).toEqual([
+      'Missing required columns: handicap',
+    ]);
+  });
+
+  it('reports bad handicaps and dates by row', () => {
+    const { rows, errors } = parseHandicapCsv(
+      'firstName,lastName,handicapIndex,date\nShane,Lowry,60,\nRory,McIlroy,3,18/04/2026'
+    );
+
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([
+      'Row 2: Handicap must be between +10 and 54 (got "60")',
+      'Row 3: Date must be in YYYY-MM-DD format (got "18/04/2026")',
+    ]);
+  });
+});
+
+describe('HandicapImportModal', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('previews the file and imports the rows', async () => {
+    const result = { recorded: 1, updated: 1, unmatched: ['Tom Kim'] };
+    mockPost.mockResolvedValue({ success: true, data: result });
+    const onImported = vi.fn();
+
+    render(<HandicapImportModal onClose={vi.fn()} onImported={onImported} />);
+
+    const file = new File(['firstName,lastName,handicap\nShane,Lowry,5.8\nTom,Kim,3'], 'hcp.csv', {
+      type: 'text/csv',
+    });
+    fireEvent.change(screen.getByLabelText(/select CSV file/), { target: { files: [file] } });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Import 2 Handicaps' }));
+
+    expect(await screen.findByText('No golfer found for: Tom Kim')).toBeInTheDocument();
+    expect(mockPost).toHaveBeenCalledWith('golfers-handicaps-import', {
+      rows: [
+        { firstName: 'Shane', lastName: 'Lowry', handicapIndex: 5.8 },
+        { firstName: 'Tom', lastName: 'Kim', handicapIndex: 3 },
+      ],
+    });
+    expect(onImported).toHaveBeenCalledWith(result);
+  });
+});
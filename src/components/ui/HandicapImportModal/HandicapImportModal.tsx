@@ -0,0 +1,250 @@
+// Handicap Import Modal - upload a CSV of dated handicap indexes
+
+import React, { useState } from 'react';
+import { useApiClient } from '../../../hooks/useApiClient';
+import { parseCSV } from '../../../utils/csv';
+import { formatHandicap } from '../../../utils/formatters';
+import { MAX_HANDICAP_INDEX, MIN_HANDICAP_INDEX, type HandicapImportResult } from '@shared/types';
+import './HandicapImportModal.css';
+
+// Dates travel as YYYY-MM-DD and are read as calendar days by the server
+interface ParsedHandicapRow {
+  firstName: string;
+  lastName: string;
+  handicapIndex: number;
+  effectiveDate?: string;
+}
+
+interface HandicapImportModalProps {
+  onClose: () => void;
+  /** Called after an import has been recorded */
+  onImported: (result: HandicapImportResult) => void;
+}
+
+const SAMPLE_CSV = `firstName,lastName,handicap,date
+John,Smith,12.4,2026-04-18
+Jane,Doe,+1.2,2026-04-18
+Tom,Junior,28.0,`;
+
+/**
+ * Read handicap rows from CSV text. Columns: firstName, lastName, handicap (or
+ * handicapIndex) and an optional date. Plus handicaps may be written "+1.2".
+ */
+export function parseHandicapCsv(text: string): { rows: ParsedHandicapRow[]; errors: string[] } {
+  const lines = parseCSV(text);
+  if (lines.length < 2) {
+    return { rows: [], errors: ['CSV file must have a header row and at least one data row'] };
+  }
+
+  const headers = lines[0].map((h) => h.toLowerCase().trim());
+  const col = {
+    firstName: headers.indexOf('firstname'),
+    lastName: headers.indexOf('lastname'),
+    handicap: headers.includes('handicap')
+      ? headers.indexOf('handicap')
+      : headers.indexOf('handicapindex'),
+    date: headers.indexOf('date'),
+  };
+
+  const missing = [
+    col.firstName < 0 && 'firstName',
+    col.lastName < 0 && 'lastName',
+    col.handicap < 0 && 'handicap',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing required columns: ${missing.join(', ')}`] };
+  }
+
+  const rows: ParsedHandicapRow[] = [];
+  const errors: string[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    const rowNum = index + 2; // Account for header and 0-indexing
+    if (line.every((cell) => cell === '')) return;
+
+    const firstName = line[col.firstName]?.trim() ?? '';
+    const lastName = line[col.lastName]?.trim() ?? '';
+    const handicapStr = line[col.handicap]?.trim() ?? '';
+    const date = col.date >= 0 ? line[col.date]?.trim() : '';
+
+    if (!firstName || !lastName) {
+      errors.push(`Row ${rowNum}: First and last name are required`);
+    }
+
+    // "+1.2" is a plus handicap, stored as -1.2
+    const handicapIndex = handicapStr.startsWith('+')
+      ? -parseFloat(handicapStr.slice(1))
+      : parseFloat(handicapStr);
+    if (
+      isNaN(handicapIndex) ||
+      handicapIndex < MIN_HANDICAP_INDEX ||
+      handicapIndex > MAX_HANDICAP_INDEX
+    ) {
+      errors.push(
+        `Row ${rowNum}: Handicap must be between +${Math.abs(MIN_HANDICAP_INDEX)} and ${MAX_HANDICAP_INDEX} (got "${handicapStr}")`
+      );
+    }
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      errors.push(`Row ${rowNum}: Date must be in YYYY-MM-DD format (got "${date}")`);
+    }
+
+    rows.push({
+      firstName,
+      lastName,
+      handicapIndex: Math.round(handicapIndex * 10) / 10,
+      ...(date && { effectiveDate: date }),
+    });
+  });
+
+  return { rows: errors.length > 0 ? [] : rows, errors };
+}
+
+const HandicapImportModal: React.FC<HandicapImportModalProps> = ({ onClose, onImported }) => {
+  const { post } = useApiClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [rows, setRows] = useState<ParsedHandicapRow[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<HandicapImportResult | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    if (!selected.name.endsWith('.csv')) {
+      setErrors(['Please upload a CSV file']);
+      return;
+    }
+
+    setFile(selected);
+    setResult(null);
+    const reader = new FileReader();
+    reader.onload = () => {
+      const parsed = parseHandicapCsv(reader.result as string);
+      setRows(parsed.rows);
+      setErrors(parsed.errors);
+    };
+    reader.onerror = () => setErrors(['Failed to read file']);
+    reader.readAsText(selected);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setErrors([]);
+    try {
+      const response = await post<HandicapImportResult>('golfers-handicaps-import', { rows });
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to import handicaps');
+      }
+      setResult(response.data);
+      setRows([]);
+      onImported(response.data);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'An error occurred']);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal handicap-import-modal"
+        role="dialog"
+        aria-label="Import Handicaps"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <h2>⛳ Import Handicaps</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+        <div className="modal-body">
+          <p className="handicap-import-intro">
+            Upload a CSV of handicap indexes. Golfers are matched by name. Each row is kept in the
+            golfer&apos;s handicap history; rows without a date take effect today.
+          </p>
+
+          <label className="handicap-import-drop" htmlFor="handicap-csv-upload">
+            <input type="file" accept=".csv" id="handicap-csv-upload" onChange={handleFileChange} />
+            <span>{file ? `✅ ${file.name}` : '📁 Click to select CSV file'}</span>
+          </label>
+
+          {errors.length > 0 && (
+            <div className="alert alert-error handicap-import-errors">
+              <ul>
+                {errors.map((err, i) => (
+                  <li key={i}>{err}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result && (
+            <div className="alert alert-success">
+              Recorded {result.recorded} handicap{result.recorded !== 1 ? 's' : ''}; updated{' '}
+              {result.updated} golfer{result.updated !== 1 ? 's' : ''}.
+              {result.unmatched.length > 0 && (
+                <div className="handicap-import-unmatched">
+                  No golfer found for: {result.unmatched.join(', ')}
+                </div>
+              )}
+            </div>
+          )}
+
+          {rows.length > 0 ? (
+            <div className="handicap-import-preview">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Handicap</th>
+                    <th>Effective</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr key={index}>
+                      <td>
+                        {row.firstName} {row.lastName}
+                      </td>
+                      <td>{formatHandicap(row.handicapIndex)}</td>
+                      <td>{row.effectiveDate ?? 'Today'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            !result && (
+              <div className="handicap-import-sample">
+                <strong>📋 Sample CSV Format:</strong>
+                <pre>{SAMPLE_CSV}</pre>
+              </div>
+            )
+          )}
+        </div>
+        <div className="modal-footer">
+          <button type="button" className="btn btn-secondary" onClick={onClose}>
+            {result ? 'Done' : 'Cancel'}
+          </button>
+          {rows.length > 0 && (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleImport}
+              disabled={importing}
+            >
+              {importing
+                ? 'Importing...'
+                : `Import ${rows.length} Handicap${rows.length !== 1 ? 's' : ''}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HandicapImportModal;
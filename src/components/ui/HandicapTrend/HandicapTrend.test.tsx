@@ -0,0 +1,66 @@
+const mockGet = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: vi.fn(),
+    put: vi.fn(),
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { render, screen } from '@testing-library/react';
+import HandicapTrend from './HandicapTrend';
+
+const entry = (id: string, handicapIndex: number, effectiveDate: string) => ({
+  id,
+  golferId: 'g1',
+  handicapIndex,
+  effectiveDate,
+  source: 'import',
+  recordedAt: effectiveDate,
+});
+
+describe('HandicapTrend', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('charts the handicap index and the change since the first entry', async () => {
+    mockGet.mockResolvedValue({
+      success: true,
+      data: {
+        golferId: 'g1',
+        currentHandicap: 5.8,
+        entries: [
+          entry('h1', 7.2, '2026-01-10T00:00:00.000Z'),
+          entry('h2', 5.8, '2026-04-18T00:00:00.000Z'),
+        ],
+      },
+    });
+
+    render(<HandicapTrend golferId="g1" />);
+
+    expect(await screen.findByText('5.8')).toBeInTheDocument();
+    expect(screen.getByText('▼ 1.4')).toBeInTheDocument();
+    expect(screen.getByRole('img')).toHaveAccessibleName('Handicap index over time');
+    expect(mockGet).toHaveBeenCalledWith('golfers-handicap-history?id=g1');
+  });
+
+  it('explains when no handicap has been recorded', async () => {
+    mockGet.mockResolvedValue({
+      success: true,
+      data: { golferId: 'g1', currentHandicap: null, entries: [] },
+    });
+
+    render(<HandicapTrend golferId="g1" />);
+
+    expect(await screen.findByText('No handicap recorded yet.')).toBeInTheDocument();
+  });
+
+  it('shows the error when the history fails to load', async () => {
+    mockGet.mockResolvedValue({ success: false, error: 'Golfer not found' });
+
+    render(<HandicapTrend golferId="g1" />);
+
+    expect(await screen.findByText('Golfer not found')).toBeInTheDocument();
+  });
+});
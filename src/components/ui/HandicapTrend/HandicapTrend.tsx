@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import LoadingSpinner from '../LoadingSpinner';
+import { useApiClient } from '../../../hooks/useApiClient';
+import { formatHandicap } from '../../../utils/formatters';
+import type { GolferHandicapHistory } from '@shared/types';
+import './HandicapTrend.css';
+
+interface HandicapTrendProps {
+  golferId: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+const HANDICAP_PADDING = 1;
+
+const shortDate = (date: Date) =>
+  date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const HandicapTrend: React.FC<HandicapTrendProps> = ({ golferId }) => {
+  const { get, isAuthReady } = useApiClient();
+  const [history, setHistory] = useState<GolferHandicapHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthReady || !golferId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const response = await get<GolferHandicapHistory>(`golfers-handicap-history?id=${golferId}`);
+      if (response.cancelled || cancelled) return;
+
+      if (response.success && response.data) {
+        setHistory(response.data);
+      } else {
+        setError(response.error || 'Failed to load handicap history');
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [get, isAuthReady, golferId]);
+
+  const chart = useMemo(() => {
+    if (!history || history.entries.length < 2) return null;
+
+    const entries = history.entries;
+    const start = new Date(entries[0].effectiveDate).getTime();
+    const end = Math.max(Date.now(), start + 1);
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+    const indexes = entries.map((e) => e.handicapIndex);
+    const minIndex = Math.floor(Math.min(...indexes) - HANDICAP_PADDING);
+    const maxIndex = Math.ceil(Math.max(...indexes) + HANDICAP_PADDING);
+
+    const x = (date: Date | string) =>
+      PADDING.left + ((new Date(date).getTime() - start) / (end - start)) * plotWidth;
+    const y = (index: number) =>
+      PADDING.top + (1 - (index - minIndex) / (maxIndex - minIndex)) * plotHeight;
+
+    // An index holds until the next revision, so draw it as steps
+    const path = entries
+      .map((e, i) =>
+        i === 0
+          ? `M ${x(e.effectiveDate)} ${y(e.handicapIndex)}`
+          : `H ${x(e.effectiveDate)} V ${y(e.handicapIndex)}`
+      )
+      .concat(`H ${PADDING.left + plotWidth}`)
+      .join(' ');
+
+    return {
+      x,
+      y,
+      path,
+      minIndex,
+      maxIndex,
+      startLabel: shortDate(new Date(start)),
+      endLabel: shortDate(new Date(end)),
+    };
+  }, [history]);
+
+  if (loading) return <LoadingSpinner text="Loading handicap history..." />;
+  if (error) return <p className="handicap-trend-empty">{error}</p>;
+  if (!history) return null;
+
+  if (history.entries.length === 0) {
+    return (
+      <p className="handicap-trend-empty">
+        {history.currentHandicap === null
+          ? 'No handicap recorded yet.'
+          : `Handicap index ${formatHandicap(history.currentHandicap)}. No revisions recorded yet.`}
+      </p>
+    );
+  }
+
+  const first = history.entries[0];
+  const current =
+    history.currentHandicap ?? history.entries[history.entries.length - 1].handicapIndex;
+  const change = Math.round((current - first.handicapIndex) * 10) / 10;
+
+  return (
+    <div className="handicap-trend">
+      <div className="handicap-trend-summary">
+        <span>
+          Current index <strong>{formatHandicap(current)}</strong>
+        </span>
+        <span>
+          {change === 0 ? (
+            'No change'
+          ) : (
+            <span className={change < 0 ? 'handicap-down' : 'handicap-up'}>
+              {change < 0 ? '▼' : '▲'} {Math.abs(change).toFixed(1)}
+            </span>
+          )}{' '}
+          since {shortDate(new Date(first.effectiveDate))}
+        </span>
+      </div>
+
+      {chart && (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Handicap index over time">
+          <line
+            className="handicap-trend-axis"
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={HEIGHT - PADDING.bottom}
+            y2={HEIGHT - PADDING.bottom}
+          />
+          <text
+            className="handicap-trend-label"
+            x={PADDING.left - 6}
+            y={PADDING.top + 4}
+            textAnchor="end"
+          >
+            {formatHandicap(chart.maxIndex)}
+          </text>
+          <text
+            className="handicap-trend-label"
+            x={PADDING.left - 6}
+            y={HEIGHT - PADDING.bottom}
+            textAnchor="end"
+          >
+            {formatHandicap(chart.minIndex)}
+          </text>
+          <text className="handicap-trend-label" x={PADDING.left} y={HEIGHT - 8}>
+            {chart.startLabel}
+          </text>
+          <text
+            className="handicap-trend-label"
+            x={WIDTH - PADDING.right}
+            y={HEIGHT - 8}
+            textAnchor="end"
+          >
+            {chart.endLabel}
+          </text>
+
+          <path className="handicap-trend-line" d={chart.path} />
+          {history.entries.map((e) => (
+            <circle
+              key={e.id}
+              className="handicap-trend-dot"
+              cx={chart.x(e.effectiveDate)}
+              cy={chart.y(e.handicapIndex)}
+              r={3.5}
+            >
+              <title>{`${shortDate(new Date(e.effectiveDate))}: ${formatHandicap(e.handicapIndex)}`}</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default HandicapTrend;
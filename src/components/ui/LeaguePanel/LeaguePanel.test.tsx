@@ -0,0 +1,85 @@
+const mockPost = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: vi.fn(),
+    post: mockPost,
+    put: vi.fn(),
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import LeaguePanel from './LeaguePanel';
+import type { League } from '@shared/types';
+
+const leagues: League[] = [
+  {
+    id: 'l1',
+    name: 'Juniors',
+    inviteCode: 'ABCD2345',
+    ownerId: 'u1',
+    memberIds: ['u1', 'u2'],
+    memberCount: 2,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+];
+
+describe('LeaguePanel', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('lists the global table and the user leagues', () => {
+    render(
+      <LeaguePanel leagues={leagues} selectedLeagueId="" onSelect={vi.fn()} onLeaguesChange={vi.fn()} />
+    );
+    expect(screen.getByText('All managers')).toBeInTheDocument();
+    expect(screen.getByText('Juniors (2)')).toBeInTheDocument();
+  });
+
+  it('shows the invite code for the selected league', () => {
+    render(
+      <LeaguePanel leagues={leagues} selectedLeagueId="l1" onSelect={vi.fn()} onLeaguesChange={vi.fn()} />
+    );
+    expect(screen.getByText('ABCD2345')).toBeInTheDocument();
+  });
+
+  it('joins a league and selects it', async () => {
+    mockPost.mockResolvedValue({ success: true, data: leagues[0] });
+    const onSelect = vi.fn();
+    const onLeaguesChange = vi.fn();
+    render(
+      <LeaguePanel
+        leagues={[]}
+        selectedLeagueId=""
+        onSelect={onSelect}
+        onLeaguesChange={onLeaguesChange}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Join league'));
+    fireEvent.change(screen.getByPlaceholderText('Invite code'), {
+      target: { value: 'abcd2345' },
+    });
+    fireEvent.click(screen.getByText('Join'));
+
+    await waitFor(() => expect(onSelect).toHaveBeenCalledWith('l1'));
+    expect(mockPost).toHaveBeenCalledWith('leagues-join', { inviteCode: 'abcd2345' });
+    expect(onLeaguesChange).toHaveBeenCalled();
+  });
+
+  it('shows the error when creating fails', async () => {
+    mockPost.mockResolvedValue({ success: false, error: 'League limit reached' });
+    render(
+      <LeaguePanel leagues={[]} selectedLeagueId="" onSelect={vi.fn()} onLeaguesChange={vi.fn()} />
+    );
+
+    fireEvent.click(screen.getByText('+ Create league'));
+    fireEvent.change(screen.getByPlaceholderText('League name'), {
+      target: { value: 'Juniors' },
+    });
+    fireEvent.click(screen.getByText('Create'));
+
+    expect(await screen.findByText('League limit reached')).toBeInTheDocument();
+  });
+});
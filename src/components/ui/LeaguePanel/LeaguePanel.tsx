@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { useApiClient } from '../../../hooks/useApiClient';
+import type { League } from '@shared/types';
+import './LeaguePanel.css';
+
+interface LeaguePanelProps {
+  leagues: League[];
+  selectedLeagueId: string;
+  onSelect: (leagueId: string) => void;
+  onLeaguesChange: () => void;
+}
+
+type PanelMode = 'none' | 'create' | 'join';
+
+const LeaguePanel: React.FC<LeaguePanelProps> = ({
+  leagues,
+  selectedLeagueId,
+  onSelect,
+  onLeaguesChange,
+}) => {
+  const { post } = useApiClient();
+  const [mode, setMode] = useState<PanelMode>('none');
+  const [inputValue, setInputValue] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedLeague = leagues.find((l) => l.id === selectedLeagueId) || null;
+
+  const openMode = (next: PanelMode) => {
+    setMode(mode === next ? 'none' : next);
+    setInputValue('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    const response =
+      mode === 'create'
+        ? await post<League>('leagues-create', { name: inputValue })
+        : await post<League>('leagues-join', { inviteCode: inputValue });
+
+    setSubmitting(false);
+    if (response.cancelled) return;
+
+    if (response.success && response.data) {
+      setMode('none');
+      setInputValue('');
+      onLeaguesChange();
+      onSelect(response.data.id);
+    } else {
+      setError(response.error || 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!selectedLeague) return;
+    if (!window.confirm(`Leave ${selectedLeague.name}?`)) return;
+
+    const response = await post('leagues-leave', { leagueId: selectedLeague.id });
+    if (response.cancelled) return;
+
+    if (response.success) {
+      onSelect('');
+      onLeaguesChange();
+    } else {
+      setError(response.error || 'Failed to leave league');
+    }
+  };
+
+  return (
+    <div className="league-panel">
+      <div className="league-panel-row">
+        <select
+          id="league-selector"
+          name="league-selector"
+          className="league-panel-select"
+          value={selectedLeagueId}
+          onChange={(e) => onSelect(e.target.value)}
+        >
+          <option value="">All managers</option>
+          {leagues.map((league) => (
+            <option key={league.id} value={league.id}>
+              {league.name} ({league.memberCount})
+            </option>
+          ))}
+        </select>
+        <button className="league-panel-btn" onClick={() => openMode('create')}>
+          + Create league
+        </button>
+        <button className="league-panel-btn" onClick={() => openMode('join')}>
+          Join league
+        </button>
+      </div>
+
+      {selectedLeague && (
+        <div className="league-panel-info">
+          <span>
+            Invite code: <code className="league-panel-code">{selectedLeague.inviteCode}</code>
+          </span>
+          <button className="league-panel-link" onClick={handleLeave}>
+            Leave league
+          </button>
+        </div>
+      )}
+
+      {mode !== 'none' && (
+        <form className="league-panel-form" onSubmit={handleSubmit}>
+          <input
+            id="league-panel-input"
+            name="league-panel-input"
+            className="league-panel-input"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            placeholder={mode === 'create' ? 'League name' : 'Invite code'}
+            autoFocus
+          />
+          <button className="league-panel-btn" type="submit" disabled={submitting || !inputValue}>
+            {mode === 'create' ? 'Create' : 'Join'}
+          </button>
+        </form>
+      )}
+
+      {error && <div className="league-panel-error">{error}</div>}
+    </div>
+  );
+};
+
+export default LeaguePanel;
@@ -0,0 +1,77 @@
+const mockGet = vi.fn();
+const mockPost = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: mockPost,
+    put: vi.fn(),
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}));
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import NotificationBell from './NotificationBell';
+
+const notification = (id: string, title: string, read: boolean, link: string | null = null) => ({
+  id,
+  userId: 'u1',
+  type: 'tournament_published',
+  title,
+  message: 'Scores have been published.',
+  link,
+  read,
+  createdAt: '2026-04-18T10:00:00.000Z',
+});
+
+describe('NotificationBell', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPost.mockResolvedValue({ success: true });
+    mockGet.mockResolvedValue({
+      success: true,
+      data: {
+        notifications: [
+          notification('n1', 'Spring Medal results are in', false, '/tournaments/t1'),
+          notification('n2', 'The transfer window is open', true),
+        ],
+        unreadCount: 1,
+      },
+    });
+  });
+
+  it('shows the unread count', async () => {
+    render(<NotificationBell />);
+
+    expect(
+      await screen.findByRole('button', { name: 'Notifications (1 unread)' })
+    ).toBeInTheDocument();
+    expect(mockGet).toHaveBeenCalledWith('notifications-list');
+  });
+
+  it('marks a notification read and opens its link', async () => {
+    render(<NotificationBell />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Notifications (1 unread)' }));
+    fireEvent.click(await screen.findByText('Spring Medal results are in'));
+
+    await waitFor(() =>
+      expect(mockPost).toHaveBeenCalledWith('notifications-mark-read', { id: 'n1' })
+    );
+    expect(mockNavigate).toHaveBeenCalledWith('/tournaments/t1');
+    expect(screen.getByRole('button', { name: 'Notifications' })).toBeInTheDocument();
+  });
+
+  it('marks everything read', async () => {
+    render(<NotificationBell />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Notifications (1 unread)' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Mark all read' }));
+
+    expect(mockPost).toHaveBeenCalledWith('notifications-mark-all-read', {});
+    expect(screen.queryByRole('button', { name: 'Mark all read' })).not.toBeInTheDocument();
+  });
+});
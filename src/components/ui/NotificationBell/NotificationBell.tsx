@@ -0,0 +1,138 @@
+// Notification Bell - unread count in the header, with a dropdown of recent notifications
+// Refreshes each time it is opened; click-outside and Escape dismiss
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useApiClient } from '../../../hooks/useApiClient';
+import { formatDateTime } from '../../../utils/formatters';
+import type { NotificationList, UserNotification } from '@shared/types';
+import './NotificationBell.css';
+
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const { get, post, isAuthReady } = useApiClient();
+  const [list, setList] = useState<NotificationList>({ notifications: [], unreadCount: 0 });
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    const response = await get<NotificationList>('notifications-list');
+    if (response.cancelled) return;
+    if (response.success && response.data) setList(response.data);
+  }, [get]);
+
+  useEffect(() => {
+    if (isAuthReady) fetchNotifications();
+  }, [isAuthReady, fetchNotifications]);
+
+  const close = useCallback(() => setOpen(false), []);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        close();
+      }
+    };
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [open, close]);
+
+  const handleToggle = () => {
+    if (!open) fetchNotifications();
+    setOpen((prev) => !prev);
+  };
+
+  const handleOpenNotification = async (notification: UserNotification) => {
+    if (!notification.read) {
+      setList((prev) => ({
+        notifications: prev.notifications.map((n) =>
+          n.id === notification.id ? { ...n, read: true } : n
+        ),
+        unreadCount: Math.max(prev.unreadCount - 1, 0),
+      }));
+      await post('notifications-mark-read', { id: notification.id });
+    }
+    if (notification.link) {
+      close();
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    setList((prev) => ({
+      notifications: prev.notifications.map((n) => ({ ...n, read: true })),
+      unreadCount: 0,
+    }));
+    await post('notifications-mark-all-read', {});
+  };
+
+  const { notifications, unreadCount } = list;
+
+  return (
+    <div className="notification-bell" ref={containerRef}>
+      <button
+        type="button"
+        className="notification-bell-trigger"
+        onClick={handleToggle}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={open}
+      >
+        <span aria-hidden="true">🔔</span>
+        {unreadCount > 0 && (
+          <span className="notification-bell-count" aria-hidden="true">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="notification-panel" role="dialog" aria-label="Notifications">
+          <div className="notification-panel-header">
+            <h3>Notifications</h3>
+            {unreadCount > 0 && (
+              <button type="button" className="notification-mark-all" onClick={handleMarkAllRead}>
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="notification-empty">You&apos;re all caught up.</p>
+          ) : (
+            <ul className="notification-list">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    className={`notification-item ${notification.read ? '' : 'unread'}`}
+                    onClick={() => handleOpenNotification(notification)}
+                  >
+                    <span className="notification-title">{notification.title}</span>
+                    <span className="notification-message">{notification.message}</span>
+                    <span className="notification-time">
+                      {formatDateTime(notification.createdAt)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,64 @@
+const mockGet = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: vi.fn(),
+    put: vi.fn(),
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { render, screen } from '@testing-library/react';
+import PriceHistoryChart from './PriceHistoryChart';
+
+const series = {
+  golferId: 'g1',
+  season: 2026,
+  startDate: '2026-04-01T00:00:00.000Z',
+  endDate: '2026-10-31T00:00:00.000Z',
+  currentPrice: 8_300_000,
+  prices: [
+    { date: '2026-04-01T00:00:00.000Z', price: 8_000_000, source: null },
+    { date: '2026-04-18T00:00:00.000Z', price: 8_300_000, source: 'weekly' },
+  ],
+  points: [
+    {
+      date: '2026-04-12T00:00:00.000Z',
+      tournamentName: 'Spring Medal',
+      points: 12,
+      cumulativePoints: 12,
+    },
+    {
+      date: '2026-04-19T00:00:00.000Z',
+      tournamentName: 'Club Stableford',
+      points: 8,
+      cumulativePoints: 20,
+    },
+  ],
+};
+
+describe('PriceHistoryChart', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('charts price against season points', async () => {
+    mockGet.mockResolvedValue({ success: true, data: series });
+
+    render(<PriceHistoryChart golferId="g1" season="2026" />);
+
+    expect(await screen.findByText('20 pts from 2 tournaments')).toBeInTheDocument();
+    expect(screen.getByText('(+$0.3M)')).toBeInTheDocument();
+    expect(screen.getByRole('img')).toHaveAccessibleName(
+      'Price and fantasy points across the 2026 season'
+    );
+    expect(mockGet).toHaveBeenCalledWith('golfers-price-history?id=g1&season=2026');
+  });
+
+  it('shows the error when the series fails to load', async () => {
+    mockGet.mockResolvedValue({ success: false, error: 'Golfer not found' });
+
+    render(<PriceHistoryChart golferId="g1" season="2026" />);
+
+    expect(await screen.findByText('Golfer not found')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import LoadingSpinner from '../LoadingSpinner';
+import { useApiClient } from '../../../hooks/useApiClient';
+import { formatPrice } from '../../../utils/formatters';
+import type { GolferPriceSeries } from '@shared/types';
+import './PriceHistoryChart.css';
+
+interface PriceHistoryChartProps {
+  golferId: string;
+  season: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 48, bottom: 28, left: 56 };
+const PRICE_PADDING = 500_000;
+
+const shortDate = (date: Date) =>
+  date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({ golferId, season }) => {
+  const { get, isAuthReady } = useApiClient();
+  const [series, setSeries] = useState<GolferPriceSeries | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthReady || !golferId || !season) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      const response = await get<GolferPriceSeries>(
+        `golfers-price-history?id=${golferId}&season=${season}`
+      );
+      if (response.cancelled || cancelled) return;
+
+      if (response.success && response.data) {
+        setSeries(response.data);
+      } else {
+        setError(response.error || 'Failed to load price history');
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [get, isAuthReady, golferId, season]);
+
+  const chart = useMemo(() => {
+    if (!series) return null;
+
+    const start = new Date(series.startDate).getTime();
+    const seasonEnd = new Date(series.endDate).getTime();
+    // Run the price line up to today while the season is in progress
+    const end = Math.max(Math.min(Date.now(), seasonEnd), start + 1);
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+    const prices = series.prices.map((p) => p.price);
+    const minPrice = Math.min(...prices) - PRICE_PADDING;
+    const maxPrice = Math.max(...prices) + PRICE_PADDING;
+    const maxPoints = Math.max(1, ...series.points.map((p) => p.cumulativePoints));
+
+    const x = (date: Date | string) => {
+      const t = Math.min(Math.max(new Date(date).getTime(), start), end);
+      return PADDING.left + ((t - start) / (end - start)) * plotWidth;
+    };
+    const yPrice = (price: number) =>
+      PADDING.top + (1 - (price - minPrice) / (maxPrice - minPrice)) * plotHeight;
+    const yPoints = (points: number) => PADDING.top + (1 - points / maxPoints) * plotHeight;
+
+    // Prices hold until the next change, so draw them as steps
+    const pricePath = series.prices
+      .map((p, i) =>
+        i === 0 ? `M ${x(p.date)} ${yPrice(p.price)}` : `H ${x(p.date)} V ${yPrice(p.price)}`
+      )
+      .concat(`H ${PADDING.left + plotWidth}`)
+      .join(' ');
+    const pointsPath = [`M ${PADDING.left} ${yPoints(0)}`]
+      .concat(series.points.map((p) => `L ${x(p.date)} ${yPoints(p.cumulativePoints)}`))
+      .join(' ');
+
+    return {
+      x,
+      yPrice,
+      yPoints,
+      pricePath,
+      pointsPath,
+      minPrice,
+      maxPrice,
+      maxPoints,
+      startLabel: shortDate(new Date(start)),
+      endLabel: shortDate(new Date(end)),
+    };
+  }, [series]);
+
+  if (loading) return <LoadingSpinner text="Loading price history..." />;
+  if (error) return <p className="price-history-empty">{error}</p>;
+  if (!series || !chart) return null;
+
+  const openingPrice = series.prices[0].price;
+  const change = series.currentPrice - openingPrice;
+  const totalPoints = series.points[series.points.length - 1]?.cumulativePoints ?? 0;
+
+  return (
+    <div className="price-history-chart">
+      <div className="price-history-summary">
+        <span>
+          {formatPrice(openingPrice)} → {formatPrice(series.currentPrice)}{' '}
+          <span className={change > 0 ? 'price-up' : change < 0 ? 'price-down' : ''}>
+            ({change >= 0 ? '+' : '-'}
+            {formatPrice(Math.abs(change))})
+          </span>
+        </span>
+        <span>
+          {totalPoints} pts from {series.points.length}{' '}
+          {series.points.length === 1 ? 'tournament' : 'tournaments'}
+        </span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={`Price and fantasy points across the ${series.season} season`}
+      >
+        <line
+          className="price-history-axis"
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={HEIGHT - PADDING.bottom}
+          y2={HEIGHT - PADDING.bottom}
+        />
+        <text
+          className="price-history-label"
+          x={PADDING.left - 6}
+          y={PADDING.top + 4}
+          textAnchor="end"
+        >
+          {formatPrice(chart.maxPrice)}
+        </text>
+        <text
+          className="price-history-label"
+          x={PADDING.left - 6}
+          y={HEIGHT - PADDING.bottom}
+          textAnchor="end"
+        >
+          {formatPrice(chart.minPrice)}
+        </text>
+        <text className="price-history-label" x={WIDTH - PADDING.right + 6} y={PADDING.top + 4}>
+          {chart.maxPoints} pts
+        </text>
+        <text
+          className="price-history-label"
+          x={WIDTH - PADDING.right + 6}
+          y={HEIGHT - PADDING.bottom}
+        >
+          0
+        </text>
+        <text className="price-history-label" x={PADDING.left} y={HEIGHT - 8}>
+          {chart.startLabel}
+        </text>
+        <text
+          className="price-history-label"
+          x={WIDTH - PADDING.right}
+          y={HEIGHT - 8}
+          textAnchor="end"
+        >
+          {chart.endLabel}
+        </text>
+
+        <path className="price-history-points-line" d={chart.pointsPath} />
+        {series.points.map((p) => (
+          <circle
+            key={`${p.tournamentName}-${p.date}`}
+            className="price-history-points-dot"
+            cx={chart.x(p.date)}
+            cy={chart.yPoints(p.cumulativePoints)}
+            r={3}
+          >
+            <title>{`${p.tournamentName}: ${p.points} pts (${p.cumulativePoints} total)`}</title>
+          </circle>
+        ))}
+
+        <path className="price-history-price-line" d={chart.pricePath} />
+        {series.prices.slice(1).map((p) => (
+          <circle
+            key={`${p.date}-${p.price}`}
+            className="price-history-price-dot"
+            cx={chart.x(p.date)}
+            cy={chart.yPrice(p.price)}
+            r={3.5}
+          >
+            <title>{`${shortDate(new Date(p.date))}: ${formatPrice(p.price)}`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="price-history-legend">
+        <span className="legend-price">Price</span>
+        <span className="legend-points">Season points</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceHistoryChart;
@@ -0,0 +1,149 @@
+const mockGet = vi.fn();
+const mockPost = vi.fn();
+const mockPut = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: mockPost,
+    put: mockPut,
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+vi.mock('../../../hooks/useAsyncData', () => ({
+  useAsyncData: () => ({
+    data: [
+      { id: 's1', name: '2025' },
+      { id: 's2', name: '2026' },
+    ],
+    loading: false,
+    error: null,
+  }),
+}));
+
+vi.mock('../../../hooks/useTournamentTypes', () => ({
+  useTournamentTypes: () => ({
+    types: [
+      { id: 't1', key: 'founders', label: 'Founders', multiplier: 4 },
+      { id: 't2', key: 'winter_foursomes', label: 'Winter Foursomes', multiplier: 1.5 },
+    ],
+    loading: false,
+  }),
+}));
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { DEFAULT_SCORING_RULES } from '@shared/types';
+import ScoringRulesEditor from './ScoringRulesEditor';
+
+const seasonRules = { ...DEFAULT_SCORING_RULES, season: 2026, isDefault: true, updatedAt: null };
+
+describe('ScoringRulesEditor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGet.mockResolvedValue({ success: true, data: seasonRules });
+  });
+
+  it("loads the active season's rules", async () => {
+    render(<ScoringRulesEditor />);
+
+    expect(await screen.findByLabelText('1st place points')).toHaveValue(10);
+    expect(screen.getByLabelText('3rd place points')).toHaveValue(5);
+    expect(screen.getByLabelText('Founders multiplier')).toHaveValue(4);
+    // Types the ruleset doesn't cover show their own multiplier
+    expect(screen.getByLabelText('Winter Foursomes multiplier')).toHaveValue(1.5);
+    expect(screen.getByText('Using default rules')).toBeInTheDocument();
+    expect(mockGet).toHaveBeenCalledWith('scoring-rules');
+  });
+
+  it('saves added positions and the appearance point for the season', async () => {
+    mockPut.mockResolvedValue({ success: true, data: seasonRules });
+    render(<ScoringRulesEditor />);
+
+    fireEvent.click(await screen.findByText('+ Add position'));
+    fireEvent.change(screen.getByLabelText('4th place points'), { target: { value: '3' } });
+    fireEvent.change(screen.getByLabelText('Appearance points'), { target: { value: '1' } });
+    fireEvent.click(screen.getByText('Save Scoring Rules'));
+
+    await waitFor(() =>
+      expect(mockPut).toHaveBeenCalledWith('scoring-rules', {
+        ...DEFAULT_SCORING_RULES,
+        positionPoints: [10, 7, 5, 3],
+        appearancePoints: 1,
+        season: 2026,
+      })
+    );
+    expect(await screen.findByText(/Scoring rules saved for 2026/)).toBeInTheDocument();
+  });
+
+  it('saves the tie policy', async () => {
+    mockPut.mockResolvedValue({ success: true, data: seasonRules });
+    render(<ScoringRulesEditor />);
+
+    fireEvent.change(await screen.findByLabelText('Tied positions'), {
+      target: { value: 'full' },
+    });
+    fireEvent.click(screen.getByText('Save Scoring Rules'));
+
+    await waitFor(() =>
+      expect(mockPut).toHaveBeenCalledWith(
+        'scoring-rules',
+        expect.objectContaining({ tiePolicy: 'full', season: 2026 })
+      )
+    );
+  });
+
+  it('loads another season when selected', async () => {
+    render(<ScoringRulesEditor />);
+    await screen.findByLabelText('1st place points');
+
+    fireEvent.change(screen.getByLabelText('Season'), { target: { value: '2025' } });
+
+    await waitFor(() => expect(mockGet).toHaveBeenCalledWith('scoring-rules?season=2025'));
+  });
+
+  it('previews the impact on the standings without saving', async () => {
+    mockPost.mockResolvedValue({
+      success: true,
+      data: {
+        season: 2026,
+        scoresRescored: 40,
+        scoresChanged: 12,
+        standings: [
+          {
+            userId: 'u2',
+            username: 'bob',
+            firstName: 'Bob',
+            lastName: 'B',
+            liveRank: 2,
+            simulatedRank: 1,
+            rankChange: 1,
+            livePoints: 90,
+            simulatedPoints: 110,
+            pointsChange: 20,
+          },
+        ],
+      },
+    });
+    render(<ScoringRulesEditor />);
+
+    fireEvent.change(await screen.findByLabelText('1st place points'), {
+      target: { value: '15' },
+    });
+    fireEvent.click(screen.getByText('Preview impact'));
+
+    await waitFor(() =>
+      expect(mockPost).toHaveBeenCalledWith('scoring-simulate', {
+        ...DEFAULT_SCORING_RULES,
+        positionPoints: [15, 7, 5],
+        season: 2026,
+      })
+    );
+    expect(
+      await screen.findByText('12 of 40 scores would change.', { exact: false })
+    ).toBeInTheDocument();
+    expect(screen.getByText('Bob B')).toBeInTheDocument();
+    expect(screen.getByText('▲1', { exact: false })).toBeInTheDocument();
+    expect(mockPut).not.toHaveBeenCalled();
+  });
+});
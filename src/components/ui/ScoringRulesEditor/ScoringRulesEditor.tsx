@@ -0,0 +1,417 @@
+import React, { useEffect, useState } from 'react';
+import LoadingSpinner from '../LoadingSpinner';
+import { useApiClient } from '../../../hooks/useApiClient';
+import { useAsyncData } from '../../../hooks/useAsyncData';
+import { useTournamentTypes } from '../../../hooks/useTournamentTypes';
+import {
+  DEFAULT_SCORING_RULES,
+  TIE_POLICY_LABELS,
+  type BonusBand,
+  type ScoringFormat,
+  type ScoringRules,
+  type ScoringSimulationResult,
+  type Season,
+  type SeasonScoringRules,
+  type TiePolicy,
+} from '@shared/types';
+import './ScoringRulesEditor.css';
+
+type BandKey = 'singleDay' | 'multiDay';
+
+const BAND_GROUPS: { format: ScoringFormat; key: BandKey; label: string; hint: string }[] = [
+  { format: 'stableford', key: 'singleDay', label: 'Stableford', hint: 'points or more' },
+  {
+    format: 'stableford',
+    key: 'multiDay',
+    label: 'Stableford (multi-day)',
+    hint: 'points or more',
+  },
+  { format: 'medal', key: 'singleDay', label: 'Medal', hint: 'nett to par or better' },
+  { format: 'medal', key: 'multiDay', label: 'Medal (multi-day)', hint: 'nett to par or better' },
+];
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+const toNumber = (value: string) => (value === '' ? 0 : Number(value));
+
+const ScoringRulesEditor: React.FC = () => {
+  const { get, post, put, isAuthReady } = useApiClient();
+  const { data: seasons } = useAsyncData<Season[]>('seasons-list');
+  const { types: tournamentTypes } = useTournamentTypes();
+  const [season, setSeason] = useState<number | null>(null);
+  const [rules, setRules] = useState<ScoringRules | null>(null);
+  const [isDefault, setIsDefault] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<ScoringSimulationResult | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    if (!isAuthReady) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError('');
+      const response = await get<SeasonScoringRules>(
+        season === null ? 'scoring-rules' : `scoring-rules?season=${season}`
+      );
+      if (response.cancelled || cancelled) return;
+
+      if (response.success && response.data) {
+        const {
+          season: loadedSeason,
+          isDefault: loadedDefault,
+          updatedAt: _updatedAt,
+          ...loaded
+        } = response.data;
+        setRules(loaded);
+        setIsDefault(loadedDefault);
+        setSimulation(null);
+        if (season === null) setSeason(loadedSeason);
+      } else {
+        setError(response.error || 'Failed to load scoring rules');
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [get, isAuthReady, season]);
+
+  const update = (changes: Partial<ScoringRules>) => {
+    setRules((current) => (current ? { ...current, ...changes } : current));
+    setSimulation(null);
+  };
+
+  const setPositionPoints = (index: number, value: number) =>
+    update({ positionPoints: rules!.positionPoints.map((p, i) => (i === index ? value : p)) });
+
+  const setBands = (format: ScoringFormat, key: BandKey, bands: BonusBand[]) =>
+    update({
+      bonusBands: {
+        ...rules!.bonusBands,
+        [format]: { ...rules!.bonusBands[format], [key]: bands },
+      },
+    });
+
+  const handleSave = async () => {
+    if (!rules || season === null) return;
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await put<SeasonScoringRules>('scoring-rules', { ...rules, season });
+      if (!response.success) throw new Error(response.error || 'Failed to save scoring rules');
+
+      setIsDefault(false);
+      setSuccess(`Scoring rules saved for ${season}. Recalculate tournaments to rescore them.`);
+      setTimeout(() => setSuccess(''), 5000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSimulate = async () => {
+    if (!rules || season === null) return;
+    setSimulating(true);
+    setError('');
+
+    try {
+      const response = await post<ScoringSimulationResult>('scoring-simulate', {
+        ...rules,
+        season,
+      });
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to simulate scoring rules');
+      }
+      setSimulation(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  if (loading && !rules) return <LoadingSpinner text="Loading scoring rules..." />;
+  if (!rules) return <div className="alert alert-error">{error}</div>;
+
+  return (
+    <div className="scoring-rules-editor">
+      {success && <div className="alert alert-success">{success}</div>}
+      {error && <div className="alert alert-error">{error}</div>}
+
+      <div className="scoring-rules-toolbar">
+        <label htmlFor="scoring-rules-season">Season</label>
+        <select
+          id="scoring-rules-season"
+          name="scoring-rules-season"
+          value={season ?? ''}
+          onChange={(e) => setSeason(parseInt(e.target.value, 10))}
+        >
+          {(seasons ?? [])
+            .map((s) => parseInt(s.name, 10))
+            .filter((s) => !isNaN(s))
+            .concat(season !== null ? [season] : [])
+            .filter((s, i, all) => all.indexOf(s) === i)
+            .sort((a, b) => b - a)
+            .map((s) => (
+              <option key={s} value={s}>
+                {s} Season
+              </option>
+            ))}
+        </select>
+        {isDefault && <span className="badge badge-gray">Using default rules</span>}
+      </div>
+
+      <section className="scoring-rules-section">
+        <h3>Finishing Position Points</h3>
+        <div className="scoring-rules-positions">
+          {rules.positionPoints.map((points, index) => (
+            <label key={index} className="scoring-rules-field">
+              <span>{ordinal(index + 1)}</span>
+              <input
+                type="number"
+                min="0"
+                value={points}
+                aria-label={`${ordinal(index + 1)} place points`}
+                onChange={(e) => setPositionPoints(index, toNumber(e.target.value))}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="scoring-rules-row-actions">
+          <button
+            type="button"
+            className="btn btn-secondary btn-sm"
+            onClick={() => update({ positionPoints: [...rules.positionPoints, 0] })}
+          >
+            + Add position
+          </button>
+          <button
+            type="button"
+            className="btn btn-secondary btn-sm"
+            disabled={rules.positionPoints.length <= 1}
+            onClick={() => update({ positionPoints: rules.positionPoints.slice(0, -1) })}
+          >
+            − Remove last
+          </button>
+        </div>
+        <label className="scoring-rules-tie-policy" htmlFor="scoring-rules-tie-policy">
+          <span>Tied positions</span>
+          <select
+            id="scoring-rules-tie-policy"
+            name="scoring-rules-tie-policy"
+            value={rules.tiePolicy}
+            onChange={(e) => update({ tiePolicy: e.target.value as TiePolicy })}
+          >
+            {(Object.keys(TIE_POLICY_LABELS) as TiePolicy[]).map((policy) => (
+              <option key={policy} value={policy}>
+                {TIE_POLICY_LABELS[policy]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </section>
+
+      <section className="scoring-rules-section">
+        <h3>Bonus Bands</h3>
+        <p className="scoring-rules-hint">A score earns the best band it reaches.</p>
+        <div className="scoring-rules-bands">
+          {BAND_GROUPS.map(({ format, key, label, hint }) => {
+            const bands = rules.bonusBands[format][key];
+            return (
+              <div key={`${format}-${key}`} className="scoring-rules-band-group">
+                <h4>{label}</h4>
+                {bands.map((band, index) => (
+                  <div key={index} className="scoring-rules-band">
+                    <input
+                      type="number"
+                      value={band.threshold}
+                      aria-label={`${label} band ${index + 1} threshold`}
+                      onChange={(e) =>
+                        setBands(
+                          format,
+                          key,
+                          bands.map((b, i) =>
+                            i === index ? { ...b, threshold: toNumber(e.target.value) } : b
+                          )
+                        )
+                      }
+                    />
+                    <span>{hint} →</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={band.points}
+                      aria-label={`${label} band ${index + 1} points`}
+                      onChange={(e) =>
+                        setBands(
+                          format,
+                          key,
+                          bands.map((b, i) =>
+                            i === index ? { ...b, points: toNumber(e.target.value) } : b
+                          )
+                        )
+                      }
+                    />
+                    <span>pts</span>
+                    <button
+                      type="button"
+                      className="btn btn-secondary btn-sm btn-icon"
+                      aria-label={`Remove ${label} band ${index + 1}`}
+                      onClick={() =>
+                        setBands(
+                          format,
+                          key,
+                          bands.filter((_, i) => i !== index)
+                        )
+                      }
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => setBands(format, key, [...bands, { threshold: 0, points: 0 }])}
+                >
+                  + Add band
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      <section className="scoring-rules-section">
+        <h3>Multipliers &amp; Appearance</h3>
+        <div className="scoring-rules-positions">
+          {tournamentTypes.map((type) => (
+            <label key={type.key} className="scoring-rules-field">
+              <span>{type.label}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={rules.multipliers[type.key] ?? type.multiplier}
+                aria-label={`${type.label} multiplier`}
+                onChange={(e) =>
+                  update({
+                    multipliers: { ...rules.multipliers, [type.key]: toNumber(e.target.value) },
+                  })
+                }
+              />
+            </label>
+          ))}
+          <label className="scoring-rules-field">
+            <span>Appearance</span>
+            <input
+              type="number"
+              min="0"
+              value={rules.appearancePoints}
+              aria-label="Appearance points"
+              onChange={(e) => update({ appearancePoints: toNumber(e.target.value) })}
+            />
+          </label>
+        </div>
+      </section>
+
+      <div className="form-actions">
+        <button className="btn btn-primary" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Scoring Rules'}
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={handleSimulate}
+          disabled={simulating || saving}
+        >
+          {simulating ? 'Simulating...' : 'Preview impact'}
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => update(DEFAULT_SCORING_RULES)}
+          disabled={saving}
+        >
+          Reset to defaults
+        </button>
+      </div>
+
+      {simulation && (
+        <section className="scoring-rules-simulation">
+          <h3>What if: {simulation.season} standings</h3>
+          <p className="scoring-rules-hint">
+            {simulation.scoresChanged} of {simulation.scoresRescored} scores would change. Nothing
+            has been saved.
+          </p>
+          {simulation.standings.length === 0 ? (
+            <p className="scoring-rules-hint">No teams have been picked this season.</p>
+          ) : (
+            <table className="admin-table">
+              <thead>
+                <tr>
+                  <th>Rank</th>
+                  <th>Manager</th>
+                  <th>Live</th>
+                  <th>Simulated</th>
+                  <th>Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {simulation.standings.map((entry) => (
+                  <tr key={entry.userId}>
+                    <td>
+                      {entry.simulatedRank}
+                      {entry.rankChange !== 0 && (
+                        <span className={entry.rankChange > 0 ? 'rank-up' : 'rank-down'}>
+                          {entry.rankChange > 0
+                            ? ` ▲${entry.rankChange}`
+                            : ` ▼${-entry.rankChange}`}
+                        </span>
+                      )}
+                    </td>
+                    <td>
+                      {entry.firstName || entry.lastName
+                        ? `${entry.firstName} ${entry.lastName}`.trim()
+                        : entry.username}
+                    </td>
+                    <td>
+                      {entry.livePoints} pts (#{entry.liveRank})
+                    </td>
+                    <td>{entry.simulatedPoints} pts</td>
+                    <td
+                      className={
+                        entry.pointsChange > 0
+                          ? 'rank-up'
+                          : entry.pointsChange < 0
+                            ? 'rank-down'
+                            : ''
+                      }
+                    >
+                      {entry.pointsChange > 0 ? '+' : ''}
+                      {entry.pointsChange}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ScoringRulesEditor;
@@ -0,0 +1,69 @@
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import SeasonArchiveView from './SeasonArchiveView';
+import type { SeasonArchive } from '@shared/types';
+
+const alice = { userId: 'u1', firstName: 'Alice', lastName: 'Able', username: 'alice' };
+const bob = { userId: 'u2', firstName: 'Bob', lastName: 'Baker', username: 'bob' };
+
+const archive: SeasonArchive = {
+  id: 'a1',
+  seasonName: '2025',
+  startDate: new Date('2025-04-01'),
+  endDate: new Date('2026-03-31'),
+  standings: [
+    { rank: 1, ...alice, totalPoints: 412, teamValue: 48_000_000, eventsPlayed: 20 },
+    { rank: 2, ...bob, totalPoints: 398, teamValue: 47_500_000, eventsPlayed: 19 },
+  ],
+  monthlyWinners: [
+    {
+      label: 'April 2025',
+      startDate: new Date('2025-04-01'),
+      endDate: new Date('2025-04-30'),
+      points: 64,
+      winners: [alice, bob],
+    },
+  ],
+  gameweekWinners: [
+    {
+      label: 'Gameweek 1',
+      startDate: new Date('2025-04-05'),
+      endDate: new Date('2025-04-11'),
+      gameweek: 1,
+      points: 31,
+      winners: [bob],
+    },
+  ],
+  archivedAt: new Date('2026-04-02'),
+};
+
+describe('SeasonArchiveView', () => {
+  it('shows the champion, final standings and period winners', () => {
+    render(
+      <MemoryRouter>
+        <SeasonArchiveView archive={archive} currentUserId="u2" />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText('🏆 2025 Champion')).toBeInTheDocument();
+    expect(screen.getByText('412 pts')).toBeInTheDocument();
+    expect(screen.getByText('Final Standings')).toBeInTheDocument();
+    expect(screen.getByText('@bob')).toBeInTheDocument();
+    expect(screen.getByText('April 2025')).toBeInTheDocument();
+    expect(screen.getByText('Alice Able & Bob Baker')).toBeInTheDocument();
+    expect(screen.getByText('Gameweek 1')).toBeInTheDocument();
+  });
+
+  it('handles a season archived without any teams', () => {
+    render(
+      <MemoryRouter>
+        <SeasonArchiveView
+          archive={{ ...archive, standings: [], monthlyWinners: [], gameweekWinners: [] }}
+        />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText('No teams were entered')).toBeInTheDocument();
+    expect(screen.getByText('No standings were archived for this season.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,172 @@
+// Season Archive View - a completed season's frozen standings and period winners
+
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import DataTable, { Column } from '../DataTable';
+import { formatDate, formatPrice, formatWinnerNames } from '../../../utils/formatters';
+import type { ArchivedPeriodWinner, ArchivedStanding, SeasonArchive } from '@shared/types';
+import './SeasonArchiveView.css';
+
+interface SeasonArchiveViewProps {
+  archive: SeasonArchive;
+  currentUserId?: string;
+}
+
+const SeasonArchiveView: React.FC<SeasonArchiveViewProps> = ({ archive, currentUserId }) => {
+  const champions = archive.standings.filter((s) => s.rank === 1);
+
+  const standingColumns: Column<ArchivedStanding>[] = useMemo(
+    () => [
+      {
+        key: 'rank',
+        header: 'Rank',
+        width: '80px',
+        align: 'center',
+        render: (entry) => (
+          <span className={`dt-rank${entry.rank <= 3 ? ` dt-rank-${entry.rank}` : ''}`}>
+            {entry.rank === 1 && '🥇 '}
+            {entry.rank === 2 && '🥈 '}
+            {entry.rank === 3 && '🥉 '}
+            {entry.rank}
+          </span>
+        ),
+      },
+      {
+        key: 'user',
+        header: 'User',
+        render: (entry) => (
+          <Link to={`/users/${entry.userId}`} className="dt-text-link">
+            <div className="dt-info-cell">
+              <div className="dt-avatar">
+                {entry.firstName[0]}
+                {entry.lastName[0]}
+              </div>
+              <div className="dt-info-details">
+                <span className="dt-info-name">
+                  {entry.firstName} {entry.lastName}
+                  {entry.userId === currentUserId && <span className="dt-you-badge">You</span>}
+                </span>
+                <span className="dt-info-subtitle">@{entry.username}</span>
+              </div>
+            </div>
+          </Link>
+        ),
+      },
+      {
+        key: 'points',
+        header: 'Points',
+        width: '100px',
+        align: 'center',
+        render: (entry) => <span className="dt-text-price">{entry.totalPoints}</span>,
+      },
+      {
+        key: 'teamValue',
+        header: 'Team Value',
+        width: '120px',
+        align: 'center',
+        headerClassName: 'hide-on-mobile',
+        cellClassName: 'hide-on-mobile',
+        render: (entry) => formatPrice(entry.teamValue),
+      },
+      {
+        key: 'events',
+        header: 'Events',
+        width: '80px',
+        align: 'center',
+        headerClassName: 'hide-on-small',
+        cellClassName: 'hide-on-small',
+        render: (entry) => entry.eventsPlayed,
+      },
+    ],
+    [currentUserId]
+  );
+
+  const winnerColumns = (periodHeader: string): Column<ArchivedPeriodWinner>[] => [
+    { key: 'period', header: periodHeader, render: (period) => period.label },
+    {
+      key: 'winners',
+      header: 'Winner',
+      render: (period) => (
+        <span
+          className={
+            period.winners.some((w) => w.userId === currentUserId) ? 'season-archive-you' : ''
+          }
+        >
+          {formatWinnerNames(period.winners)}
+        </span>
+      ),
+    },
+    {
+      key: 'points',
+      header: 'Points',
+      width: '100px',
+      align: 'center',
+      render: (period) => <span className="dt-text-price">{period.points}</span>,
+    },
+  ];
+
+  return (
+    <div className="season-archive-view">
+      <div className="season-archive-champion">
+        <div className="leader-title">🏆 {archive.seasonName} Champion</div>
+        {champions.length > 0 ? (
+          <>
+            <div className="leader-name">{formatWinnerNames(champions)}</div>
+            <div className="leader-points">{champions[0].totalPoints} pts</div>
+          </>
+        ) : (
+          <div className="leader-empty">No teams were entered</div>
+        )}
+        <div className="season-archive-note">
+          Final standings archived {formatDate(archive.archivedAt)}
+        </div>
+      </div>
+
+      <div className="leaderboard-section">
+        <div className="section-header">
+          <div className="section-title-row">
+            <h2>Final Standings</h2>
+            <span className="section-meta">{archive.standings.length} participants</span>
+          </div>
+        </div>
+        <DataTable
+          data={archive.standings}
+          columns={standingColumns}
+          rowKey={(entry) => entry.userId}
+          rowClassName={(entry) => (entry.userId === currentUserId ? 'dt-row-highlighted' : '')}
+          emptyMessage="No standings were archived for this season."
+        />
+      </div>
+
+      <div className="leaderboard-section">
+        <div className="section-header">
+          <div className="section-title-row">
+            <h2>Managers of the Month</h2>
+          </div>
+        </div>
+        <DataTable
+          data={archive.monthlyWinners}
+          columns={winnerColumns('Month')}
+          rowKey={(period) => period.label}
+          emptyMessage="No monthly winners were archived for this season."
+        />
+      </div>
+
+      <div className="leaderboard-section">
+        <div className="section-header">
+          <div className="section-title-row">
+            <h2>Gameweek Winners</h2>
+          </div>
+        </div>
+        <DataTable
+          data={archive.gameweekWinners}
+          columns={winnerColumns('Gameweek')}
+          rowKey={(period) => period.label}
+          emptyMessage="No gameweek winners were archived for this season."
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SeasonArchiveView;
@@ -0,0 +1,80 @@
+const mockGet = vi.fn();
+const mockPut = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: vi.fn(),
+    put: mockPut,
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import SeasonAwardsModal from './SeasonAwardsModal';
+
+const manager = (id: string, firstName: string) => ({
+  id,
+  firstName,
+  lastName: 'Golfer',
+  username: firstName.toLowerCase(),
+});
+const alice = manager('u1', 'Alice');
+const bob = manager('u2', 'Bob');
+
+const award = (userId: string, firstName: string) => ({
+  id: `a-${userId}`,
+  userId,
+  type: 'week',
+  season: 2026,
+  label: 'Gameweek 2',
+  periodStart: '2026-04-11T00:00:00.000Z',
+  periodEnd: '2026-04-17T23:59:59.999Z',
+  points: 20,
+  shared: true,
+  overridden: false,
+  awardedBy: null,
+  awardedAt: '2026-04-18T00:00:00.000Z',
+  firstName,
+  lastName: 'Golfer',
+  username: firstName.toLowerCase(),
+});
+
+describe('SeasonAwardsModal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGet.mockImplementation((endpoint: string) =>
+      Promise.resolve(
+        endpoint === 'users-list'
+          ? { success: true, data: [alice, bob] }
+          : { success: true, data: [award('u1', 'Alice'), award('u2', 'Bob')] }
+      )
+    );
+  });
+
+  it('lists each period once with its shared winners', async () => {
+    render(<SeasonAwardsModal season={{ name: '2026' }} onClose={vi.fn()} />);
+
+    expect(await screen.findByText('Gameweek 2')).toBeInTheDocument();
+    expect(screen.getByText('Alice Golfer & Bob Golfer')).toBeInTheDocument();
+    expect(mockGet).toHaveBeenCalledWith('awards-list?season=2026');
+  });
+
+  it('overrides an award with the chosen managers', async () => {
+    mockPut.mockResolvedValue({ success: true, data: [award('u1', 'Alice')] });
+
+    render(<SeasonAwardsModal season={{ name: '2026' }} onClose={vi.fn()} />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Change' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save Award' }));
+
+    await waitFor(() =>
+      expect(mockPut).toHaveBeenCalledWith('awards-override', {
+        type: 'week',
+        season: 2026,
+        periodStart: '2026-04-11',
+        userIds: ['u1', 'u2'],
+      })
+    );
+    expect(await screen.findByText('Gameweek 2 updated')).toBeInTheDocument();
+  });
+});
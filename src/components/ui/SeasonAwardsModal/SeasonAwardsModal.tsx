@@ -0,0 +1,253 @@
+// Season Awards Modal - review a season's manager of the week / month awards and override them
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useApiClient } from '../../../hooks/useApiClient';
+import { formatWinnerNames } from '../../../utils/formatters';
+import { AWARD_TITLES, type Award, type AwardType, type AwardWithManager } from '@shared/types';
+import './SeasonAwardsModal.css';
+
+interface AwardsSeason {
+  name: string;
+}
+
+interface Manager {
+  id: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+}
+
+interface SeasonAwardsModalProps {
+  season: AwardsSeason;
+  onClose: () => void;
+}
+
+// The winners of one award for one period
+interface AwardPeriod {
+  key: string;
+  type: AwardType;
+  label: string;
+  periodStart: string;
+  points: number;
+  overridden: boolean;
+  winners: AwardWithManager[];
+}
+
+const toDateInput = (date: Date | string) => new Date(date).toISOString().split('T')[0];
+
+function groupByPeriod(awards: AwardWithManager[]): AwardPeriod[] {
+  const periods = new Map<string, AwardPeriod>();
+  for (const award of awards) {
+    const key = `${award.type}:${award.periodStart}`;
+    const period = periods.get(key);
+    if (period) {
+      period.winners.push(award);
+    } else {
+      periods.set(key, {
+        key,
+        type: award.type,
+        label: award.label,
+        periodStart: toDateInput(award.periodStart),
+        points: award.points,
+        overridden: award.overridden,
+        winners: [award],
+      });
+    }
+  }
+  return [...periods.values()];
+}
+
+const SeasonAwardsModal: React.FC<SeasonAwardsModalProps> = ({ season, onClose }) => {
+  const { get, put } = useApiClient();
+  const [periods, setPeriods] = useState<AwardPeriod[]>([]);
+  const [managers, setManagers] = useState<Manager[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [type, setType] = useState<AwardType>('week');
+  const [periodStart, setPeriodStart] = useState('');
+  const [userIds, setUserIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const fetchAwards = useCallback(async () => {
+    const response = await get<AwardWithManager[]>(`awards-list?season=${season.name}`);
+    if (response.cancelled) return;
+    if (response.success && response.data) {
+      setPeriods(groupByPeriod(response.data));
+    } else {
+      setError(response.error || 'Failed to load awards');
+    }
+    setLoading(false);
+  }, [get, season.name]);
+
+  useEffect(() => {
+    fetchAwards();
+    get<Manager[]>('users-list').then((response) => {
+      if (!response.cancelled && response.success && response.data) {
+        setManagers(response.data);
+      }
+    });
+  }, [get, fetchAwards]);
+
+  const handleEdit = (period: AwardPeriod) => {
+    setType(period.type);
+    setPeriodStart(period.periodStart);
+    setUserIds(period.winners.map((w) => w.userId));
+    setError('');
+    setSuccess('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await put<Award[]>('awards-override', {
+        type,
+        season: parseInt(season.name, 10),
+        periodStart,
+        userIds,
+      });
+      if (!response.success) throw new Error(response.error || 'Failed to override award');
+      setSuccess(`${response.data?.[0]?.label ?? 'Award'} updated`);
+      fetchAwards();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={saving ? undefined : onClose}>
+      <div
+        className="modal season-awards-modal"
+        role="dialog"
+        aria-label={`${season.name} Awards`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <h2>🏅 {season.name} Awards</h2>
+          <button className="modal-close" onClick={onClose} disabled={saving}>
+            ×
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="alert alert-error">{error}</div>}
+          {success && <div className="alert alert-success">{success}</div>}
+
+          {loading ? (
+            <p>Loading awards...</p>
+          ) : periods.length === 0 ? (
+            <p className="season-awards-empty">
+              No awards yet. They are given out daily once each gameweek or month closes.
+            </p>
+          ) : (
+            <table className="admin-table season-awards-table">
+              <thead>
+                <tr>
+                  <th>Period</th>
+                  <th>Award</th>
+                  <th>Winner</th>
+                  <th>Pts</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {periods.map((period) => (
+                  <tr key={period.key}>
+                    <td>{period.label}</td>
+                    <td>{AWARD_TITLES[period.type]}</td>
+                    <td>
+                      {formatWinnerNames(period.winners)}
+                      {period.overridden && (
+                        <span className="badge badge-gray season-awards-overridden">
+                          Overridden
+                        </span>
+                      )}
+                    </td>
+                    <td>{period.points}</td>
+                    <td>
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleEdit(period)}
+                      >
+                        Change
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <fieldset className="season-awards-override">
+            <legend>Override an Award</legend>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="award-type">Award</label>
+                <select
+                  id="award-type"
+                  className="form-input"
+                  value={type}
+                  onChange={(e) => setType(e.target.value as AwardType)}
+                >
+                  <option value="week">{AWARD_TITLES.week}</option>
+                  <option value="month">{AWARD_TITLES.month}</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="award-period">
+                  Any date in the {type === 'week' ? 'gameweek' : 'month'}
+                </label>
+                <input
+                  type="date"
+                  id="award-period"
+                  className="form-input"
+                  value={periodStart}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="award-winners">Winners</label>
+              <select
+                id="award-winners"
+                className="form-input"
+                multiple
+                value={userIds}
+                onChange={(e) =>
+                  setUserIds(Array.from(e.target.selectedOptions, (option) => option.value))
+                }
+              >
+                {managers.map((manager) => (
+                  <option key={manager.id} value={manager.id}>
+                    {manager.firstName} {manager.lastName} (@{manager.username})
+                  </option>
+                ))}
+              </select>
+              <span className="season-awards-hint">
+                Choose more than one manager to share the award.
+              </span>
+            </div>
+          </fieldset>
+        </div>
+        <div className="modal-footer">
+          <button type="button" className="btn btn-secondary" onClick={onClose} disabled={saving}>
+            Close
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={handleSave}
+            disabled={saving || !periodStart || userIds.length === 0}
+          >
+            {saving ? 'Saving...' : 'Save Award'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonAwardsModal;
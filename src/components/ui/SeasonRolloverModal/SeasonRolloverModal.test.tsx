@@ -0,0 +1,107 @@
+const mockGet = vi.fn();
+const mockPost = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: mockPost,
+    put: vi.fn(),
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import SeasonRolloverModal from './SeasonRolloverModal';
+import type { SeasonRollover } from '@shared/types';
+
+const activeSeason = {
+  name: '2026',
+  startDate: '2026-04-01T00:00:00.000Z',
+  endDate: '2027-03-31T00:00:00.000Z',
+};
+
+const stalled: SeasonRollover = {
+  id: 'r1',
+  fromSeasonId: 's1',
+  fromSeasonName: '2026',
+  toSeasonId: null,
+  toSeasonName: '2027',
+  startDate: '2027-04-01T00:00:00.000Z' as unknown as Date,
+  endDate: '2028-03-31T00:00:00.000Z' as unknown as Date,
+  carryOverTeams: false,
+  status: 'in_progress',
+  completedSteps: ['closeSeason', 'archiveStandings'],
+  teamsCarriedOver: 0,
+  teamsNotCarriedOver: 0,
+  lastError: 'timeout',
+  startedBy: 'admin',
+  startedAt: new Date(),
+  completedAt: null,
+};
+
+describe('SeasonRolloverModal', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('starts the next season once confirmed', async () => {
+    const done = { ...stalled, status: 'complete' as const, carryOverTeams: true };
+    mockPost.mockResolvedValue({ success: true, data: done });
+    const onComplete = vi.fn();
+
+    render(
+      <SeasonRolloverModal
+        activeSeason={activeSeason}
+        inProgress={null}
+        onClose={vi.fn()}
+        onComplete={onComplete}
+      />
+    );
+
+    expect(screen.getByLabelText('New Season')).toHaveValue('2027');
+    expect(screen.getByLabelText('Start Date')).toHaveValue('2027-04-01');
+    const start = screen.getByRole('button', { name: 'Start Season 2027' });
+    expect(start).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Type CONFIRM to roll over'), {
+      target: { value: 'CONFIRM' },
+    });
+    fireEvent.click(start);
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalledWith(done));
+    expect(mockPost).toHaveBeenCalledWith('seasons-rollover', {
+      name: '2027',
+      startDate: '2027-04-01',
+      endDate: '2028-03-31',
+      carryOverTeams: true,
+      confirm: 'CONFIRM',
+    });
+    expect(screen.getByText(/Season 2027 is now active/)).toBeInTheDocument();
+  });
+
+  it('resumes a stalled rollover with its original options', async () => {
+    mockPost.mockResolvedValue({ success: false, error: 'Recalculate opening prices failed' });
+    mockGet.mockResolvedValue({ success: true, data: stalled });
+
+    render(
+      <SeasonRolloverModal
+        activeSeason={activeSeason}
+        inProgress={stalled}
+        onClose={vi.fn()}
+        onComplete={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText(/stopped before it finished/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Resume Rollover' }));
+
+    await waitFor(() =>
+      expect(screen.getByText('Recalculate opening prices failed')).toBeInTheDocument()
+    );
+    expect(mockPost).toHaveBeenCalledWith('seasons-rollover', {
+      name: '2027',
+      startDate: '2027-04-01',
+      endDate: '2028-03-31',
+      carryOverTeams: false,
+      confirm: 'CONFIRM',
+    });
+  });
+});
@@ -0,0 +1,260 @@
+// Season Rollover Modal - close the active season and open the next in one go
+
+import React, { useState } from 'react';
+import { useApiClient } from '../../../hooks/useApiClient';
+import {
+  SEASON_ROLLOVER_STEPS,
+  SEASON_ROLLOVER_STEP_LABELS,
+  type SeasonRollover,
+} from '@shared/types';
+import './SeasonRolloverModal.css';
+
+interface RolloverSeason {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface SeasonRolloverModalProps {
+  activeSeason: RolloverSeason | null;
+  /** A rollover that stopped part way, resumed with the options it was started with */
+  inProgress: SeasonRollover | null;
+  onClose: () => void;
+  /** Called once every step has completed */
+  onComplete: (rollover: SeasonRollover) => void;
+}
+
+const toDateInput = (date: Date | string) => new Date(date).toISOString().split('T')[0];
+
+// The same dates a year on from the season being closed
+const nextYear = (date: string) => {
+  const next = new Date(date);
+  next.setUTCFullYear(next.getUTCFullYear() + 1);
+  return toDateInput(next);
+};
+
+const SeasonRolloverModal: React.FC<SeasonRolloverModalProps> = ({
+  activeSeason,
+  inProgress,
+  onClose,
+  onComplete,
+}) => {
+  const { get, post } = useApiClient();
+  const [rollover, setRollover] = useState<SeasonRollover | null>(inProgress);
+  const [name, setName] = useState(
+    activeSeason ? String((parseInt(activeSeason.name, 10) || new Date().getFullYear()) + 1) : ''
+  );
+  const [startDate, setStartDate] = useState(activeSeason ? nextYear(activeSeason.startDate) : '');
+  const [endDate, setEndDate] = useState(activeSeason ? nextYear(activeSeason.endDate) : '');
+  const [carryOverTeams, setCarryOverTeams] = useState(true);
+  const [confirmText, setConfirmText] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  const resuming = rollover?.status === 'in_progress';
+  const complete = rollover?.status === 'complete';
+  const completedSteps = rollover?.completedSteps ?? [];
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError('');
+    const body = resuming
+      ? {
+          name: rollover.toSeasonName,
+          startDate: toDateInput(rollover.startDate),
+          endDate: toDateInput(rollover.endDate),
+          carryOverTeams: rollover.carryOverTeams,
+          confirm: 'CONFIRM',
+        }
+      : { name, startDate, endDate, carryOverTeams, confirm: confirmText };
+
+    try {
+      const response = await post<SeasonRollover>('seasons-rollover', body);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to roll over season');
+      }
+      setRollover(response.data);
+      onComplete(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      // Pick up whichever steps finished before the failure
+      const latest = await get<SeasonRollover | null>('seasons-rollover');
+      if (latest.success && latest.data?.status === 'in_progress') {
+        setRollover(latest.data);
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const canStart = !!activeSeason && /^\d{4}$/.test(name) && !!startDate && endDate > startDate;
+
+  return (
+    <div className="modal-overlay" onClick={running ? undefined : onClose}>
+      <div
+        className="modal season-rollover-modal"
+        role="dialog"
+        aria-label="Roll Over Season"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <h2>🔄 Roll Over Season</h2>
+          <button className="modal-close" onClick={onClose} disabled={running}>
+            ×
+          </button>
+        </div>
+        <div className="modal-body">
+          {error && <div className="alert alert-error">{error}</div>}
+
+          {complete && (
+            <div className="alert alert-success">
+              Season {rollover.toSeasonName} is now active.
+              {rollover.carryOverTeams && (
+                <>
+                  {' '}
+                  Carried over {rollover.teamsCarriedOver} team
+                  {rollover.teamsCarriedOver !== 1 ? 's' : ''}
+                  {rollover.teamsNotCarriedOver > 0 &&
+                    `; ${rollover.teamsNotCarriedOver} with retired golfers or over budget must pick a fresh team`}
+                  .
+                </>
+              )}
+            </div>
+          )}
+
+          {resuming && (
+            <p className="season-rollover-intro">
+              The rollover from {rollover.fromSeasonName} to {rollover.toSeasonName} stopped before
+              it finished. Resuming carries on from the first unfinished step with the options it
+              was started with.
+            </p>
+          )}
+
+          {!rollover && !activeSeason && (
+            <p className="season-rollover-intro">There is no active season to roll over.</p>
+          )}
+
+          {!rollover && activeSeason && (
+            <>
+              <p className="season-rollover-intro">
+                Close season {activeSeason.name} and start the next. Transfers and new teams are
+                opened for the pre-season.
+              </p>
+
+              <div className="form-group">
+                <label htmlFor="rollover-name">New Season</label>
+                <input
+                  type="text"
+                  id="rollover-name"
+                  className="form-input"
+                  value={name}
+                  onChange={(e) => setName(e.target.value.trim())}
+                  placeholder="2027"
+                />
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="rollover-start">Start Date</label>
+                  <input
+                    type="date"
+                    id="rollover-start"
+                    className="form-input"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="rollover-end">End Date</label>
+                  <input
+                    type="date"
+                    id="rollover-end"
+                    className="form-input"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <fieldset className="season-rollover-teams">
+                <legend>Teams</legend>
+                <label>
+                  <input
+                    type="radio"
+                    name="rollover-teams"
+                    checked={carryOverTeams}
+                    onChange={() => setCarryOverTeams(true)}
+                  />
+                  Carry over last season&apos;s teams at the new prices
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    name="rollover-teams"
+                    checked={!carryOverTeams}
+                    onChange={() => setCarryOverTeams(false)}
+                  />
+                  Everyone picks a fresh team
+                </label>
+              </fieldset>
+            </>
+          )}
+
+          {(rollover || activeSeason) && (
+            <ol className="season-rollover-steps">
+              {SEASON_ROLLOVER_STEPS.map((step) => (
+                <li
+                  key={step}
+                  className={completedSteps.includes(step) ? 'season-rollover-step-done' : ''}
+                >
+                  <span aria-hidden="true">{completedSteps.includes(step) ? '✅' : '⬜'}</span>{' '}
+                  {SEASON_ROLLOVER_STEP_LABELS[step]}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {!rollover && activeSeason && (
+            <div className="form-group">
+              <label htmlFor="rollover-confirm">Type CONFIRM to roll over</label>
+              <input
+                type="text"
+                id="rollover-confirm"
+                className="form-input"
+                value={confirmText}
+                onChange={(e) => setConfirmText(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button type="button" className="btn btn-secondary" onClick={onClose} disabled={running}>
+            {complete ? 'Done' : 'Cancel'}
+          </button>
+          {resuming && (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleRun}
+              disabled={running}
+            >
+              {running ? 'Resuming...' : 'Resume Rollover'}
+            </button>
+          )}
+          {!rollover && activeSeason && (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleRun}
+              disabled={running || !canStart || confirmText !== 'CONFIRM'}
+            >
+              {running ? 'Rolling over...' : `Start Season ${name}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonRolloverModal;
@@ -1,11 +1,16 @@
+let mockSeasons: unknown[] | null = null;
 vi.mock('@/hooks/useAsyncData', () => ({
-  useAsyncData: () => ({ data: null, loading: false, error: null }),
+  useAsyncData: () => ({ data: mockSeasons, loading: false, error: null }),
 }));
 
 import { render, screen, fireEvent } from '@testing-library/react';
 import SeasonSelector from './SeasonSelector';
 
 describe('SeasonSelector', () => {
+  afterEach(() => {
+    mockSeasons = null;
+  });
+
   it('renders a select element', () => {
     render(<SeasonSelector value="overall" onChange={vi.fn()} />);
     expect(screen.getByRole('combobox')).toBeInTheDocument();
@@ -22,4 +27,14 @@ describe('SeasonSelector', () => {
     render(<SeasonSelector value="overall" onChange={vi.fn()} />);
     expect(screen.getByText('Overall')).toBeInTheDocument();
   });
+
+  it('marks completed seasons as final', () => {
+    mockSeasons = [
+      { id: 's1', name: '2025', status: 'complete' },
+      { id: 's2', name: '2026', status: 'active' },
+    ];
+    render(<SeasonSelector value="2026" onChange={vi.fn()} />);
+    expect(screen.getByText('2025 Season (Final)')).toBeInTheDocument();
+    expect(screen.getByText('2026 Season')).toBeInTheDocument();
+  });
 });
@@ -26,7 +26,7 @@ export default function SeasonSelector({ value, onChange, className }: SeasonSel
           <option value="overall">Overall</option>
           {sorted.map((s) => (
             <option key={s.id} value={s.name}>
-              {s.name} Season
+              {s.name} Season{s.status === 'complete' ? ' (Final)' : ''}
             </option>
           ))}
         </>
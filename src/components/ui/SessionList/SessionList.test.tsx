@@ -0,0 +1,97 @@
+const mockGet = vi.fn();
+const mockPost = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: mockPost,
+    put: vi.fn(),
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import SessionList from './SessionList';
+
+const sessions = [
+  {
+    id: 'laptop',
+    device: 'Chrome on Windows',
+    ipAddress: '203.0.113.5',
+    lastUsedAt: '2026-05-09T07:45:00Z',
+    current: true,
+  },
+  {
+    id: 'phone',
+    device: 'Safari on iPhone',
+    ipAddress: null,
+    lastUsedAt: '2026-05-02T18:00:00Z',
+    current: false,
+  },
+  {
+    id: 'tablet',
+    device: 'Chrome on Android',
+    ipAddress: null,
+    lastUsedAt: '2026-04-28T12:00:00Z',
+    current: false,
+  },
+];
+
+describe('SessionList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGet.mockResolvedValue({ success: true, data: sessions });
+  });
+
+  it('lists sessions with this device marked', async () => {
+    render(<SessionList />);
+
+    expect(await screen.findByText('Chrome on Windows')).toBeInTheDocument();
+    expect(mockGet).toHaveBeenCalledWith('sessions-list');
+    expect(screen.getByText('This device')).toBeInTheDocument();
+    expect(screen.getByText('Safari on iPhone')).toBeInTheDocument();
+    // Only the other devices can be signed out from here
+    expect(screen.getAllByRole('button', { name: 'Sign out' })).toHaveLength(2);
+  });
+
+  it('signs out one session', async () => {
+    mockPost.mockResolvedValue({ success: true, data: { revoked: 1 } });
+
+    render(<SessionList />);
+    await screen.findByText('Safari on iPhone');
+    fireEvent.click(screen.getAllByRole('button', { name: 'Sign out' })[0]);
+
+    expect(await screen.findByText('Signed out of Safari on iPhone')).toBeInTheDocument();
+    expect(mockPost).toHaveBeenCalledWith('sessions-revoke', { sessionId: 'phone' });
+    expect(screen.queryByText('Safari on iPhone')).not.toBeInTheDocument();
+  });
+
+  it('signs out all other sessions', async () => {
+    mockPost.mockResolvedValue({ success: true, data: { revoked: 2 } });
+
+    render(<SessionList />);
+    await screen.findByText('Safari on iPhone');
+    fireEvent.click(screen.getByRole('button', { name: 'Sign Out All Other Devices' }));
+
+    expect(await screen.findByText('Signed out of all other devices')).toBeInTheDocument();
+    expect(mockPost).toHaveBeenCalledWith('sessions-revoke', { allOthers: true });
+    expect(screen.getByText('Chrome on Windows')).toBeInTheDocument();
+    expect(screen.queryByText('Chrome on Android')).not.toBeInTheDocument();
+  });
+
+  it("lets admins sign out all of another user's sessions", async () => {
+    mockGet.mockResolvedValue({
+      success: true,
+      data: sessions.map((s) => ({ ...s, current: false })),
+    });
+    mockPost.mockResolvedValue({ success: true, data: { revoked: 3 } });
+
+    render(<SessionList userId="user-2" />);
+    await screen.findByText('Chrome on Windows');
+    expect(mockGet).toHaveBeenCalledWith('users-sessions-list?userId=user-2');
+    fireEvent.click(screen.getByRole('button', { name: 'Sign Out Everywhere' }));
+
+    expect(await screen.findByText('Not signed in on any devices.')).toBeInTheDocument();
+    expect(mockPost).toHaveBeenCalledWith('users-sessions-revoke', { userId: 'user-2', all: true });
+  });
+});
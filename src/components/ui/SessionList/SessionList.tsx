@@ -0,0 +1,146 @@
+// Session List - the devices a user is signed in on, with sign-out buttons
+
+import React, { useEffect, useState } from 'react';
+import { useApiClient } from '../../../hooks/useApiClient';
+import { formatDateTime } from '../../../utils/formatters';
+import type { ActiveSession } from '@shared/types';
+import './SessionList.css';
+
+interface SessionListProps {
+  userId?: string; // Set by admins viewing another user; otherwise the signed-in user's own
+}
+
+const SessionList: React.FC<SessionListProps> = ({ userId }) => {
+  const { get, post, isAuthReady } = useApiClient();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [success, setSuccess] = useState('');
+  const [error, setError] = useState('');
+  const isAdminView = Boolean(userId);
+
+  useEffect(() => {
+    if (!isAuthReady) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const response = await get<ActiveSession[]>(
+        userId ? `users-sessions-list?userId=${userId}` : 'sessions-list'
+      );
+      if (response.cancelled || cancelled) return;
+      if (response.success && response.data) {
+        setSessions(response.data);
+      } else {
+        setError(response.error || 'Failed to load sessions');
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [get, isAuthReady, userId]);
+
+  const revoke = async (body: object, busy: string, onDone: () => void, message: string) => {
+    setBusyId(busy);
+    setSuccess('');
+    setError('');
+
+    try {
+      const response = await post<{ revoked: number }>(
+        isAdminView ? 'users-sessions-revoke' : 'sessions-revoke',
+        isAdminView ? { userId, ...body } : body
+      );
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to sign out');
+      }
+      onDone();
+      setSuccess(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revokeOne = (session: ActiveSession) =>
+    revoke(
+      { sessionId: session.id },
+      session.id,
+      () => setSessions((current) => current.filter((s) => s.id !== session.id)),
+      `Signed out of ${session.device}`
+    );
+
+  const revokeAll = () =>
+    isAdminView
+      ? revoke({ all: true }, 'all', () => setSessions([]), 'Signed out of all devices')
+      : revoke(
+          { allOthers: true },
+          'all',
+          () => setSessions((current) => current.filter((s) => s.current)),
+          'Signed out of all other devices'
+        );
+
+  const others = sessions.filter((s) => !s.current);
+
+  if (loading) {
+    return <p className="session-list-empty">Loading sessions...</p>;
+  }
+
+  return (
+    <div className="session-list">
+      {success && <div className="alert alert-success">{success}</div>}
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {sessions.length === 0 ? (
+        <p className="session-list-empty">Not signed in on any devices.</p>
+      ) : (
+        <ul className="session-list-items">
+          {sessions.map((session) => (
+            <li key={session.id} className="session-list-item">
+              <div className="session-list-details">
+                <span className="session-list-device">
+                  {session.device}
+                  {session.current && <span className="session-list-current">This device</span>}
+                </span>
+                <span className="session-list-meta">
+                  Last active {formatDateTime(session.lastUsedAt)}
+                  {session.ipAddress && ` · ${session.ipAddress}`}
+                </span>
+              </div>
+              {!session.current && (
+                <button
+                  type="button"
+                  className="btn btn-secondary session-list-revoke"
+                  onClick={() => revokeOne(session)}
+                  disabled={busyId !== null}
+                >
+                  {busyId === session.id ? 'Signing out...' : 'Sign out'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {others.length > 0 && (
+        <button
+          type="button"
+          className="btn btn-danger"
+          onClick={revokeAll}
+          disabled={busyId !== null}
+        >
+          {busyId === 'all'
+            ? 'Signing out...'
+            : isAdminView
+              ? 'Sign Out Everywhere'
+              : 'Sign Out All Other Devices'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,77 @@
+const mockGet = vi.fn();
+const mockPut = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: mockGet,
+    post: vi.fn(),
+    put: mockPut,
+    del: vi.fn(),
+    isAuthReady: true,
+  }),
+}));
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import SmsReminderSettings from './SmsReminderSettings';
+
+const saved = {
+  enabled: true,
+  types: ['no_captain'],
+  quietHoursStart: 22,
+  quietHoursEnd: 8,
+};
+
+describe('SmsReminderSettings', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('shows the saved preferences', async () => {
+    mockGet.mockResolvedValue({ success: true, data: saved });
+
+    render(<SmsReminderSettings phoneNumber="+447123456789" />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Send me SMS reminders')).toBeChecked();
+    });
+    expect(mockGet).toHaveBeenCalledWith('sms-reminders-preferences');
+    expect(screen.getByLabelText('My team has no captain')).toBeChecked();
+    expect(screen.getByLabelText('Transfers close in 24 hours')).not.toBeChecked();
+    expect(screen.getByLabelText('Quiet hours start')).toHaveValue('22');
+  });
+
+  it('saves changes', async () => {
+    mockGet.mockResolvedValue({ success: true, data: saved });
+    mockPut.mockResolvedValue({ success: true, data: { ...saved, quietHoursStart: null } });
+
+    render(<SmsReminderSettings phoneNumber="+447123456789" />);
+    await waitFor(() => {
+      expect(screen.getByLabelText('Send me SMS reminders')).toBeChecked();
+    });
+
+    fireEvent.click(screen.getByLabelText('Transfers close in 24 hours'));
+    fireEvent.click(screen.getByLabelText("Don't text me between"));
+    fireEvent.click(screen.getByRole('button', { name: 'Save Reminders' }));
+
+    expect(mockPut).toHaveBeenCalledWith('sms-reminders-preferences', {
+      enabled: true,
+      types: ['no_captain', 'transfer_deadline'],
+      quietHoursStart: null,
+      quietHoursEnd: null,
+    });
+    expect(await screen.findByText('SMS reminders updated')).toBeInTheDocument();
+  });
+
+  it('shows why reminders could not be turned on', async () => {
+    mockGet.mockResolvedValue({ success: true, data: { ...saved, enabled: false } });
+    mockPut.mockResolvedValue({
+      success: false,
+      error: 'Verify your phone number before turning on SMS reminders',
+    });
+
+    render(<SmsReminderSettings phoneNumber={null} />);
+    fireEvent.click(screen.getByLabelText('Send me SMS reminders'));
+    fireEvent.click(screen.getByRole('button', { name: 'Save Reminders' }));
+
+    expect(
+      await screen.findByText('Verify your phone number before turning on SMS reminders')
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,177 @@
+// SMS Reminder Settings - opt in to texts ahead of the weekly transfer deadline
+
+import React, { useEffect, useState } from 'react';
+import { useApiClient } from '../../../hooks/useApiClient';
+import {
+  DEFAULT_SMS_REMINDER_PREFERENCES,
+  SMS_REMINDER_LABELS,
+  SMS_REMINDER_TYPES,
+  type SmsReminderPreferences,
+  type SmsReminderType,
+} from '@shared/types';
+import './SmsReminderSettings.css';
+
+interface SmsReminderSettingsProps {
+  phoneNumber: string | null;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const SmsReminderSettings: React.FC<SmsReminderSettingsProps> = ({ phoneNumber }) => {
+  const { get, put, isAuthReady } = useApiClient();
+  const [preferences, setPreferences] = useState<SmsReminderPreferences>(
+    DEFAULT_SMS_REMINDER_PREFERENCES
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [success, setSuccess] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isAuthReady) return;
+    let cancelled = false;
+
+    const load = async () => {
+      const response = await get<SmsReminderPreferences>('sms-reminders-preferences');
+      if (response.cancelled || cancelled) return;
+      if (response.success && response.data) {
+        setPreferences(response.data);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [get, isAuthReady]);
+
+  const update = (changes: Partial<SmsReminderPreferences>) => {
+    setPreferences((current) => ({ ...current, ...changes }));
+    setSuccess('');
+  };
+
+  const toggleType = (type: SmsReminderType) => {
+    update({
+      types: preferences.types.includes(type)
+        ? preferences.types.filter((t) => t !== type)
+        : [...preferences.types, type],
+    });
+  };
+
+  const quietHoursOn = preferences.quietHoursStart !== null && preferences.quietHoursEnd !== null;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setSuccess('');
+    setError('');
+
+    try {
+      const response = await put<SmsReminderPreferences>('sms-reminders-preferences', preferences);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to update SMS reminders');
+      }
+      setPreferences(response.data);
+      setSuccess('SMS reminders updated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="profile-card sms-reminder-settings">
+      <div className="profile-card-header">
+        <h2>📱 SMS Reminders</h2>
+      </div>
+      <form onSubmit={handleSave} className="profile-form">
+        {success && <div className="alert alert-success">{success}</div>}
+        {error && <div className="alert alert-error">{error}</div>}
+
+        <p className="sms-reminder-intro">
+          Get a text the day before transfers close on Saturday at 8am
+          {phoneNumber ? ` at ${phoneNumber}` : ''}.
+        </p>
+
+        <label className="sms-reminder-option">
+          <input
+            type="checkbox"
+            checked={preferences.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+          />
+          Send me SMS reminders
+        </label>
+
+        <fieldset className="sms-reminder-types" disabled={!preferences.enabled}>
+          <legend>Remind me when</legend>
+          {SMS_REMINDER_TYPES.map((type) => (
+            <label key={type} className="sms-reminder-option">
+              <input
+                type="checkbox"
+                checked={preferences.types.includes(type)}
+                onChange={() => toggleType(type)}
+              />
+              {SMS_REMINDER_LABELS[type]}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="sms-reminder-quiet-hours" disabled={!preferences.enabled}>
+          <legend>Quiet hours (UK time)</legend>
+          <label className="sms-reminder-option">
+            <input
+              type="checkbox"
+              checked={quietHoursOn}
+              onChange={(e) =>
+                update(
+                  e.target.checked
+                    ? {
+                        quietHoursStart: DEFAULT_SMS_REMINDER_PREFERENCES.quietHoursStart,
+                        quietHoursEnd: DEFAULT_SMS_REMINDER_PREFERENCES.quietHoursEnd,
+                      }
+                    : { quietHoursStart: null, quietHoursEnd: null }
+                )
+              }
+            />
+            Don&apos;t text me between
+          </label>
+          {quietHoursOn && (
+            <div className="sms-reminder-hours">
+              <select
+                aria-label="Quiet hours start"
+                value={preferences.quietHoursStart ?? ''}
+                onChange={(e) => update({ quietHoursStart: Number(e.target.value) })}
+              >
+                {HOURS.map((hour) => (
+                  <option key={hour} value={hour}>
+                    {formatHour(hour)}
+                  </option>
+                ))}
+              </select>
+              <span>and</span>
+              <select
+                aria-label="Quiet hours end"
+                value={preferences.quietHoursEnd ?? ''}
+                onChange={(e) => update({ quietHoursEnd: Number(e.target.value) })}
+              >
+                {HOURS.map((hour) => (
+                  <option key={hour} value={hour}>
+                    {formatHour(hour)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </fieldset>
+
+        <button type="submit" className="btn btn-primary" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Reminders'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SmsReminderSettings;
@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import TeamGolferTable from './TeamGolferTable';
 import type { GolferData } from './TeamGolferTable';
@@ -38,4 +38,34 @@ describe('TeamGolferTable', () => {
     );
     expect(screen.getByText('24 pts')).toBeInTheDocument();
   });
+
+  it('toggles the vice-captain on your own team', () => {
+    const onSetViceCaptain = vi.fn();
+    render(
+      <MemoryRouter>
+        <TeamGolferTable
+          golfers={mockGolfers}
+          isOwnTeam={true}
+          onSetCaptain={vi.fn()}
+          onSetViceCaptain={onSetViceCaptain}
+        />
+      </MemoryRouter>
+    );
+    fireEvent.click(screen.getByTitle('Make vice-captain'));
+    expect(onSetViceCaptain).toHaveBeenCalledWith('1');
+  });
+
+  it('shows each golfer\'s profit or loss when known', () => {
+    render(
+      <MemoryRouter>
+        <TeamGolferTable
+          golfers={[
+            { ...mockGolfers[0], purchasePrice: 8_000_000, sellingPrice: 8_200_000, profit: 200_000 },
+          ]}
+        />
+      </MemoryRouter>
+    );
+    expect(screen.getByText('P/L')).toBeInTheDocument();
+    expect(screen.getByTitle('Bought for $8.0M, sells for $8.2M')).toHaveTextContent('+$0.2M');
+  });
 });
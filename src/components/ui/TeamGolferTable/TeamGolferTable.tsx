@@ -1,6 +1,7 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import DataTable, { Column } from '../DataTable';
+import { formatPrice } from '../../../utils/formatters';
 
 interface GolferData {
   golfer: {
@@ -11,6 +12,10 @@ interface GolferData {
   };
   weekPoints: number;
   isCaptain: boolean;
+  isViceCaptain?: boolean;
+  purchasePrice?: number | null;
+  sellingPrice?: number | null;
+  profit?: number | null; // Selling price less purchase price
 }
 
 interface TeamGolferTableProps {
@@ -18,6 +23,7 @@ interface TeamGolferTableProps {
   weekTotal?: number;
   isOwnTeam?: boolean;
   onSetCaptain?: (golferId: string) => void;
+  onSetViceCaptain?: (golferId: string) => void;
 }
 
 const TeamGolferTable: React.FC<TeamGolferTableProps> = ({
@@ -25,7 +31,61 @@ const TeamGolferTable: React.FC<TeamGolferTableProps> = ({
   weekTotal,
   isOwnTeam = false,
   onSetCaptain,
+  onSetViceCaptain,
 }) => {
+  const showViceCaptain = !!onSetViceCaptain || golfers.some((g) => g.isViceCaptain);
+  const viceCaptainColumn: Column<GolferData> = {
+    key: 'vice-captain',
+    header: 'VC',
+    align: 'center',
+    render: (data) => {
+      if (isOwnTeam && onSetViceCaptain) {
+        return (
+          <button
+            className={`captain-toggle ${data.isViceCaptain ? 'active' : ''}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSetViceCaptain(data.golfer.id);
+            }}
+            disabled={data.isCaptain}
+            title={data.isViceCaptain ? 'Remove vice-captain' : 'Make vice-captain'}
+          >
+            V
+          </button>
+        );
+      }
+      return data.isViceCaptain ? (
+        <span className="captain-indicator" title="Vice-captain (captains if the captain doesn't play)">
+          VC
+        </span>
+      ) : null;
+    },
+  };
+
+  const showProfit = golfers.some((g) => g.profit != null);
+  const profitColumn: Column<GolferData> = {
+    key: 'profit',
+    header: 'P/L',
+    align: 'right',
+    render: (data) => {
+      if (data.profit == null) return null;
+      const sign = data.profit > 0 ? '+' : data.profit < 0 ? '-' : '';
+      return (
+        <span
+          className={`golfer-profit ${data.profit > 0 ? 'up' : data.profit < 0 ? 'down' : ''}`}
+          title={
+            data.purchasePrice != null && data.sellingPrice != null
+              ? `Bought for ${formatPrice(data.purchasePrice)}, sells for ${formatPrice(data.sellingPrice)}`
+              : undefined
+          }
+        >
+          {sign}
+          {formatPrice(Math.abs(data.profit))}
+        </span>
+      );
+    },
+  };
+
   const columns: Column<GolferData>[] = [
     {
       key: 'captain',
@@ -53,6 +113,7 @@ const TeamGolferTable: React.FC<TeamGolferTableProps> = ({
         ) : null;
       },
     },
+    ...(showViceCaptain ? [viceCaptainColumn] : []),
     {
       key: 'golfer',
       header: 'Golfer',
@@ -78,6 +139,7 @@ const TeamGolferTable: React.FC<TeamGolferTableProps> = ({
         </div>
       ),
     },
+    ...(showProfit ? [profitColumn] : []),
     {
       key: 'week-pts',
       header: 'Week Pts',
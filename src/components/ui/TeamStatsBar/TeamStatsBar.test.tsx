@@ -31,4 +31,20 @@ describe('TeamStatsBar', () => {
     expect(screen.getByText('#3')).toBeInTheDocument();
     expect(screen.getByText('#5')).toBeInTheDocument();
   });
+
+  it('renders team value and bank when provided', () => {
+    render(
+      <TeamStatsBar
+        weekPoints={0}
+        monthPoints={0}
+        seasonPoints={0}
+        teamValue={49_500_000}
+        bank={1_200_000}
+      />
+    );
+    expect(screen.getByText('$49.5M')).toBeInTheDocument();
+    expect(screen.getByText('Team Value')).toBeInTheDocument();
+    expect(screen.getByText('$1.2M')).toBeInTheDocument();
+    expect(screen.getByText('In the Bank')).toBeInTheDocument();
+  });
 });
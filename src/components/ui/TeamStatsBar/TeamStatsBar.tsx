@@ -1,4 +1,5 @@
 import React from 'react';
+import { formatPrice } from '../../../utils/formatters';
 import './TeamStatsBar.css';
 
 interface TeamStatsBarProps {
@@ -8,6 +9,8 @@ interface TeamStatsBarProps {
   weekRank?: number | null;
   monthRank?: number | null;
   seasonRank?: number | null;
+  bank?: number; // Unspent budget
+  teamValue?: number; // Squad at selling prices
 }
 
 const TeamStatsBar: React.FC<TeamStatsBarProps> = ({
@@ -17,9 +20,13 @@ const TeamStatsBar: React.FC<TeamStatsBarProps> = ({
   weekRank,
   monthRank,
   seasonRank,
+  bank,
+  teamValue,
 }) => {
+  const showValue = bank != null && teamValue != null;
+
   return (
-    <div className="team-stats-bar">
+    <div className={`team-stats-bar ${showValue ? 'with-value' : ''}`}>
       <div className="team-stat-card">
         <span className="team-stat-value">{weekPoints}</span>
         <span className="team-stat-label">Week Points</span>
@@ -35,6 +42,18 @@ const TeamStatsBar: React.FC<TeamStatsBarProps> = ({
         <span className="team-stat-label">Season Points</span>
         {seasonRank != null && <span className="team-stat-rank">#{seasonRank}</span>}
       </div>
+      {showValue && (
+        <>
+          <div className="team-stat-card">
+            <span className="team-stat-value">{formatPrice(teamValue)}</span>
+            <span className="team-stat-label">Team Value</span>
+          </div>
+          <div className="team-stat-card">
+            <span className="team-stat-value">{formatPrice(bank)}</span>
+            <span className="team-stat-label">In the Bank</span>
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,111 @@
+const mockPost = vi.fn();
+const mockPut = vi.fn();
+const mockDel = vi.fn();
+vi.mock('../../../hooks/useApiClient', () => ({
+  useApiClient: () => ({
+    get: vi.fn(),
+    post: mockPost,
+    put: mockPut,
+    del: mockDel,
+    isAuthReady: true,
+  }),
+}));
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type { TournamentTypeConfig } from '@shared/types';
+import TournamentTypesEditor from './TournamentTypesEditor';
+
+const baseType = {
+  defaultScoringFormat: 'stableford' as const,
+  forcedScoringFormat: null,
+  defaultMultiDay: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const types: TournamentTypeConfig[] = [
+  { ...baseType, id: 't1', key: 'founders', label: 'Founders', multiplier: 4, isBuiltIn: true },
+  {
+    ...baseType,
+    id: 't2',
+    key: 'winter_foursomes',
+    label: 'Winter Foursomes',
+    multiplier: 1.5,
+    forcedScoringFormat: 'medal',
+    defaultScoringFormat: 'medal',
+    isBuiltIn: false,
+  },
+];
+
+describe('TournamentTypesEditor', () => {
+  const onChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the types and only offers to delete custom ones', () => {
+    render(<TournamentTypesEditor types={types} onChange={onChange} />);
+
+    expect(screen.getByText('Founders')).toBeInTheDocument();
+    expect(screen.getByText('Built-in')).toBeInTheDocument();
+    expect(screen.getByText('Medal only')).toBeInTheDocument();
+    expect(screen.getAllByText('Delete')).toHaveLength(1);
+  });
+
+  it('creates a new type', async () => {
+    mockPost.mockResolvedValue({ success: true, data: {} });
+    render(<TournamentTypesEditor types={types} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText('+ Add Tournament Type'));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: "Captain's Day" } });
+    fireEvent.change(screen.getByLabelText('Multiplier'), { target: { value: '2' } });
+    fireEvent.change(screen.getByLabelText('Scoring format'), { target: { value: 'medal' } });
+    fireEvent.click(screen.getByText('Create Type'));
+
+    await waitFor(() =>
+      expect(mockPost).toHaveBeenCalledWith('tournament-types-create', {
+        label: "Captain's Day",
+        multiplier: 2,
+        defaultScoringFormat: 'stableford',
+        forcedScoringFormat: 'medal',
+        defaultMultiDay: false,
+      })
+    );
+    expect(onChange).toHaveBeenCalled();
+    expect(await screen.findByText('Tournament type created')).toBeInTheDocument();
+  });
+
+  it('updates an existing type by id', async () => {
+    mockPut.mockResolvedValue({ success: true, data: {} });
+    render(<TournamentTypesEditor types={types} onChange={onChange} />);
+
+    fireEvent.click(screen.getAllByText('Edit')[0]);
+    fireEvent.change(screen.getByLabelText('Multiplier'), { target: { value: '6' } });
+    fireEvent.click(screen.getByText('Save Changes'));
+
+    await waitFor(() =>
+      expect(mockPut).toHaveBeenCalledWith(
+        'tournament-types-update?id=t1',
+        expect.objectContaining({ label: 'Founders', multiplier: 6 })
+      )
+    );
+  });
+
+  it('shows the server error when a delete is refused', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    mockDel.mockResolvedValue({
+      success: false,
+      error: 'Cannot delete a tournament type that is used by tournaments',
+    });
+    render(<TournamentTypesEditor types={types} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText('Delete'));
+
+    expect(
+      await screen.findByText('Cannot delete a tournament type that is used by tournaments')
+    ).toBeInTheDocument();
+    expect(mockDel).toHaveBeenCalledWith('tournament-types-delete?id=t2');
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { useApiClient } from '../../../hooks/useApiClient';
+import type { ScoringFormat, TournamentTypeConfig } from '@shared/types';
+import './TournamentTypesEditor.css';
+
+interface TournamentTypesEditorProps {
+  types: TournamentTypeConfig[];
+  /** Called after a type is created, updated or deleted */
+  onChange: () => void;
+}
+
+interface TypeFormData {
+  label: string;
+  multiplier: number;
+  defaultScoringFormat: ScoringFormat;
+  forcedScoringFormat: ScoringFormat | null;
+  defaultMultiDay: boolean;
+}
+
+const initialFormData: TypeFormData = {
+  label: '',
+  multiplier: 1,
+  defaultScoringFormat: 'stableford',
+  forcedScoringFormat: null,
+  defaultMultiDay: false,
+};
+
+const FORMAT_LABELS: Record<ScoringFormat, string> = {
+  stableford: 'Stableford',
+  medal: 'Medal',
+};
+
+const TournamentTypesEditor: React.FC<TournamentTypesEditorProps> = ({ types, onChange }) => {
+  const { post, put, del } = useApiClient();
+  const [showForm, setShowForm] = useState(false);
+  const [editingType, setEditingType] = useState<TournamentTypeConfig | null>(null);
+  const [formData, setFormData] = useState<TypeFormData>(initialFormData);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleOpenForm = (type?: TournamentTypeConfig) => {
+    setEditingType(type ?? null);
+    setFormData(
+      type
+        ? {
+            label: type.label,
+            multiplier: type.multiplier,
+            defaultScoringFormat: type.defaultScoringFormat,
+            forcedScoringFormat: type.forcedScoringFormat,
+            defaultMultiDay: type.defaultMultiDay,
+          }
+        : initialFormData
+    );
+    setError('');
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingType(null);
+    setFormData(initialFormData);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (formData.label.trim().length < 2) {
+      setError('Name must be at least 2 characters');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = editingType
+        ? await put<TournamentTypeConfig>(`tournament-types-update?id=${editingType.id}`, formData)
+        : await post<TournamentTypeConfig>('tournament-types-create', formData);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to save tournament type');
+      }
+
+      flash(editingType ? 'Tournament type updated' : 'Tournament type created');
+      handleCloseForm();
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (type: TournamentTypeConfig) => {
+    if (!window.confirm(`Delete the "${type.label}" tournament type?`)) return;
+    setError('');
+
+    try {
+      const response = await del<void>(`tournament-types-delete?id=${type.id}`);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to delete tournament type');
+      }
+      flash('Tournament type deleted');
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <div className="tournament-types-editor">
+      {success && <div className="alert alert-success">{success}</div>}
+      {error && <div className="alert alert-error">{error}</div>}
+
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Type</th>
+            <th>Multiplier</th>
+            <th>Scoring Format</th>
+            <th>Multi-day</th>
+            <th>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {types.map((type) => (
+            <tr key={type.id}>
+              <td>
+                {type.label}
+                {type.isBuiltIn && <span className="badge badge-gray">Built-in</span>}
+              </td>
+              <td>{type.multiplier}×</td>
+              <td>
+                {type.forcedScoringFormat
+                  ? `${FORMAT_LABELS[type.forcedScoringFormat]} only`
+                  : `${FORMAT_LABELS[type.defaultScoringFormat]} by default`}
+              </td>
+              <td>{type.defaultMultiDay ? 'Yes' : 'No'}</td>
+              <td>
+                <div className="table-actions">
+                  <button
+                    type="button"
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => handleOpenForm(type)}
+                  >
+                    Edit
+                  </button>
+                  {!type.isBuiltIn && (
+                    <button
+                      type="button"
+                      className="btn btn-danger btn-sm"
+                      onClick={() => handleDelete(type)}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {showForm ? (
+        <form className="tournament-types-form" onSubmit={handleSubmit}>
+          <h3>{editingType ? `Edit ${editingType.label}` : 'New Tournament Type'}</h3>
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="tournament-type-label">Name</label>
+              <input
+                id="tournament-type-label"
+                type="text"
+                className="form-input"
+                value={formData.label}
+                onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                placeholder="Winter Foursomes"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="tournament-type-multiplier">Multiplier</label>
+              <input
+                id="tournament-type-multiplier"
+                type="number"
+                min="0"
+                step="0.5"
+                className="form-input"
+                value={formData.multiplier}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    multiplier: e.target.value === '' ? 0 : Number(e.target.value),
+                  })
+                }
+              />
+            </div>
+          </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="tournament-type-forced-format">Scoring format</label>
+              <select
+                id="tournament-type-forced-format"
+                className="form-select"
+                value={formData.forcedScoringFormat ?? ''}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    forcedScoringFormat: (e.target.value || null) as ScoringFormat | null,
+                  })
+                }
+              >
+                <option value="">Chosen per tournament</option>
+                <option value="stableford">Always Stableford</option>
+                <option value="medal">Always Medal</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="tournament-type-default-format">Default format</label>
+              <select
+                id="tournament-type-default-format"
+                className="form-select"
+                value={formData.forcedScoringFormat ?? formData.defaultScoringFormat}
+                disabled={formData.forcedScoringFormat !== null}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    defaultScoringFormat: e.target.value as ScoringFormat,
+                  })
+                }
+              >
+                <option value="stableford">Stableford</option>
+                <option value="medal">Medal</option>
+              </select>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={formData.defaultMultiDay}
+                onChange={(e) => setFormData({ ...formData, defaultMultiDay: e.target.checked })}
+              />{' '}
+              Multi-day by default
+            </label>
+          </div>
+          <p className="tournament-types-hint">
+            The multiplier applies to new tournaments and to seasons whose scoring rules don't set
+            one for this type.
+          </p>
+          <div className="form-actions">
+            <button type="button" className="btn btn-secondary" onClick={handleCloseForm}>
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={saving}>
+              {saving ? 'Saving...' : editingType ? 'Save Changes' : 'Create Type'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button type="button" className="btn btn-primary" onClick={() => handleOpenForm()}>
+          + Add Tournament Type
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TournamentTypesEditor;
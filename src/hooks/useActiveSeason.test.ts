@@ -37,11 +37,6 @@ describe('useActiveSeason', () => {
     expect(result.current.loading).toBe(true);
   });
 
-  it('returns statsKey', () => {
-    const { result } = renderHook(() => useActiveSeason());
-    expect(result.current.statsKey).toBeDefined();
-  });
-
   it('re-fetches after cache TTL expires', async () => {
     mockGet.mockResolvedValue({ success: true, data: [activeSeason] });
 
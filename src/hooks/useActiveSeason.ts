@@ -78,8 +78,5 @@ export const useActiveSeason = () => {
     };
   }, [get, isAuthReady]);
 
-  // Helper to get the stats field key for this season (e.g., "stats2025" or "stats2026")
-  const statsKey = season ? `stats${season.name}` : 'stats2026';
-
-  return { season, loading, statsKey };
+  return { season, loading };
 };
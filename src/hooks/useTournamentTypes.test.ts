@@ -0,0 +1,37 @@
+const mockUseAsyncData = vi.fn();
+vi.mock('./useAsyncData', () => ({
+  useAsyncData: (...args: unknown[]) => mockUseAsyncData(...args),
+}));
+
+import { renderHook } from '@testing-library/react';
+import { useTournamentTypes } from './useTournamentTypes';
+
+describe('useTournamentTypes', () => {
+  beforeEach(() => {
+    mockUseAsyncData.mockReset();
+  });
+
+  it('fetches the tournament types list', () => {
+    mockUseAsyncData.mockReturnValue({ data: null, loading: true, error: null, refetch: vi.fn() });
+
+    const { result } = renderHook(() => useTournamentTypes());
+
+    expect(mockUseAsyncData).toHaveBeenCalledWith('tournament-types-list');
+    expect(result.current.types).toEqual([]);
+    expect(result.current.loading).toBe(true);
+  });
+
+  it('labels types from the stored list, falling back to built-in labels', () => {
+    mockUseAsyncData.mockReturnValue({
+      data: [{ id: 't1', key: 'winter_foursomes', label: 'Winter Foursomes' }],
+      loading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
+
+    const { result } = renderHook(() => useTournamentTypes());
+
+    expect(result.current.getTypeLabel('winter_foursomes')).toBe('Winter Foursomes');
+    expect(result.current.getTypeLabel('founders')).toBe('Founders');
+  });
+});
@@ -0,0 +1,23 @@
+// Hook to fetch the club's tournament types (built-in and admin-created)
+
+import { useCallback } from 'react';
+import { useAsyncData } from './useAsyncData';
+import {
+  getTournamentTypeLabel,
+  type TournamentType,
+  type TournamentTypeConfig,
+} from '@shared/types';
+
+export const useTournamentTypes = () => {
+  const { data, loading, error, refetch } =
+    useAsyncData<TournamentTypeConfig[]>('tournament-types-list');
+  const types = data ?? [];
+
+  // Falls back to the built-in label (or the key) until the types have loaded
+  const getTypeLabel = useCallback(
+    (type: TournamentType) => getTournamentTypeLabel(type, data ?? []),
+    [data]
+  );
+
+  return { types, loading, error, refetch, getTypeLabel };
+};
@@ -3,17 +3,19 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import AdminLayout from '../../../components/AdminLayout/AdminLayout';
 import LoadingSpinner from '../../../components/ui/LoadingSpinner';
+import HandicapImportModal from '../../../components/ui/HandicapImportModal';
 import { validators, sanitizers, getInputClassName } from '../../../utils/validation';
 import { useApiClient } from '../../../hooks/useApiClient';
 import { useDocumentTitle } from '../../../hooks/useDocumentTitle';
-
-interface Golfer2025Stats {
-  timesBonusScored: number;
-  timesFinished1st: number;
-  timesFinished2nd: number;
-  timesFinished3rd: number;
-  timesPlayed: number;
-}
+import { parseCSV } from '../../../utils/csv';
+import { formatHandicap } from '../../../utils/formatters';
+import {
+  MAX_HANDICAP_INDEX,
+  MIN_HANDICAP_INDEX,
+  type GolferSeasonStats as SeasonStats,
+  type GolferStatsBySeason,
+  type HandicapImportResult,
+} from '@shared/types';
 
 interface Golfer {
   id: string;
@@ -21,9 +23,9 @@ interface Golfer {
   lastName: string;
   picture: string;
   price: number;
+  handicapIndex: number | null;
   isActive: boolean;
-  stats2024: Golfer2025Stats;
-  stats2025: Golfer2025Stats;
+  statsBySeason: GolferStatsBySeason;
 }
 
 // Stats loaded from tournament scores
@@ -41,25 +43,49 @@ interface GolferFormData {
   lastName: string;
   picture: string;
   price: string;
+  handicapIndex: string;
   isActive: boolean;
-  timesBonusScored: string;
+  statsSeason: string;
+  timesScored36Plus: string;
+  timesScored32Plus: string;
   timesFinished1st: string;
   timesFinished2nd: string;
   timesFinished3rd: string;
   timesPlayed: string;
 }
 
+// Historical stats are entered for a past season, like price calculation
+const DEFAULT_STATS_SEASON = String(new Date().getFullYear() - 1);
+
+const toStatsFormFields = (stats?: SeasonStats) => ({
+  timesScored36Plus: (stats?.timesScored36Plus || 0).toString(),
+  timesScored32Plus: (stats?.timesScored32Plus || 0).toString(),
+  timesFinished1st: (stats?.timesFinished1st || 0).toString(),
+  timesFinished2nd: (stats?.timesFinished2nd || 0).toString(),
+  timesFinished3rd: (stats?.timesFinished3rd || 0).toString(),
+  timesPlayed: (stats?.timesPlayed || 0).toString(),
+});
+
+const toStatsBySeason = (data: GolferFormData): GolferStatsBySeason => ({
+  [data.statsSeason]: {
+    timesScored36Plus: parseInt(data.timesScored36Plus) || 0,
+    timesScored32Plus: parseInt(data.timesScored32Plus) || 0,
+    timesFinished1st: parseInt(data.timesFinished1st) || 0,
+    timesFinished2nd: parseInt(data.timesFinished2nd) || 0,
+    timesFinished3rd: parseInt(data.timesFinished3rd) || 0,
+    timesPlayed: parseInt(data.timesPlayed) || 0,
+  },
+});
+
 const initialFormData: GolferFormData = {
   firstName: '',
   lastName: '',
   picture: '',
   price: '',
+  handicapIndex: '',
   isActive: true,
-  timesBonusScored: '0',
-  timesFinished1st: '0',
-  timesFinished2nd: '0',
-  timesFinished3rd: '0',
-  timesPlayed: '0',
+  statsSeason: DEFAULT_STATS_SEASON,
+  ...toStatsFormFields(),
 };
 
 const GolfersAdminPage: React.FC = () => {
@@ -92,6 +118,9 @@ const GolfersAdminPage: React.FC = () => {
   const [batchProgress, setBatchProgress] = useState(0);
   const [batchFile, setBatchFile] = useState<File | null>(null);
 
+  // Handicap import state
+  const [showHandicapImport, setShowHandicapImport] = useState(false);
+
   // Calculate prices state
   const [calculatingPrices, setCalculatingPrices] = useState(false);
   const [priceResult, setPriceResult] = useState<{
@@ -131,6 +160,15 @@ const GolfersAdminPage: React.FC = () => {
         if (priceNum > 50) return 'Price cannot exceed $50M';
         return '';
       }
+      case 'handicapIndex': {
+        if (!value.trim()) return '';
+        const handicapNum = parseFloat(value);
+        if (isNaN(handicapNum)) return 'Handicap index must be a number';
+        if (handicapNum < MIN_HANDICAP_INDEX || handicapNum > MAX_HANDICAP_INDEX) {
+          return `Handicap index must be between ${MIN_HANDICAP_INDEX} and ${MAX_HANDICAP_INDEX}`;
+        }
+        return '';
+      }
       case 'picture': {
         if (value) {
           const urlValidator = validators.url();
@@ -176,7 +214,7 @@ const GolfersAdminPage: React.FC = () => {
 
   const validateAllFields = (): boolean => {
     const newErrors: Record<string, string> = {};
-    const fieldsToValidate = ['firstName', 'lastName', 'price'];
+    const fieldsToValidate = ['firstName', 'lastName', 'price', 'handicapIndex'];
 
     fieldsToValidate.forEach((field) => {
       const error = validateField(field, formData[field as keyof GolferFormData] as string);
@@ -286,12 +324,10 @@ const GolfersAdminPage: React.FC = () => {
         lastName: Golfer.lastName,
         picture: Golfer.picture,
         price: (Golfer.price / 1_000_000).toString(),
+        handicapIndex: Golfer.handicapIndex?.toString() ?? '',
         isActive: Golfer.isActive,
-        timesBonusScored: (Golfer.stats2025?.timesBonusScored || 0).toString(),
-        timesFinished1st: (Golfer.stats2025?.timesFinished1st || 0).toString(),
-        timesFinished2nd: (Golfer.stats2025?.timesFinished2nd || 0).toString(),
-        timesFinished3rd: (Golfer.stats2025?.timesFinished3rd || 0).toString(),
-        timesPlayed: (Golfer.stats2025?.timesPlayed || 0).toString(),
+        statsSeason: DEFAULT_STATS_SEASON,
+        ...toStatsFormFields(Golfer.statsBySeason?.[DEFAULT_STATS_SEASON]),
       });
     } else {
       setEditingGolfer(null);
@@ -303,6 +339,15 @@ const GolfersAdminPage: React.FC = () => {
     setShowModal(true);
   };
 
+  // Switching season shows the stats already stored for it
+  const handleStatsSeasonChange = (statsSeason: string) => {
+    setFormData({
+      ...formData,
+      statsSeason,
+      ...toStatsFormFields(editingGolfer?.statsBySeason?.[statsSeason]),
+    });
+  };
+
   const handleCloseModal = () => {
     setShowModal(false);
     setEditingGolfer(null);
@@ -323,14 +368,9 @@ const GolfersAdminPage: React.FC = () => {
     }
 
     const priceInPounds = parseFloat(formData.price) * 1_000_000;
+    const handicapIndex = parseHandicapIndex(formData.handicapIndex);
 
-    const stats2025 = {
-      timesBonusScored: parseInt(formData.timesBonusScored) || 0,
-      timesFinished1st: parseInt(formData.timesFinished1st) || 0,
-      timesFinished2nd: parseInt(formData.timesFinished2nd) || 0,
-      timesFinished3rd: parseInt(formData.timesFinished3rd) || 0,
-      timesPlayed: parseInt(formData.timesPlayed) || 0,
-    };
+    const statsBySeason = toStatsBySeason(formData);
 
     try {
       if (editingGolfer) {
@@ -341,8 +381,9 @@ const GolfersAdminPage: React.FC = () => {
           lastName: formData.lastName,
           picture: formData.picture,
           price: priceInPounds,
+          handicapIndex,
           isActive: formData.isActive,
-          stats2025,
+          statsBySeason,
         });
         if (!response.success) throw new Error(response.error || 'Failed to update Golfer');
         setSuccess('Golfer updated successfully!');
@@ -353,8 +394,9 @@ const GolfersAdminPage: React.FC = () => {
           lastName: formData.lastName,
           picture: formData.picture,
           price: priceInPounds,
+          handicapIndex,
           isActive: formData.isActive,
-          stats2025,
+          statsBySeason,
         });
         if (!response.success) throw new Error(response.error || 'Failed to create Golfer');
         setSuccess('Golfer created successfully!');
@@ -368,6 +410,14 @@ const GolfersAdminPage: React.FC = () => {
     }
   };
 
+  // Blank means no handicap; stored to one decimal place
+  const parseHandicapIndex = (value: string): number | null =>
+    value.trim() === '' ? null : Math.round(parseFloat(value) * 10) / 10;
+
+  const handleHandicapsImported = (result: HandicapImportResult) => {
+    if (result.updated > 0) fetchGolfers();
+  };
+
   const formatPrice = (price: number) => {
     return `$${(price / 1_000_000).toFixed(1)}M`;
   };
@@ -424,29 +474,6 @@ const GolfersAdminPage: React.FC = () => {
     setBatchFile(null);
   };
 
-  const parseCSV = (text: string): string[][] => {
-    const lines = text.trim().split('\n');
-    return lines.map((line) => {
-      const result: string[] = [];
-      let current = '';
-      let inQuotes = false;
-
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          result.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      result.push(current.trim());
-      return result;
-    });
-  };
-
   const validateAndParseBatch = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -483,7 +510,10 @@ const GolfersAdminPage: React.FC = () => {
         picture: headers.indexOf('picture'),
         price: headers.indexOf('price'),
         isActive: headers.indexOf('isactive'),
-        timesBonusScored: headers.indexOf('timesbonusscored'),
+        handicap: headers.indexOf('handicap'),
+        season: headers.indexOf('season'),
+        timesScored36Plus: headers.indexOf('timesscored36plus'),
+        timesScored32Plus: headers.indexOf('timesscored32plus'),
         timesFinished1st: headers.indexOf('timesfinished1st'),
         timesFinished2nd: headers.indexOf('timesfinished2nd'),
         timesFinished3rd: headers.indexOf('timesfinished3rd'),
@@ -522,6 +552,21 @@ const GolfersAdminPage: React.FC = () => {
         const isActiveStr =
           colIndex.isActive >= 0 ? row[colIndex.isActive]?.trim().toLowerCase() : 'true';
         const isActive = isActiveStr !== 'false' && isActiveStr !== '0' && isActiveStr !== 'no';
+        const handicapStr = colIndex.handicap >= 0 ? row[colIndex.handicap]?.trim() || '' : '';
+        if (handicapStr) {
+          const handicap = parseFloat(handicapStr);
+          if (isNaN(handicap) || handicap < MIN_HANDICAP_INDEX || handicap > MAX_HANDICAP_INDEX) {
+            errors.push(
+              `Row ${rowNum}: Handicap must be between ${MIN_HANDICAP_INDEX} and ${MAX_HANDICAP_INDEX} (got "${handicapStr}")`
+            );
+          }
+        }
+
+        const statsSeason =
+          colIndex.season >= 0 ? row[colIndex.season]?.trim() || DEFAULT_STATS_SEASON : DEFAULT_STATS_SEASON;
+        if (!/^\d{4}$/.test(statsSeason)) {
+          errors.push(`Row ${rowNum}: Season must be a year like 2025 (got "${statsSeason}")`);
+        }
 
         // Parse stats with validation
         const parseStatField = (colName: keyof typeof colIndex, fieldName: string): string => {
@@ -542,8 +587,11 @@ const GolfersAdminPage: React.FC = () => {
           lastName,
           picture,
           price: price.toString(),
+          handicapIndex: handicapStr,
           isActive,
-          timesBonusScored: parseStatField('timesBonusScored', 'Times Bonus Scored'),
+          statsSeason,
+          timesScored36Plus: parseStatField('timesScored36Plus', 'Times Scored 36+'),
+          timesScored32Plus: parseStatField('timesScored32Plus', 'Times Scored 32+'),
           timesFinished1st: parseStatField('timesFinished1st', '1st Place Finishes'),
           timesFinished2nd: parseStatField('timesFinished2nd', '2nd Place Finishes'),
           timesFinished3rd: parseStatField('timesFinished3rd', '3rd Place Finishes'),
@@ -597,14 +645,9 @@ const GolfersAdminPage: React.FC = () => {
           lastName: Golfer.lastName,
           picture: Golfer.picture,
           price: priceInPounds,
+          handicapIndex: parseHandicapIndex(Golfer.handicapIndex),
           isActive: Golfer.isActive,
-          stats2025: {
-            timesBonusScored: parseInt(Golfer.timesBonusScored) || 0,
-            timesFinished1st: parseInt(Golfer.timesFinished1st) || 0,
-            timesFinished2nd: parseInt(Golfer.timesFinished2nd) || 0,
-            timesFinished3rd: parseInt(Golfer.timesFinished3rd) || 0,
-            timesPlayed: parseInt(Golfer.timesPlayed) || 0,
-          },
+          statsBySeason: toStatsBySeason(Golfer),
         });
 
         if (!response.success) {
@@ -687,6 +730,9 @@ const GolfersAdminPage: React.FC = () => {
             <button className="btn btn-secondary" onClick={handleOpenBatchModal}>
               📤 Batch Upload
             </button>
+            <button className="btn btn-secondary" onClick={() => setShowHandicapImport(true)}>
+              ⛳ Import Handicaps
+            </button>
             <button className="btn btn-primary" onClick={() => handleOpenModal()}>
               + Add Golfer
             </button>
@@ -729,6 +775,7 @@ const GolfersAdminPage: React.FC = () => {
               <tr>
                 <th>Golfer</th>
                 <th>Price</th>
+                <th>Handicap</th>
                 <th>Status</th>
                 <th>Actions</th>
               </tr>
@@ -787,6 +834,7 @@ const GolfersAdminPage: React.FC = () => {
                   <td data-label="Price" style={{ fontWeight: 600, color: 'var(--primary-green)' }}>
                     {formatPrice(Golfer.price)}
                   </td>
+                  <td data-label="Handicap">{formatHandicap(Golfer.handicapIndex ?? null)}</td>
                   <td data-label="Status">
                     <span className={`badge ${Golfer.isActive ? 'badge-success' : 'badge-gray'}`}>
                       {Golfer.isActive ? 'Active' : 'Inactive'}
@@ -923,10 +971,32 @@ const GolfersAdminPage: React.FC = () => {
                       <option value="inactive">Inactive</option>
                     </select>
                   </div>
-                  <div className="form-group" />
+                  <div className="form-group">
+                    <label htmlFor="handicapIndex">Handicap Index</label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      id="handicapIndex"
+                      className={getFieldClass('handicapIndex')}
+                      value={formData.handicapIndex}
+                      onChange={(e) => handleFieldChange('handicapIndex', e.target.value)}
+                      onBlur={() => handleFieldBlur('handicapIndex')}
+                      placeholder="12.4"
+                      step="0.1"
+                      min={MIN_HANDICAP_INDEX}
+                      max={MAX_HANDICAP_INDEX}
+                    />
+                    {touched.handicapIndex && fieldErrors.handicapIndex ? (
+                      <span className="field-error">{fieldErrors.handicapIndex}</span>
+                    ) : (
+                      <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                        Plus handicaps are negative. Changes are kept in the handicap history.
+                      </span>
+                    )}
+                  </div>
                 </div>
 
-                {/* 2025 Performance Stats Section */}
+                {/* Historical Season Stats Section */}
                 <div
                   style={{
                     marginTop: '1.5rem',
@@ -942,12 +1012,29 @@ const GolfersAdminPage: React.FC = () => {
                       marginBottom: '1rem',
                     }}
                   >
-                    📊 2025 Performance Stats
+                    📊 Historical Season Stats
                   </h3>
 
                   <div className="form-row">
                     <div className="form-group">
-                      <label htmlFor="timesPlayed">Times Played in 2025</label>
+                      <label htmlFor="statsSeason">Season</label>
+                      <input
+                        type="text"
+                        id="statsSeason"
+                        value={formData.statsSeason}
+                        onChange={(e) => handleStatsSeasonChange(e.target.value.trim())}
+                        placeholder={DEFAULT_STATS_SEASON}
+                      />
+                      <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                        Seasons with results entered here are recalculated from scores
+                      </span>
+                    </div>
+                    <div className="form-group" />
+                  </div>
+
+                  <div className="form-row" style={{ marginTop: '0.75rem' }}>
+                    <div className="form-group">
+                      <label htmlFor="timesPlayed">Times Played</label>
                       <input
                         type="number"
                         id="timesPlayed"
@@ -961,13 +1048,13 @@ const GolfersAdminPage: React.FC = () => {
                       </span>
                     </div>
                     <div className="form-group">
-                      <label htmlFor="timesBonusScored">Times Bonus Scored</label>
+                      <label htmlFor="timesScored36Plus">Times Scored 36+</label>
                       <input
                         type="number"
-                        id="timesBonusScored"
-                        value={formData.timesBonusScored}
+                        id="timesScored36Plus"
+                        value={formData.timesScored36Plus}
                         onChange={(e) =>
-                          setFormData({ ...formData, timesBonusScored: e.target.value })
+                          setFormData({ ...formData, timesScored36Plus: e.target.value })
                         }
                         min="0"
                         placeholder="0"
@@ -1018,7 +1105,19 @@ const GolfersAdminPage: React.FC = () => {
                         placeholder="0"
                       />
                     </div>
-                    <div className="form-group" />
+                    <div className="form-group">
+                      <label htmlFor="timesScored32Plus">Times Scored 32+</label>
+                      <input
+                        type="number"
+                        id="timesScored32Plus"
+                        value={formData.timesScored32Plus}
+                        onChange={(e) =>
+                          setFormData({ ...formData, timesScored32Plus: e.target.value })
+                        }
+                        min="0"
+                        placeholder="0"
+                      />
+                    </div>
                   </div>
                 </div>
               </div>
@@ -1035,6 +1134,14 @@ const GolfersAdminPage: React.FC = () => {
         </div>
       )}
 
+      {/* Handicap Import Modal */}
+      {showHandicapImport && (
+        <HandicapImportModal
+          onClose={() => setShowHandicapImport(false)}
+          onImported={handleHandicapsImported}
+        />
+      )}
+
       {/* Batch Upload Modal */}
       {showBatchModal && (
         <div className="modal-overlay" onClick={handleCloseBatchModal}>
@@ -1063,8 +1170,9 @@ const GolfersAdminPage: React.FC = () => {
                     >
                       <strong>Required columns:</strong> firstName, lastName, price (in millions)
                       <br />
-                      <strong>Optional columns:</strong> picture, isActive, timesBonusScored,
-                      timesFinished1st, timesFinished2nd, timesFinished3rd, timesPlayed
+                      <strong>Optional columns:</strong> picture, isActive, handicap, season
+                      (defaults to {DEFAULT_STATS_SEASON}), timesPlayed, timesScored36Plus,
+                      timesScored32Plus, timesFinished1st, timesFinished2nd, timesFinished3rd
                     </div>
                   </div>
 
@@ -1145,10 +1253,10 @@ const GolfersAdminPage: React.FC = () => {
                         overflow: 'auto',
                       }}
                     >
-                      {`firstName,lastName,price,picture,isActive,timesPlayed,timesBonusScored,timesFinished1st,timesFinished2nd,timesFinished3rd
-John,Smith,8.5,,true,12,3,1,2,1
-Jane,Doe,7.0,,true,10,2,0,1,0
-Tom,Junior,6.0,,true,8,1,0,0,1`}
+                      {`firstName,lastName,price,picture,isActive,handicap,season,timesPlayed,timesScored36Plus,timesScored32Plus,timesFinished1st,timesFinished2nd,timesFinished3rd
+John,Smith,8.5,,true,4.2,2025,12,3,6,1,2,1
+Jane,Doe,7.0,,true,12.8,2025,10,2,4,0,1,0
+Tom,Junior,6.0,,true,,2025,8,1,3,0,0,1`}
                     </pre>
                   </div>
                 </>
@@ -1175,8 +1283,11 @@ Tom,Junior,6.0,,true,8,1,0,0,1`}
                           <th>#</th>
                           <th>Name</th>
                           <th>Price</th>
+                          <th>HCP</th>
+                          <th>Season</th>
                           <th>Played</th>
                           <th>36+</th>
+                          <th>32+</th>
                           <th>🥇</th>
                           <th>🥈</th>
                           <th>🥉</th>
@@ -1197,8 +1308,11 @@ Tom,Junior,6.0,,true,8,1,0,0,1`}
                             <td style={{ color: 'var(--primary-green)', fontWeight: 600 }}>
                               ${parseFloat(Golfer.price).toFixed(1)}M
                             </td>
+                            <td>{formatHandicap(parseHandicapIndex(Golfer.handicapIndex))}</td>
+                            <td>{Golfer.statsSeason}</td>
                             <td>{Golfer.timesPlayed}</td>
-                            <td>{Golfer.timesBonusScored}</td>
+                            <td>{Golfer.timesScored36Plus}</td>
+                            <td>{Golfer.timesScored32Plus}</td>
                             <td>{Golfer.timesFinished1st}</td>
                             <td>{Golfer.timesFinished2nd}</td>
                             <td>{Golfer.timesFinished3rd}</td>
@@ -1544,7 +1658,7 @@ Tom,Junior,6.0,,true,8,1,0,0,1`}
                 </div>
               </div>
 
-              {/* 2025 Historical Stats (Editable) */}
+              {/* Stats by Season */}
               <div
                 style={{
                   borderTop: '1px solid #e5e7eb',
@@ -1560,77 +1674,40 @@ Tom,Junior,6.0,,true,8,1,0,0,1`}
                     marginBottom: '0.75rem',
                   }}
                 >
-                  📈 Historical 2025 Stats (Editable via Edit Button)
+                  📈 Stats by Season (Editable via Edit Button)
                 </h4>
-                <div
-                  style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '0.75rem' }}
-                >
-                  <div
-                    style={{
-                      background: '#f9fafb',
-                      padding: '0.75rem',
-                      borderRadius: '8px',
-                      textAlign: 'center',
-                    }}
-                  >
-                    <div style={{ fontSize: '1.25rem', fontWeight: 600 }}>
-                      {viewingGolfer.stats2025?.timesPlayed || 0}
-                    </div>
-                    <div style={{ fontSize: '0.7rem', color: '#6b7280' }}>Played</div>
-                  </div>
-                  <div
-                    style={{
-                      background: '#f9fafb',
-                      padding: '0.75rem',
-                      borderRadius: '8px',
-                      textAlign: 'center',
-                    }}
-                  >
-                    <div style={{ fontSize: '1.25rem', fontWeight: 600 }}>
-                      {viewingGolfer.stats2025?.timesBonusScored || 0}
-                    </div>
-                    <div style={{ fontSize: '0.7rem', color: '#6b7280' }}>Bonus</div>
-                  </div>
-                  <div
-                    style={{
-                      background: '#f9fafb',
-                      padding: '0.75rem',
-                      borderRadius: '8px',
-                      textAlign: 'center',
-                    }}
-                  >
-                    <div style={{ fontSize: '1.25rem', fontWeight: 600 }}>
-                      🥇 {viewingGolfer.stats2025?.timesFinished1st || 0}
-                    </div>
-                    <div style={{ fontSize: '0.7rem', color: '#6b7280' }}>1st</div>
-                  </div>
-                  <div
-                    style={{
-                      background: '#f9fafb',
-                      padding: '0.75rem',
-                      borderRadius: '8px',
-                      textAlign: 'center',
-                    }}
-                  >
-                    <div style={{ fontSize: '1.25rem', fontWeight: 600 }}>
-                      🥈 {viewingGolfer.stats2025?.timesFinished2nd || 0}
-                    </div>
-                    <div style={{ fontSize: '0.7rem', color: '#6b7280' }}>2nd</div>
-                  </div>
-                  <div
-                    style={{
-                      background: '#f9fafb',
-                      padding: '0.75rem',
-                      borderRadius: '8px',
-                      textAlign: 'center',
-                    }}
-                  >
-                    <div style={{ fontSize: '1.25rem', fontWeight: 600 }}>
-                      🥉 {viewingGolfer.stats2025?.timesFinished3rd || 0}
-                    </div>
-                    <div style={{ fontSize: '0.7rem', color: '#6b7280' }}>3rd</div>
-                  </div>
-                </div>
+                {Object.keys(viewingGolfer.statsBySeason ?? {}).length > 0 ? (
+                  <table className="admin-table" style={{ margin: 0 }}>
+                    <thead>
+                      <tr>
+                        <th>Season</th>
+                        <th>Played</th>
+                        <th>36+</th>
+                        <th>32+</th>
+                        <th>🥇</th>
+                        <th>🥈</th>
+                        <th>🥉</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.entries(viewingGolfer.statsBySeason)
+                        .sort(([a], [b]) => b.localeCompare(a))
+                        .map(([seasonName, stats]) => (
+                          <tr key={seasonName}>
+                            <td style={{ fontWeight: 500 }}>{seasonName}</td>
+                            <td>{stats.timesPlayed}</td>
+                            <td>{stats.timesScored36Plus}</td>
+                            <td>{stats.timesScored32Plus}</td>
+                            <td>{stats.timesFinished1st}</td>
+                            <td>{stats.timesFinished2nd}</td>
+                            <td>{stats.timesFinished3rd}</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p style={{ color: '#6b7280', margin: 0 }}>No season stats recorded yet.</p>
+                )}
                 <div
                   style={{
                     marginTop: '0.75rem',
@@ -1641,8 +1718,8 @@ Tom,Junior,6.0,,true,8,1,0,0,1`}
                     color: '#92400e',
                   }}
                 >
-                  ⚠️ These are historical stats you entered when creating the Golfer. They are
-                  separate from the live season stats above.
+                  ⚠️ Stats for seasons with tournament results are recalculated whenever scores are
+                  entered. Stats entered by hand are kept for earlier seasons.
                 </div>
               </div>
             </div>
@@ -26,6 +26,16 @@ vi.mock('../../../hooks/useApiClient', () => ({
   }),
 }));
 
+vi.mock('../../../hooks/useTournamentTypes', () => ({
+  useTournamentTypes: () => ({
+    types: [],
+    loading: false,
+    error: null,
+    refetch: vi.fn(),
+    getTypeLabel: (type: string) => type,
+  }),
+}));
+
 vi.mock('../../../hooks/useDocumentTitle', () => ({
   useDocumentTitle: vi.fn(),
 }));
@@ -41,6 +51,7 @@ vi.mock('../../../components/AdminLayout/AdminLayout', () => ({
 
 vi.mock('../../../utils/formatters', () => ({
   formatRawScore: vi.fn().mockReturnValue('0'),
+  formatPosition: vi.fn().mockReturnValue('1st'),
 }));
 
 import { render } from '@testing-library/react';
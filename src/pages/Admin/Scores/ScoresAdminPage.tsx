@@ -4,8 +4,16 @@ import React, { useCallback, useEffect, useState } from 'react';
 import AdminLayout from '../../../components/AdminLayout/AdminLayout';
 import { useApiClient } from '../../../hooks/useApiClient';
 import { useDocumentTitle } from '../../../hooks/useDocumentTitle';
-import { TOURNAMENT_TYPE_CONFIG, TournamentType, getTournamentTypeLabel } from '@shared/types';
-import { formatRawScore } from '../../../utils/formatters';
+import { useTournamentTypes } from '../../../hooks/useTournamentTypes';
+import {
+  DEFAULT_SCORING_RULES,
+  TEAM_FORMAT_LABELS,
+  TeamFormat,
+  TournamentType,
+  countTiedPositions,
+  getBasePointsForPosition,
+} from '@shared/types';
+import { formatPosition, formatRawScore } from '../../../utils/formatters';
 
 interface Tournament {
   id: string;
@@ -15,6 +23,7 @@ interface Tournament {
   tournamentType: TournamentType;
   scoringFormat: 'stableford' | 'medal';
   isMultiDay: boolean;
+  teamFormat: TeamFormat | null;
   multiplier: number;
   status: 'draft' | 'published' | 'complete';
   participatingGolferIds: string[];
@@ -35,6 +44,8 @@ interface Score {
   golferId: string;
   participated: boolean;
   position: number | null;
+  tied: boolean;
+  partnerIds: string[];
   rawScore: number | null;
   basePoints: number;
   bonusPoints: number;
@@ -43,11 +54,17 @@ interface Score {
 
 interface ScoreEntry {
   golferId: string;
+  partnerId: string | null; // team-format events only
   participated: boolean;
   position: number | null;
+  tied: boolean;
   rawScore: number | null;
 }
 
+// A pairing shares one result, which is entered against its first member by id
+const isPairingResult = (entry: ScoreEntry) =>
+  entry.partnerId === null || entry.golferId < entry.partnerId;
+
 interface TournamentWithScores {
   tournament: Tournament;
   scores: Score[];
@@ -57,6 +74,7 @@ interface TournamentWithScores {
 const ScoresAdminPage: React.FC = () => {
   const { get, post, put, request, isAuthReady } = useApiClient();
   useDocumentTitle('Admin: Scores');
+  const { getTypeLabel } = useTournamentTypes();
   const [golfers, setGolfers] = useState<Golfer[]>([]);
   const [tournamentsWithScores, setTournamentsWithScores] = useState<TournamentWithScores[]>([]);
   const [tournamentsWithoutScores, setTournamentsWithoutScores] = useState<Tournament[]>([]);
@@ -179,8 +197,10 @@ const ScoresAdminPage: React.FC = () => {
       .forEach((golfer) => {
         initialScores[golfer.id] = {
           golferId: golfer.id,
+          partnerId: null,
           participated: false,
           position: null,
+          tied: false,
           rawScore: null,
         };
       });
@@ -210,8 +230,10 @@ const ScoresAdminPage: React.FC = () => {
       .forEach((golfer) => {
         initialScores[golfer.id] = {
           golferId: golfer.id,
+          partnerId: null,
           participated: false,
           position: null,
+          tied: false,
           rawScore: null,
         };
       });
@@ -221,8 +243,10 @@ const ScoresAdminPage: React.FC = () => {
       if (initialScores[score.golferId]) {
         initialScores[score.golferId] = {
           golferId: score.golferId,
+          partnerId: score.partnerIds?.[0] ?? null,
           participated: score.participated,
           position: score.position,
+          tied: score.tied ?? false,
           rawScore: score.rawScore,
         };
       }
@@ -251,7 +275,7 @@ const ScoresAdminPage: React.FC = () => {
 
   const handleScoreChange = (
     golferId: string,
-    field: 'participated' | 'position' | 'rawScore',
+    field: 'participated' | 'position' | 'tied' | 'rawScore',
     value: string | boolean
   ) => {
     setScores((prev) => {
@@ -269,52 +293,130 @@ const ScoresAdminPage: React.FC = () => {
       // If unchecking participated, reset position and bonus
       if (field === 'participated' && value === false) {
         newScore.position = null;
+        newScore.tied = false;
         newScore.rawScore = null;
       }
 
-      return {
-        ...prev,
-        [golferId]: newScore,
+      // Only a placed golfer can be tied
+      if (field === 'position' && newScore.position === null) {
+        newScore.tied = false;
+      }
+
+      const next = { ...prev, [golferId]: newScore };
+      const partnerId = prev[golferId]?.partnerId;
+      if (partnerId && next[partnerId]) {
+        if (field === 'participated' && value === false) {
+          // A golfer who didn't play breaks up their pairing
+          newScore.partnerId = null;
+          next[partnerId] = { ...next[partnerId], partnerId: null };
+        } else {
+          // Keep the partner's shared result in step
+          next[partnerId] = {
+            ...next[partnerId],
+            position: newScore.position,
+            tied: newScore.tied,
+            rawScore: newScore.rawScore,
+          };
+        }
+      }
+      return next;
+    });
+  };
+
+  const handlePartnerChange = (golferId: string, partnerId: string) => {
+    setScores((prev) => {
+      const next = { ...prev };
+      const unpair = (id: string) => {
+        const previousPartner = next[id]?.partnerId;
+        if (previousPartner && next[previousPartner]) {
+          next[previousPartner] = { ...next[previousPartner], partnerId: null };
+        }
       };
+
+      unpair(golferId);
+      next[golferId] = { ...next[golferId], partnerId: partnerId || null };
+      if (partnerId) {
+        unpair(partnerId);
+        // The partner played too and shares the pairing's result
+        next[partnerId] = {
+          ...next[partnerId],
+          participated: true,
+          partnerId: golferId,
+          position: next[golferId].position,
+          tied: next[golferId].tied,
+          rawScore: next[golferId].rawScore,
+        };
+      }
+      return next;
     });
   };
 
   // Calculate participant count dynamically
   const participantCount = Object.values(scores).filter((s) => s.participated).length;
+  const isTeamEvent = Boolean(editingTournament?.teamFormat);
+  // One result per golfer, or per pairing in a team-format event
+  const results = Object.values(scores).filter((s) => s.participated && isPairingResult(s));
+  const tiedCounts = countTiedPositions(results);
 
   // Validation function for scores
   const validateScores = (): { valid: boolean; error: string } => {
-    const participatingPlayers = Object.values(scores).filter((s) => s.participated);
+    const participatingPlayers = results;
 
     // Rule 1: At least 1 golfer must have participated
     if (participatingPlayers.length === 0) {
       return { valid: false, error: 'At least one golfer must have participated' };
     }
 
-    // Rule 2: Must have 1st, 2nd, and 3rd place
-    const hasFirst = participatingPlayers.some((s) => s.position === 1);
-    const hasSecond = participatingPlayers.some((s) => s.position === 2);
-    const hasThird = participatingPlayers.some((s) => s.position === 3);
+    if (isTeamEvent && participatingPlayers.some((s) => s.partnerId === null)) {
+      return { valid: false, error: 'Every golfer in a team event needs a partner' };
+    }
 
-    if (!hasFirst || !hasSecond || !hasThird) {
+    // Rule 2: Must have 1st, 2nd, and 3rd place, where a tie covers the places below it
+    const placedWithin = (place: number) =>
+      participatingPlayers.filter((s) => s.position !== null && s.position <= place).length;
+    if (placedWithin(1) < 1 || placedWithin(2) < 2 || placedWithin(3) < 3) {
       return {
         valid: false,
         error: 'You must assign 1st, 2nd, and 3rd place finishes',
       };
     }
 
-    // Check for duplicate positions (only for positions 1, 2, 3)
-    const positions = participatingPlayers
-      .filter((s) => s.position !== null && s.position >= 1 && s.position <= 3)
-      .map((s) => s.position);
-    const uniquePositions = new Set(positions);
-    if (positions.length !== uniquePositions.size) {
+    const byPosition = new Map<number, ScoreEntry[]>();
+    participatingPlayers.forEach((s) => {
+      if (s.position === null) return;
+      byPosition.set(s.position, [...(byPosition.get(s.position) ?? []), s]);
+    });
+
+    // Check for duplicate positions (only for positions 1, 2, 3) that aren't marked as tied
+    const hasUntiedDuplicate = [...byPosition].some(
+      ([position, shared]) => position <= 3 && shared.length > 1 && shared.some((s) => !s.tied)
+    );
+    if (hasUntiedDuplicate) {
       return {
         valid: false,
-        error: 'Duplicate positions found. Each position (1st, 2nd, 3rd) can only be assigned once',
+        error:
+          'Duplicate positions found. Each position (1st, 2nd, 3rd) can only be assigned once unless marked as tied',
       };
     }
 
+    for (const [position, shared] of byPosition) {
+      if (!shared.some((s) => s.tied)) continue;
+      if (shared.length < 2 || shared.some((s) => !s.tied)) {
+        return {
+          valid: false,
+          error: `A tied position must be shared by at least two golfers, all marked as tied (position ${position})`,
+        };
+      }
+      for (let place = position + 1; place < position + shared.length; place++) {
+        if (byPosition.has(place)) {
+          return {
+            valid: false,
+            error: `Position ${place} is covered by the ${shared.length}-way tie for position ${position}`,
+          };
+        }
+      }
+    }
+
     return { valid: true, error: '' };
   };
 
@@ -348,13 +450,18 @@ const ScoresAdminPage: React.FC = () => {
       });
 
       // Save scores for ALL golfers (both participating and non-participating)
-      // This ensures golfers who were unchecked get their scores reset to 0
-      const scoresToSave = Object.values(scores).map((s) => ({
-        golferId: s.golferId,
-        participated: s.participated,
-        position: s.participated ? s.position : null,
-        rawScore: s.participated ? s.rawScore : null,
-      }));
+      // This ensures golfers who were unchecked get their scores reset to 0.
+      // A pairing is saved once and the server credits both golfers.
+      const scoresToSave = Object.values(scores)
+        .filter((s) => !s.participated || isPairingResult(s))
+        .map((s) => ({
+          golferId: s.golferId,
+          partnerIds: s.participated && s.partnerId ? [s.partnerId] : [],
+          participated: s.participated,
+          position: s.participated ? s.position : null,
+          tied: s.participated && s.position !== null && s.tied,
+          rawScore: s.participated ? s.rawScore : null,
+        }));
 
       if (scoresToSave.length > 0) {
         setSaveProgress(`Saving ${scoresToSave.length} scores...`);
@@ -402,14 +509,9 @@ const ScoresAdminPage: React.FC = () => {
   };
 
   const getTypeBadge = (tournament: Tournament) => {
-    const config = TOURNAMENT_TYPE_CONFIG[tournament.tournamentType];
-    const bg =
-      config.multiplier >= 4
-        ? '#7c3aed'
-        : config.multiplier >= 2
-          ? 'var(--accent-gold)'
-          : '#e5e7eb';
-    const color = config.multiplier >= 4 ? 'white' : config.multiplier >= 2 ? '#1a1a1a' : '#6b7280';
+    const { multiplier } = tournament;
+    const bg = multiplier >= 4 ? '#7c3aed' : multiplier >= 2 ? 'var(--accent-gold)' : '#e5e7eb';
+    const color = multiplier >= 4 ? 'white' : multiplier >= 2 ? '#1a1a1a' : '#6b7280';
     return (
       <span
         style={{
@@ -421,7 +523,7 @@ const ScoresAdminPage: React.FC = () => {
           fontSize: '0.8rem',
         }}
       >
-        {tournament.multiplier}x {getTournamentTypeLabel(tournament.tournamentType)}
+        {tournament.multiplier}x {getTypeLabel(tournament.tournamentType)}
       </span>
     );
   };
@@ -641,15 +743,15 @@ const ScoresAdminPage: React.FC = () => {
                     style={{
                       marginLeft: '0.5rem',
                       background:
-                        TOURNAMENT_TYPE_CONFIG[editingTournament.tournamentType].multiplier >= 4
+                        editingTournament.multiplier >= 4
                           ? '#7c3aed'
-                          : TOURNAMENT_TYPE_CONFIG[editingTournament.tournamentType].multiplier >= 2
+                          : editingTournament.multiplier >= 2
                             ? 'var(--accent-gold)'
                             : '#e5e7eb',
                       color:
-                        TOURNAMENT_TYPE_CONFIG[editingTournament.tournamentType].multiplier >= 4
+                        editingTournament.multiplier >= 4
                           ? 'white'
-                          : TOURNAMENT_TYPE_CONFIG[editingTournament.tournamentType].multiplier >= 2
+                          : editingTournament.multiplier >= 2
                             ? '#1a1a1a'
                             : '#6b7280',
                       padding: '0.2rem 0.5rem',
@@ -659,14 +761,20 @@ const ScoresAdminPage: React.FC = () => {
                     }}
                   >
                     {editingTournament.multiplier}x{' '}
-                    {getTournamentTypeLabel(editingTournament.tournamentType)}
+                    {getTypeLabel(editingTournament.tournamentType)}
                   </span>
                 </div>
                 <div style={{ fontSize: '0.85rem', color: '#6b7280' }}>
                   <strong>Participants:</strong> {participantCount} golfers |{' '}
                   <strong>Points:</strong> 1st = 10pts, 2nd = 7pts, 3rd = 5pts | 36+ = +3pts, 32+ =
-                  +1pt
+                  +1pt | Tied golfers share the points for the places they cover
                 </div>
+                {editingTournament.teamFormat && (
+                  <div style={{ marginTop: '0.5rem', fontSize: '0.85rem', color: '#6b7280' }}>
+                    <strong>{TEAM_FORMAT_LABELS[editingTournament.teamFormat]}:</strong> each
+                    pairing shares one position and score, and both golfers get its points
+                  </div>
+                )}
                 {/* Required positions indicator */}
                 {participantCount > 0 && (
                   <div
@@ -686,6 +794,7 @@ const ScoresAdminPage: React.FC = () => {
               <p style={{ marginBottom: '1rem', color: '#6b7280' }}>
                 Mark the golfers who played in this tournament, then set their position and 36+
                 bonus.
+                {isTeamEvent && " Pick each golfer's partner first."}
               </p>
 
               {golfers.length === 0 ? (
@@ -697,6 +806,7 @@ const ScoresAdminPage: React.FC = () => {
                     <tr>
                       <th>golfer</th>
                       <th style={{ width: '80px' }}>Played?</th>
+                      {isTeamEvent && <th style={{ width: '180px' }}>Partner</th>}
                       <th style={{ width: '120px' }}>Position</th>
                       <th style={{ width: '100px' }}>36+ Points?</th>
                       <th style={{ width: '120px' }}>Final Points</th>
@@ -712,8 +822,12 @@ const ScoresAdminPage: React.FC = () => {
                         // Calculate points based on new scoring system
                         const getBasePoints = () => {
                           if (!score?.position) return 0;
-                          const positionPoints: Record<number, number> = { 1: 10, 2: 7, 3: 5 };
-                          return positionPoints[score.position] ?? 0;
+                          const tiedCount = score.tied ? (tiedCounts.get(score.position) ?? 1) : 1;
+                          return getBasePointsForPosition(
+                            score.position,
+                            DEFAULT_SCORING_RULES,
+                            tiedCount
+                          );
                         };
 
                         const scoringFormat = editingTournament.scoringFormat || 'stableford';
@@ -785,6 +899,30 @@ const ScoresAdminPage: React.FC = () => {
                                 style={{ width: '18px', height: '18px' }}
                               />
                             </td>
+                            {isTeamEvent && (
+                              <td>
+                                {isParticipant ? (
+                                  <select
+                                    id={`score-partner-${golfer.id}`}
+                                    name={`score-partner-${golfer.id}`}
+                                    value={score?.partnerId ?? ''}
+                                    onChange={(e) => handlePartnerChange(golfer.id, e.target.value)}
+                                    style={{ width: '100%' }}
+                                  >
+                                    <option value="">-</option>
+                                    {golfers
+                                      .filter((g) => g.isActive && g.id !== golfer.id)
+                                      .map((g) => (
+                                        <option key={g.id} value={g.id}>
+                                          {g.firstName} {g.lastName}
+                                        </option>
+                                      ))}
+                                  </select>
+                                ) : (
+                                  <span style={{ color: '#9ca3af' }}>-</span>
+                                )}
+                              </td>
+                            )}
                             <td>
                               {isParticipant ? (
                                 <select
@@ -797,13 +935,7 @@ const ScoresAdminPage: React.FC = () => {
                                   style={{ width: '100%' }}
                                 >
                                   <option value="">-</option>
-                                  {Array.from(
-                                    {
-                                      length: Object.values(scores).filter((s) => s.participated)
-                                        .length,
-                                    },
-                                    (_, i) => i + 1
-                                  ).map((pos) => (
+                                  {Array.from({ length: results.length }, (_, i) => i + 1).map((pos) => (
                                     <option key={pos} value={pos}>
                                       {pos === 1
                                         ? '🥇 1st'
@@ -818,6 +950,30 @@ const ScoresAdminPage: React.FC = () => {
                               ) : (
                                 <span style={{ color: '#9ca3af' }}>-</span>
                               )}
+                              {isParticipant && score?.position && (
+                                <label
+                                  htmlFor={`score-tied-${golfer.id}`}
+                                  style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '0.25rem',
+                                    marginTop: '0.25rem',
+                                    fontSize: '0.8rem',
+                                    color: '#6b7280',
+                                  }}
+                                >
+                                  <input
+                                    id={`score-tied-${golfer.id}`}
+                                    name={`score-tied-${golfer.id}`}
+                                    type="checkbox"
+                                    checked={score.tied}
+                                    onChange={(e) =>
+                                      handleScoreChange(golfer.id, 'tied', e.target.checked)
+                                    }
+                                  />
+                                  Tied
+                                </label>
+                              )}
                             </td>
                             <td>
                               {isParticipant ? (
@@ -940,19 +1096,15 @@ const ScoresAdminPage: React.FC = () => {
                       style={{
                         marginLeft: '0.5rem',
                         background:
-                          TOURNAMENT_TYPE_CONFIG[viewingTournament.tournament.tournamentType]
-                            .multiplier >= 4
+                          viewingTournament.tournament.multiplier >= 4
                             ? '#7c3aed'
-                            : TOURNAMENT_TYPE_CONFIG[viewingTournament.tournament.tournamentType]
-                                  .multiplier >= 2
+                            : viewingTournament.tournament.multiplier >= 2
                               ? 'var(--accent-gold)'
                               : '#e5e7eb',
                         color:
-                          TOURNAMENT_TYPE_CONFIG[viewingTournament.tournament.tournamentType]
-                            .multiplier >= 4
+                          viewingTournament.tournament.multiplier >= 4
                             ? 'white'
-                            : TOURNAMENT_TYPE_CONFIG[viewingTournament.tournament.tournamentType]
-                                  .multiplier >= 2
+                            : viewingTournament.tournament.multiplier >= 2
                               ? '#1a1a1a'
                               : '#6b7280',
                         padding: '0.2rem 0.5rem',
@@ -962,7 +1114,7 @@ const ScoresAdminPage: React.FC = () => {
                       }}
                     >
                       {viewingTournament.tournament.multiplier}x{' '}
-                      {getTournamentTypeLabel(viewingTournament.tournament.tournamentType)}
+                      {getTypeLabel(viewingTournament.tournament.tournamentType)}
                     </span>
                   </div>
                   <div style={{ textAlign: 'right' }}>
@@ -996,7 +1148,10 @@ const ScoresAdminPage: React.FC = () => {
                 </thead>
                 <tbody>
                   {viewingTournament.scores
-                    .filter((s) => s.participated)
+                    // List each pairing once, under its first member by id
+                    .filter(
+                      (s) => s.participated && !(s.partnerIds ?? []).some((id) => id < s.golferId)
+                    )
                     .sort((a, b) => {
                       if (a.position !== null && b.position !== null)
                         return a.position - b.position;
@@ -1007,12 +1162,14 @@ const ScoresAdminPage: React.FC = () => {
                     .map((score) => (
                       <tr key={score.id}>
                         <td data-label="Position">
-                          {score.position === 1 && '🥇 1st'}
-                          {score.position === 2 && '🥈 2nd'}
-                          {score.position === 3 && '🥉 3rd'}
-                          {!score.position && '-'}
+                          {score.position === 1 && '🥇 '}
+                          {score.position === 2 && '🥈 '}
+                          {score.position === 3 && '🥉 '}
+                          {score.position !== null && score.position <= 3
+                            ? formatPosition(score.position, score.tied)
+                            : '-'}
                         </td>
-                        <td data-label="Golfer" style={{ fontWeight: 500 }}>{getGolferName(score.golferId)}</td>
+                        <td data-label="Golfer" style={{ fontWeight: 500 }}>{[score.golferId, ...(score.partnerIds ?? [])].map(getGolferName).join(' & ')}</td>
                         <td data-label="Score">
                           {score.rawScore != null ? (
                             <span>
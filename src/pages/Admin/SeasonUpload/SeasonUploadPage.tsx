@@ -174,6 +174,9 @@ const SeasonUploadPage: React.FC = () => {
             <p style={{ color: '#6b7280', fontSize: '0.85rem', marginTop: '0.25rem' }}>
               Tournaments are automatically matched to seasons based on their date.
             </p>
+            <p style={{ color: '#6b7280', fontSize: '0.85rem', marginTop: '0.25rem' }}>
+              Golfers sharing a position on countback are scored as tied (e.g. 2 or T2 for both).
+            </p>
           </div>
         </div>
       </div>
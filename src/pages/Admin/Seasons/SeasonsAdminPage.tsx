@@ -2,9 +2,16 @@
 
 import React, { useCallback, useEffect, useState } from 'react';
 import AdminLayout from '../../../components/AdminLayout/AdminLayout';
+import SeasonAwardsModal from '../../../components/ui/SeasonAwardsModal';
+import SeasonRolloverModal from '../../../components/ui/SeasonRolloverModal';
 import { validators, sanitizers, getInputClassName } from '../../../utils/validation';
 import { useApiClient } from '../../../hooks/useApiClient';
 import { useDocumentTitle } from '../../../hooks/useDocumentTitle';
+import {
+  SEASON_ROLLOVER_STEP_LABELS,
+  SEASON_ROLLOVER_STEPS,
+  type SeasonRollover,
+} from '@shared/types';
 
 interface Season {
   id: string;
@@ -37,6 +44,9 @@ const SeasonsAdminPage: React.FC = () => {
   const [formData, setFormData] = useState<SeasonFormData>(initialFormData);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [showRollover, setShowRollover] = useState(false);
+  const [stalledRollover, setStalledRollover] = useState<SeasonRollover | null>(null);
+  const [awardsSeason, setAwardsSeason] = useState<Season | null>(null);
 
   // Form validation state
   const [touched, setTouched] = useState<Record<string, boolean>>({});
@@ -136,11 +146,20 @@ const SeasonsAdminPage: React.FC = () => {
     }
   }, [get]);
 
+  const fetchRollover = useCallback(async () => {
+    const response = await get<SeasonRollover | null>('seasons-rollover');
+    if (response.cancelled) return;
+    setStalledRollover(
+      response.success && response.data?.status === 'in_progress' ? response.data : null
+    );
+  }, [get]);
+
   useEffect(() => {
     if (isAuthReady) {
       fetchSeasons();
+      fetchRollover();
     }
-  }, [isAuthReady, fetchSeasons]);
+  }, [isAuthReady, fetchSeasons, fetchRollover]);
 
   const handleOpenModal = (season?: Season) => {
     if (season) {
@@ -226,6 +245,65 @@ const SeasonsAdminPage: React.FC = () => {
     }
   };
 
+  const handleGenerateFixtures = async (season: Season) => {
+    if (
+      !window.confirm(
+        `Draw head-to-head fixtures for "${season.name}"? Any fixtures for gameweeks that haven't started yet will be redrawn.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await post<{ fixtureCount: number; fromGameweek: number }>('h2h-generate', {
+        season: season.name,
+      });
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to generate fixtures');
+      }
+      setSuccess(
+        `Drew ${response.data.fixtureCount} head-to-head fixtures from gameweek ${response.data.fromGameweek}`
+      );
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleMarkComplete = async (season: Season) => {
+    const alreadyComplete = season.status === 'complete';
+    if (
+      !window.confirm(
+        alreadyComplete
+          ? `Re-archive "${season.name}"? The archived standings and winners will be recalculated from the current scores.`
+          : `Mark "${season.name}" as complete? Its final standings and winners will be archived for the Hall of Fame.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await put<Season>(`seasons-update?id=${season.id}`, { status: 'complete' });
+      if (!response.success) throw new Error(response.error || 'Failed to complete season');
+      setSuccess(`"${season.name}" has been archived`);
+      fetchSeasons();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleCloseRollover = () => {
+    setShowRollover(false);
+    fetchSeasons();
+    fetchRollover();
+  };
+
+  const handleRolloverComplete = (rollover: SeasonRollover) => {
+    setSuccess(`Season ${rollover.toSeasonName} is now active!`);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
   const handleDeleteSeason = async (season: Season) => {
     if (
       !window.confirm(
@@ -274,12 +352,27 @@ const SeasonsAdminPage: React.FC = () => {
   const setupCount = seasons.filter((s) => s.status === 'setup').length;
   const activeCount = seasons.filter((s) => s.isActive).length;
   const completeCount = seasons.filter((s) => s.status === 'complete').length;
+  const activeSeason = seasons.find((s) => s.isActive) ?? null;
+  const stalledStep = stalledRollover
+    ? SEASON_ROLLOVER_STEPS.find((step) => !stalledRollover.completedSteps.includes(step))
+    : undefined;
 
   return (
     <AdminLayout title="Seasons">
       {success && <div className="alert alert-success">{success}</div>}
       {error && <div className="alert alert-error">{error}</div>}
 
+      {stalledRollover && (
+        <div className="alert alert-error">
+          The rollover to {stalledRollover.toSeasonName} stopped
+          {stalledStep && ` at "${SEASON_ROLLOVER_STEP_LABELS[stalledStep]}"`}
+          {stalledRollover.lastError && `: ${stalledRollover.lastError}`}.{' '}
+          <button className="btn btn-primary btn-sm" onClick={() => setShowRollover(true)}>
+            Resume Rollover
+          </button>
+        </div>
+      )}
+
       {/* Stats Row */}
       <div className="stats-row" style={{ marginBottom: '1.5rem' }}>
         <div className="stat-box">
@@ -307,9 +400,18 @@ const SeasonsAdminPage: React.FC = () => {
       <div className="admin-card">
         <div className="admin-card-header">
           <h2>All Seasons ({seasons.length})</h2>
-          <button className="btn btn-primary" onClick={() => handleOpenModal()}>
-            + Create Season
-          </button>
+          <div className="table-actions">
+            <button
+              className="btn btn-secondary"
+              onClick={() => setShowRollover(true)}
+              disabled={!activeSeason && !stalledRollover}
+            >
+              🔄 Roll Over Season
+            </button>
+            <button className="btn btn-primary" onClick={() => handleOpenModal()}>
+              + Create Season
+            </button>
+          </div>
         </div>
 
         {loading ? (
@@ -372,6 +474,25 @@ const SeasonsAdminPage: React.FC = () => {
                       >
                         Edit
                       </button>
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleGenerateFixtures(season)}
+                        disabled={season.status === 'complete'}
+                      >
+                        H2H Fixtures
+                      </button>
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => setAwardsSeason(season)}
+                      >
+                        Awards
+                      </button>
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleMarkComplete(season)}
+                      >
+                        {season.status === 'complete' ? 'Re-archive' : 'Mark Complete'}
+                      </button>
                       <button
                         className="btn btn-danger btn-sm"
                         onClick={() => handleDeleteSeason(season)}
@@ -393,6 +514,19 @@ const SeasonsAdminPage: React.FC = () => {
         )}
       </div>
 
+      {showRollover && (
+        <SeasonRolloverModal
+          activeSeason={activeSeason}
+          inProgress={stalledRollover}
+          onClose={handleCloseRollover}
+          onComplete={handleRolloverComplete}
+        />
+      )}
+
+      {awardsSeason && (
+        <SeasonAwardsModal season={awardsSeason} onClose={() => setAwardsSeason(null)} />
+      )}
+
       {/* Add/Edit Modal */}
       {showModal && (
         <div className="modal-overlay" onClick={handleCloseModal}>
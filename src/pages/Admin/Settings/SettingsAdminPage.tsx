@@ -2,6 +2,7 @@
 
 import React, { useCallback, useEffect, useState } from 'react';
 import AdminLayout from '../../../components/AdminLayout/AdminLayout';
+import ScoringRulesEditor from '../../../components/ui/ScoringRulesEditor';
 import { useApiClient } from '../../../hooks/useApiClient';
 import { useDocumentTitle } from '../../../hooks/useDocumentTitle';
 
@@ -11,6 +12,7 @@ interface AppSettings {
   allowNewTeamCreation: boolean;
   maxTransfersPerWeek: number;
   maxPlayersPerTransfer: number;
+  transferPenaltyPoints: number;
 }
 
 const SettingsAdminPage: React.FC = () => {
@@ -316,6 +318,62 @@ const SettingsAdminPage: React.FC = () => {
               </div>
             </div>
           )}
+
+          {/* Transfer Penalty - only show when transfers are open */}
+          {settings?.transfersOpen && (
+            <div
+              style={{
+                marginTop: '1rem',
+                padding: '1rem',
+                background: '#f9fafb',
+                borderRadius: '8px',
+                border: '1px solid #e5e7eb',
+              }}
+            >
+              <div
+                style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
+              >
+                <div>
+                  <h3 style={{ fontSize: '1rem', fontWeight: 600, marginBottom: '0.25rem' }}>
+                    Extra Transfer Penalty
+                  </h3>
+                  <p style={{ color: '#6b7280', fontSize: '0.9rem', margin: 0 }}>
+                    Points deducted per golfer swapped once the weekly transfers are used (0 blocks
+                    extra transfers).
+                  </p>
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                  <input
+                    id="transfer-penalty-points"
+                    name="transfer-penalty-points"
+                    type="number"
+                    min="0"
+                    max="20"
+                    value={settings?.transferPenaltyPoints ?? 4}
+                    onChange={(e) => {
+                      const val = parseInt(e.target.value);
+                      if (val >= 0 && val <= 20) {
+                        updateSetting('transferPenaltyPoints', val);
+                      }
+                    }}
+                    disabled={updating === 'transferPenaltyPoints'}
+                    style={{
+                      width: '80px',
+                      padding: '0.5rem 0.75rem',
+                      fontSize: '1.25rem',
+                      fontWeight: 700,
+                      textAlign: 'center',
+                      border: '2px solid #d1d5db',
+                      borderRadius: '8px',
+                    }}
+                  />
+                  <span style={{ color: '#6b7280', fontSize: '0.9rem' }}>
+                    {updating === 'transferPenaltyPoints' ? 'Saving...' : 'pts per golfer'}
+                  </span>
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -447,7 +505,6 @@ const SettingsAdminPage: React.FC = () => {
               display: 'grid',
               gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))',
               gap: '1rem',
-              marginBottom: '1rem',
             }}
           >
             <div style={{ background: '#f9fafb', padding: '1rem', borderRadius: '8px' }}>
@@ -463,55 +520,16 @@ const SettingsAdminPage: React.FC = () => {
               <div style={{ fontSize: '1.5rem', fontWeight: 700, color: '#374151' }}>6 golfers</div>
             </div>
           </div>
+        </div>
+      </div>
 
-          {/* Scoring Rules */}
-          <div
-            style={{
-              background: '#ecfdf5',
-              padding: '1rem',
-              borderRadius: '8px',
-              border: '1px solid #a7f3d0',
-            }}
-          >
-            <h4
-              style={{
-                fontSize: '0.9rem',
-                fontWeight: 600,
-                color: '#065f46',
-                marginBottom: '0.5rem',
-              }}
-            >
-              📊 Scoring Rules
-            </h4>
-            <div
-              style={{
-                display: 'grid',
-                gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
-                gap: '0.5rem',
-                fontSize: '0.85rem',
-                color: '#065f46',
-              }}
-            >
-              <div>
-                🥇 1st Place: <strong>10 pts</strong>
-              </div>
-              <div>
-                🥈 2nd Place: <strong>7 pts</strong>
-              </div>
-              <div>
-                🥉 3rd Place: <strong>5 pts</strong>
-              </div>
-              <div>
-                ⭐ 36+ Bonus: <strong>+3 pts</strong>
-              </div>
-              <div>
-                ⭐ 32+ Bonus: <strong>+1 pt</strong>
-              </div>
-            </div>
-            <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', color: '#047857' }}>
-              Multipliers: Regular (1x) | Elevated (2x) | Signature (3x)
-            </div>
-          </div>
+      {/* Scoring Rules */}
+      <div className="admin-card" style={{ marginBottom: '1.5rem' }}>
+        <div className="admin-card-header">
+          <h2>📊 Scoring Rules</h2>
+        </div>
+        <div className="admin-card-body">
+          <ScoringRulesEditor />
         </div>
       </div>
 
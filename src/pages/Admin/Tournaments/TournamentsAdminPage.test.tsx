@@ -50,7 +50,37 @@ vi.mock('../../../utils/formatters', () => ({
   formatRawScore: vi.fn().mockReturnValue('0'),
 }));
 
-import { render } from '@testing-library/react';
+vi.mock('../../../hooks/useTournamentTypes', () => ({
+  useTournamentTypes: () => ({
+    types: [
+      {
+        id: 't1',
+        key: 'rollup_stableford',
+        label: 'Rollup Stableford',
+        multiplier: 1,
+        defaultScoringFormat: 'stableford',
+        forcedScoringFormat: 'stableford',
+        defaultMultiDay: false,
+        isBuiltIn: true,
+      },
+      {
+        id: 't2',
+        key: 'winter_foursomes',
+        label: 'Winter Foursomes',
+        multiplier: 1.5,
+        defaultScoringFormat: 'medal',
+        forcedScoringFormat: null,
+        defaultMultiDay: false,
+        isBuiltIn: false,
+      },
+    ],
+    loading: false,
+    refetch: vi.fn(),
+    getTypeLabel: (type: string) => type,
+  }),
+}));
+
+import { fireEvent, render, screen, within } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import React from 'react';
 import TournamentsAdminPage from './TournamentsAdminPage';
@@ -64,4 +94,36 @@ describe('TournamentsAdminPage', () => {
     );
     expect(document.body).toBeTruthy();
   });
+
+  it('manages tournament types and offers them when creating a tournament', async () => {
+    render(
+      <MemoryRouter>
+        <TournamentsAdminPage />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText('Tournament Types (2)')).toBeInTheDocument();
+
+    fireEvent.click(await screen.findByText('Create Your First Tournament'));
+    const typeSelect = screen.getByLabelText(/Tournament Type/);
+    const options = within(typeSelect)
+      .getAllByRole('option')
+      .map((option) => option.textContent);
+    expect(options).toEqual(['Rollup Stableford (1×)', 'Winter Foursomes (1.5×)']);
+  });
+
+  it('offers the team formats when creating a tournament', async () => {
+    render(
+      <MemoryRouter>
+        <TournamentsAdminPage />
+      </MemoryRouter>
+    );
+
+    fireEvent.click(await screen.findByText('Create Your First Tournament'));
+    const formatSelect = screen.getByLabelText('Format');
+    const options = within(formatSelect)
+      .getAllByRole('option')
+      .map((option) => option.textContent);
+    expect(options).toEqual(['Individual', 'Pairs', 'Fourball', 'Foursomes']);
+  });
 });
@@ -5,7 +5,9 @@ import AdminLayout from '../../../components/AdminLayout/AdminLayout';
 import { validators, sanitizers, getInputClassName } from '../../../utils/validation';
 import { useApiClient } from '../../../hooks/useApiClient';
 import { useDocumentTitle } from '../../../hooks/useDocumentTitle';
-import { TOURNAMENT_TYPE_CONFIG, TournamentType, getTournamentTypeLabel } from '@shared/types';
+import { useTournamentTypes } from '../../../hooks/useTournamentTypes';
+import TournamentTypesEditor from '../../../components/ui/TournamentTypesEditor';
+import { TEAM_FORMAT_LABELS, TeamFormat, TournamentType } from '@shared/types';
 import { formatRawScore } from '../../../utils/formatters';
 
 interface Tournament {
@@ -20,6 +22,7 @@ interface Tournament {
   status: 'draft' | 'published' | 'complete';
   participatingGolferIds: string[];
   isMultiDay: boolean;
+  teamFormat: TeamFormat | null;
 }
 
 interface Score {
@@ -51,6 +54,7 @@ interface TournamentFormData {
   tournamentType: TournamentType;
   scoringFormat: 'stableford' | 'medal';
   isMultiDay: boolean;
+  teamFormat: TeamFormat | null;
 }
 
 const initialFormData: TournamentFormData = {
@@ -60,11 +64,13 @@ const initialFormData: TournamentFormData = {
   tournamentType: 'rollup_stableford',
   scoringFormat: 'stableford',
   isMultiDay: false,
+  teamFormat: null,
 };
 
 const TournamentsAdminPage: React.FC = () => {
   const { get, post, put, request, isAuthReady } = useApiClient();
   useDocumentTitle('Admin: Tournaments');
+  const { types: tournamentTypes, refetch: refetchTypes, getTypeLabel } = useTournamentTypes();
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
@@ -213,6 +219,7 @@ const TournamentsAdminPage: React.FC = () => {
         tournamentType: tournament.tournamentType || 'rollup_stableford',
         scoringFormat: tournament.scoringFormat || 'stableford',
         isMultiDay: tournament.isMultiDay ?? false,
+        teamFormat: tournament.teamFormat ?? null,
       });
     } else {
       setEditingTournament(null);
@@ -293,6 +300,7 @@ const TournamentsAdminPage: React.FC = () => {
           tournamentType: formData.tournamentType,
           scoringFormat: formData.scoringFormat,
           isMultiDay: formData.isMultiDay,
+          teamFormat: formData.teamFormat,
         });
         if (!response.success) throw new Error(response.error || 'Failed to update tournament');
         setSuccess('Tournament updated successfully!');
@@ -305,6 +313,7 @@ const TournamentsAdminPage: React.FC = () => {
           tournamentType: formData.tournamentType,
           scoringFormat: formData.scoringFormat,
           isMultiDay: formData.isMultiDay,
+          teamFormat: formData.teamFormat,
         });
         if (!response.success) throw new Error(response.error || 'Failed to create tournament');
         setSuccess('Tournament created successfully!');
@@ -471,15 +480,15 @@ const TournamentsAdminPage: React.FC = () => {
                     <span
                       style={{
                         background:
-                          TOURNAMENT_TYPE_CONFIG[tournament.tournamentType].multiplier >= 4
+                          tournament.multiplier >= 4
                             ? '#7c3aed'
-                            : TOURNAMENT_TYPE_CONFIG[tournament.tournamentType].multiplier >= 2
+                            : tournament.multiplier >= 2
                               ? 'var(--accent-gold)'
                               : 'transparent',
                         color:
-                          TOURNAMENT_TYPE_CONFIG[tournament.tournamentType].multiplier >= 4
+                          tournament.multiplier >= 4
                             ? 'white'
-                            : TOURNAMENT_TYPE_CONFIG[tournament.tournamentType].multiplier >= 2
+                            : tournament.multiplier >= 2
                               ? '#1a1a1a'
                               : '#6b7280',
                         padding: '0.25rem 0.5rem',
@@ -488,7 +497,7 @@ const TournamentsAdminPage: React.FC = () => {
                         fontSize: '0.8rem',
                       }}
                     >
-                      {tournament.multiplier}x {getTournamentTypeLabel(tournament.tournamentType)}
+                      {tournament.multiplier}x {getTypeLabel(tournament.tournamentType)}
                     </span>
                   </td>
                   <td data-label="Status">{getStatusBadge(tournament.status)}</td>
@@ -536,6 +545,15 @@ const TournamentsAdminPage: React.FC = () => {
         )}
       </div>
 
+      <div className="admin-card">
+        <div className="admin-card-header">
+          <h2>Tournament Types ({tournamentTypes.length})</h2>
+        </div>
+        <div className="admin-card-body">
+          <TournamentTypesEditor types={tournamentTypes} onChange={refetchTypes} />
+        </div>
+      </div>
+
       {/* Add/Edit Modal */}
       {showModal && (
         <div className="modal-overlay" onClick={handleCloseModal}>
@@ -612,23 +630,18 @@ const TournamentsAdminPage: React.FC = () => {
                     className="form-select"
                     value={formData.tournamentType}
                     onChange={(e) => {
-                      const newType = e.target.value as TournamentType;
-                      const config = TOURNAMENT_TYPE_CONFIG[newType];
+                      const config = tournamentTypes.find((t) => t.key === e.target.value);
+                      if (!config) return;
                       setFormData({
                         ...formData,
-                        tournamentType: newType,
+                        tournamentType: config.key,
                         scoringFormat: config.forcedScoringFormat ?? formData.scoringFormat,
                         isMultiDay: config.defaultMultiDay,
                       });
                     }}
                   >
-                    {(
-                      Object.entries(TOURNAMENT_TYPE_CONFIG) as [
-                        TournamentType,
-                        (typeof TOURNAMENT_TYPE_CONFIG)[TournamentType],
-                      ][]
-                    ).map(([key, config]) => (
-                      <option key={key} value={key}>
+                    {tournamentTypes.map((config) => (
+                      <option key={config.key} value={config.key}>
                         {config.label} ({config.multiplier}×)
                       </option>
                     ))}
@@ -666,6 +679,38 @@ const TournamentsAdminPage: React.FC = () => {
                     Multi-day events use doubled bonus point thresholds
                   </small>
                 </div>
+
+                <div className="form-group">
+                  <label htmlFor="teamFormat">Format</label>
+                  <select
+                    id="teamFormat"
+                    className="form-select"
+                    value={formData.teamFormat ?? ''}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        teamFormat: (e.target.value || null) as TeamFormat | null,
+                      })
+                    }
+                  >
+                    <option value="">Individual</option>
+                    {(Object.keys(TEAM_FORMAT_LABELS) as TeamFormat[]).map((format) => (
+                      <option key={format} value={format}>
+                        {TEAM_FORMAT_LABELS[format]}
+                      </option>
+                    ))}
+                  </select>
+                  <small
+                    style={{
+                      color: '#6b7280',
+                      fontSize: '0.8rem',
+                      marginTop: '0.25rem',
+                      display: 'block',
+                    }}
+                  >
+                    Team events are scored per pairing, with the points credited to both golfers
+                  </small>
+                </div>
               </div>
               <div className="modal-footer">
                 <button type="button" className="btn btn-secondary" onClick={handleCloseModal}>
@@ -717,16 +762,15 @@ const TournamentsAdminPage: React.FC = () => {
                     <span
                       style={{
                         color:
-                          TOURNAMENT_TYPE_CONFIG[viewingTournament.tournamentType].multiplier >= 4
+                          viewingTournament.multiplier >= 4
                             ? '#7c3aed'
-                            : TOURNAMENT_TYPE_CONFIG[viewingTournament.tournamentType].multiplier >=
-                                2
+                            : viewingTournament.multiplier >= 2
                               ? 'var(--accent-gold)'
                               : 'inherit',
                       }}
                     >
                       {viewingTournament.multiplier}x{' '}
-                      {getTournamentTypeLabel(viewingTournament.tournamentType)}
+                      {getTypeLabel(viewingTournament.tournamentType)}
                     </span>
                   </div>
                 </div>
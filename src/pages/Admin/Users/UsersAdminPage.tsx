@@ -3,6 +3,7 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import AdminLayout from '../../../components/AdminLayout/AdminLayout';
 import LoadingSpinner from '../../../components/ui/LoadingSpinner';
+import SessionList from '../../../components/ui/SessionList';
 import { useAuth } from '../../../hooks/useAuth';
 import { useApiClient } from '../../../hooks/useApiClient';
 import { useDocumentTitle } from '../../../hooks/useDocumentTitle';
@@ -490,6 +491,20 @@ const UsersAdminPage: React.FC = () => {
                 </div>
               </div>
 
+              {/* Devices & Sessions */}
+              <div
+                style={{
+                  marginTop: '1.5rem',
+                  paddingTop: '1.5rem',
+                  borderTop: '1px solid #e5e7eb',
+                }}
+              >
+                <h4 style={{ fontSize: '0.9rem', fontWeight: 600, marginBottom: '0.75rem' }}>
+                  Devices &amp; Sessions
+                </h4>
+                <SessionList userId={viewingUser.id} />
+              </div>
+
               {/* Quick Actions */}
               {viewingUser.id !== currentUserId && (
                 <div
@@ -0,0 +1,129 @@
+vi.mock('../../../hooks/useDocumentTitle', () => ({
+  useDocumentTitle: vi.fn(),
+}));
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import ForgotPasswordPage from './ForgotPasswordPage';
+
+const respond = (ok: boolean, body: object) =>
+  Promise.resolve({ ok, json: () => Promise.resolve(body) });
+
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <ForgotPasswordPage />
+    </MemoryRouter>
+  );
+
+const postedBody = (fetchMock: ReturnType<typeof vi.fn>, call: number) =>
+  JSON.parse(fetchMock.mock.calls[call][1].body);
+
+describe('ForgotPasswordPage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('texts a code to a phone number and sets the new password', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockReturnValueOnce(
+        respond(true, { success: true, message: "We've texted it a reset code" })
+      )
+      .mockReturnValueOnce(respond(true, { success: true, message: 'Password updated.' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    renderPage();
+    fireEvent.change(screen.getByLabelText('Username or phone number'), {
+      target: { value: '07900 165650' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Text Me a Code' }));
+
+    expect(await screen.findByText("We've texted it a reset code")).toBeInTheDocument();
+    expect(fetchMock.mock.calls[0][0]).toBe('/.netlify/functions/auth-forgot-password');
+    expect(postedBody(fetchMock, 0)).toEqual({ identifier: '+447900165650', channel: 'sms' });
+
+    fireEvent.change(screen.getByLabelText('Reset code'), { target: { value: '042817' } });
+    fireEvent.change(screen.getByLabelText('New password'), { target: { value: 'newsecurepass' } });
+    fireEvent.change(screen.getByLabelText('Confirm new password'), {
+      target: { value: 'newsecurepass' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Reset Password' }));
+
+    expect(await screen.findByText('Password updated.')).toBeInTheDocument();
+    expect(fetchMock.mock.calls[1][0]).toBe('/.netlify/functions/auth-reset-password');
+    expect(postedBody(fetchMock, 1)).toEqual({
+      identifier: '+447900165650',
+      channel: 'sms',
+      code: '042817',
+      password: 'newsecurepass',
+    });
+    expect(screen.getByRole('link', { name: 'Sign In' })).toHaveAttribute('href', '/login');
+  });
+
+  it('emails a code for a username', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockReturnValue(respond(true, { success: true, message: "We've emailed it a reset code" }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    renderPage();
+    fireEvent.change(screen.getByLabelText('Username or phone number'), {
+      target: { value: 'Alice' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Email Me a Code' }));
+
+    expect(await screen.findByText("We've emailed it a reset code")).toBeInTheDocument();
+    expect(postedBody(fetchMock, 0)).toEqual({ identifier: 'alice', channel: 'email' });
+  });
+
+  it('shows the error for a wrong code', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockReturnValueOnce(respond(true, { success: true, message: 'Code sent' }))
+        .mockReturnValueOnce(
+          respond(false, { success: false, error: 'Invalid or expired reset code' })
+        )
+    );
+
+    renderPage();
+    fireEvent.change(screen.getByLabelText('Username or phone number'), {
+      target: { value: 'alice' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Text Me a Code' }));
+    await screen.findByText('Code sent');
+
+    fireEvent.change(screen.getByLabelText('Reset code'), { target: { value: '111111' } });
+    fireEvent.change(screen.getByLabelText('New password'), { target: { value: 'newsecurepass' } });
+    fireEvent.change(screen.getByLabelText('Confirm new password'), {
+      target: { value: 'newsecurepass' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Reset Password' }));
+
+    expect(await screen.findByText('Invalid or expired reset code')).toBeInTheDocument();
+  });
+
+  it('checks the new passwords match before sending', async () => {
+    const fetchMock = vi.fn().mockReturnValue(respond(true, { success: true, message: 'Sent' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    renderPage();
+    fireEvent.change(screen.getByLabelText('Username or phone number'), {
+      target: { value: 'alice' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Text Me a Code' }));
+    await screen.findByText('Sent');
+
+    fireEvent.change(screen.getByLabelText('Reset code'), { target: { value: '042817' } });
+    fireEvent.change(screen.getByLabelText('New password'), { target: { value: 'newsecurepass' } });
+    fireEvent.change(screen.getByLabelText('Confirm new password'), {
+      target: { value: 'different1' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Reset Password' }));
+
+    expect(await screen.findByText('Passwords do not match')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,266 @@
+// Forgot password page — request a reset code by SMS or email, then set a new password
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PASSWORD_MIN_LENGTH } from '@shared/constants/rules';
+import { useDocumentTitle } from '../../../hooks/useDocumentTitle';
+import '../Login/LoginPage.css';
+
+type Channel = 'sms' | 'email';
+type Step = 'request' | 'reset' | 'done';
+
+const successStyle: React.CSSProperties = {
+  background: 'var(--success-bg, #1a3a1a)',
+  borderColor: 'var(--success-color, #4caf50)',
+  color: 'var(--success-color, #4caf50)',
+};
+
+// Phone numbers are stored as +447..., however they're typed; usernames are lower case
+function toIdentifier(value: string): string {
+  const compact = value.replace(/\s/g, '');
+  if (/^(\+?44|0)?7\d{9}$/.test(compact)) {
+    return `+447${compact.slice(-9)}`;
+  }
+  return compact.toLowerCase();
+}
+
+async function post(endpoint: string, body: object): Promise<string> {
+  const response = await fetch(`/.netlify/functions/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Something went wrong. Please try again.');
+  }
+  return data.message;
+}
+
+const ForgotPasswordPage: React.FC = () => {
+  const [step, setStep] = useState<Step>('request');
+  const [identifier, setIdentifier] = useState('');
+  const [channel, setChannel] = useState<Channel>('sms');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useDocumentTitle('Forgot Password');
+
+  const requestCode = async (selected: Channel) => {
+    setError('');
+    if (!identifier.trim()) {
+      setError('Enter your username or phone number');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const sent = await post('auth-forgot-password', {
+        identifier: toIdentifier(identifier),
+        channel: selected,
+      });
+      setChannel(selected);
+      setMessage(sent);
+      setCode('');
+      setStep('reset');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send reset code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < PASSWORD_MIN_LENGTH) {
+      setError(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const done = await post('auth-reset-password', {
+        identifier: toIdentifier(identifier),
+        channel,
+        code,
+        password,
+      });
+      setMessage(done);
+      setStep('done');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-page">
+      <div className="login-container">
+        <Link to="/login" className="back-link">
+          ← Back to Sign In
+        </Link>
+
+        <div className="login-card">
+          <div className="login-header">
+            <img
+              src="/bearwood_lakes_logo.png"
+              alt="Bearwood Lakes"
+              className="login-logo-img"
+              width="80"
+              height="80"
+            />
+            <h1>Reset Password</h1>
+            <p>
+              {step === 'request' &&
+                "Enter your username or phone number and we'll send you a code."}
+              {step === 'reset' && 'Enter the code and choose a new password.'}
+              {step === 'done' && 'Your password has been reset.'}
+            </p>
+          </div>
+
+          {step === 'request' && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                requestCode('sms');
+              }}
+              className="login-form"
+            >
+              {error && <div className="error-message">{error}</div>}
+
+              <div className="form-group">
+                <label htmlFor="identifier">Username or phone number</label>
+                <input
+                  type="text"
+                  id="identifier"
+                  value={identifier}
+                  onChange={(e) => setIdentifier(e.target.value)}
+                  placeholder="username or +447..."
+                  autoComplete="username"
+                  autoFocus
+                />
+              </div>
+
+              <button type="submit" className="btn btn-primary btn-full" disabled={isSubmitting}>
+                Text Me a Code
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary btn-full"
+                onClick={() => requestCode('email')}
+                disabled={isSubmitting}
+              >
+                Email Me a Code
+              </button>
+            </form>
+          )}
+
+          {step === 'reset' && (
+            <form onSubmit={handleReset} className="login-form">
+              {message && (
+                <div className="error-message" style={successStyle}>
+                  {message}
+                </div>
+              )}
+              {error && <div className="error-message">{error}</div>}
+
+              <div className="form-group">
+                <label htmlFor="resetCode">Reset code</label>
+                <input
+                  type="text"
+                  id="resetCode"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  placeholder="123456"
+                  maxLength={6}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="newPassword">New password</label>
+                <input
+                  type="password"
+                  id="newPassword"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+                  autoComplete="new-password"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="confirmPassword">Confirm new password</label>
+                <input
+                  type="password"
+                  id="confirmPassword"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+
+              <button
+                type="submit"
+                className="btn btn-primary btn-full"
+                disabled={isSubmitting || code.length !== 6}
+              >
+                {isSubmitting ? (
+                  <span className="btn-loading-spinner">Resetting...</span>
+                ) : (
+                  'Reset Password'
+                )}
+              </button>
+            </form>
+          )}
+
+          {step === 'done' && (
+            <div className="login-form">
+              <div className="error-message" style={successStyle}>
+                {message}
+              </div>
+              <Link to="/login" className="btn btn-primary btn-full">
+                Sign In
+              </Link>
+            </div>
+          )}
+
+          {step === 'reset' && (
+            <div className="login-footer">
+              <p>
+                Didn&apos;t get a code?{' '}
+                <button
+                  type="button"
+                  className="link"
+                  onClick={() => {
+                    setError('');
+                    setStep('request');
+                  }}
+                  style={{ background: 'none', border: 'none', cursor: 'pointer', padding: 0 }}
+                >
+                  Try again
+                </button>
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
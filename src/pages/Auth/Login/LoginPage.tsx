@@ -140,6 +140,9 @@ const LoginPage: React.FC = () => {
               {getFieldState('password').touched && getFieldState('password').error && (
                 <span className="field-error">{getFieldState('password').error}</span>
               )}
+              <Link to="/forgot-password" className="link forgot-password-link">
+                Forgot password?
+              </Link>
             </div>
 
             <button type="submit" className="btn btn-primary btn-full" disabled={isLoading}>
@@ -0,0 +1,60 @@
+vi.mock('../../../hooks/useDocumentTitle', () => ({
+  useDocumentTitle: vi.fn(),
+}));
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import UnsubscribePage from './UnsubscribePage';
+
+const renderAt = (url: string) =>
+  render(
+    <MemoryRouter initialEntries={[url]}>
+      <UnsubscribePage />
+    </MemoryRouter>
+  );
+
+describe('UnsubscribePage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('unsubscribes with the token from the link once confirmed', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ success: true }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    renderAt('/unsubscribe?token=signed-token');
+    expect(fetchMock).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole('button', { name: 'Unsubscribe' }));
+
+    expect(await screen.findByText(/You've been unsubscribed/)).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith('/.netlify/functions/email-unsubscribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: 'signed-token' }),
+    });
+  });
+
+  it('shows the error for an invalid link', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: false,
+        json: () => Promise.resolve({ success: false, error: 'Invalid unsubscribe link' }),
+      })
+    );
+
+    renderAt('/unsubscribe?token=forged');
+    fireEvent.click(screen.getByRole('button', { name: 'Unsubscribe' }));
+
+    expect(await screen.findByText('Invalid unsubscribe link')).toBeInTheDocument();
+  });
+
+  it('cannot unsubscribe without a token', () => {
+    renderAt('/unsubscribe');
+
+    expect(screen.getByRole('button', { name: 'Unsubscribe' })).toBeDisabled();
+  });
+});
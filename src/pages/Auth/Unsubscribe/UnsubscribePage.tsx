@@ -0,0 +1,87 @@
+// Unsubscribe page — landing page for the unsubscribe link in digest emails
+
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useDocumentTitle } from '../../../hooks/useDocumentTitle';
+import '../Login/LoginPage.css';
+
+const UnsubscribePage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [error, setError] = useState('');
+  const [unsubscribed, setUnsubscribed] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useDocumentTitle('Unsubscribe');
+
+  // Waits for a click, so mail scanners that follow links don't unsubscribe anyone
+  const handleUnsubscribe = async () => {
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/.netlify/functions/email-unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unsubscribe');
+      }
+      setUnsubscribed(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unsubscribe');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-page">
+      <div className="login-container">
+        <div className="login-card">
+          <div className="login-header">
+            <img
+              src="/bearwood_lakes_logo.png"
+              alt="Bearwood Lakes"
+              className="login-logo-img"
+              width="80"
+              height="80"
+            />
+            <h1>Weekly Digest</h1>
+            <p>
+              {unsubscribed
+                ? "You've been unsubscribed. You won't get the weekly digest any more."
+                : 'Stop receiving the weekly digest email?'}
+            </p>
+          </div>
+
+          {error && <div className="error-message">{error}</div>}
+          {!token && <div className="error-message">This unsubscribe link is incomplete.</div>}
+
+          {!unsubscribed && (
+            <button
+              type="button"
+              className="btn btn-primary btn-full"
+              onClick={handleUnsubscribe}
+              disabled={!token || isSubmitting}
+            >
+              {isSubmitting ? 'Unsubscribing...' : 'Unsubscribe'}
+            </button>
+          )}
+
+          <div className="login-footer">
+            <p>
+              Changed your mind? Turn the digest back on from your{' '}
+              <Link to="/profile">profile</Link>.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnsubscribePage;
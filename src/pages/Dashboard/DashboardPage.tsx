@@ -4,6 +4,7 @@ import React, { useState, useEffect, useCallback, memo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import PageLayout from '../../components/layout/PageLayout';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import AwardBadges from '../../components/ui/AwardBadges';
 import { useAuth } from '../../hooks/useAuth';
 import { useApiClient } from '../../hooks/useApiClient';
 import { useActiveSeason } from '../../hooks/useActiveSeason';
@@ -309,6 +310,7 @@ const DashboardPage: React.FC = () => {
           <section className="welcome-section">
             <h1>Welcome back, {user?.firstName || 'Guest'}!</h1>
             <p>{`Here's what's happening in the ${seasonName} Fantasy Golf season.`}</p>
+            {user && <AwardBadges userId={user.id} />}
           </section>
 
           {/* Error State */}
@@ -4,10 +4,13 @@ import React, { useEffect, useState, useRef } from 'react';
 import { Link, useParams } from 'react-router-dom';
 import PageLayout from '../../components/layout/PageLayout';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import PriceHistoryChart from '../../components/ui/PriceHistoryChart';
+import HandicapTrend from '../../components/ui/HandicapTrend';
 import { useApiClient } from '../../hooks/useApiClient';
 import { useActiveSeason } from '../../hooks/useActiveSeason';
 import { useDocumentTitle } from '../../hooks/useDocumentTitle';
-import { formatPrice } from '../../utils/formatters';
+import { formatHandicap, formatPrice } from '../../utils/formatters';
+import type { GolferStatsBySeason } from '@shared/types';
 import './GolferProfilePage.css';
 
 interface GolferStats {
@@ -51,10 +54,9 @@ interface Golfer {
   lastName: string;
   picture: string;
   price: number;
+  handicapIndex: number | null;
   isActive: boolean;
-  stats2024: GolferStats;
-  stats2025: GolferStats;
-  stats2026: GolferStats;
+  statsBySeason: GolferStatsBySeason;
   points: GolferPoints;
   seasonStats?: SeasonStat[];
   selectedBy?: SelectedByUser[];
@@ -229,6 +231,11 @@ const GolferProfilePage: React.FC = () => {
                 {golfer.firstName} {golfer.lastName}
               </h1>
               <div className="golfer-value">{formatPrice(golfer.price)}</div>
+              {golfer.handicapIndex !== null && golfer.handicapIndex !== undefined && (
+                <div className="golfer-handicap">
+                  Handicap {formatHandicap(golfer.handicapIndex)}
+                </div>
+              )}
             </div>
           </div>
 
@@ -274,6 +281,18 @@ const GolferProfilePage: React.FC = () => {
             </div>
           </div>
 
+          {/* Price History */}
+          <div className="price-history-section">
+            <h2>💹 Price History</h2>
+            <PriceHistoryChart golferId={golfer.id} season={seasonName} />
+          </div>
+
+          {/* Handicap */}
+          <div className="handicap-section">
+            <h2>⛳ Handicap</h2>
+            <HandicapTrend golferId={golfer.id} />
+          </div>
+
           {/* Season Performance */}
           <div className="season-performance-section">
             <h2>📊 Season Performance</h2>
@@ -496,6 +515,10 @@ const GolferProfilePage: React.FC = () => {
                 <span className="info-label">Fantasy Value</span>
                 <span className="info-value">{formatPrice(golfer.price)}</span>
               </div>
+              <div className="info-item">
+                <span className="info-label">Handicap Index</span>
+                <span className="info-value">{formatHandicap(golfer.handicapIndex ?? null)}</span>
+              </div>
               <div className="info-item">
                 <span className="info-label">Status</span>
                 <span className="info-value">{golfer.isActive ? 'Active' : 'Inactive'}</span>
@@ -1,6 +1,6 @@
 // All Golfers Page - View all golfers with stats
 
-import React, { useCallback, useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import PageLayout from '../../components/layout/PageLayout';
 import SearchBar from '../../components/ui/SearchBar';
@@ -8,15 +8,20 @@ import SeasonSelector from '../../components/ui/SeasonSelector';
 import DataTable, { Column } from '../../components/ui/DataTable';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import { useApiClient } from '../../hooks/useApiClient';
-import { formatPrice } from '../../utils/formatters';
+import { formatHandicap, formatPrice } from '../../utils/formatters';
 import { matchesSearch } from '../../utils/search';
+import {
+  HANDICAP_BAND_OPTIONS,
+  compareHandicaps,
+  matchesHandicapBand,
+  type HandicapBand,
+} from '../../utils/handicap';
 import { useActiveSeason } from '../../hooks/useActiveSeason';
 import { useDocumentTitle } from '../../hooks/useDocumentTitle';
 import InfoTooltip from '../../components/ui/InfoTooltip';
 import './GolfersPage.css';
 
 interface GolferStats {
-  timesBonusScored: number;
   timesFinished1st: number;
   timesFinished2nd: number;
   timesFinished3rd: number;
@@ -36,10 +41,10 @@ interface Golfer {
   lastName: string;
   picture: string;
   price: number;
+  handicapIndex: number | null;
   isActive: boolean;
-  stats2024: GolferStats;
-  stats2025: GolferStats;
-  stats2026: GolferStats;
+  statsBySeason: Record<string, GolferStats>;
+  stats: GolferStats; // For the selected season, or every season for 'overall'
   points: GolferPoints;
   selectedPercentage: number;
 }
@@ -99,19 +104,11 @@ const GolfersPage: React.FC = () => {
     };
   }, [get, isAuthReady, selectedSeason]);
 
-  const getStats = useCallback(
-    (golfer: Golfer) => {
-      if (seasonName === '2024') return golfer.stats2024;
-      if (seasonName === '2025') return golfer.stats2025;
-      return golfer.stats2026;
-    },
-    [seasonName]
-  );
-
   const [searchTerm, setSearchTerm] = useState('');
   const [sortColumn, setSortColumn] = useState<SortColumn>('season-pts');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [quickFilter, setQuickFilter] = useState<QuickFilter>('all');
+  const [handicapBand, setHandicapBand] = useState<HandicapBand>('all');
 
   // Helper functions
   const getPodiums = (stats: GolferStats) => {
@@ -125,7 +122,8 @@ const GolfersPage: React.FC = () => {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
       setSortColumn(column);
-      setSortDirection(column === 'name' ? 'asc' : 'desc'); // Default desc for stats, asc for name
+      // Default desc for stats, asc for name and handicap (lowest first)
+      setSortDirection(column === 'name' || column === 'handicap' ? 'asc' : 'desc');
     }
   };
 
@@ -144,11 +142,11 @@ const GolfersPage: React.FC = () => {
         case 'inactive':
           return !golfer.isActive;
         case `winners-${seasonName}`:
-          return (getStats(golfer)?.timesFinished1st || 0) > 0;
+          return (golfer.stats?.timesFinished1st || 0) > 0;
         case `podium-finishers-${seasonName}`:
-          return getPodiums(getStats(golfer)) > 0;
+          return getPodiums(golfer.stats) > 0;
         case `experienced-${seasonName}`:
-          return (getStats(golfer)?.timesPlayed || 0) >= 5;
+          return (golfer.stats?.timesPlayed || 0) >= 5;
         case 'premium':
           return golfer.price >= 10000000;
         case 'budget':
@@ -163,11 +161,17 @@ const GolfersPage: React.FC = () => {
         const fullName = `${golfer.firstName} ${golfer.lastName}`;
         const matches = matchesSearch(fullName, searchTerm);
         const matchesQuickFilter = filterByQuickFilter(golfer);
-        return matches && matchesQuickFilter;
+        return (
+          matches && matchesQuickFilter && matchesHandicapBand(golfer.handicapIndex, handicapBand)
+        );
       })
       .sort((a, b) => {
         const dir = sortDirection === 'asc' ? 1 : -1;
 
+        if (sortColumn === 'handicap') {
+          return compareHandicaps(a.handicapIndex, b.handicapIndex, sortDirection);
+        }
+
         const getValue = (golfer: Golfer): number | string => {
           switch (sortColumn) {
             case 'name':
@@ -193,17 +197,18 @@ const GolfersPage: React.FC = () => {
         }
         return ((aVal as number) - (bVal as number)) * dir;
       });
-  }, [golfers, searchTerm, quickFilter, sortColumn, sortDirection, seasonName, getStats]);
+  }, [golfers, searchTerm, quickFilter, handicapBand, sortColumn, sortDirection, seasonName]);
 
   // Reset filters
   const resetFilters = () => {
     setSearchTerm('');
     setQuickFilter('all');
+    setHandicapBand('all');
     setSortColumn('season-pts');
     setSortDirection('desc');
   };
 
-  const hasActiveFilters = searchTerm !== '' || quickFilter !== 'all';
+  const hasActiveFilters = searchTerm !== '' || quickFilter !== 'all' || handicapBand !== 'all';
 
   // Row styling for inactive golfers
   const getRowClassName = (golfer: Golfer): string => {
@@ -231,6 +236,13 @@ const GolfersPage: React.FC = () => {
       align: 'right',
       render: (golfer) => <span className="dt-text-price">{formatPrice(golfer.price)}</span>,
     },
+    {
+      key: 'handicap',
+      header: 'Handicap',
+      sortable: true,
+      align: 'center',
+      render: (golfer) => formatHandicap(golfer.handicapIndex ?? null),
+    },
     {
       key: 'selected',
       header: 'Selected',
@@ -325,6 +337,20 @@ const GolfersPage: React.FC = () => {
               <option value="premium">💎 Premium ($10M+)</option>
               <option value="budget">💰 Budget (≤$6M)</option>
             </select>
+            <select
+              id="golfer-handicap-filter"
+              name="golfer-handicap-filter"
+              aria-label="Filter by handicap"
+              value={handicapBand}
+              onChange={(e) => setHandicapBand(e.target.value as HandicapBand)}
+              className="filter-select"
+            >
+              {HANDICAP_BAND_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
             {hasActiveFilters && (
               <button className="reset-btn" onClick={resetFilters}>
                 Reset
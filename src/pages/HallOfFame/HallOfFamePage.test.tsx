@@ -0,0 +1,68 @@
+let mockHallOfFame: unknown = null;
+vi.mock('../../hooks/useAsyncData', () => ({
+  useAsyncData: () => ({ data: mockHallOfFame, loading: false, error: null }),
+}));
+
+vi.mock('../../hooks/useDocumentTitle', () => ({
+  useDocumentTitle: vi.fn(),
+}));
+
+vi.mock('../../components/layout/PageLayout', () => ({
+  default: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+}));
+
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import React from 'react';
+import HallOfFamePage from './HallOfFamePage';
+
+const alice = { userId: 'u1', firstName: 'Alice', lastName: 'Able', username: 'alice' };
+const bob = { userId: 'u2', firstName: 'Bob', lastName: 'Baker', username: 'bob' };
+
+const renderPage = () =>
+  render(
+    <MemoryRouter>
+      <HallOfFamePage />
+    </MemoryRouter>
+  );
+
+describe('HallOfFamePage', () => {
+  it('shows champions, records and managers of the month', () => {
+    const champion = { seasonName: '2025', label: '2025 Season', points: 412, winners: [alice] };
+    mockHallOfFame = {
+      champions: [champion],
+      managersOfTheMonth: [
+        { seasonName: '2025', label: 'May 2025', points: 71, winners: [alice, bob] },
+      ],
+      records: {
+        highestSeasonScore: champion,
+        highestMonthScore: { seasonName: '2025', label: 'May 2025', points: 71, winners: [bob] },
+        highestGameweekScore: {
+          seasonName: '2025',
+          label: 'Gameweek 6',
+          points: 38,
+          winners: [bob],
+        },
+      },
+    };
+
+    renderPage();
+
+    expect(screen.getByText('Champions')).toBeInTheDocument();
+    expect(screen.getAllByText('412 pts')).toHaveLength(2);
+    expect(screen.getByText('Gameweek 6 · 2025')).toBeInTheDocument();
+    expect(screen.getByText('Alice Able & Bob Baker')).toBeInTheDocument();
+  });
+
+  it('explains that nothing has been archived yet', () => {
+    mockHallOfFame = {
+      champions: [],
+      managersOfTheMonth: [],
+      records: { highestSeasonScore: null, highestMonthScore: null, highestGameweekScore: null },
+    };
+
+    renderPage();
+
+    expect(screen.getByText('No completed seasons yet')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,113 @@
+// Hall of Fame Page - past champions, managers of the month and scoring records
+
+import React from 'react';
+import PageLayout from '../../components/layout/PageLayout';
+import DataTable, { Column } from '../../components/ui/DataTable';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import { useAsyncData } from '../../hooks/useAsyncData';
+import { useDocumentTitle } from '../../hooks/useDocumentTitle';
+import { formatWinnerNames } from '../../utils/formatters';
+import type { HallOfFame, HallOfFameEntry } from '@shared/types';
+import './HallOfFamePage.css';
+
+const monthColumns: Column<HallOfFameEntry>[] = [
+  { key: 'season', header: 'Season', width: '100px', render: (entry) => entry.seasonName },
+  { key: 'month', header: 'Month', render: (entry) => entry.label },
+  { key: 'winners', header: 'Manager', render: (entry) => formatWinnerNames(entry.winners) },
+  {
+    key: 'points',
+    header: 'Points',
+    width: '100px',
+    align: 'center',
+    render: (entry) => <span className="dt-text-price">{entry.points}</span>,
+  },
+];
+
+const HallOfFamePage: React.FC = () => {
+  const { data, loading, error } = useAsyncData<HallOfFame>('hall-of-fame');
+  useDocumentTitle('Hall of Fame');
+
+  const renderRecord = (title: string, emoji: string, record: HallOfFameEntry | null) => (
+    <div className="hof-record">
+      <div className="hof-record-title">
+        {emoji} {title}
+      </div>
+      {record ? (
+        <>
+          <div className="hof-record-points">{record.points} pts</div>
+          <div className="hof-record-holder">{formatWinnerNames(record.winners)}</div>
+          <div className="hof-record-period">
+            {record.label}
+            {!record.label.includes(record.seasonName) && ` · ${record.seasonName}`}
+          </div>
+        </>
+      ) : (
+        <div className="hof-record-empty">No record yet</div>
+      )}
+    </div>
+  );
+
+  return (
+    <PageLayout activeNav="leaderboard">
+      <div className="hof-content">
+        <div className="hof-container">
+          <div className="users-page-header">
+            <h1>🏆 Hall of Fame</h1>
+            <p className="users-page-subtitle">Champions and records from every completed season</p>
+          </div>
+
+          {loading && <LoadingSpinner text="Loading hall of fame..." />}
+          {error && <div className="error-message">{error}</div>}
+
+          {data && data.champions.length === 0 && (
+            <div className="empty-state">
+              <div className="empty-icon">🏆</div>
+              <h3>No completed seasons yet</h3>
+              <p>Champions appear here once a season has been completed.</p>
+            </div>
+          )}
+
+          {data && data.champions.length > 0 && (
+            <>
+              <section className="hof-section">
+                <h2>Records</h2>
+                <div className="hof-records">
+                  {renderRecord('Highest Season Score', '🏆', data.records.highestSeasonScore)}
+                  {renderRecord('Best Month', '📆', data.records.highestMonthScore)}
+                  {renderRecord('Best Gameweek', '📅', data.records.highestGameweekScore)}
+                </div>
+              </section>
+
+              <section className="hof-section">
+                <h2>Champions</h2>
+                <ul className="hof-champions">
+                  {data.champions.map((champion) => (
+                    <li key={champion.seasonName} className="hof-champion">
+                      <span className="hof-champion-season">{champion.seasonName}</span>
+                      <span className="hof-champion-name">
+                        {formatWinnerNames(champion.winners)}
+                      </span>
+                      <span className="hof-champion-points">{champion.points} pts</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <section className="hof-section">
+                <h2>Managers of the Month</h2>
+                <DataTable
+                  data={data.managersOfTheMonth}
+                  columns={monthColumns}
+                  rowKey={(entry) => `${entry.seasonName}-${entry.label}`}
+                  emptyMessage="No monthly winners yet."
+                />
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </PageLayout>
+  );
+};
+
+export default HallOfFamePage;
@@ -8,6 +8,9 @@ import SeasonSelector from '../../components/ui/SeasonSelector';
 import TeamCompareModal from '../../components/ui/TeamCompareModal';
 import DataTable, { Column } from '../../components/ui/DataTable';
 import PeriodNav from '../../components/ui/PeriodNav';
+import LeaguePanel from '../../components/ui/LeaguePanel';
+import H2HView from '../../components/ui/H2HView';
+import SeasonArchiveView from '../../components/ui/SeasonArchiveView';
 import { useAuth } from '../../hooks/useAuth';
 import { useApiClient } from '../../hooks/useApiClient';
 import { useActiveSeason } from '../../hooks/useActiveSeason';
@@ -20,6 +23,7 @@ import {
   generateMonthOptions,
 } from '../../utils/gameweek';
 import type { PeriodOption } from '../../utils/gameweek';
+import type { League, SeasonArchive } from '@shared/types';
 import './LeaderboardPage.css';
 
 const ITEMS_PER_PAGE = 10;
@@ -67,6 +71,9 @@ const LeaderboardPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [compareUserId, setCompareUserId] = useState<string | null>(null);
   const [selectedSeason, setSelectedSeason] = useState<string>('2026');
+  const [leagues, setLeagues] = useState<League[]>([]);
+  const [selectedLeagueId, setSelectedLeagueId] = useState<string>('');
+  const [format, setFormat] = useState<'classic' | 'h2h'>('classic');
 
   // Get user from useAuth hook for current user check
   const { user } = useAuth();
@@ -85,6 +92,9 @@ const LeaderboardPage: React.FC = () => {
   // Leaders state
   const [leaders, setLeaders] = useState<LeadersResponse | null>(null);
 
+  // Frozen tables for a completed season; the live tables are used when this is null
+  const [archive, setArchive] = useState<SeasonArchive | null>(null);
+
   // Table data state
   const [weeklyData, setWeeklyData] = useState<LeaderboardResponse | null>(null);
   const [monthlyData, setMonthlyData] = useState<LeaderboardResponse | null>(null);
@@ -104,6 +114,22 @@ const LeaderboardPage: React.FC = () => {
   const [seasonPage, setSeasonPage] = useState(1);
 
 
+  const fetchLeagues = useCallback(async () => {
+    const response = await get<League[]>('leagues-list');
+    if (response.cancelled) return;
+    if (response.success && response.data) {
+      setLeagues(response.data);
+    }
+  }, [get]);
+
+  useEffect(() => {
+    if (!isAuthReady || !userId) return;
+    fetchLeagues();
+  }, [isAuthReady, userId, fetchLeagues]);
+
+  // Query suffix that scopes every table to the selected private league
+  const leagueQuery = selectedLeagueId ? `&league=${selectedLeagueId}` : '';
+
   const fetchPeriodData = useCallback(
     async (period: 'week' | 'month' | 'season', date?: string) => {
       if (!selectedSeason) return null;
@@ -112,7 +138,7 @@ const LeaderboardPage: React.FC = () => {
         if (date) {
           url += `&date=${date}`;
         }
-        url += `&season=${selectedSeason}`;
+        url += `&season=${selectedSeason}${leagueQuery}`;
 
         const response = await get<LeaderboardResponse>(url);
 
@@ -128,10 +154,10 @@ const LeaderboardPage: React.FC = () => {
         return null;
       }
     },
-    [get, selectedSeason]
+    [get, selectedSeason, leagueQuery]
   );
 
-  // Reset and re-fetch when selectedSeason changes
+  // Reset and re-fetch when selectedSeason or league changes
   useEffect(() => {
     if (!isAuthReady || !userId || !selectedSeason) return;
     let cancelled = false;
@@ -149,8 +175,21 @@ const LeaderboardPage: React.FC = () => {
       setLoading(true);
       setError(null);
       try {
+        // Completed seasons are shown from the archive taken when they closed
+        if (!leagueQuery) {
+          const archiveResponse = await get<SeasonArchive>(
+            `seasons-archive?season=${selectedSeason}`
+          );
+          if (archiveResponse.cancelled || cancelled) return;
+          if (archiveResponse.success && archiveResponse.data) {
+            setArchive(archiveResponse.data);
+            return;
+          }
+        }
+        setArchive(null);
+
         const leadersResponse = await get<LeadersResponse>(
-          `leaderboard-periods?action=leaders&season=${selectedSeason}`
+          `leaderboard-periods?action=leaders&season=${selectedSeason}${leagueQuery}`
         );
         if (leadersResponse.cancelled || cancelled) return;
 
@@ -201,7 +240,7 @@ const LeaderboardPage: React.FC = () => {
     return () => {
       cancelled = true;
     };
-  }, [isAuthReady, userId, selectedSeason, get, fetchPeriodData]);
+  }, [isAuthReady, userId, selectedSeason, leagueQuery, get, fetchPeriodData]);
 
   // Navigation handlers
   const handleWeekNavigation = async (direction: 'prev' | 'next') => {
@@ -502,49 +541,93 @@ const LeaderboardPage: React.FC = () => {
           <div className="users-page-header">
             <div className="page-header-row">
               <h1>👥 Fantasy Leaderboard</h1>
-              <SeasonSelector value={selectedSeason} onChange={setSelectedSeason} />
+              <div className="page-header-actions">
+                <Link to="/hall-of-fame" className="hall-of-fame-link">
+                  🏆 Hall of Fame
+                </Link>
+                <SeasonSelector value={selectedSeason} onChange={setSelectedSeason} />
+              </div>
             </div>
             <p className="users-page-subtitle">View the weekly/monthly and season standings</p>
-          </div>
-
-          {/* Error State */}
-          {error && <div className="error-message">{error}</div>}
-
-          {/* Empty season message */}
-          {!loading &&
-            !error &&
-            !seasonData?.entries?.length &&
-            !weeklyData?.entries?.length &&
-            !monthlyData?.entries?.length && (
-              <div className="empty-state">
-                <div className="empty-icon">📊</div>
-                <h3>No leaderboard data available</h3>
-                <p>No leaderboard data available for the {selectedSeason} season.</p>
-              </div>
+            {format === 'classic' && (
+              <LeaguePanel
+                leagues={leagues}
+                selectedLeagueId={selectedLeagueId}
+                onSelect={setSelectedLeagueId}
+                onLeaguesChange={fetchLeagues}
+              />
             )}
+          </div>
 
-          {/* Leader Cards */}
-          <div className="leaders-section">
-            {renderLeaderCard(leaders?.weeklyLeader || null, 'Weekly Leader', '📅')}
-            {renderLeaderCard(leaders?.monthlyLeader || null, 'Monthly Leader', '📆')}
-            {renderLeaderCard(leaders?.seasonLeader || null, 'Season Leader', '🏆')}
+          {/* Format Toggle */}
+          <div className="view-toggle">
+            <button
+              className={`toggle-btn ${format === 'classic' ? 'active' : ''}`}
+              onClick={() => setFormat('classic')}
+            >
+              Total Points
+            </button>
+            <button
+              className={`toggle-btn ${format === 'h2h' ? 'active' : ''}`}
+              onClick={() => setFormat('h2h')}
+            >
+              Head-to-Head
+            </button>
           </div>
 
-          {/* Weekly Table */}
-          {renderTable(weeklyData, 'Weekly Standings', 'week', true, weeklyPage, setWeeklyPage)}
-
-          {/* Monthly Table */}
-          {renderTable(
-            monthlyData,
-            'Monthly Standings',
-            'month',
-            true,
-            monthlyPage,
-            setMonthlyPage
-          )}
+          {format === 'h2h' ? (
+            <H2HView season={selectedSeason} currentUserId={userId} />
+          ) : archive ? (
+            <SeasonArchiveView archive={archive} currentUserId={userId} />
+          ) : (
+            <>
+              {/* Error State */}
+              {error && <div className="error-message">{error}</div>}
+
+              {/* Empty season message */}
+              {!loading &&
+                !error &&
+                !seasonData?.entries?.length &&
+                !weeklyData?.entries?.length &&
+                !monthlyData?.entries?.length && (
+                  <div className="empty-state">
+                    <div className="empty-icon">📊</div>
+                    <h3>No leaderboard data available</h3>
+                    <p>No leaderboard data available for the {selectedSeason} season.</p>
+                  </div>
+                )}
+
+              {/* Leader Cards */}
+              <div className="leaders-section">
+                {renderLeaderCard(leaders?.weeklyLeader || null, 'Weekly Leader', '📅')}
+                {renderLeaderCard(leaders?.monthlyLeader || null, 'Monthly Leader', '📆')}
+                {renderLeaderCard(leaders?.seasonLeader || null, 'Season Leader', '🏆')}
+              </div>
 
-          {/* Season Table */}
-          {renderTable(seasonData, 'Season Standings', 'season', false, seasonPage, setSeasonPage)}
+              {/* Weekly Table */}
+              {renderTable(weeklyData, 'Weekly Standings', 'week', true, weeklyPage, setWeeklyPage)}
+
+              {/* Monthly Table */}
+              {renderTable(
+                monthlyData,
+                'Monthly Standings',
+                'month',
+                true,
+                monthlyPage,
+                setMonthlyPage
+              )}
+
+              {/* Season Table */}
+              {renderTable(
+                seasonData,
+                'Season Standings',
+                'season',
+                false,
+                seasonPage,
+                setSeasonPage
+              )}
+            </>
+          )}
         </div>
       </div>
 
@@ -11,13 +11,15 @@ import TeamStatsBar from '../../components/ui/TeamStatsBar';
 import TeamSection from '../../components/ui/TeamSection';
 import TeamHistory from '../../components/ui/TeamHistory';
 import TeamGolferTable from '../../components/ui/TeamGolferTable';
+import ChipsPanel from '../../components/ui/ChipsPanel';
+import type { ChipState } from '../../components/ui/ChipsPanel';
 import Toast from '../../components/ui/Toast';
 import { useApiClient } from '../../hooks/useApiClient';
 import { useActiveSeason } from '../../hooks/useActiveSeason';
 import { useAuth } from '../../hooks/useAuth';
 import { useDocumentTitle } from '../../hooks/useDocumentTitle';
-import type { GolferSeasonStats } from '@shared/types';
-import type { TournamentScore } from '@shared/types';
+import type { GolferStatsBySeason } from '@shared/types';
+import type { ChipType, TournamentScore } from '@shared/types';
 import './MyTeamPage.css';
 
 // Local interface for golfer with scores - matches API response structure
@@ -29,9 +31,7 @@ interface GolferWithScores {
     picture: string;
     price: number;
     isActive: boolean;
-    stats2024: GolferSeasonStats;
-    stats2025: GolferSeasonStats;
-    stats2026: GolferSeasonStats;
+    statsBySeason: GolferStatsBySeason;
   };
   weekPoints: number;
   monthPoints: number;
@@ -39,18 +39,27 @@ interface GolferWithScores {
   weekScores: TournamentScore[];
   seasonScores: TournamentScore[];
   isCaptain: boolean;
+  isViceCaptain: boolean;
+  purchasePrice: number | null;
+  sellingPrice: number | null;
+  profit: number | null;
 }
 
 // Local interface for team data - matches API response structure
 interface TeamData {
   golfers: GolferWithScores[];
+  bench?: GolferWithScores[];
   totals: {
     weekPoints: number;
     monthPoints: number;
     seasonPoints: number;
+    weekPenaltyPoints?: number;
     totalSpent: number;
+    bank?: number;
+    teamValue?: number;
   };
   captainId: string | null;
+  viceCaptainId: string | null;
   period: {
     weekStart: string;
     weekEnd: string;
@@ -73,6 +82,8 @@ interface MyTeamApiResponse {
   maxTransfersPerWeek: number;
   transfersUsedThisWeek: number;
   unlimitedTransfers: boolean;
+  transferPenaltyPoints: number;
+  chips: ChipState[];
   team: TeamData | null;
   history?: Array<{
     changedAt: string;
@@ -84,6 +95,18 @@ interface MyTeamApiResponse {
   }>;
 }
 
+const CHIP_CONFIRMATIONS: Record<ChipType, string> = {
+  wildcard: 'Play your Wildcard? You will have unlimited transfers for the rest of this week.',
+  tripleCaptain: 'Play Triple Captain? Your captain will score 3× points next gameweek.',
+  benchBoost: 'Play Bench Boost? Your bench golfers will also score next gameweek.',
+};
+
+const CHIP_PLAYED_MESSAGES: Record<ChipType, string> = {
+  wildcard: '🃏 Wildcard played',
+  tripleCaptain: '👑 Triple Captain played',
+  benchBoost: '🪑 Bench Boost played',
+};
+
 const MyTeamPage: React.FC = () => {
   const [teamData, setTeamData] = useState<MyTeamApiResponse | null>(null);
   const [loading, setLoading] = useState(true);
@@ -91,6 +114,7 @@ const MyTeamPage: React.FC = () => {
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [weekOptions, setWeekOptions] = useState<PeriodOption[]>([]);
   const [savingCaptain, setSavingCaptain] = useState(false);
+  const [playingChip, setPlayingChip] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'warning' } | null>(null);
   const [captainBannerDismissed, setCaptainBannerDismissed] = useState(
     () => localStorage.getItem('captainBannerDismissed') === 'true'
@@ -176,9 +200,12 @@ const MyTeamPage: React.FC = () => {
         team: {
           ...prev.team,
           captainId: newCaptainId,
+          // The captain can't also be vice-captain
+          viceCaptainId: newCaptainId === prev.team.viceCaptainId ? null : prev.team.viceCaptainId,
           golfers: prev.team.golfers.map((g) => ({
             ...g,
             isCaptain: g.golfer.id === newCaptainId,
+            isViceCaptain: g.isViceCaptain && g.golfer.id !== newCaptainId,
           })),
         },
       };
@@ -214,6 +241,87 @@ const MyTeamPage: React.FC = () => {
     }
   };
 
+  // Handle setting a golfer as vice-captain
+  const handleSetViceCaptain = async (golferId: string) => {
+    if (!teamData?.team || savingCaptain) return;
+
+    // Toggle off if clicking the current vice-captain
+    const newViceCaptainId = golferId === teamData.team.viceCaptainId ? null : golferId;
+    const golfer = teamData.team.golfers.find((g) => g.golfer.id === golferId);
+    const golferName = golfer ? `${golfer.golfer.firstName} ${golfer.golfer.lastName}` : '';
+
+    // Optimistic update
+    setTeamData((prev) => {
+      if (!prev?.team) return prev;
+      return {
+        ...prev,
+        team: {
+          ...prev.team,
+          viceCaptainId: newViceCaptainId,
+          golfers: prev.team.golfers.map((g) => ({
+            ...g,
+            isViceCaptain: g.golfer.id === newViceCaptainId,
+          })),
+        },
+      };
+    });
+
+    setToast(
+      newViceCaptainId
+        ? { message: `Vice-captain set: ${golferName}`, type: 'success' }
+        : { message: 'Vice-captain removed', type: 'warning' }
+    );
+
+    setSavingCaptain(true);
+    try {
+      const response = await post('picks-save', {
+        golferIds: teamData.team.golfers.map((g) => g.golfer.id),
+        captainId: teamData.team.captainId,
+        viceCaptainId: newViceCaptainId,
+      });
+
+      if (!response.success) {
+        fetchTeam(selectedDate);
+        setToast({ message: response.error || 'Failed to set vice-captain', type: 'warning' });
+      }
+    } catch {
+      fetchTeam(selectedDate);
+      setToast({ message: 'Failed to set vice-captain', type: 'warning' });
+    } finally {
+      setSavingCaptain(false);
+    }
+  };
+
+  // Play a chip against the current team
+  const handlePlayChip = async (chip: ChipType) => {
+    if (!teamData?.team || playingChip) return;
+
+    if (!window.confirm(CHIP_CONFIRMATIONS[chip])) return;
+
+    setPlayingChip(true);
+    try {
+      const response = await post('picks-save', {
+        golferIds: teamData.team.golfers.map((g) => g.golfer.id),
+        captainId: teamData.team.captainId,
+        chip,
+      });
+
+      if (response.success) {
+        setToast({
+          message: CHIP_PLAYED_MESSAGES[chip],
+          type: 'success',
+        });
+        fetchTeam(selectedDate);
+      } else {
+        setToast({ message: response.error || 'Failed to play chip', type: 'warning' });
+      }
+    } catch {
+      setToast({ message: 'Failed to play chip', type: 'warning' });
+    } finally {
+      setPlayingChip(false);
+    }
+  };
+
   // Loading state
   if (loading) {
     return (
@@ -296,6 +404,9 @@ const MyTeamPage: React.FC = () => {
   // Sort golfers by week points
   const sortedGolfers = [...team.golfers].sort((a, b) => b.weekPoints - a.weekPoints);
 
+  const wildcardActive = teamData.chips.some((c) => c.chip === 'wildcard' && c.activeWeekStart);
+  const freeTransfersLeft = teamData.transfersUsedThisWeek < teamData.maxTransfersPerWeek;
+
   return (
     <>
       <PageLayout activeNav="my-team">
@@ -314,10 +425,16 @@ const MyTeamPage: React.FC = () => {
                       <span className="transfers-info">
                         {teamData.unlimitedTransfers
                           ? 'Unlimited transfers (pre-season)'
-                          : `Transfers: ${teamData.transfersUsedThisWeek} / ${teamData.maxTransfersPerWeek} used this week`}
+                          : wildcardActive
+                            ? 'Wildcard active: unlimited transfers this week'
+                            : freeTransfersLeft || teamData.transferPenaltyPoints <= 0
+                              ? `Transfers: ${teamData.transfersUsedThisWeek} / ${teamData.maxTransfersPerWeek} used this week`
+                              : `Extra transfers cost −${teamData.transferPenaltyPoints} pts per golfer`}
                       </span>
                       {teamData.unlimitedTransfers ||
-                      teamData.transfersUsedThisWeek < teamData.maxTransfersPerWeek ? (
+                      wildcardActive ||
+                      freeTransfersLeft ||
+                      teamData.transferPenaltyPoints > 0 ? (
                         <Link to="/team-builder" className="btn-edit-team">
                           Edit Team →
                         </Link>
@@ -341,7 +458,8 @@ const MyTeamPage: React.FC = () => {
                   <p>
                     Tap the <span className="captain-badge-hint">C</span> next to a golfer&apos;s
                     name to make them captain. Your captain earns <strong>2× points</strong> every
-                    week!
+                    week! Tap <span className="captain-badge-hint">V</span> to pick a vice-captain
+                    who takes over in weeks your captain doesn&apos;t play.
                   </p>
                 </div>
               </div>
@@ -352,12 +470,17 @@ const MyTeamPage: React.FC = () => {
               weekPoints={team.totals.weekPoints}
               monthPoints={team.totals.monthPoints || 0}
               seasonPoints={team.totals.seasonPoints}
+              bank={team.totals.bank}
+              teamValue={team.totals.teamValue}
             />
 
+            {/* Chips */}
+            <ChipsPanel chips={teamData.chips} onPlay={handlePlayChip} disabled={playingChip} />
+
             {/* Team Section */}
             <TeamSection
               firstName={authUser?.firstName || 'Your'}
-              teamValue={team.totals.totalSpent}
+              teamValue={team.totals.teamValue ?? team.totals.totalSpent}
             >
               <PeriodNav
                 id="my-team-period-select"
@@ -378,7 +501,23 @@ const MyTeamPage: React.FC = () => {
                 weekTotal={team.totals.weekPoints}
                 isOwnTeam={true}
                 onSetCaptain={handleSetCaptain}
+                onSetViceCaptain={handleSetViceCaptain}
               />
+              {!!team.totals.weekPenaltyPoints && (
+                <p className="transfer-penalty-note">
+                  Week total includes a −{team.totals.weekPenaltyPoints} pt transfer penalty
+                </p>
+              )}
+
+              {team.bench && team.bench.length > 0 && (
+                <div className="team-bench">
+                  <h3 className="team-bench-heading">Bench</h3>
+                  <p className="team-bench-hint">
+                    Comes on in this order for any starter who doesn&apos;t play that week
+                  </p>
+                  <TeamGolferTable golfers={team.bench} />
+                </div>
+              )}
             </TeamSection>
 
             {teamData?.history && teamData.history.length > 0 && (
@@ -4,6 +4,10 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { validators, sanitizers, getInputClassName } from '../../utils/validation';
 import PageLayout from '../../components/layout/PageLayout';
+import AwardBadges from '../../components/ui/AwardBadges';
+import EmailPreferenceSettings from '../../components/ui/EmailPreferenceSettings';
+import SessionList from '../../components/ui/SessionList';
+import SmsReminderSettings from '../../components/ui/SmsReminderSettings';
 import { useAuth } from '../../hooks/useAuth';
 import { useApiClient } from '../../hooks/useApiClient';
 import { useDocumentTitle } from '../../hooks/useDocumentTitle';
@@ -15,6 +19,7 @@ interface User {
   lastName: string;
   username: string;
   email: string;
+  phoneNumber?: string | null;
   role: 'admin' | 'user';
 }
 
@@ -310,6 +315,7 @@ const ProfilePage: React.FC = () => {
               </h1>
               <p>@{user.username}</p>
               {user.role === 'admin' && <span className="admin-badge">🛡️ Admin</span>}
+              <AwardBadges userId={user.id} />
             </div>
           </div>
 
@@ -472,6 +478,20 @@ const ProfilePage: React.FC = () => {
             </form>
           </div>
 
+          {/* Devices & Sessions */}
+          <div className="profile-card">
+            <div className="profile-card-header">
+              <h2>💻 Devices &amp; Sessions</h2>
+            </div>
+            <div className="profile-card-body">
+              <SessionList />
+            </div>
+          </div>
+
+          <EmailPreferenceSettings email={user.email} />
+
+          <SmsReminderSettings phoneNumber={user.phoneNumber ?? null} />
+
           {/* Danger Zone */}
           <div className="profile-card danger-zone">
             <div className="profile-card-header">
@@ -12,7 +12,6 @@ vi.mock('../../hooks/useActiveSeason', () => ({
   useActiveSeason: () => ({
     season: { id: 's1', name: '2025', isActive: true },
     loading: false,
-    statsKey: 'stats2025',
   }),
 }));
 
@@ -7,17 +7,18 @@ import { useApiClient } from '../../hooks/useApiClient';
 import { useActiveSeason } from '../../hooks/useActiveSeason';
 import { useDocumentTitle } from '../../hooks/useDocumentTitle';
 import { matchesSearch } from '../../utils/search';
+import { formatHandicap } from '../../utils/formatters';
+import {
+  HANDICAP_BAND_OPTIONS,
+  compareHandicaps,
+  matchesHandicapBand,
+  type HandicapBand,
+} from '../../utils/handicap';
 import Toast from '../../components/ui/Toast';
+import type { ChipState } from '../../components/ui/ChipsPanel';
+import { getGolferSeasonStats, type GolferStatsBySeason, type SquadValue } from '@shared/types';
 import './TeamBuilderPage.css';
 
-interface GolferStats {
-  timesBonusScored: number;
-  timesFinished1st: number;
-  timesFinished2nd: number;
-  timesFinished3rd: number;
-  timesPlayed: number;
-}
-
 interface SeasonStat {
   seasonName: string;
   isActive: boolean;
@@ -27,7 +28,6 @@ interface SeasonStat {
   timesFinished1st: number;
   timesFinished2nd: number;
   timesFinished3rd: number;
-  timesBonusScored: number;
   timesScored36Plus: number;
   timesScored32Plus: number;
   totalPoints: number;
@@ -39,10 +39,9 @@ interface Golfer {
   lastName: string;
   picture: string;
   price: number;
+  handicapIndex: number | null;
   isActive: boolean;
-  stats2024: GolferStats;
-  stats2025: GolferStats;
-  stats2026?: GolferStats;
+  statsBySeason: GolferStatsBySeason;
   seasonStats?: SeasonStat[];
   selectedPercentage?: number;
 }
@@ -54,8 +53,19 @@ interface Settings {
   allowNewTeamCreation: boolean;
 }
 
+// Matches the transferStatus returned by picks-get
+interface TransferStatus {
+  transfersOpen: boolean;
+  unlimited: boolean;
+  transfersUsed: number;
+  maxTransfers: number;
+  maxPlayersPerTransfer: number;
+  penaltyPerSwap: number;
+}
+
 const TOTAL_BUDGET = 50000000; // $50M
 const TEAM_SIZE = 6;
+const MAX_BENCH_SIZE = 3;
 const GOLFERS_PER_PAGE = 24; // 4 columns × 6 rows
 
 // Sort options type
@@ -71,7 +81,9 @@ type SortOption =
   | 'win-rate'
   | 'podium-rate'
   | 'selected-high'
-  | 'selected-low';
+  | 'selected-low'
+  | 'handicap-low'
+  | 'handicap-high';
 
 // Quick filter presets
 type QuickFilter =
@@ -86,8 +98,14 @@ const TeamBuilderPage: React.FC = () => {
   const navigate = useNavigate();
   const [golfers, setGolfers] = useState<Golfer[]>([]);
   const [selectedGolfers, setSelectedGolfers] = useState<Golfer[]>([]);
+  const [selectedBench, setSelectedBench] = useState<Golfer[]>([]);
   const [hasExistingTeam, setHasExistingTeam] = useState(false);
   const [existingCaptainId, setExistingCaptainId] = useState<string | null>(null);
+  const [originalGolferIds, setOriginalGolferIds] = useState<string[]>([]);
+  const [transferStatus, setTransferStatus] = useState<TransferStatus | null>(null);
+  const [squadValue, setSquadValue] = useState<SquadValue | null>(null);
+  const [chipStatus, setChipStatus] = useState<ChipState[]>([]);
+  const [playWildcard, setPlayWildcard] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -97,6 +115,7 @@ const TeamBuilderPage: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<SortOption>('price-high');
   const [quickFilter, setQuickFilter] = useState<QuickFilter>('all');
+  const [handicapBand, setHandicapBand] = useState<HandicapBand>('all');
   const [settings, setSettings] = useState<Settings | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedGolferDetail, setSelectedGolferDetail] = useState<Golfer | null>(null);
@@ -113,7 +132,14 @@ const TeamBuilderPage: React.FC = () => {
       // Fetch golfers, user's picks, and settings in parallel
       const [playersRes, picksRes, settingsRes] = await Promise.all([
         get<Golfer[]>('golfers-list?all=true'),
-        get<{ golfers: Golfer[]; captainId?: string | null }>('picks-get'),
+        get<{
+          golfers: Golfer[];
+          bench?: Golfer[];
+          captainId?: string | null;
+          chipStatus?: ChipState[];
+          transferStatus?: TransferStatus;
+          squadValue?: SquadValue;
+        }>('picks-get'),
         get<Settings>('settings-public'),
       ]);
 
@@ -127,11 +153,17 @@ const TeamBuilderPage: React.FC = () => {
       }
 
       if (picksRes.success && picksRes.data?.golfers) {
+        const bench = picksRes.data.bench ?? [];
         setSelectedGolfers(picksRes.data.golfers);
+        setSelectedBench(bench);
+        setOriginalGolferIds([...picksRes.data.golfers, ...bench].map((g) => g.id));
         setHasExistingTeam(true);
         if (picksRes.data.captainId) {
           setExistingCaptainId(picksRes.data.captainId);
         }
+        setChipStatus(picksRes.data.chipStatus ?? []);
+        setTransferStatus(picksRes.data.transferStatus ?? null);
+        setSquadValue(picksRes.data.squadValue ?? null);
       }
 
       if (settingsRes.success && settingsRes.data) {
@@ -150,9 +182,32 @@ const TeamBuilderPage: React.FC = () => {
     }
   }, [isAuthReady, fetchData]);
 
-  const budgetUsed = selectedGolfers.reduce((sum, p) => sum + p.price, 0);
-  const budgetRemaining = TOTAL_BUDGET - budgetUsed;
-  const budgetPercentage = (budgetUsed / TOTAL_BUDGET) * 100;
+  const wildcard = chipStatus.find((c) => c.chip === 'wildcard');
+
+  // Points this save will cost once the weekly free transfers are used up
+  const transferHit = useMemo(() => {
+    if (!hasExistingTeam || !transferStatus || transferStatus.unlimited || playWildcard) return 0;
+    if (transferStatus.transfersUsed < transferStatus.maxTransfers) return 0;
+    // Moving golfers between the team and the bench is free
+    const swaps = [...selectedGolfers, ...selectedBench].filter(
+      (g) => !originalGolferIds.includes(g.id)
+    ).length;
+    return swaps * transferStatus.penaltyPerSwap;
+  }, [hasExistingTeam, transferStatus, playWildcard, selectedGolfers, selectedBench, originalGolferIds]);
+
+  // An existing team spends its bank plus what its squad would sell for. Golfers already
+  // owned cost their selling price; new signings cost today's price.
+  const sellingPrices = useMemo(
+    () => new Map((squadValue?.golfers ?? []).map((g) => [g.golferId, g.sellingPrice])),
+    [squadValue]
+  );
+  const costOf = (golfer: Golfer) => sellingPrices.get(golfer.id) ?? golfer.price;
+  const totalBudget = squadValue ? squadValue.bank + squadValue.teamValue : TOTAL_BUDGET;
+
+  // The bench is paid for out of the same budget as the team
+  const budgetUsed = [...selectedGolfers, ...selectedBench].reduce((sum, p) => sum + costOf(p), 0);
+  const budgetRemaining = totalBudget - budgetUsed;
+  const budgetPercentage = (budgetUsed / totalBudget) * 100;
 
   const formatPrice = (price: number) => {
     return `$${(price / 1000000).toFixed(1)}M`;
@@ -162,6 +217,10 @@ const TeamBuilderPage: React.FC = () => {
     return selectedGolfers.some((g) => g.id === golfer.id);
   };
 
+  const isOnBench = (golfer: Golfer) => {
+    return selectedBench.some((g) => g.id === golfer.id);
+  };
+
   // Determine if the user can edit their team
   // - If they have an existing team, check transfersOpen
   // - If they don't have a team, check allowNewTeamCreation
@@ -194,6 +253,28 @@ const TeamBuilderPage: React.FC = () => {
     setToast({ message: `✕ ${golfer.firstName} ${golfer.lastName} removed`, type: 'warning' });
   };
 
+  const handleAddToBench = (golfer: Golfer) => {
+    if (!canEditTeam || isSelected(golfer) || isOnBench(golfer)) return;
+    if (selectedBench.length >= MAX_BENCH_SIZE) return;
+
+    setSelectedBench([...selectedBench, golfer]);
+    setToast({ message: `✓ ${golfer.firstName} ${golfer.lastName} added to bench`, type: 'success' });
+  };
+
+  const handleRemoveFromBench = (golfer: Golfer) => {
+    if (!canEditTeam) return;
+    setSelectedBench(selectedBench.filter((g) => g.id !== golfer.id));
+    setToast({ message: `✕ ${golfer.firstName} ${golfer.lastName} removed from bench`, type: 'warning' });
+  };
+
+  // Bench order is the order substitutes come on in
+  const handleMoveBenchUp = (index: number) => {
+    if (!canEditTeam || index === 0) return;
+    const reordered = [...selectedBench];
+    [reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+    setSelectedBench(reordered);
+  };
+
   const handleSaveTeam = async () => {
     if (!canEditTeam) return;
 
@@ -205,6 +286,15 @@ const TeamBuilderPage: React.FC = () => {
       return;
     }
 
+    if (
+      transferHit > 0 &&
+      !window.confirm(
+        `You have used all your free transfers this week. This transfer will cost ${transferHit} points. Continue?`
+      )
+    ) {
+      return;
+    }
+
     try {
       setSaving(true);
       setError(null);
@@ -216,6 +306,8 @@ const TeamBuilderPage: React.FC = () => {
       const response = await post('picks-save', {
         golferIds: selectedIds,
         captainId: captainStillInTeam ? existingCaptainId : null,
+        benchIds: selectedBench.map((p) => p.id),
+        ...(playWildcard && { chip: 'wildcard' }),
       });
 
       if (!response.success) {
@@ -234,14 +326,14 @@ const TeamBuilderPage: React.FC = () => {
   // Combine stats from all seasons for filtering/sorting
   const getCombinedStats = (golfer: Golfer) => {
     if (!golfer.seasonStats || golfer.seasonStats.length === 0) {
-      const s = golfer.stats2025;
+      const s = getGolferSeasonStats(golfer.statsBySeason, 'overall');
       return {
-        timesPlayed: s?.timesPlayed ?? 0,
-        timesFinished1st: s?.timesFinished1st ?? 0,
-        timesFinished2nd: s?.timesFinished2nd ?? 0,
-        timesFinished3rd: s?.timesFinished3rd ?? 0,
-        timesBonusScored: s?.timesBonusScored ?? 0,
-        timesScored32Plus: 0,
+        timesPlayed: s.timesPlayed,
+        timesFinished1st: s.timesFinished1st,
+        timesFinished2nd: s.timesFinished2nd,
+        timesFinished3rd: s.timesFinished3rd,
+        timesScored36Plus: s.timesScored36Plus,
+        timesScored32Plus: s.timesScored32Plus,
         totalPoints: 0,
       };
     }
@@ -251,7 +343,7 @@ const TeamBuilderPage: React.FC = () => {
         timesFinished1st: acc.timesFinished1st + ss.timesFinished1st,
         timesFinished2nd: acc.timesFinished2nd + ss.timesFinished2nd,
         timesFinished3rd: acc.timesFinished3rd + ss.timesFinished3rd,
-        timesBonusScored: acc.timesBonusScored + ss.timesBonusScored,
+        timesScored36Plus: acc.timesScored36Plus + (ss.timesScored36Plus || 0),
         timesScored32Plus: acc.timesScored32Plus + (ss.timesScored32Plus || 0),
         totalPoints: acc.totalPoints + ss.totalPoints,
       }),
@@ -260,7 +352,7 @@ const TeamBuilderPage: React.FC = () => {
         timesFinished1st: 0,
         timesFinished2nd: 0,
         timesFinished3rd: 0,
-        timesBonusScored: 0,
+        timesScored36Plus: 0,
         timesScored32Plus: 0,
         totalPoints: 0,
       }
@@ -322,11 +414,12 @@ const TeamBuilderPage: React.FC = () => {
   const resetFilters = () => {
     setSearchTerm('');
     setQuickFilter('all');
+    setHandicapBand('all');
     setSortBy('price-high');
   };
 
   // Check if any filters are active
-  const hasActiveFilters = searchTerm !== '' || quickFilter !== 'all';
+  const hasActiveFilters = searchTerm !== '' || quickFilter !== 'all' || handicapBand !== 'all';
 
   // Filter and sort golfers
   const filteredGolfers = golfers
@@ -334,7 +427,9 @@ const TeamBuilderPage: React.FC = () => {
       const fullName = `${golfer.firstName} ${golfer.lastName}`;
       const matches = matchesSearch(fullName, searchTerm);
       const matchesQuickFilter = applyQuickFilter(golfer);
-      return matches && matchesQuickFilter;
+      return (
+        matches && matchesQuickFilter && matchesHandicapBand(golfer.handicapIndex, handicapBand)
+      );
     })
     .sort((a, b) => {
       switch (sortBy) {
@@ -362,6 +457,10 @@ const TeamBuilderPage: React.FC = () => {
           return (b.selectedPercentage ?? 0) - (a.selectedPercentage ?? 0);
         case 'selected-low':
           return (a.selectedPercentage ?? 0) - (b.selectedPercentage ?? 0);
+        case 'handicap-low':
+          return compareHandicaps(a.handicapIndex, b.handicapIndex, 'asc');
+        case 'handicap-high':
+          return compareHandicaps(a.handicapIndex, b.handicapIndex, 'desc');
         default:
           return 0;
       }
@@ -377,7 +476,7 @@ const TeamBuilderPage: React.FC = () => {
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, quickFilter, sortBy]);
+  }, [searchTerm, quickFilter, handicapBand, sortBy]);
 
   // Generate page numbers for pagination
   const getPageNumbers = () => {
@@ -454,7 +553,7 @@ const TeamBuilderPage: React.FC = () => {
               </div>
               <div className="budget-details">
                 <span>Spent: {formatPrice(budgetUsed)}</span>
-                <span>Total: {formatPrice(TOTAL_BUDGET)}</span>
+                <span>Total: {formatPrice(totalBudget)}</span>
               </div>
             </div>
 
@@ -493,7 +592,7 @@ const TeamBuilderPage: React.FC = () => {
                         <>
                           <div className="slot-golfer">
                             <span className="slot-name">{golfer.lastName}</span>
-                            <span className="slot-price">{formatPrice(golfer.price)}</span>
+                            <span className="slot-price">{formatPrice(costOf(golfer))}</span>
                           </div>
                           {canEditTeam && (
                             <button
@@ -515,6 +614,50 @@ const TeamBuilderPage: React.FC = () => {
                   );
                 })}
               </div>
+              <div className="bench-header">
+                <h4>🪑 Bench</h4>
+                <span className="team-count">
+                  {selectedBench.length} / {MAX_BENCH_SIZE} optional
+                </span>
+              </div>
+              <div className="bench-slots">
+                {selectedBench.length === 0 ? (
+                  <p className="bench-empty-text">
+                    Add up to {MAX_BENCH_SIZE} substitutes. They come on in order for any starter
+                    who doesn&apos;t play that week.
+                  </p>
+                ) : (
+                  selectedBench.map((golfer, index) => (
+                    <div key={golfer.id} className="bench-slot">
+                      <span className="bench-order">{index + 1}</span>
+                      <div className="bench-golfer">
+                        <span className="slot-name">{golfer.lastName}</span>
+                        <span className="slot-price">{formatPrice(costOf(golfer))}</span>
+                      </div>
+                      {canEditTeam && (
+                        <div className="bench-actions">
+                          {index > 0 && (
+                            <button
+                              className="bench-move-up"
+                              onClick={() => handleMoveBenchUp(index)}
+                              title="Move up the bench"
+                            >
+                              ↑
+                            </button>
+                          )}
+                          <button
+                            className="bench-remove"
+                            onClick={() => handleRemoveFromBench(golfer)}
+                            title="Remove from bench"
+                          >
+                            ×
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
               {canEditTeam && (
                 <button
                   className={`btn btn-save-team ${selectedGolfers.length === TEAM_SIZE && budgetRemaining >= 0 ? '' : 'btn-incomplete'}`}
@@ -530,6 +673,27 @@ const TeamBuilderPage: React.FC = () => {
                         : `Select ${TEAM_SIZE - selectedGolfers.length} more golfer${TEAM_SIZE - selectedGolfers.length !== 1 ? 's' : ''}`}
                 </button>
               )}
+              {canEditTeam && transferHit > 0 && (
+                <div className="transfer-hit-warning">
+                  ⚠️ Extra transfer: this change will cost −{transferHit} pts
+                </div>
+              )}
+              {canEditTeam && hasExistingTeam && wildcard && (
+                <div className="wildcard-option">
+                  {wildcard.activeWeekStart ? (
+                    <span>🃏 Wildcard active: unlimited transfers this week</span>
+                  ) : wildcard.remaining > 0 ? (
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={playWildcard}
+                        onChange={(e) => setPlayWildcard(e.target.checked)}
+                      />
+                      🃏 Play Wildcard with this save (unlimited transfers this week)
+                    </label>
+                  ) : null}
+                </div>
+              )}
             </div>
           </section>
 
@@ -622,11 +786,29 @@ const TeamBuilderPage: React.FC = () => {
                   <optgroup label="Other">
                     <option value="selected-high">👥 Selected: High to Low</option>
                     <option value="selected-low">👥 Selected: Low to High</option>
+                    <option value="handicap-low">⛳ Handicap: Low to High</option>
+                    <option value="handicap-high">⛳ Handicap: High to Low</option>
                     <option value="name">🔤 Name: A-Z</option>
                   </optgroup>
                 </select>
               </div>
 
+              <div className="filter-group">
+                <label htmlFor="handicap-band">Handicap:</label>
+                <select
+                  id="handicap-band"
+                  name="handicap-band"
+                  value={handicapBand}
+                  onChange={(e) => setHandicapBand(e.target.value as HandicapBand)}
+                >
+                  {HANDICAP_BAND_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               {hasActiveFilters && (
                 <button className="reset-filters-btn" onClick={resetFilters}>
                   <span>✕</span>
@@ -643,6 +825,12 @@ const TeamBuilderPage: React.FC = () => {
                 {quickFilter !== 'all' && (
                   <span className="filter-tag">Quick: {quickFilter.replace('-', ' ')}</span>
                 )}
+                {handicapBand !== 'all' && (
+                  <span className="filter-tag">
+                    Handicap:{' '}
+                    {HANDICAP_BAND_OPTIONS.find((option) => option.value === handicapBand)?.label}
+                  </span>
+                )}
               </div>
             )}
           </section>
@@ -665,7 +853,7 @@ const TeamBuilderPage: React.FC = () => {
             {/* Compact Golfer Grid */}
             <div className="golfers-grid-compact">
               {paginatedGolfers.map((golfer) => {
-                const selected = isSelected(golfer);
+                const selected = isSelected(golfer) || isOnBench(golfer);
                 const podiums = getPodiums(golfer);
 
                 return (
@@ -701,6 +889,11 @@ const TeamBuilderPage: React.FC = () => {
                       </h4>
                       <div className="compact-meta">
                         <span className="compact-price">{formatPrice(golfer.price)}</span>
+                        {golfer.handicapIndex !== null && golfer.handicapIndex !== undefined && (
+                          <span className="compact-handicap">
+                            HCP {formatHandicap(golfer.handicapIndex)}
+                          </span>
+                        )}
                       </div>
                       <div className="compact-stat">
                         <span className="compact-stat-icon">🏅</span>
@@ -796,6 +989,12 @@ const TeamBuilderPage: React.FC = () => {
                 </h2>
                 <div className="modal-meta">
                   <span className="modal-price">{formatPrice(selectedGolferDetail.price)}</span>
+                  {selectedGolferDetail.handicapIndex !== null &&
+                    selectedGolferDetail.handicapIndex !== undefined && (
+                      <span className="modal-handicap">
+                        Handicap {formatHandicap(selectedGolferDetail.handicapIndex)}
+                      </span>
+                    )}
                 </div>
               </div>
             </div>
@@ -925,8 +1124,8 @@ const TeamBuilderPage: React.FC = () => {
                                 <div className="stat-label">🥉 3rd</div>
                               </div>
                               <div className="modal-stat-item">
-                                <div className="stat-value">{ss.timesBonusScored}</div>
-                                <div className="stat-label">⭐ Bonus</div>
+                                <div className="stat-value">{ss.timesScored36Plus}</div>
+                                <div className="stat-label">⭐ 36+</div>
                               </div>
                             </div>
                             <div
@@ -957,7 +1156,9 @@ const TeamBuilderPage: React.FC = () => {
             <div className="modal-action">
               {(() => {
                 const selected = isSelected(selectedGolferDetail);
+                const onBench = isOnBench(selectedGolferDetail);
                 const teamFull = selectedGolfers.length >= TEAM_SIZE;
+                const benchFull = selectedBench.length >= MAX_BENCH_SIZE;
 
                 if (!canEditTeam) {
                   return (
@@ -981,11 +1182,35 @@ const TeamBuilderPage: React.FC = () => {
                   );
                 }
 
-                if (teamFull) {
+                if (onBench) {
                   return (
+                    <button
+                      className="modal-btn remove"
+                      onClick={() => {
+                        handleRemoveFromBench(selectedGolferDetail);
+                        setSelectedGolferDetail(null);
+                      }}
+                    >
+                      ✕ Remove from Bench
+                    </button>
+                  );
+                }
+
+                if (teamFull) {
+                  return benchFull ? (
                     <button className="modal-btn disabled" disabled>
                       👥 Team Full (6/6 golfers)
                     </button>
+                  ) : (
+                    <button
+                      className="modal-btn add"
+                      onClick={() => {
+                        handleAddToBench(selectedGolferDetail);
+                        setSelectedGolferDetail(null);
+                      }}
+                    >
+                      🪑 Add to Bench
+                    </button>
                   );
                 }
 
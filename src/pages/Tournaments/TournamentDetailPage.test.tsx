@@ -8,6 +8,16 @@ vi.mock('../../hooks/useApiClient', () => ({
   }),
 }));
 
+vi.mock('../../hooks/useTournamentTypes', () => ({
+  useTournamentTypes: () => ({
+    types: [],
+    loading: false,
+    error: null,
+    refetch: vi.fn(),
+    getTypeLabel: (type: string) => type,
+  }),
+}));
+
 vi.mock('../../hooks/useDocumentTitle', () => ({
   useDocumentTitle: vi.fn(),
 }));
@@ -7,8 +7,9 @@ import DataTable, { Column } from '../../components/ui/DataTable';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import { useApiClient } from '../../hooks/useApiClient';
 import { useDocumentTitle } from '../../hooks/useDocumentTitle';
-import { getTournamentTypeLabel, TOURNAMENT_TYPE_CONFIG, TournamentType } from '@shared/types';
-import { formatRawScore } from '../../utils/formatters';
+import { useTournamentTypes } from '../../hooks/useTournamentTypes';
+import { TEAM_FORMAT_LABELS, type TeamFormat, type TournamentType } from '@shared/types';
+import { formatPosition, formatRawScore } from '../../utils/formatters';
 import './TournamentDetailPage.css';
 
 interface Golfer {
@@ -20,7 +21,9 @@ interface Golfer {
 
 interface GolferScore {
   golfer: Golfer;
+  partners: Golfer[]; // the rest of the pairing in a team-format event
   position: number | null;
+  tied: boolean;
   participated: boolean;
   rawScore: number;
   basePoints: number;
@@ -30,7 +33,10 @@ interface GolferScore {
 
 interface PodiumEntry {
   golfer: Golfer;
+  partners: Golfer[];
   points: number;
+  tied: boolean;
+  tiedWith: Golfer[]; // others sharing the place on countback
 }
 
 interface Tournament {
@@ -41,6 +47,7 @@ interface Tournament {
   tournamentType: TournamentType;
   scoringFormat: 'stableford' | 'medal';
   isMultiDay: boolean;
+  teamFormat: TeamFormat | null;
   multiplier: number;
   golferCountTier: '0-10' | '10-20' | '20+';
   status: 'draft' | 'published' | 'complete';
@@ -66,6 +73,7 @@ interface TournamentDetailData {
 const TournamentDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const { get, isAuthReady } = useApiClient();
+  const { getTypeLabel } = useTournamentTypes();
   const [data, setData] = useState<TournamentDetailData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -122,10 +130,9 @@ const TournamentDetailPage: React.FC = () => {
   };
 
   // Get tournament type badge class
-  const getTypeBadgeClass = (type: TournamentType) => {
-    const config = TOURNAMENT_TYPE_CONFIG[type];
-    if (config.multiplier >= 4) return 'detail-type-badge detail-type-signature';
-    if (config.multiplier >= 2) return 'detail-type-badge detail-type-elevated';
+  const getTypeBadgeClass = (multiplier: number) => {
+    if (multiplier >= 4) return 'detail-type-badge detail-type-signature';
+    if (multiplier >= 2) return 'detail-type-badge detail-type-elevated';
     return 'detail-type-badge detail-type-regular';
   };
 
@@ -138,41 +145,54 @@ const TournamentDetailPage: React.FC = () => {
         width: '60px',
         align: 'center',
         render: (score) => {
-          if (score.position === 1) return <span className="position-badge position-gold">1</span>;
+          const label = score.tied ? formatPosition(score.position, true) : score.position;
+          if (score.position === 1)
+            return <span className="position-badge position-gold">{label}</span>;
           if (score.position === 2)
-            return <span className="position-badge position-silver">2</span>;
+            return <span className="position-badge position-silver">{label}</span>;
           if (score.position === 3)
-            return <span className="position-badge position-bronze">3</span>;
+            return <span className="position-badge position-bronze">{label}</span>;
           return <span className="dt-cell-muted">-</span>;
         },
       },
       {
         key: 'golfer',
-        header: 'Golfer',
+        header: data?.tournament.teamFormat ? 'Pairing' : 'Golfer',
         render: (score) => (
-          <Link to={`/golfers/${score.golfer.id}`} className="dt-cell-link">
-            <div className="dt-info-cell">
-              <div className="dt-avatar">
-                {score.golfer.picture ? (
-                  <img
-                    src={score.golfer.picture}
-                    alt={`${score.golfer.firstName} ${score.golfer.lastName}`}
-                    loading="lazy"
-                  />
-                ) : (
-                  <span className="dt-avatar-placeholder">
-                    {score.golfer.firstName[0]}
-                    {score.golfer.lastName[0]}
+          <>
+            <Link to={`/golfers/${score.golfer.id}`} className="dt-cell-link">
+              <div className="dt-info-cell">
+                <div className="dt-avatar">
+                  {score.golfer.picture ? (
+                    <img
+                      src={score.golfer.picture}
+                      alt={`${score.golfer.firstName} ${score.golfer.lastName}`}
+                      loading="lazy"
+                    />
+                  ) : (
+                    <span className="dt-avatar-placeholder">
+                      {score.golfer.firstName[0]}
+                      {score.golfer.lastName[0]}
+                    </span>
+                  )}
+                </div>
+                <div className="dt-info-details">
+                  <span className="dt-info-name">
+                    {score.golfer.firstName} {score.golfer.lastName}
                   </span>
-                )}
+                </div>
               </div>
-              <div className="dt-info-details">
-                <span className="dt-info-name">
-                  {score.golfer.firstName} {score.golfer.lastName}
-                </span>
+            </Link>
+            {score.partners.length > 0 && (
+              <div className="pairing-partners">
+                {score.partners.map((partner) => (
+                  <Link key={partner.id} to={`/golfers/${partner.id}`}>
+                    &amp; {partner.firstName} {partner.lastName}
+                  </Link>
+                ))}
               </div>
-            </div>
-          </Link>
+            )}
+          </>
         ),
       },
       {
@@ -268,10 +288,15 @@ const TournamentDetailPage: React.FC = () => {
             <h1>{tournament.name}</h1>
             <div className="tournament-meta">
               <span className="tournament-date">{formatDate(tournament.startDate)}</span>
-              <span className={getTypeBadgeClass(tournament.tournamentType)}>
-                {getTournamentTypeLabel(tournament.tournamentType)}
+              <span className={getTypeBadgeClass(tournament.multiplier)}>
+                {getTypeLabel(tournament.tournamentType)}
                 <span className="multiplier">{tournament.multiplier}x</span>
               </span>
+              {tournament.teamFormat && (
+                <span className="team-format-badge">
+                  {TEAM_FORMAT_LABELS[tournament.teamFormat]}
+                </span>
+              )}
               <span className={`status-badge status-${tournament.status}`}>
                 {tournament.status.charAt(0).toUpperCase() + tournament.status.slice(1)}
               </span>
@@ -320,10 +345,20 @@ const TournamentDetailPage: React.FC = () => {
                           </span>
                         )}
                       </div>
-                      <div className="podium-rank">2nd</div>
+                      <div className="podium-rank">{formatPosition(2, podium.second.tied)}</div>
                       <Link to={`/golfers/${podium.second.golfer.id}`} className="podium-name">
                         {podium.second.golfer.firstName} {podium.second.golfer.lastName}
                       </Link>
+                      {podium.second.partners.map((golfer) => (
+                        <Link key={golfer.id} to={`/golfers/${golfer.id}`} className="podium-name">
+                          &amp; {golfer.firstName} {golfer.lastName}
+                        </Link>
+                      ))}
+                      {podium.second.tiedWith.map((golfer) => (
+                        <Link key={golfer.id} to={`/golfers/${golfer.id}`} className="podium-name">
+                          {golfer.firstName} {golfer.lastName}
+                        </Link>
+                      ))}
                       <div className="podium-points">{podium.second.points} pts</div>
                     </>
                   ) : (
@@ -335,7 +370,9 @@ const TournamentDetailPage: React.FC = () => {
                 <div className="podium-position podium-first">
                   {podium.first ? (
                     <>
-                      <div className="podium-trophy">Winner</div>
+                      <div className="podium-trophy">
+                        {podium.first.tied ? 'Joint Winners' : 'Winner'}
+                      </div>
                       <div className="podium-avatar">
                         {podium.first.golfer.picture ? (
                           <img
@@ -350,10 +387,20 @@ const TournamentDetailPage: React.FC = () => {
                           </span>
                         )}
                       </div>
-                      <div className="podium-rank">1st</div>
+                      <div className="podium-rank">{formatPosition(1, podium.first.tied)}</div>
                       <Link to={`/golfers/${podium.first.golfer.id}`} className="podium-name">
                         {podium.first.golfer.firstName} {podium.first.golfer.lastName}
                       </Link>
+                      {podium.first.partners.map((golfer) => (
+                        <Link key={golfer.id} to={`/golfers/${golfer.id}`} className="podium-name">
+                          &amp; {golfer.firstName} {golfer.lastName}
+                        </Link>
+                      ))}
+                      {podium.first.tiedWith.map((golfer) => (
+                        <Link key={golfer.id} to={`/golfers/${golfer.id}`} className="podium-name">
+                          {golfer.firstName} {golfer.lastName}
+                        </Link>
+                      ))}
                       <div className="podium-points">{podium.first.points} pts</div>
                     </>
                   ) : (
@@ -379,10 +426,20 @@ const TournamentDetailPage: React.FC = () => {
                           </span>
                         )}
                       </div>
-                      <div className="podium-rank">3rd</div>
+                      <div className="podium-rank">{formatPosition(3, podium.third.tied)}</div>
                       <Link to={`/golfers/${podium.third.golfer.id}`} className="podium-name">
                         {podium.third.golfer.firstName} {podium.third.golfer.lastName}
                       </Link>
+                      {podium.third.partners.map((golfer) => (
+                        <Link key={golfer.id} to={`/golfers/${golfer.id}`} className="podium-name">
+                          &amp; {golfer.firstName} {golfer.lastName}
+                        </Link>
+                      ))}
+                      {podium.third.tiedWith.map((golfer) => (
+                        <Link key={golfer.id} to={`/golfers/${golfer.id}`} className="podium-name">
+                          {golfer.firstName} {golfer.lastName}
+                        </Link>
+                      ))}
                       <div className="podium-points">{podium.third.points} pts</div>
                     </>
                   ) : (
@@ -12,7 +12,16 @@ vi.mock('../../hooks/useActiveSeason', () => ({
   useActiveSeason: () => ({
     season: { id: 's1', name: '2025', isActive: true },
     loading: false,
-    statsKey: 'stats2025',
+  }),
+}));
+
+vi.mock('../../hooks/useTournamentTypes', () => ({
+  useTournamentTypes: () => ({
+    types: [],
+    loading: false,
+    error: null,
+    refetch: vi.fn(),
+    getTypeLabel: (type: string) => type,
   }),
 }));
 
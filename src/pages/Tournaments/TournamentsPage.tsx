@@ -10,7 +10,8 @@ import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import { useApiClient } from '../../hooks/useApiClient';
 import { useActiveSeason } from '../../hooks/useActiveSeason';
 import { useDocumentTitle } from '../../hooks/useDocumentTitle';
-import { getTournamentTypeLabel, TOURNAMENT_TYPE_CONFIG, TournamentType } from '@shared/types';
+import { useTournamentTypes } from '../../hooks/useTournamentTypes';
+import type { TournamentType } from '@shared/types';
 import './TournamentsPage.css';
 
 interface PodiumGolfer {
@@ -49,6 +50,7 @@ type TypeFilter = 'all' | TournamentType;
 const TournamentsPage: React.FC = () => {
   const { season } = useActiveSeason();
   const { get, isAuthReady } = useApiClient();
+  const { types, getTypeLabel } = useTournamentTypes();
   useDocumentTitle('Tournaments');
 
   const [selectedSeason, setSelectedSeason] = useState<string>('overall');
@@ -103,10 +105,9 @@ const TournamentsPage: React.FC = () => {
   };
 
   // Get tournament type badge class
-  const getTypeBadgeClass = (type: TournamentType) => {
-    const config = TOURNAMENT_TYPE_CONFIG[type];
-    if (config.multiplier >= 4) return 'tournament-type tournament-type-signature';
-    if (config.multiplier >= 2) return 'tournament-type tournament-type-elevated';
+  const getTypeBadgeClass = (multiplier: number) => {
+    if (multiplier >= 4) return 'tournament-type tournament-type-signature';
+    if (multiplier >= 2) return 'tournament-type tournament-type-elevated';
     return 'tournament-type tournament-type-regular';
   };
 
@@ -189,8 +190,8 @@ const TournamentsPage: React.FC = () => {
         width: '130px',
         align: 'center',
         render: (tournament) => (
-          <span className={getTypeBadgeClass(tournament.tournamentType)}>
-            {getTournamentTypeLabel(tournament.tournamentType)}
+          <span className={getTypeBadgeClass(tournament.multiplier)}>
+            {getTypeLabel(tournament.tournamentType)}
             <span className="multiplier-badge">{tournament.multiplier}x</span>
           </span>
         ),
@@ -265,7 +266,7 @@ const TournamentsPage: React.FC = () => {
         ),
       },
     ],
-    []
+    [getTypeLabel]
   );
 
   if ((loading || tournaments === null) && !error) {
@@ -282,11 +283,9 @@ const TournamentsPage: React.FC = () => {
 
   // Calculate stats - only from complete tournaments
   const completeTournaments = tournaments?.filter((t) => t.status === 'complete') || [];
-  const typeCounts = Object.keys(TOURNAMENT_TYPE_CONFIG).reduce(
-    (acc, key) => {
-      acc[key as TournamentType] = completeTournaments.filter(
-        (t) => t.tournamentType === key
-      ).length;
+  const typeCounts = types.reduce(
+    (acc, type) => {
+      acc[type.key] = completeTournaments.filter((t) => t.tournamentType === type.key).length;
       return acc;
     },
     {} as Record<TournamentType, number>
@@ -324,14 +323,9 @@ const TournamentsPage: React.FC = () => {
               className="filter-select"
             >
               <option value="all">All Types</option>
-              {(
-                Object.entries(TOURNAMENT_TYPE_CONFIG) as [
-                  TournamentType,
-                  (typeof TOURNAMENT_TYPE_CONFIG)[TournamentType],
-                ][]
-              ).map(([key, config]) => (
-                <option key={key} value={key}>
-                  {config.label} ({config.multiplier}×)
+              {types.map((type) => (
+                <option key={type.key} value={type.key}>
+                  {type.label} ({type.multiplier}×)
                 </option>
               ))}
             </select>
@@ -366,16 +360,11 @@ const TournamentsPage: React.FC = () => {
               <span className="stat-value">{completeTournaments.length}</span>
               <span className="stat-label">Tournaments</span>
             </div>
-            {(
-              Object.entries(TOURNAMENT_TYPE_CONFIG) as [
-                TournamentType,
-                (typeof TOURNAMENT_TYPE_CONFIG)[TournamentType],
-              ][]
-            ).map(([key, config]) => (
-              <div className="stat-item" key={key}>
-                <span className="stat-value">{typeCounts[key]}</span>
+            {types.map((type) => (
+              <div className="stat-item" key={type.key}>
+                <span className="stat-value">{typeCounts[type.key]}</span>
                 <span className="stat-label">
-                  {config.label} ({config.multiplier}×)
+                  {type.label} ({type.multiplier}×)
                 </span>
               </div>
             ))}
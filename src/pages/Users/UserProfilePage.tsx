@@ -12,21 +12,15 @@ import TeamSection from '../../components/ui/TeamSection';
 import TeamGolferTable from '../../components/ui/TeamGolferTable';
 import TeamHistory from '../../components/ui/TeamHistory';
 import TeamCompareModal from '../../components/ui/TeamCompareModal';
+import AwardBadges from '../../components/ui/AwardBadges';
 import { useAuth } from '../../hooks/useAuth';
 import { useApiClient } from '../../hooks/useApiClient';
 import { useActiveSeason } from '../../hooks/useActiveSeason';
 import { useDocumentTitle } from '../../hooks/useDocumentTitle';
 import { formatDate } from '../../utils/formatters';
+import type { GolferStatsBySeason } from '@shared/types';
 import './UserProfilePage.css';
 
-interface GolferStats {
-  timesBonusScored: number;
-  timesFinished1st: number;
-  timesFinished2nd: number;
-  timesFinished3rd: number;
-  timesPlayed: number;
-}
-
 interface TournamentScore {
   tournamentId: string;
   tournamentName: string;
@@ -46,8 +40,7 @@ interface Golfer {
   picture: string;
   price: number;
   isActive: boolean;
-  stats2025: GolferStats;
-  stats2026: GolferStats;
+  statsBySeason: GolferStatsBySeason;
 }
 
 interface GolferWithScores {
@@ -59,6 +52,7 @@ interface GolferWithScores {
   monthScores: TournamentScore[];
   seasonScores: TournamentScore[];
   isCaptain: boolean;
+  isViceCaptain?: boolean;
 }
 
 interface HistoryEntry {
@@ -110,6 +104,7 @@ interface UserProfileData {
   teamCreatedAt?: string;
   teamEffectiveStart?: string;
   captainId?: string | null;
+  viceCaptainId?: string | null;
   history: HistoryEntry[];
 }
 
@@ -260,6 +255,7 @@ const UserProfilePage: React.FC = () => {
                 <p className="profile-team-created">Team created {formatDate(team.createdAt)}</p>
               )}
               {isOwnProfile && <span className="own-profile-badge">This is you!</span>}
+              {userId && <AwardBadges userId={userId} />}
             </div>
             {hasTeam && !isOwnProfile && (
               <button className="btn-compare" onClick={() => setShowCompareModal(true)}>
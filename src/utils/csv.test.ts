@@ -0,0 +1,14 @@
+import { parseCSV } from './csv';
+
+describe('parseCSV', () => {
+  it('splits rows and trims cells', () => {
+    expect(parseCSV('firstName, lastName\nShane , Lowry\r\n')).toEqual([
+      ['firstName', 'lastName'],
+      ['Shane', 'Lowry'],
+    ]);
+  });
+
+  it('keeps commas inside quoted cells', () => {
+    expect(parseCSV('"Lowry, Shane",5.8')).toEqual([['Lowry, Shane', '5.8']]);
+  });
+});
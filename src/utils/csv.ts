@@ -0,0 +1,25 @@
+// Minimal CSV parsing for admin uploads
+// Handles quoted cells containing commas; cells are trimmed
+
+export function parseCSV(text: string): string[][] {
+  const lines = text.trim().split('\n');
+  return lines.map((line) => {
+    const result: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (char === ',' && !inQuotes) {
+        result.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    result.push(current.trim());
+    return result;
+  });
+}
@@ -3,8 +3,11 @@ import {
   formatPrice,
   formatDate,
   formatDateTime,
+  formatHandicap,
   formatPlayerName,
+  formatPosition,
   formatRawScore,
+  formatWinnerNames,
   getInitials,
 } from './formatters';
 
@@ -94,6 +97,40 @@ describe('formatPlayerName', () => {
   });
 });
 
+describe('formatPosition', () => {
+  it('formats outright places as ordinals', () => {
+    expect(formatPosition(1)).toBe('1st');
+    expect(formatPosition(2)).toBe('2nd');
+    expect(formatPosition(3)).toBe('3rd');
+    expect(formatPosition(4)).toBe('4th');
+    expect(formatPosition(11)).toBe('11th');
+    expect(formatPosition(22)).toBe('22nd');
+  });
+
+  it('prefixes tied places with T', () => {
+    expect(formatPosition(2, true)).toBe('T2');
+  });
+
+  it('returns dash without a position', () => {
+    expect(formatPosition(null)).toBe('-');
+  });
+});
+
+describe('formatHandicap', () => {
+  it('formats a handicap index to one decimal place', () => {
+    expect(formatHandicap(12)).toBe('12.0');
+    expect(formatHandicap(5.4)).toBe('5.4');
+  });
+
+  it('shows plus handicaps with a plus sign', () => {
+    expect(formatHandicap(-1.2)).toBe('+1.2');
+  });
+
+  it('returns dash without a handicap', () => {
+    expect(formatHandicap(null)).toBe('-');
+  });
+});
+
 describe('formatRawScore', () => {
   it('returns dash for null score', () => {
     expect(formatRawScore(null, 'medal')).toBe('-');
@@ -150,3 +187,18 @@ describe('getInitials', () => {
     expect(getInitials('A', 'B')).toBe('AB');
   });
 });
+
+describe('formatWinnerNames', () => {
+  it('returns a single winner by name', () => {
+    expect(formatWinnerNames([{ firstName: 'Jane', lastName: 'Smith' }])).toBe('Jane Smith');
+  });
+
+  it('joins shared winners', () => {
+    expect(
+      formatWinnerNames([
+        { firstName: 'Jane', lastName: 'Smith' },
+        { firstName: 'Tom', lastName: 'Jones' },
+      ])
+    ).toBe('Jane Smith & Tom Jones');
+  });
+});
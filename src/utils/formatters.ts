@@ -65,9 +65,41 @@ export const formatRawScore = (
   return String(rawScore);
 };
 
+/**
+ * Format a finishing position: ordinal for an outright place (e.g. 2nd),
+ * golf-style "T" prefix when shared on countback (e.g. T2).
+ */
+export const formatPosition = (position: number | null, tied: boolean = false): string => {
+  if (position === null || position === undefined) return '-';
+  if (tied) return `T${position}`;
+  const lastTwo = position % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${position}th`;
+  const suffix = ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[position % 10] ?? 'th';
+  return `${position}${suffix}`;
+};
+
+/**
+ * Format a handicap index to one decimal place.
+ * Plus handicaps are stored negative and shown with a "+" (e.g. -1.2 → +1.2).
+ */
+export const formatHandicap = (handicapIndex: number | null): string => {
+  if (handicapIndex === null || handicapIndex === undefined) return '-';
+  if (handicapIndex < 0) return `+${Math.abs(handicapIndex).toFixed(1)}`;
+  return handicapIndex.toFixed(1);
+};
+
 /**
  * Get initials from first and last name
  */
 export const getInitials = (firstName: string, lastName: string): string => {
   return `${firstName[0] || ''}${lastName[0] || ''}`.toUpperCase();
 };
+
+/**
+ * Join the names of managers who shared a win, e.g. "Jane Smith & Tom Jones"
+ */
+export const formatWinnerNames = (
+  winners: { firstName: string; lastName: string }[]
+): string => {
+  return winners.map((w) => formatPlayerName(w.firstName, w.lastName)).join(' & ');
+};
@@ -0,0 +1,39 @@
+import { compareHandicaps, matchesHandicapBand } from './handicap';
+
+describe('matchesHandicapBand', () => {
+  it('matches everyone for "all"', () => {
+    expect(matchesHandicapBand(null, 'all')).toBe(true);
+    expect(matchesHandicapBand(36, 'all')).toBe(true);
+  });
+
+  it('puts plus handicaps in single figures', () => {
+    expect(matchesHandicapBand(-1.2, 'single')).toBe(true);
+    expect(matchesHandicapBand(9.9, 'single')).toBe(true);
+    expect(matchesHandicapBand(10, 'single')).toBe(false);
+  });
+
+  it('uses half-open ranges for the other bands', () => {
+    expect(matchesHandicapBand(10, 'mid')).toBe(true);
+    expect(matchesHandicapBand(18.9, 'mid')).toBe(true);
+    expect(matchesHandicapBand(19, 'high')).toBe(true);
+    expect(matchesHandicapBand(29, 'very-high')).toBe(true);
+  });
+
+  it('matches golfers without a handicap only for "none"', () => {
+    expect(matchesHandicapBand(null, 'none')).toBe(true);
+    expect(matchesHandicapBand(null, 'single')).toBe(false);
+    expect(matchesHandicapBand(5, 'none')).toBe(false);
+  });
+});
+
+describe('compareHandicaps', () => {
+  it('orders by handicap in either direction', () => {
+    expect([12, -1, 5].sort((a, b) => compareHandicaps(a, b))).toEqual([-1, 5, 12]);
+    expect([12, -1, 5].sort((a, b) => compareHandicaps(a, b, 'desc'))).toEqual([12, 5, -1]);
+  });
+
+  it('always puts golfers without a handicap last', () => {
+    expect([null, 5, 2].sort((a, b) => compareHandicaps(a, b))).toEqual([2, 5, null]);
+    expect([null, 5, 2].sort((a, b) => compareHandicaps(a, b, 'desc'))).toEqual([5, 2, null]);
+  });
+});
@@ -0,0 +1,42 @@
+// Handicap index bands for filtering golfer lists
+// Bands are half-open ranges [min, max); plus handicaps (negative) fall in single figures
+
+export type HandicapBand = 'all' | 'single' | 'mid' | 'high' | 'very-high' | 'none';
+
+export const HANDICAP_BAND_OPTIONS: { value: HandicapBand; label: string }[] = [
+  { value: 'all', label: 'Any Handicap' },
+  { value: 'single', label: 'Single figures (< 10)' },
+  { value: 'mid', label: '10 – 18.9' },
+  { value: 'high', label: '19 – 28.9' },
+  { value: 'very-high', label: '29+' },
+  { value: 'none', label: 'No handicap' },
+];
+
+const BAND_RANGES: Record<Exclude<HandicapBand, 'all' | 'none'>, [number, number]> = {
+  single: [-Infinity, 10],
+  mid: [10, 19],
+  high: [19, 29],
+  'very-high': [29, Infinity],
+};
+
+export function matchesHandicapBand(handicapIndex: number | null, band: HandicapBand): boolean {
+  if (band === 'all') return true;
+  if (handicapIndex === null || handicapIndex === undefined) return band === 'none';
+  if (band === 'none') return false;
+  const [min, max] = BAND_RANGES[band];
+  return handicapIndex >= min && handicapIndex < max;
+}
+
+/**
+ * Compare handicap indexes for sorting. Golfers without a handicap always sort last,
+ * whichever way the list is ordered.
+ */
+export function compareHandicaps(
+  a: number | null,
+  b: number | null,
+  direction: 'asc' | 'desc' = 'asc'
+): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  return direction === 'asc' ? a - b : b - a;
+}